@@ -2,7 +2,17 @@
  * Alerts tab - violations with infinite scroll
  * Query keys include selectedServerId for proper cache isolation per media server
  */
-import { View, FlatList, RefreshControl, Pressable, ActivityIndicator } from 'react-native';
+import { useState } from 'react';
+import {
+  View,
+  FlatList,
+  RefreshControl,
+  Pressable,
+  ActivityIndicator,
+  Modal,
+  Switch,
+  TouchableOpacity,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useInfiniteQuery, useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { useRouter } from 'expo-router';
@@ -15,6 +25,11 @@ import {
   Globe,
   AlertTriangle,
   Check,
+  Workflow,
+  ShieldAlert,
+  Smartphone,
+  Gauge,
+  ClipboardCheck,
   type LucideIcon,
 } from 'lucide-react-native';
 import { api } from '@/lib/api';
@@ -24,8 +39,14 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { UserAvatar } from '@/components/ui/user-avatar';
 import { colors } from '@/lib/theme';
-import type { ViolationWithDetails, RuleType, UnitSystem } from '@tracearr/shared';
-import { formatSpeed } from '@tracearr/shared';
+import type {
+  ViolationWithDetails,
+  ViolationStatus,
+  RuleType,
+  UnitSystem,
+  UpdateViolationInput,
+} from '@tracearr/shared';
+import { formatSpeed, VIOLATION_STATUS_DISPLAY_NAMES } from '@tracearr/shared';
 
 const PAGE_SIZE = 50;
 
@@ -34,8 +55,12 @@ const ruleIcons: Record<RuleType, LucideIcon> = {
   impossible_travel: MapPin,
   simultaneous_locations: Users,
   device_velocity: Zap,
+  device_novelty: Smartphone,
   concurrent_streams: Monitor,
   geo_restriction: Globe,
+  anonymous_network: ShieldAlert,
+  stream_quality: Gauge,
+  composite: Workflow,
 };
 
 // Rule type display names
@@ -43,8 +68,12 @@ const ruleLabels: Record<RuleType, string> = {
   impossible_travel: 'Impossible Travel',
   simultaneous_locations: 'Simultaneous Locations',
   device_velocity: 'Device Velocity',
+  device_novelty: 'New Device Detection',
   concurrent_streams: 'Concurrent Streams',
   geo_restriction: 'Geo Restriction',
+  anonymous_network: 'VPN / Proxy Detection',
+  stream_quality: 'Transcode / Bandwidth Limits',
+  composite: 'Composite',
 };
 
 // Format violation data into readable description based on rule type
@@ -84,6 +113,17 @@ function getViolationDescription(violation: ViolationWithDetails, unitSystem: Un
       }
       return 'Too many unique devices in short period';
     }
+    case 'device_novelty': {
+      const newDeviceCount = data.newDeviceCount as number | undefined;
+      const windowHours = data.windowHours as number | undefined;
+      if (data.burst && newDeviceCount && windowHours) {
+        return `${newDeviceCount} new devices in ${windowHours}h window`;
+      }
+      if (data.newPlatform && data.platform) {
+        return `First-ever stream from a ${String(data.platform)} device`;
+      }
+      return 'New device detected';
+    }
     case 'concurrent_streams': {
       const streamCount = data.streamCount as number | undefined;
       const maxStreams = data.maxStreams as number | undefined;
@@ -100,6 +140,34 @@ function getViolationDescription(violation: ViolationWithDetails, unitSystem: Un
       }
       return 'Streaming from restricted location';
     }
+    case 'anonymous_network': {
+      const asnOrg = data.asnOrg as string | undefined;
+      const asn = data.asn as number | undefined;
+      const network = asnOrg || (asn ? `AS${asn}` : null);
+      return network ? `Streaming via VPN or proxy: ${network}` : 'Streaming via VPN or proxy';
+    }
+    case 'stream_quality': {
+      const transcodeCount = data.transcodeCount as number | undefined;
+      const remoteBitrateMbps = data.remoteBitrateMbps as number | undefined;
+      const transcodePercent = data.transcodePercent as number | undefined;
+      if (transcodeCount) {
+        return `${transcodeCount} concurrent transcodes`;
+      }
+      if (remoteBitrateMbps) {
+        return `${remoteBitrateMbps} Mbps remote bandwidth`;
+      }
+      if (transcodePercent) {
+        return `Transcoded ${transcodePercent}% of recent plays`;
+      }
+      return 'Exceeded transcode or bandwidth limit';
+    }
+    case 'composite': {
+      const matchedBranches = data.matchedBranches as string[] | undefined;
+      if (matchedBranches && matchedBranches.length > 0) {
+        return `Matched ${matchedBranches.length} composite condition${matchedBranches.length === 1 ? '' : 's'}`;
+      }
+      return 'Composite rule conditions matched';
+    }
     default:
       return 'Rule violation detected';
   }
@@ -120,6 +188,98 @@ function SeverityBadge({ severity }: { severity: string }) {
   );
 }
 
+const statusVariants: Record<
+  ViolationStatus,
+  'outline' | 'secondary' | 'success' | 'warning' | 'danger'
+> = {
+  open: 'warning',
+  investigating: 'secondary',
+  confirmed_sharing: 'danger',
+  false_positive: 'success',
+  resolved: 'outline',
+};
+
+function StatusBadge({ status }: { status: ViolationStatus }) {
+  return <Badge variant={statusVariants[status]}>{VIOLATION_STATUS_DISPLAY_NAMES[status]}</Badge>;
+}
+
+function ReviewModal({
+  violation,
+  onClose,
+  onSave,
+  isSaving,
+}: {
+  violation: ViolationWithDetails | null;
+  onClose: () => void;
+  onSave: (data: UpdateViolationInput) => void;
+  isSaving: boolean;
+}) {
+  const [status, setStatus] = useState<ViolationStatus>(violation?.status ?? 'open');
+  const [restoreTrust, setRestoreTrust] = useState(!!violation?.trustRestoredAt);
+
+  if (!violation) return null;
+
+  const handleSave = () => {
+    const data: UpdateViolationInput = { status };
+    if (status === 'false_positive') data.restoreTrust = restoreTrust;
+    onSave(data);
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable className="flex-1 justify-center items-center bg-black/60" onPress={onClose}>
+        <Pressable
+          className="w-4/5 max-w-sm bg-gray-900 rounded-xl overflow-hidden"
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View className="px-4 py-3 border-b border-gray-800">
+            <Text className="text-lg font-semibold text-white">Review Violation</Text>
+          </View>
+          <View className="py-2">
+            {(Object.keys(VIOLATION_STATUS_DISPLAY_NAMES) as ViolationStatus[]).map((value) => (
+              <TouchableOpacity
+                key={value}
+                onPress={() => setStatus(value)}
+                className="flex-row items-center justify-between px-4 py-3"
+                activeOpacity={0.7}
+              >
+                <Text
+                  className={`text-base ${
+                    value === status ? 'text-cyan-400 font-medium' : 'text-white'
+                  }`}
+                >
+                  {VIOLATION_STATUS_DISPLAY_NAMES[value]}
+                </Text>
+                {value === status && <Check size={20} color={colors.cyan.core} />}
+              </TouchableOpacity>
+            ))}
+          </View>
+          {status === 'false_positive' && (
+            <View className="flex-row items-center justify-between px-4 py-3 border-t border-gray-800">
+              <Text className="text-sm text-white flex-1 mr-3">Restore trust score penalty</Text>
+              <Switch
+                value={restoreTrust}
+                onValueChange={setRestoreTrust}
+                trackColor={{ false: colors.switch.trackOff, true: colors.switch.trackOn }}
+                thumbColor={restoreTrust ? colors.switch.thumbOn : colors.switch.thumbOff}
+              />
+            </View>
+          )}
+          <Pressable
+            className="items-center bg-cyan-core/15 py-3 m-4 rounded-lg active:opacity-70"
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            <Text className="text-sm font-semibold text-cyan-core">
+              {isSaving ? 'Saving...' : 'Save'}
+            </Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
 function RuleIcon({ ruleType }: { ruleType: RuleType | undefined }) {
   const IconComponent = ruleType ? ruleIcons[ruleType] : AlertTriangle;
   return (
@@ -132,11 +292,13 @@ function RuleIcon({ ruleType }: { ruleType: RuleType | undefined }) {
 function ViolationCard({
   violation,
   onAcknowledge,
+  onReview,
   onPress,
   unitSystem,
 }: {
   violation: ViolationWithDetails;
   onAcknowledge: () => void;
+  onReview: () => void;
   onPress: () => void;
   unitSystem: UnitSystem;
 }) {
@@ -165,7 +327,10 @@ function ViolationCard({
               <Text className="text-xs text-muted-foreground">{timeAgo}</Text>
             </View>
           </Pressable>
-          <SeverityBadge severity={violation.severity} />
+          <View className="items-end gap-1">
+            <SeverityBadge severity={violation.severity} />
+            <StatusBadge status={violation.status} />
+          </View>
         </View>
 
         {/* Content: Rule Type with Icon + Description */}
@@ -181,24 +346,36 @@ function ViolationCard({
           </View>
         </View>
 
-        {/* Action Button */}
-        {!violation.acknowledgedAt ? (
+        {/* Action Buttons */}
+        <View className="flex-row gap-2">
+          {!violation.acknowledgedAt ? (
+            <Pressable
+              className="flex-1 flex-row items-center justify-center gap-2 bg-cyan-core/15 py-2.5 rounded-lg active:opacity-70"
+              onPress={(e) => {
+                e.stopPropagation();
+                onAcknowledge();
+              }}
+            >
+              <Check size={16} color={colors.cyan.core} />
+              <Text className="text-sm font-semibold text-cyan-core">Acknowledge</Text>
+            </Pressable>
+          ) : (
+            <View className="flex-1 flex-row items-center justify-center gap-2 bg-success/10 py-2.5 rounded-lg">
+              <Check size={16} color={colors.success} />
+              <Text className="text-sm text-success">Acknowledged</Text>
+            </View>
+          )}
           <Pressable
-            className="flex-row items-center justify-center gap-2 bg-cyan-core/15 py-2.5 rounded-lg active:opacity-70"
+            className="flex-1 flex-row items-center justify-center gap-2 bg-surface py-2.5 rounded-lg active:opacity-70"
             onPress={(e) => {
               e.stopPropagation();
-              onAcknowledge();
+              onReview();
             }}
           >
-            <Check size={16} color={colors.cyan.core} />
-            <Text className="text-sm font-semibold text-cyan-core">Acknowledge</Text>
+            <ClipboardCheck size={16} color={colors.cyan.core} />
+            <Text className="text-sm font-semibold text-cyan-core">Review</Text>
           </Pressable>
-        ) : (
-          <View className="flex-row items-center justify-center gap-2 bg-success/10 py-2.5 rounded-lg">
-            <Check size={16} color={colors.success} />
-            <Text className="text-sm text-success">Acknowledged</Text>
-          </View>
-        )}
+        </View>
       </Card>
     </Pressable>
   );
@@ -208,6 +385,7 @@ export default function AlertsScreen() {
   const router = useRouter();
   const queryClient = useQueryClient();
   const { selectedServerId } = useMediaServer();
+  const [reviewing, setReviewing] = useState<ViolationWithDetails | null>(null);
 
   // Fetch settings for unit system preference
   const { data: settings } = useQuery({
@@ -244,6 +422,15 @@ export default function AlertsScreen() {
     },
   });
 
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateViolationInput }) =>
+      api.violations.review(id, data),
+    onSuccess: () => {
+      setReviewing(null);
+      void queryClient.invalidateQueries({ queryKey: ['violations', selectedServerId] });
+    },
+  });
+
   // Flatten all pages into single array
   const violations = data?.pages.flatMap((page) => page.data) || [];
   const unacknowledgedCount = violations.filter((v) => !v.acknowledgedAt).length;
@@ -271,6 +458,7 @@ export default function AlertsScreen() {
           <ViolationCard
             violation={item}
             onAcknowledge={() => acknowledgeMutation.mutate(item.id)}
+            onReview={() => setReviewing(item)}
             onPress={() => handleViolationPress(item)}
             unitSystem={unitSystem}
           />
@@ -321,6 +509,15 @@ export default function AlertsScreen() {
           </View>
         }
       />
+      <ReviewModal
+        key={reviewing?.id}
+        violation={reviewing}
+        onClose={() => setReviewing(null)}
+        onSave={(data) => {
+          if (reviewing) reviewMutation.mutate({ id: reviewing.id, data });
+        }}
+        isSaving={reviewMutation.isPending}
+      />
     </SafeAreaView>
   );
 }
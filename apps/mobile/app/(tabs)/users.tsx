@@ -50,9 +50,20 @@ function UserCard({ user, onPress }: { user: ServerUserWithIdentity; onPress: ()
         <View className="flex-row items-center gap-3 flex-1">
           <UserAvatar thumbUrl={user.thumbUrl} username={user.username} size={48} />
           <View className="flex-1">
-            <Text className="text-base font-semibold">{user.username}</Text>
+            <View className="flex-row items-center gap-2">
+              <Text className="text-base font-semibold">{user.username}</Text>
+              {user.suspendedUntil && (
+                <View className="px-1.5 py-0.5 rounded-sm bg-destructive/20">
+                  <Text className="text-xs font-semibold text-destructive">Suspended</Text>
+                </View>
+              )}
+            </View>
             <Text className="text-sm text-muted-foreground mt-0.5">
-              {user.role === 'owner' ? 'Owner' : 'User'}
+              {user.suspendedUntil
+                ? `Until ${new Date(user.suspendedUntil).toLocaleString()}`
+                : user.role === 'owner'
+                  ? 'Owner'
+                  : 'User'}
             </Text>
           </View>
         </View>
@@ -33,8 +33,12 @@ const RULE_TYPES = [
   { value: 'impossible_travel', label: 'Impossible Travel' },
   { value: 'simultaneous_locations', label: 'Simultaneous Locations' },
   { value: 'device_velocity', label: 'Device Velocity' },
+  { value: 'device_novelty', label: 'New Device Detection' },
   { value: 'concurrent_streams', label: 'Concurrent Streams' },
   { value: 'geo_restriction', label: 'Geo Restriction' },
+  { value: 'anonymous_network', label: 'VPN / Proxy Detection' },
+  { value: 'stream_quality', label: 'Transcode / Bandwidth Limits' },
+  { value: 'composite', label: 'Composite' },
 ] as const;
 
 // Severity levels
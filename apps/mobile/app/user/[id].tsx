@@ -27,6 +27,9 @@ import {
   XCircle,
   User,
   Bot,
+  Workflow,
+  ShieldAlert,
+  Gauge,
   type LucideIcon,
 } from 'lucide-react-native';
 import { useEffect, useState } from 'react';
@@ -46,6 +49,7 @@ import type {
   RuleType,
   TerminationLogWithDetails,
 } from '@tracearr/shared';
+import { RULE_ACTION_DISPLAY_NAMES } from '@tracearr/shared';
 
 const PAGE_SIZE = 10;
 
@@ -75,8 +79,12 @@ const ruleIcons: Record<RuleType, LucideIcon> = {
   impossible_travel: MapPin,
   simultaneous_locations: Users,
   device_velocity: Zap,
+  device_novelty: Smartphone,
   concurrent_streams: Monitor,
   geo_restriction: Globe,
+  anonymous_network: ShieldAlert,
+  stream_quality: Gauge,
+  composite: Workflow,
 };
 
 // Rule type display names
@@ -84,8 +92,12 @@ const ruleLabels: Record<RuleType, string> = {
   impossible_travel: 'Impossible Travel',
   simultaneous_locations: 'Simultaneous Locations',
   device_velocity: 'Device Velocity',
+  device_novelty: 'New Device Detection',
   concurrent_streams: 'Concurrent Streams',
   geo_restriction: 'Geo Restriction',
+  anonymous_network: 'VPN / Proxy Detection',
+  stream_quality: 'Transcode / Bandwidth Limits',
+  composite: 'Composite',
 };
 
 function TrustScoreBadge({ score, showLabel = false }: { score: number; showLabel?: boolean }) {
@@ -372,6 +384,7 @@ function TerminationCard({ termination }: { termination: TerminationLogWithDetai
           {isManual
             ? `By @${termination.triggeredByUsername ?? 'Unknown'}`
             : termination.ruleName ?? 'Unknown rule'}
+          {!isManual && termination.action && ` • ${RULE_ACTION_DISPLAY_NAMES[termination.action]}`}
         </Text>
         {termination.reason && (
           <Text className="text-xs text-muted-foreground mt-1" numberOfLines={2}>
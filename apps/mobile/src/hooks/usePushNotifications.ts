@@ -95,8 +95,12 @@ export function usePushNotifications() {
       impossible_travel: 'Impossible Travel',
       simultaneous_locations: 'Simultaneous Locations',
       device_velocity: 'Device Velocity',
+      device_novelty: 'New Device Detection',
       concurrent_streams: 'Concurrent Streams',
       geo_restriction: 'Geo Restriction',
+      anonymous_network: 'VPN / Proxy Detection',
+      stream_quality: 'Transcode / Bandwidth Limits',
+      composite: 'Composite',
     };
 
     const severityLabels: Record<string, string> = {
@@ -223,6 +227,16 @@ export function usePushNotifications() {
             router.push('/(tabs)/activity');
           } else if (data?.type === 'server_down' || data?.type === 'server_up') {
             router.push('/(tabs)');
+          } else if (
+            data?.type === 'user_suspended' ||
+            data?.type === 'user_reinstated' ||
+            data?.type === 'new_server_user' ||
+            data?.type === 'new_device' ||
+            data?.type === 'concurrent_streams' ||
+            data?.type === 'trust_score_changed'
+          ) {
+            const userId = data.userId as string | undefined;
+            router.push((userId ? `/user/${userId}` : '/(tabs)/users') as never);
           }
         })();
       }
@@ -17,6 +17,7 @@ import type {
   UserDevice,
   Violation,
   ViolationWithDetails,
+  UpdateViolationInput,
   Rule,
   Server,
   Settings,
@@ -447,6 +448,11 @@ export const api = {
       const response = await client.patch<Violation>(`/violations/${id}`);
       return response.data;
     },
+    review: async (id: string, data: UpdateViolationInput): Promise<Violation> => {
+      const client = await getApiClient();
+      const response = await client.patch<Violation>(`/violations/${id}`, data);
+      return response.data;
+    },
     dismiss: async (id: string): Promise<void> => {
       const client = await getApiClient();
       await client.delete(`/violations/${id}`);
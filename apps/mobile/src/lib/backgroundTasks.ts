@@ -67,6 +67,22 @@ async function handleNotificationType(payload: DecryptedPayload): Promise<void>
   ) {
     // Server status notifications are important
     console.log('[BackgroundTask] Processing server status notification');
+  } else if (
+    notificationType === 'user_suspended' ||
+    notificationType === 'user_reinstated'
+  ) {
+    // Suspension notifications are informational
+    console.log('[BackgroundTask] Processing suspension notification');
+  } else if (notificationType === 'new_server_user') {
+    // New user notifications are informational
+    console.log('[BackgroundTask] Processing new user notification');
+  } else if (
+    notificationType === 'new_device' ||
+    notificationType === 'concurrent_streams' ||
+    notificationType === 'trust_score_changed'
+  ) {
+    // User activity alerts are informational
+    console.log('[BackgroundTask] Processing user alert notification');
   } else if (notificationType === 'data_sync') {
     // Silent notification for background data refresh
     const syncType = payload.syncType as string | undefined;
@@ -0,0 +1,3 @@
+ALTER TABLE "rules" ADD COLUMN "actions" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "termination_logs" ADD COLUMN "action" varchar(30);--> statement-breakpoint
+CREATE INDEX "termination_logs_rule_cooldown_idx" ON "termination_logs" USING btree ("rule_id","server_user_id","created_at");
\ No newline at end of file
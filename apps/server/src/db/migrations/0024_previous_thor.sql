@@ -0,0 +1 @@
+ALTER TABLE "rules" ADD COLUMN "schedule" jsonb;
\ No newline at end of file
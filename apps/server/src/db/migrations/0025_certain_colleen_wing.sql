@@ -0,0 +1,18 @@
+CREATE TABLE "known_locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" varchar(10) NOT NULL,
+	"label" varchar(100) NOT NULL,
+	"cidr" varchar(50),
+	"asn" bigint,
+	"lat" real,
+	"lon" real,
+	"radius_km" real,
+	"source" varchar(10) DEFAULT 'manual' NOT NULL,
+	"dismissed" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "known_locations" ADD CONSTRAINT "known_locations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "known_locations_user_idx" ON "known_locations" USING btree ("user_id");
\ No newline at end of file
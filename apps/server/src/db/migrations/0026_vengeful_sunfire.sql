@@ -0,0 +1,2 @@
+ALTER TABLE "sessions" ADD COLUMN "asn" bigint;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "asn_org" varchar(255);
\ No newline at end of file
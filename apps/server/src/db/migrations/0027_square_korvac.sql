@@ -0,0 +1,19 @@
+CREATE TABLE "violation_notes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"violation_id" uuid NOT NULL,
+	"author_id" uuid,
+	"body" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "violations" ADD COLUMN "status" varchar(20) DEFAULT 'open' NOT NULL;--> statement-breakpoint
+ALTER TABLE "violations" ADD COLUMN "assignee_id" uuid;--> statement-breakpoint
+ALTER TABLE "violations" ADD COLUMN "dismissal_reason" text;--> statement-breakpoint
+ALTER TABLE "violations" ADD COLUMN "trust_restored_at" timestamp with time zone;--> statement-breakpoint
+-- Violations acknowledged before statuses existed start out resolved
+UPDATE "violations" SET "status" = 'resolved' WHERE "acknowledged_at" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "violation_notes" ADD CONSTRAINT "violation_notes_violation_id_violations_id_fk" FOREIGN KEY ("violation_id") REFERENCES "public"."violations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "violation_notes" ADD CONSTRAINT "violation_notes_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "violation_notes_violation_idx" ON "violation_notes" USING btree ("violation_id","created_at");--> statement-breakpoint
+ALTER TABLE "violations" ADD CONSTRAINT "violations_assignee_id_users_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "violations_status_idx" ON "violations" USING btree ("status");
\ No newline at end of file
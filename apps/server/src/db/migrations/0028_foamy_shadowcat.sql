@@ -0,0 +1,24 @@
+CREATE TABLE "trust_score_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_user_id" uuid NOT NULL,
+	"delta" integer NOT NULL,
+	"score" integer NOT NULL,
+	"reason" varchar(30) NOT NULL,
+	"violation_id" uuid,
+	"actor_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "trust_model" jsonb DEFAULT '{"penalties":{"low":5,"warning":10,"high":20},"rulePenalties":{},"floor":0,"ceiling":100,"recovery":{"enabled":false,"cleanDays":14,"pointsPerDay":1},"decay":{"enabled":false,"afterDays":90}}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "violations" ADD COLUMN "trust_penalty" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "violations" ADD COLUMN "trust_decayed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "trust_score_events" ADD CONSTRAINT "trust_score_events_server_user_id_server_users_id_fk" FOREIGN KEY ("server_user_id") REFERENCES "public"."server_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trust_score_events" ADD CONSTRAINT "trust_score_events_violation_id_violations_id_fk" FOREIGN KEY ("violation_id") REFERENCES "public"."violations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trust_score_events" ADD CONSTRAINT "trust_score_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trust_score_events_server_user_time_idx" ON "trust_score_events" USING btree ("server_user_id","created_at");--> statement-breakpoint
+-- Backfill the penalty existing violations were charged (previously fixed by severity)
+UPDATE "violations" SET "trust_penalty" = CASE "severity"
+	WHEN 'high' THEN 20
+	WHEN 'warning' THEN 10
+	ELSE 5
+END;
@@ -0,0 +1 @@
+ALTER TABLE "rules" ADD COLUMN "cross_server" boolean DEFAULT false NOT NULL;
\ No newline at end of file
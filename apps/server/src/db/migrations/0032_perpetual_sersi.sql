@@ -0,0 +1,26 @@
+CREATE TABLE "account_actions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_id" uuid NOT NULL,
+	"server_user_id" uuid NOT NULL,
+	"action" varchar(30) NOT NULL,
+	"trigger" varchar(20) NOT NULL,
+	"triggered_by_user_id" uuid,
+	"rule_id" uuid,
+	"violation_id" uuid,
+	"library_ids" jsonb,
+	"previous_access" jsonb,
+	"success" boolean NOT NULL,
+	"error_message" text,
+	"undone_at" timestamp with time zone,
+	"undone_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "account_actions" ADD CONSTRAINT "account_actions_server_id_servers_id_fk" FOREIGN KEY ("server_id") REFERENCES "public"."servers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "account_actions" ADD CONSTRAINT "account_actions_server_user_id_server_users_id_fk" FOREIGN KEY ("server_user_id") REFERENCES "public"."server_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "account_actions" ADD CONSTRAINT "account_actions_triggered_by_user_id_users_id_fk" FOREIGN KEY ("triggered_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "account_actions" ADD CONSTRAINT "account_actions_rule_id_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."rules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "account_actions" ADD CONSTRAINT "account_actions_violation_id_violations_id_fk" FOREIGN KEY ("violation_id") REFERENCES "public"."violations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "account_actions" ADD CONSTRAINT "account_actions_undone_by_user_id_users_id_fk" FOREIGN KEY ("undone_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "account_actions_server_user_idx" ON "account_actions" USING btree ("server_user_id","created_at");--> statement-breakpoint
+CREATE INDEX "account_actions_rule_cooldown_idx" ON "account_actions" USING btree ("rule_id","server_user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "user_suspensions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_id" uuid NOT NULL,
+	"server_user_id" uuid NOT NULL,
+	"account_action_id" uuid,
+	"reason" text,
+	"ends_at" timestamp with time zone NOT NULL,
+	"suspended_by_user_id" uuid,
+	"ended_at" timestamp with time zone,
+	"end_reason" varchar(20),
+	"ended_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_server_id_servers_id_fk" FOREIGN KEY ("server_id") REFERENCES "public"."servers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_server_user_id_server_users_id_fk" FOREIGN KEY ("server_user_id") REFERENCES "public"."server_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_account_action_id_account_actions_id_fk" FOREIGN KEY ("account_action_id") REFERENCES "public"."account_actions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_suspended_by_user_id_users_id_fk" FOREIGN KEY ("suspended_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_ended_by_user_id_users_id_fk" FOREIGN KEY ("ended_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_suspensions_server_user_idx" ON "user_suspensions" USING btree ("server_user_id","created_at");--> statement-breakpoint
+CREATE INDEX "user_suspensions_active_idx" ON "user_suspensions" USING btree ("ended_at","ends_at");--> statement-breakpoint
+-- Seed default routing for the suspension events
+INSERT INTO "notification_channel_routing" ("event_type", "discord_enabled", "webhook_enabled", "push_enabled", "web_toast_enabled")
+VALUES
+  ('user_suspended', true, true, true, true),
+  ('user_reinstated', true, true, true, true)
+ON CONFLICT ("event_type") DO NOTHING;
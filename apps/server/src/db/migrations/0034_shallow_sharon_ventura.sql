@@ -0,0 +1,14 @@
+CREATE TABLE "policy_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"max_streams" integer,
+	"allowed_countries" jsonb,
+	"max_transcodes" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "policy_profile_id" uuid;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_policy_profile_id_policy_profiles_id_fk" FOREIGN KEY ("policy_profile_id") REFERENCES "public"."policy_profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "users_policy_profile_idx" ON "users" USING btree ("policy_profile_id");
\ No newline at end of file
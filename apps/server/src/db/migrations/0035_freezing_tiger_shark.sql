@@ -0,0 +1,11 @@
+ALTER TABLE "server_users" ADD COLUMN "joined_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "server_users" ADD COLUMN "source" varchar(20) DEFAULT 'unknown' NOT NULL;--> statement-breakpoint
+ALTER TABLE "server_users" ADD COLUMN "probation_until" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "probation_days" integer DEFAULT 14 NOT NULL;--> statement-breakpoint
+CREATE INDEX "server_users_joined_at_idx" ON "server_users" USING btree ("joined_at");--> statement-breakpoint
+-- Existing accounts joined when they were first synced
+UPDATE "server_users" SET "joined_at" = "created_at";--> statement-breakpoint
+-- Seed default routing for the new server user event
+INSERT INTO "notification_channel_routing" ("event_type", "discord_enabled", "webhook_enabled", "push_enabled", "web_toast_enabled")
+VALUES ('new_server_user', true, true, true, true)
+ON CONFLICT ("event_type") DO NOTHING;
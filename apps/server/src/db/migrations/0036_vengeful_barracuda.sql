@@ -0,0 +1,2 @@
+ALTER TABLE "server_users" ADD COLUMN "shared_libraries" jsonb;--> statement-breakpoint
+ALTER TABLE "server_users" ADD COLUMN "review_requested_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,49 @@
+CREATE TABLE "notification_destination_routes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"destination_id" uuid NOT NULL,
+	"event_type" varchar(50) NOT NULL,
+	"server_id" uuid,
+	"min_severity" varchar(20),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notification_destinations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"webhook_url" text NOT NULL,
+	"webhook_format" varchar(20) DEFAULT 'json' NOT NULL,
+	"ntfy_topic" text,
+	"auth_token" text,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_destination_routes" ADD CONSTRAINT "notification_destination_routes_destination_id_notification_destinations_id_fk" FOREIGN KEY ("destination_id") REFERENCES "public"."notification_destinations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_destination_routes" ADD CONSTRAINT "notification_destination_routes_server_id_servers_id_fk" FOREIGN KEY ("server_id") REFERENCES "public"."servers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notification_destination_routes_event_type_idx" ON "notification_destination_routes" USING btree ("event_type");--> statement-breakpoint
+CREATE INDEX "notification_destination_routes_destination_idx" ON "notification_destination_routes" USING btree ("destination_id");--> statement-breakpoint
+-- Existing Discord and custom webhooks become destinations
+INSERT INTO "notification_destinations" ("name", "type", "webhook_url")
+SELECT 'Discord', 'discord', "discord_webhook_url" FROM "settings"
+WHERE "discord_webhook_url" IS NOT NULL AND "discord_webhook_url" <> '';--> statement-breakpoint
+INSERT INTO "notification_destinations" ("name", "type", "webhook_url", "webhook_format", "ntfy_topic", "auth_token")
+SELECT
+  CASE "webhook_format" WHEN 'ntfy' THEN 'ntfy' WHEN 'apprise' THEN 'Apprise' ELSE 'Webhook' END,
+  'webhook', "custom_webhook_url", COALESCE("webhook_format", 'json'), "ntfy_topic", "ntfy_auth_token"
+FROM "settings"
+WHERE "custom_webhook_url" IS NOT NULL AND "custom_webhook_url" <> '';--> statement-breakpoint
+-- Keep the events each channel was receiving
+INSERT INTO "notification_destination_routes" ("destination_id", "event_type")
+SELECT d."id", r."event_type"
+FROM "notification_destinations" d
+JOIN "notification_channel_routing" r
+  ON (d."type" = 'discord' AND r."discord_enabled") OR (d."type" = 'webhook' AND r."webhook_enabled");--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" DROP COLUMN "discord_enabled";--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" DROP COLUMN "webhook_enabled";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "discord_webhook_url";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "custom_webhook_url";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "webhook_format";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "ntfy_topic";--> statement-breakpoint
+ALTER TABLE "settings" DROP COLUMN "ntfy_auth_token";
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "notification_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_type" varchar(50) NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_templates_event_type_unique" UNIQUE("event_type")
+);
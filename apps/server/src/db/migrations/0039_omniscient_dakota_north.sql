@@ -0,0 +1,27 @@
+CREATE TABLE "email_settings" (
+	"id" integer PRIMARY KEY DEFAULT 1 NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"smtp_host" text,
+	"smtp_port" integer DEFAULT 587 NOT NULL,
+	"smtp_secure" boolean DEFAULT false NOT NULL,
+	"smtp_username" text,
+	"smtp_password" text,
+	"from_address" text,
+	"recipients" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"digest_frequency" varchar(10) DEFAULT 'off' NOT NULL,
+	"digest_hour" integer DEFAULT 8 NOT NULL,
+	"digest_weekday" integer DEFAULT 1 NOT NULL,
+	"digest_timezone" varchar(100) DEFAULT 'UTC' NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "server_outages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"server_id" uuid NOT NULL,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"ended_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "notification_channel_routing" ADD COLUMN "email_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "server_outages" ADD CONSTRAINT "server_outages_server_id_servers_id_fk" FOREIGN KEY ("server_id") REFERENCES "public"."servers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "server_outages_server_started_idx" ON "server_outages" USING btree ("server_id","started_at");
\ No newline at end of file
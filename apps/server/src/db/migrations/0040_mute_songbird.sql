@@ -0,0 +1 @@
+ALTER TABLE "notification_destinations" ADD COLUMN "chat_id" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_suspensions" ADD COLUMN "reinstate_error" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "known_locations" ADD COLUMN "pending" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+-- Locations learned so far were never confirmed by the owner
+UPDATE "known_locations" SET "pending" = true WHERE "source" = 'learned';
@@ -16,11 +16,13 @@ import {
   timestamp,
   boolean,
   integer,
+  bigint,
   real,
   jsonb,
   index,
   uniqueIndex,
   check,
+  primaryKey,
 } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 
@@ -38,13 +40,70 @@ export const ruleTypeEnum = [
   'impossible_travel',
   'simultaneous_locations',
   'device_velocity',
+  'device_novelty',
   'concurrent_streams',
   'geo_restriction',
+  'anonymous_network',
+  'stream_quality',
+  'composite',
+] as const;
+
+// Rule action type enum
+export const ruleActionTypeEnum = [
+  'terminate_stream',
+  'terminate_newest',
+  'log_only',
+  'disable_user',
+  'remove_share',
 ] as const;
 
 // Violation severity enum
 export const violationSeverityEnum = ['low', 'warning', 'high'] as const;
 
+// Violation review status enum
+export const violationStatusEnum = [
+  'open',
+  'investigating',
+  'confirmed_sharing',
+  'false_positive',
+  'resolved',
+] as const;
+
+// Why a trust score changed (see TrustScoreEventReason)
+export const trustScoreEventReasonEnum = [
+  'violation',
+  'violation_restored',
+  'violation_recharged',
+  'decay',
+  'recovery',
+  'manual',
+] as const;
+
+// Feature permissions grantable per server (see Permission)
+export const permissionEnum = [
+  'view_history',
+  'view_locations',
+  'terminate_streams',
+  'manage_rules',
+  'acknowledge_violations',
+  'manage_settings',
+  'manage_accounts',
+] as const;
+
+// Known location enums
+export const knownLocationTypeEnum = ['cidr', 'asn', 'geo'] as const;
+export const knownLocationSourceEnum = ['manual', 'learned'] as const;
+
+// How a server account joined (see ServerUserSource)
+export const serverUserSourceEnum = [
+  'owner',
+  'plex_share',
+  'plex_home',
+  'local_account',
+  'session',
+  'unknown',
+] as const;
+
 // Media servers (Plex/Jellyfin/Emby instances)
 export const servers = pgTable('servers', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -57,6 +116,19 @@ export const servers = pgTable('servers', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
+// Named sets of limits assigned to identities; rules with params.useProfile read
+// their thresholds from the identity's profile (null = no limit)
+export const policyProfiles = pgTable('policy_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  maxStreams: integer('max_streams'),
+  allowedCountries: jsonb('allowed_countries').$type<string[]>(), // null = any country
+  maxTranscodes: integer('max_transcodes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
 /**
  * Users - Identity table representing real humans
  *
@@ -90,6 +162,11 @@ export const users = pgTable(
     aggregateTrustScore: integer('aggregate_trust_score').notNull().default(100),
     totalViolations: integer('total_violations').notNull().default(0),
 
+    // Limits that profile-aware rules apply to this identity
+    policyProfileId: uuid('policy_profile_id').references(() => policyProfiles.id, {
+      onDelete: 'set null',
+    }),
+
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -100,6 +177,7 @@ export const users = pgTable(
     uniqueIndex('users_email_unique').on(table.email),
     index('users_plex_account_id_idx').on(table.plexAccountId),
     index('users_role_idx').on(table.role),
+    index('users_policy_profile_idx').on(table.policyProfileId),
   ]
 );
 
@@ -136,6 +214,20 @@ export const serverUsers = pgTable(
     trustScore: integer('trust_score').notNull().default(100),
     sessionCount: integer('session_count').notNull().default(0), // For aggregate weighting
 
+    // Onboarding - when and how the account got access
+    joinedAt: timestamp('joined_at', { withTimezone: true }).notNull().defaultNow(),
+    source: varchar('source', { length: 20 })
+      .notNull()
+      .$type<(typeof serverUserSourceEnum)[number]>()
+      .default('unknown'),
+    // Rules scoped to probation (scope.probationOnly) apply until then
+    probationUntil: timestamp('probation_until', { withTimezone: true }),
+
+    // Library IDs shared with the account at the last sync (empty = all, null = not reported)
+    sharedLibraries: jsonb('shared_libraries').$type<string[]>(),
+    // Marked for review from the inactive users report
+    reviewRequestedAt: timestamp('review_requested_at', { withTimezone: true }),
+
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -149,6 +241,8 @@ export const serverUsers = pgTable(
     index('server_users_user_idx').on(table.userId),
     index('server_users_server_idx').on(table.serverId),
     index('server_users_username_idx').on(table.username),
+    // New users feed
+    index('server_users_joined_at_idx').on(table.joinedAt),
   ]
 );
 
@@ -201,6 +295,8 @@ export const sessions = pgTable(
     geoCountry: varchar('geo_country', { length: 100 }),
     geoLat: real('geo_lat'),
     geoLon: real('geo_lon'),
+    asn: bigint('asn', { mode: 'number' }), // Autonomous system number of ipAddress
+    asnOrg: varchar('asn_org', { length: 255 }), // Network organization (ISP, hosting provider)
     playerName: varchar('player_name', { length: 255 }), // Player title/friendly name
     deviceId: varchar('device_id', { length: 255 }), // Machine identifier (unique device UUID)
     product: varchar('product', { length: 255 }), // Product name (e.g., "Plex for iOS")
@@ -243,6 +339,85 @@ export const sessions = pgTable(
   ]
 );
 
+// Named groups of identities (rules can target groups via rules.scope.groupIds)
+export const userGroups = pgTable('user_groups', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// User group membership (identity level - covers all of a user's server accounts)
+export const userGroupMembers = pgTable(
+  'user_group_members',
+  {
+    groupId: uuid('group_id')
+      .notNull()
+      .references(() => userGroups.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.groupId, table.userId] }),
+    index('user_group_members_user_idx').on(table.userId),
+  ]
+);
+
+// Feature permissions an admin or viewer holds on a server (owners have all of them)
+export const userPermissions = pgTable(
+  'user_permissions',
+  {
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    serverId: uuid('server_id')
+      .notNull()
+      .references(() => servers.id, { onDelete: 'cascade' }),
+    permissions: jsonb('permissions')
+      .notNull()
+      .$type<(typeof permissionEnum)[number][]>()
+      .default([]),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.serverId] }),
+    index('user_permissions_server_idx').on(table.serverId),
+  ]
+);
+
+// Places an identity is known to stream from (rules can ignore or downweight them)
+export const knownLocations = pgTable(
+  'known_locations',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: varchar('type', { length: 10 }).notNull().$type<(typeof knownLocationTypeEnum)[number]>(),
+    label: varchar('label', { length: 100 }).notNull(),
+    cidr: varchar('cidr', { length: 50 }), // type 'cidr'
+    asn: bigint('asn', { mode: 'number' }), // type 'asn'
+    lat: real('lat'), // type 'geo'
+    lon: real('lon'),
+    radiusKm: real('radius_km'),
+    source: varchar('source', { length: 10 })
+      .notNull()
+      .$type<(typeof knownLocationSourceEnum)[number]>()
+      .default('manual'),
+    // Learned locations the owner removed - kept so the learner doesn't add them back
+    dismissed: boolean('dismissed').notNull().default(false),
+    // Learned locations are suggestions - rules ignore them until the owner confirms them
+    pending: boolean('pending').notNull().default(false),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index('known_locations_user_idx').on(table.userId)]
+);
+
 // Sharing detection rules
 export const rules = pgTable(
   'rules',
@@ -251,8 +426,35 @@ export const rules = pgTable(
     name: varchar('name', { length: 100 }).notNull(),
     type: varchar('type', { length: 50 }).notNull().$type<(typeof ruleTypeEnum)[number]>(),
     params: jsonb('params').notNull().$type<Record<string, unknown>>(),
+    // Automatic actions run when the rule fires (empty = only create violations)
+    actions: jsonb('actions')
+      .notNull()
+      .$type<
+        { type: (typeof ruleActionTypeEnum)[number]; message?: string; cooldownMinutes: number }[]
+      >()
+      .default([]),
+    // Targeting on top of serverUserId (empty arrays = no restriction, see RuleScope)
+    scope: jsonb('scope')
+      .notNull()
+      .$type<{
+        serverIds: string[];
+        userIds: string[];
+        roles: ('owner' | 'admin' | 'viewer' | 'member' | 'disabled' | 'pending')[];
+        groupIds: string[];
+        excludedUserIds: string[];
+        probationOnly?: boolean;
+      }>()
+      .default({ serverIds: [], userIds: [], roles: [], groupIds: [], excludedUserIds: [] }),
+    // Time windows and suspensions (null = always active, see RuleSchedule)
+    schedule: jsonb('schedule').$type<{
+      timezone: string;
+      windows: { days: number[]; startTime: string; endTime: string }[];
+      suspensions: { userId: string | null; startDate: string; endDate: string; reason?: string }[];
+    }>(),
     // Nullable: null = global rule, set = specific server user
     serverUserId: uuid('server_user_id').references(() => serverUsers.id, { onDelete: 'cascade' }),
+    // Evaluate across all server accounts linked to the same identity
+    crossServer: boolean('cross_server').notNull().default(false),
     isActive: boolean('is_active').notNull().default(true),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -284,11 +486,62 @@ export const violations = pgTable(
     data: jsonb('data').notNull().$type<Record<string, unknown>>(),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     acknowledgedAt: timestamp('acknowledged_at', { withTimezone: true }),
+    // Review workflow
+    status: varchar('status', { length: 20 })
+      .notNull()
+      .$type<(typeof violationStatusEnum)[number]>()
+      .default('open'),
+    assigneeId: uuid('assignee_id').references(() => users.id, { onDelete: 'set null' }),
+    dismissalReason: text('dismissal_reason'),
+    // Set while a false positive has its trust score penalty refunded
+    trustRestoredAt: timestamp('trust_restored_at', { withTimezone: true }),
+    // Points charged when the violation was created (refunds give back the same amount)
+    trustPenalty: integer('trust_penalty').notNull().default(0),
+    // Set once the penalty was refunded by trust decay (permanent, unlike trustRestoredAt)
+    trustDecayedAt: timestamp('trust_decayed_at', { withTimezone: true }),
   },
   (table) => [
     index('violations_server_user_id_idx').on(table.serverUserId),
     index('violations_rule_id_idx').on(table.ruleId),
     index('violations_created_at_idx').on(table.createdAt),
+    index('violations_status_idx').on(table.status),
+  ]
+);
+
+// Review notes on violations
+export const violationNotes = pgTable(
+  'violation_notes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    violationId: uuid('violation_id')
+      .notNull()
+      .references(() => violations.id, { onDelete: 'cascade' }),
+    authorId: uuid('author_id').references(() => users.id, { onDelete: 'set null' }),
+    body: text('body').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index('violation_notes_violation_idx').on(table.violationId, table.createdAt)]
+);
+
+// Trust score history (one row per change, for charts and auditing)
+export const trustScoreEvents = pgTable(
+  'trust_score_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    serverUserId: uuid('server_user_id')
+      .notNull()
+      .references(() => serverUsers.id, { onDelete: 'cascade' }),
+    delta: integer('delta').notNull(), // Requested change, before clamping
+    score: integer('score').notNull(), // Score after the change
+    reason: varchar('reason', { length: 30 })
+      .notNull()
+      .$type<(typeof trustScoreEventReasonEnum)[number]>(),
+    violationId: uuid('violation_id').references(() => violations.id, { onDelete: 'set null' }),
+    actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('trust_score_events_server_user_time_idx').on(table.serverUserId, table.createdAt),
   ]
 );
 
@@ -394,6 +647,9 @@ export const notificationEventTypeEnum = [
   'trust_score_changed',
   'server_down',
   'server_up',
+  'user_suspended',
+  'user_reinstated',
+  'new_server_user',
 ] as const;
 
 // Notification channel routing configuration
@@ -407,11 +663,10 @@ export const notificationChannelRouting = pgTable(
       .unique()
       .$type<(typeof notificationEventTypeEnum)[number]>(),
 
-    // Channel toggles
-    discordEnabled: boolean('discord_enabled').notNull().default(true),
-    webhookEnabled: boolean('webhook_enabled').notNull().default(true),
+    // Channel toggles (Discord and webhooks are routed per destination)
     pushEnabled: boolean('push_enabled').notNull().default(true),
     webToastEnabled: boolean('web_toast_enabled').notNull().default(true),
+    emailEnabled: boolean('email_enabled').notNull().default(false),
 
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -420,6 +675,116 @@ export const notificationChannelRouting = pgTable(
   (table) => [index('notification_channel_routing_event_type_idx').on(table.eventType)]
 );
 
+// Notification destination type enum (webhooks pick a payload format)
+export const notificationDestinationTypeEnum = ['discord', 'webhook'] as const;
+
+// Webhook payload format enum
+export const webhookFormatEnum = [
+  'json',
+  'ntfy',
+  'apprise',
+  'slack',
+  'telegram',
+  'matrix',
+  'gotify',
+] as const;
+
+// Named Discord and webhook targets that notifications are sent to
+export const notificationDestinations = pgTable('notification_destinations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  type: varchar('type', { length: 20 })
+    .notNull()
+    .$type<(typeof notificationDestinationTypeEnum)[number]>(),
+  webhookUrl: text('webhook_url').notNull(),
+  webhookFormat: varchar('webhook_format', { length: 20 })
+    .notNull()
+    .default('json')
+    .$type<(typeof webhookFormatEnum)[number]>(),
+  ntfyTopic: text('ntfy_topic'), // Required when webhookFormat is 'ntfy'
+  chatId: text('chat_id'), // Telegram chat ID or Matrix room ID
+  authToken: text('auth_token'), // ntfy bearer, Telegram bot, Matrix access or Gotify app token
+  enabled: boolean('enabled').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Which events go to which destination, optionally only for one server or severity
+export const notificationRoutes = pgTable(
+  'notification_destination_routes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    destinationId: uuid('destination_id')
+      .notNull()
+      .references(() => notificationDestinations.id, { onDelete: 'cascade' }),
+    eventType: varchar('event_type', { length: 50 })
+      .notNull()
+      .$type<(typeof notificationEventTypeEnum)[number]>(),
+    // Null means every server
+    serverId: uuid('server_id').references(() => servers.id, { onDelete: 'cascade' }),
+    // Violations below this severity are skipped (null means every severity)
+    minSeverity: varchar('min_severity', { length: 20 }).$type<
+      (typeof violationSeverityEnum)[number]
+    >(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('notification_destination_routes_event_type_idx').on(table.eventType),
+    index('notification_destination_routes_destination_idx').on(table.destinationId),
+  ]
+);
+
+// Custom notification message per event ({{placeholders}} are filled in when sent)
+export const notificationTemplates = pgTable('notification_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  eventType: varchar('event_type', { length: 50 })
+    .notNull()
+    .unique()
+    .$type<(typeof notificationEventTypeEnum)[number]>(),
+  title: varchar('title', { length: 200 }).notNull(),
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Email digest frequency enum
+export const emailDigestFrequencyEnum = ['off', 'daily', 'weekly'] as const;
+
+// SMTP server, recipients and digest schedule for email notifications (single row)
+export const emailSettings = pgTable('email_settings', {
+  id: integer('id').primaryKey().default(1),
+  enabled: boolean('enabled').notNull().default(false),
+  smtpHost: text('smtp_host'),
+  smtpPort: integer('smtp_port').notNull().default(587),
+  smtpSecure: boolean('smtp_secure').notNull().default(false), // TLS from the start (port 465)
+  smtpUsername: text('smtp_username'),
+  smtpPassword: text('smtp_password'),
+  fromAddress: text('from_address'),
+  recipients: jsonb('recipients').notNull().$type<string[]>().default([]),
+  digestFrequency: varchar('digest_frequency', { length: 10 })
+    .notNull()
+    .$type<(typeof emailDigestFrequencyEnum)[number]>()
+    .default('off'),
+  digestHour: integer('digest_hour').notNull().default(8),
+  digestWeekday: integer('digest_weekday').notNull().default(1), // Monday
+  digestTimezone: varchar('digest_timezone', { length: 100 }).notNull().default('UTC'),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Periods a media server couldn't be reached (endedAt is null while it's still down)
+export const serverOutages = pgTable(
+  'server_outages',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    serverId: uuid('server_id')
+      .notNull()
+      .references(() => servers.id, { onDelete: 'cascade' }),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow(),
+    endedAt: timestamp('ended_at', { withTimezone: true }),
+  },
+  (table) => [index('server_outages_server_started_idx').on(table.serverId, table.startedAt)]
+);
+
 // Termination trigger type enum
 export const terminationTriggerEnum = ['manual', 'rule'] as const;
 
@@ -455,6 +820,8 @@ export const terminationLogs = pgTable(
     // What rule triggered it (for rule-triggered) - nullable for manual
     ruleId: uuid('rule_id').references(() => rules.id, { onDelete: 'set null' }),
     violationId: uuid('violation_id').references(() => violations.id, { onDelete: 'set null' }),
+    // Which rule action produced this entry (rule trigger only) - also used for action cooldowns
+    action: varchar('action', { length: 30 }).$type<(typeof ruleActionTypeEnum)[number]>(),
 
     // Message shown to user (Plex only)
     reason: text('reason'),
@@ -471,10 +838,220 @@ export const terminationLogs = pgTable(
     index('termination_logs_server_user_idx').on(table.serverUserId),
     index('termination_logs_triggered_by_idx').on(table.triggeredByUserId),
     index('termination_logs_rule_idx').on(table.ruleId),
+    index('termination_logs_rule_cooldown_idx').on(
+      table.ruleId,
+      table.serverUserId,
+      table.createdAt
+    ),
     index('termination_logs_created_at_idx').on(table.createdAt),
   ]
 );
 
+// Server account action type enum (see AccountActionType)
+export const accountActionTypeEnum = [
+  'disable_user',
+  'remove_share',
+  'restrict_libraries',
+] as const;
+
+// Changes to a server account's access on its media server, with what to restore on undo
+export const accountActions = pgTable(
+  'account_actions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    serverId: uuid('server_id')
+      .notNull()
+      .references(() => servers.id, { onDelete: 'cascade' }),
+    serverUserId: uuid('server_user_id')
+      .notNull()
+      .references(() => serverUsers.id, { onDelete: 'cascade' }),
+    action: varchar('action', { length: 30 })
+      .notNull()
+      .$type<(typeof accountActionTypeEnum)[number]>(),
+
+    // How it was triggered (same sources as stream terminations)
+    trigger: varchar('trigger', { length: 20 })
+      .notNull()
+      .$type<(typeof terminationTriggerEnum)[number]>(),
+    triggeredByUserId: uuid('triggered_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    ruleId: uuid('rule_id').references(() => rules.id, { onDelete: 'set null' }),
+    violationId: uuid('violation_id').references(() => violations.id, { onDelete: 'set null' }),
+
+    // Libraries kept (restrict_libraries only)
+    libraryIds: jsonb('library_ids').$type<string[]>(),
+    // Access before the action, restored by undo (null if it couldn't be read)
+    previousAccess: jsonb('previous_access').$type<{
+      isDisabled: boolean;
+      isShared: boolean;
+      libraryIds: string[] | null;
+    }>(),
+
+    // Result
+    success: boolean('success').notNull(),
+    errorMessage: text('error_message'),
+
+    undoneAt: timestamp('undone_at', { withTimezone: true }),
+    undoneByUserId: uuid('undone_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('account_actions_server_user_idx').on(table.serverUserId, table.createdAt),
+    index('account_actions_rule_cooldown_idx').on(
+      table.ruleId,
+      table.serverUserId,
+      table.createdAt
+    ),
+  ]
+);
+
+// How a suspension ended
+export const suspensionEndReasonEnum = ['expired', 'lifted'] as const;
+
+// Time-boxed suspensions, reinstated by a delayed job when endsAt passes
+export const userSuspensions = pgTable(
+  'user_suspensions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    serverId: uuid('server_id')
+      .notNull()
+      .references(() => servers.id, { onDelete: 'cascade' }),
+    serverUserId: uuid('server_user_id')
+      .notNull()
+      .references(() => serverUsers.id, { onDelete: 'cascade' }),
+    // The disable/remove share action undone to reinstate the account
+    accountActionId: uuid('account_action_id').references(() => accountActions.id, {
+      onDelete: 'set null',
+    }),
+    reason: text('reason'),
+    endsAt: timestamp('ends_at', { withTimezone: true }).notNull(),
+    suspendedByUserId: uuid('suspended_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+
+    // Set when the account is reinstated
+    endedAt: timestamp('ended_at', { withTimezone: true }),
+    endReason: varchar('end_reason', { length: 20 }).$type<
+      (typeof suspensionEndReasonEnum)[number]
+    >(),
+    endedByUserId: uuid('ended_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    // Set when the reinstatement job ran out of retries, cleared when it is rescheduled
+    reinstateError: text('reinstate_error'),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('user_suspensions_server_user_idx').on(table.serverUserId, table.createdAt),
+    index('user_suspensions_active_idx').on(table.endedAt, table.endsAt),
+  ]
+);
+
+// Audited actions and the records they change (see AuditAction)
+export const auditActionEnum = [
+  'rule.create',
+  'rule.update',
+  'rule.delete',
+  'settings.update',
+  'settings.destination_create',
+  'settings.destination_update',
+  'settings.destination_delete',
+  'settings.template_update',
+  'settings.template_reset',
+  'settings.email_update',
+  'server.create',
+  'server.delete',
+  'user.update',
+  'user.identity_update',
+  'user.merge',
+  'user.split',
+  'user.permissions_update',
+  'user.account_action',
+  'user.account_undo',
+  'user.suspend',
+  'user.suspension_extend',
+  'user.suspension_lift',
+  'user.probation_end',
+  'user.review_mark',
+  'user.review_clear',
+  'user.location_add',
+  'user.location_update',
+  'user.location_remove',
+  'user.location_learn',
+  'user.location_confirm',
+  'violation.update',
+  'violation.delete',
+  'group.create',
+  'group.update',
+  'group.delete',
+  'policy_profile.create',
+  'policy_profile.update',
+  'policy_profile.delete',
+  'policy_profile.assign',
+  'mobile.enable',
+  'mobile.disable',
+  'mobile.pair_token',
+  'mobile.pair',
+  'mobile.revoke',
+  'debug.delete',
+  'debug.reset',
+] as const;
+
+export const auditEntityTypeEnum = [
+  'rule',
+  'settings',
+  'server',
+  'user',
+  'violation',
+  'group',
+  'policy_profile',
+  'mobile',
+  'debug',
+] as const;
+
+// Configuration and moderation audit log (stream terminations are in termination_logs)
+export const auditLog = pgTable(
+  'audit_log',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Who did it - the name is kept when the user is deleted
+    actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    actorName: varchar('actor_name', { length: 255 }),
+
+    action: varchar('action', { length: 50 })
+      .notNull()
+      .$type<(typeof auditActionEnum)[number]>(),
+    entityType: varchar('entity_type', { length: 20 })
+      .notNull()
+      .$type<(typeof auditEntityTypeEnum)[number]>(),
+    // Not a FK - the record may be deleted (or, for settings, isn't a uuid)
+    entityId: varchar('entity_id', { length: 255 }),
+    entityName: varchar('entity_name', { length: 255 }),
+    serverId: uuid('server_id').references(() => servers.id, { onDelete: 'set null' }),
+
+    // Changed fields only, with secrets redacted
+    changes: jsonb('changes')
+      .notNull()
+      .$type<Record<string, { before: unknown; after: unknown }>>()
+      .default({}),
+    ipAddress: varchar('ip_address', { length: 45 }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('audit_log_created_at_idx').on(table.createdAt),
+    index('audit_log_entity_idx').on(table.entityType, table.entityId),
+    index('audit_log_actor_idx').on(table.actorId),
+    index('audit_log_action_idx').on(table.action),
+  ]
+);
+
 // Unit system enum for display preferences
 export const unitSystemEnum = ['metric', 'imperial'] as const;
 
@@ -487,11 +1064,6 @@ export const settings = pgTable('settings', {
     .notNull()
     .$type<(typeof unitSystemEnum)[number]>()
     .default('metric'),
-  discordWebhookUrl: text('discord_webhook_url'),
-  customWebhookUrl: text('custom_webhook_url'),
-  webhookFormat: text('webhook_format').$type<'json' | 'ntfy' | 'apprise'>(), // Format for custom webhook payloads
-  ntfyTopic: text('ntfy_topic'), // Topic for ntfy notifications (required when webhookFormat is 'ntfy')
-  ntfyAuthToken: text('ntfy_auth_token'), // Auth token for protected ntfy servers (Bearer token)
   // Poller settings
   pollerEnabled: boolean('poller_enabled').notNull().default(true),
   pollerIntervalMs: integer('poller_interval_ms').notNull().default(15000),
@@ -509,6 +1081,32 @@ export const settings = pgTable('settings', {
     .$type<'jellyfin' | 'local'>()
     .notNull()
     .default('local'), // Default to local auth
+  // Trust score model (see TrustModel) - penalties, floor/ceiling, recovery and decay
+  trustModel: jsonb('trust_model')
+    .notNull()
+    .$type<{
+      penalties: Record<(typeof violationSeverityEnum)[number], number>;
+      rulePenalties: Partial<
+        Record<
+          (typeof ruleTypeEnum)[number],
+          Partial<Record<(typeof violationSeverityEnum)[number], number>>
+        >
+      >;
+      floor: number;
+      ceiling: number;
+      recovery: { enabled: boolean; cleanDays: number; pointsPerDay: number };
+      decay: { enabled: boolean; afterDays: number };
+    }>()
+    .default({
+      penalties: { low: 5, warning: 10, high: 20 },
+      rulePenalties: {},
+      floor: 0,
+      ceiling: 100,
+      recovery: { enabled: false, cleanDays: 14, pointsPerDay: 1 },
+      decay: { enabled: false, afterDays: 90 },
+    }),
+  // Probation for newly discovered server accounts (0 = no probation)
+  probationDays: integer('probation_days').notNull().default(14),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -521,10 +1119,53 @@ export const serversRelations = relations(servers, ({ many }) => ({
   sessions: many(sessions),
 }));
 
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  policyProfile: one(policyProfiles, {
+    fields: [users.policyProfileId],
+    references: [policyProfiles.id],
+  }),
   serverUsers: many(serverUsers),
   mobileSessions: many(mobileSessions),
   mobileTokens: many(mobileTokens),
+  groupMemberships: many(userGroupMembers),
+  knownLocations: many(knownLocations),
+}));
+
+export const knownLocationsRelations = relations(knownLocations, ({ one }) => ({
+  user: one(users, {
+    fields: [knownLocations.userId],
+    references: [users.id],
+  }),
+}));
+
+export const policyProfilesRelations = relations(policyProfiles, ({ many }) => ({
+  users: many(users),
+}));
+
+export const userGroupsRelations = relations(userGroups, ({ many }) => ({
+  members: many(userGroupMembers),
+}));
+
+export const userGroupMembersRelations = relations(userGroupMembers, ({ one }) => ({
+  group: one(userGroups, {
+    fields: [userGroupMembers.groupId],
+    references: [userGroups.id],
+  }),
+  user: one(users, {
+    fields: [userGroupMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userPermissionsRelations = relations(userPermissions, ({ one }) => ({
+  user: one(users, {
+    fields: [userPermissions.userId],
+    references: [users.id],
+  }),
+  server: one(servers, {
+    fields: [userPermissions.serverId],
+    references: [servers.id],
+  }),
 }));
 
 export const serverUsersRelations = relations(serverUsers, ({ one, many }) => ({
@@ -561,7 +1202,7 @@ export const rulesRelations = relations(rules, ({ one, many }) => ({
   violations: many(violations),
 }));
 
-export const violationsRelations = relations(violations, ({ one }) => ({
+export const violationsRelations = relations(violations, ({ one, many }) => ({
   rule: one(rules, {
     fields: [violations.ruleId],
     references: [rules.id],
@@ -574,6 +1215,29 @@ export const violationsRelations = relations(violations, ({ one }) => ({
     fields: [violations.sessionId],
     references: [sessions.id],
   }),
+  notes: many(violationNotes),
+}));
+
+export const trustScoreEventsRelations = relations(trustScoreEvents, ({ one }) => ({
+  serverUser: one(serverUsers, {
+    fields: [trustScoreEvents.serverUserId],
+    references: [serverUsers.id],
+  }),
+  violation: one(violations, {
+    fields: [trustScoreEvents.violationId],
+    references: [violations.id],
+  }),
+}));
+
+export const violationNotesRelations = relations(violationNotes, ({ one }) => ({
+  violation: one(violations, {
+    fields: [violationNotes.violationId],
+    references: [violations.id],
+  }),
+  author: one(users, {
+    fields: [violationNotes.authorId],
+    references: [users.id],
+  }),
 }));
 
 export const mobileSessionsRelations = relations(mobileSessions, ({ one }) => ({
@@ -594,6 +1258,17 @@ export const notificationPreferencesRelations = relations(notificationPreference
   }),
 }));
 
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLog.actorId],
+    references: [users.id],
+  }),
+  server: one(servers, {
+    fields: [auditLog.serverId],
+    references: [servers.id],
+  }),
+}));
+
 export const mobileTokensRelations = relations(mobileTokens, ({ one }) => ({
   createdByUser: one(users, {
     fields: [mobileTokens.createdBy],
@@ -601,6 +1276,44 @@ export const mobileTokensRelations = relations(mobileTokens, ({ one }) => ({
   }),
 }));
 
+export const accountActionsRelations = relations(accountActions, ({ one }) => ({
+  server: one(servers, {
+    fields: [accountActions.serverId],
+    references: [servers.id],
+  }),
+  serverUser: one(serverUsers, {
+    fields: [accountActions.serverUserId],
+    references: [serverUsers.id],
+  }),
+  triggeredByUser: one(users, {
+    fields: [accountActions.triggeredByUserId],
+    references: [users.id],
+  }),
+  rule: one(rules, {
+    fields: [accountActions.ruleId],
+    references: [rules.id],
+  }),
+  violation: one(violations, {
+    fields: [accountActions.violationId],
+    references: [violations.id],
+  }),
+}));
+
+export const userSuspensionsRelations = relations(userSuspensions, ({ one }) => ({
+  server: one(servers, {
+    fields: [userSuspensions.serverId],
+    references: [servers.id],
+  }),
+  serverUser: one(serverUsers, {
+    fields: [userSuspensions.serverUserId],
+    references: [serverUsers.id],
+  }),
+  accountAction: one(accountActions, {
+    fields: [userSuspensions.accountActionId],
+    references: [accountActions.id],
+  }),
+}));
+
 export const terminationLogsRelations = relations(terminationLogs, ({ one }) => ({
   session: one(sessions, {
     fields: [terminationLogs.sessionId],
@@ -24,9 +24,21 @@ config({ path: resolve(PROJECT_ROOT, '.env') });
 // GeoIP database path (in project root/data)
 const GEOIP_DB_PATH = resolve(PROJECT_ROOT, 'data/GeoLite2-City.mmdb');
 
+// ASN and anonymous IP database paths (in project root/data)
+const ASN_DB_PATH = resolve(PROJECT_ROOT, 'data/GeoLite2-ASN.mmdb');
+const ANONYMOUS_IP_DB_PATH = resolve(PROJECT_ROOT, 'data/GeoIP2-Anonymous-IP.mmdb');
+
 // Migrations path (relative to compiled output in production, source in dev)
 const MIGRATIONS_PATH = resolve(__dirname, '../src/db/migrations');
-import type { ActiveSession, ViolationWithDetails, DashboardStats, TautulliImportProgress } from '@tracearr/shared';
+import type {
+  ActiveSession,
+  ViolationWithDetails,
+  DashboardStats,
+  TautulliImportProgress,
+  NewDeviceAlert,
+  ConcurrentStreamsAlert,
+  TrustScoreAlert,
+} from '@tracearr/shared';
 
 import authPlugin from './plugins/auth.js';
 import redisPlugin from './plugins/redis.js';
@@ -37,6 +49,7 @@ import { userRoutes } from './routes/users/index.js';
 import { sessionRoutes } from './routes/sessions.js';
 import { ruleRoutes } from './routes/rules.js';
 import { violationRoutes } from './routes/violations.js';
+import { auditRoutes } from './routes/audit.js';
 import { statsRoutes } from './routes/stats/index.js';
 import { settingsRoutes } from './routes/settings.js';
 import { importRoutes } from './routes/import.js';
@@ -45,12 +58,24 @@ import { debugRoutes } from './routes/debug.js';
 import { mobileRoutes } from './routes/mobile.js';
 import { notificationPreferencesRoutes } from './routes/notificationPreferences.js';
 import { channelRoutingRoutes } from './routes/channelRouting.js';
+import { notificationDestinationsRoutes } from './routes/notificationDestinations.js';
+import { notificationTemplatesRoutes } from './routes/notificationTemplates.js';
+import { emailSettingsRoutes } from './routes/emailSettings.js';
 import { versionRoutes } from './routes/version.js';
 import { getPollerSettings, getNetworkSettings } from './routes/settings.js';
 import { initializeEncryption, migrateToken, looksEncrypted } from './utils/crypto.js';
 import { geoipService } from './services/geoip.js';
+import { asnService } from './services/asn.js';
 import { createCacheService, createPubSubService } from './services/cache.js';
 import { initializePoller, startPoller, stopPoller } from './jobs/poller/index.js';
+import {
+  startKnownLocationLearner,
+  stopKnownLocationLearner,
+} from './jobs/knownLocationLearner.js';
+import {
+  startTrustScoreMaintenance,
+  stopTrustScoreMaintenance,
+} from './jobs/trustScoreMaintenance.js';
 import { sseManager } from './services/sseManager.js';
 import { initializeSSEProcessor, startSSEProcessor, stopSSEProcessor } from './jobs/sseProcessor.js';
 import { initializeWebSocket, broadcastToSessions } from './websocket/index.js';
@@ -70,6 +95,18 @@ import {
   scheduleVersionChecks,
   shutdownVersionCheckQueue,
 } from './jobs/versionCheckQueue.js';
+import {
+  initEmailDigestQueue,
+  startEmailDigestWorker,
+  scheduleEmailDigests,
+  shutdownEmailDigestQueue,
+} from './jobs/emailDigestQueue.js';
+import {
+  initSuspensionQueue,
+  startSuspensionWorker,
+  scheduleActiveSuspensions,
+  shutdownSuspensionQueue,
+} from './jobs/suspensionQueue.js';
 import { initPushRateLimiter } from './services/pushRateLimiter.js';
 import { db, runMigrations } from './db/client.js';
 import { initTimescaleDB, getTimescaleStatus } from './db/timescale.js';
@@ -179,6 +216,17 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
     app.log.warn('GeoIP database not available - location features disabled');
   }
 
+  // Initialize ASN service (optional - graceful degradation)
+  await asnService.initialize(ASN_DB_PATH, ANONYMOUS_IP_DB_PATH);
+  if (asnService.hasDatabase()) {
+    app.log.info('ASN database loaded');
+  } else {
+    app.log.warn('ASN database not available - network provider details disabled');
+  }
+  if (!asnService.hasAnonymousDatabase()) {
+    app.log.warn('Anonymous IP database not available - VPN/proxy detection limited to listed ASNs');
+  }
+
   // Security plugins - relaxed for HTTP-only deployments
   await app.register(helmet, {
     contentSecurityPolicy: false,
@@ -248,9 +296,37 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
     // Don't throw - version checks are non-critical
   }
 
+  // Initialize email digest queue (repeatable jobs on the schedule in email settings)
+  try {
+    initEmailDigestQueue(redisUrl);
+    startEmailDigestWorker();
+    void scheduleEmailDigests();
+    app.log.info('Email digest queue initialized');
+  } catch (err) {
+    app.log.error({ err }, 'Failed to initialize email digest queue');
+    // Don't throw - digests are non-critical
+  }
+
+  // Initialize suspension queue (delayed jobs that reinstate suspended users)
+  try {
+    initSuspensionQueue(redisUrl);
+    startSuspensionWorker();
+    void scheduleActiveSuspensions();
+    app.log.info('Suspension queue initialized');
+  } catch (err) {
+    app.log.error({ err }, 'Failed to initialize suspension queue');
+    // Don't throw - suspensions can still be lifted by hand
+  }
+
   // Initialize poller with cache services
   initializePoller(cacheService, pubSubService);
 
+  // Learn known locations (home networks, frequent cities) from session history
+  startKnownLocationLearner();
+
+  // Apply trust score recovery and violation decay (when enabled in the trust model)
+  startTrustScoreMaintenance();
+
   // Initialize SSE manager and processor for real-time Plex updates
   try {
     await sseManager.initialize(cacheService, pubSubService);
@@ -261,15 +337,19 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
     // Don't throw - SSE is optional, fallback to polling
   }
 
-  // Cleanup pub/sub redis, notification queue, import queue, and version check queue on close
+  // Cleanup pub/sub redis and the job queues on close
   app.addHook('onClose', async () => {
     await pubSubRedis.quit();
     stopPoller();
+    stopKnownLocationLearner();
+    stopTrustScoreMaintenance();
     await sseManager.stop();
     stopSSEProcessor();
     await shutdownNotificationQueue();
     await shutdownImportQueue();
     await shutdownVersionCheckQueue();
+    await shutdownEmailDigestQueue();
+    await shutdownSuspensionQueue();
   });
 
   // Health check endpoint
@@ -325,9 +405,17 @@ async function buildApp(options: { trustProxy?: boolean } = {}) {
   await app.register(sessionRoutes, { prefix: `${API_BASE_PATH}/sessions` });
   await app.register(ruleRoutes, { prefix: `${API_BASE_PATH}/rules` });
   await app.register(violationRoutes, { prefix: `${API_BASE_PATH}/violations` });
+  await app.register(auditRoutes, { prefix: `${API_BASE_PATH}/audit` });
   await app.register(statsRoutes, { prefix: `${API_BASE_PATH}/stats` });
   await app.register(settingsRoutes, { prefix: `${API_BASE_PATH}/settings` });
   await app.register(channelRoutingRoutes, { prefix: `${API_BASE_PATH}/settings/notifications` });
+  await app.register(notificationDestinationsRoutes, {
+    prefix: `${API_BASE_PATH}/settings/notifications`,
+  });
+  await app.register(notificationTemplatesRoutes, {
+    prefix: `${API_BASE_PATH}/settings/notifications`,
+  });
+  await app.register(emailSettingsRoutes, { prefix: `${API_BASE_PATH}/settings/notifications` });
   await app.register(importRoutes, { prefix: `${API_BASE_PATH}/import` });
   await app.register(imageRoutes, { prefix: `${API_BASE_PATH}/images` });
   await app.register(debugRoutes, { prefix: `${API_BASE_PATH}/debug` });
@@ -367,9 +455,13 @@ async function start() {
       process.on(signal, () => {
         app.log.info(`Received ${signal}, shutting down gracefully...`);
         stopPoller();
+        stopKnownLocationLearner();
+        stopTrustScoreMaintenance();
         void shutdownNotificationQueue();
         void shutdownImportQueue();
         void shutdownVersionCheckQueue();
+        void shutdownEmailDigestQueue();
+        void shutdownSuspensionQueue();
         void app.close().then(() => process.exit(0));
       });
     }
@@ -416,6 +508,15 @@ async function start() {
           case WS_EVENTS.VIOLATION_NEW:
             broadcastToSessions('violation:new', data as ViolationWithDetails);
             break;
+          case WS_EVENTS.DEVICE_NEW:
+            broadcastToSessions('device:new', data as NewDeviceAlert);
+            break;
+          case WS_EVENTS.STREAMS_CONCURRENT:
+            broadcastToSessions('streams:concurrent', data as ConcurrentStreamsAlert);
+            break;
+          case WS_EVENTS.TRUST_CHANGED:
+            broadcastToSessions('trust:changed', data as TrustScoreAlert);
+            break;
           case WS_EVENTS.STATS_UPDATED:
             broadcastToSessions('stats:updated', data as DashboardStats);
             break;
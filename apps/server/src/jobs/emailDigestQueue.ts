@@ -0,0 +1,171 @@
+/**
+ * Email Digest Queue - BullMQ-based scheduled digest emails
+ *
+ * Sends the daily or weekly digest at the hour (and weekday) set in email settings,
+ * in the configured time zone. Rescheduled whenever the email settings are saved.
+ */
+
+import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
+import type { EmailDigestPeriod } from '@tracearr/shared';
+import { getEmailSettings, isEmailConfigured } from '../services/email.js';
+import { sendEmailDigest } from '../services/emailDigest.js';
+
+// Queue name
+const QUEUE_NAME = 'email-digest';
+
+// Job types
+interface EmailDigestJobData {
+  type: 'digest';
+  period: EmailDigestPeriod;
+}
+
+// Connection options (set during initialization)
+let connectionOptions: ConnectionOptions | null = null;
+
+// Queue and worker instances
+let digestQueue: Queue<EmailDigestJobData> | null = null;
+let digestWorker: Worker<EmailDigestJobData> | null = null;
+
+/**
+ * Initialize the email digest queue with Redis connection
+ */
+export function initEmailDigestQueue(redisUrl: string): void {
+  if (digestQueue) {
+    console.log('Email digest queue already initialized');
+    return;
+  }
+
+  connectionOptions = { url: redisUrl };
+
+  digestQueue = new Queue<EmailDigestJobData>(QUEUE_NAME, {
+    connection: connectionOptions,
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 60000, // 1m, 2m, 4m (SMTP servers are often briefly unavailable)
+      },
+      removeOnComplete: {
+        count: 10,
+        age: 7 * 24 * 60 * 60, // 7 days
+      },
+      removeOnFail: {
+        count: 50,
+        age: 30 * 24 * 60 * 60, // 30 days
+      },
+    },
+  });
+
+  console.log('Email digest queue initialized');
+}
+
+/**
+ * Start the email digest worker
+ */
+export function startEmailDigestWorker(): void {
+  if (!connectionOptions) {
+    throw new Error('Email digest queue not initialized. Call initEmailDigestQueue first.');
+  }
+
+  if (digestWorker) {
+    console.log('Email digest worker already running');
+    return;
+  }
+
+  digestWorker = new Worker<EmailDigestJobData>(
+    QUEUE_NAME,
+    async (job: Job<EmailDigestJobData>) => {
+      const startTime = Date.now();
+      try {
+        const sent = await sendEmailDigest(job.data.period);
+        const duration = Date.now() - startTime;
+        console.log(
+          sent
+            ? `Email digest job ${job.id} (${job.data.period}) sent in ${duration}ms`
+            : `Email digest job ${job.id} skipped, email is not configured`
+        );
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        console.error(`Email digest job ${job.id} failed after ${duration}ms:`, error);
+        throw error;
+      }
+    },
+    {
+      connection: connectionOptions,
+      concurrency: 1,
+    }
+  );
+
+  digestWorker.on('error', (error) => {
+    console.error('Email digest worker error:', error);
+  });
+
+  console.log('Email digest worker started');
+}
+
+/**
+ * Cron pattern for the digest: every day at the hour, or weekly on the weekday (0 = Sunday)
+ */
+export function getDigestCronPattern(
+  period: EmailDigestPeriod,
+  hour: number,
+  weekday: number
+): string {
+  return period === 'daily' ? `0 ${hour} * * *` : `0 ${hour} * * ${weekday}`;
+}
+
+/**
+ * Schedule the digest from the saved email settings, replacing any previous schedule
+ */
+export async function scheduleEmailDigests(): Promise<void> {
+  if (!digestQueue) {
+    console.error('Email digest queue not initialized');
+    return;
+  }
+
+  // Remove any existing job schedulers (repeatable jobs)
+  const schedulers = await digestQueue.getJobSchedulers();
+  for (const scheduler of schedulers) {
+    if (scheduler.id) {
+      await digestQueue.removeJobScheduler(scheduler.id);
+    }
+  }
+
+  const settings = await getEmailSettings();
+  if (!isEmailConfigured(settings) || settings.digestFrequency === 'off') {
+    console.log('Email digests not scheduled (disabled or email not configured)');
+    return;
+  }
+
+  const period = settings.digestFrequency;
+  const pattern = getDigestCronPattern(period, settings.digestHour, settings.digestWeekday);
+  await digestQueue.add(
+    'scheduled-digest',
+    { type: 'digest', period },
+    {
+      repeat: { pattern, tz: settings.digestTimezone },
+      jobId: 'email-digest-repeatable',
+    }
+  );
+
+  console.log(`Email digests scheduled (${pattern} ${settings.digestTimezone})`);
+}
+
+/**
+ * Gracefully shutdown the email digest queue and worker
+ */
+export async function shutdownEmailDigestQueue(): Promise<void> {
+  console.log('Shutting down email digest queue...');
+
+  if (digestWorker) {
+    await digestWorker.close();
+    digestWorker = null;
+  }
+
+  if (digestQueue) {
+    await digestQueue.close();
+    digestQueue = null;
+  }
+
+  console.log('Email digest queue shutdown complete');
+}
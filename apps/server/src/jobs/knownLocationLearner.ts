@@ -0,0 +1,68 @@
+/**
+ * Background job for learning known locations from session history
+ */
+
+import { KNOWN_LOCATION_CONFIG } from '@tracearr/shared';
+import { learnAllKnownLocations } from '../services/knownLocations.js';
+
+let learnerInterval: NodeJS.Timeout | null = null;
+
+export interface KnownLocationLearnerConfig {
+  enabled: boolean;
+  intervalMs: number;
+}
+
+const defaultConfig: KnownLocationLearnerConfig = {
+  enabled: true,
+  intervalMs: KNOWN_LOCATION_CONFIG.LEARN_INTERVAL_MS,
+};
+
+/**
+ * Learn known locations for all identities
+ */
+async function runLearner(): Promise<void> {
+  try {
+    const { created } = await learnAllKnownLocations();
+    if (created > 0) {
+      console.log(`[KnownLocations] Learned ${created} known location(s)`);
+    }
+  } catch (error) {
+    console.error('[KnownLocations] Learning failed:', error);
+  }
+}
+
+/**
+ * Start the known location learner job
+ */
+export function startKnownLocationLearner(config: Partial<KnownLocationLearnerConfig> = {}): void {
+  const mergedConfig = { ...defaultConfig, ...config };
+
+  if (!mergedConfig.enabled) {
+    console.log('[KnownLocations] Learner disabled');
+    return;
+  }
+
+  if (learnerInterval) {
+    console.log('[KnownLocations] Learner already running');
+    return;
+  }
+
+  console.log(`[KnownLocations] Starting learner with ${mergedConfig.intervalMs}ms interval`);
+
+  // Run immediately on start
+  void runLearner();
+
+  // Then run on interval
+  learnerInterval = setInterval(() => void runLearner(), mergedConfig.intervalMs);
+}
+
+/**
+ * Stop the known location learner job
+ */
+export function stopKnownLocationLearner(): void {
+  if (learnerInterval) {
+    clearInterval(learnerInterval);
+    learnerInterval = null;
+    console.log('[KnownLocations] Learner stopped');
+  }
+}
@@ -6,10 +6,39 @@
  */
 
 import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
-import type { ViolationWithDetails, ActiveSession, NotificationEventType } from '@tracearr/shared';
-import { notificationService } from '../services/notify.js';
+import type {
+  ViolationWithDetails,
+  ActiveSession,
+  ConcurrentStreamsAlert,
+  NewDeviceAlert,
+  NotificationEventType,
+  TrustScoreAlert,
+} from '@tracearr/shared';
+import {
+  notificationService,
+  type NewServerUserNotification,
+  type NotificationContext,
+  type NotificationMessage,
+  type NotificationTarget,
+  type SuspensionNotification,
+} from '../services/notify.js';
 import { pushNotificationService } from '../services/pushNotification.js';
-import { getNotificationSettings } from '../routes/settings.js';
+import {
+  getNotificationTargets,
+  type NotificationEventScope,
+} from '../services/notificationDestinations.js';
+import {
+  getConcurrentStreamsTemplateVariables,
+  getNewDeviceTemplateVariables,
+  getNewServerUserTemplateVariables,
+  getNotificationMessage,
+  getServerTemplateVariables,
+  getSessionTemplateVariables,
+  getSuspensionTemplateVariables,
+  getTrustScoreTemplateVariables,
+  getViolationTemplateVariables,
+  type TemplateVariables,
+} from '../services/notificationTemplates.js';
 import { getChannelRouting } from '../routes/channelRouting.js';
 
 /**
@@ -21,15 +50,29 @@ const JOB_TYPE_TO_EVENT_TYPE: Record<NotificationJobData['type'], NotificationEv
   session_stopped: 'stream_stopped',
   server_down: 'server_down',
   server_up: 'server_up',
+  user_suspended: 'user_suspended',
+  user_reinstated: 'user_reinstated',
+  new_server_user: 'new_server_user',
+  new_device: 'new_device',
+  concurrent_streams: 'concurrent_streams',
+  trust_score_changed: 'trust_score_changed',
 };
 
 // Job type discriminated union for type-safe job handling
-export type NotificationJobData =
+// channel is only set on retry jobs: the destination ID, 'push' or 'email' to resend to
+export type NotificationJobData = (
   | { type: 'violation'; payload: ViolationWithDetails }
   | { type: 'session_started'; payload: ActiveSession }
   | { type: 'session_stopped'; payload: ActiveSession }
   | { type: 'server_down'; payload: { serverName: string; serverId: string } }
-  | { type: 'server_up'; payload: { serverName: string; serverId: string } };
+  | { type: 'server_up'; payload: { serverName: string; serverId: string } }
+  | { type: 'user_suspended'; payload: SuspensionNotification }
+  | { type: 'user_reinstated'; payload: SuspensionNotification }
+  | { type: 'new_server_user'; payload: NewServerUserNotification }
+  | { type: 'new_device'; payload: NewDeviceAlert }
+  | { type: 'concurrent_streams'; payload: ConcurrentStreamsAlert }
+  | { type: 'trust_score_changed'; payload: TrustScoreAlert }
+) & { channel?: string };
 
 // Queue name constant
 const QUEUE_NAME = 'notifications';
@@ -37,6 +80,9 @@ const QUEUE_NAME = 'notifications';
 // Dead letter queue name for failed jobs that exceed retry attempts
 const DLQ_NAME = 'notifications-dlq';
 
+// Delay before a channel that failed is retried in a job of its own
+const RETRY_DELAY_MS = 1000;
+
 // Connection options (will be set during initialization)
 let connectionOptions: ConnectionOptions | null = null;
 
@@ -157,102 +203,199 @@ export function startNotificationWorker(): void {
 }
 
 /**
- * Process a single notification job
+ * Server and severity of a job's event, for routing it to destinations
  */
-async function processNotificationJob(job: Job<NotificationJobData>): Promise<void> {
-  const { type, payload } = job.data;
-
-  // Load current settings and channel routing for each job
-  // (settings/routing may change between enqueue and process)
-  const settings = await getNotificationSettings();
-  const eventType = JOB_TYPE_TO_EVENT_TYPE[type];
-  const routing = await getChannelRouting(eventType);
-
-  // Build settings object with routing-aware channel enablement
-  // The routing config controls which channels receive notifications
-  const effectiveSettings = {
-    // Only include webhook URLs if routing allows
-    discordWebhookUrl: routing.discordEnabled ? settings.discordWebhookUrl : null,
-    customWebhookUrl: routing.webhookEnabled ? settings.customWebhookUrl : null,
-    webhookFormat: settings.webhookFormat,
-    ntfyTopic: settings.ntfyTopic,
-    ntfyAuthToken: settings.ntfyAuthToken ?? null,
-    // Fill in defaults for other Settings fields
-    allowGuestAccess: false,
-    unitSystem: settings.unitSystem ?? 'metric' as const, // Display preference for units
-    pollerEnabled: true,
-    pollerIntervalMs: 15000,
-    tautulliUrl: null,
-    tautulliApiKey: null,
-    externalUrl: null,
-    basePath: '',
-    trustProxy: false,
-    mobileEnabled: settings.mobileEnabled ?? false,
-    primaryAuthMethod: 'local' as const, // Not used in notifications, but required by Settings type
-  };
+function getEventScope(data: NotificationJobData): NotificationEventScope {
+  if (data.type === 'violation') {
+    return { serverId: data.payload.user.serverId, severity: data.payload.severity };
+  }
+  return { serverId: data.payload.serverId, severity: null };
+}
 
-  switch (type) {
+/**
+ * Values a job's event offers to its notification template
+ */
+function getTemplateVariables(data: NotificationJobData): TemplateVariables {
+  switch (data.type) {
     case 'violation':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationService.notifyViolation(payload, effectiveSettings);
-      }
-      // Send push notification to mobile devices (if routing allows)
-      if (routing.pushEnabled) {
-        await pushNotificationService.notifyViolation(payload);
-      }
-      break;
-
+      return getViolationTemplateVariables(data.payload);
     case 'session_started':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationService.notifySessionStarted(payload, effectiveSettings);
-      }
-      // Send push notification to mobile devices (if routing allows)
-      if (routing.pushEnabled) {
-        await pushNotificationService.notifySessionStarted(payload);
-      }
-      break;
+    case 'session_stopped':
+      return getSessionTemplateVariables(data.payload);
+    case 'server_down':
+    case 'server_up':
+      return getServerTemplateVariables(data.payload.serverName);
+    case 'user_suspended':
+    case 'user_reinstated':
+      return getSuspensionTemplateVariables(data.payload);
+    case 'new_server_user':
+      return getNewServerUserTemplateVariables(data.payload);
+    case 'new_device':
+      return getNewDeviceTemplateVariables(data.payload);
+    case 'concurrent_streams':
+      return getConcurrentStreamsTemplateVariables(data.payload);
+    case 'trust_score_changed':
+      return getTrustScoreTemplateVariables(data.payload);
+  }
+}
 
+/**
+ * The event a job describes, for building its email text
+ */
+function getNotificationContext(data: NotificationJobData): NotificationContext {
+  switch (data.type) {
+    case 'violation':
+      return { violation: data.payload };
+    case 'session_started':
     case 'session_stopped':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationService.notifySessionStopped(payload, effectiveSettings);
-      }
-      // Send push notification to mobile devices (if routing allows)
-      if (routing.pushEnabled) {
-        await pushNotificationService.notifySessionStopped(payload);
-      }
-      break;
+      return { session: data.payload, eventType: data.type };
+    case 'server_down':
+    case 'server_up':
+      return { serverName: data.payload.serverName, eventType: data.type };
+    case 'user_suspended':
+    case 'user_reinstated':
+      return { suspension: data.payload, eventType: data.type };
+    case 'new_server_user':
+      return { newUser: data.payload };
+    case 'new_device':
+      return { newDevice: data.payload };
+    case 'concurrent_streams':
+      return { concurrentStreams: data.payload };
+    case 'trust_score_changed':
+      return { trustChange: data.payload };
+  }
+}
 
+/**
+ * Send a job's event to one Discord/webhook destination
+ */
+function sendToTarget(
+  data: NotificationJobData,
+  target: NotificationTarget,
+  message: NotificationMessage | null
+): Promise<void> {
+  switch (data.type) {
+    case 'violation':
+      return notificationService.notifyViolation(data.payload, target, message);
+    case 'session_started':
+      return notificationService.notifySessionStarted(data.payload, target, message);
+    case 'session_stopped':
+      return notificationService.notifySessionStopped(data.payload, target, message);
     case 'server_down':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationService.notifyServerDown(payload.serverName, effectiveSettings);
-      }
-      // Send push notification to mobile devices (if routing allows)
-      if (routing.pushEnabled) {
-        await pushNotificationService.notifyServerDown(payload.serverName, payload.serverId);
-      }
-      break;
+      return notificationService.notifyServerDown(data.payload.serverName, target, message);
+    case 'server_up':
+      return notificationService.notifyServerUp(data.payload.serverName, target, message);
+    case 'user_suspended':
+      return notificationService.notifyUserSuspended(data.payload, target, message);
+    case 'user_reinstated':
+      return notificationService.notifyUserReinstated(data.payload, target, message);
+    case 'new_server_user':
+      return notificationService.notifyNewServerUser(data.payload, target, message);
+    case 'new_device':
+      return notificationService.notifyNewDevice(data.payload, target, message);
+    case 'concurrent_streams':
+      return notificationService.notifyConcurrentStreams(data.payload, target, message);
+    case 'trust_score_changed':
+      return notificationService.notifyTrustScoreChanged(data.payload, target, message);
+  }
+}
 
+/**
+ * Send a job's event as a push notification to mobile devices
+ */
+function sendPush(data: NotificationJobData, message: NotificationMessage | null): Promise<void> {
+  switch (data.type) {
+    case 'violation':
+      return pushNotificationService.notifyViolation(data.payload, message);
+    case 'session_started':
+      return pushNotificationService.notifySessionStarted(data.payload, message);
+    case 'session_stopped':
+      return pushNotificationService.notifySessionStopped(data.payload, message);
+    case 'server_down':
+      return pushNotificationService.notifyServerDown(
+        data.payload.serverName,
+        data.payload.serverId,
+        message
+      );
     case 'server_up':
-      // Send to Discord/webhooks (if routing allows)
-      if (routing.discordEnabled || routing.webhookEnabled) {
-        await notificationService.notifyServerUp(payload.serverName, effectiveSettings);
-      }
-      // Send push notification to mobile devices (if routing allows)
-      if (routing.pushEnabled) {
-        await pushNotificationService.notifyServerUp(payload.serverName, payload.serverId);
-      }
-      break;
+      return pushNotificationService.notifyServerUp(
+        data.payload.serverName,
+        data.payload.serverId,
+        message
+      );
+    case 'user_suspended':
+    case 'user_reinstated':
+      return pushNotificationService.notifySuspension(data.payload, data.type, message);
+    case 'new_server_user':
+      return pushNotificationService.notifyNewServerUser(data.payload, message);
+    case 'new_device':
+      return pushNotificationService.notifyNewDevice(data.payload, message);
+    case 'concurrent_streams':
+      return pushNotificationService.notifyConcurrentStreams(data.payload, message);
+    case 'trust_score_changed':
+      return pushNotificationService.notifyTrustScoreChanged(data.payload, message);
+  }
+}
 
-    default: {
-      // TypeScript exhaustiveness check
-      const _exhaustive: never = type;
-      throw new Error(`Unknown notification type: ${_exhaustive}`);
+/**
+ * Process a single notification job
+ *
+ * Each channel (destination, push, email) is sent independently. A failed channel
+ * is retried in a job of its own, so channels that succeeded don't get the
+ * message twice. Retry jobs throw on failure to use BullMQ's backoff and DLQ.
+ */
+async function processNotificationJob(job: Job<NotificationJobData>): Promise<void> {
+  const { type, channel } = job.data;
+
+  // Load current routing and destinations for each job
+  // (routing may change between enqueue and process)
+  const eventType = JOB_TYPE_TO_EVENT_TYPE[type];
+  const routing = await getChannelRouting(eventType);
+  const targets = await getNotificationTargets(eventType, getEventScope(job.data));
+  // Custom template for the event, rendered once for every channel (null = built-in text)
+  const message = await getNotificationMessage(eventType, getTemplateVariables(job.data));
+
+  const deliveries: Array<{ channel: string; send: () => Promise<void> }> = [];
+  for (const target of targets) {
+    if (!channel || channel === target.destinationId) {
+      deliveries.push({
+        channel: target.destinationId,
+        send: () => sendToTarget(job.data, target, message),
+      });
+    }
+  }
+  if (routing.pushEnabled && (!channel || channel === 'push')) {
+    deliveries.push({ channel: 'push', send: () => sendPush(job.data, message) });
+  }
+  // Email goes to the configured recipients for every event type (if routing allows)
+  if (routing.emailEnabled && (!channel || channel === 'email')) {
+    deliveries.push({
+      channel: 'email',
+      send: () =>
+        notificationService.notifyEmail(eventType, getNotificationContext(job.data), message),
+    });
+  }
+
+  const results = await Promise.allSettled(deliveries.map((delivery) => delivery.send()));
+  const failedChannels: string[] = [];
+  for (const [i, delivery] of deliveries.entries()) {
+    const result = results[i];
+    if (result?.status === 'rejected') {
+      console.error(
+        `Notification job ${job.id} (${type}) failed for ${delivery.channel}:`,
+        result.reason
+      );
+      failedChannels.push(delivery.channel);
     }
   }
+
+  // A retry job sends to a single channel - throw so BullMQ retries it with backoff
+  if (channel && failedChannels.length > 0) {
+    throw new Error(`Notification to ${channel} failed`);
+  }
+  for (const failedChannel of failedChannels) {
+    await enqueueNotification({ ...job.data, channel: failedChannel }, { delay: RETRY_DELAY_MS });
+  }
 }
 
 /**
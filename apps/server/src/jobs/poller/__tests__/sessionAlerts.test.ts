@@ -0,0 +1,211 @@
+/**
+ * Session Alerts Tests
+ *
+ * Tests the alerts raised when a session is created, from poller/sessionAlerts.ts:
+ * - findNewDevice: first session on a device, but not the user's first ever
+ * - findConcurrentStreams: more than one active stream
+ * - detectSessionAlerts: publishing and enqueueing the alerts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ActiveSession } from '@tracearr/shared';
+
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../notificationQueue.js', () => ({
+  enqueueNotification: vi.fn(),
+}));
+
+import { db } from '../../../db/client.js';
+import { enqueueNotification } from '../../notificationQueue.js';
+import { detectSessionAlerts, findConcurrentStreams, findNewDevice } from '../sessionAlerts.js';
+
+function createSession(overrides: Partial<ActiveSession> = {}): ActiveSession {
+  return {
+    id: 'session-1',
+    serverId: 'server-1',
+    serverUserId: 'server-user-1',
+    sessionKey: 'key-1',
+    state: 'playing',
+    mediaType: 'movie',
+    mediaTitle: 'Heat',
+    grandparentTitle: null,
+    seasonNumber: null,
+    episodeNumber: null,
+    year: 1995,
+    thumbPath: null,
+    ratingKey: null,
+    externalSessionId: null,
+    startedAt: new Date(),
+    stoppedAt: null,
+    durationMs: null,
+    totalDurationMs: null,
+    progressMs: null,
+    lastPausedAt: null,
+    pausedDurationMs: 0,
+    referenceId: null,
+    watched: false,
+    ipAddress: '203.0.113.10',
+    geoCity: 'Denver',
+    geoRegion: 'Colorado',
+    geoCountry: 'US',
+    geoLat: null,
+    geoLon: null,
+    asn: null,
+    asnOrg: null,
+    playerName: 'Living Room',
+    deviceId: 'device-1',
+    product: 'Plex for Roku',
+    device: 'Roku',
+    platform: 'Roku',
+    quality: '1080p',
+    isTranscode: false,
+    videoDecision: 'directplay',
+    audioDecision: 'directplay',
+    bitrate: 8000,
+    user: { id: 'server-user-1', username: 'jsmith', thumbUrl: null, identityName: 'Jane' },
+    server: { id: 'server-1', name: 'Home Plex', type: 'plex' },
+    ...overrides,
+  };
+}
+
+/**
+ * Queue up the rows returned by each db.select() in order
+ */
+function mockSelects(...results: unknown[][]) {
+  for (const rows of results) {
+    vi.mocked(db.select).mockReturnValueOnce({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(rows),
+      }),
+    } as never);
+  }
+}
+
+describe('findNewDevice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports a device the user has never streamed from', async () => {
+    mockSelects([{ otherSessions: 12, sameDevice: 0 }]);
+
+    const alert = await findNewDevice(createSession());
+
+    expect(alert).toEqual({
+      serverUserId: 'server-user-1',
+      username: 'jsmith',
+      identityName: 'Jane',
+      serverId: 'server-1',
+      serverName: 'Home Plex',
+      sessionId: 'session-1',
+      deviceId: 'device-1',
+      playerName: 'Living Room',
+      product: 'Plex for Roku',
+      platform: 'Roku',
+      geoCity: 'Denver',
+      geoCountry: 'US',
+    });
+  });
+
+  it('ignores known devices', async () => {
+    mockSelects([{ otherSessions: 12, sameDevice: 4 }]);
+
+    expect(await findNewDevice(createSession())).toBeNull();
+  });
+
+  it("ignores the user's first session", async () => {
+    mockSelects([{ otherSessions: 0, sameDevice: 0 }]);
+
+    expect(await findNewDevice(createSession())).toBeNull();
+  });
+
+  it('skips sessions without a device id', async () => {
+    expect(await findNewDevice(createSession({ deviceId: null }))).toBeNull();
+    expect(db.select).not.toHaveBeenCalled();
+  });
+});
+
+describe('findConcurrentStreams', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports more than one active stream', async () => {
+    mockSelects([{ count: 3 }]);
+
+    expect(await findConcurrentStreams(createSession())).toMatchObject({
+      serverUserId: 'server-user-1',
+      sessionId: 'session-1',
+      streamCount: 3,
+    });
+  });
+
+  it('ignores a single stream', async () => {
+    mockSelects([{ count: 1 }]);
+
+    expect(await findConcurrentStreams(createSession())).toBeNull();
+  });
+});
+
+describe('detectSessionAlerts', () => {
+  const pubSubService = { publish: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('publishes and enqueues each alert', async () => {
+    mockSelects([{ otherSessions: 5, sameDevice: 0 }], [{ count: 2 }]);
+
+    await detectSessionAlerts(createSession(), pubSubService as never);
+
+    expect(pubSubService.publish).toHaveBeenCalledWith(
+      'device:new',
+      expect.objectContaining({ deviceId: 'device-1' })
+    );
+    expect(pubSubService.publish).toHaveBeenCalledWith(
+      'streams:concurrent',
+      expect.objectContaining({ streamCount: 2 })
+    );
+    expect(enqueueNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'new_device' })
+    );
+    expect(enqueueNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'concurrent_streams' })
+    );
+  });
+
+  it('sends nothing for a known device and a single stream', async () => {
+    mockSelects([{ otherSessions: 5, sameDevice: 1 }], [{ count: 1 }]);
+
+    await detectSessionAlerts(createSession(), pubSubService as never);
+
+    expect(pubSubService.publish).not.toHaveBeenCalled();
+    expect(enqueueNotification).not.toHaveBeenCalled();
+  });
+
+  it('still notifies without pub/sub', async () => {
+    mockSelects([{ otherSessions: 5, sameDevice: 0 }], [{ count: 1 }]);
+
+    await detectSessionAlerts(createSession(), null);
+
+    expect(enqueueNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs query failures instead of throwing', async () => {
+    vi.mocked(db.select).mockImplementationOnce(() => {
+      throw new Error('connection lost');
+    });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(detectSessionAlerts(createSession(), null)).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+
+    consoleError.mockRestore();
+  });
+});
@@ -2,13 +2,51 @@
  * Violations Module Tests
  *
  * Tests rule/violation functions from poller/violations.ts:
- * - getTrustScorePenalty: Map violation severity to trust score penalty
+ * - getTrustScorePenalty: Map violation severity and rule type to trust score penalty
  * - doesRuleApplyToUser: Check if a rule applies to a specific user
+ * - isDuplicateViolation: Skip violations already raised for the same sessions
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { randomUUID } from 'node:crypto';
-import { getTrustScorePenalty, doesRuleApplyToUser } from '../violations.js';
+import { DEFAULT_TRUST_MODEL, type RuleScope, type TrustModel } from '@tracearr/shared';
+
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+import { db } from '../../../db/client.js';
+import {
+  getTrustScorePenalty,
+  doesRuleApplyToUser,
+  isDuplicateViolation,
+  type RuleScopeTarget,
+} from '../violations.js';
+
+function createTarget(overrides: Partial<RuleScopeTarget> = {}): RuleScopeTarget {
+  return {
+    serverUserId: randomUUID(),
+    serverId: randomUUID(),
+    userId: randomUUID(),
+    role: 'member',
+    groupIds: [],
+    onProbation: false,
+    ...overrides,
+  };
+}
+
+function createScope(overrides: Partial<RuleScope> = {}): RuleScope {
+  return {
+    serverIds: [],
+    userIds: [],
+    roles: [],
+    groupIds: [],
+    excludedUserIds: [],
+    ...overrides,
+  };
+}
 
 describe('getTrustScorePenalty', () => {
   describe('severity mapping', () => {
@@ -24,14 +62,39 @@ describe('getTrustScorePenalty', () => {
       expect(getTrustScorePenalty('low')).toBe(5);
     });
   });
+
+  describe('trust model', () => {
+    const model: TrustModel = {
+      ...DEFAULT_TRUST_MODEL,
+      penalties: { low: 2, warning: 8, high: 30 },
+      rulePenalties: { impossible_travel: { high: 50 } },
+    };
+
+    it('should use the model severity penalties', () => {
+      expect(getTrustScorePenalty('warning', 'concurrent_streams', model)).toBe(8);
+    });
+
+    it('should prefer a per-rule penalty for the severity', () => {
+      expect(getTrustScorePenalty('high', 'impossible_travel', model)).toBe(50);
+    });
+
+    it('should fall back to severity penalties for severities without a rule override', () => {
+      expect(getTrustScorePenalty('low', 'impossible_travel', model)).toBe(2);
+    });
+  });
 });
 
 describe('doesRuleApplyToUser', () => {
   describe('global rules', () => {
     it('should apply global rules (serverUserId=null) to any user', () => {
       const globalRule = { serverUserId: null };
-      expect(doesRuleApplyToUser(globalRule, randomUUID())).toBe(true);
-      expect(doesRuleApplyToUser(globalRule, randomUUID())).toBe(true);
+      expect(doesRuleApplyToUser(globalRule, createTarget())).toBe(true);
+      expect(doesRuleApplyToUser(globalRule, createTarget())).toBe(true);
+    });
+
+    it('should apply rules with an empty scope to any user', () => {
+      const globalRule = { serverUserId: null, scope: createScope() };
+      expect(doesRuleApplyToUser(globalRule, createTarget())).toBe(true);
     });
   });
 
@@ -41,8 +104,169 @@ describe('doesRuleApplyToUser', () => {
       const otherServerUserId = randomUUID();
       const userRule = { serverUserId: targetServerUserId };
 
-      expect(doesRuleApplyToUser(userRule, targetServerUserId)).toBe(true);
-      expect(doesRuleApplyToUser(userRule, otherServerUserId)).toBe(false);
+      expect(doesRuleApplyToUser(userRule, createTarget({ serverUserId: targetServerUserId }))).toBe(true);
+      expect(doesRuleApplyToUser(userRule, createTarget({ serverUserId: otherServerUserId }))).toBe(false);
     });
   });
+
+  describe('scoped rules', () => {
+    it('should only apply server-scoped rules on those servers', () => {
+      const serverId = randomUUID();
+      const rule = { serverUserId: null, scope: createScope({ serverIds: [serverId] }) };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ serverId }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget())).toBe(false);
+    });
+
+    it('should apply identity-scoped rules to all of that identity\'s server accounts', () => {
+      const userId = randomUUID();
+      const rule = { serverUserId: null, scope: createScope({ userIds: [userId] }) };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ userId }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget({ userId }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget())).toBe(false);
+    });
+
+    it('should apply role-scoped rules by identity role', () => {
+      const rule = { serverUserId: null, scope: createScope({ roles: ['viewer'] }) };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ role: 'viewer' }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget({ role: 'member' }))).toBe(false);
+    });
+
+    it('should apply group-scoped rules to group members', () => {
+      const groupId = randomUUID();
+      const rule = { serverUserId: null, scope: createScope({ groupIds: [groupId] }) };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ groupIds: [randomUUID(), groupId] }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget({ groupIds: [randomUUID()] }))).toBe(false);
+    });
+
+    it('should match any of identity, role or group targeting', () => {
+      const userId = randomUUID();
+      const groupId = randomUUID();
+      const rule = {
+        serverUserId: null,
+        scope: createScope({ userIds: [userId], roles: ['admin'], groupIds: [groupId] }),
+      };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ userId }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget({ role: 'admin' }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget({ groupIds: [groupId] }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget())).toBe(false);
+    });
+
+    it('should require both server and user targeting to match', () => {
+      const serverId = randomUUID();
+      const userId = randomUUID();
+      const rule = {
+        serverUserId: null,
+        scope: createScope({ serverIds: [serverId], userIds: [userId] }),
+      };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ serverId, userId }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget({ userId }))).toBe(false);
+      expect(doesRuleApplyToUser(rule, createTarget({ serverId }))).toBe(false);
+    });
+
+    it('should never apply to excluded identities', () => {
+      const householdMember = randomUUID();
+      const rule = {
+        serverUserId: null,
+        scope: createScope({ excludedUserIds: [householdMember] }),
+      };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ userId: householdMember }))).toBe(false);
+      expect(doesRuleApplyToUser(rule, createTarget())).toBe(true);
+    });
+
+    it('should let exclusions win over explicit targeting', () => {
+      const userId = randomUUID();
+      const rule = {
+        serverUserId: null,
+        scope: createScope({ userIds: [userId], excludedUserIds: [userId] }),
+      };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ userId }))).toBe(false);
+    });
+
+    it('should only apply probation-scoped rules to accounts on probation', () => {
+      const rule = { serverUserId: null, scope: createScope({ probationOnly: true }) };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ onProbation: true }))).toBe(true);
+      expect(doesRuleApplyToUser(rule, createTarget())).toBe(false);
+    });
+
+    it('should combine probation with role targeting', () => {
+      const rule = {
+        serverUserId: null,
+        scope: createScope({ roles: ['member'], probationOnly: true }),
+      };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ onProbation: true }))).toBe(true);
+      expect(
+        doesRuleApplyToUser(rule, createTarget({ role: 'admin', onProbation: true }))
+      ).toBe(false);
+    });
+
+    it('should not match identity targeting when the identity is unknown', () => {
+      const rule = { serverUserId: null, scope: createScope({ roles: ['member'] }) };
+
+      expect(doesRuleApplyToUser(rule, createTarget({ userId: null, role: null }))).toBe(false);
+    });
+  });
+});
+
+describe('isDuplicateViolation', () => {
+  function mockRecentViolations(rows: unknown[]) {
+    vi.mocked(db.select).mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        innerJoin: vi.fn().mockReturnValue({
+          where: vi.fn().mockResolvedValue(rows),
+        }),
+      }),
+    } as never);
+  }
+
+  it('should dedupe composite violations only against the same rule', async () => {
+    const firstRule = { id: randomUUID(), type: 'composite' as const };
+    const secondRule = { id: randomUUID(), type: 'composite' as const };
+    const existingSessionId = randomUUID();
+    const newSessionId = randomUUID();
+
+    // The first rule already fired for both sessions
+    mockRecentViolations([
+      {
+        id: randomUUID(),
+        ruleId: firstRule.id,
+        sessionId: existingSessionId,
+        data: { relatedSessionIds: [existingSessionId, newSessionId] },
+      },
+    ]);
+
+    const serverUserId = randomUUID();
+    const relatedSessionIds = [existingSessionId];
+    expect(
+      await isDuplicateViolation(serverUserId, secondRule, newSessionId, relatedSessionIds)
+    ).toBe(false);
+    expect(
+      await isDuplicateViolation(serverUserId, firstRule, newSessionId, relatedSessionIds)
+    ).toBe(true);
+  });
+
+  it('should dedupe concurrent stream violations across rules of the type', async () => {
+    const sessionId = randomUUID();
+    mockRecentViolations([
+      { id: randomUUID(), ruleId: randomUUID(), sessionId, data: { relatedSessionIds: [] } },
+    ]);
+
+    expect(
+      await isDuplicateViolation(
+        randomUUID(),
+        { id: randomUUID(), type: 'concurrent_streams' },
+        randomUUID(),
+        [sessionId]
+      )
+    ).toBe(true);
+  });
 });
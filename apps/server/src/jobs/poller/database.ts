@@ -5,11 +5,28 @@
  * Includes batch loading for performance optimization and rule fetching.
  */
 
-import { eq, and, desc, gte, inArray } from 'drizzle-orm';
-import { TIME_MS, SESSION_LIMITS, type Session, type Rule, type RuleParams } from '@tracearr/shared';
+import { eq, and, desc, gte, inArray, min } from 'drizzle-orm';
+import {
+  TIME_MS,
+  SESSION_LIMITS,
+  type Session,
+  type Rule,
+  type RuleParams,
+  type KnownLocation,
+} from '@tracearr/shared';
 import { db } from '../../db/client.js';
-import { sessions, rules } from '../../db/schema.js';
+import {
+  sessions,
+  rules,
+  serverUsers,
+  users,
+  userGroupMembers,
+  knownLocations,
+  policyProfiles,
+} from '../../db/schema.js';
 import { mapSessionRow } from './sessionMapper.js';
+import type { RuleScopeTarget } from './violations.js';
+import type { DeviceHistoryEntry, RulePolicyProfile } from '../../services/rules.js';
 
 // ============================================================================
 // Session Batch Loading
@@ -86,9 +103,293 @@ export async function getActiveRules(): Promise<Rule[]> {
     name: r.name,
     type: r.type,
     params: r.params as unknown as RuleParams,
+    actions: r.actions ?? [],
+    scope: r.scope ?? { serverIds: [], userIds: [], roles: [], groupIds: [], excludedUserIds: [] },
+    schedule: r.schedule ?? null,
     serverUserId: r.serverUserId,
+    crossServer: r.crossServer,
     isActive: r.isActive,
     createdAt: r.createdAt,
     updatedAt: r.updatedAt,
   }));
 }
+
+// ============================================================================
+// Rule Scope Loading
+// ============================================================================
+
+/**
+ * Batch load rule scope targets (server, identity, role, groups, probation) for server users
+ *
+ * Used with `doesRuleApplyToUser()` to decide which rules apply to each server user.
+ * Two queries total regardless of how many server users are passed.
+ *
+ * @param serverUserIds - Server user IDs to load targets for
+ * @returns Map of serverUserId -> RuleScopeTarget (missing server users are omitted)
+ *
+ * @example
+ * const targets = await batchGetRuleScopeTargets(['su-1', 'su-2']);
+ * const rulesForUser = activeRules.filter((r) => doesRuleApplyToUser(r, targets.get('su-1')!));
+ */
+export async function batchGetRuleScopeTargets(
+  serverUserIds: string[]
+): Promise<Map<string, RuleScopeTarget>> {
+  if (serverUserIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      serverUserId: serverUsers.id,
+      serverId: serverUsers.serverId,
+      userId: serverUsers.userId,
+      role: users.role,
+      probationUntil: serverUsers.probationUntil,
+    })
+    .from(serverUsers)
+    .innerJoin(users, eq(serverUsers.userId, users.id))
+    .where(inArray(serverUsers.id, serverUserIds));
+
+  const userIds = [...new Set(rows.map((r) => r.userId))];
+  const memberships =
+    userIds.length > 0
+      ? await db
+          .select({ userId: userGroupMembers.userId, groupId: userGroupMembers.groupId })
+          .from(userGroupMembers)
+          .where(inArray(userGroupMembers.userId, userIds))
+      : [];
+
+  const groupsByUserId = new Map<string, string[]>();
+  for (const m of memberships) {
+    const groups = groupsByUserId.get(m.userId) ?? [];
+    groups.push(m.groupId);
+    groupsByUserId.set(m.userId, groups);
+  }
+
+  const now = new Date();
+  const result = new Map<string, RuleScopeTarget>();
+  for (const row of rows) {
+    result.set(row.serverUserId, {
+      serverUserId: row.serverUserId,
+      serverId: row.serverId,
+      userId: row.userId,
+      role: row.role,
+      groupIds: groupsByUserId.get(row.userId) ?? [],
+      onProbation: row.probationUntil !== null && row.probationUntil > now,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Batch load known locations (confirmed, non-dismissed) for identities
+ *
+ * Passed to the rule engine so location rules can ignore or downweight
+ * sessions from places the user is known to stream from.
+ *
+ * @param userIds - Identity IDs (users.id) to load known locations for
+ * @returns Map of userId -> KnownLocation[] (identities without any are omitted)
+ */
+export async function batchGetKnownLocations(
+  userIds: string[]
+): Promise<Map<string, KnownLocation[]>> {
+  const result = new Map<string, KnownLocation[]>();
+  if (userIds.length === 0) return result;
+
+  const rows = await db
+    .select()
+    .from(knownLocations)
+    .where(
+      and(
+        inArray(knownLocations.userId, [...new Set(userIds)]),
+        eq(knownLocations.dismissed, false),
+        eq(knownLocations.pending, false)
+      )
+    );
+
+  for (const row of rows) {
+    const list = result.get(row.userId) ?? [];
+    list.push(row);
+    result.set(row.userId, list);
+  }
+
+  return result;
+}
+
+/**
+ * Batch load the policy profile assigned to each identity
+ *
+ * Passed to the rule engine so rules with useProfile read the identity's limits.
+ *
+ * @param userIds - Identity IDs (users.id) to load profiles for
+ * @returns Map of userId -> RulePolicyProfile (identities without a profile are omitted)
+ */
+export async function batchGetPolicyProfiles(
+  userIds: string[]
+): Promise<Map<string, RulePolicyProfile>> {
+  const result = new Map<string, RulePolicyProfile>();
+  if (userIds.length === 0) return result;
+
+  const rows = await db
+    .select({
+      userId: users.id,
+      id: policyProfiles.id,
+      name: policyProfiles.name,
+      maxStreams: policyProfiles.maxStreams,
+      allowedCountries: policyProfiles.allowedCountries,
+      maxTranscodes: policyProfiles.maxTranscodes,
+    })
+    .from(users)
+    .innerJoin(policyProfiles, eq(users.policyProfileId, policyProfiles.id))
+    .where(inArray(users.id, [...new Set(userIds)]));
+
+  for (const { userId, ...profile } of rows) {
+    result.set(userId, profile);
+  }
+
+  return result;
+}
+
+/**
+ * Batch load device history (first sighting of each device/platform pair) for server users
+ *
+ * Uses sessions_device_idx. Passed to the rule engine so device_novelty rules
+ * can tell never-before-seen devices and platforms apart from known ones.
+ *
+ * @param serverUserIds - Server user IDs to load device history for
+ * @returns Map of serverUserId -> DeviceHistoryEntry[] (server users without sessions get [])
+ */
+export async function batchGetDeviceHistory(
+  serverUserIds: string[]
+): Promise<Map<string, DeviceHistoryEntry[]>> {
+  const result = new Map<string, DeviceHistoryEntry[]>();
+  if (serverUserIds.length === 0) return result;
+
+  for (const serverUserId of serverUserIds) {
+    result.set(serverUserId, []);
+  }
+
+  const rows = await db
+    .select({
+      serverUserId: sessions.serverUserId,
+      deviceId: sessions.deviceId,
+      platform: sessions.platform,
+      firstSeenAt: min(sessions.startedAt),
+    })
+    .from(sessions)
+    .where(inArray(sessions.serverUserId, serverUserIds))
+    .groupBy(sessions.serverUserId, sessions.deviceId, sessions.platform);
+
+  for (const row of rows) {
+    if (!row.firstSeenAt) continue;
+    result.get(row.serverUserId)?.push({
+      deviceId: row.deviceId,
+      platform: row.platform,
+      firstSeenAt: row.firstSeenAt,
+    });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Identity Batch Loading (cross-server rules)
+// ============================================================================
+
+/**
+ * Map each server user to every server account linked to the same identity
+ *
+ * @param serverUserIds - Server user IDs to resolve
+ * @returns Map of serverUserId -> linked server user IDs (including itself)
+ */
+async function batchGetLinkedServerUserIds(
+  serverUserIds: string[]
+): Promise<Map<string, string[]>> {
+  const result = new Map<string, string[]>();
+  if (serverUserIds.length === 0) return result;
+
+  const owners = await db
+    .select({ id: serverUsers.id, userId: serverUsers.userId })
+    .from(serverUsers)
+    .where(inArray(serverUsers.id, serverUserIds));
+
+  const userIds = [...new Set(owners.map((o) => o.userId))];
+  const linked =
+    userIds.length > 0
+      ? await db
+          .select({ id: serverUsers.id, userId: serverUsers.userId })
+          .from(serverUsers)
+          .where(inArray(serverUsers.userId, userIds))
+      : [];
+
+  const accountsByUserId = new Map<string, string[]>();
+  for (const account of linked) {
+    const accounts = accountsByUserId.get(account.userId) ?? [];
+    accounts.push(account.id);
+    accountsByUserId.set(account.userId, accounts);
+  }
+
+  for (const serverUserId of serverUserIds) {
+    result.set(serverUserId, [serverUserId]);
+  }
+  for (const owner of owners) {
+    result.set(owner.id, accountsByUserId.get(owner.userId) ?? [owner.id]);
+  }
+
+  return result;
+}
+
+/**
+ * Batch load recent sessions of every server account linked to each server user's identity
+ *
+ * Used for cross-server rules, which evaluate a session against the sessions of
+ * the identity's accounts on all servers.
+ *
+ * @param serverUserIds - Server user IDs to load sessions for
+ * @param hours - Number of hours to look back (default: 24)
+ * @returns Map of serverUserId -> Session[] across linked accounts, newest first
+ */
+export async function batchGetIdentitySessions(
+  serverUserIds: string[],
+  hours = 24
+): Promise<Map<string, Session[]>> {
+  const linked = await batchGetLinkedServerUserIds(serverUserIds);
+  const sessionsByAccount = await batchGetRecentUserSessions(
+    [...new Set([...linked.values()].flat())],
+    hours
+  );
+
+  const result = new Map<string, Session[]>();
+  for (const [serverUserId, accountIds] of linked) {
+    result.set(
+      serverUserId,
+      accountIds
+        .flatMap((id) => sessionsByAccount.get(id) ?? [])
+        .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Batch load device history of every server account linked to each server user's identity
+ *
+ * @param serverUserIds - Server user IDs to load device history for
+ * @returns Map of serverUserId -> DeviceHistoryEntry[] across linked accounts
+ */
+export async function batchGetIdentityDeviceHistory(
+  serverUserIds: string[]
+): Promise<Map<string, DeviceHistoryEntry[]>> {
+  const linked = await batchGetLinkedServerUserIds(serverUserIds);
+  const historyByAccount = await batchGetDeviceHistory([...new Set([...linked.values()].flat())]);
+
+  const result = new Map<string, DeviceHistoryEntry[]>();
+  for (const [serverUserId, accountIds] of linked) {
+    result.set(
+      serverUserId,
+      accountIds.flatMap((id) => historyByAccount.get(id) ?? [])
+    );
+  }
+
+  return result;
+}
@@ -13,22 +13,44 @@ import { db } from '../../db/client.js';
 import { servers, serverUsers, sessions, users } from '../../db/schema.js';
 import { createMediaServerClient } from '../../services/mediaServer/index.js';
 import { geoipService, type GeoLocation } from '../../services/geoip.js';
-import { ruleEngine } from '../../services/rules.js';
+import { asnService } from '../../services/asn.js';
+import {
+  ruleEngine,
+  rulesUsePolicyProfile,
+  rulesUseType,
+  type DeviceHistoryEntry,
+  type RulePolicyProfile,
+} from '../../services/rules.js';
+import { executeRuleActions } from '../../services/ruleActions.js';
 import type { CacheService, PubSubService } from '../../services/cache.js';
 import { sseManager } from '../../services/sseManager.js';
 
 import type { PollerConfig, ServerWithToken, ServerProcessingResult } from './types.js';
 import { mapMediaSession } from './sessionMapper.js';
-import { batchGetRecentUserSessions, getActiveRules } from './database.js';
+import {
+  batchGetDeviceHistory,
+  batchGetIdentityDeviceHistory,
+  batchGetIdentitySessions,
+  batchGetKnownLocations,
+  batchGetPolicyProfiles,
+  batchGetRecentUserSessions,
+  batchGetRuleScopeTargets,
+  getActiveRules,
+} from './database.js';
 import {
   calculatePauseAccumulation,
   calculateStopDuration,
   checkWatchCompletion,
+  isQualityChangeScenario,
   shouldForceStopStaleSession,
   shouldRecordSession,
 } from './stateTracker.js';
 import { createViolationInTransaction, broadcastViolations, doesRuleApplyToUser, isDuplicateViolation, type ViolationInsertResult } from './violations.js';
+import { detectSessionAlerts } from './sessionAlerts.js';
 import { enqueueNotification } from '../notificationQueue.js';
+import { getProbationUntil } from '../../services/userService.js';
+import { recordServerDown, recordServerUp } from '../../services/serverOutages.js';
+import { getProbationDays } from '../../routes/settings.js';
 
 // ============================================================================
 // Module State
@@ -235,6 +257,9 @@ async function processServerSessions(
         .returning();
 
       // Then create server users linked to the identity users
+      // Sync missed them, so they joined now and start their probation now
+      const joinedAt = new Date();
+      const probationUntil = getProbationUntil(joinedAt, await getProbationDays());
       const newServerUsers = await db
         .insert(serverUsers)
         .values(serverUsersToCreate.map((u, idx) => ({
@@ -243,6 +268,9 @@ async function processServerSessions(
           externalId: u.externalId,
           username: u.username,
           thumbUrl: u.thumbUrl,
+          joinedAt,
+          source: 'session' as const,
+          probationUntil,
         })))
         .returning();
 
@@ -277,7 +305,26 @@ async function processServerSessions(
       }
     }
 
-    const recentSessionsMap = await batchGetRecentUserSessions([...serverUsersWithNewSessions]);
+    // Cross-server rules also see the sessions of accounts linked to the same identity
+    const crossServerRules = activeRules.filter((r) => r.crossServer);
+    const recentSessionsMap =
+      crossServerRules.length > 0
+        ? await batchGetIdentitySessions([...serverUsersWithNewSessions])
+        : await batchGetRecentUserSessions([...serverUsersWithNewSessions]);
+    const ruleScopeTargets = await batchGetRuleScopeTargets([...serverUsersWithNewSessions]);
+    const identityIds = [...ruleScopeTargets.values()].flatMap((t) =>
+      t.userId ? [t.userId] : []
+    );
+    const knownLocationsMap = await batchGetKnownLocations(identityIds);
+    const policyProfilesMap = rulesUsePolicyProfile(activeRules)
+      ? await batchGetPolicyProfiles(identityIds)
+      : new Map<string, RulePolicyProfile>();
+    const deviceHistoryMap = rulesUseType(activeRules, 'device_novelty')
+      ? await batchGetDeviceHistory([...serverUsersWithNewSessions])
+      : new Map<string, DeviceHistoryEntry[]>();
+    const identityDeviceHistoryMap = rulesUseType(crossServerRules, 'device_novelty')
+      ? await batchGetIdentityDeviceHistory([...serverUsersWithNewSessions])
+      : new Map<string, DeviceHistoryEntry[]>();
 
     // Process each session
     for (let i = 0; i < processedSessions.length; i++) {
@@ -302,8 +349,9 @@ async function processServerSessions(
           }
         : { id: serverUserId, username: 'Unknown', thumbUrl: null, identityName: null };
 
-      // Get GeoIP location
+      // Get GeoIP location and network provider
       const geo: GeoLocation = geoipService.lookup(processed.ipAddress);
+      const network = asnService.lookup(processed.ipAddress);
 
       const isNew = !cachedSessionKeys.has(sessionKey);
 
@@ -350,9 +398,11 @@ async function processServerSessions(
             .limit(1);
 
           const existingActiveSession = activeSameContent[0];
-          if (existingActiveSession) {
+          const qualityChangeReferenceId = isQualityChangeScenario(existingActiveSession);
+          if (existingActiveSession && qualityChangeReferenceId) {
             // This is a quality/resolution change during playback
-            // Stop the old session and link the new one
+            // Stop the old session and link the new one. Rules run again on the new
+            // session, so stream_quality limits see the new quality and bitrate
             const now = new Date();
             const { durationMs, finalPausedDurationMs } = calculateStopDuration(
               {
@@ -390,7 +440,7 @@ async function processServerSessions(
             cachedSessionKeys.delete(`${server.id}:${existingActiveSession.sessionKey}`);
 
             // Link to the original session chain
-            referenceId = existingActiveSession.referenceId || existingActiveSession.id;
+            referenceId = qualityChangeReferenceId;
 
             console.log(`[Poller] Quality change detected for user ${serverUserId}, content ${processed.ratingKey}. Old session ${existingActiveSession.id} stopped, linking new session.`);
           }
@@ -464,6 +514,8 @@ async function processServerSessions(
               geoCountry: geo.country,
               geoLat: geo.lat,
               geoLon: geo.lon,
+              asn: network.asn,
+              asnOrg: network.asnOrg,
               playerName: processed.playerName,
               deviceId: processed.deviceId || null,
               product: processed.product || null,
@@ -513,6 +565,8 @@ async function processServerSessions(
             geoCountry: geo.country,
             geoLat: geo.lat,
             geoLon: geo.lon,
+            asn: network.asn,
+            asnOrg: network.asnOrg,
             playerName: processed.playerName,
             deviceId: processed.deviceId || null,
             product: processed.product || null,
@@ -525,22 +579,36 @@ async function processServerSessions(
             bitrate: processed.bitrate,
           };
 
-          const ruleResults = await ruleEngine.evaluateSession(session, activeRules, recentSessions);
+          const ruleTarget = ruleScopeTargets.get(serverUserId) ?? {
+            serverUserId,
+            serverId: server.id,
+            userId: null,
+            role: null,
+            groupIds: [],
+            onProbation: false,
+          };
+          const ruleResults = await ruleEngine.evaluateSession(session, activeRules, recentSessions, {
+            userId: ruleTarget.userId,
+            knownLocations: ruleTarget.userId
+              ? (knownLocationsMap.get(ruleTarget.userId) ?? [])
+              : [],
+            deviceHistory: deviceHistoryMap.get(serverUserId) ?? [],
+            identityDeviceHistory: identityDeviceHistoryMap.get(serverUserId),
+            policyProfile: ruleTarget.userId ? policyProfilesMap.get(ruleTarget.userId) : null,
+          });
 
           // Create violations within same transaction
           const createdViolations: ViolationInsertResult[] = [];
           for (const result of ruleResults) {
             if (result.violated) {
-              const matchingRule = activeRules.find(
-                (r) => doesRuleApplyToUser(r, serverUserId)
-              );
-              if (matchingRule) {
+              const matchingRule = result.rule;
+              if (doesRuleApplyToUser(matchingRule, ruleTarget)) {
                 // Check for duplicate violations before creating
                 // This prevents multiple violations when sessions start simultaneously
                 const relatedSessionIds = (result.data?.relatedSessionIds as string[]) || [];
                 const isDuplicate = await isDuplicateViolation(
                   serverUserId,
-                  matchingRule.type,
+                  matchingRule,
                   inserted.id,
                   relatedSessionIds
                 );
@@ -599,6 +667,8 @@ async function processServerSessions(
           geoCountry: geo.country,
           geoLat: geo.lat,
           geoLon: geo.lon,
+          asn: network.asn,
+          asnOrg: network.asnOrg,
           playerName: processed.playerName,
           deviceId: processed.deviceId || null,
           product: processed.product || null,
@@ -623,6 +693,20 @@ async function processServerSessions(
           console.error('[Poller] Failed to broadcast violations:', err);
           // Violations are already persisted in DB, broadcast failure is non-fatal
         }
+
+        // New device and concurrent stream alerts (errors are logged, never thrown)
+        await detectSessionAlerts(activeSession, pubSubService);
+
+        // Run automatic rule actions (terminate/log) now that violations are committed
+        for (const { violation, rule } of violationResults) {
+          await executeRuleActions(rule, {
+            id: violation.id,
+            serverId: server.id,
+            serverUserId: violation.serverUserId,
+            sessionId: violation.sessionId,
+            data: violation.data,
+          });
+        }
       } else {
         // Get existing ACTIVE session to check for state changes
         const existingRows = await db
@@ -720,6 +804,8 @@ async function processServerSessions(
           geoCountry: geo.country,
           geoLat: geo.lat,
           geoLon: geo.lon,
+          asn: network.asn,
+          asnOrg: network.asnOrg,
           playerName: processed.playerName,
           deviceId: processed.deviceId || null,
           product: processed.product || null,
@@ -876,6 +962,7 @@ async function pollServers(): Promise<void> {
         if (wasHealthy === true && !success) {
           // Server went down - notify
           console.log(`[Poller] Server ${server.name} is DOWN`);
+          await recordServerDown(server.id);
           await enqueueNotification({
             type: 'server_down',
             payload: { serverName: server.name, serverId: server.id },
@@ -883,6 +970,7 @@ async function pollServers(): Promise<void> {
         } else if (wasHealthy === false && success) {
           // Server came back up - notify
           console.log(`[Poller] Server ${server.name} is back UP`);
+          await recordServerUp(server.id);
           await enqueueNotification({
             type: 'server_up',
             payload: { serverName: server.name, serverId: server.id },
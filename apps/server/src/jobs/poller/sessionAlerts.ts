@@ -0,0 +1,109 @@
+/**
+ * Session Alerts
+ *
+ * Notifications about how a user is streaming rather than which rule they broke:
+ * starting on a device they haven't used before, and running several streams at once.
+ * Checked once per session, right after the poller or SSE processor creates it.
+ */
+
+import { and, eq, isNull, ne, sql } from 'drizzle-orm';
+import type {
+  ActiveSession,
+  AlertUser,
+  ConcurrentStreamsAlert,
+  NewDeviceAlert,
+} from '@tracearr/shared';
+import { WS_EVENTS } from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { sessions } from '../../db/schema.js';
+import type { PubSubService } from '../../services/cache.js';
+import { enqueueNotification } from '../notificationQueue.js';
+
+function getAlertUser(session: ActiveSession): AlertUser {
+  return {
+    serverUserId: session.serverUserId,
+    username: session.user.username,
+    identityName: session.user.identityName,
+    serverId: session.server.id,
+    serverName: session.server.name,
+  };
+}
+
+/**
+ * Check whether the session is the user's first on its device.
+ * A user's very first session isn't reported, every device is new to a new account.
+ *
+ * @returns The alert to send, or null if the device is known or can't be identified
+ */
+export async function findNewDevice(session: ActiveSession): Promise<NewDeviceAlert | null> {
+  if (!session.deviceId) return null;
+
+  const sameDevice = eq(sessions.deviceId, session.deviceId);
+  const [history] = await db
+    .select({
+      otherSessions: sql<number>`count(*)::int`,
+      sameDevice: sql<number>`count(*) filter (where ${sameDevice})::int`,
+    })
+    .from(sessions)
+    .where(and(eq(sessions.serverUserId, session.serverUserId), ne(sessions.id, session.id)));
+
+  if (!history || history.otherSessions === 0 || history.sameDevice > 0) return null;
+
+  return {
+    ...getAlertUser(session),
+    sessionId: session.id,
+    deviceId: session.deviceId,
+    playerName: session.playerName,
+    product: session.product,
+    platform: session.platform,
+    geoCity: session.geoCity,
+    geoCountry: session.geoCountry,
+  };
+}
+
+/**
+ * Check whether the session gives the user more than one active stream
+ *
+ * @returns The alert to send, or null while the user has a single stream
+ */
+export async function findConcurrentStreams(
+  session: ActiveSession
+): Promise<ConcurrentStreamsAlert | null> {
+  const [active] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(sessions)
+    .where(and(eq(sessions.serverUserId, session.serverUserId), isNull(sessions.stoppedAt)));
+
+  const streamCount = active?.count ?? 0;
+  if (streamCount < 2) return null;
+
+  return { ...getAlertUser(session), sessionId: session.id, streamCount };
+}
+
+/**
+ * Publish and notify the new device and concurrent streams alerts for a new session.
+ * Failures are logged, the session itself is already saved.
+ *
+ * @param session - The session that was just created
+ * @param pubSubService - PubSub service for WebSocket broadcast (null = notifications only)
+ */
+export async function detectSessionAlerts(
+  session: ActiveSession,
+  pubSubService: PubSubService | null
+): Promise<void> {
+  try {
+    const newDevice = await findNewDevice(session);
+    if (newDevice) {
+      await pubSubService?.publish(WS_EVENTS.DEVICE_NEW, newDevice);
+      await enqueueNotification({ type: 'new_device', payload: newDevice });
+    }
+
+    const concurrentStreams = await findConcurrentStreams(session);
+    if (concurrentStreams) {
+      await pubSubService?.publish(WS_EVENTS.STREAMS_CONCURRENT, concurrentStreams);
+      await enqueueNotification({ type: 'concurrent_streams', payload: concurrentStreams });
+    }
+  } catch (err) {
+    console.error(`[SessionAlerts] Failed to check session ${session.id}:`, err);
+  }
+}
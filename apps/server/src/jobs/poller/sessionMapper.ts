@@ -212,6 +212,8 @@ export function mapSessionRow(s: typeof sessions.$inferSelect): Session {
     geoCountry: s.geoCountry,
     geoLat: s.geoLat,
     geoLon: s.geoLon,
+    asn: s.asn,
+    asnOrg: s.asnOrg,
     playerName: s.playerName,
     deviceId: s.deviceId,
     product: s.product,
@@ -5,17 +5,29 @@
  * and determining rule applicability.
  */
 
-import { eq, sql, and, isNull, gte } from 'drizzle-orm';
+import { eq, and, isNull, gte } from 'drizzle-orm';
 import type { ExtractTablesWithRelations } from 'drizzle-orm';
 import type { PgTransaction } from 'drizzle-orm/pg-core';
 import type { PostgresJsQueryResultHKT } from 'drizzle-orm/postgres-js';
-import type { Rule, ViolationSeverity, ViolationWithDetails, RuleType } from '@tracearr/shared';
-import { WS_EVENTS, TIME_MS } from '@tracearr/shared';
+import type {
+  AlertUser,
+  Rule,
+  RuleScope,
+  UserRole,
+  ViolationSeverity,
+  ViolationWithDetails,
+  RuleType,
+  TrustModel,
+  TrustScoreAlert,
+} from '@tracearr/shared';
+import { WS_EVENTS, TIME_MS, DEFAULT_TRUST_MODEL, getTrustLevel } from '@tracearr/shared';
 import { db } from '../../db/client.js';
 import { servers, serverUsers, sessions, violations, users, rules } from '../../db/schema.js';
 import type * as schema from '../../db/schema.js';
 import type { RuleEvaluationResult } from '../../services/rules.js';
 import type { PubSubService } from '../../services/cache.js';
+import { applyTrustScoreChange } from '../../services/trustScore.js';
+import { getTrustModel } from '../../routes/settings.js';
 import { enqueueNotification } from '../notificationQueue.js';
 
 // Type for transaction context
@@ -26,18 +38,100 @@ type TransactionContext = PgTransaction<PostgresJsQueryResultHKT, typeof schema,
 // ============================================================================
 
 /**
- * Calculate trust score penalty based on violation severity.
+ * Calculate trust score penalty for a violation from the trust model.
+ * Per-rule-type penalties override the model's severity penalties.
  *
  * @param severity - Violation severity level
- * @returns Trust score penalty (negative value to subtract)
+ * @param ruleType - Type of the violated rule (for per-rule penalties)
+ * @param model - Trust model from settings
+ * @returns Trust score penalty (positive value to subtract)
  *
  * @example
  * getTrustScorePenalty('high');    // 20
  * getTrustScorePenalty('warning'); // 10
  * getTrustScorePenalty('low');     // 5
  */
-export function getTrustScorePenalty(severity: ViolationSeverity): number {
-  return severity === 'high' ? 20 : severity === 'warning' ? 10 : 5;
+export function getTrustScorePenalty(
+  severity: ViolationSeverity,
+  ruleType?: RuleType,
+  model: TrustModel = DEFAULT_TRUST_MODEL
+): number {
+  const rulePenalty = ruleType ? model.rulePenalties[ruleType]?.[severity] : undefined;
+  return rulePenalty ?? model.penalties[severity];
+}
+
+/**
+ * A server user's trust score before and after a violation penalty
+ */
+export interface TrustScoreTransition {
+  previous: number;
+  current: number;
+}
+
+/**
+ * Subtract a violation's penalty from the server user's trust score.
+ * Reads the score first so callers can tell when the trust level changed.
+ *
+ * @returns The score before and after, or null if the server user is gone
+ */
+async function applyViolationPenalty(
+  tx: TransactionContext,
+  serverUserId: string,
+  violationId: string,
+  trustPenalty: number,
+  trustModel: TrustModel
+): Promise<TrustScoreTransition | null> {
+  const [before] = await tx
+    .select({ trustScore: serverUsers.trustScore })
+    .from(serverUsers)
+    .where(eq(serverUsers.id, serverUserId))
+    .limit(1);
+
+  const current = await applyTrustScoreChange(
+    tx,
+    { serverUserId, delta: -trustPenalty, reason: 'violation', violationId },
+    trustModel
+  );
+
+  if (!before || current === null) return null;
+  return { previous: before.trustScore, current };
+}
+
+/**
+ * Publish and notify when violations moved a user into another trust level
+ * (e.g. from Trusted to Caution). Nothing is sent while the level stays the same.
+ *
+ * @param user - Server user and server the violations belong to
+ * @param transitions - Score changes in the order they were applied
+ * @param violationId - Violation that caused the last change
+ */
+async function broadcastTrustLevelChange(
+  user: AlertUser,
+  transitions: TrustScoreTransition[],
+  violationId: string | null,
+  pubSubService: PubSubService
+): Promise<void> {
+  const first = transitions[0];
+  const last = transitions[transitions.length - 1];
+  if (!first || !last) return;
+
+  const previousLevel = getTrustLevel(first.previous);
+  const level = getTrustLevel(last.current);
+  if (previousLevel === level) return;
+
+  const alert: TrustScoreAlert = {
+    ...user,
+    previousScore: first.previous,
+    score: last.current,
+    previousLevel,
+    level,
+    violationId,
+  };
+
+  await pubSubService.publish(WS_EVENTS.TRUST_CHANGED, alert);
+  console.log(`[Poller] Trust level change: ${user.username} is now ${level}`);
+
+  await enqueueNotification({ type: 'trust_score_changed', payload: alert });
 }
 
 // ============================================================================
@@ -48,7 +142,7 @@ export function getTrustScorePenalty(severity: ViolationSeverity): number {
 const VIOLATION_DEDUP_WINDOW_MS = 5 * TIME_MS.MINUTE;
 
 /**
- * Check if a duplicate violation already exists for the same user/rule type with overlapping sessions.
+ * Check if a duplicate violation already exists for the same user/rule with overlapping sessions.
  *
  * This prevents creating multiple violations when:
  * - Multiple sessions start simultaneously and each sees the others as active
@@ -56,25 +150,26 @@ const VIOLATION_DEDUP_WINDOW_MS = 5 * TIME_MS.MINUTE;
  *
  * A violation is considered a duplicate if:
  * - Same serverUserId
- * - Same rule type (not just ruleId - any rule of the same type)
+ * - Same rule type (not just ruleId - any rule of the same type), except composite
+ *   rules, which only dedupe against their own violations since each checks different things
  * - Created within the dedup window
  * - Not yet acknowledged
  * - Any overlap in relatedSessionIds OR the triggering session is in the other's related sessions
  *
  * @param serverUserId - Server user who violated the rule
- * @param ruleType - Type of rule (concurrent_streams, simultaneous_locations, etc.)
+ * @param rule - The rule that was violated (concurrent_streams, simultaneous_locations, etc.)
  * @param triggeringSessionId - The session that triggered this violation
  * @param relatedSessionIds - Session IDs involved in this violation
  * @returns true if a duplicate violation exists
  */
 export async function isDuplicateViolation(
   serverUserId: string,
-  ruleType: RuleType,
+  rule: { id: string; type: RuleType },
   triggeringSessionId: string,
   relatedSessionIds: string[]
 ): Promise<boolean> {
   // Only deduplicate for rules that involve multiple sessions
-  if (!['concurrent_streams', 'simultaneous_locations'].includes(ruleType)) {
+  if (!['concurrent_streams', 'simultaneous_locations', 'composite'].includes(rule.type)) {
     return false;
   }
 
@@ -84,6 +179,7 @@ export async function isDuplicateViolation(
   const recentViolations = await db
     .select({
       id: violations.id,
+      ruleId: violations.ruleId,
       sessionId: violations.sessionId,
       data: violations.data,
     })
@@ -92,7 +188,7 @@ export async function isDuplicateViolation(
     .where(
       and(
         eq(violations.serverUserId, serverUserId),
-        eq(rules.type, ruleType),
+        eq(rules.type, rule.type),
         isNull(violations.acknowledgedAt),
         gte(violations.createdAt, windowStart)
       )
@@ -104,6 +200,10 @@ export async function isDuplicateViolation(
 
   // Check for overlap with any recent violation
   for (const existing of recentViolations) {
+    if (rule.type === 'composite' && existing.ruleId !== rule.id) {
+      continue;
+    }
+
     const existingData = existing.data as Record<string, unknown> | null;
     const existingRelatedIds = (existingData?.relatedSessionIds as string[]) || [];
 
@@ -140,26 +240,72 @@ export async function isDuplicateViolation(
 // Rule Applicability
 // ============================================================================
 
+/**
+ * Everything needed to decide whether a rule targets a server user.
+ * Built by `batchGetRuleScopeTargets()`.
+ */
+export interface RuleScopeTarget {
+  serverUserId: string;
+  serverId: string;
+  userId: string | null; // Identity (users.id)
+  role: UserRole | null; // Identity role
+  groupIds: string[]; // User groups the identity belongs to
+  onProbation: boolean; // Server account is still in its probation period
+}
+
 /**
  * Check if a rule applies to a specific server user.
  *
- * Global rules (serverUserId=null) apply to all server users.
- * User-specific rules only apply to that server user.
+ * - Legacy serverUserId: when set, only that server user is targeted.
+ * - scope.excludedUserIds: excluded identities are never targeted.
+ * - scope.serverIds: when non-empty, the server user must be on one of these servers.
+ * - scope.probationOnly: when set, the server user must still be on probation.
+ * - scope.userIds / roles / groupIds: when any are non-empty, the identity must match
+ *   at least one of them (listed identity, role, or group membership).
+ *
+ * Rules without a scope (or with all arrays empty) are global.
  *
  * @param rule - Rule to check
- * @param serverUserId - Server user ID to check against
+ * @param target - Server user and identity context to check against
  * @returns true if the rule applies to this server user
  *
  * @example
- * doesRuleApplyToUser({ serverUserId: null }, 'su-123');       // true (global rule)
- * doesRuleApplyToUser({ serverUserId: 'su-123' }, 'su-123'); // true (user-specific)
- * doesRuleApplyToUser({ serverUserId: 'su-456' }, 'su-123'); // false (different user)
+ * doesRuleApplyToUser({ serverUserId: null }, target);                     // true (global rule)
+ * doesRuleApplyToUser({ serverUserId: 'su-456' }, target);                 // false (different user)
+ * doesRuleApplyToUser({ serverUserId: null, scope: { ...empty, roles: ['member'] } }, target);
  */
 export function doesRuleApplyToUser(
-  rule: { serverUserId: string | null },
-  serverUserId: string
+  rule: Pick<Rule, 'serverUserId'> & { scope?: RuleScope },
+  target: RuleScopeTarget
 ): boolean {
-  return rule.serverUserId === null || rule.serverUserId === serverUserId;
+  if (rule.serverUserId !== null && rule.serverUserId !== target.serverUserId) {
+    return false;
+  }
+
+  const scope = rule.scope;
+  if (!scope) return true;
+
+  if (target.userId && scope.excludedUserIds.includes(target.userId)) {
+    return false;
+  }
+
+  if (scope.serverIds.length > 0 && !scope.serverIds.includes(target.serverId)) {
+    return false;
+  }
+
+  if (scope.probationOnly && !target.onProbation) {
+    return false;
+  }
+
+  const hasTargeting =
+    scope.userIds.length > 0 || scope.roles.length > 0 || scope.groupIds.length > 0;
+  if (!hasTargeting) return true;
+
+  return (
+    (target.userId !== null && scope.userIds.includes(target.userId)) ||
+    (target.role !== null && scope.roles.includes(target.role)) ||
+    target.groupIds.some((groupId) => scope.groupIds.includes(groupId))
+  );
 }
 
 // ============================================================================
@@ -182,6 +328,7 @@ export function doesRuleApplyToUser(
  * @param result - Rule evaluation result with severity and data
  * @param rule - Full rule object for broadcast details
  * @param pubSubService - Optional pub/sub service for WebSocket broadcast
+ * @returns The created violation row (for running rule actions)
  *
  * @example
  * // Preferred pattern (in poller):
@@ -201,12 +348,13 @@ export async function createViolation(
   result: RuleEvaluationResult,
   rule: Rule,
   pubSubService: PubSubService | null
-): Promise<void> {
-  // Calculate trust penalty based on severity
-  const trustPenalty = getTrustScorePenalty(result.severity);
+): Promise<typeof violations.$inferSelect | undefined> {
+  // Calculate trust penalty from the trust model
+  const trustModel = await getTrustModel();
+  const trustPenalty = getTrustScorePenalty(result.severity, rule.type, trustModel);
 
   // Use transaction to ensure violation creation and trust score update are atomic
-  const created = await db.transaction(async (tx) => {
+  const { created, trustScore } = await db.transaction(async (tx) => {
     const [violation] = await tx
       .insert(violations)
       .values({
@@ -215,19 +363,16 @@ export async function createViolation(
         sessionId,
         severity: result.severity,
         data: result.data,
+        trustPenalty,
       })
       .returning();
 
-    // Decrease server user trust score based on severity (atomic within transaction)
-    await tx
-      .update(serverUsers)
-      .set({
-        trustScore: sql`GREATEST(0, ${serverUsers.trustScore} - ${trustPenalty})`,
-        updatedAt: new Date(),
-      })
-      .where(eq(serverUsers.id, serverUserId));
+    // Decrease server user trust score (atomic within transaction)
+    const transition = violation
+      ? await applyViolationPenalty(tx, serverUserId, violation.id, trustPenalty, trustModel)
+      : null;
 
-    return violation;
+    return { created: violation, trustScore: transition };
   });
 
   // Get server user and server details for the violation broadcast (outside transaction - read only)
@@ -258,6 +403,10 @@ export async function createViolation(
       severity: created.severity,
       data: created.data,
       acknowledgedAt: created.acknowledgedAt,
+      status: created.status,
+      assigneeId: created.assigneeId,
+      dismissalReason: created.dismissalReason,
+      trustRestoredAt: created.trustRestoredAt,
       createdAt: created.createdAt,
       user: {
         id: details.userId,
@@ -283,7 +432,22 @@ export async function createViolation(
 
     // Enqueue notification for async dispatch (Discord, webhooks, push)
     await enqueueNotification({ type: 'violation', payload: violationWithDetails });
+
+    await broadcastTrustLevelChange(
+      {
+        serverUserId,
+        username: details.username,
+        identityName: details.identityName,
+        serverId: details.serverId,
+        serverName: details.serverName,
+      },
+      trustScore ? [trustScore] : [],
+      created.id,
+      pubSubService
+    );
   }
+
+  return created;
 }
 
 // ============================================================================
@@ -298,6 +462,7 @@ export interface ViolationInsertResult {
   violation: typeof violations.$inferSelect;
   rule: Rule;
   trustPenalty: number;
+  trustScore: TrustScoreTransition | null;
 }
 
 /**
@@ -306,7 +471,7 @@ export interface ViolationInsertResult {
  *
  * This function:
  * 1. Inserts the violation record
- * 2. Updates the server user's trust score
+ * 2. Updates the server user's trust score, keeping the score before and after
  * Both within the provided transaction.
  *
  * Broadcasting/notification must be done AFTER the transaction commits.
@@ -327,7 +492,8 @@ export async function createViolationInTransaction(
   result: RuleEvaluationResult,
   rule: Rule
 ): Promise<ViolationInsertResult> {
-  const trustPenalty = getTrustScorePenalty(result.severity);
+  const trustModel = await getTrustModel();
+  const trustPenalty = getTrustScorePenalty(result.severity, rule.type, trustModel);
 
   const [violation] = await tx
     .insert(violations)
@@ -337,24 +503,26 @@ export async function createViolationInTransaction(
       sessionId,
       severity: result.severity,
       data: result.data,
+      trustPenalty,
     })
     .returning();
 
-  // Decrease server user trust score based on severity
-  await tx
-    .update(serverUsers)
-    .set({
-      trustScore: sql`GREATEST(0, ${serverUsers.trustScore} - ${trustPenalty})`,
-      updatedAt: new Date(),
-    })
-    .where(eq(serverUsers.id, serverUserId));
+  // Decrease server user trust score
+  const trustScore = await applyViolationPenalty(
+    tx,
+    serverUserId,
+    violation!.id,
+    trustPenalty,
+    trustModel
+  );
 
-  return { violation: violation!, rule, trustPenalty };
+  return { violation: violation!, rule, trustPenalty, trustScore };
 }
 
 /**
  * Broadcast violation events after transaction has committed.
  * Call this AFTER the transaction to ensure data is persisted before broadcasting.
+ * Also announces a change of trust level caused by the violations.
  *
  * @param violationResults - Array of violation insert results
  * @param sessionId - Session ID for fetching server details
@@ -396,6 +564,10 @@ export async function broadcastViolations(
       severity: violation.severity,
       data: violation.data,
       acknowledgedAt: violation.acknowledgedAt,
+      status: violation.status,
+      assigneeId: violation.assigneeId,
+      dismissalReason: violation.dismissalReason,
+      trustRestoredAt: violation.trustRestoredAt,
       createdAt: violation.createdAt,
       user: {
         id: details.userId,
@@ -422,4 +594,18 @@ export async function broadcastViolations(
     // Enqueue notification for async dispatch (Discord, webhooks, push)
     await enqueueNotification({ type: 'violation', payload: violationWithDetails });
   }
+
+  // All of the session's penalties count as one change of trust level
+  await broadcastTrustLevelChange(
+    {
+      serverUserId: details.userId,
+      username: details.username,
+      identityName: details.identityName,
+      serverId: details.serverId,
+      serverName: details.serverName,
+    },
+    violationResults.flatMap((r) => (r.trustScore ? [r.trustScore] : [])),
+    violationResults[violationResults.length - 1]!.violation.id,
+    pubSubService
+  );
 }
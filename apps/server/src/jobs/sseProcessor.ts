@@ -19,11 +19,28 @@ import { createMediaServerClient } from '../services/mediaServer/index.js';
 import { sseManager } from '../services/sseManager.js';
 import type { CacheService, PubSubService } from '../services/cache.js';
 import { geoipService } from '../services/geoip.js';
-import { ruleEngine } from '../services/rules.js';
+import { asnService } from '../services/asn.js';
+import {
+  ruleEngine,
+  rulesUsePolicyProfile,
+  rulesUseType,
+  type DeviceHistoryEntry,
+} from '../services/rules.js';
 import { mapMediaSession } from './poller/sessionMapper.js';
 import { calculatePauseAccumulation, calculateStopDuration, checkWatchCompletion } from './poller/stateTracker.js';
-import { getActiveRules, batchGetRecentUserSessions } from './poller/database.js';
-import { createViolation, isDuplicateViolation } from './poller/violations.js';
+import {
+  getActiveRules,
+  batchGetRecentUserSessions,
+  batchGetRuleScopeTargets,
+  batchGetKnownLocations,
+  batchGetDeviceHistory,
+  batchGetIdentitySessions,
+  batchGetIdentityDeviceHistory,
+  batchGetPolicyProfiles,
+} from './poller/database.js';
+import { createViolation, doesRuleApplyToUser, isDuplicateViolation } from './poller/violations.js';
+import { detectSessionAlerts } from './poller/sessionAlerts.js';
+import { executeRuleActions } from '../services/ruleActions.js';
 import { enqueueNotification } from './notificationQueue.js';
 import { triggerReconciliationPoll } from './poller/index.js';
 
@@ -345,8 +362,9 @@ async function createNewSession(
     return;
   }
 
-  // GeoIP lookup
+  // GeoIP and network provider lookup
   const geo = geoipService.lookup(processed.ipAddress);
+  const network = asnService.lookup(processed.ipAddress);
 
   // Check if an active session already exists (prevents race condition with poller)
   // This can happen when SSE and poller both try to create a session simultaneously
@@ -398,6 +416,8 @@ async function createNewSession(
       geoCountry: geo.country,
       geoLat: geo.lat,
       geoLon: geo.lon,
+      asn: network.asn,
+      asnOrg: network.asnOrg,
       playerName: processed.playerName,
       deviceId: processed.deviceId || null,
       product: processed.product || null,
@@ -458,6 +478,8 @@ async function createNewSession(
     geoCountry: geo.country,
     geoLat: geo.lat,
     geoLon: geo.lon,
+    asn: network.asn,
+    asnOrg: network.asnOrg,
     playerName: processed.playerName,
     deviceId: processed.deviceId || null,
     product: processed.product || null,
@@ -485,22 +507,59 @@ async function createNewSession(
     await enqueueNotification({ type: 'session_started', payload: activeSession });
   }
 
+  await detectSessionAlerts(activeSession, pubSubService);
+
   // Evaluate rules
   const activeRules = await getActiveRules();
-  const recentSessions = await batchGetRecentUserSessions([serverUserId]);
-  const ruleResults = await ruleEngine.evaluateSession(inserted, activeRules, recentSessions.get(serverUserId) ?? []);
+  const crossServerRules = activeRules.filter((r) => r.crossServer);
+  const recentSessions =
+    crossServerRules.length > 0
+      ? await batchGetIdentitySessions([serverUserId])
+      : await batchGetRecentUserSessions([serverUserId]);
+  const ruleScopeTargets = await batchGetRuleScopeTargets([serverUserId]);
+  const ruleTarget = ruleScopeTargets.get(serverUserId) ?? {
+    serverUserId,
+    serverId,
+    userId: null,
+    role: null,
+    groupIds: [],
+    onProbation: false,
+  };
+  const knownLocationsMap = await batchGetKnownLocations(
+    ruleTarget.userId ? [ruleTarget.userId] : []
+  );
+  const policyProfiles =
+    ruleTarget.userId && rulesUsePolicyProfile(activeRules)
+      ? await batchGetPolicyProfiles([ruleTarget.userId])
+      : null;
+  const deviceHistory = rulesUseType(activeRules, 'device_novelty')
+    ? await batchGetDeviceHistory([serverUserId])
+    : new Map<string, DeviceHistoryEntry[]>();
+  const identityDeviceHistory = rulesUseType(crossServerRules, 'device_novelty')
+    ? await batchGetIdentityDeviceHistory([serverUserId])
+    : new Map<string, DeviceHistoryEntry[]>();
+  const ruleResults = await ruleEngine.evaluateSession(
+    inserted,
+    activeRules,
+    recentSessions.get(serverUserId) ?? [],
+    {
+      userId: ruleTarget.userId,
+      knownLocations: ruleTarget.userId ? (knownLocationsMap.get(ruleTarget.userId) ?? []) : [],
+      deviceHistory: deviceHistory.get(serverUserId) ?? [],
+      identityDeviceHistory: identityDeviceHistory.get(serverUserId),
+      policyProfile: ruleTarget.userId ? policyProfiles?.get(ruleTarget.userId) : null,
+    }
+  );
 
   for (const result of ruleResults) {
-    const matchingRule = activeRules.find(
-      (r) => (r.serverUserId === null || r.serverUserId === serverUserId) && result.violated
-    );
-    if (matchingRule) {
+    const matchingRule = result.rule;
+    if (result.violated && doesRuleApplyToUser(matchingRule, ruleTarget)) {
       // Check for duplicate violations before creating
       // This prevents multiple violations when sessions start simultaneously
       const relatedSessionIds = (result.data?.relatedSessionIds as string[]) || [];
       const isDuplicate = await isDuplicateViolation(
         serverUserId,
-        matchingRule.type,
+        matchingRule,
         inserted.id,
         relatedSessionIds
       );
@@ -512,7 +571,18 @@ async function createNewSession(
       // TODO: Refactor to use createViolationInTransaction pattern for atomicity
       // Session is already inserted before rule evaluation, so using standalone function for now
       // eslint-disable-next-line @typescript-eslint/no-deprecated
-      await createViolation(matchingRule.id, serverUserId, inserted.id, result, matchingRule, pubSubService);
+      const violation = await createViolation(matchingRule.id, serverUserId, inserted.id, result, matchingRule, pubSubService);
+
+      // Run automatic rule actions (terminate/log) now that the violation is committed
+      if (violation) {
+        await executeRuleActions(matchingRule, {
+          id: violation.id,
+          serverId,
+          serverUserId,
+          sessionId: inserted.id,
+          data: violation.data,
+        });
+      }
     }
   }
 
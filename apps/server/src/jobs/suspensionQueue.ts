@@ -0,0 +1,190 @@
+/**
+ * Suspension Queue - BullMQ delayed jobs that reinstate suspended accounts
+ *
+ * Each active suspension has one delayed job, keyed by suspension ID, that
+ * fires when the suspension ends. Extending a suspension reschedules the job
+ * and lifting it early removes the job.
+ */
+
+import { Queue, Worker, type Job, type ConnectionOptions } from 'bullmq';
+import {
+  getActiveSuspensionsToSchedule,
+  recordReinstateFailure,
+  reinstateSuspension,
+} from '../services/suspensions.js';
+
+// Queue name
+const QUEUE_NAME = 'suspensions';
+
+// Job types
+interface SuspensionJobData {
+  type: 'reinstate';
+  suspensionId: string;
+}
+
+// Connection options (set during initialization)
+let connectionOptions: ConnectionOptions | null = null;
+
+// Queue and worker instances
+let suspensionQueue: Queue<SuspensionJobData> | null = null;
+let suspensionWorker: Worker<SuspensionJobData> | null = null;
+
+/**
+ * Job ID for a suspension's reinstatement (one job per suspension)
+ */
+function reinstateJobId(suspensionId: string): string {
+  return `reinstate-${suspensionId}`;
+}
+
+/**
+ * Initialize the suspension queue with Redis connection
+ */
+export function initSuspensionQueue(redisUrl: string): void {
+  if (suspensionQueue) {
+    console.log('Suspension queue already initialized');
+    return;
+  }
+
+  connectionOptions = { url: redisUrl };
+
+  suspensionQueue = new Queue<SuspensionJobData>(QUEUE_NAME, {
+    connection: connectionOptions,
+    defaultJobOptions: {
+      attempts: 5,
+      backoff: {
+        type: 'exponential',
+        delay: 30000, // 30s, 1m, 2m, 4m - media server may be briefly down
+      },
+      removeOnComplete: {
+        count: 100,
+        age: 7 * 24 * 60 * 60, // 7 days
+      },
+      removeOnFail: {
+        count: 500,
+        age: 30 * 24 * 60 * 60, // 30 days
+      },
+    },
+  });
+
+  console.log('Suspension queue initialized');
+}
+
+/**
+ * Start the suspension worker
+ */
+export function startSuspensionWorker(): void {
+  if (!connectionOptions) {
+    throw new Error('Suspension queue not initialized. Call initSuspensionQueue first.');
+  }
+
+  if (suspensionWorker) {
+    console.log('Suspension worker already running');
+    return;
+  }
+
+  suspensionWorker = new Worker<SuspensionJobData>(
+    QUEUE_NAME,
+    async (job: Job<SuspensionJobData>) => {
+      const startTime = Date.now();
+      try {
+        await reinstateSuspension(job.data.suspensionId);
+        const duration = Date.now() - startTime;
+        console.log(`Suspension job ${job.id} completed in ${duration}ms`);
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        console.error(`Suspension job ${job.id} failed after ${duration}ms:`, error);
+        throw error;
+      }
+    },
+    {
+      connection: connectionOptions,
+      concurrency: 1,
+    }
+  );
+
+  suspensionWorker.on('error', (error) => {
+    console.error('Suspension worker error:', error);
+  });
+
+  // Out of retries - the account is still disabled, so flag the suspension
+  suspensionWorker.on('failed', (job, error) => {
+    if (!job || job.attemptsMade < (job.opts.attempts ?? 1)) return;
+    recordReinstateFailure(job.data.suspensionId, error.message).catch((err: unknown) => {
+      console.error('Failed to record suspension reinstatement failure:', err);
+    });
+  });
+
+  console.log('Suspension worker started');
+}
+
+/**
+ * Schedule (or reschedule) reinstatement for when a suspension ends
+ */
+export async function scheduleReinstatement(suspensionId: string, endsAt: Date): Promise<void> {
+  if (!suspensionQueue) {
+    console.error('Suspension queue not initialized, reinstatement not scheduled:', suspensionId);
+    return;
+  }
+
+  // Replace any existing job so an extended suspension doesn't end early
+  await suspensionQueue.remove(reinstateJobId(suspensionId));
+  await suspensionQueue.add(
+    'reinstate',
+    { type: 'reinstate', suspensionId },
+    {
+      jobId: reinstateJobId(suspensionId),
+      delay: Math.max(0, endsAt.getTime() - Date.now()),
+    }
+  );
+}
+
+/**
+ * Cancel a suspension's pending reinstatement
+ */
+export async function cancelReinstatement(suspensionId: string): Promise<void> {
+  if (!suspensionQueue) {
+    return;
+  }
+
+  await suspensionQueue.remove(reinstateJobId(suspensionId));
+}
+
+/**
+ * Schedule reinstatement for every active suspension
+ *
+ * Run on startup so suspensions still end if Redis lost its delayed jobs. Jobs
+ * are replaced rather than kept, since a job that ran out of retries is kept
+ * under the same job ID and would otherwise block the retry.
+ */
+export async function scheduleActiveSuspensions(): Promise<void> {
+  if (!suspensionQueue) {
+    console.error('Suspension queue not initialized');
+    return;
+  }
+
+  const active = await getActiveSuspensionsToSchedule();
+  for (const suspension of active) {
+    await scheduleReinstatement(suspension.id, suspension.endsAt);
+  }
+
+  console.log(`Suspension reinstatements scheduled (${active.length} active)`);
+}
+
+/**
+ * Gracefully shutdown the suspension queue and worker
+ */
+export async function shutdownSuspensionQueue(): Promise<void> {
+  console.log('Shutting down suspension queue...');
+
+  if (suspensionWorker) {
+    await suspensionWorker.close();
+    suspensionWorker = null;
+  }
+
+  if (suspensionQueue) {
+    await suspensionQueue.close();
+    suspensionQueue = null;
+  }
+
+  console.log('Suspension queue shutdown complete');
+}
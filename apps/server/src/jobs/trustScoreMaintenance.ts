@@ -0,0 +1,72 @@
+/**
+ * Background job for trust score recovery and violation decay
+ */
+
+import { TRUST_SCORE_CONFIG } from '@tracearr/shared';
+import { runTrustScoreMaintenance } from '../services/trustScore.js';
+
+let maintenanceInterval: NodeJS.Timeout | null = null;
+
+export interface TrustScoreMaintenanceConfig {
+  enabled: boolean;
+  intervalMs: number;
+}
+
+const defaultConfig: TrustScoreMaintenanceConfig = {
+  enabled: true,
+  intervalMs: TRUST_SCORE_CONFIG.MAINTENANCE_INTERVAL_MS,
+};
+
+/**
+ * Apply recovery and decay for all server users
+ */
+async function runMaintenance(): Promise<void> {
+  try {
+    const { recovered, decayed } = await runTrustScoreMaintenance();
+    if (recovered > 0 || decayed > 0) {
+      console.log(
+        `[TrustScore] Recovered ${recovered} user(s), decayed ${decayed} violation(s)`
+      );
+    }
+  } catch (error) {
+    console.error('[TrustScore] Maintenance failed:', error);
+  }
+}
+
+/**
+ * Start the trust score maintenance job
+ */
+export function startTrustScoreMaintenance(
+  config: Partial<TrustScoreMaintenanceConfig> = {}
+): void {
+  const mergedConfig = { ...defaultConfig, ...config };
+
+  if (!mergedConfig.enabled) {
+    console.log('[TrustScore] Maintenance disabled');
+    return;
+  }
+
+  if (maintenanceInterval) {
+    console.log('[TrustScore] Maintenance already running');
+    return;
+  }
+
+  console.log(`[TrustScore] Starting maintenance with ${mergedConfig.intervalMs}ms interval`);
+
+  // Run immediately on start
+  void runMaintenance();
+
+  // Then run on interval
+  maintenanceInterval = setInterval(() => void runMaintenance(), mergedConfig.intervalMs);
+}
+
+/**
+ * Stop the trust score maintenance job
+ */
+export function stopTrustScoreMaintenance(): void {
+  if (maintenanceInterval) {
+    clearInterval(maintenanceInterval);
+    maintenanceInterval = null;
+    console.log('[TrustScore] Maintenance stopped');
+  }
+}
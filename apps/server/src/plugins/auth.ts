@@ -5,7 +5,8 @@
 import type { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
 import jwt from '@fastify/jwt';
-import type { AuthUser } from '@tracearr/shared';
+import { PERMISSION_DISPLAY_NAMES, type AuthUser, type Permission } from '@tracearr/shared';
+import { getAllServerIds, getPermittedServerIds } from '../services/permissions.js';
 
 declare module '@fastify/jwt' {
   interface FastifyJWT {
@@ -19,9 +20,57 @@ declare module 'fastify' {
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
     requireOwner: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
     requireMobile: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requirePermission: (
+      permission: Permission,
+      options?: RequirePermissionOptions
+    ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
 }
 
+export interface RequirePermissionOptions {
+  // For routes that change every server at once (global settings)
+  allServers?: boolean;
+}
+
+/**
+ * Build a preHandler that requires a permission, to run after `authenticate`
+ *
+ * Owners pass. Anyone else needs the permission on at least one server, and
+ * request.user.serverIds is narrowed to the servers it was granted on, so the
+ * route's usual server access checks enforce it per server. With `allServers`
+ * the permission is needed on every server instead. Grants are read from the
+ * database rather than the token, so changes apply immediately.
+ */
+export function requirePermission(
+  permission: Permission,
+  options: RequirePermissionOptions = {}
+) {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    // authenticate already replied
+    if (reply.sent) return;
+
+    if (request.user.role === 'owner') return;
+
+    const serverIds = await getPermittedServerIds(request.user.userId, permission);
+    if (serverIds.length === 0) {
+      reply.forbidden(`${PERMISSION_DISPLAY_NAMES[permission]} permission required`);
+      return;
+    }
+
+    if (options.allServers) {
+      const allServerIds = await getAllServerIds();
+      if (!allServerIds.every((id) => serverIds.includes(id))) {
+        reply.forbidden(
+          `${PERMISSION_DISPLAY_NAMES[permission]} permission required on every server`
+        );
+        return;
+      }
+    }
+
+    request.user = { ...request.user, serverIds };
+  };
+}
+
 const authPlugin: FastifyPluginAsync = async (app) => {
   const secret = process.env.JWT_SECRET;
 
@@ -62,6 +111,9 @@ const authPlugin: FastifyPluginAsync = async (app) => {
     }
   });
 
+  // Require permission decorator - see requirePermission
+  app.decorate('requirePermission', requirePermission);
+
   // Require mobile token decorator - validates token was issued for mobile app
   app.decorate('requireMobile', async function (request: FastifyRequest, reply: FastifyReply) {
     try {
@@ -0,0 +1,187 @@
+/**
+ * Audit log routes tests
+ *
+ * Tests the API endpoints for the audit log:
+ * - GET /audit - Paginated, filterable audit log
+ * - GET /audit/export - CSV or JSON download
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuditLogEntry, AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import { auditRoutes } from '../audit.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(auditRoutes, { prefix: '/audit' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createViewerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createEntry(overrides: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    id: randomUUID(),
+    actorId: randomUUID(),
+    actorName: 'owner',
+    action: 'settings.update',
+    entityType: 'settings',
+    entityId: '1',
+    entityName: null,
+    serverId: null,
+    changes: { pollerEnabled: { before: true, after: false } },
+    ipAddress: '10.0.0.1',
+    createdAt: new Date('2026-01-02T03:04:05.000Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * Mock a select chain where every step returns the chain and awaiting it yields rows
+ */
+function mockSelectResult(rows: unknown[]) {
+  const chain: Record<string, unknown> = {};
+  for (const method of ['from', 'where', 'orderBy', 'limit', 'offset']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown[]) => unknown) => Promise.resolve(rows).then(resolve);
+  vi.mocked(db.select).mockReturnValueOnce(chain as never);
+  return chain;
+}
+
+describe('Audit Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('GET /audit', () => {
+    it('returns a page of entries with the total', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const entry = createEntry();
+      const rows = mockSelectResult([entry]);
+      mockSelectResult([{ count: 41 }]);
+
+      const response = await app.inject({ method: 'GET', url: '/audit?page=3&pageSize=20' });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].action).toBe('settings.update');
+      expect(body).toMatchObject({ page: 3, pageSize: 20, total: 41, totalPages: 3 });
+      expect(rows.offset).toHaveBeenCalledWith(40);
+    });
+
+    it('applies filters', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const rows = mockSelectResult([]);
+      mockSelectResult([{ count: 0 }]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/audit?entityType=rule&action=rule.delete&actorId=${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(rows.where).toHaveBeenCalledWith(expect.anything());
+    });
+
+    it('rejects unknown actions', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({ method: 'GET', url: '/audit?action=rule.explode' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({ method: 'GET', url: '/audit' });
+
+      expect(response.statusCode).toBe(403);
+      expect(db.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /audit/export', () => {
+    it('downloads CSV by default', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockSelectResult([createEntry()]);
+
+      const response = await app.inject({ method: 'GET', url: '/audit/export' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toMatch(
+        /^attachment; filename="tracearr-audit-\d{4}-\d{2}-\d{2}\.csv"$/
+      );
+      const lines = response.body.trimEnd().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(lines[1]).toContain('settings.update');
+    });
+
+    it('downloads JSON', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const entry = createEntry();
+      mockSelectResult([entry]);
+
+      const response = await app.inject({ method: 'GET', url: '/audit/export?format=json' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('application/json');
+      expect(response.json()).toEqual([{ ...entry, createdAt: entry.createdAt.toISOString() }]);
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({ method: 'GET', url: '/audit/export' });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+});
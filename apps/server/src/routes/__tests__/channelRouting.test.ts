@@ -40,9 +40,9 @@ function createMockRouting(
   eventType: string,
   overrides?: Partial<{
     id: string;
-    discordEnabled: boolean;
-    webhookEnabled: boolean;
+    webToastEnabled: boolean;
     pushEnabled: boolean;
+    emailEnabled: boolean;
     createdAt: Date;
     updatedAt: Date;
   }>
@@ -50,9 +50,9 @@ function createMockRouting(
   return {
     id: overrides?.id ?? randomUUID(),
     eventType,
-    discordEnabled: overrides?.discordEnabled ?? true,
-    webhookEnabled: overrides?.webhookEnabled ?? true,
+    webToastEnabled: overrides?.webToastEnabled ?? true,
     pushEnabled: overrides?.pushEnabled ?? true,
+    emailEnabled: overrides?.emailEnabled ?? false,
     createdAt: overrides?.createdAt ?? new Date(),
     updatedAt: overrides?.updatedAt ?? new Date(),
   };
@@ -170,7 +170,7 @@ describe('Channel Routing Routes', () => {
 
       const mockRoutings = [
         createMockRouting('violation_detected'),
-        createMockRouting('stream_started', { discordEnabled: false }),
+        createMockRouting('stream_started', { webToastEnabled: false }),
         createMockRouting('stream_stopped', { pushEnabled: false }),
       ];
 
@@ -185,9 +185,9 @@ describe('Channel Routing Routes', () => {
       const body = response.json();
       expect(body).toHaveLength(3);
       expect(body[0]).toHaveProperty('eventType', 'violation_detected');
-      expect(body[0]).toHaveProperty('discordEnabled', true);
+      expect(body[0]).toHaveProperty('webToastEnabled', true);
       expect(body[1]).toHaveProperty('eventType', 'stream_started');
-      expect(body[1]).toHaveProperty('discordEnabled', false);
+      expect(body[1]).toHaveProperty('webToastEnabled', false);
     });
 
     it('creates default routing if no rows exist', async () => {
@@ -200,8 +200,7 @@ describe('Channel Routing Routes', () => {
       const defaultRoutings = [
         createMockRouting('violation_detected'),
         createMockRouting('stream_started', {
-          discordEnabled: false,
-          webhookEnabled: false,
+          webToastEnabled: false,
           pushEnabled: false,
         }),
       ];
@@ -253,7 +252,7 @@ describe('Channel Routing Routes', () => {
       // Second select returns updated
       const updatedRouting = {
         ...existingRouting,
-        discordEnabled: false,
+        webToastEnabled: false,
         updatedAt: new Date(),
       };
       vi.mocked(db.select).mockReturnValueOnce({
@@ -267,13 +266,13 @@ describe('Channel Routing Routes', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
-        payload: { discordEnabled: false },
+        payload: { webToastEnabled: false },
       });
 
       expect(response.statusCode).toBe(200);
       const body = response.json();
       expect(body.eventType).toBe('violation_detected');
-      expect(body.discordEnabled).toBe(false);
+      expect(body.webToastEnabled).toBe(false);
       expect(db.update).toHaveBeenCalled();
     });
 
@@ -281,8 +280,7 @@ describe('Channel Routing Routes', () => {
       app = await buildTestApp(ownerUser);
 
       const newRouting = createMockRouting('server_down', {
-        discordEnabled: true,
-        webhookEnabled: true,
+        webToastEnabled: true,
         pushEnabled: false,
       });
 
@@ -333,7 +331,7 @@ describe('Channel Routing Routes', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/invalid_event_type',
-        payload: { discordEnabled: false },
+        payload: { webToastEnabled: false },
       });
 
       expect(response.statusCode).toBe(400);
@@ -347,7 +345,7 @@ describe('Channel Routing Routes', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
-        payload: { discordEnabled: 'not-a-boolean' },
+        payload: { webToastEnabled: 'not-a-boolean' },
       });
 
       expect(response.statusCode).toBe(400);
@@ -361,7 +359,7 @@ describe('Channel Routing Routes', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
-        payload: { discordEnabled: false },
+        payload: { webToastEnabled: false },
       });
 
       expect(response.statusCode).toBe(403);
@@ -375,9 +373,9 @@ describe('Channel Routing Routes', () => {
       const existingRouting = createMockRouting('violation_detected');
       const updatedRouting = {
         ...existingRouting,
-        discordEnabled: false,
-        webhookEnabled: false,
+        webToastEnabled: false,
         pushEnabled: true,
+        emailEnabled: true,
       };
 
       // Track select calls
@@ -400,30 +398,29 @@ describe('Channel Routing Routes', () => {
         method: 'PATCH',
         url: '/settings/notifications/routing/violation_detected',
         payload: {
-          discordEnabled: false,
-          webhookEnabled: false,
+          webToastEnabled: false,
           pushEnabled: true,
+          emailEnabled: true,
         },
       });
 
       expect(response.statusCode).toBe(200);
       const body = response.json();
-      expect(body.discordEnabled).toBe(false);
-      expect(body.webhookEnabled).toBe(false);
+      expect(body.webToastEnabled).toBe(false);
       expect(body.pushEnabled).toBe(true);
+      expect(body.emailEnabled).toBe(true);
     });
 
     it('handles partial updates', async () => {
       app = await buildTestApp(ownerUser);
 
       const existingRouting = createMockRouting('stream_started', {
-        discordEnabled: true,
-        webhookEnabled: true,
+        webToastEnabled: true,
         pushEnabled: true,
       });
 
-      // Only discord changed
-      const updatedRouting = { ...existingRouting, discordEnabled: false };
+      // Only web toasts changed
+      const updatedRouting = { ...existingRouting, webToastEnabled: false };
 
       // Track select calls
       let selectCallCount = 0;
@@ -444,14 +441,13 @@ describe('Channel Routing Routes', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings/notifications/routing/stream_started',
-        payload: { discordEnabled: false },
+        payload: { webToastEnabled: false },
       });
 
       expect(response.statusCode).toBe(200);
       const body = response.json();
-      expect(body.discordEnabled).toBe(false);
+      expect(body.webToastEnabled).toBe(false);
       // Others should remain unchanged
-      expect(body.webhookEnabled).toBe(true);
       expect(body.pushEnabled).toBe(true);
     });
   });
@@ -473,8 +469,7 @@ describe('Channel Routing Helper Functions', () => {
           where: vi.fn().mockReturnValue({
             limit: vi.fn().mockResolvedValue([
               {
-                discordEnabled: true,
-                webhookEnabled: false,
+                webToastEnabled: true,
                 pushEnabled: true,
               },
             ]),
@@ -484,8 +479,7 @@ describe('Channel Routing Helper Functions', () => {
 
       const routing = await getChannelRouting('violation_detected');
 
-      expect(routing.discordEnabled).toBe(true);
-      expect(routing.webhookEnabled).toBe(false);
+      expect(routing.webToastEnabled).toBe(true);
       expect(routing.pushEnabled).toBe(true);
     });
 
@@ -501,8 +495,7 @@ describe('Channel Routing Helper Functions', () => {
       const routing = await getChannelRouting('violation_detected');
 
       // High-priority events default to enabled
-      expect(routing.discordEnabled).toBe(true);
-      expect(routing.webhookEnabled).toBe(true);
+      expect(routing.webToastEnabled).toBe(true);
       expect(routing.pushEnabled).toBe(true);
     });
 
@@ -518,8 +511,7 @@ describe('Channel Routing Helper Functions', () => {
       const routing = await getChannelRouting('stream_started');
 
       // Low-priority events default to disabled
-      expect(routing.discordEnabled).toBe(false);
-      expect(routing.webhookEnabled).toBe(false);
+      expect(routing.webToastEnabled).toBe(false);
       expect(routing.pushEnabled).toBe(false);
     });
 
@@ -534,8 +526,7 @@ describe('Channel Routing Helper Functions', () => {
 
       const routing = await getChannelRouting('trust_score_changed');
 
-      expect(routing.discordEnabled).toBe(false);
-      expect(routing.webhookEnabled).toBe(false);
+      expect(routing.webToastEnabled).toBe(false);
       expect(routing.pushEnabled).toBe(false);
     });
   });
@@ -546,20 +537,17 @@ describe('Channel Routing Helper Functions', () => {
         from: vi.fn().mockResolvedValue([
           {
             eventType: 'violation_detected',
-            discordEnabled: true,
-            webhookEnabled: true,
+            webToastEnabled: true,
             pushEnabled: true,
           },
           {
             eventType: 'stream_started',
-            discordEnabled: false,
-            webhookEnabled: false,
+            webToastEnabled: false,
             pushEnabled: false,
           },
           {
             eventType: 'server_down',
-            discordEnabled: true,
-            webhookEnabled: true,
+            webToastEnabled: true,
             pushEnabled: false,
           },
         ]),
@@ -569,18 +557,15 @@ describe('Channel Routing Helper Functions', () => {
 
       expect(routingMap.size).toBe(3);
       expect(routingMap.get('violation_detected')).toEqual({
-        discordEnabled: true,
-        webhookEnabled: true,
+        webToastEnabled: true,
         pushEnabled: true,
       });
       expect(routingMap.get('stream_started')).toEqual({
-        discordEnabled: false,
-        webhookEnabled: false,
+        webToastEnabled: false,
         pushEnabled: false,
       });
       expect(routingMap.get('server_down')).toEqual({
-        discordEnabled: true,
-        webhookEnabled: true,
+        webToastEnabled: true,
         pushEnabled: false,
       });
     });
@@ -116,6 +116,8 @@ function createActiveSession(overrides: Partial<ActiveSession> = {}): ActiveSess
     geoCountry: overrides.geoCountry ?? 'US',
     geoLat: overrides.geoLat ?? 40.7128,
     geoLon: overrides.geoLon ?? -74.006,
+    asn: overrides.asn ?? null,
+    asnOrg: overrides.asnOrg ?? null,
     playerName: overrides.playerName ?? 'Chrome',
     deviceId: overrides.deviceId ?? 'device-123',
     product: overrides.product ?? 'Plex Web',
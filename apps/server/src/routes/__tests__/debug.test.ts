@@ -29,8 +29,13 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
 // Import mocked db and routes
 import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/audit.js';
 import { debugRoutes } from '../debug.js';
 
 /**
@@ -336,6 +341,13 @@ describe('Debug Routes', () => {
       expect(body.success).toBe(true);
       expect(body.deleted.sessions).toBe(3);
       expect(body.deleted.violations).toBe(2);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'debug.delete',
+          entityName: 'sessions',
+          before: { sessions: 3, violations: 2 },
+        })
+      );
     });
 
     it('handles no sessions to delete', async () => {
@@ -515,13 +527,21 @@ describe('Debug Routes', () => {
       expect(body.success).toBe(true);
       expect(body.message).toContain('Factory reset complete');
 
-      // Verify delete was called 11 times (violations, terminationLogs, sessions, rules,
-      // notificationChannelRouting, notificationPreferences, mobileSessions, mobileTokens,
-      // serverUsers, users, servers)
-      expect(db.delete).toHaveBeenCalledTimes(11);
+      // Verify delete was called 13 times (violations, terminationLogs, sessions, rules,
+      // notificationChannelRouting, notificationDestinations, notificationTemplates,
+      // notificationPreferences, mobileSessions, mobileTokens, serverUsers, users, servers)
+      expect(db.delete).toHaveBeenCalledTimes(14);
 
       // Verify settings update was called
       expect(db.update).toHaveBeenCalled();
+
+      // Recorded before the owner is deleted
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'debug.reset', actor: ownerUser })
+      );
+      expect(vi.mocked(recordAudit).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(db.delete).mock.invocationCallOrder[0]!
+      );
     });
   });
 
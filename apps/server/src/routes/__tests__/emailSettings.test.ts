@@ -0,0 +1,325 @@
+/**
+ * Email Settings routes tests
+ *
+ * Tests the API endpoints for email settings:
+ * - GET /email - Get email settings
+ * - PUT /email - Update email settings
+ * - POST /email/test - Send a test email
+ * - POST /email/digest - Send a digest now
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+vi.mock('../../services/email.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  getEmailSettings: vi.fn(),
+  sendTestEmail: vi.fn(),
+}));
+
+vi.mock('../../services/emailDigest.js', () => ({
+  sendEmailDigest: vi.fn(),
+}));
+
+vi.mock('../../jobs/emailDigestQueue.js', () => ({
+  scheduleEmailDigests: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/audit.js';
+import { getEmailSettings, sendTestEmail } from '../../services/email.js';
+import { sendEmailDigest } from '../../services/emailDigest.js';
+import { scheduleEmailDigests } from '../../jobs/emailDigestQueue.js';
+import { emailSettingsRoutes } from '../emailSettings.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(emailSettingsRoutes, { prefix: '/settings/notifications' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [],
+  };
+}
+
+function createAdminUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'admin',
+    role: 'admin',
+    serverIds: [],
+  };
+}
+
+function createSettingsRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    enabled: true,
+    smtpHost: 'smtp.example.com',
+    smtpPort: 587,
+    smtpSecure: false,
+    smtpUsername: 'tracearr',
+    smtpPassword: 'hunter2',
+    fromAddress: 'tracearr@example.com',
+    recipients: ['owner@example.com'],
+    digestFrequency: 'off',
+    digestHour: 8,
+    digestWeekday: 1,
+    digestTimezone: 'UTC',
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Email Settings Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /settings/notifications/email', () => {
+    it('should return the settings with the password masked', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(getEmailSettings).mockResolvedValue(createSettingsRow() as never);
+
+      const response = await app.inject({ method: 'GET', url: '/settings/notifications/email' });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.smtpPassword).toBe('********');
+      expect(body.smtpHost).toBe('smtp.example.com');
+      expect(body).not.toHaveProperty('id');
+    });
+
+    it('should return defaults before the settings are saved', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(getEmailSettings).mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/settings/notifications/email' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        enabled: false,
+        smtpPort: 587,
+        recipients: [],
+        digestFrequency: 'off',
+      });
+    });
+
+    it('should reject non-owners', async () => {
+      app = await buildTestApp(createAdminUser());
+
+      const response = await app.inject({ method: 'GET', url: '/settings/notifications/email' });
+
+      expect(response.statusCode).toBe(403);
+      expect(getEmailSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /settings/notifications/email', () => {
+    function mockUpdate(row: unknown) {
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([row]) }),
+      });
+      mockDb.update.mockReturnValue({ set });
+      return set;
+    }
+
+    it('should keep the saved password when the masked value is sent back', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(getEmailSettings).mockResolvedValue(createSettingsRow() as never);
+      const set = mockUpdate(createSettingsRow({ digestFrequency: 'daily' }));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/email',
+        payload: { digestFrequency: 'daily', smtpPassword: '********' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set.mock.calls[0]![0]).not.toHaveProperty('smtpPassword');
+      expect(set.mock.calls[0]![0]).toMatchObject({ digestFrequency: 'daily' });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'settings.email_update' })
+      );
+      expect(scheduleEmailDigests).toHaveBeenCalled();
+    });
+
+    it('should create the settings on first save', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(getEmailSettings).mockResolvedValue(null);
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([createSettingsRow({ enabled: false })]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/email',
+        payload: { smtpHost: 'localhost', smtpPort: 1025 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, smtpHost: 'localhost', smtpPort: 1025 })
+      );
+    });
+
+    it('should not enable email without recipients', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(getEmailSettings).mockResolvedValue(
+        createSettingsRow({ enabled: false, recipients: [] }) as never
+      );
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/email',
+        payload: { enabled: true },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid recipients', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/email',
+        payload: { recipients: ['not-an-email'] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(getEmailSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /settings/notifications/email/test', () => {
+    it('should send a test email with the saved settings', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const row = createSettingsRow();
+      vi.mocked(getEmailSettings).mockResolvedValue(row as never);
+      vi.mocked(sendTestEmail).mockResolvedValue({ success: true });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/email/test',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(sendTestEmail).toHaveBeenCalledWith(row);
+    });
+
+    it('should return 502 when the test fails', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(getEmailSettings).mockResolvedValue(createSettingsRow() as never);
+      vi.mocked(sendTestEmail).mockResolvedValue({ success: false, error: 'Invalid login' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/email/test',
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(JSON.parse(response.body)).toEqual({ success: false, error: 'Invalid login' });
+    });
+  });
+
+  describe('POST /settings/notifications/email/digest', () => {
+    it('should send the digest for the period', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(sendEmailDigest).mockResolvedValue(true);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/email/digest',
+        payload: { period: 'weekly' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(sendEmailDigest).toHaveBeenCalledWith('weekly');
+    });
+
+    it('should return 400 when email is not configured', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(sendEmailDigest).mockResolvedValue(false);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/email/digest',
+        payload: { period: 'daily' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 502 when sending fails', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(sendEmailDigest).mockRejectedValue(new Error('Connection refused'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/email/digest',
+        payload: { period: 'daily' },
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(JSON.parse(response.body).error).toBe('Connection refused');
+    });
+
+    it('should reject an unknown period', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/email/digest',
+        payload: { period: 'monthly' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(sendEmailDigest).not.toHaveBeenCalled();
+    });
+  });
+});
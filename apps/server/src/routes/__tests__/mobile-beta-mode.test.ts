@@ -31,6 +31,10 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
 // Mock the termination service
 vi.mock('../../services/termination.js', () => ({
   terminateSession: vi.fn(),
@@ -0,0 +1,481 @@
+/**
+ * Notification Destination routes tests
+ *
+ * Tests the API endpoints for notification destinations:
+ * - GET /destinations - List destinations with their routes
+ * - POST /destinations - Add a destination
+ * - PATCH /destinations/:id - Update a destination
+ * - DELETE /destinations/:id - Remove a destination
+ * - POST /destinations/:id/test - Send a test notification
+ * - POST /destinations/:id/routes - Route an event to a destination
+ * - DELETE /destinations/:id/routes/:routeId - Remove a route
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+vi.mock('../../services/notify.js', () => ({
+  sendTestWebhook: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/audit.js';
+import { sendTestWebhook } from '../../services/notify.js';
+import { notificationDestinationsRoutes } from '../notificationDestinations.js';
+
+const destinationId = randomUUID();
+const serverId = randomUUID();
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(notificationDestinationsRoutes, { prefix: '/settings/notifications' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [serverId],
+  };
+}
+
+function createAdminUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'admin',
+    role: 'admin',
+    serverIds: [serverId],
+  };
+}
+
+function createDestinationRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: destinationId,
+    name: 'Alerts',
+    type: 'webhook',
+    webhookUrl: 'https://ntfy.example.com',
+    webhookFormat: 'ntfy',
+    ntfyTopic: 'tracearr',
+    chatId: null,
+    authToken: 'tk_secret',
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createRouteRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: randomUUID(),
+    destinationId,
+    eventType: 'violation_detected',
+    serverId: null,
+    minSeverity: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Helper to create a select chain that resolves however the query ends
+ */
+function createSelectMock(resolvedValue: unknown) {
+  const chain: any = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(resolvedValue).then(resolve),
+  };
+  for (const method of ['from', 'where', 'orderBy', 'limit']) {
+    chain[method] = vi.fn().mockReturnValue(chain);
+  }
+  return chain;
+}
+
+describe('Notification Destination Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /settings/notifications/destinations', () => {
+    it('should list destinations with their routes and masked tokens', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const route = createRouteRow();
+      mockDb.select
+        .mockReturnValueOnce(createSelectMock([createDestinationRow()]))
+        .mockReturnValueOnce(createSelectMock([route, createRouteRow({ destinationId: 'other' })]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/destinations',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toHaveLength(1);
+      expect(body[0].authToken).toBe('********');
+      expect(body[0].routes).toHaveLength(1);
+      expect(body[0].routes[0].id).toBe(route.id);
+    });
+
+    it('should reject non-owners', async () => {
+      app = await buildTestApp(createAdminUser());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/destinations',
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /settings/notifications/destinations', () => {
+    it('should create a destination with no routes', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const row = createDestinationRow({
+        type: 'discord',
+        webhookUrl: 'https://discord.com/api/webhooks/1',
+        webhookFormat: 'json',
+        ntfyTopic: null,
+        authToken: null,
+      });
+      const values = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([row]) });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/destinations',
+        payload: { name: 'Alerts', type: 'discord', webhookUrl: row.webhookUrl },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).routes).toEqual([]);
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'discord', webhookFormat: 'json', enabled: true })
+      );
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'settings.destination_create', entityId: destinationId })
+      );
+    });
+
+    it('should require a topic for ntfy destinations', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/destinations',
+        payload: {
+          name: 'Alerts',
+          type: 'webhook',
+          webhookUrl: 'https://ntfy.example.com',
+          webhookFormat: 'ntfy',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).message).toBe('ntfy destinations need a topic');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should require a chat ID for Telegram destinations', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/destinations',
+        payload: {
+          name: 'Telegram',
+          type: 'webhook',
+          webhookUrl: 'https://api.telegram.org',
+          webhookFormat: 'telegram',
+          authToken: '123:abc',
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).message).toBe('Telegram destinations need a chat ID');
+    });
+  });
+
+  describe('PATCH /settings/notifications/destinations/:id', () => {
+    function mockUpdate(row: unknown) {
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([row]) }),
+      });
+      mockDb.update.mockReturnValue({ set });
+      return set;
+    }
+
+    it('should keep the saved token when the masked value is sent back', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select
+        .mockReturnValueOnce(createSelectMock([createDestinationRow()]))
+        .mockReturnValueOnce(createSelectMock([]));
+      const set = mockUpdate(createDestinationRow({ name: 'Renamed' }));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${destinationId}`,
+        payload: { name: 'Renamed', authToken: '********' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set.mock.calls[0]![0]).not.toHaveProperty('authToken');
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'settings.destination_update' })
+      );
+    });
+
+    it('should reject clearing the topic of an ntfy destination', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createSelectMock([createDestinationRow()]));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${destinationId}`,
+        payload: { ntfyTopic: null },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject switching to Gotify without an app token', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(
+        createSelectMock([createDestinationRow({ webhookFormat: 'json', authToken: null })])
+      );
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${destinationId}`,
+        payload: { webhookFormat: 'gotify' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).message).toBe('Gotify destinations need an app token');
+    });
+
+    it('should return 404 for an unknown destination', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createSelectMock([]));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/settings/notifications/destinations/${destinationId}`,
+        payload: { enabled: false },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /settings/notifications/destinations/:id', () => {
+    it('should delete the destination', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([createDestinationRow()]),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/settings/notifications/destinations/${destinationId}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'settings.destination_delete', entityId: destinationId })
+      );
+    });
+  });
+
+  describe('POST /settings/notifications/destinations/:id/test', () => {
+    it('should send a test with the destination settings', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createSelectMock([createDestinationRow()]));
+      vi.mocked(sendTestWebhook).mockResolvedValue({ success: true });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destinationId}/test`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(sendTestWebhook).toHaveBeenCalledWith(
+        'https://ntfy.example.com',
+        'custom',
+        'ntfy',
+        'tracearr',
+        'tk_secret',
+        null
+      );
+    });
+
+    it('should return 502 when the test fails', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createSelectMock([createDestinationRow()]));
+      vi.mocked(sendTestWebhook).mockResolvedValue({ success: false, error: 'HTTP 401' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destinationId}/test`,
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(JSON.parse(response.body)).toEqual({ success: false, error: 'HTTP 401' });
+    });
+  });
+
+  describe('POST /settings/notifications/destinations/:id/routes', () => {
+    it('should add a route for a server and severity', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const route = createRouteRow({ serverId, minSeverity: 'high' });
+      mockDb.select
+        .mockReturnValueOnce(createSelectMock([createDestinationRow()]))
+        .mockReturnValueOnce(createSelectMock([{ id: serverId }]))
+        .mockReturnValueOnce(createSelectMock([]));
+      const values = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([route]) });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destinationId}/routes`,
+        payload: { eventType: 'violation_detected', serverId, minSeverity: 'high' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith({
+        destinationId,
+        eventType: 'violation_detected',
+        serverId,
+        minSeverity: 'high',
+      });
+    });
+
+    it('should ignore severity for events other than violations', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select
+        .mockReturnValueOnce(createSelectMock([createDestinationRow()]))
+        .mockReturnValueOnce(createSelectMock([]));
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([createRouteRow({ eventType: 'server_down' })]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destinationId}/routes`,
+        payload: { eventType: 'server_down', minSeverity: 'high' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ minSeverity: null }));
+    });
+
+    it('should return an identical existing route instead of adding another', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const route = createRouteRow();
+      mockDb.select
+        .mockReturnValueOnce(createSelectMock([createDestinationRow()]))
+        .mockReturnValueOnce(createSelectMock([route]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destinationId}/routes`,
+        payload: { eventType: 'violation_detected' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).id).toBe(route.id);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown server', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select
+        .mockReturnValueOnce(createSelectMock([createDestinationRow()]))
+        .mockReturnValueOnce(createSelectMock([]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/settings/notifications/destinations/${destinationId}/routes`,
+        payload: { eventType: 'stream_started', serverId },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /settings/notifications/destinations/:id/routes/:routeId', () => {
+    it('should return 404 for a route on another destination', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) }),
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/settings/notifications/destinations/${destinationId}/routes/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Notification Template routes tests
+ *
+ * Tests the API endpoints for notification templates:
+ * - GET /templates - List saved templates
+ * - PUT /templates/:eventType - Save an event's template
+ * - DELETE /templates/:eventType - Go back to the built-in text
+ * - POST /templates/preview - Render a template against sample data
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { recordAudit } from '../../services/audit.js';
+import { notificationTemplatesRoutes } from '../notificationTemplates.js';
+
+const templateId = randomUUID();
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(notificationTemplatesRoutes, { prefix: '/settings/notifications' });
+
+  return app;
+}
+
+function createUser(role: AuthUser['role']): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: role,
+    role,
+    serverIds: [],
+  };
+}
+
+function createTemplateRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: templateId,
+    eventType: 'server_down',
+    title: 'Down: {{server.name}}',
+    body: '{{server.name}} is offline',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Helper to create a select chain that resolves however the query ends
+ */
+function createSelectMock(resolvedValue: unknown) {
+  const chain: any = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(resolvedValue).then(resolve),
+  };
+  for (const method of ['from', 'where', 'limit']) {
+    chain[method] = vi.fn().mockReturnValue(chain);
+  }
+  return chain;
+}
+
+describe('Notification Template Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /settings/notifications/templates', () => {
+    it('should list saved templates', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      mockDb.select.mockReturnValueOnce(createSelectMock([createTemplateRow()]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/templates',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toHaveLength(1);
+      expect(body[0]).toMatchObject({ eventType: 'server_down', title: 'Down: {{server.name}}' });
+      expect(body[0]).not.toHaveProperty('id');
+    });
+
+    it('should reject non-owners', async () => {
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settings/notifications/templates',
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /settings/notifications/templates/:eventType', () => {
+    it('should create a template for an event without one', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      mockDb.select.mockReturnValueOnce(createSelectMock([]));
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([createTemplateRow()]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down',
+        payload: { title: 'Down: {{server.name}}', body: '{{server.name}} is offline' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(values).toHaveBeenCalledWith({
+        eventType: 'server_down',
+        title: 'Down: {{server.name}}',
+        body: '{{server.name}} is offline',
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'settings.template_update',
+          entityId: templateId,
+          entityName: 'server_down',
+          before: null,
+        })
+      );
+    });
+
+    it('should update an existing template', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      mockDb.select.mockReturnValueOnce(createSelectMock([createTemplateRow()]));
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([createTemplateRow({ title: 'Offline' })]),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down',
+        payload: { title: 'Offline', body: '{{server.name}} is offline' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).title).toBe('Offline');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          before: { title: 'Down: {{server.name}}', body: '{{server.name}} is offline' },
+          after: { title: 'Offline', body: '{{server.name}} is offline' },
+        })
+      );
+    });
+
+    it('should reject placeholders the event does not provide', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down',
+        payload: { title: 'Down', body: '{{user.username}} lost {{server.name}}' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).message).toBe('Unknown placeholder: {{user.username}}');
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown event types', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/not_an_event',
+        payload: { title: 'Title', body: 'Body' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject non-owners', async () => {
+      app = await buildTestApp(createUser('admin'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/settings/notifications/templates/server_down',
+        payload: { title: 'Title', body: 'Body' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('DELETE /settings/notifications/templates/:eventType', () => {
+    function mockDelete(rows: unknown[]) {
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue(rows) }),
+      });
+    }
+
+    it('should remove the saved template', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      mockDelete([createTemplateRow()]);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/settings/notifications/templates/server_down',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'settings.template_reset', entityId: templateId })
+      );
+    });
+
+    it('should return 404 when no template is saved', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      mockDelete([]);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/settings/notifications/templates/server_down',
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /settings/notifications/templates/preview', () => {
+    it('should render the template against sample data', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/templates/preview',
+        payload: {
+          eventType: 'stream_started',
+          title: '{{user.displayName}} is watching',
+          body: '{{media.title}} on {{server.name}}',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        title: 'Jane Smith is watching',
+        body: 'Breaking Bad on Home Plex',
+      });
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown placeholders', async () => {
+      app = await buildTestApp(createUser('owner'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/settings/notifications/templates/preview',
+        payload: { eventType: 'server_up', title: '{{media.title}}', body: 'Body' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
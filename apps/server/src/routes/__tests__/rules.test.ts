@@ -6,6 +6,7 @@
  * - POST /rules - Create a new rule
  * - GET /rules/:id - Get a specific rule
  * - PATCH /rules/:id - Update a rule
+ * - POST /rules/:id/backtest - Replay recent sessions through a rule
  * - DELETE /rules/:id - Delete a rule
  */
 
@@ -13,7 +14,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import Fastify, { type FastifyInstance } from 'fastify';
 import sensible from '@fastify/sensible';
 import { randomUUID } from 'node:crypto';
-import type { AuthUser, Rule } from '@tracearr/shared';
+import type { AuthUser, Rule, RuleAction, RuleSchedule } from '@tracearr/shared';
 
 // Mock the database module before importing routes
 vi.mock('../../db/client.js', () => ({
@@ -25,8 +26,27 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
-// Import the mocked db and the routes
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+// Mock the backtest service so the endpoint doesn't replay history
+vi.mock('../../services/ruleBacktest.js', () => ({
+  backtestRule: vi.fn(),
+}));
+
+// Mock permission grants (non-owners hold none unless a test grants them)
+vi.mock('../../services/permissions.js', () => ({
+  getPermittedServerIds: vi.fn().mockResolvedValue([]),
+  getAllServerIds: vi.fn().mockResolvedValue([]),
+}));
+
+// Import the mocked modules and the routes
 import { db } from '../../db/client.js';
+import { getPermittedServerIds } from '../../services/permissions.js';
+import { requirePermission } from '../../plugins/auth.js';
+import { backtestRule } from '../../services/ruleBacktest.js';
+import { recordAudit } from '../../services/audit.js';
 import { ruleRoutes } from '../rules.js';
 
 /**
@@ -42,6 +62,7 @@ async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
   app.decorate('authenticate', async (request: any) => {
     request.user = authUser;
   });
+  app.decorate('requirePermission', requirePermission);
 
   // Register routes
   await app.register(ruleRoutes, { prefix: '/rules' });
@@ -58,7 +79,17 @@ function createTestRule(overrides: Partial<Rule> = {}): Rule {
     name: overrides.name ?? 'Test Rule',
     type: overrides.type ?? 'concurrent_streams',
     params: overrides.params ?? { maxStreams: 3 },
+    actions: overrides.actions ?? [],
+    scope: overrides.scope ?? {
+      serverIds: [],
+      userIds: [],
+      roles: [],
+      groupIds: [],
+      excludedUserIds: [],
+    },
+    schedule: overrides.schedule ?? null,
     serverUserId: overrides.serverUserId ?? null,
+    crossServer: overrides.crossServer ?? false,
     isActive: overrides.isActive ?? true,
     createdAt: overrides.createdAt ?? new Date(),
     updatedAt: overrides.updatedAt ?? new Date(),
@@ -80,12 +111,12 @@ function createOwnerUser(): AuthUser {
 /**
  * Create a mock viewer auth user (non-owner)
  */
-function createViewerUser(): AuthUser {
+function createViewerUser(serverIds: string[] = [randomUUID()]): AuthUser {
   return {
     userId: randomUUID(),
     username: 'viewer',
     role: 'viewer',
-    serverIds: [randomUUID()],
+    serverIds,
   };
 }
 
@@ -172,6 +203,44 @@ describe('Rule Routes', () => {
       expect(body.data).toHaveLength(1);
       expect(body.data[0].serverUserId).toBeNull();
     });
+    it('should hide server-scoped rules for servers the user cannot access', async () => {
+      const accessibleServerId = randomUUID();
+      const guestUser = createViewerUser([accessibleServerId]);
+      app = await buildTestApp(guestUser);
+
+      const emptyScope = { serverIds: [], userIds: [], roles: [], groupIds: [], excludedUserIds: [] };
+      const visibleRule = createTestRule({
+        name: 'Visible',
+        scope: { ...emptyScope, serverIds: [accessibleServerId, randomUUID()] },
+      });
+      const hiddenRule = createTestRule({
+        name: 'Hidden',
+        scope: { ...emptyScope, serverIds: [randomUUID()] },
+      });
+
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          leftJoin: vi.fn().mockReturnValue({
+            leftJoin: vi.fn().mockReturnValue({
+              orderBy: vi.fn().mockResolvedValue([
+                { ...visibleRule, username: null, serverId: null, serverName: null },
+                { ...hiddenRule, username: null, serverId: null, serverName: null },
+              ]),
+            }),
+          }),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/rules',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].name).toBe('Visible');
+    });
   });
 
   describe('POST /rules', () => {
@@ -207,6 +276,153 @@ describe('Rule Routes', () => {
       expect(body.type).toBe('impossible_travel');
     });
 
+    it('should create a rule with actions', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const actions: RuleAction[] = [
+        { type: 'terminate_newest', message: 'One stream at a time', cooldownMinutes: 10 },
+      ];
+      const newRule = createTestRule({ actions });
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([newRule]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Stream Limit',
+          type: 'concurrent_streams',
+          params: { maxStreams: 1 },
+          actions,
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ actions }));
+      const body = JSON.parse(response.body);
+      expect(body.actions).toEqual(actions);
+    });
+
+    it('should create a cross-server rule', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const newRule = createTestRule({ crossServer: true });
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([newRule]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Shared Account',
+          type: 'concurrent_streams',
+          params: { maxStreams: 2 },
+          crossServer: true,
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ crossServer: true }));
+    });
+
+    it('should reject invalid action type', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Stream Limit',
+          type: 'concurrent_streams',
+          params: { maxStreams: 1 },
+          actions: [{ type: 'ban_user', cooldownMinutes: 5 }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject composite rules with an invalid condition tree', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Composite',
+          type: 'composite',
+          params: { root: { kind: 'group', operator: 'and', conditions: [] } },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject stream quality rules without any limit', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Transcodes',
+          type: 'stream_quality',
+          params: { maxConcurrentTranscodes: null },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should store composite conditions with their defaults applied', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([createTestRule({ type: 'composite' })]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Composite',
+          type: 'composite',
+          params: {
+            root: {
+              kind: 'group',
+              operator: 'and',
+              conditions: [{ kind: 'condition', type: 'concurrent_streams', params: {} }],
+            },
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const stored = values.mock.calls[0]![0] as { params: unknown };
+      expect(stored.params).toEqual({
+        root: {
+          kind: 'group',
+          operator: 'and',
+          conditions: [
+            { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 3 } },
+          ],
+        },
+      });
+    });
+
     it('should reject rule creation for non-owner', async () => {
       const guestUser = createViewerUser();
       app = await buildTestApp(guestUser);
@@ -224,6 +440,83 @@ describe('Rule Routes', () => {
       expect(response.statusCode).toBe(403);
     });
 
+    it('should let admins create rules limited to servers they manage', async () => {
+      const serverId = randomUUID();
+      const adminUser: AuthUser = { ...createViewerUser([serverId]), role: 'admin' };
+      app = await buildTestApp(adminUser);
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+
+      mockDb.insert.mockReturnValue({
+        values: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([createTestRule()]),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Stream Limit',
+          type: 'concurrent_streams',
+          params: { maxStreams: 2 },
+          scope: { serverIds: [serverId] },
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(getPermittedServerIds).toHaveBeenCalledWith(adminUser.userId, 'manage_rules');
+    });
+
+    it('should reject rules from admins that reach beyond their servers', async () => {
+      const serverId = randomUUID();
+      const adminUser: AuthUser = { ...createViewerUser([serverId]), role: 'admin' };
+      app = await buildTestApp(adminUser);
+      vi.mocked(getPermittedServerIds)
+        .mockResolvedValueOnce([serverId])
+        .mockResolvedValueOnce([serverId]);
+
+      const payload = {
+        name: 'Stream Limit',
+        type: 'concurrent_streams',
+        params: { maxStreams: 2 },
+      };
+      const unscoped = await app.inject({ method: 'POST', url: '/rules', payload });
+      const otherServer = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: { ...payload, scope: { serverIds: [serverId, randomUUID()] } },
+      });
+
+      expect(unscoped.statusCode).toBe(403);
+      expect(otherServer.statusCode).toBe(403);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject account actions from admins without manage_accounts', async () => {
+      const serverId = randomUUID();
+      const adminUser: AuthUser = { ...createViewerUser([serverId]), role: 'admin' };
+      app = await buildTestApp(adminUser);
+      vi.mocked(getPermittedServerIds)
+        .mockResolvedValueOnce([serverId]) // manage_rules
+        .mockResolvedValueOnce([]); // manage_accounts
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/rules',
+        payload: {
+          name: 'Stream Limit',
+          type: 'concurrent_streams',
+          params: { maxStreams: 2 },
+          actions: [{ type: 'disable_user', cooldownMinutes: 60 }],
+          scope: { serverIds: [serverId] },
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(getPermittedServerIds).toHaveBeenLastCalledWith(adminUser.userId, 'manage_accounts');
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
     it('should reject invalid request body', async () => {
       const ownerUser = createOwnerUser();
       app = await buildTestApp(ownerUser);
@@ -440,6 +733,14 @@ describe('Rule Routes', () => {
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.name).toBe('New Name');
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'rule.update',
+          entityId: ruleId,
+          actor: ownerUser,
+          after: expect.objectContaining({ name: 'New Name' }),
+        })
+      );
     });
 
     it('should reject update for non-owner', async () => {
@@ -560,6 +861,282 @@ describe('Rule Routes', () => {
 
       expect(response.statusCode).toBe(200);
     });
+
+    it('should update and clear the schedule', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const ruleId = randomUUID();
+      const existingRule = createTestRule({ id: ruleId });
+      const schedule: RuleSchedule = {
+        timezone: 'Europe/London',
+        windows: [{ days: [1, 2, 3, 4, 5], startTime: '18:00', endTime: '23:00' }],
+        suspensions: [],
+      };
+
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          leftJoin: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue([{ ...existingRule, serverId: null }]),
+            }),
+          }),
+        }),
+      });
+
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ ...existingRule, schedule }]),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/rules/${ruleId}`,
+        payload: { schedule },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ schedule }));
+
+      const clearResponse = await app.inject({
+        method: 'PATCH',
+        url: `/rules/${ruleId}`,
+        payload: { schedule: null },
+      });
+
+      expect(clearResponse.statusCode).toBe(200);
+      expect(set).toHaveBeenLastCalledWith(expect.objectContaining({ schedule: null }));
+    });
+
+    it('should reject terminate actions from admins without terminate_streams', async () => {
+      const serverId = randomUUID();
+      const adminUser: AuthUser = { ...createViewerUser([serverId]), role: 'admin' };
+      app = await buildTestApp(adminUser);
+      vi.mocked(getPermittedServerIds)
+        .mockResolvedValueOnce([serverId]) // manage_rules
+        .mockResolvedValueOnce([]); // terminate_streams
+
+      const existingRule = createTestRule({
+        scope: { serverIds: [serverId], userIds: [], roles: [], groupIds: [], excludedUserIds: [] },
+      });
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          leftJoin: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue([{ ...existingRule, serverId: null }]),
+            }),
+          }),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/rules/${existingRule.id}`,
+        payload: {
+          actions: [{ type: 'terminate_stream', cooldownMinutes: 0 }],
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(getPermittedServerIds).toHaveBeenLastCalledWith(
+        adminUser.userId,
+        'terminate_streams'
+      );
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject params that are invalid for the rule type', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const existingRule = createTestRule({
+        type: 'stream_quality',
+        params: {
+          maxConcurrentTranscodes: 1,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: null,
+          maxTranscodePercent: null,
+          minSessions: 5,
+        },
+      });
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          leftJoin: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue([{ ...existingRule, serverId: null }]),
+            }),
+          }),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/rules/${existingRule.id}`,
+        payload: {
+          params: {
+            maxConcurrentTranscodes: null,
+            maxRemoteBitrateMbps: null,
+            maxTranscodePercent: null,
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /rules/:id/backtest', () => {
+    function mockRuleSelect(rows: unknown[]) {
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue(rows),
+          }),
+        }),
+      });
+    }
+
+    it('should backtest the saved rule with default options', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const rule = createTestRule({ type: 'impossible_travel', params: { maxSpeedKmh: 500 } });
+      mockRuleSelect([rule]);
+      vi.mocked(backtestRule).mockResolvedValue({
+        ruleId: rule.id,
+        from: new Date(),
+        to: new Date(),
+        sessionCount: 12,
+        truncated: false,
+        violationCount: 0,
+        violations: [],
+        users: [],
+        daily: [],
+        overlap: { existingCount: 0, matchedCount: 0, newCount: 0, missedCount: 0 },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/rules/${rule.id}/backtest`,
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).sessionCount).toBe(12);
+      expect(backtestRule).toHaveBeenCalledWith(
+        expect.objectContaining({ id: rule.id, params: { maxSpeedKmh: 500 } }),
+        { days: 7, timezone: 'UTC' }
+      );
+    });
+
+    it('should try unsaved params in place of the saved ones', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const rule = createTestRule({ type: 'impossible_travel', params: { maxSpeedKmh: 500 } });
+      mockRuleSelect([rule]);
+      vi.mocked(backtestRule).mockResolvedValue({} as any);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/rules/${rule.id}/backtest`,
+        payload: { days: 30, params: { maxSpeedKmh: 900 }, timezone: 'Europe/London' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(backtestRule).toHaveBeenCalledWith(
+        expect.objectContaining({ params: { maxSpeedKmh: 900 } }),
+        { days: 30, timezone: 'Europe/London' }
+      );
+    });
+
+    it('should try an unsaved cross-server setting', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const rule = createTestRule({ type: 'concurrent_streams', params: { maxStreams: 2 } });
+      mockRuleSelect([rule]);
+      vi.mocked(backtestRule).mockResolvedValue({} as any);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/rules/${rule.id}/backtest`,
+        payload: { crossServer: true },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(backtestRule).toHaveBeenCalledWith(
+        expect.objectContaining({ crossServer: true }),
+        { days: 7, timezone: 'UTC' }
+      );
+    });
+
+    it('should reject a window longer than the maximum', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/rules/${randomUUID()}/backtest`,
+        payload: { days: 365 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(backtestRule).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid composite conditions', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const rule = createTestRule({
+        type: 'composite',
+        params: {
+          root: {
+            kind: 'group',
+            operator: 'and',
+            conditions: [
+              { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 2 } },
+            ],
+          },
+        },
+      });
+      mockRuleSelect([rule]);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/rules/${rule.id}/backtest`,
+        payload: { params: { root: { kind: 'group', operator: 'and', conditions: [] } } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(backtestRule).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for non-existent rule', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockRuleSelect([]);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/rules/${randomUUID()}/backtest`,
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should reject backtest for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/rules/${randomUUID()}/backtest`,
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(backtestRule).not.toHaveBeenCalled();
+    });
   });
 
   describe('DELETE /rules/:id', () => {
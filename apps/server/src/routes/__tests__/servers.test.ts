@@ -25,6 +25,10 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
 vi.mock('../../utils/crypto.js', () => ({
   encrypt: vi.fn((token: string) => `encrypted_${token}`),
   decrypt: vi.fn((token: string) => token.replace('encrypted_', '')),
@@ -5,6 +5,7 @@
  * - GET /sessions - List historical sessions with filters
  * - GET /sessions/active - Get currently active streams
  * - GET /sessions/:id - Get a specific session
+ * - IP addresses and locations need view_locations
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
@@ -30,8 +31,17 @@ vi.mock('../../services/cache.js', () => ({
   })),
 }));
 
+// Mock permission grants (non-owners hold none unless a test grants them)
+// Locations are shown everywhere unless a test restricts them
+vi.mock('../../services/permissions.js', () => ({
+  getPermittedServerIds: vi.fn().mockResolvedValue([]),
+  getLocationServerIds: vi.fn().mockResolvedValue(null),
+}));
+
 // Import the mocked db and the routes
 import { db } from '../../db/client.js';
+import { getLocationServerIds, getPermittedServerIds } from '../../services/permissions.js';
+import { requirePermission } from '../../plugins/auth.js';
 import { sessionRoutes } from '../sessions.js';
 
 /**
@@ -49,6 +59,7 @@ async function buildTestApp(
   app.decorate('authenticate', async (request: any) => {
     request.user = authUser;
   });
+  app.decorate('requirePermission', requirePermission);
 
   // Mock Redis (cast to never for test mock)
   app.decorate('redis', (redisMock ?? { get: vi.fn().mockResolvedValue(null) }) as never);
@@ -108,6 +119,8 @@ function createActiveSession(overrides: Partial<ActiveSession> = {}): ActiveSess
     geoCountry: overrides.geoCountry ?? 'US',
     geoLat: overrides.geoLat ?? 40.7128,
     geoLon: overrides.geoLon ?? -74.006,
+    asn: overrides.asn ?? null,
+    asnOrg: overrides.asnOrg ?? null,
     playerName: overrides.playerName ?? 'Chrome',
     deviceId: overrides.deviceId ?? 'device-123',
     product: overrides.product ?? 'Plex Web',
@@ -530,6 +543,7 @@ describe('Session Routes', () => {
       const sessionId = randomUUID();
       const differentServerId = randomUUID();
       const viewerUser = createViewerUser([differentServerId]);
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([differentServerId]);
 
       const redisMock = {
         get: vi.fn().mockResolvedValue(null),
@@ -609,6 +623,7 @@ describe('Session Routes', () => {
       const sessionId = randomUUID();
       const differentServerId = randomUUID();
       const viewerUser = createViewerUser([differentServerId]);
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([differentServerId]);
 
       const activeSession = createActiveSession({ id: sessionId, serverId });
 
@@ -641,4 +656,111 @@ describe('Session Routes', () => {
       expect(response.statusCode).toBe(404);
     });
   });
+
+  describe('location permission', () => {
+    const locationFields = {
+      ipAddress: null,
+      geoCity: null,
+      geoRegion: null,
+      geoCountry: null,
+      geoLat: null,
+      geoLon: null,
+    };
+
+    function buildViewerApp(serverId: string, locationServerIds: string[]) {
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+      vi.mocked(getLocationServerIds).mockResolvedValueOnce(locationServerIds);
+      const session = createActiveSession({ serverId });
+      const redisMock = { get: vi.fn().mockResolvedValue(JSON.stringify(session)) };
+      return buildTestApp(createViewerUser([serverId]), redisMock);
+    }
+
+    it('should hide the IP address and location without view_locations', async () => {
+      const serverId = randomUUID();
+      app = await buildViewerApp(serverId, []);
+
+      const response = await app.inject({ method: 'GET', url: `/sessions/${randomUUID()}` });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toMatchObject(locationFields);
+      expect(body.mediaTitle).toBe('Test Movie');
+    });
+
+    it('should show the IP address and location with view_locations on the server', async () => {
+      const serverId = randomUUID();
+      app = await buildViewerApp(serverId, [serverId]);
+
+      const response = await app.inject({ method: 'GET', url: `/sessions/${randomUUID()}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        ipAddress: '192.168.1.100',
+        geoCity: 'New York',
+      });
+    });
+
+    it('should hide locations in the session list', async () => {
+      const serverId = randomUUID();
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+      vi.mocked(getLocationServerIds).mockResolvedValueOnce([]);
+      app = await buildTestApp(createViewerUser([serverId]));
+
+      mockDb.execute.mockResolvedValueOnce({
+        rows: [
+          {
+            id: randomUUID(),
+            started_at: new Date(),
+            segment_count: '1',
+            server_id: serverId,
+            server_user_id: randomUUID(),
+            asn: null,
+            ip_address: '192.168.1.1',
+            geo_city: 'NYC',
+            geo_lat: 40.7,
+          },
+        ],
+      });
+      mockDb.execute.mockResolvedValueOnce({ rows: [{ count: 1 }] });
+
+      const response = await app.inject({ method: 'GET', url: '/sessions' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data[0]).toMatchObject(locationFields);
+    });
+
+    it('should reject history filters by location without view_locations', async () => {
+      const serverId = randomUUID();
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+      vi.mocked(getLocationServerIds).mockResolvedValueOnce([]);
+      app = await buildTestApp(createViewerUser([serverId]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/sessions/history?ipAddress=192.168.1.1',
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.execute).not.toHaveBeenCalled();
+    });
+
+    it('should allow history filters by location with view_locations', async () => {
+      const serverId = randomUUID();
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+      vi.mocked(getLocationServerIds).mockResolvedValueOnce([serverId]);
+      app = await buildTestApp(createViewerUser([serverId]));
+
+      mockDb.execute.mockResolvedValueOnce({ rows: [] });
+      mockDb.execute.mockResolvedValueOnce({
+        rows: [{ play_count: 0, total_watch_time_ms: '0', unique_users: 0, unique_content: 0 }],
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/sessions/history?geoCity=NYC',
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
 });
@@ -2,8 +2,8 @@
  * Settings routes tests
  *
  * Tests the API endpoints for application settings:
- * - GET /settings - Get application settings (owner only)
- * - PATCH /settings - Update application settings (owner only)
+ * - GET /settings - Get application settings (manage_settings on every server)
+ * - PATCH /settings - Update application settings (manage_settings on every server)
  */
 
 import { describe, it, expect, afterEach, vi } from 'vitest';
@@ -21,8 +21,20 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+// Mock permission grants (non-owners hold none unless a test grants them)
+vi.mock('../../services/permissions.js', () => ({
+  getPermittedServerIds: vi.fn().mockResolvedValue([]),
+  getAllServerIds: vi.fn().mockResolvedValue([]),
+}));
+
 // Import mocked modules
 import { db } from '../../db/client.js';
+import { getAllServerIds, getPermittedServerIds } from '../../services/permissions.js';
+import { requirePermission } from '../../plugins/auth.js';
 import { settingsRoutes } from '../settings.js';
 
 // Helper to create DB chain mocks
@@ -61,6 +73,7 @@ async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
   app.decorate('authenticate', async (request: unknown) => {
     (request as { user: AuthUser }).user = authUser;
   });
+  app.decorate('requirePermission', requirePermission);
 
   await app.register(settingsRoutes, { prefix: '/settings' });
   return app;
@@ -83,11 +96,6 @@ const viewerUser: AuthUser = {
 const mockSettingsRow = {
   id: 1,
   allowGuestAccess: false,
-  discordWebhookUrl: 'https://discord.com/api/webhooks/123',
-  customWebhookUrl: 'https://example.com/webhook',
-  webhookFormat: 'json' as const,
-  ntfyTopic: null,
-  ntfyAuthToken: null,
   pollerEnabled: true,
   pollerIntervalMs: 15000,
   tautulliUrl: 'http://localhost:8181',
@@ -122,7 +130,6 @@ describe('Settings Routes', () => {
       expect(response.statusCode).toBe(200);
       const body = response.json();
       expect(body.allowGuestAccess).toBe(false);
-      expect(body.discordWebhookUrl).toBe('https://discord.com/api/webhooks/123');
       expect(body.pollerEnabled).toBe(true);
       expect(body.pollerIntervalMs).toBe(15000);
       expect(body.externalUrl).toBe('https://tracearr.example.com');
@@ -171,8 +178,6 @@ describe('Settings Routes', () => {
       const defaultSettings = {
         id: 1,
         allowGuestAccess: false,
-        discordWebhookUrl: null,
-        customWebhookUrl: null,
         pollerEnabled: true,
         pollerIntervalMs: 15000,
         tautulliUrl: null,
@@ -194,32 +199,31 @@ describe('Settings Routes', () => {
       expect(body.allowGuestAccess).toBe(false);
     });
 
-    it('rejects guest accessing settings', async () => {
-      app = await buildTestApp(viewerUser);
+    it('lets admins with manage_settings on every server view settings', async () => {
+      const serverId = randomUUID();
+      app = await buildTestApp({ ...viewerUser, role: 'admin', serverIds: [serverId] });
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+      vi.mocked(getAllServerIds).mockResolvedValueOnce([serverId]);
+      mockDbSelectLimit([mockSettingsRow]);
 
       const response = await app.inject({
         method: 'GET',
         url: '/settings',
       });
 
-      expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
+      expect(response.statusCode).toBe(200);
     });
 
-    it('returns webhook format settings', async () => {
-      app = await buildTestApp(ownerUser);
-
-      mockDbSelectLimit([{ ...mockSettingsRow, webhookFormat: 'ntfy', ntfyTopic: 'my-topic' }]);
+    it('rejects guest accessing settings', async () => {
+      app = await buildTestApp(viewerUser);
 
       const response = await app.inject({
         method: 'GET',
         url: '/settings',
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('ntfy');
-      expect(body.ntfyTopic).toBe('my-topic');
+      expect(response.statusCode).toBe(403);
+      expect(response.json().message).toContain('Manage settings permission required');
     });
   });
 
@@ -260,44 +264,6 @@ describe('Settings Routes', () => {
       expect(body.allowGuestAccess).toBe(true);
     });
 
-    it('updates webhook URLs', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [{
-                  ...mockSettingsRow,
-                  discordWebhookUrl: 'https://new-discord-webhook.com',
-                  customWebhookUrl: 'https://new-custom-webhook.com',
-                }]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          discordWebhookUrl: 'https://new-discord-webhook.com',
-          customWebhookUrl: 'https://new-custom-webhook.com',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.discordWebhookUrl).toBe('https://new-discord-webhook.com');
-      expect(body.customWebhookUrl).toBe('https://new-custom-webhook.com');
-    });
-
     it('updates poller settings', async () => {
       app = await buildTestApp(ownerUser);
 
@@ -495,306 +461,49 @@ describe('Settings Routes', () => {
       });
 
       expect(response.statusCode).toBe(403);
-      expect(response.json().message).toContain('Only server owners');
-    });
-
-    it('rejects invalid request body', async () => {
-      app = await buildTestApp(ownerUser);
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          pollerIntervalMs: 'not-a-number', // Should be number
-        },
-      });
-
-      expect(response.statusCode).toBe(400);
-    });
-
-    it('handles empty update body', async () => {
-      app = await buildTestApp(ownerUser);
-
-      vi.mocked(db.select).mockImplementation(() => {
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue([mockSettingsRow]),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {},
-      });
-
-      expect(response.statusCode).toBe(200);
-      // Should still update the updatedAt timestamp
-      expect(db.update).toHaveBeenCalled();
-    });
-
-    it('clears webhook URLs when set to null', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [{
-                  ...mockSettingsRow,
-                  discordWebhookUrl: null,
-                  customWebhookUrl: null,
-                }]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          discordWebhookUrl: null,
-          customWebhookUrl: null,
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.discordWebhookUrl).toBe(null);
-      expect(body.customWebhookUrl).toBe(null);
-    });
-
-    it('updates webhook format to ntfy', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [{
-                  ...mockSettingsRow,
-                  webhookFormat: 'ntfy',
-                  ntfyTopic: 'tracearr-alerts',
-                }]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          webhookFormat: 'ntfy',
-          ntfyTopic: 'tracearr-alerts',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('ntfy');
-      expect(body.ntfyTopic).toBe('tracearr-alerts');
+      expect(response.json().message).toContain('Manage settings permission required');
     });
 
-    it('updates webhook format to apprise', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [{
-                  ...mockSettingsRow,
-                  webhookFormat: 'apprise',
-                }]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
+    it('rejects admins with manage_settings on only one server', async () => {
+      const serverId = randomUUID();
+      app = await buildTestApp({ ...viewerUser, role: 'admin', serverIds: [serverId] });
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+      vi.mocked(getAllServerIds).mockResolvedValueOnce([serverId, randomUUID()]);
 
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings',
-        payload: {
-          webhookFormat: 'apprise',
-        },
+        payload: { externalUrl: 'https://tracearr.example.com' },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('apprise');
+      expect(response.statusCode).toBe(403);
+      expect(response.json().message).toContain('permission required on every server');
+      expect(db.update).not.toHaveBeenCalled();
+      expect(db.insert).not.toHaveBeenCalled();
     });
 
-    it('rejects invalid webhook format', async () => {
+    it('rejects invalid request body', async () => {
       app = await buildTestApp(ownerUser);
 
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings',
         payload: {
-          webhookFormat: 'invalid-format',
+          pollerIntervalMs: 'not-a-number', // Should be number
         },
       });
 
       expect(response.statusCode).toBe(400);
     });
 
-    it('clears ntfy topic when set to null', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [{ ...mockSettingsRow, ntfyTopic: 'old-topic' }]
-              : [{
-                  ...mockSettingsRow,
-                  ntfyTopic: null,
-                }]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          ntfyTopic: null,
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyTopic).toBe(null);
-    });
-
-    it('updates ntfy auth token', async () => {
-      app = await buildTestApp(ownerUser);
-
-      let selectCount = 0;
-      vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
-        const chain = {
-          from: vi.fn().mockReturnThis(),
-          where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [mockSettingsRow]
-              : [{
-                  ...mockSettingsRow,
-                  webhookFormat: 'ntfy',
-                  ntfyTopic: 'tracearr',
-                  ntfyAuthToken: 'tk_secret_token_123',
-                }]
-          ),
-        };
-        return chain as never;
-      });
-      mockDbUpdate();
-
-      const response = await app.inject({
-        method: 'PATCH',
-        url: '/settings',
-        payload: {
-          webhookFormat: 'ntfy',
-          ntfyTopic: 'tracearr',
-          ntfyAuthToken: 'tk_secret_token_123',
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.webhookFormat).toBe('ntfy');
-      expect(body.ntfyTopic).toBe('tracearr');
-      // Auth token should be masked in response
-      expect(body.ntfyAuthToken).toBe('********');
-    });
-
-    it('masks ntfy auth token in GET response', async () => {
-      app = await buildTestApp(ownerUser);
-
-      mockDbSelectLimit([{
-        ...mockSettingsRow,
-        webhookFormat: 'ntfy',
-        ntfyTopic: 'my-topic',
-        ntfyAuthToken: 'tk_secret_token_456',
-      }]);
-
-      const response = await app.inject({
-        method: 'GET',
-        url: '/settings',
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyAuthToken).toBe('********');
-    });
-
-    it('returns null for ntfy auth token when not set', async () => {
-      app = await buildTestApp(ownerUser);
-
-      mockDbSelectLimit([{
-        ...mockSettingsRow,
-        webhookFormat: 'ntfy',
-        ntfyTopic: 'my-topic',
-        ntfyAuthToken: null,
-      }]);
-
-      const response = await app.inject({
-        method: 'GET',
-        url: '/settings',
-      });
-
-      expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyAuthToken).toBe(null);
-    });
-
-    it('clears ntfy auth token when set to null', async () => {
+    it('handles empty update body', async () => {
       app = await buildTestApp(ownerUser);
 
-      let selectCount = 0;
       vi.mocked(db.select).mockImplementation(() => {
-        selectCount++;
         const chain = {
           from: vi.fn().mockReturnThis(),
           where: vi.fn().mockReturnThis(),
-          limit: vi.fn().mockResolvedValue(
-            selectCount === 1
-              ? [{ ...mockSettingsRow, ntfyAuthToken: 'tk_old_token' }]
-              : [{
-                  ...mockSettingsRow,
-                  ntfyAuthToken: null,
-                }]
-          ),
+          limit: vi.fn().mockResolvedValue([mockSettingsRow]),
         };
         return chain as never;
       });
@@ -803,14 +512,12 @@ describe('Settings Routes', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/settings',
-        payload: {
-          ntfyAuthToken: null,
-        },
+        payload: {},
       });
 
       expect(response.statusCode).toBe(200);
-      const body = response.json();
-      expect(body.ntfyAuthToken).toBe(null);
+      // Should still update the updatedAt timestamp
+      expect(db.update).toHaveBeenCalled();
     });
   });
 });
@@ -4,15 +4,16 @@
  * Tests the API endpoints for violation operations:
  * - GET /violations - List violations with pagination and filters
  * - GET /violations/:id - Get a specific violation
- * - PATCH /violations/:id - Acknowledge a violation
+ * - PATCH /violations/:id - Acknowledge or review a violation
  * - DELETE /violations/:id - Dismiss (delete) a violation
+ * - GET/POST/DELETE /violations/:id/notes - Review notes
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import Fastify, { type FastifyInstance } from 'fastify';
 import sensible from '@fastify/sensible';
 import { randomUUID } from 'node:crypto';
-import type { AuthUser, ViolationSeverity } from '@tracearr/shared';
+import type { AuthUser, ViolationSeverity, ViolationStatus } from '@tracearr/shared';
 
 // Mock the database module before importing routes
 vi.mock('../../db/client.js', () => ({
@@ -25,8 +26,31 @@ vi.mock('../../db/client.js', () => ({
   },
 }));
 
+vi.mock('../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+// Mock trust score changes (applied against the transaction)
+vi.mock('../../services/trustScore.js', () => ({
+  applyTrustScoreChange: vi.fn(),
+}));
+
+vi.mock('../settings.js', async () => {
+  const { DEFAULT_TRUST_MODEL } = await import('@tracearr/shared');
+  return { getTrustModel: vi.fn().mockResolvedValue(DEFAULT_TRUST_MODEL) };
+});
+
+// Mock permission grants (non-owners hold none unless a test grants them)
+vi.mock('../../services/permissions.js', () => ({
+  getPermittedServerIds: vi.fn().mockResolvedValue([]),
+  getLocationServerIds: vi.fn().mockResolvedValue(null),
+}));
+
 // Import the mocked db and the routes
 import { db } from '../../db/client.js';
+import { getLocationServerIds, getPermittedServerIds } from '../../services/permissions.js';
+import { requirePermission } from '../../plugins/auth.js';
+import { applyTrustScoreChange } from '../../services/trustScore.js';
 import { violationRoutes } from '../violations.js';
 
 /**
@@ -42,6 +66,7 @@ async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
   app.decorate('authenticate', async (request: any) => {
     request.user = authUser;
   });
+  app.decorate('requirePermission', requirePermission);
 
   // Register routes
   await app.register(violationRoutes, { prefix: '/violations' });
@@ -69,6 +94,7 @@ interface MockViolationWithJoins {
   data: Record<string, unknown>;
   createdAt: Date;
   acknowledgedAt: Date | null;
+  status: ViolationStatus;
   ipAddress?: string;
   geoCity?: string | null;
   geoCountry?: string | null;
@@ -97,6 +123,7 @@ function createTestViolation(
     data: overrides.data ?? { maxStreams: 3, actualStreams: 4 },
     createdAt: overrides.createdAt ?? new Date(),
     acknowledgedAt: overrides.acknowledgedAt ?? null,
+    status: overrides.status ?? 'open',
     ipAddress: overrides.ipAddress ?? '192.168.1.1',
     geoCity: overrides.geoCity ?? 'New York',
     geoCountry: overrides.geoCountry ?? 'US',
@@ -197,6 +224,19 @@ function createViolationExistsCheckMock(resolvedValue: unknown) {
   };
 }
 
+/**
+ * Helper to create the mock chain for the note lookup (DELETE notes)
+ */
+function createNoteSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
 describe('Violation Routes', () => {
   let app: FastifyInstance;
   let mockDb: any;
@@ -322,6 +362,37 @@ describe('Violation Routes', () => {
       expect(body.data[0].acknowledgedAt).toBeNull();
     });
 
+    it('should filter by review status', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValueOnce(
+        createViolationSelectMock([createTestViolation({ status: 'investigating' })])
+      );
+      mockDb.execute.mockResolvedValueOnce({ rows: [{ count: 1 }] });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/violations?status=investigating',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data[0].status).toBe('investigating');
+    });
+
+    it('should reject invalid status filter', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/violations?status=ignored',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
     it('should filter by serverUserId', async () => {
       const ownerUser = createOwnerUser();
       app = await buildTestApp(ownerUser);
@@ -532,6 +603,59 @@ describe('Violation Routes', () => {
       expect(response.statusCode).toBe(403);
     });
 
+    it('should let admins acknowledge on servers they were granted', async () => {
+      const serverId = randomUUID();
+      const adminUser: AuthUser = { ...createViewerUser(), role: 'admin', serverIds: [serverId] };
+      app = await buildTestApp(adminUser);
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+
+      const violationId = randomUUID();
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([{ id: violationId, serverId }])
+      );
+      mockDb.update.mockReturnValue({
+        set: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            returning: vi.fn().mockResolvedValue([{ id: violationId, acknowledgedAt: new Date() }]),
+          }),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${violationId}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(getPermittedServerIds).toHaveBeenCalledWith(
+        adminUser.userId,
+        'acknowledge_violations'
+      );
+    });
+
+    it('should reject admins on servers they were not granted', async () => {
+      const grantedServerId = randomUUID();
+      const adminUser: AuthUser = {
+        ...createViewerUser(),
+        role: 'admin',
+        serverIds: [grantedServerId, randomUUID()],
+      };
+      app = await buildTestApp(adminUser);
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([grantedServerId]);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([{ id: randomUUID(), serverId: adminUser.serverIds[1] }])
+      );
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
     it('should return 404 for non-existent violation', async () => {
       const ownerUser = createOwnerUser();
       app = await buildTestApp(ownerUser);
@@ -642,6 +766,9 @@ describe('Violation Routes', () => {
         severity: 'high',
         serverUserId,
         serverId,
+        trustRestoredAt: null,
+        trustPenalty: 20,
+        trustDecayedAt: null,
       }]));
 
       // Track transaction calls
@@ -670,9 +797,81 @@ describe('Violation Routes', () => {
       expect(response.statusCode).toBe(200);
       // Verify transaction was called
       expect(mockDb.transaction).toHaveBeenCalledTimes(1);
-      // Verify delete and update were called in transaction
+      // Verify delete and trust restore were done in transaction
+      expect(deleteMock).toHaveBeenCalled();
+      expect(applyTrustScoreChange).toHaveBeenCalledWith(
+        expect.objectContaining({ update: updateMock }),
+        {
+          serverUserId,
+          delta: 20,
+          reason: 'violation_restored',
+          actorId: ownerUser.userId,
+        },
+        expect.objectContaining({ ceiling: 100 })
+      );
+    });
+
+    it('should not restore trust twice for a refunded false positive', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(createViolationExistsCheckMock([{
+        id: randomUUID(),
+        severity: 'high',
+        serverUserId: randomUUID(),
+        serverId: ownerUser.serverIds[0],
+        trustRestoredAt: new Date(),
+      }]));
+
+      const deleteMock = vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(undefined),
+      });
+      const updateMock = vi.fn();
+      mockDb.transaction = vi.fn().mockImplementation(
+        async (callback: (tx: any) => Promise<void>) =>
+          callback({ delete: deleteMock, update: updateMock })
+      );
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/violations/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(deleteMock).toHaveBeenCalled();
+      expect(updateMock).not.toHaveBeenCalled();
+      expect(applyTrustScoreChange).not.toHaveBeenCalled();
+    });
+
+    it('should not restore trust for a decayed violation', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(createViolationExistsCheckMock([{
+        id: randomUUID(),
+        severity: 'high',
+        serverUserId: randomUUID(),
+        serverId: ownerUser.serverIds[0],
+        trustRestoredAt: null,
+        trustPenalty: 20,
+        trustDecayedAt: new Date(),
+      }]));
+
+      const deleteMock = vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(undefined),
+      });
+      mockDb.transaction = vi.fn().mockImplementation(
+        async (callback: (tx: any) => Promise<void>) => callback({ delete: deleteMock })
+      );
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/violations/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(200);
       expect(deleteMock).toHaveBeenCalled();
-      expect(updateMock).toHaveBeenCalled();
+      expect(applyTrustScoreChange).not.toHaveBeenCalled();
     });
 
     it('should reject delete for non-owner', async () => {
@@ -714,6 +913,445 @@ describe('Violation Routes', () => {
     });
   });
 
+  describe('PATCH /violations/:id review', () => {
+    /**
+     * Mock a review transaction; returns the tx.update mock so tests can count
+     * violation and trust score updates
+     */
+    function mockReviewTransaction(returned: Record<string, unknown>) {
+      const updateMock = vi.fn().mockReturnValue({
+        set: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue(
+            Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn().mockResolvedValue([returned]),
+            })
+          ),
+        }),
+      });
+      mockDb.transaction = vi.fn().mockImplementation(async (callback: (tx: any) => unknown) =>
+        callback({ update: updateMock })
+      );
+      return updateMock;
+    }
+
+    function existingViolation(serverId: string | undefined, overrides = {}) {
+      return {
+        id: randomUUID(),
+        serverId,
+        serverUserId: randomUUID(),
+        severity: 'warning',
+        status: 'open',
+        acknowledgedAt: null,
+        trustRestoredAt: null,
+        trustPenalty: 10,
+        trustDecayedAt: null,
+        ...overrides,
+      };
+    }
+
+    it('should set the status', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([existingViolation(ownerUser.serverIds[0])])
+      );
+      const updateMock = mockReviewTransaction({ status: 'investigating' });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { status: 'investigating' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).status).toBe('investigating');
+      // Only the violation is updated, trust is untouched
+      expect(updateMock).toHaveBeenCalledTimes(1);
+      const setArgs = updateMock.mock.results[0]!.value.set.mock.calls[0][0];
+      expect(setArgs.status).toBe('investigating');
+      expect(setArgs.acknowledgedAt).toBeInstanceOf(Date);
+    });
+
+    it('should restore trust when marking a false positive', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([existingViolation(ownerUser.serverIds[0])])
+      );
+      const updateMock = mockReviewTransaction({ status: 'false_positive' });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: {
+          status: 'false_positive',
+          dismissalReason: 'Travelling with a VPN',
+          restoreTrust: true,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(updateMock).toHaveBeenCalledTimes(1);
+      const setArgs = updateMock.mock.results[0]!.value.set.mock.calls[0][0];
+      expect(setArgs.dismissalReason).toBe('Travelling with a VPN');
+      expect(setArgs.trustRestoredAt).toBeInstanceOf(Date);
+      expect(applyTrustScoreChange).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ delta: 10, reason: 'violation_restored' }),
+        expect.anything()
+      );
+    });
+
+    it('should not restore trust twice', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([
+          existingViolation(ownerUser.serverIds[0], {
+            status: 'false_positive',
+            trustRestoredAt: new Date(),
+          }),
+        ])
+      );
+      const updateMock = mockReviewTransaction({ status: 'false_positive' });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { status: 'false_positive', restoreTrust: true },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(updateMock).toHaveBeenCalledTimes(1);
+      expect(applyTrustScoreChange).not.toHaveBeenCalled();
+    });
+
+    it('should not restore trust for a decayed violation', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([
+          existingViolation(ownerUser.serverIds[0], { trustDecayedAt: new Date() }),
+        ])
+      );
+      const updateMock = mockReviewTransaction({ status: 'false_positive' });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { status: 'false_positive', restoreTrust: true },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(updateMock).toHaveBeenCalledTimes(1);
+      const setArgs = updateMock.mock.results[0]!.value.set.mock.calls[0][0];
+      expect(setArgs.trustRestoredAt).toBeUndefined();
+      expect(applyTrustScoreChange).not.toHaveBeenCalled();
+    });
+
+    it('should charge the penalty again when leaving false positive', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([
+          existingViolation(ownerUser.serverIds[0], {
+            status: 'false_positive',
+            trustRestoredAt: new Date(),
+          }),
+        ])
+      );
+      const updateMock = mockReviewTransaction({ status: 'confirmed_sharing' });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { status: 'confirmed_sharing' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(updateMock).toHaveBeenCalledTimes(1);
+      const setArgs = updateMock.mock.results[0]!.value.set.mock.calls[0][0];
+      expect(setArgs.trustRestoredAt).toBeNull();
+      expect(setArgs.dismissalReason).toBeNull();
+      expect(applyTrustScoreChange).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ delta: -10, reason: 'violation_recharged' }),
+        expect.anything()
+      );
+    });
+
+    it('should reject restoring trust for other statuses', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([existingViolation(ownerUser.serverIds[0])])
+      );
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { status: 'resolved', restoreTrust: true },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject a dismissal reason on open reviews', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select.mockReturnValue(
+        createViolationExistsCheckMock([existingViolation(ownerUser.serverIds[0])])
+      );
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { status: 'investigating', dismissalReason: 'Not sure yet' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject assigning to a non-admin', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select
+        .mockReturnValueOnce(
+          createViolationExistsCheckMock([existingViolation(ownerUser.serverIds[0])])
+        )
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue([]),
+            }),
+          }),
+        });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { assigneeId: randomUUID() },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject an invalid status', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/violations/${randomUUID()}`,
+        payload: { status: 'ignored' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('Violation notes', () => {
+    it('should list notes for a violation', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const violationId = randomUUID();
+      const note = {
+        id: randomUUID(),
+        violationId,
+        authorId: ownerUser.userId,
+        authorName: 'owner',
+        body: 'Checked with the user',
+        createdAt: new Date(),
+      };
+
+      mockDb.select
+        .mockReturnValueOnce(
+          createViolationExistsCheckMock([{ id: violationId, serverId: ownerUser.serverIds[0] }])
+        )
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            leftJoin: vi.fn().mockReturnValue({
+              where: vi.fn().mockReturnValue({
+                orderBy: vi.fn().mockResolvedValue([note]),
+              }),
+            }),
+          }),
+        });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/violations/${violationId}/notes`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].body).toBe('Checked with the user');
+    });
+
+    it('should hide notes on servers the user cannot access', async () => {
+      const viewerUser = createViewerUser();
+      app = await buildTestApp(viewerUser);
+
+      mockDb.select.mockReturnValueOnce(
+        createViolationExistsCheckMock([{ id: randomUUID(), serverId: randomUUID() }])
+      );
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/violations/${randomUUID()}/notes`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should add a note as the current user', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const violationId = randomUUID();
+      mockDb.select.mockReturnValueOnce(
+        createViolationExistsCheckMock([{ id: violationId, serverId: ownerUser.serverIds[0] }])
+      );
+      const valuesMock = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([
+          {
+            id: randomUUID(),
+            violationId,
+            authorId: ownerUser.userId,
+            body: 'Confirmed with the user',
+            createdAt: new Date(),
+          },
+        ]),
+      });
+      mockDb.insert.mockReturnValue({ values: valuesMock });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/violations/${violationId}/notes`,
+        payload: { body: '  Confirmed with the user  ' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(valuesMock).toHaveBeenCalledWith({
+        violationId,
+        authorId: ownerUser.userId,
+        body: 'Confirmed with the user',
+      });
+      expect(JSON.parse(response.body).authorName).toBe('owner');
+    });
+
+    it('should reject empty notes', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/violations/${randomUUID()}/notes`,
+        payload: { body: '   ' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject notes from non-owners', async () => {
+      const viewerUser = createViewerUser();
+      app = await buildTestApp(viewerUser);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/violations/${randomUUID()}/notes`,
+        payload: { body: 'Looks fine' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 404 when deleting a missing note', async () => {
+      const ownerUser = createOwnerUser();
+      app = await buildTestApp(ownerUser);
+
+      mockDb.select
+        .mockReturnValueOnce(
+          createViolationExistsCheckMock([{ id: randomUUID(), serverId: ownerUser.serverIds[0] }])
+        )
+        .mockReturnValueOnce(createNoteSelectMock([]));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/violations/${randomUUID()}/notes/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('should let admins delete their own notes', async () => {
+      const serverId = randomUUID();
+      const adminUser: AuthUser = { ...createViewerUser(), role: 'admin', serverIds: [serverId] };
+      app = await buildTestApp(adminUser);
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+
+      mockDb.select
+        .mockReturnValueOnce(createViolationExistsCheckMock([{ id: randomUUID(), serverId }]))
+        .mockReturnValueOnce(createNoteSelectMock([{ authorId: adminUser.userId }]));
+      mockDb.delete.mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/violations/${randomUUID()}/notes/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockDb.delete).toHaveBeenCalled();
+    });
+
+    it("should not let admins delete other users' notes", async () => {
+      const serverId = randomUUID();
+      app = await buildTestApp({ ...createViewerUser(), role: 'admin', serverIds: [serverId] });
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+
+      mockDb.select
+        .mockReturnValueOnce(createViolationExistsCheckMock([{ id: randomUUID(), serverId }]))
+        .mockReturnValueOnce(createNoteSelectMock([{ authorId: randomUUID() }]));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/violations/${randomUUID()}/notes/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not delete notes on servers the user cannot access', async () => {
+      const serverId = randomUUID();
+      app = await buildTestApp({ ...createViewerUser(), role: 'admin', serverIds: [serverId] });
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+
+      mockDb.select.mockReturnValueOnce(
+        createViolationExistsCheckMock([{ id: randomUUID(), serverId: randomUUID() }])
+      );
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/violations/${randomUUID()}/notes/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Authorization', () => {
     it('should allow owner to see all violations', async () => {
       const ownerUser = createOwnerUser();
@@ -765,5 +1403,98 @@ describe('Violation Routes', () => {
       expect(body.data).toHaveLength(1);
       expect(body.data[0].user.serverId).toBe(viewerServerId);
     });
+
+    it('should hide IP addresses and locations from viewers without view_locations', async () => {
+      const viewerServerId = randomUUID();
+      vi.mocked(getLocationServerIds).mockResolvedValueOnce([]);
+      app = await buildTestApp({
+        userId: randomUUID(),
+        username: 'viewer',
+        role: 'viewer',
+        serverIds: [viewerServerId],
+      });
+
+      const testViolation = {
+        ...createTestViolation({
+          serverId: viewerServerId,
+          ruleType: 'anonymous_network',
+          data: { ipAddress: '203.0.113.7', asn: 64500, asnOrg: 'VPN Co', categories: ['vpn'] },
+        }),
+        geoRegion: 'NY',
+        geoLat: 40.7,
+        geoLon: -74,
+        asn: 64500,
+        asnOrg: 'VPN Co',
+      };
+      mockDb.select.mockReturnValueOnce(createViolationSelectMock([testViolation]));
+      mockDb.execute.mockResolvedValueOnce({ rows: [{ count: 1 }] });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/violations',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [violation] = JSON.parse(response.body).data;
+      expect(violation.data).toEqual({ categories: ['vpn'] });
+      expect(violation.session).toMatchObject({
+        mediaTitle: 'Test Movie',
+        ipAddress: null,
+        geoCity: null,
+        geoRegion: null,
+        geoCountry: null,
+        geoLat: null,
+        geoLon: null,
+        asn: null,
+        asnOrg: null,
+      });
+    });
+
+    it('should hide composite condition locations without view_locations', async () => {
+      const viewerServerId = randomUUID();
+      vi.mocked(getLocationServerIds).mockResolvedValueOnce([]);
+      app = await buildTestApp({
+        userId: randomUUID(),
+        username: 'viewer',
+        role: 'viewer',
+        serverIds: [viewerServerId],
+      });
+
+      const violationId = randomUUID();
+      const testViolation = createTestViolation({
+        id: violationId,
+        serverId: viewerServerId,
+        ruleType: 'composite',
+        data: {
+          operator: 'and',
+          matchedConditions: [
+            {
+              path: '0',
+              type: 'device_velocity',
+              severity: 'warning',
+              data: { uniqueIpCount: 3, ips: ['10.0.0.1', '10.0.0.2', '10.0.0.3'] },
+            },
+          ],
+        },
+      });
+      mockDb.select.mockReturnValue(createSingleViolationSelectMock([testViolation]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/violations/${violationId}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.ipAddress).toBeNull();
+      expect(body.geoCity).toBeNull();
+      expect(body.geoCountry).toBeNull();
+      expect(body.data).toEqual({
+        operator: 'and',
+        matchedConditions: [
+          { path: '0', type: 'device_velocity', severity: 'warning', data: { uniqueIpCount: 3 } },
+        ],
+      });
+    });
   });
 });
@@ -0,0 +1,116 @@
+/**
+ * Audit log routes - owner only
+ *
+ * GET /audit - Configuration and moderation actions, newest first
+ * GET /audit/export - The same entries as a CSV or JSON download
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, desc, eq, gte, lte, sql, type SQL } from 'drizzle-orm';
+import {
+  AUDIT_LOG_CONFIG,
+  auditLogExportQuerySchema,
+  auditLogQuerySchema,
+  type AuditLogEntry,
+  type AuditLogExportQueryInput,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { auditLog } from '../db/schema.js';
+import { formatAuditCsv } from '../services/audit.js';
+
+type AuditLogFilters = Omit<AuditLogExportQueryInput, 'format'>;
+
+function buildConditions(filters: AuditLogFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+  if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+  if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+  if (filters.actorId) conditions.push(eq(auditLog.actorId, filters.actorId));
+  if (filters.serverId) conditions.push(eq(auditLog.serverId, filters.serverId));
+  if (filters.startDate) conditions.push(gte(auditLog.createdAt, filters.startDate));
+  if (filters.endDate) conditions.push(lte(auditLog.createdAt, filters.endDate));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export const auditRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /audit - List audit log entries with pagination and filters
+   */
+  app.get(
+    '/',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const query = auditLogQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.badRequest('Invalid query parameters');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can view the audit log');
+      }
+
+      const { page, pageSize, ...filters } = query.data;
+      const where = buildConditions(filters);
+
+      const data: AuditLogEntry[] = await db
+        .select()
+        .from(auditLog)
+        .where(where)
+        .orderBy(desc(auditLog.createdAt))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize);
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(auditLog)
+        .where(where);
+
+      const total = countResult[0]?.count ?? 0;
+
+      return {
+        data,
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      };
+    }
+  );
+
+  /**
+   * GET /audit/export - Download matching entries (up to EXPORT_LIMIT, newest first)
+   */
+  app.get(
+    '/export',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const query = auditLogExportQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.badRequest('Invalid query parameters');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can export the audit log');
+      }
+
+      const { format, ...filters } = query.data;
+
+      const entries: AuditLogEntry[] = await db
+        .select()
+        .from(auditLog)
+        .where(buildConditions(filters))
+        .orderBy(desc(auditLog.createdAt))
+        .limit(AUDIT_LOG_CONFIG.EXPORT_LIMIT);
+
+      const filename = `tracearr-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+      reply.header('Content-Disposition', `attachment; filename="${filename}"`);
+
+      if (format === 'json') {
+        return reply.type('application/json').send(JSON.stringify(entries, null, 2));
+      }
+      return reply.type('text/csv; charset=utf-8').send(formatAuditCsv(entries));
+    }
+  );
+};
@@ -41,5 +41,6 @@ export {
   generateTokens,
   generateRefreshToken,
   hashRefreshToken,
-  getAllServerIds,
+  getAccessibleServerIds,
 } from './utils.js';
+export { getAllServerIds } from '../../services/permissions.js';
@@ -295,6 +295,7 @@ export const plexRoutes: FastifyPluginAsync = async (app) => {
         email: plexEmail,
         thumbUrl: plexThumb,
         isServerAdmin: true, // They verified as admin
+        source: 'owner',
       });
 
       app.log.info({ userId: newUser.id, serverId, role }, 'New Plex user with server created');
@@ -12,11 +12,12 @@ import { JWT_CONFIG, canLogin, type AuthUser } from '@tracearr/shared';
 import {
   generateRefreshToken,
   hashRefreshToken,
-  getAllServerIds,
+  getAccessibleServerIds,
   REFRESH_TOKEN_PREFIX,
   REFRESH_TOKEN_TTL,
 } from './utils.js';
 import { getUserById } from '../../services/userService.js';
+import { getPermissionGrants } from '../../services/permissions.js';
 
 // Schema
 const refreshSchema = z.object({
@@ -56,9 +57,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       return reply.unauthorized('Account is not active');
     }
 
-    // Get fresh server IDs (in case servers were added/removed)
-    // TODO: Admins should get servers where they're isServerAdmin=true
-    const serverIds = user.role === 'owner' ? await getAllServerIds() : [];
+    // Get fresh server IDs (in case servers were added/removed or grants changed)
+    const serverIds = await getAccessibleServerIds(userId, user.role);
 
     const accessPayload: AuthUser = {
       userId,
@@ -113,9 +113,9 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       throw app.httpErrors.unauthorized('User no longer exists');
     }
 
-    // Get fresh server IDs
-    // TODO: Admins should get servers where they're isServerAdmin=true
-    const serverIds = user.role === 'owner' ? await getAllServerIds() : [];
+    // Get fresh server IDs and permissions (owners hold every permission)
+    const serverIds = await getAccessibleServerIds(user.id, user.role);
+    const permissions = user.role === 'owner' ? [] : await getPermissionGrants(user.id);
 
     return {
       userId: user.id,
@@ -125,6 +125,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       role: user.role,
       aggregateTrustScore: user.aggregateTrustScore,
       serverIds,
+      permissions,
       hasPassword: !!user.passwordHash,
       hasPlexLinked: !!user.plexAccountId,
     };
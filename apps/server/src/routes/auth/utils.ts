@@ -8,8 +8,7 @@
 import { createHash, randomBytes } from 'crypto';
 import type { FastifyInstance } from 'fastify';
 import { JWT_CONFIG, type AuthUser, type UserRole } from '@tracearr/shared';
-import { db } from '../../db/client.js';
-import { servers } from '../../db/schema.js';
+import { getAllServerIds, getPermittedServerIds } from '../../services/permissions.js';
 
 // Redis key prefixes
 export const REFRESH_TOKEN_PREFIX = 'tracearr:refresh:';
@@ -39,11 +38,10 @@ export function generateTempToken(): string {
 }
 
 /**
- * Get all server IDs for owner tokens
+ * Get the servers a user can access: all of them for owners, granted ones otherwise
  */
-export async function getAllServerIds(): Promise<string[]> {
-  const allServers = await db.select({ id: servers.id }).from(servers);
-  return allServers.map((s) => s.id);
+export async function getAccessibleServerIds(userId: string, role: UserRole): Promise<string[]> {
+  return role === 'owner' ? getAllServerIds() : getPermittedServerIds(userId);
 }
 
 /**
@@ -56,9 +54,7 @@ export async function generateTokens(
   username: string,
   role: UserRole
 ) {
-  // Owners get access to ALL servers
-  // TODO: Admins should get servers where they're isServerAdmin=true
-  const serverIds = role === 'owner' ? await getAllServerIds() : [];
+  const serverIds = await getAccessibleServerIds(userId, role);
 
   const accessPayload: AuthUser = {
     userId,
@@ -1,6 +1,9 @@
 /**
  * Notification Channel Routing routes - Controls which channels receive which events
  *
+ * Covers push, web toasts and email; Discord and webhooks are routed per destination
+ * (see routes/notificationDestinations.ts).
+ *
  * Web admin endpoints:
  * - GET /settings/notifications/routing - Get all routing configuration
  * - PATCH /settings/notifications/routing/:eventType - Update routing for specific event
@@ -18,10 +21,9 @@ const validEventTypes = notificationEventTypeEnum as readonly string[];
 
 // Update routing schema
 const updateRoutingSchema = z.object({
-  discordEnabled: z.boolean().optional(),
-  webhookEnabled: z.boolean().optional(),
   pushEnabled: z.boolean().optional(),
   webToastEnabled: z.boolean().optional(),
+  emailEnabled: z.boolean().optional(),
 });
 
 /**
@@ -33,10 +35,9 @@ function toApiResponse(
   return {
     id: row.id,
     eventType: row.eventType,
-    discordEnabled: row.discordEnabled,
-    webhookEnabled: row.webhookEnabled,
     pushEnabled: row.pushEnabled,
     webToastEnabled: row.webToastEnabled,
+    emailEnabled: row.emailEnabled,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   };
@@ -63,8 +64,6 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
     if (rows.length === 0) {
       const defaultRouting = notificationEventTypeEnum.map((eventType) => ({
         eventType,
-        discordEnabled: !['stream_started', 'stream_stopped', 'trust_score_changed'].includes(eventType),
-        webhookEnabled: !['stream_started', 'stream_stopped', 'trust_score_changed'].includes(eventType),
         pushEnabled: !['stream_started', 'stream_stopped', 'trust_score_changed'].includes(eventType),
         webToastEnabled: !['stream_started', 'stream_stopped', 'trust_score_changed'].includes(eventType),
       }));
@@ -123,10 +122,9 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
           .insert(notificationChannelRouting)
           .values({
             eventType: eventType as NotificationEventType,
-            discordEnabled: body.data.discordEnabled ?? true,
-            webhookEnabled: body.data.webhookEnabled ?? true,
             pushEnabled: body.data.pushEnabled ?? true,
             webToastEnabled: body.data.webToastEnabled ?? true,
+            emailEnabled: body.data.emailEnabled ?? false,
           })
           .returning();
 
@@ -143,18 +141,15 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
           updatedAt: new Date(),
         };
 
-        if (body.data.discordEnabled !== undefined) {
-          updateData.discordEnabled = body.data.discordEnabled;
-        }
-        if (body.data.webhookEnabled !== undefined) {
-          updateData.webhookEnabled = body.data.webhookEnabled;
-        }
         if (body.data.pushEnabled !== undefined) {
           updateData.pushEnabled = body.data.pushEnabled;
         }
         if (body.data.webToastEnabled !== undefined) {
           updateData.webToastEnabled = body.data.webToastEnabled;
         }
+        if (body.data.emailEnabled !== undefined) {
+          updateData.emailEnabled = body.data.emailEnabled;
+        }
 
         await db
           .update(notificationChannelRouting)
@@ -188,10 +183,9 @@ export const channelRoutingRoutes: FastifyPluginAsync = async (app) => {
  * Channel routing for a specific event type (internal use by notification services)
  */
 export interface ChannelRoutingConfig {
-  discordEnabled: boolean;
-  webhookEnabled: boolean;
   pushEnabled: boolean;
   webToastEnabled: boolean;
+  emailEnabled: boolean;
 }
 
 /**
@@ -202,10 +196,9 @@ export async function getChannelRouting(
 ): Promise<ChannelRoutingConfig> {
   const row = await db
     .select({
-      discordEnabled: notificationChannelRouting.discordEnabled,
-      webhookEnabled: notificationChannelRouting.webhookEnabled,
       pushEnabled: notificationChannelRouting.pushEnabled,
       webToastEnabled: notificationChannelRouting.webToastEnabled,
+      emailEnabled: notificationChannelRouting.emailEnabled,
     })
     .from(notificationChannelRouting)
     .where(eq(notificationChannelRouting.eventType, eventType))
@@ -217,10 +210,9 @@ export async function getChannelRouting(
     // Most events default to enabled, except stream started/stopped
     const isLowPriorityEvent = ['stream_started', 'stream_stopped', 'trust_score_changed'].includes(eventType);
     return {
-      discordEnabled: !isLowPriorityEvent,
-      webhookEnabled: !isLowPriorityEvent,
       pushEnabled: !isLowPriorityEvent,
       webToastEnabled: !isLowPriorityEvent,
+      emailEnabled: false,
     };
   }
 
@@ -234,10 +226,9 @@ export async function getAllChannelRouting(): Promise<Map<NotificationEventType,
   const rows = await db
     .select({
       eventType: notificationChannelRouting.eventType,
-      discordEnabled: notificationChannelRouting.discordEnabled,
-      webhookEnabled: notificationChannelRouting.webhookEnabled,
       pushEnabled: notificationChannelRouting.pushEnabled,
       webToastEnabled: notificationChannelRouting.webToastEnabled,
+      emailEnabled: notificationChannelRouting.emailEnabled,
     })
     .from(notificationChannelRouting);
 
@@ -245,10 +236,9 @@ export async function getAllChannelRouting(): Promise<Map<NotificationEventType,
 
   for (const row of rows) {
     routingMap.set(row.eventType, {
-      discordEnabled: row.discordEnabled,
-      webhookEnabled: row.webhookEnabled,
       pushEnabled: row.pushEnabled,
       webToastEnabled: row.webToastEnabled,
+      emailEnabled: row.emailEnabled,
     });
   }
 
@@ -20,8 +20,12 @@ import {
   mobileSessions,
   notificationPreferences,
   notificationChannelRouting,
+  notificationDestinations,
+  notificationTemplates,
+  emailSettings,
   terminationLogs,
 } from '../db/schema.js';
+import { recordAudit } from '../services/audit.js';
 
 export const debugRoutes: FastifyPluginAsync = async (app) => {
   // All debug routes require owner
@@ -83,11 +87,19 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/sessions - Clear all sessions
    */
-  app.delete('/sessions', async () => {
+  app.delete('/sessions', async (request) => {
     // Delete violations first (FK constraint)
     const violationsDeleted = await db.delete(violations).returning({ id: violations.id });
     const sessionsDeleted = await db.delete(sessions).returning({ id: sessions.id });
 
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'debug.delete',
+      entityName: 'sessions',
+      before: { sessions: sessionsDeleted.length, violations: violationsDeleted.length },
+    });
+
     return {
       success: true,
       deleted: {
@@ -100,8 +112,15 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/violations - Clear all violations
    */
-  app.delete('/violations', async () => {
+  app.delete('/violations', async (request) => {
     const deleted = await db.delete(violations).returning({ id: violations.id });
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'debug.delete',
+      entityName: 'violations',
+      before: { violations: deleted.length },
+    });
     return {
       success: true,
       deleted: deleted.length,
@@ -111,7 +130,7 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/users - Clear all non-owner users
    */
-  app.delete('/users', async () => {
+  app.delete('/users', async (request) => {
     // Delete sessions and violations for non-owner users first
     const nonOwnerUsers = await db
       .select({ id: users.id })
@@ -139,6 +158,14 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
       .where(sql`is_owner = false`)
       .returning({ id: users.id });
 
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'debug.delete',
+      entityName: 'users',
+      before: { users: deleted.length },
+    });
+
     return {
       success: true,
       deleted: deleted.length,
@@ -148,8 +175,15 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/servers - Clear all servers (cascades to users, sessions, violations)
    */
-  app.delete('/servers', async () => {
+  app.delete('/servers', async (request) => {
     const deleted = await db.delete(servers).returning({ id: servers.id });
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'debug.delete',
+      entityName: 'servers',
+      before: { servers: deleted.length },
+    });
     return {
       success: true,
       deleted: deleted.length,
@@ -159,10 +193,17 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
   /**
    * DELETE /debug/rules - Clear all rules
    */
-  app.delete('/rules', async () => {
+  app.delete('/rules', async (request) => {
     // Delete violations first (FK constraint)
     await db.delete(violations);
     const deleted = await db.delete(rules).returning({ id: rules.id });
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'debug.delete',
+      entityName: 'rules',
+      before: { rules: deleted.length },
+    });
     return {
       success: true,
       deleted: deleted.length,
@@ -171,8 +212,17 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * POST /debug/reset - Full factory reset (deletes everything including owner)
+   *
+   * The audit log is kept, so the reset is recorded first while its actor still exists.
    */
-  app.post('/reset', async () => {
+  app.post('/reset', async (request) => {
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'debug.reset',
+      entityName: 'Factory reset',
+    });
+
     // Delete everything in order respecting FK constraints
     // Start with tables that have FK dependencies on other tables
     await db.delete(violations);
@@ -180,20 +230,21 @@ export const debugRoutes: FastifyPluginAsync = async (app) => {
     await db.delete(sessions);
     await db.delete(rules);
     await db.delete(notificationChannelRouting);
+    await db.delete(notificationDestinations); // Routes cascade
+    await db.delete(notificationTemplates);
+    await db.delete(emailSettings);
     await db.delete(notificationPreferences);
     await db.delete(mobileSessions);
     await db.delete(mobileTokens);
     await db.delete(serverUsers);
     await db.delete(users);
-    await db.delete(servers);
+    await db.delete(servers); // Outages cascade
 
     // Reset settings to defaults
     await db
       .update(settings)
       .set({
         allowGuestAccess: false,
-        discordWebhookUrl: null,
-        customWebhookUrl: null,
         pollerEnabled: true,
         pollerIntervalMs: 15000,
         tautulliUrl: null,
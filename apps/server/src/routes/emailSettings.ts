@@ -0,0 +1,188 @@
+/**
+ * Email Settings routes - SMTP server, recipients and digest schedule
+ *
+ * Email is a notification channel next to push and web toasts (see channelRouting.ts),
+ * and also sends the daily or weekly digest.
+ *
+ * Web admin endpoints:
+ * - GET /settings/notifications/email - Get email settings
+ * - PUT /settings/notifications/email - Update email settings
+ * - POST /settings/notifications/email/test - Send a test email
+ * - POST /settings/notifications/email/digest - Send a digest now
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { eq } from 'drizzle-orm';
+import {
+  sendEmailDigestSchema,
+  updateEmailSettingsSchema,
+  type EmailSettings,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { emailSettings } from '../db/schema.js';
+import {
+  EMAIL_SETTINGS_ID,
+  getEmailSettings,
+  isEmailConfigured,
+  sendTestEmail,
+  type EmailSettingsRow,
+} from '../services/email.js';
+import { sendEmailDigest } from '../services/emailDigest.js';
+import { scheduleEmailDigests } from '../jobs/emailDigestQueue.js';
+import { recordAudit } from '../services/audit.js';
+
+const OWNER_ONLY_MESSAGE = 'Only server owners can manage email settings';
+
+// Shown in place of a saved password; sending it back leaves the password unchanged
+const MASKED_PASSWORD = '********';
+
+// Returned until the settings are first saved
+const DEFAULT_EMAIL_SETTINGS: EmailSettings = {
+  enabled: false,
+  smtpHost: null,
+  smtpPort: 587,
+  smtpSecure: false,
+  smtpUsername: null,
+  smtpPassword: null,
+  fromAddress: null,
+  recipients: [],
+  digestFrequency: 'off',
+  digestHour: 8,
+  digestWeekday: 1,
+  digestTimezone: 'UTC',
+  updatedAt: null,
+};
+
+/**
+ * Transform DB row to API response (password masked)
+ */
+function toApiResponse(row: EmailSettingsRow): EmailSettings {
+  const { id: _id, ...settings } = row;
+  return {
+    ...settings,
+    smtpPassword: row.smtpPassword ? MASKED_PASSWORD : null,
+  };
+}
+
+export const emailSettingsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /settings/notifications/email - Get email settings
+   */
+  app.get('/email', { preHandler: [app.authenticate] }, async (request, reply) => {
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const row = await getEmailSettings();
+    return row ? toApiResponse(row) : DEFAULT_EMAIL_SETTINGS;
+  });
+
+  /**
+   * PUT /settings/notifications/email - Update email settings
+   *
+   * Saving reschedules the digest.
+   */
+  app.put('/email', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const body = updateEmailSettingsSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+    }
+
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const existing = await getEmailSettings();
+
+    const { smtpPassword, ...changes } = body.data;
+    const updateData: Partial<EmailSettingsRow> = { ...changes, updatedAt: new Date() };
+    if (smtpPassword !== undefined && smtpPassword !== MASKED_PASSWORD) {
+      updateData.smtpPassword = smtpPassword;
+    }
+
+    const merged = { ...DEFAULT_EMAIL_SETTINGS, ...existing, ...updateData };
+    if (merged.enabled && !isEmailConfigured(merged)) {
+      return reply.badRequest('Add an SMTP server, a sender and at least one recipient');
+    }
+
+    const saved = existing
+      ? await db
+          .update(emailSettings)
+          .set(updateData)
+          .where(eq(emailSettings.id, EMAIL_SETTINGS_ID))
+          .returning()
+      : await db
+          .insert(emailSettings)
+          .values({ ...updateData, id: EMAIL_SETTINGS_ID })
+          .returning();
+
+    const row = saved[0];
+    if (!row) {
+      return reply.internalServerError('Failed to save email settings');
+    }
+
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'settings.email_update',
+      entityName: 'Email',
+      before: existing ?? undefined,
+      after: updateData,
+    });
+
+    try {
+      await scheduleEmailDigests();
+    } catch (err) {
+      app.log.error({ err }, 'Failed to reschedule email digests');
+    }
+
+    return toApiResponse(row);
+  });
+
+  /**
+   * POST /settings/notifications/email/test - Send a test email
+   */
+  app.post('/email/test', { preHandler: [app.authenticate] }, async (request, reply) => {
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const result = await sendTestEmail(await getEmailSettings());
+    if (!result.success) {
+      return reply.code(502).send({
+        success: false,
+        error: result.error ?? 'Email test failed',
+      });
+    }
+
+    return { success: true };
+  });
+
+  /**
+   * POST /settings/notifications/email/digest - Send the digest for the period ending now
+   */
+  app.post('/email/digest', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const body = sendEmailDigestSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest('Invalid digest period');
+    }
+
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    try {
+      const sent = await sendEmailDigest(body.data.period);
+      if (!sent) {
+        return reply.badRequest('Email is not enabled and configured');
+      }
+    } catch (error) {
+      return reply.code(502).send({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return { success: true };
+  });
+};
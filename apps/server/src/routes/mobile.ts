@@ -27,6 +27,7 @@ import { REDIS_KEYS, CACHE_TTL, sessionIdParamSchema, terminateSessionBodySchema
 import { db } from '../db/client.js';
 import { mobileTokens, mobileSessions, servers, users, settings, sessions } from '../db/schema.js';
 import { terminateSession } from '../services/termination.js';
+import { recordAudit } from '../services/audit.js';
 import { hasServerAccess } from '../utils/serverFiltering.js';
 
 // Rate limits for mobile auth endpoints
@@ -201,6 +202,13 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
       maxDevices: MAX_PAIRED_DEVICES,
     };
 
+    await recordAudit({
+      actor: authUser,
+      ipAddress: request.ip,
+      action: 'mobile.enable',
+      after: { mobileEnabled: true },
+    });
+
     app.log.info({ userId: authUser.userId }, 'Mobile access enabled');
 
     return config;
@@ -318,6 +326,13 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
       return reply.internalServerError('Failed to generate token. Please try again.');
     }
 
+    await recordAudit({
+      actor: authUser,
+      ipAddress: request.ip,
+      action: 'mobile.pair_token',
+      after: { expiresAt },
+    });
+
     app.log.info({ userId: authUser.userId }, 'Mobile pairing token generated');
 
     const response: MobilePairTokenResponse = {
@@ -354,6 +369,13 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
     // Delete all pending tokens
     await db.delete(mobileTokens);
 
+    await recordAudit({
+      actor: authUser,
+      ipAddress: request.ip,
+      action: 'mobile.disable',
+      before: { mobileEnabled: true, sessions: sessionsRows.length },
+    });
+
     app.log.info({ userId: authUser.userId }, 'Mobile access disabled');
 
     return { success: true };
@@ -376,6 +398,14 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
     }
     await db.delete(mobileSessions);
 
+    await recordAudit({
+      actor: authUser,
+      ipAddress: request.ip,
+      action: 'mobile.revoke',
+      entityName: 'All devices',
+      before: { sessions: sessionsRows.length },
+    });
+
     app.log.info({ userId: authUser.userId, count: sessionsRows.length }, 'All mobile sessions revoked');
 
     return { success: true, revokedCount: sessionsRows.length };
@@ -418,6 +448,15 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
     // Delete session from DB (notification_preferences cascade-deleted via FK)
     await db.delete(mobileSessions).where(eq(mobileSessions.id, id));
 
+    await recordAudit({
+      actor: authUser,
+      ipAddress: request.ip,
+      action: 'mobile.revoke',
+      entityId: id,
+      entityName: session.deviceName,
+      before: { deviceName: session.deviceName, platform: session.platform },
+    });
+
     app.log.info(
       { userId: authUser.userId, sessionId: id, deviceName: session.deviceName },
       'Mobile session revoked'
@@ -654,6 +693,15 @@ export const mobileRoutes: FastifyPluginAsync = async (app) => {
       JSON.stringify({ userId: result.owner.id, deviceId })
     );
 
+    await recordAudit({
+      actor: { userId: result.owner.id, username: result.owner.username },
+      ipAddress: clientIp,
+      action: 'mobile.pair',
+      entityId: deviceId,
+      entityName: deviceName,
+      after: { deviceName, platform },
+    });
+
     app.log.info({ deviceName, platform, deviceId }, 'Mobile device paired');
 
     const response: MobilePairResponse = {
@@ -0,0 +1,382 @@
+/**
+ * Notification Destination routes - Named Discord and webhook targets and their routing
+ *
+ * Each destination has its own URL, credentials and payload format. Its routes pick
+ * the events it receives, optionally only from one server or from a violation severity up.
+ *
+ * Web admin endpoints:
+ * - GET /settings/notifications/destinations - List destinations with their routes
+ * - POST /settings/notifications/destinations - Add a destination
+ * - PATCH /settings/notifications/destinations/:id - Update a destination
+ * - DELETE /settings/notifications/destinations/:id - Remove a destination
+ * - POST /settings/notifications/destinations/:id/test - Send a test notification
+ * - POST /settings/notifications/destinations/:id/routes - Route an event to a destination
+ * - DELETE /settings/notifications/destinations/:id/routes/:routeId - Remove a route
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import {
+  createNotificationDestinationSchema,
+  createNotificationRouteSchema,
+  getNotificationDestinationError,
+  notificationDestinationIdParamSchema,
+  notificationRouteIdParamSchema,
+  updateNotificationDestinationSchema,
+  type NotificationDestination,
+  type NotificationDestinationRoute,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { notificationDestinations, notificationRoutes, servers } from '../db/schema.js';
+import { sendTestWebhook } from '../services/notify.js';
+import { recordAudit } from '../services/audit.js';
+
+type DestinationRow = typeof notificationDestinations.$inferSelect;
+
+const OWNER_ONLY_MESSAGE = 'Only server owners can manage notification destinations';
+
+// Shown in place of a saved auth token; sending it back leaves the token unchanged
+const MASKED_TOKEN = '********';
+
+/**
+ * Transform DB rows to API response (auth token masked)
+ */
+function toApiResponse(
+  row: DestinationRow,
+  routes: NotificationDestinationRoute[]
+): NotificationDestination {
+  return {
+    ...row,
+    authToken: row.authToken ? MASKED_TOKEN : null,
+    routes,
+  };
+}
+
+/**
+ * Destination state recorded in the audit log (the URL and token are redacted there)
+ */
+function toAuditSnapshot(row: DestinationRow): Record<string, unknown> {
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...snapshot } = row;
+  return snapshot;
+}
+
+async function getRoutes(destinationIds: string[]): Promise<NotificationDestinationRoute[]> {
+  if (destinationIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(notificationRoutes)
+    .where(inArray(notificationRoutes.destinationId, destinationIds))
+    .orderBy(notificationRoutes.createdAt);
+}
+
+async function getDestination(id: string): Promise<DestinationRow | undefined> {
+  const rows = await db
+    .select()
+    .from(notificationDestinations)
+    .where(eq(notificationDestinations.id, id))
+    .limit(1);
+
+  return rows[0];
+}
+
+export const notificationDestinationsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /settings/notifications/destinations - List destinations with their routes
+   */
+  app.get('/destinations', { preHandler: [app.authenticate] }, async (request, reply) => {
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const rows = await db
+      .select()
+      .from(notificationDestinations)
+      .orderBy(notificationDestinations.createdAt);
+    const routes = await getRoutes(rows.map((row) => row.id));
+
+    return rows.map((row) =>
+      toApiResponse(
+        row,
+        routes.filter((route) => route.destinationId === row.id)
+      )
+    );
+  });
+
+  /**
+   * POST /settings/notifications/destinations - Add a destination
+   *
+   * New destinations receive nothing until events are routed to them.
+   */
+  app.post('/destinations', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const body = createNotificationDestinationSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+    }
+
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const inserted = await db.insert(notificationDestinations).values(body.data).returning();
+    const row = inserted[0];
+    if (!row) {
+      return reply.internalServerError('Failed to create notification destination');
+    }
+
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'settings.destination_create',
+      entityId: row.id,
+      entityName: row.name,
+      after: toAuditSnapshot(row),
+    });
+
+    return reply.status(201).send(toApiResponse(row, []));
+  });
+
+  /**
+   * PATCH /settings/notifications/destinations/:id - Update a destination
+   */
+  app.patch('/destinations/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const params = notificationDestinationIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid destination ID');
+    }
+
+    const body = updateNotificationDestinationSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+    }
+
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const { id } = params.data;
+    const existing = await getDestination(id);
+    if (!existing) {
+      return reply.notFound('Notification destination not found');
+    }
+
+    const { authToken, ...changes } = body.data;
+    const updateData: Partial<DestinationRow> = { ...changes, updatedAt: new Date() };
+    if (authToken !== undefined && authToken !== MASKED_TOKEN) {
+      updateData.authToken = authToken;
+    }
+
+    const merged = { ...existing, ...updateData };
+    const configError = getNotificationDestinationError(merged);
+    if (configError) {
+      return reply.badRequest(configError);
+    }
+
+    const updated = await db
+      .update(notificationDestinations)
+      .set(updateData)
+      .where(eq(notificationDestinations.id, id))
+      .returning();
+
+    const row = updated[0];
+    if (!row) {
+      return reply.notFound('Notification destination not found');
+    }
+
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'settings.destination_update',
+      entityId: row.id,
+      entityName: row.name,
+      before: toAuditSnapshot(existing),
+      after: toAuditSnapshot(row),
+    });
+
+    return toApiResponse(row, await getRoutes([id]));
+  });
+
+  /**
+   * DELETE /settings/notifications/destinations/:id - Remove a destination and its routes
+   */
+  app.delete('/destinations/:id', { preHandler: [app.authenticate] }, async (request, reply) => {
+    const params = notificationDestinationIdParamSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.badRequest('Invalid destination ID');
+    }
+
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const deleted = await db
+      .delete(notificationDestinations)
+      .where(eq(notificationDestinations.id, params.data.id))
+      .returning();
+
+    const row = deleted[0];
+    if (!row) {
+      return reply.notFound('Notification destination not found');
+    }
+
+    await recordAudit({
+      actor: request.user,
+      ipAddress: request.ip,
+      action: 'settings.destination_delete',
+      entityId: row.id,
+      entityName: row.name,
+      before: toAuditSnapshot(row),
+    });
+
+    return { success: true };
+  });
+
+  /**
+   * POST /settings/notifications/destinations/:id/test - Send a test notification
+   */
+  app.post(
+    '/destinations/:id/test',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = notificationDestinationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid destination ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden(OWNER_ONLY_MESSAGE);
+      }
+
+      const destination = await getDestination(params.data.id);
+      if (!destination) {
+        return reply.notFound('Notification destination not found');
+      }
+
+      const result = await sendTestWebhook(
+        destination.webhookUrl,
+        destination.type === 'discord' ? 'discord' : 'custom',
+        destination.webhookFormat,
+        destination.ntfyTopic,
+        destination.authToken,
+        destination.chatId
+      );
+
+      if (!result.success) {
+        return reply.code(502).send({
+          success: false,
+          error: result.error ?? 'Webhook test failed',
+        });
+      }
+
+      return { success: true };
+    }
+  );
+
+  /**
+   * POST /settings/notifications/destinations/:id/routes - Route an event to a destination
+   *
+   * Adding a route that already exists returns the existing one.
+   */
+  app.post(
+    '/destinations/:id/routes',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = notificationDestinationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid destination ID');
+      }
+
+      const body = createNotificationRouteSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden(OWNER_ONLY_MESSAGE);
+      }
+
+      const { id } = params.data;
+      const { eventType, serverId } = body.data;
+      // Severity only applies to violations
+      const minSeverity = eventType === 'violation_detected' ? body.data.minSeverity : null;
+
+      const destination = await getDestination(id);
+      if (!destination) {
+        return reply.notFound('Notification destination not found');
+      }
+
+      if (serverId) {
+        const server = await db
+          .select({ id: servers.id })
+          .from(servers)
+          .where(eq(servers.id, serverId))
+          .limit(1);
+        if (server.length === 0) {
+          return reply.badRequest('Server not found');
+        }
+      }
+
+      const existing = await db
+        .select()
+        .from(notificationRoutes)
+        .where(
+          and(
+            eq(notificationRoutes.destinationId, id),
+            eq(notificationRoutes.eventType, eventType),
+            serverId
+              ? eq(notificationRoutes.serverId, serverId)
+              : isNull(notificationRoutes.serverId),
+            minSeverity
+              ? eq(notificationRoutes.minSeverity, minSeverity)
+              : isNull(notificationRoutes.minSeverity)
+          )
+        )
+        .limit(1);
+
+      if (existing[0]) {
+        return existing[0];
+      }
+
+      const inserted = await db
+        .insert(notificationRoutes)
+        .values({ destinationId: id, eventType, serverId, minSeverity })
+        .returning();
+
+      return reply.status(201).send(inserted[0]);
+    }
+  );
+
+  /**
+   * DELETE /settings/notifications/destinations/:id/routes/:routeId - Remove a route
+   */
+  app.delete(
+    '/destinations/:id/routes/:routeId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = notificationRouteIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid route ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden(OWNER_ONLY_MESSAGE);
+      }
+
+      const deleted = await db
+        .delete(notificationRoutes)
+        .where(
+          and(
+            eq(notificationRoutes.id, params.data.routeId),
+            eq(notificationRoutes.destinationId, params.data.id)
+          )
+        )
+        .returning({ id: notificationRoutes.id });
+
+      if (!deleted[0]) {
+        return reply.notFound('Notification route not found');
+      }
+
+      return { success: true };
+    }
+  );
+};
@@ -0,0 +1,205 @@
+/**
+ * Notification Template routes - Custom titles and bodies per event
+ *
+ * A saved template replaces the built-in text on every channel (Discord, webhooks,
+ * ntfy, Apprise and push). Events without one keep the built-in messages.
+ *
+ * Web admin endpoints:
+ * - GET /settings/notifications/templates - List saved templates
+ * - PUT /settings/notifications/templates/:eventType - Save an event's template
+ * - DELETE /settings/notifications/templates/:eventType - Go back to the built-in text
+ * - POST /settings/notifications/templates/preview - Render a template against sample data
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { eq } from 'drizzle-orm';
+import {
+  notificationTemplateEventParamSchema,
+  notificationTemplatePreviewSchema,
+  notificationTemplateSchema,
+  type NotificationEventType,
+  type NotificationTemplate,
+  type NotificationTemplatePreview,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { notificationTemplates } from '../db/schema.js';
+import {
+  findUnknownPlaceholders,
+  getSampleTemplateVariables,
+  renderTemplate,
+} from '../services/notificationTemplates.js';
+import { recordAudit } from '../services/audit.js';
+
+type TemplateRow = typeof notificationTemplates.$inferSelect;
+
+const OWNER_ONLY_MESSAGE = 'Only server owners can manage notification templates';
+
+function toApiResponse(row: TemplateRow): NotificationTemplate {
+  return {
+    eventType: row.eventType,
+    title: row.title,
+    body: row.body,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Error message for placeholders the event doesn't provide, or null if all are known
+ */
+function getPlaceholderError(
+  eventType: NotificationEventType,
+  texts: string[]
+): string | null {
+  const unknown = findUnknownPlaceholders(eventType, texts);
+  if (unknown.length === 0) return null;
+  return `Unknown placeholder: ${unknown.map((path) => `{{${path}}}`).join(', ')}`;
+}
+
+export const notificationTemplatesRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /settings/notifications/templates - List saved templates
+   */
+  app.get('/templates', { preHandler: [app.authenticate] }, async (request, reply) => {
+    if (request.user.role !== 'owner') {
+      return reply.forbidden(OWNER_ONLY_MESSAGE);
+    }
+
+    const rows = await db.select().from(notificationTemplates);
+    return rows.map(toApiResponse);
+  });
+
+  /**
+   * POST /settings/notifications/templates/preview - Render a template against sample data
+   */
+  app.post(
+    '/templates/preview',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const body = notificationTemplatePreviewSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden(OWNER_ONLY_MESSAGE);
+      }
+
+      const { eventType, title, body: text } = body.data;
+      const placeholderError = getPlaceholderError(eventType, [title, text]);
+      if (placeholderError) {
+        return reply.badRequest(placeholderError);
+      }
+
+      const variables = getSampleTemplateVariables(eventType);
+      const preview: NotificationTemplatePreview = {
+        title: renderTemplate(title, variables),
+        body: renderTemplate(text, variables),
+      };
+      return preview;
+    }
+  );
+
+  /**
+   * PUT /settings/notifications/templates/:eventType - Save an event's template
+   */
+  app.put(
+    '/templates/:eventType',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = notificationTemplateEventParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid event type');
+      }
+
+      const body = notificationTemplateSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden(OWNER_ONLY_MESSAGE);
+      }
+
+      const { eventType } = params.data;
+      const { title, body: text } = body.data;
+      const placeholderError = getPlaceholderError(eventType, [title, text]);
+      if (placeholderError) {
+        return reply.badRequest(placeholderError);
+      }
+
+      const existing = await db
+        .select()
+        .from(notificationTemplates)
+        .where(eq(notificationTemplates.eventType, eventType))
+        .limit(1);
+      const before = existing[0];
+
+      const saved = before
+        ? await db
+            .update(notificationTemplates)
+            .set({ title, body: text, updatedAt: new Date() })
+            .where(eq(notificationTemplates.id, before.id))
+            .returning()
+        : await db
+            .insert(notificationTemplates)
+            .values({ eventType, title, body: text })
+            .returning();
+
+      const row = saved[0];
+      if (!row) {
+        return reply.internalServerError('Failed to save notification template');
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'settings.template_update',
+        entityId: row.id,
+        entityName: eventType,
+        before: before ? { title: before.title, body: before.body } : null,
+        after: { title: row.title, body: row.body },
+      });
+
+      return toApiResponse(row);
+    }
+  );
+
+  /**
+   * DELETE /settings/notifications/templates/:eventType - Go back to the built-in text
+   */
+  app.delete(
+    '/templates/:eventType',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = notificationTemplateEventParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid event type');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden(OWNER_ONLY_MESSAGE);
+      }
+
+      const deleted = await db
+        .delete(notificationTemplates)
+        .where(eq(notificationTemplates.eventType, params.data.eventType))
+        .returning();
+
+      const row = deleted[0];
+      if (!row) {
+        return reply.notFound('No template saved for this event');
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'settings.template_reset',
+        entityId: row.id,
+        entityName: row.eventType,
+        before: { title: row.title, body: row.body },
+      });
+
+      return { success: true };
+    }
+  );
+};
@@ -8,10 +8,97 @@ import {
   createRuleSchema,
   updateRuleSchema,
   ruleIdParamSchema,
+  ruleBacktestSchema,
+  ruleParamsSchemaByType,
+  PERMISSION_DISPLAY_NAMES,
+  type AuthUser,
+  type Permission,
+  type RuleAction,
+  type RuleActionType,
+  type RuleParams,
+  type RuleType,
+  type RuleScope,
+  type RuleSchedule,
 } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { rules, serverUsers, violations, servers } from '../db/schema.js';
 import { hasServerAccess } from '../utils/serverFiltering.js';
+import { backtestRule } from '../services/ruleBacktest.js';
+import { recordAudit } from '../services/audit.js';
+import { getAllServerIds, getPermittedServerIds } from '../services/permissions.js';
+
+const SCOPE_FORBIDDEN_MESSAGE = 'Rules you manage must be limited to your servers';
+
+// Rule state recorded in the audit log
+const RULE_AUDIT_COLUMNS = {
+  name: rules.name,
+  type: rules.type,
+  params: rules.params,
+  actions: rules.actions,
+  scope: rules.scope,
+  schedule: rules.schedule,
+  crossServer: rules.crossServer,
+  isActive: rules.isActive,
+};
+
+/**
+ * Non-owners can only manage rules limited to servers they hold manage_rules on,
+ * since an unscoped rule applies to every server
+ */
+function canManageScope(authUser: AuthUser, scope: RuleScope | null): boolean {
+  if (authUser.role === 'owner') return true;
+  const serverIds = scope?.serverIds ?? [];
+  return serverIds.length > 0 && serverIds.every((id) => hasServerAccess(authUser, id));
+}
+
+// Actions that need a permission beyond manage_rules, as rules run them automatically
+const ACTION_PERMISSIONS: Partial<Record<RuleActionType, Permission>> = {
+  terminate_stream: 'terminate_streams',
+  terminate_newest: 'terminate_streams',
+  disable_user: 'manage_accounts',
+  remove_share: 'manage_accounts',
+};
+
+/**
+ * Find a permission the rule's actions need that a non-owner lacks on any server
+ * in the rule's scope (an unscoped rule applies to every server)
+ * Returns null when every action is allowed.
+ */
+async function findMissingActionPermission(
+  authUser: AuthUser,
+  actions: RuleAction[],
+  scope: RuleScope | null
+): Promise<Permission | null> {
+  if (authUser.role === 'owner') return null;
+
+  const required = new Set(actions.flatMap((action) => ACTION_PERMISSIONS[action.type] ?? []));
+  if (required.size === 0) return null;
+
+  const scopeServerIds = scope?.serverIds.length ? scope.serverIds : await getAllServerIds();
+  for (const permission of required) {
+    const permittedServerIds = await getPermittedServerIds(authUser.userId, permission);
+    if (!scopeServerIds.every((id) => permittedServerIds.includes(id))) {
+      return permission;
+    }
+  }
+  return null;
+}
+
+function actionPermissionMessage(permission: Permission): string {
+  return `${PERMISSION_DISPLAY_NAMES[permission]} permission required on every server of the rule`;
+}
+
+/**
+ * Validate params with the schema of the rule's type
+ * Returns the params with defaults applied, or null when they are invalid.
+ */
+function parseRuleParams(
+  type: RuleType,
+  params: Record<string, unknown>
+): Record<string, unknown> | null {
+  const parsed = ruleParamsSchemaByType[type].safeParse(params);
+  return parsed.success ? parsed.data : null;
+}
 
 export const ruleRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -34,10 +121,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
           name: rules.name,
           type: rules.type,
           params: rules.params,
+          actions: rules.actions,
+          scope: rules.scope,
+          schedule: rules.schedule,
           serverUserId: rules.serverUserId,
           username: serverUsers.username,
           serverId: serverUsers.serverId,
           serverName: servers.name,
+          crossServer: rules.crossServer,
           isActive: rules.isActive,
           createdAt: rules.createdAt,
           updatedAt: rules.updatedAt,
@@ -50,7 +141,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       // Filter rules by server access
       // Global rules (serverUserId = null) are visible to all
       // User-specific rules require server access
+      // Server-scoped rules require access to at least one of their servers
       const filteredRules = ruleList.filter((rule) => {
+        if (
+          rule.scope.serverIds.length > 0 &&
+          !rule.scope.serverIds.some((serverId) => hasServerAccess(authUser, serverId))
+        ) {
+          return false;
+        }
         // Global rule - visible to everyone
         if (!rule.serverUserId) return true;
         // User-specific rule - check server access
@@ -67,7 +165,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
    */
   app.post(
     '/',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('manage_rules')] },
     async (request, reply) => {
       const body = createRuleSchema.safeParse(request.body);
       if (!body.success) {
@@ -76,12 +174,22 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
 
       const authUser = request.user;
 
-      // Only owners can create rules
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can create rules');
+      const { name, type, params, actions, scope, schedule, serverUserId, crossServer, isActive } =
+        body.data;
+
+      if (!canManageScope(authUser, scope)) {
+        return reply.forbidden(SCOPE_FORBIDDEN_MESSAGE);
       }
 
-      const { name, type, params, serverUserId, isActive } = body.data;
+      const missingPermission = await findMissingActionPermission(authUser, actions, scope);
+      if (missingPermission) {
+        return reply.forbidden(actionPermissionMessage(missingPermission));
+      }
+
+      const ruleParams = parseRuleParams(type, params);
+      if (!ruleParams) {
+        return reply.badRequest('Invalid rule params');
+      }
 
       // Verify serverUserId exists and user has access if provided
       if (serverUserId) {
@@ -111,8 +219,12 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         .values({
           name,
           type,
-          params,
+          params: ruleParams,
+          actions,
+          scope,
+          schedule,
           serverUserId,
+          crossServer,
           isActive,
         })
         .returning();
@@ -122,6 +234,15 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         return reply.internalServerError('Failed to create rule');
       }
 
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'rule.create',
+        entityId: rule.id,
+        entityName: rule.name,
+        after: rule,
+      });
+
       return reply.status(201).send(rule);
     }
   );
@@ -147,10 +268,14 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
           name: rules.name,
           type: rules.type,
           params: rules.params,
+          actions: rules.actions,
+          scope: rules.scope,
+          schedule: rules.schedule,
           serverUserId: rules.serverUserId,
           username: serverUsers.username,
           serverId: serverUsers.serverId,
           serverName: servers.name,
+          crossServer: rules.crossServer,
           isActive: rules.isActive,
           createdAt: rules.createdAt,
           updatedAt: rules.updatedAt,
@@ -189,7 +314,7 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
    */
   app.patch(
     '/:id',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('manage_rules')] },
     async (request, reply) => {
       const params = ruleIdParamSchema.safeParse(request.params);
       if (!params.success) {
@@ -204,14 +329,10 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
       const { id } = params.data;
       const authUser = request.user;
 
-      // Only owners can update rules
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can update rules');
-      }
-
       // Check rule exists and get server info
       const ruleRows = await db
         .select({
+          ...RULE_AUDIT_COLUMNS,
           id: rules.id,
           serverUserId: rules.serverUserId,
           serverId: serverUsers.serverId,
@@ -231,10 +352,41 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         return reply.forbidden('You do not have access to this rule');
       }
 
+      if (
+        !canManageScope(authUser, existingRule.scope) ||
+        (body.data.scope !== undefined && !canManageScope(authUser, body.data.scope))
+      ) {
+        return reply.forbidden(SCOPE_FORBIDDEN_MESSAGE);
+      }
+
+      // Changing the actions or widening the scope can hand actions to more servers
+      if (body.data.actions !== undefined || body.data.scope !== undefined) {
+        const missingPermission = await findMissingActionPermission(
+          authUser,
+          body.data.actions ?? existingRule.actions,
+          body.data.scope ?? existingRule.scope
+        );
+        if (missingPermission) {
+          return reply.forbidden(actionPermissionMessage(missingPermission));
+        }
+      }
+
+      const ruleParams =
+        body.data.params !== undefined
+          ? parseRuleParams(existingRule.type, body.data.params)
+          : undefined;
+      if (ruleParams === null) {
+        return reply.badRequest('Invalid rule params');
+      }
+
       // Build update object
       const updateData: Partial<{
         name: string;
         params: Record<string, unknown>;
+        actions: RuleAction[];
+        scope: RuleScope;
+        schedule: RuleSchedule | null;
+        crossServer: boolean;
         isActive: boolean;
         updatedAt: Date;
       }> = {
@@ -245,8 +397,24 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         updateData.name = body.data.name;
       }
 
-      if (body.data.params !== undefined) {
-        updateData.params = body.data.params;
+      if (ruleParams !== undefined) {
+        updateData.params = ruleParams;
+      }
+
+      if (body.data.actions !== undefined) {
+        updateData.actions = body.data.actions;
+      }
+
+      if (body.data.scope !== undefined) {
+        updateData.scope = body.data.scope;
+      }
+
+      if (body.data.schedule !== undefined) {
+        updateData.schedule = body.data.schedule;
+      }
+
+      if (body.data.crossServer !== undefined) {
+        updateData.crossServer = body.data.crossServer;
       }
 
       if (body.data.isActive !== undefined) {
@@ -265,15 +433,29 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         return reply.internalServerError('Failed to update rule');
       }
 
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'rule.update',
+        entityId: id,
+        entityName: updatedRule.name,
+        serverId: existingRule.serverId,
+        before: existingRule,
+        after: updateData,
+      });
+
       return updatedRule;
     }
   );
 
   /**
-   * DELETE /rules/:id - Delete a rule
+   * POST /rules/:id/backtest - Replay recent sessions through a rule
+   *
+   * Lists what the rule would have flagged over the last N days without recording
+   * violations. Optional params are tried in place of the saved ones.
    */
-  app.delete(
-    '/:id',
+  app.post(
+    '/:id/backtest',
     { preHandler: [app.authenticate] },
     async (request, reply) => {
       const params = ruleIdParamSchema.safeParse(request.params);
@@ -281,17 +463,62 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         return reply.badRequest('Invalid rule ID');
       }
 
+      const body = ruleBacktestSchema.safeParse(request.body ?? {});
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
       const { id } = params.data;
       const authUser = request.user;
 
-      // Only owners can delete rules
+      // Backtests replay every server's history
       if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can delete rules');
+        return reply.forbidden('Only server owners can backtest rules');
+      }
+
+      const ruleRows = await db.select().from(rules).where(eq(rules.id, id)).limit(1);
+
+      const rule = ruleRows[0];
+      if (!rule) {
+        return reply.notFound('Rule not found');
+      }
+
+      const ruleParams =
+        body.data.params !== undefined ? parseRuleParams(rule.type, body.data.params) : undefined;
+      if (ruleParams === null) {
+        return reply.badRequest('Invalid rule params');
+      }
+
+      return backtestRule(
+        {
+          ...rule,
+          params: (ruleParams ?? rule.params) as unknown as RuleParams,
+          crossServer: body.data.crossServer ?? rule.crossServer,
+        },
+        { days: body.data.days, timezone: body.data.timezone ?? 'UTC' }
+      );
+    }
+  );
+
+  /**
+   * DELETE /rules/:id - Delete a rule
+   */
+  app.delete(
+    '/:id',
+    { preHandler: [app.authenticate, app.requirePermission('manage_rules')] },
+    async (request, reply) => {
+      const params = ruleIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid rule ID');
       }
 
+      const { id } = params.data;
+      const authUser = request.user;
+
       // Check rule exists and get server info
       const ruleRows = await db
         .select({
+          ...RULE_AUDIT_COLUMNS,
           id: rules.id,
           serverUserId: rules.serverUserId,
           serverId: serverUsers.serverId,
@@ -311,9 +538,24 @@ export const ruleRoutes: FastifyPluginAsync = async (app) => {
         return reply.forbidden('You do not have access to this rule');
       }
 
+      if (!canManageScope(authUser, existingRule.scope)) {
+        return reply.forbidden(SCOPE_FORBIDDEN_MESSAGE);
+      }
+
       // Delete rule (cascade will handle violations)
       await db.delete(rules).where(eq(rules.id, id));
 
+      const { id: _id, serverId, ...deletedRule } = existingRule;
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'rule.delete',
+        entityId: id,
+        entityName: existingRule.name,
+        serverId,
+        before: deletedRule,
+      });
+
       return { success: true };
     }
   );
@@ -10,6 +10,7 @@ import { servers } from '../db/schema.js';
 // Token encryption removed - tokens now stored in plain text (DB is localhost-only)
 import { PlexClient, JellyfinClient, EmbyClient } from '../services/mediaServer/index.js';
 import { syncServer } from '../services/sync.js';
+import { recordAudit } from '../services/audit.js';
 
 export const serverRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -127,6 +128,16 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
         return reply.internalServerError('Failed to create server');
       }
 
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'server.create',
+        entityId: server.id,
+        entityName: server.name,
+        serverId: server.id,
+        after: { name: server.name, type: server.type, url: server.url },
+      });
+
       // Auto-sync users and libraries in background
       syncServer(server.id, { syncUsers: true, syncLibraries: true })
         .then((result) => {
@@ -175,6 +186,16 @@ export const serverRoutes: FastifyPluginAsync = async (app) => {
       // Delete server (cascade will handle related records)
       await db.delete(servers).where(eq(servers.id, id));
 
+      const deleted = server[0]!;
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'server.delete',
+        entityId: id,
+        entityName: deleted.name,
+        before: { name: deleted.name, type: deleted.type, url: deleted.url },
+      });
+
       return { success: true };
     }
   );
@@ -21,7 +21,13 @@ import {
 } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { sessions, serverUsers, servers, users } from '../db/schema.js';
-import { filterByServerAccess, hasServerAccess } from '../utils/serverFiltering.js';
+import {
+  canViewLocation,
+  filterByServerAccess,
+  hasServerAccess,
+  redactSessionLocation,
+} from '../utils/serverFiltering.js';
+import { getLocationServerIds } from '../services/permissions.js';
 import { terminateSession } from '../services/termination.js';
 import { getCacheService } from '../services/cache.js';
 
@@ -38,7 +44,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get(
     '/',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('view_history')] },
     async (request, reply) => {
       const query = sessionQuerySchema.safeParse(request.query);
       if (!query.success) {
@@ -170,6 +176,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
           s.geo_country,
           s.geo_lat,
           s.geo_lon,
+          s.asn,
+          s.asn_org,
           s.player_name,
           s.device_id,
           s.product,
@@ -222,6 +230,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         geo_country: string | null;
         geo_lat: number | null;
         geo_lon: number | null;
+        asn: string | number | null;
+        asn_org: string | null;
         player_name: string | null;
         device_id: string | null;
         product: string | null;
@@ -271,6 +281,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         geoCountry: row.geo_country,
         geoLat: row.geo_lat,
         geoLon: row.geo_lon,
+        asn: row.asn !== null ? Number(row.asn) : null,
+        asnOrg: row.asn_org,
         playerName: row.player_name,
         deviceId: row.device_id,
         product: row.product,
@@ -283,6 +295,9 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         bitrate: row.bitrate,
       }));
 
+      // IP addresses and locations need view_locations on the session's server
+      const locationServerIds = await getLocationServerIds(authUser);
+
       // Get total count of unique plays
       const countResult = await db.execute(sql`
         SELECT COUNT(DISTINCT COALESCE(s.reference_id, s.id))::int as count
@@ -292,7 +307,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       const total = (countResult.rows[0] as { count: number })?.count ?? 0;
 
       return {
-        data: sessionData,
+        data: sessionData.map((session) => redactSessionLocation(session, locationServerIds)),
         page,
         pageSize,
         total,
@@ -314,7 +329,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get(
     '/history',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('view_history')] },
     async (request, reply) => {
       const query = historyQuerySchema.safeParse(request.query);
       if (!query.success) {
@@ -339,6 +354,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         geoCountry,
         geoCity,
         geoRegion,
+        asn,
+        asnOrg,
         isTranscode,
         watched,
         excludeShortSessions,
@@ -348,6 +365,21 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
 
       const authUser = request.user;
 
+      // Filtering by IP address or location needs view_locations on every server searched
+      const locationServerIds = await getLocationServerIds(authUser);
+      const locationScope =
+        locationServerIds === null
+          ? sql`TRUE`
+          : locationServerIds.length > 0
+            ? sql`s.server_id IN (${sql.join(locationServerIds.map((id) => sql`${id}`), sql`, `)})`
+            : sql`FALSE`;
+      if (ipAddress || geoCountry || geoCity || geoRegion) {
+        const searchedServerIds = serverId ? [serverId] : authUser.serverIds;
+        if (!searchedServerIds.every((id) => canViewLocation(locationServerIds, id))) {
+          return reply.forbidden('View Locations permission required to filter by location');
+        }
+      }
+
       // Build WHERE clause conditions for the CTE
       const conditions: ReturnType<typeof sql>[] = [];
 
@@ -395,9 +427,11 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
           sql`(
             s.media_title ILIKE ${searchPattern}
             OR s.grandparent_title ILIKE ${searchPattern}
-            OR s.geo_city ILIKE ${searchPattern}
-            OR s.geo_country ILIKE ${searchPattern}
-            OR s.ip_address ILIKE ${searchPattern}
+            OR (${locationScope} AND (
+              s.geo_city ILIKE ${searchPattern}
+              OR s.geo_country ILIKE ${searchPattern}
+              OR s.ip_address ILIKE ${searchPattern}
+            ))
             OR s.platform ILIKE ${searchPattern}
             OR s.product ILIKE ${searchPattern}
             OR EXISTS (
@@ -421,6 +455,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       if (geoCountry) conditions.push(sql`s.geo_country = ${geoCountry}`);
       if (geoCity) conditions.push(sql`s.geo_city = ${geoCity}`);
       if (geoRegion) conditions.push(sql`s.geo_region = ${geoRegion}`);
+      if (asn) conditions.push(sql`s.asn = ${asn}`);
+      if (asnOrg) conditions.push(sql`s.asn_org ILIKE ${`%${asnOrg}%`}`);
 
       // Stream quality
       if (isTranscode !== undefined) conditions.push(sql`s.is_transcode = ${isTranscode}`);
@@ -523,6 +559,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
           s.geo_country,
           s.geo_lat,
           s.geo_lon,
+          s.asn,
+          s.asn_org,
           s.player_name,
           s.device_id,
           s.product,
@@ -584,6 +622,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         geo_country: string | null;
         geo_lat: number | null;
         geo_lon: number | null;
+        asn: string | number | null;
+        asn_org: string | null;
         player_name: string | null;
         device_id: string | null;
         product: string | null;
@@ -633,6 +673,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         geoCountry: row.geo_country,
         geoLat: row.geo_lat,
         geoLon: row.geo_lon,
+        asn: row.asn !== null ? Number(row.asn) : null,
+        asnOrg: row.asn_org,
         playerName: row.player_name,
         deviceId: row.device_id,
         product: row.product,
@@ -670,7 +712,9 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         : undefined;
 
       const response: HistorySessionResponse = {
-        data: sessionData as HistorySessionResponse['data'],
+        data: sessionData.map((session) =>
+          redactSessionLocation(session, locationServerIds)
+        ) as HistorySessionResponse['data'],
         aggregates: {
           totalWatchTimeMs: Number(aggregates.total_watch_time_ms),
           playCount: aggregates.play_count,
@@ -690,11 +734,11 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
    * GET /sessions/filter-options - Get available filter values for dropdowns
    *
    * Returns distinct values for platforms, products, devices, countries, cities,
-   * and users to populate filter dropdowns on the History page.
+   * networks, and users to populate filter dropdowns on the History page.
    */
   app.get(
     '/filter-options',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('view_history')] },
     async (request, reply) => {
       const query = serverIdFilterSchema.safeParse(request.query);
       const serverId = query.success ? query.data.serverId : undefined;
@@ -715,6 +759,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
             devices: [],
             countries: [],
             cities: [],
+            networks: [],
             users: [],
           };
           return emptyResponse;
@@ -726,6 +771,11 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         }
       }
 
+      const locationServerIds = await getLocationServerIds(authUser);
+      const showLocations = (serverId ? [serverId] : authUser.serverIds).every((id) =>
+        canViewLocation(locationServerIds, id)
+      );
+
       // Only look at sessions from the last 90 days for efficiency
       serverConditions.push(sql`s.started_at >= NOW() - INTERVAL '90 days'`);
 
@@ -734,7 +784,15 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         : sql``;
 
       // Query all filter options in parallel
-      const [platformsResult, productsResult, devicesResult, countriesResult, citiesResult, usersResult] =
+      const [
+        platformsResult,
+        productsResult,
+        devicesResult,
+        countriesResult,
+        citiesResult,
+        networksResult,
+        usersResult,
+      ] =
         await Promise.all([
           // Platforms
           db.execute(sql`
@@ -786,6 +844,19 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
             ORDER BY count DESC
             LIMIT 100
           `),
+          // Networks
+          db.execute(sql`
+            SELECT
+              asn::int as asn,
+              MAX(asn_org) as asn_org,
+              COUNT(DISTINCT COALESCE(reference_id, id))::int as count
+            FROM sessions s
+            ${whereClause}
+            AND asn IS NOT NULL
+            GROUP BY asn
+            ORDER BY count DESC
+            LIMIT 100
+          `),
           // Users with their identity info
           db.execute(sql`
             SELECT DISTINCT
@@ -806,8 +877,22 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         platforms: platformsResult.rows as unknown as HistoryFilterOptions['platforms'],
         products: productsResult.rows as unknown as HistoryFilterOptions['products'],
         devices: devicesResult.rows as unknown as HistoryFilterOptions['devices'],
-        countries: countriesResult.rows as unknown as HistoryFilterOptions['countries'],
-        cities: citiesResult.rows as unknown as HistoryFilterOptions['cities'],
+        // Locations can only be filtered on with view_locations on every server listed
+        countries: showLocations
+          ? (countriesResult.rows as unknown as HistoryFilterOptions['countries'])
+          : [],
+        cities: showLocations
+          ? (citiesResult.rows as unknown as HistoryFilterOptions['cities'])
+          : [],
+        networks: (networksResult.rows as unknown as {
+          asn: number;
+          asn_org: string | null;
+          count: number;
+        }[]).map((row) => ({
+          asn: row.asn,
+          asnOrg: row.asn_org,
+          count: row.count,
+        })),
         users: (usersResult.rows as unknown as {
           id: string;
           username: string;
@@ -868,7 +953,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get(
     '/:id',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('view_history')] },
     async (request, reply) => {
       const params = sessionIdParamSchema.safeParse(request.params);
       if (!params.success) {
@@ -886,7 +971,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
           // Verify access (owners can see all servers)
           if (hasServerAccess(authUser, activeSession.serverId)) {
             // Return ActiveSession directly - both types now use nested user/server
-            return activeSession;
+            return redactSessionLocation(activeSession, await getLocationServerIds(authUser));
           }
         } catch {
           // Fall through to DB
@@ -928,6 +1013,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
           geoCountry: sessions.geoCountry,
           geoLat: sessions.geoLat,
           geoLon: sessions.geoLon,
+          asn: sessions.asn,
+          asnOrg: sessions.asnOrg,
           playerName: sessions.playerName,
           deviceId: sessions.deviceId,
           product: sessions.product,
@@ -957,7 +1044,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       }
 
       // Transform to nested format
-      return {
+      const session = {
         id: row.id,
         serverId: row.serverId,
         serverUserId: row.serverUserId,
@@ -996,6 +1083,8 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         geoCountry: row.geoCountry,
         geoLat: row.geoLat,
         geoLon: row.geoLon,
+        asn: row.asn,
+        asnOrg: row.asnOrg,
         playerName: row.playerName,
         deviceId: row.deviceId,
         product: row.product,
@@ -1007,6 +1096,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
         audioDecision: row.audioDecision,
         bitrate: row.bitrate,
       };
+      return redactSessionLocation(session, await getLocationServerIds(authUser));
     }
   );
 
@@ -1018,7 +1108,7 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
    */
   app.post(
     '/:id/terminate',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('terminate_streams')] },
     async (request, reply) => {
       const params = sessionIdParamSchema.safeParse(request.params);
       if (!params.success) {
@@ -1034,11 +1124,6 @@ export const sessionRoutes: FastifyPluginAsync = async (app) => {
       const { reason } = body.data;
       const authUser = request.user;
 
-      // Only admins and owners can terminate sessions
-      if (authUser.role !== 'owner' && authUser.role !== 'admin') {
-        return reply.forbidden('Only administrators can terminate sessions');
-      }
-
       // Verify the session exists and user has access to its server
       const session = await db
         .select({
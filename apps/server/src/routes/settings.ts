@@ -4,10 +4,16 @@
 
 import type { FastifyPluginAsync } from 'fastify';
 import { eq } from 'drizzle-orm';
-import { updateSettingsSchema, type Settings } from '@tracearr/shared';
+import {
+  updateSettingsSchema,
+  DEFAULT_TRUST_MODEL,
+  PROBATION_DEFAULTS,
+  type Settings,
+  type TrustModel,
+} from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { settings } from '../db/schema.js';
-import { sendTestWebhook } from '../services/notify.js';
+import { recordAudit } from '../services/audit.js';
 
 // Default settings row ID (singleton pattern)
 const SETTINGS_ID = 1;
@@ -15,22 +21,24 @@ const SETTINGS_ID = 1;
 export const settingsRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /settings - Get application settings
+   *
+   * Settings apply to every server, so admins need manage_settings on all of them.
    */
   app.get(
     '/',
-    { preHandler: [app.authenticate] },
+    {
+      preHandler: [
+        app.authenticate,
+        app.requirePermission('manage_settings', { allServers: true }),
+      ],
+    },
     async (request, reply) => {
-      const authUser = request.user;
-
-      // Only owners can view settings
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can view settings');
-      }
-
       // Get or create settings
       // First try to get settings - if primaryAuthMethod column doesn't exist, this will fail
       let settingsRow;
       let primaryAuthMethod: 'jellyfin' | 'local' = 'local';
+      let trustModel: TrustModel = DEFAULT_TRUST_MODEL;
+      let probationDays: number = PROBATION_DEFAULTS.DAYS;
 
       try {
         // Try full select including primaryAuthMethod
@@ -45,6 +53,12 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         if (row && 'primaryAuthMethod' in row && row.primaryAuthMethod) {
           primaryAuthMethod = row.primaryAuthMethod;
         }
+        if (row && 'trustModel' in row) {
+          trustModel = row.trustModel;
+        }
+        if (row && 'probationDays' in row) {
+          probationDays = row.probationDays;
+        }
       } catch {
         // Column doesn't exist yet - select without primaryAuthMethod
         // We need to explicitly select each column
@@ -53,11 +67,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
             id: settings.id,
             allowGuestAccess: settings.allowGuestAccess,
             unitSystem: settings.unitSystem,
-            discordWebhookUrl: settings.discordWebhookUrl,
-            customWebhookUrl: settings.customWebhookUrl,
-            webhookFormat: settings.webhookFormat,
-            ntfyTopic: settings.ntfyTopic,
-            ntfyAuthToken: settings.ntfyAuthToken,
             pollerEnabled: settings.pollerEnabled,
             pollerIntervalMs: settings.pollerIntervalMs,
             tautulliUrl: settings.tautulliUrl,
@@ -108,11 +117,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
       const result: Settings = {
         allowGuestAccess: row.allowGuestAccess,
         unitSystem: row.unitSystem,
-        discordWebhookUrl: row.discordWebhookUrl,
-        customWebhookUrl: row.customWebhookUrl,
-        webhookFormat: row.webhookFormat,
-        ntfyTopic: row.ntfyTopic,
-        ntfyAuthToken: row.ntfyAuthToken ? '********' : null, // Mask auth token
         pollerEnabled: row.pollerEnabled,
         pollerIntervalMs: row.pollerIntervalMs,
         tautulliUrl: row.tautulliUrl,
@@ -122,6 +126,8 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         trustProxy: row.trustProxy,
         mobileEnabled: row.mobileEnabled,
         primaryAuthMethod,
+        trustModel,
+        probationDays,
       };
 
       return result;
@@ -133,29 +139,22 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
    */
   app.patch(
     '/',
-    { preHandler: [app.authenticate] },
+    {
+      preHandler: [
+        app.authenticate,
+        app.requirePermission('manage_settings', { allServers: true }),
+      ],
+    },
     async (request, reply) => {
       const body = updateSettingsSchema.safeParse(request.body);
       if (!body.success) {
         return reply.badRequest('Invalid request body');
       }
 
-      const authUser = request.user;
-
-      // Only owners can update settings
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can update settings');
-      }
-
       // Build update object
       const updateData: Partial<{
         allowGuestAccess: boolean;
         unitSystem: 'metric' | 'imperial';
-        discordWebhookUrl: string | null;
-        customWebhookUrl: string | null;
-        webhookFormat: 'json' | 'ntfy' | 'apprise' | null;
-        ntfyTopic: string | null;
-        ntfyAuthToken: string | null;
         pollerEnabled: boolean;
         pollerIntervalMs: number;
         tautulliUrl: string | null;
@@ -164,6 +163,8 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         basePath: string;
         trustProxy: boolean;
         primaryAuthMethod: 'jellyfin' | 'local';
+        trustModel: TrustModel;
+        probationDays: number;
         updatedAt: Date;
       }> = {
         updatedAt: new Date(),
@@ -177,26 +178,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         updateData.unitSystem = body.data.unitSystem;
       }
 
-      if (body.data.discordWebhookUrl !== undefined) {
-        updateData.discordWebhookUrl = body.data.discordWebhookUrl;
-      }
-
-      if (body.data.customWebhookUrl !== undefined) {
-        updateData.customWebhookUrl = body.data.customWebhookUrl;
-      }
-
-      if (body.data.webhookFormat !== undefined) {
-        updateData.webhookFormat = body.data.webhookFormat;
-      }
-
-      if (body.data.ntfyTopic !== undefined) {
-        updateData.ntfyTopic = body.data.ntfyTopic;
-      }
-
-      if (body.data.ntfyAuthToken !== undefined) {
-        updateData.ntfyAuthToken = body.data.ntfyAuthToken;
-      }
-
       if (body.data.pollerEnabled !== undefined) {
         updateData.pollerEnabled = body.data.pollerEnabled;
       }
@@ -237,6 +218,14 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         updateData.primaryAuthMethod = body.data.primaryAuthMethod;
       }
 
+      if (body.data.trustModel !== undefined) {
+        updateData.trustModel = body.data.trustModel;
+      }
+
+      if (body.data.probationDays !== undefined) {
+        updateData.probationDays = body.data.probationDays;
+      }
+
       // Ensure settings row exists
       const existing = await db
         .select()
@@ -250,11 +239,6 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         await db.insert(settings).values({
           id: SETTINGS_ID,
           allowGuestAccess: updateData.allowGuestAccess ?? false,
-          discordWebhookUrl: updateData.discordWebhookUrl ?? null,
-          customWebhookUrl: updateData.customWebhookUrl ?? null,
-          webhookFormat: updateData.webhookFormat ?? null,
-          ntfyTopic: updateData.ntfyTopic ?? null,
-          ntfyAuthToken: updateData.ntfyAuthToken ?? null,
           pollerEnabled: updateData.pollerEnabled ?? true,
           pollerIntervalMs: updateData.pollerIntervalMs ?? 15000,
           tautulliUrl: updateData.tautulliUrl ?? null,
@@ -263,6 +247,8 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
           basePath: updateData.basePath ?? '',
           trustProxy: updateData.trustProxy ?? false,
           primaryAuthMethod: updateData.primaryAuthMethod ?? 'local',
+          trustModel: updateData.trustModel ?? DEFAULT_TRUST_MODEL,
+          probationDays: updateData.probationDays ?? PROBATION_DEFAULTS.DAYS,
         });
       } else {
         // Update existing
@@ -284,20 +270,26 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         return reply.internalServerError('Failed to update settings');
       }
 
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'settings.update',
+        entityId: String(SETTINGS_ID),
+        before: existing[0] ?? null,
+        after: updateData,
+      });
+
       // Handle case where primaryAuthMethod column might not exist yet (before migration)
       let primaryAuthMethod: 'jellyfin' | 'local' = 'local';
       if ('primaryAuthMethod' in row && row.primaryAuthMethod) {
         primaryAuthMethod = row.primaryAuthMethod;
       }
+      const trustModel = 'trustModel' in row ? row.trustModel : DEFAULT_TRUST_MODEL;
+      const probationDays = 'probationDays' in row ? row.probationDays : PROBATION_DEFAULTS.DAYS;
 
       const result: Settings = {
         allowGuestAccess: row.allowGuestAccess,
         unitSystem: row.unitSystem,
-        discordWebhookUrl: row.discordWebhookUrl,
-        customWebhookUrl: row.customWebhookUrl,
-        webhookFormat: row.webhookFormat,
-        ntfyTopic: row.ntfyTopic,
-        ntfyAuthToken: row.ntfyAuthToken ? '********' : null, // Mask auth token
         pollerEnabled: row.pollerEnabled,
         pollerIntervalMs: row.pollerIntervalMs,
         tautulliUrl: row.tautulliUrl,
@@ -307,79 +299,13 @@ export const settingsRoutes: FastifyPluginAsync = async (app) => {
         trustProxy: row.trustProxy,
         mobileEnabled: row.mobileEnabled,
         primaryAuthMethod,
+        trustModel,
+        probationDays,
       };
 
       return result;
     }
   );
-
-  /**
-   * POST /settings/test-webhook - Send a test notification to verify webhook configuration
-   */
-  app.post<{
-    Body: {
-      type: 'discord' | 'custom';
-      url?: string;
-      format?: 'json' | 'ntfy' | 'apprise';
-      ntfyTopic?: string;
-      ntfyAuthToken?: string;
-    };
-  }>(
-    '/test-webhook',
-    { preHandler: [app.authenticate] },
-    async (request, reply) => {
-      const authUser = request.user;
-
-      // Only owners can test webhooks
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can test webhooks');
-      }
-
-      const { type, url, format, ntfyTopic, ntfyAuthToken } = request.body;
-
-      if (!type) {
-        return reply.badRequest('Missing webhook type');
-      }
-
-      // Get current settings to find the URL if not provided
-      const settingsRow = await db
-        .select()
-        .from(settings)
-        .where(eq(settings.id, SETTINGS_ID))
-        .limit(1);
-
-      const currentSettings = settingsRow[0];
-
-      let webhookUrl: string | null = null;
-      let webhookFormat: 'json' | 'ntfy' | 'apprise' = 'json';
-      let topic: string | null = null;
-      let authToken: string | null = null;
-
-      if (type === 'discord') {
-        webhookUrl = url ?? currentSettings?.discordWebhookUrl ?? null;
-      } else {
-        webhookUrl = url ?? currentSettings?.customWebhookUrl ?? null;
-        webhookFormat = format ?? currentSettings?.webhookFormat ?? 'json';
-        topic = ntfyTopic ?? currentSettings?.ntfyTopic ?? null;
-        authToken = ntfyAuthToken ?? currentSettings?.ntfyAuthToken ?? null;
-      }
-
-      if (!webhookUrl) {
-        return reply.badRequest(`No ${type} webhook URL configured`);
-      }
-
-      const result = await sendTestWebhook(webhookUrl, type, webhookFormat, topic, authToken);
-
-      if (!result.success) {
-        return reply.code(502).send({
-          success: false,
-          error: result.error ?? 'Webhook test failed',
-        });
-      }
-
-      return { success: true };
-    }
-  );
 };
 
 /**
@@ -439,60 +365,29 @@ export async function getNetworkSettings(): Promise<{
 }
 
 /**
- * Notification settings for internal use by NotificationDispatcher
+ * Get the trust score model from database (for internal use by violations and maintenance)
  */
-export interface NotificationSettings {
-  discordWebhookUrl: string | null;
-  customWebhookUrl: string | null;
-  webhookFormat: 'json' | 'ntfy' | 'apprise' | null;
-  ntfyTopic: string | null;
-  ntfyAuthToken: string | null;
-  webhookSecret: string | null;
-  mobileEnabled: boolean;
-  unitSystem: 'metric' | 'imperial';
+export async function getTrustModel(): Promise<TrustModel> {
+  const row = await db
+    .select({ trustModel: settings.trustModel })
+    .from(settings)
+    .where(eq(settings.id, SETTINGS_ID))
+    .limit(1);
+
+  // Return defaults if settings don't exist yet
+  return row[0]?.trustModel ?? DEFAULT_TRUST_MODEL;
 }
 
 /**
- * Get notification settings from database (for internal use by notification dispatcher)
+ * Get how many days new server accounts are on probation (for internal use by sync)
  */
-export async function getNotificationSettings(): Promise<NotificationSettings> {
+export async function getProbationDays(): Promise<number> {
   const row = await db
-    .select({
-      discordWebhookUrl: settings.discordWebhookUrl,
-      customWebhookUrl: settings.customWebhookUrl,
-      webhookFormat: settings.webhookFormat,
-      ntfyTopic: settings.ntfyTopic,
-      ntfyAuthToken: settings.ntfyAuthToken,
-      mobileEnabled: settings.mobileEnabled,
-      unitSystem: settings.unitSystem,
-    })
+    .select({ probationDays: settings.probationDays })
     .from(settings)
     .where(eq(settings.id, SETTINGS_ID))
     .limit(1);
 
-  const settingsRow = row[0];
-  if (!settingsRow) {
-    // Return defaults if settings don't exist yet
-    return {
-      discordWebhookUrl: null,
-      customWebhookUrl: null,
-      webhookFormat: null,
-      ntfyTopic: null,
-      ntfyAuthToken: null,
-      webhookSecret: null,
-      mobileEnabled: false,
-      unitSystem: 'metric',
-    };
-  }
-
-  return {
-    discordWebhookUrl: settingsRow.discordWebhookUrl,
-    customWebhookUrl: settingsRow.customWebhookUrl,
-    webhookFormat: settingsRow.webhookFormat,
-    ntfyTopic: settingsRow.ntfyTopic,
-    ntfyAuthToken: settingsRow.ntfyAuthToken,
-    webhookSecret: null, // TODO: Add webhookSecret column to settings table in Phase 4
-    mobileEnabled: settingsRow.mobileEnabled,
-    unitSystem: settingsRow.unitSystem,
-  };
+  // Return defaults if settings don't exist yet
+  return row[0]?.probationDays ?? PROBATION_DEFAULTS.DAYS;
 }
@@ -17,6 +17,7 @@ interface LocationFilters {
   users: { id: string; username: string; identityName: string | null }[];
   servers: { id: string; name: string }[];
   mediaTypes: ('movie' | 'episode' | 'track')[];
+  networks: { asn: number; asnOrg: string | null }[];
 }
 
 export const locationsRoutes: FastifyPluginAsync = async (app) => {
@@ -29,17 +30,18 @@ export const locationsRoutes: FastifyPluginAsync = async (app) => {
    * - serverUserId: Filter to specific user
    * - serverId: Filter to specific server
    * - mediaType: Filter by movie/episode/track
+   * - asn: Filter to a specific network (autonomous system number)
    */
   app.get(
     '/locations',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('view_locations')] },
     async (request, reply) => {
       const query = locationStatsQuerySchema.safeParse(request.query);
       if (!query.success) {
         return reply.badRequest('Invalid query parameters');
       }
 
-      const { period, startDate, endDate, serverUserId, serverId, mediaType } = query.data;
+      const { period, startDate, endDate, serverUserId, serverId, mediaType, asn } = query.data;
       const dateRange = resolveDateRange(period, startDate, endDate);
       const authUser = request.user;
 
@@ -73,6 +75,9 @@ export const locationsRoutes: FastifyPluginAsync = async (app) => {
       if (mediaType) {
         conditions.push(sql`s.media_type = ${mediaType}`);
       }
+      if (asn) {
+        conditions.push(sql`s.asn = ${asn}`);
+      }
 
       const whereClause = sql`WHERE ${sql.join(conditions, sql` AND `)}`;
 
@@ -95,24 +100,34 @@ export const locationsRoutes: FastifyPluginAsync = async (app) => {
         baseConditions.push(sql`s.server_id = ANY(${baseServerIdArray})`);
       }
 
-      // Users filter: apply server + mediaType filters (not user filter)
+      // Users filter: apply server + mediaType + network filters (not user filter)
       const userFilterConditions = [...baseConditions];
       if (serverId) userFilterConditions.push(sql`s.server_id = ${serverId}`);
       if (mediaType) userFilterConditions.push(sql`s.media_type = ${mediaType}`);
+      if (asn) userFilterConditions.push(sql`s.asn = ${asn}`);
       const userFilterWhereClause = sql`WHERE ${sql.join(userFilterConditions, sql` AND `)}`;
 
-      // Servers filter: apply user + mediaType filters (not server filter)
+      // Servers filter: apply user + mediaType + network filters (not server filter)
       const serverFilterConditions = [...baseConditions];
       if (serverUserId) serverFilterConditions.push(sql`s.server_user_id = ${serverUserId}`);
       if (mediaType) serverFilterConditions.push(sql`s.media_type = ${mediaType}`);
+      if (asn) serverFilterConditions.push(sql`s.asn = ${asn}`);
       const serverFilterWhereClause = sql`WHERE ${sql.join(serverFilterConditions, sql` AND `)}`;
 
-      // MediaType filter: apply user + server filters (not mediaType filter)
+      // MediaType filter: apply user + server + network filters (not mediaType filter)
       const mediaFilterConditions = [...baseConditions];
       if (serverUserId) mediaFilterConditions.push(sql`s.server_user_id = ${serverUserId}`);
       if (serverId) mediaFilterConditions.push(sql`s.server_id = ${serverId}`);
+      if (asn) mediaFilterConditions.push(sql`s.asn = ${asn}`);
       const mediaFilterWhereClause = sql`WHERE ${sql.join(mediaFilterConditions, sql` AND `)}`;
 
+      // Network filter: apply user + server + mediaType filters (not network filter)
+      const networkFilterConditions = [...baseConditions];
+      if (serverUserId) networkFilterConditions.push(sql`s.server_user_id = ${serverUserId}`);
+      if (serverId) networkFilterConditions.push(sql`s.server_id = ${serverId}`);
+      if (mediaType) networkFilterConditions.push(sql`s.media_type = ${mediaType}`);
+      const networkFilterWhereClause = sql`WHERE ${sql.join(networkFilterConditions, sql` AND `)}`;
+
       // Cascading filters are always fetched fresh (no caching since they depend on current selections)
       let availableFilters: LocationFilters | null = null;
 
@@ -164,6 +179,13 @@ export const locationsRoutes: FastifyPluginAsync = async (app) => {
           FROM sessions s
           ${mediaFilterWhereClause} AND s.media_type IS NOT NULL
           GROUP BY s.media_type
+
+          UNION ALL
+
+          SELECT 'network' as filter_type, s.asn::text as id, MAX(s.asn_org) as name, NULL as identity_name
+          FROM sessions s
+          ${networkFilterWhereClause} AND s.asn IS NOT NULL
+          GROUP BY s.asn
         `),
       ]);
 
@@ -186,6 +208,10 @@ export const locationsRoutes: FastifyPluginAsync = async (app) => {
             t === 'movie' || t === 'episode' || t === 'track'
           )
           .sort((a, b) => a.localeCompare(b)),
+        networks: filters
+          .filter(f => f.filter_type === 'network')
+          .map(f => ({ asn: Number(f.id), asnOrg: f.name as string | null }))
+          .sort((a, b) => (a.asnOrg ?? '').localeCompare(b.asnOrg ?? '') || a.asn - b.asn),
       };
 
       // Transform main query results
@@ -226,7 +252,7 @@ export const locationsRoutes: FastifyPluginAsync = async (app) => {
           uniqueLocations,
           topCity,
         },
-        availableFilters: availableFilters ?? { users: [], servers: [], mediaTypes: [] },
+        availableFilters: availableFilters ?? { users: [], servers: [], mediaTypes: [], networks: [] },
       };
     }
   );
@@ -0,0 +1,495 @@
+/**
+ * User account action routes tests
+ *
+ * Tests the API endpoints for managing a server account's media server access:
+ * - GET /users/:id/account - Current access and action history
+ * - POST /users/:id/account/actions - Disable, unshare or restrict an account
+ * - POST /users/:id/account/actions/:actionId/undo - Restore the previous access
+ * - POST /users/:id/account/suspensions[/:suspensionId/extend|lift] - Temporary suspensions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser, ServerAccountStatus } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../../services/accountActions.js', () => ({
+  executeAccountAction: vi.fn(),
+  getAccountStatus: vi.fn(),
+  undoAccountAction: vi.fn(),
+}));
+
+vi.mock('../../../services/suspensions.js', () => ({
+  extendSuspension: vi.fn(),
+  getActiveSuspension: vi.fn().mockResolvedValue(null),
+  liftSuspension: vi.fn(),
+  suspendUser: vi.fn(),
+}));
+
+// Non-owners hold no permissions unless a test grants them
+vi.mock('../../../services/permissions.js', () => ({
+  getPermittedServerIds: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { db } from '../../../db/client.js';
+import {
+  executeAccountAction,
+  getAccountStatus,
+  undoAccountAction,
+} from '../../../services/accountActions.js';
+import {
+  extendSuspension,
+  liftSuspension,
+  suspendUser,
+} from '../../../services/suspensions.js';
+import { getPermittedServerIds } from '../../../services/permissions.js';
+import { recordAudit } from '../../../services/audit.js';
+import { requirePermission } from '../../../plugins/auth.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../utils/errors.js';
+import { accountActionsRoutes } from '../accountActions.js';
+
+const serverId = randomUUID();
+const serverUserId = randomUUID();
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+  app.decorate('requirePermission', requirePermission);
+
+  await app.register(accountActionsRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [serverId],
+  };
+}
+
+function createAdminUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'admin',
+    role: 'admin',
+    serverIds: [serverId],
+  };
+}
+
+/**
+ * Mock the server user lookup
+ */
+function mockServerUser(row: { serverId: string } | null = { serverId }) {
+  vi.mocked(db.select).mockReturnValueOnce({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi
+          .fn()
+          .mockResolvedValue(row ? [{ id: serverUserId, username: 'sharer', ...row }] : []),
+      }),
+    }),
+  } as never);
+}
+
+describe('User Account Action Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('GET /users/:id/account', () => {
+    it('returns the account status', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      const status: ServerAccountStatus = {
+        access: { isDisabled: false, isShared: true, libraryIds: null },
+        error: null,
+        supportedActions: ['remove_share', 'restrict_libraries'],
+        libraries: [{ id: '1', name: 'Movies' }],
+        actions: [],
+        suspension: null,
+      };
+      vi.mocked(getAccountStatus).mockResolvedValue(status);
+
+      const response = await app.inject({ method: 'GET', url: `/users/${serverUserId}/account` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(status);
+      expect(getAccountStatus).toHaveBeenCalledWith(serverUserId);
+    });
+
+    it('requires the manage accounts permission', async () => {
+      app = await buildTestApp(createAdminUser());
+
+      const response = await app.inject({ method: 'GET', url: `/users/${serverUserId}/account` });
+
+      expect(response.statusCode).toBe(403);
+      expect(getAccountStatus).not.toHaveBeenCalled();
+    });
+
+    it('rejects users on servers the permission was not granted for', async () => {
+      app = await buildTestApp(createAdminUser());
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([randomUUID()]);
+      mockServerUser();
+
+      const response = await app.inject({ method: 'GET', url: `/users/${serverUserId}/account` });
+
+      expect(response.statusCode).toBe(403);
+      expect(getAccountStatus).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown users', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser(null);
+
+      const response = await app.inject({ method: 'GET', url: `/users/${serverUserId}/account` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /users/:id/account/actions', () => {
+    it('runs the action and records it in the audit log', async () => {
+      const owner = createOwnerUser();
+      app = await buildTestApp(owner);
+      mockServerUser();
+      const previousAccess = { isDisabled: false, isShared: true, libraryIds: null };
+      vi.mocked(executeAccountAction).mockResolvedValue({
+        success: true,
+        accountActionId: 'log-1',
+        previousAccess,
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/actions`,
+        payload: { action: 'restrict_libraries', libraryIds: ['1'] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true, accountActionId: 'log-1' });
+      expect(executeAccountAction).toHaveBeenCalledWith({
+        serverUserId,
+        action: 'restrict_libraries',
+        libraryIds: ['1'],
+        trigger: 'manual',
+        triggeredByUserId: owner.userId,
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.account_action',
+          entityId: serverUserId,
+          entityName: 'sharer',
+          serverId,
+          before: { access: previousAccess },
+          after: { action: 'restrict_libraries', libraryIds: ['1'] },
+        })
+      );
+    });
+
+    it('requires libraries when restricting libraries', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/actions`,
+        payload: { action: 'restrict_libraries' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(executeAccountAction).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for actions the server does not support', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      vi.mocked(executeAccountAction).mockRejectedValue(
+        new ValidationError('Disable account is not supported on plex servers')
+      );
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/actions`,
+        payload: { action: 'disable_user' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toBe('Disable account is not supported on plex servers');
+    });
+
+    it('returns 500 without auditing when the media server fails', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      vi.mocked(executeAccountAction).mockResolvedValue({
+        success: false,
+        accountActionId: 'log-1',
+        previousAccess: null,
+        error: 'Connection refused',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/actions`,
+        payload: { action: 'disable_user' },
+      });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.json()).toMatchObject({ success: false, message: 'Connection refused' });
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /users/:id/account/actions/:actionId/undo', () => {
+    const actionId = randomUUID();
+
+    it('undoes the action and records it in the audit log', async () => {
+      const owner = createOwnerUser();
+      app = await buildTestApp(owner);
+      mockServerUser();
+      const restoredAccess = { isDisabled: false, isShared: true, libraryIds: null };
+      vi.mocked(undoAccountAction).mockResolvedValue({
+        success: true,
+        action: 'disable_user',
+        restoredAccess,
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/actions/${actionId}/undo`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(undoAccountAction).toHaveBeenCalledWith({
+        accountActionId: actionId,
+        serverUserId,
+        undoneByUserId: owner.userId,
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.account_undo',
+          before: { action: 'disable_user' },
+          after: { access: restoredAccess },
+        })
+      );
+    });
+
+    it('returns 409 when the action was already undone', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      vi.mocked(undoAccountAction).mockRejectedValue(
+        new ConflictError('Account action has already been undone')
+      );
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/actions/${actionId}/undo`,
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('rejects invalid action IDs', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/actions/not-a-uuid/undo`,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /users/:id/account/suspensions', () => {
+    it('suspends the user and records it in the audit log', async () => {
+      const owner = createOwnerUser();
+      app = await buildTestApp(owner);
+      mockServerUser();
+      const endsAt = new Date('2025-01-15T18:00:00.000Z');
+      vi.mocked(suspendUser).mockResolvedValue({
+        success: true,
+        suspensionId: 'suspension-1',
+        accountActionId: 'log-1',
+        endsAt,
+        previousAccess: null,
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions`,
+        payload: { durationHours: 48, reason: 'Account sharing' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        success: true,
+        suspensionId: 'suspension-1',
+        endsAt: endsAt.toISOString(),
+      });
+      expect(suspendUser).toHaveBeenCalledWith({
+        serverUserId,
+        durationHours: 48,
+        reason: 'Account sharing',
+        suspendedByUserId: owner.userId,
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.suspend',
+          before: { suspendedUntil: null },
+          after: { suspendedUntil: endsAt, reason: 'Account sharing' },
+        })
+      );
+    });
+
+    it('rejects suspensions shorter than an hour', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions`,
+        payload: { durationHours: 0 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(suspendUser).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when the user is already suspended', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      vi.mocked(suspendUser).mockRejectedValue(new ConflictError('User is already suspended'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions`,
+        payload: { durationHours: 24 },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('requires the manage accounts permission', async () => {
+      app = await buildTestApp(createAdminUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions`,
+        payload: { durationHours: 24 },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(suspendUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /users/:id/account/suspensions/:suspensionId/extend', () => {
+    const suspensionId = randomUUID();
+
+    it('extends the suspension and records it in the audit log', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      const previousEndsAt = new Date('2025-01-15T18:00:00.000Z');
+      const endsAt = new Date('2025-01-16T18:00:00.000Z');
+      vi.mocked(extendSuspension).mockResolvedValue({ previousEndsAt, endsAt });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions/${suspensionId}/extend`,
+        payload: { hours: 24 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(extendSuspension).toHaveBeenCalledWith({ suspensionId, serverUserId, hours: 24 });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.suspension_extend',
+          before: { suspendedUntil: previousEndsAt },
+          after: { suspendedUntil: endsAt },
+        })
+      );
+    });
+
+    it('returns 404 for unknown suspensions', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      vi.mocked(extendSuspension).mockRejectedValue(new NotFoundError('Suspension', suspensionId));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions/${suspensionId}/extend`,
+        payload: { hours: 24 },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /users/:id/account/suspensions/:suspensionId/lift', () => {
+    const suspensionId = randomUUID();
+
+    it('lifts the suspension and records it in the audit log', async () => {
+      const owner = createOwnerUser();
+      app = await buildTestApp(owner);
+      mockServerUser();
+      vi.mocked(liftSuspension).mockResolvedValue({ success: true });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions/${suspensionId}/lift`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(liftSuspension).toHaveBeenCalledWith({
+        suspensionId,
+        serverUserId,
+        liftedByUserId: owner.userId,
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'user.suspension_lift' })
+      );
+    });
+
+    it('returns 500 without auditing when the media server fails', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockServerUser();
+      vi.mocked(liftSuspension).mockResolvedValue({ success: false, error: 'Unauthorized' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/account/suspensions/${suspensionId}/lift`,
+      });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.json()).toEqual({ success: false, message: 'Unauthorized' });
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * User Group routes tests
+ *
+ * Tests the API endpoints for user groups (rule targeting):
+ * - GET /groups - List groups with members
+ * - POST /groups - Create a group
+ * - PATCH /groups/:id - Update a group
+ * - DELETE /groups/:id - Delete a group
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+// Import the mocked modules and the routes
+import { db } from '../../../db/client.js';
+import { recordAudit } from '../../../services/audit.js';
+import { groupsRoutes } from '../groups.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(groupsRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createViewerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createTestGroup(overrides: Partial<{ id: string; name: string; description: string | null }> = {}) {
+  return {
+    id: overrides.id ?? randomUUID(),
+    name: overrides.name ?? 'Household',
+    description: overrides.description ?? null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Helper to create mock chain ending in .where()
+ */
+function createWhereSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockResolvedValue(resolvedValue),
+    }),
+  };
+}
+
+/**
+ * Helper to create mock chain ending in .where().limit()
+ */
+function createLimitSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+/**
+ * Mock a transaction whose tx exposes insert/update/delete chains
+ */
+function mockTransaction(group: ReturnType<typeof createTestGroup>) {
+  const memberValues = vi.fn().mockResolvedValue(undefined);
+  const tx = {
+    insert: vi.fn().mockImplementation(() => ({
+      values: vi.fn().mockImplementation((values: unknown) => {
+        if (Array.isArray(values)) return memberValues(values);
+        return { returning: vi.fn().mockResolvedValue([group]) };
+      }),
+    })),
+    update: vi.fn().mockReturnValue({
+      set: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([group]),
+        }),
+      }),
+    }),
+    delete: vi.fn().mockReturnValue({
+      where: vi.fn().mockResolvedValue(undefined),
+    }),
+  };
+  (db as any).transaction.mockImplementation(async (fn: (t: typeof tx) => unknown) => fn(tx));
+  return { tx, memberValues };
+}
+
+describe('User Group Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/groups', () => {
+    it('should return groups with their members', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const group = createTestGroup();
+      const userId = randomUUID();
+
+      mockDb.select
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            orderBy: vi.fn().mockResolvedValue([group]),
+          }),
+        })
+        .mockReturnValueOnce(createWhereSelectMock([{ groupId: group.id, userId }]));
+
+      const response = await app.inject({ method: 'GET', url: '/users/groups' });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].name).toBe('Household');
+      expect(body.data[0].userIds).toEqual([userId]);
+    });
+
+    it('should return an empty list without querying members', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockResolvedValue([]),
+        }),
+      });
+
+      const response = await app.inject({ method: 'GET', url: '/users/groups' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data).toEqual([]);
+      expect(mockDb.select).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('POST /users/groups', () => {
+    it('should create a group with members for owner', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const group = createTestGroup();
+      const userIds = [randomUUID(), randomUUID()];
+      mockDb.select.mockReturnValueOnce(createWhereSelectMock(userIds.map((id) => ({ id }))));
+      const { memberValues } = mockTransaction(group);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/groups',
+        payload: { name: 'Household', userIds },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(memberValues).toHaveBeenCalledWith(
+        userIds.map((userId) => ({ groupId: group.id, userId }))
+      );
+      expect(JSON.parse(response.body).userIds).toEqual(userIds);
+    });
+
+    it('should reject group creation for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/groups',
+        payload: { name: 'Household' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject unknown users', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createWhereSelectMock([]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/groups',
+        payload: { name: 'Household', userIds: [randomUUID()] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty name', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/groups',
+        payload: { name: '' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('PATCH /users/groups/:id', () => {
+    it('should replace members when userIds is provided', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const group = createTestGroup();
+      const userId = randomUUID();
+      const previousUserId = randomUUID();
+      mockDb.select
+        .mockReturnValueOnce(createLimitSelectMock([{ name: group.name, description: null }]))
+        .mockReturnValueOnce(createWhereSelectMock([{ id: userId }]))
+        .mockReturnValueOnce(createWhereSelectMock([{ userId: previousUserId }]))
+        .mockReturnValueOnce(createWhereSelectMock([{ userId }]));
+      const { tx, memberValues } = mockTransaction(group);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/groups/${group.id}`,
+        payload: { userIds: [userId] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(tx.delete).toHaveBeenCalled();
+      expect(memberValues).toHaveBeenCalledWith([{ groupId: group.id, userId }]);
+      expect(JSON.parse(response.body).userIds).toEqual([userId]);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'group.update',
+          entityId: group.id,
+          before: expect.objectContaining({ userIds: [previousUserId] }),
+          after: expect.objectContaining({ userIds: [userId] }),
+        })
+      );
+    });
+
+    it('should return 404 for non-existent group', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createLimitSelectMock([]));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/groups/${randomUUID()}`,
+        payload: { name: 'Renamed' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /users/groups/:id', () => {
+    it('should delete a group for owner', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const groupId = randomUUID();
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ name: 'Household', description: null }]),
+        }),
+      });
+
+      const response = await app.inject({ method: 'DELETE', url: `/users/groups/${groupId}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ success: true });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'group.delete',
+          entityId: groupId,
+          entityName: 'Household',
+        })
+      );
+    });
+
+    it('should return 404 for non-existent group', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([]),
+        }),
+      });
+
+      const response = await app.inject({ method: 'DELETE', url: `/users/groups/${randomUUID()}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should reject delete for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({ method: 'DELETE', url: `/users/groups/${randomUUID()}` });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Identity routes tests
+ *
+ * Tests the API endpoints for manual identity merge and split:
+ * - GET /identities/suggestions - Merge suggestions
+ * - POST /identities/merge - Merge two identities
+ * - POST /:id/split - Detach a server account into its own identity
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the identity service before importing routes
+vi.mock('../../../services/identities.js', () => ({
+  getMergeSuggestions: vi.fn(),
+  mergeUsers: vi.fn(),
+  splitServerUser: vi.fn(),
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { getMergeSuggestions, mergeUsers, splitServerUser } from '../../../services/identities.js';
+import { UserNotFoundError, ServerUserNotFoundError } from '../../../services/userService.js';
+import { ConflictError } from '../../../utils/errors.js';
+import { identitiesRoutes } from '../identities.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(identitiesRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createViewerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds: [randomUUID()],
+  };
+}
+
+describe('Identity Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('GET /users/identities/suggestions', () => {
+    it('returns suggestions for the owner', async () => {
+      const suggestion = {
+        users: [],
+        reasons: ['shared_device'],
+        sharedDeviceCount: 2,
+        sharedIpCount: 0,
+      };
+      vi.mocked(getMergeSuggestions).mockResolvedValue([suggestion] as any);
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({ method: 'GET', url: '/users/identities/suggestions' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual([suggestion]);
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createViewerUser());
+      const response = await app.inject({ method: 'GET', url: '/users/identities/suggestions' });
+
+      expect(response.statusCode).toBe(403);
+      expect(getMergeSuggestions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /users/identities/merge', () => {
+    it('merges the source identity into the target', async () => {
+      const targetUserId = randomUUID();
+      const sourceUserId = randomUUID();
+      const result = {
+        userId: targetUserId,
+        mergedUserId: sourceUserId,
+        serverUserIds: [randomUUID(), randomUUID()],
+      };
+      vi.mocked(mergeUsers).mockResolvedValue(result);
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/identities/merge',
+        payload: { targetUserId, sourceUserId },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(result);
+      expect(mergeUsers).toHaveBeenCalledWith(targetUserId, sourceUserId);
+    });
+
+    it('rejects merging an identity into itself', async () => {
+      const userId = randomUUID();
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/identities/merge',
+        payload: { targetUserId: userId, sourceUserId: userId },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mergeUsers).not.toHaveBeenCalled();
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createViewerUser());
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/identities/merge',
+        payload: { targetUserId: randomUUID(), sourceUserId: randomUUID() },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mergeUsers).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when an identity is missing', async () => {
+      vi.mocked(mergeUsers).mockRejectedValue(new UserNotFoundError(randomUUID()));
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/identities/merge',
+        payload: { targetUserId: randomUUID(), sourceUserId: randomUUID() },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('returns 409 when both identities have an account on the same server', async () => {
+      vi.mocked(mergeUsers).mockRejectedValue(
+        new ConflictError('Both identities have an account on the same server')
+      );
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/identities/merge',
+        payload: { targetUserId: randomUUID(), sourceUserId: randomUUID() },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().message).toBe('Both identities have an account on the same server');
+    });
+  });
+
+  describe('POST /users/:id/split', () => {
+    it('detaches the account into a new identity', async () => {
+      const serverUserId = randomUUID();
+      const result = { userId: randomUUID(), previousUserId: randomUUID(), serverUserId };
+      vi.mocked(splitServerUser).mockResolvedValue(result);
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/split`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(result);
+      expect(splitServerUser).toHaveBeenCalledWith(serverUserId);
+    });
+
+    it('rejects an invalid ID', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({ method: 'POST', url: '/users/not-a-uuid/split' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createViewerUser());
+      const response = await app.inject({ method: 'POST', url: `/users/${randomUUID()}/split` });
+
+      expect(response.statusCode).toBe(403);
+      expect(splitServerUser).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the account is missing', async () => {
+      vi.mocked(splitServerUser).mockRejectedValue(new ServerUserNotFoundError(randomUUID()));
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({ method: 'POST', url: `/users/${randomUUID()}/split` });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('returns 409 when the account is already its own identity', async () => {
+      vi.mocked(splitServerUser).mockRejectedValue(
+        new ConflictError('This account is already its own identity')
+      );
+
+      app = await buildTestApp(createOwnerUser());
+      const response = await app.inject({ method: 'POST', url: `/users/${randomUUID()}/split` });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+});
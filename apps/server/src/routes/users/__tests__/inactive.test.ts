@@ -0,0 +1,334 @@
+/**
+ * Inactive user routes tests
+ *
+ * Tests the API endpoints for the inactive users report:
+ * - GET /users/inactive - Server accounts with no recent sessions
+ * - POST /users/inactive/actions - Bulk remove access or mark for review
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+// Non-owners hold no permissions unless a test grants them
+vi.mock('../../../services/permissions.js', () => ({
+  getPermittedServerIds: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+vi.mock('../../../services/inactiveUsers.js', () => ({
+  getInactiveUsers: vi.fn(),
+}));
+
+vi.mock('../../../services/accountActions.js', () => ({
+  executeAccountAction: vi.fn(),
+}));
+
+import { db } from '../../../db/client.js';
+import { getPermittedServerIds } from '../../../services/permissions.js';
+import { recordAudit } from '../../../services/audit.js';
+import { getInactiveUsers } from '../../../services/inactiveUsers.js';
+import { executeAccountAction } from '../../../services/accountActions.js';
+import { requirePermission } from '../../../plugins/auth.js';
+import { inactiveRoutes } from '../inactive.js';
+
+const serverId = randomUUID();
+const serverUserId = randomUUID();
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+  app.decorate('requirePermission', requirePermission);
+
+  await app.register(inactiveRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [serverId],
+  };
+}
+
+function createViewerUser(serverIds: string[] = [serverId]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds,
+  };
+}
+
+/**
+ * Helper to create mock chain for the accounts picked for a bulk action
+ */
+function createActionSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      innerJoin: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+function createServerUserRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: serverUserId,
+    serverId,
+    username: 'idle',
+    isServerAdmin: false,
+    reviewRequestedAt: null,
+    serverType: 'plex',
+    ...overrides,
+  };
+}
+
+describe('Inactive User Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/inactive', () => {
+    it('should report accounts with no sessions in the window', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      vi.mocked(getInactiveUsers).mockResolvedValue([
+        {
+          id: serverUserId,
+          serverId,
+          serverName: 'Plex Server',
+          userId: randomUUID(),
+          username: 'idle',
+          identityName: null,
+          thumbUrl: null,
+          joinedAt: new Date('2024-01-01'),
+          source: 'plex_share',
+          reason: 'never_played',
+          lastSession: null,
+          sessionCount: 0,
+          totalWatchTimeMs: 0,
+          sharedLibraries: ['Movies'],
+          reviewRequestedAt: null,
+        },
+      ]);
+
+      const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+      const response = await app.inject({ method: 'GET', url: '/users/inactive?days=30' });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]).toMatchObject({ username: 'idle', reason: 'never_played' });
+
+      const options = vi.mocked(getInactiveUsers).mock.calls[0]![0];
+      expect(options.serverIds).toBeNull();
+      expect(options.cutoff.getTime()).toBeGreaterThanOrEqual(thirtyDaysAgo);
+      expect(options.cutoff.getTime()).toBeLessThan(thirtyDaysAgo + 60 * 1000);
+    });
+
+    it('should use the given date as the cutoff', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(getInactiveUsers).mockResolvedValue([]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/users/inactive?before=2025-01-01&neverPlayed=true',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(getInactiveUsers).toHaveBeenCalledWith({
+        cutoff: new Date('2025-01-01'),
+        neverPlayed: true,
+        serverIds: null,
+      });
+    });
+
+    it('should limit non-owners to their servers', async () => {
+      app = await buildTestApp(createViewerUser());
+      vi.mocked(getInactiveUsers).mockResolvedValue([]);
+
+      await app.inject({ method: 'GET', url: '/users/inactive' });
+
+      expect(getInactiveUsers).toHaveBeenCalledWith(
+        expect.objectContaining({ serverIds: [serverId] })
+      );
+    });
+
+    it('should reject a server the caller cannot access', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/inactive?serverId=${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(getInactiveUsers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /users/inactive/actions', () => {
+    function mockUpdate() {
+      const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+      mockDb.update.mockReturnValue({ set });
+      return set;
+    }
+
+    it('should remove access with the server type action', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValue(createActionSelectMock([createServerUserRow()]));
+      vi.mocked(executeAccountAction).mockResolvedValue({
+        success: true,
+        accountActionId: randomUUID(),
+        previousAccess: { isDisabled: false, isShared: true, libraryIds: null },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/inactive/actions',
+        payload: { action: 'remove_access', serverUserIds: [serverUserId] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).results).toEqual([
+        { serverUserId, success: true, error: null },
+      ]);
+      expect(executeAccountAction).toHaveBeenCalledWith(
+        expect.objectContaining({ serverUserId, action: 'remove_share', trigger: 'manual' })
+      );
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'user.account_action', entityId: serverUserId })
+      );
+    });
+
+    it('should report accounts that could not be changed', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const adminId = randomUUID();
+      const missingId = randomUUID();
+      mockDb.select.mockReturnValue(
+        createActionSelectMock([
+          createServerUserRow({ serverType: 'jellyfin' }),
+          createServerUserRow({ id: adminId, isServerAdmin: true }),
+        ])
+      );
+      vi.mocked(executeAccountAction).mockResolvedValue({
+        success: false,
+        accountActionId: randomUUID(),
+        previousAccess: null,
+        error: 'Server unreachable',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/inactive/actions',
+        payload: { action: 'remove_access', serverUserIds: [serverUserId, adminId, missingId] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).results).toEqual([
+        { serverUserId, success: false, error: 'Server unreachable' },
+        { serverUserId: adminId, success: false, error: 'Server admins keep their access' },
+        { serverUserId: missingId, success: false, error: 'User not found' },
+      ]);
+      expect(executeAccountAction).toHaveBeenCalledTimes(1);
+      expect(executeAccountAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'disable_user' })
+      );
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+
+    it('should mark accounts for review', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValue(createActionSelectMock([createServerUserRow()]));
+      const set = mockUpdate();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/inactive/actions',
+        payload: { action: 'mark_for_review', serverUserIds: [serverUserId] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith({
+        reviewRequestedAt: expect.any(Date),
+        updatedAt: expect.any(Date),
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'user.review_mark', entityId: serverUserId })
+      );
+      expect(executeAccountAction).not.toHaveBeenCalled();
+    });
+
+    it('should skip accounts on servers the caller cannot manage', async () => {
+      app = await buildTestApp(createViewerUser());
+      vi.mocked(getPermittedServerIds).mockResolvedValueOnce([serverId]);
+
+      const otherServerUser = createServerUserRow({ serverId: randomUUID() });
+      mockDb.select.mockReturnValue(createActionSelectMock([otherServerUser]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/inactive/actions',
+        payload: { action: 'clear_review', serverUserIds: [serverUserId] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).results).toEqual([
+        { serverUserId, success: false, error: 'You do not have access to this user' },
+      ]);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should require the manage accounts permission', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/inactive/actions',
+        payload: { action: 'mark_for_review', serverUserIds: [serverUserId] },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+});
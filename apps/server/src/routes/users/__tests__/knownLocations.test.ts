@@ -0,0 +1,448 @@
+/**
+ * User Known Locations routes tests
+ *
+ * Tests the API endpoints for known locations:
+ * - GET /:id/known-locations - List known locations
+ * - POST /:id/known-locations - Add a known location
+ * - POST /:id/known-locations/learn - Learn from session history
+ * - POST /:id/known-locations/:locationId/confirm - Confirm a learned location
+ * - PATCH /:id/known-locations/:locationId - Update a known location
+ * - DELETE /:id/known-locations/:locationId - Delete or dismiss a known location
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+// Mock the learner so the learn endpoint doesn't run its aggregate queries
+vi.mock('../../../services/knownLocations.js', () => ({
+  learnKnownLocations: vi.fn(),
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+// Import the mocked modules and the routes
+import { db } from '../../../db/client.js';
+import { learnKnownLocations } from '../../../services/knownLocations.js';
+import { recordAudit } from '../../../services/audit.js';
+import { knownLocationsRoutes } from '../knownLocations.js';
+
+const serverId = randomUUID();
+const serverUserId = randomUUID();
+const identityId = randomUUID();
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(knownLocationsRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(serverIds: string[] = [serverId]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds,
+  };
+}
+
+function createViewerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds: [serverId],
+  };
+}
+
+function createTestKnownLocationRow(
+  overrides: Partial<{
+    id: string;
+    source: 'manual' | 'learned';
+    dismissed: boolean;
+    pending: boolean;
+  }> = {}
+) {
+  return {
+    id: overrides.id ?? randomUUID(),
+    userId: identityId,
+    type: 'cidr' as const,
+    label: 'Home',
+    cidr: '203.0.113.0/24',
+    asn: null,
+    lat: null,
+    lon: null,
+    radiusKm: null,
+    source: overrides.source ?? 'manual',
+    dismissed: overrides.dismissed ?? false,
+    pending: overrides.pending ?? false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Helper to create mock chain ending in .where().limit()
+ */
+function createLimitSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+/**
+ * Mock the server user lookup every endpoint starts with
+ */
+function serverUserSelectMock() {
+  return createLimitSelectMock([{ userId: identityId, serverId, username: 'alice' }]);
+}
+
+describe('User Known Locations Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/:id/known-locations', () => {
+    it('should list known locations without the dismissed flag', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const row = createTestKnownLocationRow();
+      mockDb.select.mockReturnValueOnce(serverUserSelectMock()).mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            orderBy: vi.fn().mockResolvedValue([row]),
+          }),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${serverUserId}/known-locations`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].cidr).toBe('203.0.113.0/24');
+      expect(body.data[0]).not.toHaveProperty('dismissed');
+    });
+
+    it('should return 404 for non-existent user', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createLimitSelectMock([]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/known-locations`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should reject access to users on other servers', async () => {
+      app = await buildTestApp(createOwnerUser([randomUUID()]));
+
+      mockDb.select.mockReturnValueOnce(serverUserSelectMock());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${serverUserId}/known-locations`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /users/:id/known-locations', () => {
+    it('should create a manual known location for the identity', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const row = createTestKnownLocationRow();
+      const values = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([row]) });
+      mockDb.select.mockReturnValueOnce(serverUserSelectMock());
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/known-locations`,
+        payload: { type: 'cidr', label: 'Home', cidr: '203.0.113.0/24' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith({
+        userId: identityId,
+        type: 'cidr',
+        label: 'Home',
+        cidr: '203.0.113.0/24',
+        source: 'manual',
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.location_add',
+          entityId: serverUserId,
+          serverId,
+          after: { type: 'cidr', label: 'Home', cidr: '203.0.113.0/24' },
+        })
+      );
+    });
+
+    it('should reject an invalid CIDR', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/known-locations`,
+        payload: { type: 'cidr', label: 'Home', cidr: '203.0.113.0' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject creation for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/known-locations`,
+        payload: { type: 'asn', label: 'Carrier', asn: 64500 },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /users/:id/known-locations/learn', () => {
+    it('should learn known locations for the identity', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const learned = createTestKnownLocationRow({ source: 'learned' });
+      mockDb.select.mockReturnValueOnce(serverUserSelectMock());
+      vi.mocked(learnKnownLocations).mockResolvedValue([learned]);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/known-locations/learn`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(learnKnownLocations).toHaveBeenCalledWith(identityId);
+      expect(JSON.parse(response.body).data).toHaveLength(1);
+    });
+  });
+
+  describe('POST /users/:id/known-locations/:locationId/confirm', () => {
+    it('should confirm a pending learned location', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const row = createTestKnownLocationRow({ source: 'learned' });
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([row]),
+        }),
+      });
+      mockDb.select.mockReturnValueOnce(serverUserSelectMock());
+      mockDb.update.mockReturnValue({ set });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/known-locations/${row.id}/confirm`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ pending: false }));
+      expect(JSON.parse(response.body).pending).toBe(false);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'user.location_confirm', entityId: serverUserId })
+      );
+    });
+
+    it('should return 404 for non-existent location', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(serverUserSelectMock());
+      mockDb.update.mockReturnValue({
+        set: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) }),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/known-locations/${randomUUID()}/confirm`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should reject confirmation for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/known-locations/${randomUUID()}/confirm`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /users/:id/known-locations/:locationId', () => {
+    it('should update using the merged location', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const row = createTestKnownLocationRow();
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ ...row, label: 'Office' }]),
+        }),
+      });
+      mockDb.select
+        .mockReturnValueOnce(serverUserSelectMock())
+        .mockReturnValueOnce(createLimitSelectMock([row]));
+      mockDb.update.mockReturnValue({ set });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${serverUserId}/known-locations/${row.id}`,
+        payload: { label: 'Office' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'cidr', label: 'Office', cidr: '203.0.113.0/24' })
+      );
+      expect(JSON.parse(response.body).label).toBe('Office');
+    });
+
+    it('should reject an update that makes the location invalid', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const row = createTestKnownLocationRow();
+      mockDb.select
+        .mockReturnValueOnce(serverUserSelectMock())
+        .mockReturnValueOnce(createLimitSelectMock([row]));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${serverUserId}/known-locations/${row.id}`,
+        payload: { cidr: 'not-a-cidr' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for non-existent location', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select
+        .mockReturnValueOnce(serverUserSelectMock())
+        .mockReturnValueOnce(createLimitSelectMock([]));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${serverUserId}/known-locations/${randomUUID()}`,
+        payload: { label: 'Office' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /users/:id/known-locations/:locationId', () => {
+    it('should delete a manual known location', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const row = createTestKnownLocationRow();
+      mockDb.select
+        .mockReturnValueOnce(serverUserSelectMock())
+        .mockReturnValueOnce(createLimitSelectMock([row]));
+      mockDb.delete.mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/users/${serverUserId}/known-locations/${row.id}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ success: true });
+      expect(mockDb.delete).toHaveBeenCalled();
+      expect(mockDb.update).not.toHaveBeenCalled();
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'user.location_remove', before: row })
+      );
+    });
+
+    it('should dismiss a learned known location instead of deleting it', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const row = createTestKnownLocationRow({ source: 'learned' });
+      const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+      mockDb.select
+        .mockReturnValueOnce(serverUserSelectMock())
+        .mockReturnValueOnce(createLimitSelectMock([row]));
+      mockDb.update.mockReturnValue({ set });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/users/${serverUserId}/known-locations/${row.id}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ dismissed: true }));
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reject delete for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/users/${serverUserId}/known-locations/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+});
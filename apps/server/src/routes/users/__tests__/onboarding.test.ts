@@ -0,0 +1,255 @@
+/**
+ * User onboarding routes tests
+ *
+ * Tests the API endpoints for new server accounts:
+ * - GET /users/new - Server accounts that joined recently
+ * - POST /users/:id/probation/end - End probation early
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+// Non-owners hold no permissions unless a test grants them
+vi.mock('../../../services/permissions.js', () => ({
+  getPermittedServerIds: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { db } from '../../../db/client.js';
+import { getPermittedServerIds } from '../../../services/permissions.js';
+import { recordAudit } from '../../../services/audit.js';
+import { requirePermission } from '../../../plugins/auth.js';
+import { onboardingRoutes } from '../onboarding.js';
+
+const serverId = randomUUID();
+const serverUserId = randomUUID();
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+  app.decorate('requirePermission', requirePermission);
+
+  await app.register(onboardingRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [serverId],
+  };
+}
+
+function createViewerUser(serverIds: string[] = [serverId]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds,
+  };
+}
+
+/**
+ * Helper to create mock chain for the new users feed
+ */
+function createFeedSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      innerJoin: vi.fn().mockReturnValue({
+        innerJoin: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            orderBy: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue(resolvedValue),
+            }),
+          }),
+        }),
+      }),
+    }),
+  };
+}
+
+/**
+ * Helper to create mock chain ending in .where().limit()
+ */
+function createLimitSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+describe('User Onboarding Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/new', () => {
+    it('should return recently joined accounts', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const joined = {
+        id: serverUserId,
+        serverId,
+        serverName: 'Plex Server',
+        username: 'newfriend',
+        source: 'plex_share',
+        joinedAt: new Date(),
+        probationUntil: new Date(Date.now() + 86400000),
+      };
+      mockDb.select.mockReturnValue(createFeedSelectMock([joined]));
+
+      const response = await app.inject({ method: 'GET', url: '/users/new?days=7' });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]).toMatchObject({ username: 'newfriend', source: 'plex_share' });
+    });
+
+    it('should reject an out of range window', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({ method: 'GET', url: '/users/new?days=0' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject a server the caller cannot access', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/new?serverId=${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return nothing for a caller without server access', async () => {
+      app = await buildTestApp(createViewerUser([]));
+
+      const response = await app.inject({ method: 'GET', url: '/users/new' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ data: [] });
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /users/:id/probation/end', () => {
+    function mockUpdate() {
+      const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+      mockDb.update.mockReturnValue({ set });
+      return set;
+    }
+
+    it('should end probation and record it', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const probationUntil = new Date(Date.now() + 86400000);
+      mockDb.select.mockReturnValue(
+        createLimitSelectMock([
+          { id: serverUserId, serverId, username: 'newfriend', probationUntil },
+        ])
+      );
+      const set = mockUpdate();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/probation/end`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith({ probationUntil: null, updatedAt: expect.any(Date) });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.probation_end',
+          entityId: serverUserId,
+          after: { probationUntil: null },
+        })
+      );
+    });
+
+    it('should return 409 when the account is not on probation', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValue(
+        createLimitSelectMock([
+          { id: serverUserId, serverId, username: 'friend', probationUntil: new Date(0) },
+        ])
+      );
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/probation/end`,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown account', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValue(createLimitSelectMock([]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${randomUUID()}/probation/end`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should require the manage accounts permission', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/users/${serverUserId}/probation/end`,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(getPermittedServerIds).toHaveBeenCalled();
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * User permission routes tests
+ *
+ * Tests the API endpoints for roles and per-server permissions:
+ * - GET /permissions - Users who can log in, with their permissions
+ * - PUT /permissions/:id - Set a user's role and permissions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser, UserPermissions } from '@tracearr/shared';
+
+// Mock the permission service before importing routes
+vi.mock('../../../services/permissions.js', () => ({
+  getPermissionGrants: vi.fn().mockResolvedValue([]),
+  listUserPermissions: vi.fn(),
+  updateUserPermissions: vi.fn(),
+}));
+
+vi.mock('../../../services/userService.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  requireUserById: vi.fn().mockResolvedValue({ role: 'viewer' }),
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+import { listUserPermissions, updateUserPermissions } from '../../../services/permissions.js';
+import { UserNotFoundError } from '../../../services/userService.js';
+import { recordAudit } from '../../../services/audit.js';
+import { ConflictError, ValidationError } from '../../../utils/errors.js';
+import { permissionsRoutes } from '../permissions.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(permissionsRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createViewerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createUserPermissions(overrides: Partial<UserPermissions> = {}): UserPermissions {
+  return {
+    userId: randomUUID(),
+    username: 'alice',
+    name: null,
+    thumbnail: null,
+    role: 'admin',
+    grants: [{ serverId: randomUUID(), permissions: ['view_history', 'terminate_streams'] }],
+    ...overrides,
+  };
+}
+
+describe('User Permission Routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('GET /users/permissions', () => {
+    it('lists users with their permissions for the owner', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const entry = createUserPermissions();
+      vi.mocked(listUserPermissions).mockResolvedValue([entry]);
+
+      const response = await app.inject({ method: 'GET', url: '/users/permissions' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual([entry]);
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({ method: 'GET', url: '/users/permissions' });
+
+      expect(response.statusCode).toBe(403);
+      expect(listUserPermissions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /users/permissions/:id', () => {
+    it('updates the role and grants', async () => {
+      app = await buildTestApp(createOwnerUser());
+      const userId = randomUUID();
+      const serverId = randomUUID();
+      const updated = createUserPermissions({
+        userId,
+        grants: [{ serverId, permissions: ['manage_rules'] }],
+      });
+      vi.mocked(updateUserPermissions).mockResolvedValue(updated);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/permissions/${userId}`,
+        payload: { role: 'admin', grants: [{ serverId, permissions: ['manage_rules'] }] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(updated);
+      expect(updateUserPermissions).toHaveBeenCalledWith(userId, {
+        role: 'admin',
+        grants: [{ serverId, permissions: ['manage_rules'] }],
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.permissions_update',
+          entityId: userId,
+          before: { role: 'viewer', grants: [] },
+          after: { role: 'admin', grants: [{ serverId, permissions: ['manage_rules'] }] },
+        })
+      );
+    });
+
+    it('rejects non-owners', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/permissions/${randomUUID()}`,
+        payload: { role: 'admin', grants: [] },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(updateUserPermissions).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown permissions', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/permissions/${randomUUID()}`,
+        payload: {
+          role: 'admin',
+          grants: [{ serverId: randomUUID(), permissions: ['delete_all'] }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('rejects granting owner', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/permissions/${randomUUID()}`,
+        payload: { role: 'owner', grants: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('returns 404 for a missing user', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(updateUserPermissions).mockRejectedValue(new UserNotFoundError('x'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/permissions/${randomUUID()}`,
+        payload: { role: 'viewer' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('returns 409 when changing an owner', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(updateUserPermissions).mockRejectedValue(
+        new ConflictError('Owners always have every permission')
+      );
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/permissions/${randomUUID()}`,
+        payload: { role: 'viewer' },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('returns 400 for grants on unknown servers', async () => {
+      app = await buildTestApp(createOwnerUser());
+      vi.mocked(updateUserPermissions).mockRejectedValue(
+        new ValidationError('Permissions can only be granted on existing servers')
+      );
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/users/permissions/${randomUUID()}`,
+        payload: { role: 'viewer', grants: [{ serverId: randomUUID(), permissions: [] }] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toBe('Permissions can only be granted on existing servers');
+    });
+  });
+});
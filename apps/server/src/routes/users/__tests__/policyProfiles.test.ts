@@ -0,0 +1,381 @@
+/**
+ * Policy Profile routes tests
+ *
+ * Tests the API endpoints for policy profiles (limits that rules read per identity):
+ * - GET /policy-profiles - List profiles with members
+ * - POST /policy-profiles - Create a profile
+ * - PATCH /policy-profiles/:id - Update a profile's limits
+ * - DELETE /policy-profiles/:id - Delete a profile
+ * - POST /policy-profiles/assign - Assign identities in bulk
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import type { AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../../../services/audit.js', () => ({
+  recordAudit: vi.fn(),
+}));
+
+// Import the mocked modules and the routes
+import { db } from '../../../db/client.js';
+import { recordAudit } from '../../../services/audit.js';
+import { policyProfilesRoutes } from '../policyProfiles.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(policyProfilesRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createViewerUser(): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'viewer',
+    role: 'viewer',
+    serverIds: [randomUUID()],
+  };
+}
+
+function createTestProfile(overrides: Partial<{ id: string; name: string }> = {}) {
+  return {
+    id: overrides.id ?? randomUUID(),
+    name: overrides.name ?? 'Friend',
+    description: null,
+    maxStreams: 2,
+    allowedCountries: ['US'],
+    maxTranscodes: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Helper to create mock chain ending in .where()
+ */
+function createWhereSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockResolvedValue(resolvedValue),
+    }),
+  };
+}
+
+/**
+ * Helper to create mock chain ending in .where().limit()
+ */
+function createLimitSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+describe('Policy Profile Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  describe('GET /users/policy-profiles', () => {
+    it('should return profiles with their members', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const profile = createTestProfile();
+      const userId = randomUUID();
+
+      mockDb.select
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            orderBy: vi.fn().mockResolvedValue([profile]),
+          }),
+        })
+        .mockReturnValueOnce(createWhereSelectMock([{ id: userId, profileId: profile.id }]));
+
+      const response = await app.inject({ method: 'GET', url: '/users/policy-profiles' });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]).toMatchObject({ name: 'Friend', maxStreams: 2, userIds: [userId] });
+    });
+  });
+
+  describe('POST /users/policy-profiles', () => {
+    it('should create a profile for owner', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const profile = createTestProfile();
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([profile]),
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles',
+        payload: { name: 'Friend', maxStreams: 2, allowedCountries: ['US'], maxTranscodes: 1 },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(values).toHaveBeenCalledWith({
+        name: 'Friend',
+        description: null,
+        maxStreams: 2,
+        allowedCountries: ['US'],
+        maxTranscodes: 1,
+      });
+      expect(JSON.parse(response.body).userIds).toEqual([]);
+    });
+
+    it('should reject profile creation for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles',
+        payload: { name: 'Friend' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject an empty country list', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles',
+        payload: { name: 'Friend', allowedCountries: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('PATCH /users/policy-profiles/:id', () => {
+    it('should update only the given limits', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const profile = createTestProfile();
+      const userId = randomUUID();
+      const set = vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ ...profile, maxStreams: 4 }]),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set });
+      mockDb.select
+        .mockReturnValueOnce(createLimitSelectMock([profile]))
+        .mockReturnValueOnce(createWhereSelectMock([{ id: userId }]));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/policy-profiles/${profile.id}`,
+        payload: { maxStreams: 4, allowedCountries: null },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith({
+        maxStreams: 4,
+        allowedCountries: null,
+        updatedAt: expect.any(Date),
+      });
+      expect(JSON.parse(response.body).userIds).toEqual([userId]);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'policy_profile.update',
+          entityId: profile.id,
+          before: profile,
+          after: expect.objectContaining({ maxStreams: 4 }),
+        })
+      );
+    });
+
+    it('should return 404 for non-existent profile', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createLimitSelectMock([]));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/policy-profiles/${randomUUID()}`,
+        payload: { name: 'Renamed' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /users/policy-profiles/:id', () => {
+    it('should delete a profile for owner', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const profileId = randomUUID();
+      mockDb.delete.mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ id: profileId }]),
+        }),
+      });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/users/policy-profiles/${profileId}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ success: true });
+    });
+
+    it('should reject delete for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/users/policy-profiles/${randomUUID()}`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /users/policy-profiles/assign', () => {
+    function mockUpdate() {
+      const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+      mockDb.update.mockReturnValue({ set });
+      return set;
+    }
+
+    it('should assign every identity to the profile', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const profileId = randomUUID();
+      const userIds = [randomUUID(), randomUUID()];
+      mockDb.select
+        .mockReturnValueOnce(createLimitSelectMock([{ name: 'Family' }]))
+        .mockReturnValueOnce(createWhereSelectMock(userIds.map((id) => ({ id }))));
+      const set = mockUpdate();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles/assign',
+        payload: { profileId, userIds: [...userIds, userIds[0]] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ success: true, updated: 2 });
+      expect(set).toHaveBeenCalledWith({ policyProfileId: profileId, updatedAt: expect.any(Date) });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'policy_profile.assign',
+          entityId: profileId,
+          entityName: 'Family',
+          after: { userIds: [...userIds].sort() },
+        })
+      );
+    });
+
+    it('should clear the profile when profileId is null', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const userId = randomUUID();
+      mockDb.select.mockReturnValueOnce(createWhereSelectMock([{ id: userId }]));
+      const set = mockUpdate();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles/assign',
+        payload: { profileId: null, userIds: [userId] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(set).toHaveBeenCalledWith({ policyProfileId: null, updatedAt: expect.any(Date) });
+    });
+
+    it('should return 404 for non-existent profile', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createLimitSelectMock([]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles/assign',
+        payload: { profileId: randomUUID(), userIds: [randomUUID()] },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown users', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      mockDb.select.mockReturnValueOnce(createWhereSelectMock([]));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles/assign',
+        payload: { profileId: null, userIds: [randomUUID()] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject assignment for non-owner', async () => {
+      app = await buildTestApp(createViewerUser());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users/policy-profiles/assign',
+        payload: { profileId: null, userIds: [randomUUID()] },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * User trust score history routes tests
+ *
+ * Tests the API endpoint for trust score history:
+ * - GET /:id/trust-events - How and why a user's trust score changed
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import sensible from '@fastify/sensible';
+import { randomUUID } from 'node:crypto';
+import { TRUST_SCORE_CONFIG, type AuthUser } from '@tracearr/shared';
+
+// Mock the database module before importing routes
+vi.mock('../../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+// Import the mocked db and the routes
+import { db } from '../../../db/client.js';
+import { trustEventsRoutes } from '../trustEvents.js';
+
+/**
+ * Build a test Fastify instance with mocked auth
+ */
+async function buildTestApp(authUser: AuthUser): Promise<FastifyInstance> {
+  const app = Fastify({ logger: false });
+
+  await app.register(sensible);
+
+  app.decorate('authenticate', async (request: any) => {
+    request.user = authUser;
+  });
+
+  await app.register(trustEventsRoutes, { prefix: '/users' });
+
+  return app;
+}
+
+function createOwnerUser(serverIds: string[] = [randomUUID()]): AuthUser {
+  return {
+    userId: randomUUID(),
+    username: 'owner',
+    role: 'owner',
+    serverIds,
+  };
+}
+
+/**
+ * Helper to create mock chain for server user lookup
+ */
+function createServerUserSelectMock(resolvedValue: unknown) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(resolvedValue),
+      }),
+    }),
+  };
+}
+
+/**
+ * Helper to create mock chain for the history query (3 leftJoins); returns the limit mock
+ */
+function createEventsSelectMock(resolvedValue: unknown) {
+  const limit = vi.fn().mockResolvedValue(resolvedValue);
+  const chain = {
+    from: vi.fn().mockReturnValue({
+      leftJoin: vi.fn().mockReturnValue({
+        leftJoin: vi.fn().mockReturnValue({
+          leftJoin: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              orderBy: vi.fn().mockReturnValue({ limit }),
+            }),
+          }),
+        }),
+      }),
+    }),
+  };
+  return { chain, limit };
+}
+
+describe('User Trust Events Routes', () => {
+  let app: FastifyInstance;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb = db as any;
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('GET /users/:id/trust-events', () => {
+    it('returns trust score changes oldest first', async () => {
+      const serverId = randomUUID();
+      const serverUserId = randomUUID();
+      app = await buildTestApp(createOwnerUser([serverId]));
+
+      // The query returns newest first
+      const newest = {
+        id: randomUUID(),
+        serverUserId,
+        delta: 1,
+        score: 81,
+        reason: 'recovery',
+        violationId: null,
+        ruleName: null,
+        ruleType: null,
+        actorName: null,
+        createdAt: new Date('2026-02-01T00:00:00Z'),
+      };
+      const oldest = {
+        ...newest,
+        id: randomUUID(),
+        delta: -20,
+        score: 80,
+        reason: 'violation',
+        violationId: randomUUID(),
+        ruleName: 'Impossible travel',
+        ruleType: 'impossible_travel',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+      };
+      const { chain, limit } = createEventsSelectMock([newest, oldest]);
+
+      mockDb.select
+        .mockReturnValueOnce(createServerUserSelectMock([{ serverId }]))
+        .mockReturnValueOnce(chain);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${serverUserId}/trust-events`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = response.json();
+      expect(data.map((e: { id: string }) => e.id)).toEqual([oldest.id, newest.id]);
+      expect(data[0].ruleName).toBe('Impossible travel');
+      expect(limit).toHaveBeenCalledWith(TRUST_SCORE_CONFIG.HISTORY_LIMIT);
+    });
+
+    it('returns 404 for a missing user', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockDb.select.mockReturnValueOnce(createServerUserSelectMock([]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/trust-events`,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('rejects users on servers without access', async () => {
+      app = await buildTestApp(createOwnerUser());
+      mockDb.select.mockReturnValueOnce(createServerUserSelectMock([{ serverId: randomUUID() }]));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${randomUUID()}/trust-events`,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('rejects an invalid ID', async () => {
+      app = await buildTestApp(createOwnerUser());
+
+      const response = await app.inject({ method: 'GET', url: '/users/not-a-uuid/trust-events' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
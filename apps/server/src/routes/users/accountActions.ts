@@ -0,0 +1,365 @@
+/**
+ * User Account Action Routes
+ *
+ * GET /:id/account - Current access on the media server and account action history
+ * POST /:id/account/actions - Disable, unshare or restrict a server account
+ * POST /:id/account/actions/:actionId/undo - Restore the access an action replaced
+ * POST /:id/account/suspensions - Suspend a server account for a number of hours
+ * POST /:id/account/suspensions/:suspensionId/extend - Push back the end of a suspension
+ * POST /:id/account/suspensions/:suspensionId/lift - Reinstate the account early
+ */
+
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import {
+  accountActionParamSchema,
+  accountActionSchema,
+  extendSuspensionSchema,
+  suspendUserSchema,
+  suspensionParamSchema,
+  userIdParamSchema,
+  type AuthUser,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { serverUsers } from '../../db/schema.js';
+import {
+  executeAccountAction,
+  getAccountStatus,
+  undoAccountAction,
+} from '../../services/accountActions.js';
+import {
+  extendSuspension,
+  getActiveSuspension,
+  liftSuspension,
+  suspendUser,
+} from '../../services/suspensions.js';
+import { recordAudit } from '../../services/audit.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import { hasServerAccess } from '../../utils/serverFiltering.js';
+
+/**
+ * Find a server user the caller may manage, or reply with the reason they can't
+ */
+async function findManageableServerUser(authUser: AuthUser, id: string, reply: FastifyReply) {
+  const rows = await db
+    .select({
+      id: serverUsers.id,
+      serverId: serverUsers.serverId,
+      username: serverUsers.username,
+    })
+    .from(serverUsers)
+    .where(eq(serverUsers.id, id))
+    .limit(1);
+
+  const serverUser = rows[0];
+  if (!serverUser) {
+    reply.notFound('User not found');
+    return null;
+  }
+
+  if (!hasServerAccess(authUser, serverUser.serverId)) {
+    reply.forbidden('You do not have access to this user');
+    return null;
+  }
+
+  return serverUser;
+}
+
+export const accountActionsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /:id/account - Current access and action history
+   *
+   * Media server errors are returned in the body so the history still shows.
+   */
+  app.get(
+    '/:id/account',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const serverUser = await findManageableServerUser(request.user, params.data.id, reply);
+      if (!serverUser) return;
+
+      const [status, suspension] = await Promise.all([
+        getAccountStatus(serverUser.id),
+        getActiveSuspension(serverUser.id),
+      ]);
+      return { ...status, suspension };
+    }
+  );
+
+  /**
+   * POST /:id/account/actions - Change what a server account can access
+   */
+  app.post(
+    '/:id/account/actions',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const body = accountActionSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+      }
+
+      const serverUser = await findManageableServerUser(request.user, params.data.id, reply);
+      if (!serverUser) return;
+
+      try {
+        const result = await executeAccountAction({
+          serverUserId: serverUser.id,
+          action: body.data.action,
+          libraryIds: body.data.libraryIds,
+          trigger: 'manual',
+          triggeredByUserId: request.user.userId,
+        });
+
+        if (!result.success) {
+          app.log.error(
+            { serverUserId: serverUser.id, error: result.error },
+            'Failed to change account access'
+          );
+          // message (not error) so the web client shows why it failed
+          return reply.code(500).send({
+            success: false,
+            message: result.error,
+            accountActionId: result.accountActionId,
+          });
+        }
+
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.account_action',
+          entityId: serverUser.id,
+          entityName: serverUser.username,
+          serverId: serverUser.serverId,
+          before: { access: result.previousAccess },
+          after: { action: body.data.action, libraryIds: body.data.libraryIds ?? null },
+        });
+
+        return { success: true, accountActionId: result.accountActionId };
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ValidationError) return reply.badRequest(error.message);
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /:id/account/actions/:actionId/undo - Restore the access an action replaced
+   */
+  app.post(
+    '/:id/account/actions/:actionId/undo',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const params = accountActionParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user or action ID');
+      }
+
+      const serverUser = await findManageableServerUser(request.user, params.data.id, reply);
+      if (!serverUser) return;
+
+      try {
+        const result = await undoAccountAction({
+          accountActionId: params.data.actionId,
+          serverUserId: serverUser.id,
+          undoneByUserId: request.user.userId,
+        });
+
+        if (!result.success) {
+          app.log.error(
+            { accountActionId: params.data.actionId, error: result.error },
+            'Failed to undo account action'
+          );
+          return reply.code(500).send({ success: false, message: result.error });
+        }
+
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.account_undo',
+          entityId: serverUser.id,
+          entityName: serverUser.username,
+          serverId: serverUser.serverId,
+          before: { action: result.action },
+          after: { access: result.restoredAccess },
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ConflictError) return reply.conflict(error.message);
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /:id/account/suspensions - Suspend a server account for a number of hours
+   *
+   * The account is reinstated automatically when the suspension ends.
+   */
+  app.post(
+    '/:id/account/suspensions',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const body = suspendUserSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+      }
+
+      const serverUser = await findManageableServerUser(request.user, params.data.id, reply);
+      if (!serverUser) return;
+
+      try {
+        const result = await suspendUser({
+          serverUserId: serverUser.id,
+          durationHours: body.data.durationHours,
+          reason: body.data.reason,
+          suspendedByUserId: request.user.userId,
+        });
+
+        if (!result.success) {
+          app.log.error(
+            { serverUserId: serverUser.id, error: result.error },
+            'Failed to suspend user'
+          );
+          return reply.code(500).send({
+            success: false,
+            message: result.error,
+            accountActionId: result.accountActionId,
+          });
+        }
+
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.suspend',
+          entityId: serverUser.id,
+          entityName: serverUser.username,
+          serverId: serverUser.serverId,
+          before: { suspendedUntil: null },
+          after: { suspendedUntil: result.endsAt, reason: body.data.reason ?? null },
+        });
+
+        return { success: true, suspensionId: result.suspensionId, endsAt: result.endsAt };
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ConflictError) return reply.conflict(error.message);
+        if (error instanceof ValidationError) return reply.badRequest(error.message);
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /:id/account/suspensions/:suspensionId/extend - Push back the end of a suspension
+   */
+  app.post(
+    '/:id/account/suspensions/:suspensionId/extend',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const params = suspensionParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user or suspension ID');
+      }
+
+      const body = extendSuspensionSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+      }
+
+      const serverUser = await findManageableServerUser(request.user, params.data.id, reply);
+      if (!serverUser) return;
+
+      try {
+        const result = await extendSuspension({
+          suspensionId: params.data.suspensionId,
+          serverUserId: serverUser.id,
+          hours: body.data.hours,
+        });
+
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.suspension_extend',
+          entityId: serverUser.id,
+          entityName: serverUser.username,
+          serverId: serverUser.serverId,
+          before: { suspendedUntil: result.previousEndsAt },
+          after: { suspendedUntil: result.endsAt },
+        });
+
+        return { success: true, endsAt: result.endsAt };
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ConflictError) return reply.conflict(error.message);
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /:id/account/suspensions/:suspensionId/lift - Reinstate the account early
+   */
+  app.post(
+    '/:id/account/suspensions/:suspensionId/lift',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const params = suspensionParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user or suspension ID');
+      }
+
+      const serverUser = await findManageableServerUser(request.user, params.data.id, reply);
+      if (!serverUser) return;
+
+      try {
+        const result = await liftSuspension({
+          suspensionId: params.data.suspensionId,
+          serverUserId: serverUser.id,
+          liftedByUserId: request.user.userId,
+        });
+
+        if (!result.success) {
+          app.log.error(
+            { suspensionId: params.data.suspensionId, error: result.error },
+            'Failed to lift suspension'
+          );
+          return reply.code(500).send({ success: false, message: result.error });
+        }
+
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.suspension_lift',
+          entityId: serverUser.id,
+          entityName: serverUser.username,
+          serverId: serverUser.serverId,
+          before: { suspended: true },
+          after: { suspended: false },
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ConflictError) return reply.conflict(error.message);
+        throw error;
+      }
+    }
+  );
+};
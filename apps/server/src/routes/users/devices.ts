@@ -9,6 +9,8 @@ import { eq, desc } from 'drizzle-orm';
 import { userIdParamSchema, type UserDevice } from '@tracearr/shared';
 import { db } from '../../db/client.js';
 import { serverUsers, sessions } from '../../db/schema.js';
+import { getLocationServerIds } from '../../services/permissions.js';
+import { canViewLocation } from '../../utils/serverFiltering.js';
 
 export const devicesRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -145,6 +147,12 @@ export const devicesRoutes: FastifyPluginAsync = async (app) => {
         }
       }
 
+      // Where each device was used needs view_locations on the user's server
+      const showLocations = canViewLocation(
+        await getLocationServerIds(authUser),
+        serverUser.serverId
+      );
+
       // Convert to array and sort by last seen
       const devices: UserDevice[] = Array.from(deviceMap.values())
         .map((dev) => ({
@@ -155,8 +163,10 @@ export const devicesRoutes: FastifyPluginAsync = async (app) => {
           platform: dev.platform,
           sessionCount: dev.sessionCount,
           lastSeenAt: dev.lastSeenAt,
-          locations: Array.from(dev.locationMap.values())
-            .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()),
+          locations: showLocations
+            ? Array.from(dev.locationMap.values())
+              .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+            : [],
         }))
         .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
 
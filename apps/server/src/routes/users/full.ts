@@ -28,7 +28,12 @@ import {
   rules,
   terminationLogs,
 } from '../../db/schema.js';
-import { hasServerAccess } from '../../utils/serverFiltering.js';
+import { getLocationServerIds } from '../../services/permissions.js';
+import {
+  canViewLocation,
+  hasServerAccess,
+  redactSessionLocation,
+} from '../../utils/serverFiltering.js';
 
 export const fullRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -48,6 +53,7 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
 
       const { id } = params.data;
       const authUser = request.user;
+      const locationServerIds = await getLocationServerIds(authUser);
 
       // Limits for embedded data (not paginated, just initial load)
       const sessionsLimit = 10;
@@ -70,6 +76,9 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
             isServerAdmin: serverUsers.isServerAdmin,
             trustScore: serverUsers.trustScore,
             sessionCount: serverUsers.sessionCount,
+            joinedAt: serverUsers.joinedAt,
+            source: serverUsers.source,
+            probationUntil: serverUsers.probationUntil,
             createdAt: serverUsers.createdAt,
             updatedAt: serverUsers.updatedAt,
             identityName: users.name,
@@ -91,6 +100,9 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
           return { error: 'forbidden' as const };
         }
 
+        // IP addresses and locations need view_locations on the user's server
+        const showLocations = canViewLocation(locationServerIds, serverUser.serverId);
+
         // 2. Get session stats (single query)
         const statsResult = await tx
           .select({
@@ -135,6 +147,8 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
             geoCountry: sessions.geoCountry,
             geoLat: sessions.geoLat,
             geoLon: sessions.geoLon,
+            asn: sessions.asn,
+            asnOrg: sessions.asnOrg,
             playerName: sessions.playerName,
             deviceId: sessions.deviceId,
             product: sessions.product,
@@ -173,7 +187,7 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
           )
           .orderBy(desc(sql`max(${sessions.startedAt})`));
 
-        const locations: UserLocation[] = locationData.map((loc) => ({
+        const locations: UserLocation[] = (showLocations ? locationData : []).map((loc) => ({
           city: loc.city,
           region: loc.region,
           country: loc.country,
@@ -300,9 +314,11 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
             platform: dev.platform,
             sessionCount: dev.sessionCount,
             lastSeenAt: dev.lastSeenAt,
-            locations: Array.from(dev.locationMap.values()).sort(
-              (a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()
-            ),
+            locations: showLocations
+              ? Array.from(dev.locationMap.values()).sort(
+                  (a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()
+                )
+              : [],
           }))
           .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
 
@@ -320,6 +336,7 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
             data: violations.data,
             createdAt: violations.createdAt,
             acknowledgedAt: violations.acknowledgedAt,
+            status: violations.status,
           })
           .from(violations)
           .innerJoin(rules, eq(violations.ruleId, rules.id))
@@ -349,6 +366,7 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
             ruleId: terminationLogs.ruleId,
             ruleName: rules.name,
             violationId: terminationLogs.violationId,
+            action: terminationLogs.action,
             reason: terminationLogs.reason,
             success: terminationLogs.success,
             errorMessage: terminationLogs.errorMessage,
@@ -381,7 +399,9 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
             },
           },
           sessions: {
-            data: recentSessions,
+            data: recentSessions.map((session) =>
+              redactSessionLocation(session, locationServerIds)
+            ),
             total: stats?.totalSessions ?? 0,
             hasMore: (stats?.totalSessions ?? 0) > sessionsLimit,
           },
@@ -402,6 +422,7 @@ export const fullRoutes: FastifyPluginAsync = async (app) => {
               data: v.data,
               createdAt: v.createdAt,
               acknowledgedAt: v.acknowledgedAt,
+              status: v.status,
             })),
             total: violationsTotal,
             hasMore: violationsTotal > violationsLimit,
@@ -0,0 +1,273 @@
+/**
+ * User Group Routes
+ *
+ * Named groups of identities that rules can target (rules.scope.groupIds).
+ *
+ * GET /groups - List all user groups with their members
+ * POST /groups - Create a user group
+ * PATCH /groups/:id - Update a user group (name, description, members)
+ * DELETE /groups/:id - Delete a user group
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  createUserGroupSchema,
+  updateUserGroupSchema,
+  userGroupIdParamSchema,
+  type UserGroup,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { userGroups, userGroupMembers, users } from '../../db/schema.js';
+import { recordAudit } from '../../services/audit.js';
+
+/**
+ * Check that every identity ID exists
+ */
+async function allUsersExist(userIds: string[]): Promise<boolean> {
+  if (userIds.length === 0) return true;
+
+  const uniqueIds = [...new Set(userIds)];
+  const found = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(inArray(users.id, uniqueIds));
+
+  return found.length === uniqueIds.length;
+}
+
+export const groupsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /groups - List all user groups
+   */
+  app.get(
+    '/groups',
+    { preHandler: [app.authenticate] },
+    async () => {
+      const groups = await db.select().from(userGroups).orderBy(userGroups.name);
+
+      const members =
+        groups.length > 0
+          ? await db
+              .select({ groupId: userGroupMembers.groupId, userId: userGroupMembers.userId })
+              .from(userGroupMembers)
+              .where(inArray(userGroupMembers.groupId, groups.map((g) => g.id)))
+          : [];
+
+      const userIdsByGroup = new Map<string, string[]>();
+      for (const member of members) {
+        const ids = userIdsByGroup.get(member.groupId) ?? [];
+        ids.push(member.userId);
+        userIdsByGroup.set(member.groupId, ids);
+      }
+
+      const data: UserGroup[] = groups.map((group) => ({
+        ...group,
+        userIds: userIdsByGroup.get(group.id) ?? [],
+      }));
+
+      return { data };
+    }
+  );
+
+  /**
+   * POST /groups - Create a user group
+   */
+  app.post(
+    '/groups',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const body = createUserGroupSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage user groups');
+      }
+
+      const { name, description, userIds } = body.data;
+      const uniqueUserIds = [...new Set(userIds)];
+
+      if (!(await allUsersExist(uniqueUserIds))) {
+        return reply.badRequest('One or more users not found');
+      }
+
+      const group = await db.transaction(async (tx) => {
+        const inserted = await tx.insert(userGroups).values({ name, description }).returning();
+        const created = inserted[0]!;
+
+        if (uniqueUserIds.length > 0) {
+          await tx
+            .insert(userGroupMembers)
+            .values(uniqueUserIds.map((userId) => ({ groupId: created.id, userId })));
+        }
+
+        return created;
+      });
+
+      const result: UserGroup = { ...group, userIds: uniqueUserIds };
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'group.create',
+        entityId: group.id,
+        entityName: group.name,
+        after: { ...group, userIds: uniqueUserIds },
+      });
+
+      return reply.status(201).send(result);
+    }
+  );
+
+  /**
+   * PATCH /groups/:id - Update a user group
+   *
+   * When userIds is provided it replaces the full member list.
+   */
+  app.patch(
+    '/groups/:id',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userGroupIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid group ID');
+      }
+
+      const body = updateUserGroupSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage user groups');
+      }
+
+      const { id } = params.data;
+
+      const existingRows = await db
+        .select({ name: userGroups.name, description: userGroups.description })
+        .from(userGroups)
+        .where(eq(userGroups.id, id))
+        .limit(1);
+
+      const existing = existingRows[0];
+      if (!existing) {
+        return reply.notFound('User group not found');
+      }
+
+      const userIds = body.data.userIds ? [...new Set(body.data.userIds)] : undefined;
+      if (userIds && !(await allUsersExist(userIds))) {
+        return reply.badRequest('One or more users not found');
+      }
+
+      // Members before the update, for the audit log (sorted so order isn't a change)
+      const previousUserIds = userIds
+        ? (
+            await db
+              .select({ userId: userGroupMembers.userId })
+              .from(userGroupMembers)
+              .where(eq(userGroupMembers.groupId, id))
+          )
+            .map((m) => m.userId)
+            .sort()
+        : undefined;
+
+      const updateData: Partial<{
+        name: string;
+        description: string | null;
+        updatedAt: Date;
+      }> = {
+        updatedAt: new Date(),
+      };
+
+      if (body.data.name !== undefined) {
+        updateData.name = body.data.name;
+      }
+
+      if (body.data.description !== undefined) {
+        updateData.description = body.data.description;
+      }
+
+      const group = await db.transaction(async (tx) => {
+        const updated = await tx
+          .update(userGroups)
+          .set(updateData)
+          .where(eq(userGroups.id, id))
+          .returning();
+
+        if (userIds) {
+          await tx.delete(userGroupMembers).where(eq(userGroupMembers.groupId, id));
+          if (userIds.length > 0) {
+            await tx
+              .insert(userGroupMembers)
+              .values(userIds.map((userId) => ({ groupId: id, userId })));
+          }
+        }
+
+        return updated[0]!;
+      });
+
+      const members = await db
+        .select({ userId: userGroupMembers.userId })
+        .from(userGroupMembers)
+        .where(eq(userGroupMembers.groupId, id));
+
+      const result: UserGroup = { ...group, userIds: members.map((m) => m.userId) };
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'group.update',
+        entityId: id,
+        entityName: group.name,
+        before: { ...existing, userIds: previousUserIds },
+        after: { ...updateData, ...(userIds && { userIds: [...userIds].sort() }) },
+      });
+
+      return result;
+    }
+  );
+
+  /**
+   * DELETE /groups/:id - Delete a user group
+   *
+   * Rules that reference the group simply stop matching it.
+   */
+  app.delete(
+    '/groups/:id',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userGroupIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid group ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage user groups');
+      }
+
+      const deleted = await db
+        .delete(userGroups)
+        .where(eq(userGroups.id, params.data.id))
+        .returning({ name: userGroups.name, description: userGroups.description });
+
+      const group = deleted[0];
+      if (!group) {
+        return reply.notFound('User group not found');
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'group.delete',
+        entityId: params.data.id,
+        entityName: group.name,
+        before: group,
+      });
+
+      return { success: true };
+    }
+  );
+};
@@ -0,0 +1,104 @@
+/**
+ * Identity Routes
+ *
+ * Manual merge and split of identities (users) across server accounts, for people
+ * that sync couldn't link by email.
+ *
+ * GET /identities/suggestions - Identity pairs that look like the same person
+ * POST /identities/merge - Merge one identity into another
+ * POST /:id/split - Detach a server account into its own identity
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { mergeIdentitiesSchema, userIdParamSchema } from '@tracearr/shared';
+import { ConflictError, NotFoundError } from '../../utils/errors.js';
+import { getMergeSuggestions, mergeUsers, splitServerUser } from '../../services/identities.js';
+import { recordAudit } from '../../services/audit.js';
+
+export const identitiesRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /identities/suggestions - Merge suggestions
+   */
+  app.get(
+    '/identities/suggestions',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage identities');
+      }
+
+      const data = await getMergeSuggestions();
+      return { data };
+    }
+  );
+
+  /**
+   * POST /identities/merge - Merge sourceUserId into targetUserId
+   */
+  app.post(
+    '/identities/merge',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const body = mergeIdentitiesSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage identities');
+      }
+
+      try {
+        const result = await mergeUsers(body.data.targetUserId, body.data.sourceUserId);
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.merge',
+          entityId: result.userId,
+          before: { userId: result.mergedUserId },
+          after: { userId: result.userId },
+        });
+        return result;
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ConflictError) return reply.conflict(error.message);
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /:id/split - Detach a server account (server_users.id) into its own identity
+   */
+  app.post(
+    '/:id/split',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage identities');
+      }
+
+      try {
+        const result = await splitServerUser(params.data.id);
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.split',
+          entityId: result.serverUserId,
+          before: { userId: result.previousUserId },
+          after: { userId: result.userId },
+        });
+        return result;
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ConflictError) return reply.conflict(error.message);
+        throw error;
+      }
+    }
+  );
+};
@@ -0,0 +1,175 @@
+/**
+ * Inactive User Routes
+ *
+ * GET /inactive - Server accounts with no sessions in N days, or since a date
+ * POST /inactive/actions - Remove access from, or mark for review, accounts in bulk
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  inactiveUsersActionSchema,
+  inactiveUsersQuerySchema,
+  SUSPENSION_ACTION_BY_SERVER_TYPE,
+  type InactiveUserActionResult,
+  type ServerType,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { servers, serverUsers } from '../../db/schema.js';
+import { executeAccountAction } from '../../services/accountActions.js';
+import { getInactiveUsers } from '../../services/inactiveUsers.js';
+import { recordAudit } from '../../services/audit.js';
+import { hasServerAccess } from '../../utils/serverFiltering.js';
+
+export const inactiveRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /inactive - Inactive server accounts, least recently active first
+   */
+  app.get(
+    '/inactive',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const query = inactiveUsersQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.badRequest('Invalid query parameters');
+      }
+
+      const { days, before, neverPlayed, serverId } = query.data;
+      const authUser = request.user;
+
+      if (serverId && !hasServerAccess(authUser, serverId)) {
+        return reply.forbidden('You do not have access to this server');
+      }
+
+      const cutoff = before ?? new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      let serverIds: string[] | null = null;
+      if (serverId) {
+        serverIds = [serverId];
+      } else if (authUser.role !== 'owner') {
+        if (authUser.serverIds.length === 0) {
+          return { data: [], cutoff };
+        }
+        serverIds = authUser.serverIds;
+      }
+
+      const data = await getInactiveUsers({ cutoff, neverPlayed, serverIds });
+      return { data, cutoff };
+    }
+  );
+
+  /**
+   * POST /inactive/actions - Run a bulk action on inactive accounts
+   *
+   * remove_access removes the Plex share or disables the Jellyfin/Emby account
+   * (undoable from the user page). Each account gets its own result, so one
+   * unreachable server doesn't fail the rest.
+   */
+  app.post(
+    '/inactive/actions',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const body = inactiveUsersActionSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+      }
+
+      const { action, serverUserIds } = body.data;
+
+      const rows = await db
+        .select({
+          id: serverUsers.id,
+          serverId: serverUsers.serverId,
+          username: serverUsers.username,
+          isServerAdmin: serverUsers.isServerAdmin,
+          reviewRequestedAt: serverUsers.reviewRequestedAt,
+          serverType: servers.type,
+        })
+        .from(serverUsers)
+        .innerJoin(servers, eq(serverUsers.serverId, servers.id))
+        .where(inArray(serverUsers.id, serverUserIds));
+
+      const rowsById = new Map(rows.map((row) => [row.id, row]));
+      const results: InactiveUserActionResult[] = [];
+
+      for (const serverUserId of serverUserIds) {
+        const serverUser = rowsById.get(serverUserId);
+        if (!serverUser) {
+          results.push({ serverUserId, success: false, error: 'User not found' });
+          continue;
+        }
+        if (!hasServerAccess(request.user, serverUser.serverId)) {
+          results.push({
+            serverUserId,
+            success: false,
+            error: 'You do not have access to this user',
+          });
+          continue;
+        }
+
+        if (action === 'remove_access') {
+          if (serverUser.isServerAdmin) {
+            results.push({
+              serverUserId,
+              success: false,
+              error: 'Server admins keep their access',
+            });
+            continue;
+          }
+
+          const serverType = serverUser.serverType as ServerType;
+          const accountAction = SUSPENSION_ACTION_BY_SERVER_TYPE[serverType];
+          try {
+            const result = await executeAccountAction({
+              serverUserId,
+              action: accountAction,
+              trigger: 'manual',
+              triggeredByUserId: request.user.userId,
+            });
+
+            if (!result.success) {
+              results.push({ serverUserId, success: false, error: result.error ?? null });
+              continue;
+            }
+
+            await recordAudit({
+              actor: request.user,
+              ipAddress: request.ip,
+              action: 'user.account_action',
+              entityId: serverUserId,
+              entityName: serverUser.username,
+              serverId: serverUser.serverId,
+              before: { access: result.previousAccess },
+              after: { action: accountAction, libraryIds: null },
+            });
+            results.push({ serverUserId, success: true, error: null });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            results.push({ serverUserId, success: false, error: message });
+          }
+          continue;
+        }
+
+        const reviewRequestedAt = action === 'mark_for_review' ? new Date() : null;
+        await db
+          .update(serverUsers)
+          .set({ reviewRequestedAt, updatedAt: new Date() })
+          .where(eq(serverUsers.id, serverUserId));
+
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: action === 'mark_for_review' ? 'user.review_mark' : 'user.review_clear',
+          entityId: serverUserId,
+          entityName: serverUser.username,
+          serverId: serverUser.serverId,
+          before: { reviewRequestedAt: serverUser.reviewRequestedAt },
+          after: { reviewRequestedAt },
+        });
+        results.push({ serverUserId, success: true, error: null });
+      }
+
+      return { results };
+    }
+  );
+};
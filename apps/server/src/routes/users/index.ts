@@ -10,8 +10,23 @@
  * - GET /:id/full - Get complete user details (aggregate endpoint)
  * - GET /:id/sessions - Get user's session history
  * - GET /:id/locations - Get user's unique locations
+ * - GET/POST /:id/known-locations, PATCH/DELETE /:id/known-locations/:locationId - Manage known locations
+ * - POST /:id/known-locations/learn - Learn known locations from session history
  * - GET /:id/devices - Get user's unique devices
  * - GET /:id/terminations - Get user's termination history
+ * - GET /:id/trust-events - Get user's trust score history
+ * - GET /:id/account, POST /:id/account/actions[/:actionId/undo] - Manage media server access
+ * - POST /:id/account/suspensions[/:suspensionId/extend|lift] - Temporary suspensions
+ * - GET /new - Server accounts that joined recently
+ * - POST /:id/probation/end - End a new account's probation early
+ * - GET /inactive, POST /inactive/actions - Inactive accounts report and bulk cleanup
+ * - GET/POST /groups, PATCH/DELETE /groups/:id - Manage user groups
+ * - GET/POST /policy-profiles, PATCH/DELETE /policy-profiles/:id - Manage policy profiles
+ * - POST /policy-profiles/assign - Assign identities to a policy profile in bulk
+ * - GET /identities/suggestions - Identity merge suggestions
+ * - POST /identities/merge - Merge two identities
+ * - POST /:id/split - Detach a server account into its own identity
+ * - GET /permissions, PUT /permissions/:id - Manage roles and per-server permissions
  */
 
 import type { FastifyPluginAsync } from 'fastify';
@@ -19,8 +34,17 @@ import { listRoutes } from './list.js';
 import { fullRoutes } from './full.js';
 import { sessionsRoutes } from './sessions.js';
 import { locationsRoutes } from './locations.js';
+import { knownLocationsRoutes } from './knownLocations.js';
 import { devicesRoutes } from './devices.js';
 import { terminationsRoutes } from './terminations.js';
+import { trustEventsRoutes } from './trustEvents.js';
+import { accountActionsRoutes } from './accountActions.js';
+import { onboardingRoutes } from './onboarding.js';
+import { inactiveRoutes } from './inactive.js';
+import { groupsRoutes } from './groups.js';
+import { policyProfilesRoutes } from './policyProfiles.js';
+import { identitiesRoutes } from './identities.js';
+import { permissionsRoutes } from './permissions.js';
 
 export const userRoutes: FastifyPluginAsync = async (app) => {
   // Register all sub-route plugins
@@ -29,6 +53,15 @@ export const userRoutes: FastifyPluginAsync = async (app) => {
   await app.register(fullRoutes);
   await app.register(sessionsRoutes);
   await app.register(locationsRoutes);
+  await app.register(knownLocationsRoutes);
   await app.register(devicesRoutes);
   await app.register(terminationsRoutes);
+  await app.register(trustEventsRoutes);
+  await app.register(accountActionsRoutes);
+  await app.register(onboardingRoutes);
+  await app.register(inactiveRoutes);
+  await app.register(groupsRoutes);
+  await app.register(policyProfilesRoutes);
+  await app.register(identitiesRoutes);
+  await app.register(permissionsRoutes);
 };
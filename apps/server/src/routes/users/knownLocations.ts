@@ -0,0 +1,422 @@
+/**
+ * User Known Locations Routes
+ *
+ * Places an identity is known to stream from. Location rules can ignore or
+ * downweight sessions from these (knownLocationMode). Learned locations are
+ * pending, and ignored by rules, until the owner confirms them. The :id param
+ * is a server user; known locations belong to its identity (users.id), so they
+ * apply across all of the identity's server accounts.
+ *
+ * GET /:id/known-locations - List known locations
+ * POST /:id/known-locations - Add a known location
+ * POST /:id/known-locations/learn - Learn known locations from session history
+ * POST /:id/known-locations/:locationId/confirm - Confirm a learned known location
+ * PATCH /:id/known-locations/:locationId - Update a known location
+ * DELETE /:id/known-locations/:locationId - Remove a known location
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, asc, eq } from 'drizzle-orm';
+import {
+  createKnownLocationSchema,
+  updateKnownLocationSchema,
+  knownLocationParamSchema,
+  userIdParamSchema,
+  type KnownLocation,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { knownLocations, serverUsers } from '../../db/schema.js';
+import { learnKnownLocations } from '../../services/knownLocations.js';
+import { recordAudit } from '../../services/audit.js';
+
+type KnownLocationRow = typeof knownLocations.$inferSelect;
+
+function toKnownLocation(row: KnownLocationRow): KnownLocation {
+  return {
+    id: row.id,
+    userId: row.userId,
+    type: row.type,
+    label: row.label,
+    cidr: row.cidr,
+    asn: row.asn,
+    lat: row.lat,
+    lon: row.lon,
+    radiusKm: row.radiusKm,
+    source: row.source,
+    pending: row.pending,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Get the identity and server a server user belongs to
+ */
+async function getServerUser(
+  serverUserId: string
+): Promise<{ userId: string; serverId: string; username: string } | undefined> {
+  const rows = await db
+    .select({
+      userId: serverUsers.userId,
+      serverId: serverUsers.serverId,
+      username: serverUsers.username,
+    })
+    .from(serverUsers)
+    .where(eq(serverUsers.id, serverUserId))
+    .limit(1);
+
+  return rows[0];
+}
+
+export const knownLocationsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /:id/known-locations - List the identity's known locations
+   */
+  app.get(
+    '/:id/known-locations',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const serverUser = await getServerUser(params.data.id);
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!request.user.serverIds.includes(serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      const { userId } = serverUser;
+
+      const rows = await db
+        .select()
+        .from(knownLocations)
+        .where(and(eq(knownLocations.userId, userId), eq(knownLocations.dismissed, false)))
+        .orderBy(asc(knownLocations.createdAt));
+
+      return { data: rows.map(toKnownLocation) };
+    }
+  );
+
+  /**
+   * POST /:id/known-locations - Add a known location
+   */
+  app.post(
+    '/:id/known-locations',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const body = createKnownLocationSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage known locations');
+      }
+
+      const serverUser = await getServerUser(params.data.id);
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!request.user.serverIds.includes(serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      const { userId } = serverUser;
+
+      const inserted = await db
+        .insert(knownLocations)
+        .values({ userId, ...body.data, source: 'manual' })
+        .returning();
+
+      const location = inserted[0];
+      if (!location) {
+        return reply.internalServerError('Failed to create known location');
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'user.location_add',
+        entityId: params.data.id,
+        entityName: serverUser.username,
+        serverId: serverUser.serverId,
+        after: body.data,
+      });
+
+      return reply.status(201).send(toKnownLocation(location));
+    }
+  );
+
+  /**
+   * POST /:id/known-locations/learn - Learn known locations from session history
+   */
+  app.post(
+    '/:id/known-locations/learn',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage known locations');
+      }
+
+      const serverUser = await getServerUser(params.data.id);
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!request.user.serverIds.includes(serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      const { userId } = serverUser;
+
+      const created = await learnKnownLocations(userId);
+
+      if (created.length > 0) {
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.location_learn',
+          entityId: params.data.id,
+          entityName: serverUser.username,
+          serverId: serverUser.serverId,
+          after: { locations: created.map((l) => l.label) },
+        });
+      }
+
+      return { data: created };
+    }
+  );
+
+  /**
+   * POST /:id/known-locations/:locationId/confirm - Confirm a learned known location
+   *
+   * Rules only use learned locations once they are confirmed.
+   */
+  app.post(
+    '/:id/known-locations/:locationId/confirm',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = knownLocationParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid known location ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage known locations');
+      }
+
+      const serverUser = await getServerUser(params.data.id);
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!request.user.serverIds.includes(serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      const updated = await db
+        .update(knownLocations)
+        .set({ pending: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(knownLocations.id, params.data.locationId),
+            eq(knownLocations.userId, serverUser.userId),
+            eq(knownLocations.dismissed, false)
+          )
+        )
+        .returning();
+
+      const location = updated[0];
+      if (!location) {
+        return reply.notFound('Known location not found');
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'user.location_confirm',
+        entityId: params.data.id,
+        entityName: serverUser.username,
+        serverId: serverUser.serverId,
+        after: { label: location.label },
+      });
+
+      return toKnownLocation(location);
+    }
+  );
+
+  /**
+   * PATCH /:id/known-locations/:locationId - Update a known location
+   */
+  app.patch(
+    '/:id/known-locations/:locationId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = knownLocationParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid known location ID');
+      }
+
+      const body = updateKnownLocationSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage known locations');
+      }
+
+      const serverUser = await getServerUser(params.data.id);
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!request.user.serverIds.includes(serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      const { userId } = serverUser;
+
+      const existingRows = await db
+        .select()
+        .from(knownLocations)
+        .where(
+          and(
+            eq(knownLocations.id, params.data.locationId),
+            eq(knownLocations.userId, userId),
+            eq(knownLocations.dismissed, false)
+          )
+        )
+        .limit(1);
+
+      const existing = existingRows[0];
+      if (!existing) {
+        return reply.notFound('Known location not found');
+      }
+
+      // Validate the merged location so a partial update can't leave it incomplete
+      const merged = createKnownLocationSchema.safeParse({
+        type: existing.type,
+        label: body.data.label ?? existing.label,
+        cidr: body.data.cidr ?? existing.cidr,
+        asn: body.data.asn ?? existing.asn,
+        lat: body.data.lat ?? existing.lat,
+        lon: body.data.lon ?? existing.lon,
+        radiusKm: body.data.radiusKm ?? existing.radiusKm,
+      });
+      if (!merged.success) {
+        return reply.badRequest('Invalid known location');
+      }
+
+      const updated = await db
+        .update(knownLocations)
+        .set({ ...merged.data, updatedAt: new Date() })
+        .where(eq(knownLocations.id, existing.id))
+        .returning();
+
+      const location = updated[0];
+      if (!location) {
+        return reply.internalServerError('Failed to update known location');
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'user.location_update',
+        entityId: params.data.id,
+        entityName: serverUser.username,
+        serverId: serverUser.serverId,
+        before: existing,
+        after: merged.data,
+      });
+
+      return toKnownLocation(location);
+    }
+  );
+
+  /**
+   * DELETE /:id/known-locations/:locationId - Remove a known location
+   *
+   * Learned locations are dismissed rather than deleted so the learner
+   * doesn't add them back.
+   */
+  app.delete(
+    '/:id/known-locations/:locationId',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = knownLocationParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid known location ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage known locations');
+      }
+
+      const serverUser = await getServerUser(params.data.id);
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!request.user.serverIds.includes(serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      const { userId } = serverUser;
+
+      const existingRows = await db
+        .select()
+        .from(knownLocations)
+        .where(
+          and(
+            eq(knownLocations.id, params.data.locationId),
+            eq(knownLocations.userId, userId),
+            eq(knownLocations.dismissed, false)
+          )
+        )
+        .limit(1);
+
+      const existing = existingRows[0];
+      if (!existing) {
+        return reply.notFound('Known location not found');
+      }
+
+      if (existing.source === 'learned') {
+        await db
+          .update(knownLocations)
+          .set({ dismissed: true, updatedAt: new Date() })
+          .where(eq(knownLocations.id, existing.id));
+      } else {
+        await db.delete(knownLocations).where(eq(knownLocations.id, existing.id));
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'user.location_remove',
+        entityId: params.data.id,
+        entityName: serverUser.username,
+        serverId: serverUser.serverId,
+        before: existing,
+      });
+
+      return { success: true };
+    }
+  );
+};
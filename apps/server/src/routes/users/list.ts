@@ -10,7 +10,7 @@
  */
 
 import type { FastifyPluginAsync } from 'fastify';
-import { eq, and, sql, inArray } from 'drizzle-orm';
+import { eq, and, sql, inArray, isNull } from 'drizzle-orm';
 import {
   updateUserSchema,
   updateUserIdentitySchema,
@@ -19,9 +19,11 @@ import {
   serverIdFilterSchema,
 } from '@tracearr/shared';
 import { db } from '../../db/client.js';
-import { serverUsers, sessions, servers, users } from '../../db/schema.js';
+import { serverUsers, sessions, servers, users, userSuspensions } from '../../db/schema.js';
 import { hasServerAccess } from '../../utils/serverFiltering.js';
 import { updateUser } from '../../services/userService.js';
+import { recordTrustScoreEvent } from '../../services/trustScore.js';
+import { recordAudit } from '../../services/audit.js';
 
 export const listRoutes: FastifyPluginAsync = async (app) => {
   // Combined schema for pagination and server filter
@@ -85,15 +87,24 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
           isServerAdmin: serverUsers.isServerAdmin,
           trustScore: serverUsers.trustScore,
           sessionCount: serverUsers.sessionCount,
+          joinedAt: serverUsers.joinedAt,
+          source: serverUsers.source,
+          probationUntil: serverUsers.probationUntil,
           createdAt: serverUsers.createdAt,
           updatedAt: serverUsers.updatedAt,
           // Include identity info
           identityName: users.name,
           role: users.role,
+          suspendedUntil: userSuspensions.endsAt,
+          policyProfileId: users.policyProfileId,
         })
         .from(serverUsers)
         .innerJoin(servers, eq(serverUsers.serverId, servers.id))
         .innerJoin(users, eq(serverUsers.userId, users.id))
+        .leftJoin(
+          userSuspensions,
+          and(eq(userSuspensions.serverUserId, serverUsers.id), isNull(userSuspensions.endedAt))
+        )
         .where(conditions.length > 0 ? and(...conditions) : undefined)
         .orderBy(serverUsers.username)
         .limit(pageSize)
@@ -145,6 +156,9 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
           isServerAdmin: serverUsers.isServerAdmin,
           trustScore: serverUsers.trustScore,
           sessionCount: serverUsers.sessionCount,
+          joinedAt: serverUsers.joinedAt,
+          source: serverUsers.source,
+          probationUntil: serverUsers.probationUntil,
           createdAt: serverUsers.createdAt,
           updatedAt: serverUsers.updatedAt,
           // Include identity info
@@ -267,6 +281,31 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
         return reply.internalServerError('Failed to update user');
       }
 
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'user.update',
+        entityId: id,
+        entityName: serverUser.username,
+        serverId: serverUser.serverId,
+        before: serverUser,
+        after: updateData,
+      });
+
+      // Record manual trust score changes in the trust history
+      if (updatedServerUser.trustScore !== serverUser.trustScore) {
+        await recordTrustScoreEvent(
+          db,
+          {
+            serverUserId: id,
+            delta: updatedServerUser.trustScore - serverUser.trustScore,
+            reason: 'manual',
+            actorId: authUser.userId,
+          },
+          updatedServerUser.trustScore
+        );
+      }
+
       return updatedServerUser;
     }
   );
@@ -299,8 +338,14 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
 
       // Get serverUser to find userId (the identity)
       const serverUserRows = await db
-        .select({ userId: serverUsers.userId, serverId: serverUsers.serverId })
+        .select({
+          userId: serverUsers.userId,
+          serverId: serverUsers.serverId,
+          username: users.username,
+          name: users.name,
+        })
         .from(serverUsers)
+        .innerJoin(users, eq(serverUsers.userId, users.id))
         .where(eq(serverUsers.id, id))
         .limit(1);
 
@@ -317,6 +362,17 @@ export const listRoutes: FastifyPluginAsync = async (app) => {
       // Update the identity record (users table)
       const updated = await updateUser(serverUser.userId, { name: body.data.name });
 
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'user.identity_update',
+        entityId: serverUser.userId,
+        entityName: serverUser.username,
+        serverId: serverUser.serverId,
+        before: { name: serverUser.name },
+        after: { name: updated.name },
+      });
+
       return { success: true, name: updated.name };
     }
   );
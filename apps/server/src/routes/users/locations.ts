@@ -16,7 +16,7 @@ export const locationsRoutes: FastifyPluginAsync = async (app) => {
    */
   app.get(
     '/:id/locations',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('view_locations')] },
     async (request, reply) => {
       const params = userIdParamSchema.safeParse(request.params);
       if (!params.success) {
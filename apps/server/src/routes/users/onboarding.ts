@@ -0,0 +1,143 @@
+/**
+ * User Onboarding Routes
+ *
+ * Server accounts record when and how they joined (see ServerUserSource). New
+ * accounts can be on probation, during which rules scoped to probation apply.
+ *
+ * GET /new - Server accounts that joined in the last N days
+ * POST /:id/probation/end - End a server account's probation early
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, desc, eq, gte, inArray } from 'drizzle-orm';
+import { newUsersQuerySchema, userIdParamSchema } from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { serverUsers, servers, users } from '../../db/schema.js';
+import { hasServerAccess } from '../../utils/serverFiltering.js';
+import { recordAudit } from '../../services/audit.js';
+
+// Most accounts returned by the new users feed
+const NEW_USERS_LIMIT = 200;
+
+export const onboardingRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /new - Server accounts that joined recently, newest first
+   */
+  app.get(
+    '/new',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const query = newUsersQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.badRequest('Invalid query parameters');
+      }
+
+      const { days, serverId } = query.data;
+      const authUser = request.user;
+
+      if (serverId && !hasServerAccess(authUser, serverId)) {
+        return reply.forbidden('You do not have access to this server');
+      }
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const conditions = [gte(serverUsers.joinedAt, since)];
+
+      if (serverId) {
+        conditions.push(eq(serverUsers.serverId, serverId));
+      } else if (authUser.role !== 'owner') {
+        if (authUser.serverIds.length === 0) {
+          return { data: [] };
+        }
+        conditions.push(inArray(serverUsers.serverId, authUser.serverIds));
+      }
+
+      const data = await db
+        .select({
+          id: serverUsers.id,
+          serverId: serverUsers.serverId,
+          serverName: servers.name,
+          userId: serverUsers.userId,
+          externalId: serverUsers.externalId,
+          username: serverUsers.username,
+          email: serverUsers.email,
+          thumbUrl: serverUsers.thumbUrl,
+          isServerAdmin: serverUsers.isServerAdmin,
+          trustScore: serverUsers.trustScore,
+          sessionCount: serverUsers.sessionCount,
+          joinedAt: serverUsers.joinedAt,
+          source: serverUsers.source,
+          probationUntil: serverUsers.probationUntil,
+          createdAt: serverUsers.createdAt,
+          updatedAt: serverUsers.updatedAt,
+          identityName: users.name,
+          role: users.role,
+        })
+        .from(serverUsers)
+        .innerJoin(servers, eq(serverUsers.serverId, servers.id))
+        .innerJoin(users, eq(serverUsers.userId, users.id))
+        .where(and(...conditions))
+        .orderBy(desc(serverUsers.joinedAt))
+        .limit(NEW_USERS_LIMIT);
+
+      return { data };
+    }
+  );
+
+  /**
+   * POST /:id/probation/end - End probation early
+   *
+   * Rules scoped to probation stop applying to the account straight away.
+   */
+  app.post(
+    '/:id/probation/end',
+    { preHandler: [app.authenticate, app.requirePermission('manage_accounts')] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const rows = await db
+        .select({
+          id: serverUsers.id,
+          serverId: serverUsers.serverId,
+          username: serverUsers.username,
+          probationUntil: serverUsers.probationUntil,
+        })
+        .from(serverUsers)
+        .where(eq(serverUsers.id, params.data.id))
+        .limit(1);
+
+      const serverUser = rows[0];
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!hasServerAccess(request.user, serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      if (!serverUser.probationUntil || serverUser.probationUntil <= new Date()) {
+        return reply.conflict('User is not on probation');
+      }
+
+      await db
+        .update(serverUsers)
+        .set({ probationUntil: null, updatedAt: new Date() })
+        .where(eq(serverUsers.id, serverUser.id));
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'user.probation_end',
+        entityId: serverUser.id,
+        entityName: serverUser.username,
+        serverId: serverUser.serverId,
+        before: { probationUntil: serverUser.probationUntil },
+        after: { probationUntil: null },
+      });
+
+      return { success: true };
+    }
+  );
+};
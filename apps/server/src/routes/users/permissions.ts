@@ -0,0 +1,81 @@
+/**
+ * User Permission Routes
+ *
+ * Roles and per-server feature permissions for the people who can log in.
+ *
+ * GET /permissions - Users who can log in, with their permissions
+ * PUT /permissions/:id - Set a user's role and permissions
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { updateUserPermissionsSchema, userIdParamSchema } from '@tracearr/shared';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import {
+  getPermissionGrants,
+  listUserPermissions,
+  updateUserPermissions,
+} from '../../services/permissions.js';
+import { requireUserById } from '../../services/userService.js';
+import { recordAudit } from '../../services/audit.js';
+
+export const permissionsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /permissions - Owners, admins and viewers with their grants
+   */
+  app.get(
+    '/permissions',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage permissions');
+      }
+
+      const data = await listUserPermissions();
+      return { data };
+    }
+  );
+
+  /**
+   * PUT /permissions/:id - Replace a user's role and grants
+   */
+  app.put(
+    '/permissions/:id',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const body = updateUserPermissionsSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest(body.error.issues[0]?.message ?? 'Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage permissions');
+      }
+
+      try {
+        const previous = await requireUserById(params.data.id);
+        const previousGrants = await getPermissionGrants(params.data.id);
+        const result = await updateUserPermissions(params.data.id, body.data);
+        await recordAudit({
+          actor: request.user,
+          ipAddress: request.ip,
+          action: 'user.permissions_update',
+          entityId: result.userId,
+          entityName: result.username,
+          before: { role: previous.role, grants: previousGrants },
+          after: { role: result.role, grants: result.grants },
+        });
+        return result;
+      } catch (error) {
+        if (error instanceof NotFoundError) return reply.notFound(error.message);
+        if (error instanceof ConflictError) return reply.conflict(error.message);
+        if (error instanceof ValidationError) return reply.badRequest(error.message);
+        throw error;
+      }
+    }
+  );
+};
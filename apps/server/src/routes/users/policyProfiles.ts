@@ -0,0 +1,301 @@
+/**
+ * Policy Profile Routes
+ *
+ * Named sets of limits (max streams, allowed countries, max transcodes) assigned
+ * to identities. Rules with params.useProfile read their thresholds from the
+ * identity's profile instead of their own params.
+ *
+ * GET /policy-profiles - List all policy profiles with their members
+ * POST /policy-profiles - Create a policy profile
+ * PATCH /policy-profiles/:id - Update a policy profile's limits
+ * DELETE /policy-profiles/:id - Delete a policy profile
+ * POST /policy-profiles/assign - Assign identities to a profile in bulk
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  assignPolicyProfileSchema,
+  createPolicyProfileSchema,
+  policyProfileIdParamSchema,
+  updatePolicyProfileSchema,
+  type PolicyProfile,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { policyProfiles, users } from '../../db/schema.js';
+import { recordAudit } from '../../services/audit.js';
+
+type PolicyProfileRow = typeof policyProfiles.$inferSelect;
+
+/**
+ * Load a profile's members
+ */
+async function getProfileUserIds(profileId: string): Promise<string[]> {
+  const members = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.policyProfileId, profileId));
+
+  return members.map((m) => m.id);
+}
+
+export const policyProfilesRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /policy-profiles - List all policy profiles
+   */
+  app.get(
+    '/policy-profiles',
+    { preHandler: [app.authenticate] },
+    async () => {
+      const profiles = await db.select().from(policyProfiles).orderBy(policyProfiles.name);
+
+      const members =
+        profiles.length > 0
+          ? await db
+              .select({ id: users.id, profileId: users.policyProfileId })
+              .from(users)
+              .where(inArray(users.policyProfileId, profiles.map((p) => p.id)))
+          : [];
+
+      const userIdsByProfile = new Map<string, string[]>();
+      for (const member of members) {
+        if (!member.profileId) continue;
+        const ids = userIdsByProfile.get(member.profileId) ?? [];
+        ids.push(member.id);
+        userIdsByProfile.set(member.profileId, ids);
+      }
+
+      const data: PolicyProfile[] = profiles.map((profile) => ({
+        ...profile,
+        userIds: userIdsByProfile.get(profile.id) ?? [],
+      }));
+
+      return { data };
+    }
+  );
+
+  /**
+   * POST /policy-profiles - Create a policy profile
+   */
+  app.post(
+    '/policy-profiles',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const body = createPolicyProfileSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage policy profiles');
+      }
+
+      const inserted = await db.insert(policyProfiles).values(body.data).returning();
+      const profile = inserted[0]!;
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'policy_profile.create',
+        entityId: profile.id,
+        entityName: profile.name,
+        after: profile,
+      });
+
+      const result: PolicyProfile = { ...profile, userIds: [] };
+      return reply.status(201).send(result);
+    }
+  );
+
+  /**
+   * PATCH /policy-profiles/:id - Update a policy profile
+   *
+   * Rules pick up the new limits on the next session they evaluate.
+   */
+  app.patch(
+    '/policy-profiles/:id',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = policyProfileIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid profile ID');
+      }
+
+      const body = updatePolicyProfileSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage policy profiles');
+      }
+
+      const { id } = params.data;
+
+      const existingRows = await db
+        .select()
+        .from(policyProfiles)
+        .where(eq(policyProfiles.id, id))
+        .limit(1);
+
+      const existing = existingRows[0];
+      if (!existing) {
+        return reply.notFound('Policy profile not found');
+      }
+
+      const updateData: Partial<PolicyProfileRow> = {
+        updatedAt: new Date(),
+      };
+
+      if (body.data.name !== undefined) {
+        updateData.name = body.data.name;
+      }
+
+      if (body.data.description !== undefined) {
+        updateData.description = body.data.description;
+      }
+
+      if (body.data.maxStreams !== undefined) {
+        updateData.maxStreams = body.data.maxStreams;
+      }
+
+      if (body.data.allowedCountries !== undefined) {
+        updateData.allowedCountries = body.data.allowedCountries;
+      }
+
+      if (body.data.maxTranscodes !== undefined) {
+        updateData.maxTranscodes = body.data.maxTranscodes;
+      }
+
+      const updated = await db
+        .update(policyProfiles)
+        .set(updateData)
+        .where(eq(policyProfiles.id, id))
+        .returning();
+
+      const profile = updated[0];
+      if (!profile) {
+        return reply.notFound('Policy profile not found');
+      }
+
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'policy_profile.update',
+        entityId: id,
+        entityName: profile.name,
+        before: existing,
+        after: updateData,
+      });
+
+      const result: PolicyProfile = { ...profile, userIds: await getProfileUserIds(id) };
+      return result;
+    }
+  );
+
+  /**
+   * DELETE /policy-profiles/:id - Delete a policy profile
+   *
+   * Its members are left without a profile, so rules fall back to their own params.
+   */
+  app.delete(
+    '/policy-profiles/:id',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = policyProfileIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid profile ID');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage policy profiles');
+      }
+
+      const deleted = await db
+        .delete(policyProfiles)
+        .where(eq(policyProfiles.id, params.data.id))
+        .returning();
+
+      const profile = deleted[0];
+      if (!profile) {
+        return reply.notFound('Policy profile not found');
+      }
+
+      const { id: _id, ...deletedProfile } = profile;
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'policy_profile.delete',
+        entityId: params.data.id,
+        entityName: profile.name,
+        before: deletedProfile,
+      });
+
+      return { success: true };
+    }
+  );
+
+  /**
+   * POST /policy-profiles/assign - Assign identities to a profile in bulk
+   *
+   * An identity has at most one profile, so this replaces any profile the
+   * identities had. A null profileId clears it.
+   */
+  app.post(
+    '/policy-profiles/assign',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const body = assignPolicyProfileSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
+      if (request.user.role !== 'owner') {
+        return reply.forbidden('Only server owners can manage policy profiles');
+      }
+
+      const { profileId } = body.data;
+      const userIds = [...new Set(body.data.userIds)];
+
+      let profileName: string | null = null;
+      if (profileId) {
+        const existing = await db
+          .select({ name: policyProfiles.name })
+          .from(policyProfiles)
+          .where(eq(policyProfiles.id, profileId))
+          .limit(1);
+
+        if (!existing[0]) {
+          return reply.notFound('Policy profile not found');
+        }
+        profileName = existing[0].name;
+      }
+
+      const found = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(inArray(users.id, userIds));
+
+      if (found.length !== userIds.length) {
+        return reply.badRequest('One or more users not found');
+      }
+
+      await db
+        .update(users)
+        .set({ policyProfileId: profileId, updatedAt: new Date() })
+        .where(inArray(users.id, userIds));
+
+      // A null profile means the identities' profiles were cleared
+      await recordAudit({
+        actor: request.user,
+        ipAddress: request.ip,
+        action: 'policy_profile.assign',
+        entityId: profileId,
+        entityName: profileName,
+        after: { userIds: [...userIds].sort() },
+      });
+
+      return { success: true, updated: userIds.length };
+    }
+  );
+};
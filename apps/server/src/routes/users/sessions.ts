@@ -9,6 +9,8 @@ import { eq, desc, sql } from 'drizzle-orm';
 import { userIdParamSchema, paginationSchema } from '@tracearr/shared';
 import { db } from '../../db/client.js';
 import { serverUsers, sessions, servers } from '../../db/schema.js';
+import { getLocationServerIds } from '../../services/permissions.js';
+import { redactSessionLocation } from '../../utils/serverFiltering.js';
 
 export const sessionsRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -84,6 +86,8 @@ export const sessionsRoutes: FastifyPluginAsync = async (app) => {
           geoCountry: sessions.geoCountry,
           geoLat: sessions.geoLat,
           geoLon: sessions.geoLon,
+          asn: sessions.asn,
+          asnOrg: sessions.asnOrg,
           playerName: sessions.playerName,
           deviceId: sessions.deviceId,
           product: sessions.product,
@@ -108,8 +112,11 @@ export const sessionsRoutes: FastifyPluginAsync = async (app) => {
 
       const total = countResult[0]?.count ?? 0;
 
+      // IP addresses and locations need view_locations on the user's server
+      const locationServerIds = await getLocationServerIds(authUser);
+
       return {
-        data: sessionData,
+        data: sessionData.map((session) => redactSessionLocation(session, locationServerIds)),
         page,
         pageSize,
         total,
@@ -71,6 +71,7 @@ export const terminationsRoutes: FastifyPluginAsync = async (app) => {
           ruleId: terminationLogs.ruleId,
           ruleName: rules.name,
           violationId: terminationLogs.violationId,
+          action: terminationLogs.action,
           reason: terminationLogs.reason,
           success: terminationLogs.success,
           errorMessage: terminationLogs.errorMessage,
@@ -0,0 +1,78 @@
+/**
+ * User Trust Score History Route
+ *
+ * GET /:id/trust-events - How and why a server user's trust score changed
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { and, desc, eq, gte } from 'drizzle-orm';
+import {
+  userIdParamSchema,
+  TIME_MS,
+  TRUST_SCORE_CONFIG,
+  type TrustScoreEvent,
+} from '@tracearr/shared';
+import { db } from '../../db/client.js';
+import { rules, serverUsers, trustScoreEvents, users, violations } from '../../db/schema.js';
+
+export const trustEventsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /:id/trust-events - Trust score changes, oldest first
+   *
+   * Limited to the last HISTORY_DAYS days (and the most recent HISTORY_LIMIT changes).
+   */
+  app.get(
+    '/:id/trust-events',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = userIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid user ID');
+      }
+
+      const { id } = params.data;
+      const authUser = request.user;
+
+      const serverUserRows = await db
+        .select({ serverId: serverUsers.serverId })
+        .from(serverUsers)
+        .where(eq(serverUsers.id, id))
+        .limit(1);
+
+      const serverUser = serverUserRows[0];
+      if (!serverUser) {
+        return reply.notFound('User not found');
+      }
+
+      if (!authUser.serverIds.includes(serverUser.serverId)) {
+        return reply.forbidden('You do not have access to this user');
+      }
+
+      const since = new Date(Date.now() - TRUST_SCORE_CONFIG.HISTORY_DAYS * TIME_MS.DAY);
+
+      const rows = await db
+        .select({
+          id: trustScoreEvents.id,
+          serverUserId: trustScoreEvents.serverUserId,
+          delta: trustScoreEvents.delta,
+          score: trustScoreEvents.score,
+          reason: trustScoreEvents.reason,
+          violationId: trustScoreEvents.violationId,
+          ruleName: rules.name,
+          ruleType: rules.type,
+          actorName: users.username,
+          createdAt: trustScoreEvents.createdAt,
+        })
+        .from(trustScoreEvents)
+        .leftJoin(violations, eq(trustScoreEvents.violationId, violations.id))
+        .leftJoin(rules, eq(violations.ruleId, rules.id))
+        .leftJoin(users, eq(trustScoreEvents.actorId, users.id))
+        .where(and(eq(trustScoreEvents.serverUserId, id), gte(trustScoreEvents.createdAt, since)))
+        .orderBy(desc(trustScoreEvents.createdAt))
+        .limit(TRUST_SCORE_CONFIG.HISTORY_LIMIT);
+
+      const data: TrustScoreEvent[] = rows.reverse();
+      return { data };
+    }
+  );
+};
@@ -1,5 +1,8 @@
 /**
  * Violation management routes
+ *
+ * Violations move through a review workflow (open, investigating, confirmed sharing,
+ * false positive, resolved) with an optional assignee and free-text notes.
  */
 
 import type { FastifyPluginAsync } from 'fastify';
@@ -7,12 +10,68 @@ import { eq, and, desc, gte, lte, isNull, isNotNull, sql, inArray } from 'drizzl
 import {
   violationQuerySchema,
   violationIdParamSchema,
+  updateViolationSchema,
+  createViolationNoteSchema,
+  violationNoteParamSchema,
+  type ViolationAssignee,
+  type ViolationNote,
   type ViolationSessionInfo,
+  type ViolationStatus,
 } from '@tracearr/shared';
 import { db } from '../db/client.js';
-import { violations, rules, serverUsers, sessions, servers, users } from '../db/schema.js';
-import { hasServerAccess } from '../utils/serverFiltering.js';
-import { getTrustScorePenalty } from '../jobs/poller/violations.js';
+import {
+  violations,
+  violationNotes,
+  rules,
+  serverUsers,
+  sessions,
+  servers,
+  users,
+} from '../db/schema.js';
+import {
+  canViewLocation,
+  hasServerAccess,
+  redactSessionLocation,
+} from '../utils/serverFiltering.js';
+import { getLocationServerIds } from '../services/permissions.js';
+import { applyTrustScoreChange } from '../services/trustScore.js';
+import { recordAudit } from '../services/audit.js';
+import { getTrustModel } from './settings.js';
+
+// Statuses that close a review and may carry a dismissal reason
+const DISMISSAL_STATUSES: ViolationStatus[] = ['false_positive', 'resolved'];
+
+// Roles that can be assigned violations to review
+const ASSIGNEE_ROLES = ['owner', 'admin'] as const;
+
+// Violation data that reveals IP addresses, locations or networks
+const LOCATION_DATA_KEYS = [
+  'ips',
+  'locations',
+  'previousLocation',
+  'currentLocation',
+  'ipAddress',
+  'country',
+  'asn',
+  'asnOrg',
+];
+
+/**
+ * Drop IP addresses and locations from violation data, including the data of
+ * each composite condition
+ */
+function redactViolationData(data: Record<string, unknown>): Record<string, unknown> {
+  const redacted = Object.fromEntries(
+    Object.entries(data).filter(([key]) => !LOCATION_DATA_KEYS.includes(key))
+  );
+  if (Array.isArray(data.matchedConditions)) {
+    const conditions = data.matchedConditions as Array<{ data?: Record<string, unknown> }>;
+    redacted.matchedConditions = conditions.map((condition) =>
+      condition.data ? { ...condition, data: redactViolationData(condition.data) } : condition
+    );
+  }
+  return redacted;
+}
 
 export const violationRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -38,6 +97,8 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         ruleId,
         severity,
         acknowledged,
+        status,
+        assigneeId,
         startDate,
         endDate,
       } = query.data;
@@ -96,6 +157,14 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         conditions.push(isNull(violations.acknowledgedAt));
       }
 
+      if (status) {
+        conditions.push(eq(violations.status, status));
+      }
+
+      if (assigneeId) {
+        conditions.push(eq(violations.assigneeId, assigneeId));
+      }
+
       if (startDate) {
         conditions.push(gte(violations.createdAt, startDate));
       }
@@ -131,6 +200,8 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           geoCountry: sessions.geoCountry,
           geoLat: sessions.geoLat,
           geoLon: sessions.geoLon,
+          asn: sessions.asn,
+          asnOrg: sessions.asnOrg,
           playerName: sessions.playerName,
           device: sessions.device,
           deviceId: sessions.deviceId,
@@ -142,6 +213,10 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           data: violations.data,
           createdAt: violations.createdAt,
           acknowledgedAt: violations.acknowledgedAt,
+          status: violations.status,
+          assigneeId: violations.assigneeId,
+          dismissalReason: violations.dismissalReason,
+          trustRestoredAt: violations.trustRestoredAt,
         })
         .from(violations)
         .innerJoin(rules, eq(violations.ruleId, rules.id))
@@ -188,6 +263,14 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         countConditions.push(sql`v.acknowledged_at IS NULL`);
       }
 
+      if (status) {
+        countConditions.push(sql`v.status = ${status}`);
+      }
+
+      if (assigneeId) {
+        countConditions.push(sql`v.assignee_id = ${assigneeId}`);
+      }
+
       if (startDate) {
         countConditions.push(sql`v.created_at >= ${startDate}`);
       }
@@ -211,7 +294,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
 
       // Identify violations that need historical/related data to batch queries
       const violationsNeedingData = violationData.filter((v) =>
-        ['concurrent_streams', 'simultaneous_locations', 'device_velocity'].includes(v.ruleType)
+        ['concurrent_streams', 'simultaneous_locations', 'device_velocity', 'composite'].includes(v.ruleType)
       );
 
       // Collect all relatedSessionIds from violation data for direct lookup
@@ -313,6 +396,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
             const relatedSessionsResult = await db
               .select({
                 id: sessions.id,
+                serverId: sessions.serverId,
                 mediaTitle: sessions.mediaTitle,
                 mediaType: sessions.mediaType,
                 grandparentTitle: sessions.grandparentTitle,
@@ -325,6 +409,8 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
                 geoCountry: sessions.geoCountry,
                 geoLat: sessions.geoLat,
                 geoLon: sessions.geoLon,
+                asn: sessions.asn,
+                asnOrg: sessions.asnOrg,
                 playerName: sessions.playerName,
                 device: sessions.device,
                 deviceId: sessions.deviceId,
@@ -414,6 +500,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
               const sessionsResult = await db
                 .select({
                   id: sessions.id,
+                  serverId: sessions.serverId,
                   mediaTitle: sessions.mediaTitle,
                   mediaType: sessions.mediaType,
                   grandparentTitle: sessions.grandparentTitle,
@@ -426,6 +513,8 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
                   geoCountry: sessions.geoCountry,
                   geoLat: sessions.geoLat,
                   geoLon: sessions.geoLon,
+                  asn: sessions.asn,
+                  asnOrg: sessions.asnOrg,
                   playerName: sessions.playerName,
                   device: sessions.device,
                   deviceId: sessions.deviceId,
@@ -472,8 +561,12 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         console.error('[Violations] Failed to batch fetch historical/related data:', error);
       }
 
+      // IP addresses and locations need view_locations on the violation's server
+      const locationServerIds = await getLocationServerIds(authUser);
+
       // Transform flat data into nested structure expected by frontend
       const formattedData = violationData.map((v) => {
+        const showLocation = canViewLocation(locationServerIds, v.serverId);
         // Fetch related sessions - prioritize using relatedSessionIds from violation data
         // This is more accurate than time-based queries
         const vData = v.data as Record<string, unknown> | null;
@@ -490,7 +583,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           relatedSessions = relatedSessionsByViolation.get(v.id) ?? [];
         }
 
-        // For concurrent_streams, simultaneous_locations, and device_velocity, fetch related sessions
+        // For concurrent_streams, simultaneous_locations, device_velocity and composite, fetch related sessions
         // Also fetch user's historical data for comparison
         let userHistory: {
           previousIPs: string[];
@@ -502,7 +595,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           previousLocations: [],
         };
 
-        if (['concurrent_streams', 'simultaneous_locations', 'device_velocity'].includes(v.ruleType)) {
+        if (['concurrent_streams', 'simultaneous_locations', 'device_velocity', 'composite'].includes(v.ruleType)) {
           const violationTime = v.createdAt;
 
           // Use batched historical data, filtered to this violation's time window
@@ -533,9 +626,9 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           }
 
           userHistory = {
-            previousIPs: Array.from(ipSet),
+            previousIPs: showLocation ? Array.from(ipSet) : [],
             previousDevices: Array.from(deviceSet),
-            previousLocations: Array.from(locationMap.values()),
+            previousLocations: showLocation ? Array.from(locationMap.values()) : [],
           };
         }
 
@@ -545,9 +638,13 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         serverUserId: v.serverUserId,
         sessionId: v.sessionId,
         severity: v.severity,
-        data: v.data,
+        data: showLocation ? v.data : redactViolationData(v.data),
         createdAt: v.createdAt,
         acknowledgedAt: v.acknowledgedAt,
+        status: v.status,
+        assigneeId: v.assigneeId,
+        dismissalReason: v.dismissalReason,
+        trustRestoredAt: v.trustRestoredAt,
         rule: {
           id: v.ruleId,
           name: v.ruleName,
@@ -564,8 +661,9 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           id: v.serverId,
           name: v.serverName,
         },
-        session: {
+        session: redactSessionLocation({
           id: v.sessionId,
+          serverId: v.serverId,
           mediaTitle: v.mediaTitle,
           mediaType: v.mediaType,
           grandparentTitle: v.grandparentTitle,
@@ -578,6 +676,8 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           geoCountry: v.geoCountry,
           geoLat: v.geoLat,
           geoLon: v.geoLon,
+          asn: v.asn,
+          asnOrg: v.asnOrg,
           playerName: v.playerName,
           device: v.device,
           deviceId: v.deviceId ?? null,
@@ -585,8 +685,10 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           product: v.product,
           quality: v.quality,
           startedAt: v.startedAt,
-        },
-        relatedSessions: relatedSessions.length > 0 ? relatedSessions : undefined,
+        }, locationServerIds),
+        relatedSessions: relatedSessions.length > 0
+          ? relatedSessions.map((s) => redactSessionLocation(s, locationServerIds))
+          : undefined,
         userHistory: Object.keys(userHistory.previousIPs).length > 0 ||
                     Object.keys(userHistory.previousDevices).length > 0 ||
                     userHistory.previousLocations.length > 0 ? userHistory : undefined,
@@ -603,6 +705,25 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
     }
   );
 
+  /**
+   * GET /violations/assignees - Identities violations can be assigned to
+   */
+  app.get(
+    '/assignees',
+    { preHandler: [app.authenticate] },
+    async (): Promise<ViolationAssignee[]> => {
+      return db
+        .select({
+          id: users.id,
+          username: users.username,
+          name: users.name,
+        })
+        .from(users)
+        .where(inArray(users.role, [...ASSIGNEE_ROLES]))
+        .orderBy(users.username);
+    }
+  );
+
   /**
    * GET /violations/:id - Get a specific violation
    */
@@ -642,6 +763,10 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           data: violations.data,
           createdAt: violations.createdAt,
           acknowledgedAt: violations.acknowledgedAt,
+          status: violations.status,
+          assigneeId: violations.assigneeId,
+          dismissalReason: violations.dismissalReason,
+          trustRestoredAt: violations.trustRestoredAt,
         })
         .from(violations)
         .innerJoin(rules, eq(violations.ruleId, rules.id))
@@ -662,35 +787,58 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         return reply.forbidden('You do not have access to this violation');
       }
 
-      return violation;
+      // IP addresses and locations need view_locations on the violation's server
+      const locationServerIds = await getLocationServerIds(authUser);
+      if (canViewLocation(locationServerIds, violation.serverId)) {
+        return violation;
+      }
+      return {
+        ...redactSessionLocation(violation, locationServerIds),
+        data: redactViolationData(violation.data),
+      };
     }
   );
 
   /**
-   * PATCH /violations/:id - Acknowledge a violation
+   * PATCH /violations/:id - Review a violation
+   *
+   * An empty body only acknowledges the violation. Otherwise updates the status,
+   * assignee and dismissal reason. Marking a false positive with restoreTrust
+   * refunds the trust score penalty; leaving false positive (or sending
+   * restoreTrust: false) charges it again.
    */
   app.patch(
     '/:id',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('acknowledge_violations')] },
     async (request, reply) => {
       const params = violationIdParamSchema.safeParse(request.params);
       if (!params.success) {
         return reply.badRequest('Invalid violation ID');
       }
 
+      const body = updateViolationSchema.safeParse(request.body ?? {});
+      if (!body.success) {
+        return reply.badRequest('Invalid request body');
+      }
+
       const { id } = params.data;
       const authUser = request.user;
 
-      // Only owners can acknowledge violations
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can acknowledge violations');
-      }
-
       // Check violation exists and get server info for access check
       const violationRows = await db
         .select({
           id: violations.id,
           serverId: serverUsers.serverId,
+          serverUserId: violations.serverUserId,
+          username: serverUsers.username,
+          severity: violations.severity,
+          status: violations.status,
+          assigneeId: violations.assigneeId,
+          dismissalReason: violations.dismissalReason,
+          acknowledgedAt: violations.acknowledgedAt,
+          trustRestoredAt: violations.trustRestoredAt,
+          trustPenalty: violations.trustPenalty,
+          trustDecayedAt: violations.trustDecayedAt,
         })
         .from(violations)
         .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
@@ -707,26 +855,153 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         return reply.forbidden('You do not have access to this violation');
       }
 
-      // Update acknowledgment
-      const updated = await db
-        .update(violations)
-        .set({
-          acknowledgedAt: new Date(),
-        })
-        .where(eq(violations.id, id))
-        .returning({
-          id: violations.id,
-          acknowledgedAt: violations.acknowledgedAt,
+      const { status, assigneeId, dismissalReason, restoreTrust } = body.data;
+
+      // No review fields - plain acknowledgment
+      if (
+        status === undefined &&
+        assigneeId === undefined &&
+        dismissalReason === undefined &&
+        restoreTrust === undefined
+      ) {
+        const updated = await db
+          .update(violations)
+          .set({
+            acknowledgedAt: new Date(),
+          })
+          .where(eq(violations.id, id))
+          .returning({
+            id: violations.id,
+            acknowledgedAt: violations.acknowledgedAt,
+          });
+
+        const updatedViolation = updated[0];
+        if (!updatedViolation) {
+          return reply.internalServerError('Failed to acknowledge violation');
+        }
+
+        await recordAudit({
+          actor: authUser,
+          ipAddress: request.ip,
+          action: 'violation.update',
+          entityId: id,
+          entityName: violation.username,
+          serverId: violation.serverId,
+          before: violation,
+          after: { acknowledgedAt: updatedViolation.acknowledgedAt },
         });
 
-      const updatedViolation = updated[0];
+        return {
+          success: true,
+          acknowledgedAt: updatedViolation.acknowledgedAt,
+        };
+      }
+
+      const nextStatus = status ?? violation.status;
+      const isDismissal = DISMISSAL_STATUSES.includes(nextStatus);
+
+      if (dismissalReason && !isDismissal) {
+        return reply.badRequest(
+          'A dismissal reason only applies to false positives and resolved violations'
+        );
+      }
+      if (restoreTrust && nextStatus !== 'false_positive') {
+        return reply.badRequest('Trust can only be restored for false positives');
+      }
+
+      if (assigneeId) {
+        const assigneeRows = await db
+          .select({ id: users.id })
+          .from(users)
+          .where(and(eq(users.id, assigneeId), inArray(users.role, [...ASSIGNEE_ROLES])))
+          .limit(1);
+        if (assigneeRows.length === 0) {
+          return reply.badRequest('Violations can only be assigned to owners and admins');
+        }
+      }
+
+      // Decayed penalties were already refunded for good
+      const wasRestored = violation.trustRestoredAt !== null;
+      const wasDecayed = violation.trustDecayedAt !== null;
+      const refund =
+        !wasRestored && !wasDecayed && nextStatus === 'false_positive' && restoreTrust === true;
+      const charge = wasRestored && (nextStatus !== 'false_positive' || restoreTrust === false);
+      const trustModel = refund || charge ? await getTrustModel() : null;
+
+      const updates: Partial<typeof violations.$inferInsert> = {};
+      if (status !== undefined) {
+        updates.status = status;
+        // Reviewing implies the violation was seen; reopening puts it back in the queue
+        if (status === 'open') {
+          updates.acknowledgedAt = null;
+        } else if (!violation.acknowledgedAt) {
+          updates.acknowledgedAt = new Date();
+        }
+      }
+      if (assigneeId !== undefined) {
+        updates.assigneeId = assigneeId;
+      }
+      if (dismissalReason !== undefined) {
+        updates.dismissalReason = dismissalReason || null;
+      } else if (!isDismissal) {
+        updates.dismissalReason = null;
+      }
+      if (refund) {
+        updates.trustRestoredAt = new Date();
+      } else if (charge) {
+        updates.trustRestoredAt = null;
+      }
+
+      // Update review state and trust score atomically
+      const updatedViolation = await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(violations)
+          .set(updates)
+          .where(eq(violations.id, id))
+          .returning({
+            id: violations.id,
+            status: violations.status,
+            assigneeId: violations.assigneeId,
+            dismissalReason: violations.dismissalReason,
+            trustRestoredAt: violations.trustRestoredAt,
+            acknowledgedAt: violations.acknowledgedAt,
+          });
+
+        if (trustModel) {
+          await applyTrustScoreChange(
+            tx,
+            {
+              serverUserId: violation.serverUserId,
+              delta: refund ? violation.trustPenalty : -violation.trustPenalty,
+              reason: refund ? 'violation_restored' : 'violation_recharged',
+              violationId: violation.id,
+              actorId: authUser.userId,
+            },
+            trustModel
+          );
+        }
+
+        return updated;
+      });
+
       if (!updatedViolation) {
-        return reply.internalServerError('Failed to acknowledge violation');
+        return reply.internalServerError('Failed to update violation');
       }
 
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'violation.update',
+        entityId: id,
+        entityName: violation.username,
+        serverId: violation.serverId,
+        before: violation,
+        after: updates,
+      });
+
       return {
         success: true,
-        acknowledgedAt: updatedViolation.acknowledgedAt,
+        ...updatedViolation,
       };
     }
   );
@@ -736,7 +1011,7 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
    */
   app.delete(
     '/:id',
-    { preHandler: [app.authenticate] },
+    { preHandler: [app.authenticate, app.requirePermission('acknowledge_violations')] },
     async (request, reply) => {
       const params = violationIdParamSchema.safeParse(request.params);
       if (!params.success) {
@@ -746,11 +1021,6 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
       const { id } = params.data;
       const authUser = request.user;
 
-      // Only owners can delete violations
-      if (authUser.role !== 'owner') {
-        return reply.forbidden('Only server owners can dismiss violations');
-      }
-
       // Check violation exists and get info needed for trust score restoration
       const violationRows = await db
         .select({
@@ -758,6 +1028,11 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
           severity: violations.severity,
           serverUserId: violations.serverUserId,
           serverId: serverUsers.serverId,
+          username: serverUsers.username,
+          status: violations.status,
+          trustRestoredAt: violations.trustRestoredAt,
+          trustPenalty: violations.trustPenalty,
+          trustDecayedAt: violations.trustDecayedAt,
         })
         .from(violations)
         .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
@@ -774,25 +1049,213 @@ export const violationRoutes: FastifyPluginAsync = async (app) => {
         return reply.forbidden('You do not have access to this violation');
       }
 
-      // Calculate trust penalty to restore
-      const trustPenalty = getTrustScorePenalty(violation.severity);
+      // Already refunded when it was marked a false positive or decayed
+      const restore = !violation.trustRestoredAt && !violation.trustDecayedAt;
+      const trustModel = restore ? await getTrustModel() : null;
 
       // Delete violation and restore trust score atomically
       await db.transaction(async (tx) => {
         // Delete the violation
         await tx.delete(violations).where(eq(violations.id, id));
 
-        // Restore trust score (capped at 100)
-        await tx
-          .update(serverUsers)
-          .set({
-            trustScore: sql`LEAST(100, ${serverUsers.trustScore} + ${trustPenalty})`,
-            updatedAt: new Date(),
-          })
-          .where(eq(serverUsers.id, violation.serverUserId));
+        if (!trustModel) return;
+
+        // Restore the penalty it was charged (capped at the model's ceiling)
+        await applyTrustScoreChange(
+          tx,
+          {
+            serverUserId: violation.serverUserId,
+            delta: violation.trustPenalty,
+            reason: 'violation_restored',
+            actorId: authUser.userId,
+          },
+          trustModel
+        );
+      });
+
+      await recordAudit({
+        actor: authUser,
+        ipAddress: request.ip,
+        action: 'violation.delete',
+        entityId: id,
+        entityName: violation.username,
+        serverId: violation.serverId,
+        before: {
+          severity: violation.severity,
+          status: violation.status,
+          trustPenalty: violation.trustPenalty,
+        },
       });
 
       return { success: true };
     }
   );
+
+  /**
+   * GET /violations/:id/notes - Review notes, oldest first
+   */
+  app.get(
+    '/:id/notes',
+    { preHandler: [app.authenticate] },
+    async (request, reply) => {
+      const params = violationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid violation ID');
+      }
+
+      const { id } = params.data;
+      const authUser = request.user;
+
+      const violationRows = await db
+        .select({
+          id: violations.id,
+          serverId: serverUsers.serverId,
+        })
+        .from(violations)
+        .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
+        .where(eq(violations.id, id))
+        .limit(1);
+
+      const violation = violationRows[0];
+      if (!violation) {
+        return reply.notFound('Violation not found');
+      }
+
+      if (!hasServerAccess(authUser, violation.serverId)) {
+        return reply.forbidden('You do not have access to this violation');
+      }
+
+      const notes: ViolationNote[] = await db
+        .select({
+          id: violationNotes.id,
+          violationId: violationNotes.violationId,
+          authorId: violationNotes.authorId,
+          authorName: users.username,
+          body: violationNotes.body,
+          createdAt: violationNotes.createdAt,
+        })
+        .from(violationNotes)
+        .leftJoin(users, eq(violationNotes.authorId, users.id))
+        .where(eq(violationNotes.violationId, id))
+        .orderBy(violationNotes.createdAt);
+
+      return { data: notes };
+    }
+  );
+
+  /**
+   * POST /violations/:id/notes - Add a review note
+   */
+  app.post(
+    '/:id/notes',
+    { preHandler: [app.authenticate, app.requirePermission('acknowledge_violations')] },
+    async (request, reply) => {
+      const params = violationIdParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid violation ID');
+      }
+
+      const body = createViolationNoteSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.badRequest('Note cannot be empty');
+      }
+
+      const { id } = params.data;
+      const authUser = request.user;
+
+      const violationRows = await db
+        .select({
+          id: violations.id,
+          serverId: serverUsers.serverId,
+        })
+        .from(violations)
+        .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
+        .where(eq(violations.id, id))
+        .limit(1);
+
+      const violation = violationRows[0];
+      if (!violation) {
+        return reply.notFound('Violation not found');
+      }
+
+      if (!hasServerAccess(authUser, violation.serverId)) {
+        return reply.forbidden('You do not have access to this violation');
+      }
+
+      const [note] = await db
+        .insert(violationNotes)
+        .values({
+          violationId: id,
+          authorId: authUser.userId,
+          body: body.data.body,
+        })
+        .returning();
+
+      if (!note) {
+        return reply.internalServerError('Failed to add note');
+      }
+
+      const result: ViolationNote = {
+        ...note,
+        authorName: authUser.username,
+      };
+
+      return reply.status(201).send(result);
+    }
+  );
+
+  /**
+   * DELETE /violations/:id/notes/:noteId - Delete a review note
+   *
+   * Only the note's author or an owner can delete it.
+   */
+  app.delete(
+    '/:id/notes/:noteId',
+    { preHandler: [app.authenticate, app.requirePermission('acknowledge_violations')] },
+    async (request, reply) => {
+      const params = violationNoteParamSchema.safeParse(request.params);
+      if (!params.success) {
+        return reply.badRequest('Invalid note ID');
+      }
+
+      const { id, noteId } = params.data;
+      const authUser = request.user;
+
+      const violationRows = await db
+        .select({ serverId: serverUsers.serverId })
+        .from(violations)
+        .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
+        .where(eq(violations.id, id))
+        .limit(1);
+
+      const violation = violationRows[0];
+      if (!violation) {
+        return reply.notFound('Violation not found');
+      }
+
+      if (!hasServerAccess(authUser, violation.serverId)) {
+        return reply.forbidden('You do not have access to this violation');
+      }
+
+      const noteRows = await db
+        .select({ authorId: violationNotes.authorId })
+        .from(violationNotes)
+        .where(and(eq(violationNotes.id, noteId), eq(violationNotes.violationId, id)))
+        .limit(1);
+
+      const note = noteRows[0];
+      if (!note) {
+        return reply.notFound('Note not found');
+      }
+
+      // Notes stay part of the review trail - only their author or an owner removes them
+      if (authUser.role !== 'owner' && note.authorId !== authUser.userId) {
+        return reply.forbidden('Only the author of a note can delete it');
+      }
+
+      await db.delete(violationNotes).where(eq(violationNotes.id, noteId));
+
+      return { success: true };
+    }
+  );
 };
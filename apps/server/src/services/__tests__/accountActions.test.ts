@@ -0,0 +1,378 @@
+/**
+ * Account Action Service Tests
+ *
+ * Tests services/accountActions.ts:
+ * - executeAccountAction: Per-server support, snapshot of previous access, logging failures
+ * - undoAccountAction: Restoring the previous access and refusing repeat undos
+ * - getAccountStatus: Reporting media server errors without failing
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { ServerAccountAccess, ServerType } from '@tracearr/shared';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    query: { serverUsers: { findFirst: vi.fn() } },
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+const mockClient = {
+  getUserAccess: vi.fn(),
+  setUserDisabled: vi.fn(),
+  removeShare: vi.fn(),
+  setUserLibraries: vi.fn(),
+  getLibraries: vi.fn(),
+};
+
+vi.mock('../mediaServer/index.js', () => ({
+  createMediaServerClient: vi.fn(() => mockClient),
+}));
+
+import { db } from '../../db/client.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import {
+  executeAccountAction,
+  getAccountStatus,
+  isAccountActionSupported,
+  undoAccountAction,
+} from '../accountActions.js';
+
+const mockDb = db as unknown as {
+  query: { serverUsers: { findFirst: ReturnType<typeof vi.fn> } };
+  select: ReturnType<typeof vi.fn>;
+  insert: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+
+const fullAccess: ServerAccountAccess = { isDisabled: false, isShared: true, libraryIds: null };
+
+function mockServerUser(type: ServerType, overrides: Record<string, unknown> = {}) {
+  const serverUser = {
+    id: randomUUID(),
+    serverId: randomUUID(),
+    externalId: 'ext-1',
+    username: 'sharer',
+    isServerAdmin: false,
+    server: { type, url: 'http://media.local', token: 'token' },
+    ...overrides,
+  };
+  mockDb.query.serverUsers.findFirst.mockResolvedValue(serverUser);
+  return serverUser;
+}
+
+function mockInsert() {
+  const values = vi.fn().mockReturnValue({
+    returning: vi.fn().mockResolvedValue([{ id: 'log-1' }]),
+  });
+  mockDb.insert.mockReturnValue({ values });
+  return values;
+}
+
+function mockActionRow(row: Record<string, unknown> | undefined) {
+  mockDb.select.mockReturnValueOnce({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(row ? [row] : []),
+      }),
+    }),
+  });
+}
+
+function mockUpdate() {
+  const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+  mockDb.update.mockReturnValue({ set });
+  return set;
+}
+
+describe('accountActions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isAccountActionSupported', () => {
+    it('only allows disabling on Jellyfin and Emby and unsharing on Plex', () => {
+      expect(isAccountActionSupported('jellyfin', 'disable_user')).toBe(true);
+      expect(isAccountActionSupported('emby', 'disable_user')).toBe(true);
+      expect(isAccountActionSupported('plex', 'disable_user')).toBe(false);
+      expect(isAccountActionSupported('plex', 'remove_share')).toBe(true);
+      expect(isAccountActionSupported('jellyfin', 'remove_share')).toBe(false);
+      expect(isAccountActionSupported('plex', 'restrict_libraries')).toBe(true);
+    });
+  });
+
+  describe('executeAccountAction', () => {
+    it('disables the account and logs the access it replaced', async () => {
+      const serverUser = mockServerUser('jellyfin');
+      const values = mockInsert();
+      mockClient.getUserAccess.mockResolvedValue(fullAccess);
+      mockClient.setUserDisabled.mockResolvedValue(undefined);
+
+      const result = await executeAccountAction({
+        serverUserId: serverUser.id,
+        action: 'disable_user',
+        trigger: 'manual',
+        triggeredByUserId: 'admin-1',
+      });
+
+      expect(mockClient.setUserDisabled).toHaveBeenCalledWith('ext-1', true);
+      expect(result).toEqual({
+        success: true,
+        accountActionId: 'log-1',
+        previousAccess: fullAccess,
+        error: undefined,
+      });
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serverId: serverUser.serverId,
+          serverUserId: serverUser.id,
+          action: 'disable_user',
+          trigger: 'manual',
+          triggeredByUserId: 'admin-1',
+          libraryIds: null,
+          previousAccess: fullAccess,
+          success: true,
+          errorMessage: null,
+        })
+      );
+    });
+
+    it('restricts libraries to the chosen ones', async () => {
+      const serverUser = mockServerUser('plex');
+      const values = mockInsert();
+      mockClient.getUserAccess.mockResolvedValue(fullAccess);
+
+      await executeAccountAction({
+        serverUserId: serverUser.id,
+        action: 'restrict_libraries',
+        libraryIds: ['1', '4'],
+        trigger: 'manual',
+      });
+
+      expect(mockClient.setUserLibraries).toHaveBeenCalledWith('ext-1', ['1', '4']);
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ libraryIds: ['1', '4'] }));
+    });
+
+    it('logs media server failures instead of throwing', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const serverUser = mockServerUser('plex');
+      const values = mockInsert();
+      mockClient.getUserAccess.mockResolvedValue(fullAccess);
+      mockClient.removeShare.mockRejectedValue(new Error('plex.tv unreachable'));
+
+      const result = await executeAccountAction({
+        serverUserId: serverUser.id,
+        action: 'remove_share',
+        trigger: 'rule',
+        ruleId: 'rule-1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('plex.tv unreachable');
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, errorMessage: 'plex.tv unreachable' })
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('rejects actions the server type does not support', async () => {
+      const serverUser = mockServerUser('plex');
+
+      await expect(
+        executeAccountAction({
+          serverUserId: serverUser.id,
+          action: 'disable_user',
+          trigger: 'manual',
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockClient.getUserAccess).not.toHaveBeenCalled();
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('refuses to change server admin accounts', async () => {
+      const serverUser = mockServerUser('jellyfin', { isServerAdmin: true });
+
+      await expect(
+        executeAccountAction({
+          serverUserId: serverUser.id,
+          action: 'disable_user',
+          trigger: 'manual',
+        })
+      ).rejects.toThrow('Server admin accounts cannot be changed');
+    });
+
+    it('throws when the server user does not exist', async () => {
+      mockDb.query.serverUsers.findFirst.mockResolvedValue(undefined);
+
+      await expect(
+        executeAccountAction({
+          serverUserId: randomUUID(),
+          action: 'disable_user',
+          trigger: 'manual',
+        })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('undoAccountAction', () => {
+    it('re-enables a disabled account', async () => {
+      const serverUser = mockServerUser('emby');
+      mockActionRow({
+        id: 'log-1',
+        serverUserId: serverUser.id,
+        action: 'disable_user',
+        success: true,
+        previousAccess: fullAccess,
+        undoneAt: null,
+      });
+      const set = mockUpdate();
+
+      const result = await undoAccountAction({
+        accountActionId: 'log-1',
+        serverUserId: serverUser.id,
+        undoneByUserId: 'admin-1',
+      });
+
+      expect(mockClient.setUserDisabled).toHaveBeenCalledWith('ext-1', false);
+      expect(result).toEqual({ success: true, action: 'disable_user', restoredAccess: fullAccess });
+      expect(set).toHaveBeenCalledWith({ undoneAt: expect.any(Date), undoneByUserId: 'admin-1' });
+    });
+
+    it('re-shares the previous libraries after a removed share', async () => {
+      const serverUser = mockServerUser('plex');
+      const previousAccess = { isDisabled: false, isShared: true, libraryIds: ['1', '2'] };
+      mockActionRow({
+        id: 'log-1',
+        serverUserId: serverUser.id,
+        action: 'remove_share',
+        success: true,
+        previousAccess,
+        undoneAt: null,
+      });
+      mockUpdate();
+
+      await undoAccountAction({
+        accountActionId: 'log-1',
+        serverUserId: serverUser.id,
+        undoneByUserId: 'admin-1',
+      });
+
+      expect(mockClient.setUserLibraries).toHaveBeenCalledWith('ext-1', ['1', '2']);
+    });
+
+    it('refuses to undo an action twice', async () => {
+      const serverUserId = randomUUID();
+      mockActionRow({
+        id: 'log-1',
+        serverUserId,
+        action: 'disable_user',
+        success: true,
+        previousAccess: fullAccess,
+        undoneAt: new Date(),
+      });
+
+      await expect(
+        undoAccountAction({ accountActionId: 'log-1', serverUserId, undoneByUserId: 'admin-1' })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('does not find actions that belong to another user', async () => {
+      mockActionRow({
+        id: 'log-1',
+        serverUserId: randomUUID(),
+        action: 'disable_user',
+        success: true,
+        previousAccess: fullAccess,
+        undoneAt: null,
+      });
+
+      await expect(
+        undoAccountAction({
+          accountActionId: 'log-1',
+          serverUserId: randomUUID(),
+          undoneByUserId: 'admin-1',
+        })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('leaves the action in place when the media server fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const serverUser = mockServerUser('jellyfin');
+      mockActionRow({
+        id: 'log-1',
+        serverUserId: serverUser.id,
+        action: 'disable_user',
+        success: true,
+        previousAccess: fullAccess,
+        undoneAt: null,
+      });
+      mockClient.setUserDisabled.mockRejectedValue(new Error('Unauthorized'));
+
+      const result = await undoAccountAction({
+        accountActionId: 'log-1',
+        serverUserId: serverUser.id,
+        undoneByUserId: 'admin-1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unauthorized');
+      expect(mockDb.update).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('getAccountStatus', () => {
+    function mockHistory(rows: unknown[]) {
+      const chain: Record<string, unknown> = {};
+      for (const method of ['from', 'leftJoin', 'where', 'orderBy']) {
+        chain[method] = vi.fn(() => chain);
+      }
+      chain.limit = vi.fn().mockResolvedValue(rows);
+      mockDb.select.mockReturnValueOnce(chain);
+    }
+
+    it('returns access, libraries and supported actions', async () => {
+      const serverUser = mockServerUser('plex');
+      mockClient.getUserAccess.mockResolvedValue(fullAccess);
+      mockClient.getLibraries.mockResolvedValue([{ id: '1', name: 'Movies', type: 'movie' }]);
+      mockHistory([]);
+
+      const status = await getAccountStatus(serverUser.id);
+
+      expect(status).toEqual({
+        access: fullAccess,
+        error: null,
+        supportedActions: ['remove_share', 'restrict_libraries'],
+        libraries: [{ id: '1', name: 'Movies' }],
+        actions: [],
+      });
+    });
+
+    it('reports media server errors and still returns history', async () => {
+      const serverUser = mockServerUser('jellyfin');
+      mockClient.getUserAccess.mockRejectedValue(new Error('Connection refused'));
+      mockClient.getLibraries.mockResolvedValue([]);
+      mockHistory([{ id: 'log-1' }]);
+
+      const status = await getAccountStatus(serverUser.id);
+
+      expect(status.access).toBeNull();
+      expect(status.error).toBe('Connection refused');
+      expect(status.actions).toEqual([{ id: 'log-1' }]);
+    });
+
+    it('offers no actions for server admins', async () => {
+      const serverUser = mockServerUser('jellyfin', { isServerAdmin: true });
+      mockClient.getUserAccess.mockResolvedValue(fullAccess);
+      mockClient.getLibraries.mockResolvedValue([]);
+      mockHistory([]);
+
+      const status = await getAccountStatus(serverUser.id);
+
+      expect(status.supportedActions).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * ASN Service Tests
+ *
+ * Tests the ASNService class from asn.ts with mocked readers:
+ * - lookup: ASN and organization of an IP
+ * - getAnonymousCategories: Mapping of anonymous IP flags to categories
+ * - Graceful degradation when no database is loaded
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ASNService } from '../asn.js';
+
+describe('ASNService', () => {
+  let service: ASNService;
+
+  beforeEach(() => {
+    service = new ASNService();
+  });
+
+  describe('lookup', () => {
+    it('should return null network when no database loaded', () => {
+      expect(service.hasDatabase()).toBe(false);
+      expect(service.lookup('8.8.8.8')).toEqual({ asn: null, asnOrg: null });
+    });
+
+    it('should return ASN and organization from the database', () => {
+      (service as any).asnReader = {
+        get: vi.fn().mockReturnValue({
+          autonomous_system_number: 15169,
+          autonomous_system_organization: 'GOOGLE',
+        }),
+      };
+
+      expect(service.lookup('8.8.8.8')).toEqual({ asn: 15169, asnOrg: 'GOOGLE' });
+    });
+
+    it('should not look up private IPs', () => {
+      const get = vi.fn();
+      (service as any).asnReader = { get };
+
+      expect(service.lookup('192.168.1.1')).toEqual({ asn: null, asnOrg: null });
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it('should return null network when the IP is not in the database', () => {
+      (service as any).asnReader = { get: vi.fn().mockReturnValue(null) };
+
+      expect(service.lookup('8.8.8.8')).toEqual({ asn: null, asnOrg: null });
+    });
+
+    it('should return null network when the reader throws', () => {
+      (service as any).asnReader = {
+        get: vi.fn().mockImplementation(() => {
+          throw new Error('Invalid IP');
+        }),
+      };
+
+      expect(service.lookup('not-an-ip')).toEqual({ asn: null, asnOrg: null });
+    });
+  });
+
+  describe('getAnonymousCategories', () => {
+    it('should return no categories when no database loaded', () => {
+      expect(service.hasAnonymousDatabase()).toBe(false);
+      expect(service.getAnonymousCategories('8.8.8.8')).toEqual([]);
+    });
+
+    it('should map anonymous IP flags to categories', () => {
+      (service as any).anonymousReader = {
+        get: vi.fn().mockReturnValue({
+          is_anonymous: true,
+          is_hosting_provider: true,
+          is_anonymous_vpn: true,
+          is_tor_exit_node: true,
+          is_public_proxy: false,
+          is_residential_proxy: true,
+        }),
+      };
+
+      expect(service.getAnonymousCategories('203.0.113.10')).toEqual([
+        'hosting',
+        'vpn',
+        'tor',
+        'proxy',
+      ]);
+    });
+
+    it('should return no categories for a clean IP', () => {
+      (service as any).anonymousReader = {
+        get: vi.fn().mockReturnValue({ is_anonymous: false }),
+      };
+
+      expect(service.getAnonymousCategories('203.0.113.10')).toEqual([]);
+    });
+
+    it('should not look up private IPs', () => {
+      const get = vi.fn();
+      (service as any).anonymousReader = { get };
+
+      expect(service.getAnonymousCategories('10.0.0.1')).toEqual([]);
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Audit Service Tests
+ *
+ * Tests change diffing, secret redaction and CSV export of audit log entries.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { AuditLogEntry } from '@tracearr/shared';
+
+const mockValues = vi.fn();
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    insert: vi.fn(() => ({ values: mockValues })),
+  },
+}));
+
+import { diffAuditChanges, formatAuditCsv, recordAudit } from '../audit.js';
+
+const actor = { userId: randomUUID(), username: 'owner' };
+
+function createEntry(overrides: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    id: randomUUID(),
+    actorId: actor.userId,
+    actorName: actor.username,
+    action: 'rule.update',
+    entityType: 'rule',
+    entityId: randomUUID(),
+    entityName: 'Concurrent streams',
+    serverId: null,
+    changes: { isActive: { before: true, after: false } },
+    ipAddress: '10.0.0.1',
+    createdAt: new Date('2026-01-02T03:04:05.000Z'),
+    ...overrides,
+  };
+}
+
+describe('diffAuditChanges', () => {
+  it('only compares the fields that were updated', () => {
+    const changes = diffAuditChanges(
+      { name: 'Old', isActive: true, params: { maxStreams: 2 } },
+      { name: 'New', isActive: true }
+    );
+
+    expect(changes).toEqual({ name: { before: 'Old', after: 'New' } });
+  });
+
+  it('records every field of a created or deleted record', () => {
+    expect(diffAuditChanges(undefined, { name: 'Rule', isActive: true })).toEqual({
+      name: { before: null, after: 'Rule' },
+      isActive: { before: null, after: true },
+    });
+    expect(diffAuditChanges({ name: 'Rule' }, undefined)).toEqual({
+      name: { before: 'Rule', after: null },
+    });
+  });
+
+  it('ignores key order in nested objects', () => {
+    const changes = diffAuditChanges(
+      { params: { maxStreams: 2, includeSameDevice: false } },
+      { params: { includeSameDevice: false, maxStreams: 2 } }
+    );
+
+    expect(changes).toEqual({});
+  });
+
+  it('compares dates by value and skips bookkeeping fields', () => {
+    const changes = diffAuditChanges(
+      { acknowledgedAt: new Date('2026-01-01T00:00:00.000Z'), updatedAt: new Date(0) },
+      { acknowledgedAt: new Date('2026-01-01T00:00:00.000Z'), updatedAt: new Date() }
+    );
+
+    expect(changes).toEqual({});
+  });
+
+  it('redacts secrets but keeps whether they were set', () => {
+    const changes = diffAuditChanges(
+      { webhookUrl: null, tautulliApiKey: 'old-key' },
+      { webhookUrl: 'https://discord.com/api/webhooks/1', tautulliApiKey: null }
+    );
+
+    expect(changes).toEqual({
+      webhookUrl: { before: null, after: '[redacted]' },
+      tautulliApiKey: { before: '[redacted]', after: null },
+    });
+  });
+
+  it('redacts secrets nested in objects and arrays', () => {
+    const changes = diffAuditChanges(
+      { destinations: [] },
+      { destinations: [{ name: 'Alerts', settings: { authToken: 'bot-token', chatId: '42' } }] }
+    );
+
+    expect(changes).toEqual({
+      destinations: {
+        before: [],
+        after: [{ name: 'Alerts', settings: { authToken: '[redacted]', chatId: '42' } }],
+      },
+    });
+  });
+});
+
+describe('recordAudit', () => {
+  beforeEach(() => {
+    mockValues.mockReset();
+  });
+
+  it('writes the entry with the entity type taken from the action', async () => {
+    const ruleId = randomUUID();
+
+    await recordAudit({
+      actor,
+      ipAddress: '10.0.0.1',
+      action: 'rule.update',
+      entityId: ruleId,
+      before: { isActive: true },
+      after: { isActive: false },
+    });
+
+    expect(mockValues).toHaveBeenCalledWith({
+      actorId: actor.userId,
+      actorName: 'owner',
+      action: 'rule.update',
+      entityType: 'rule',
+      entityId: ruleId,
+      entityName: null,
+      serverId: null,
+      changes: { isActive: { before: true, after: false } },
+      ipAddress: '10.0.0.1',
+    });
+  });
+
+  it('skips updates that changed nothing', async () => {
+    await recordAudit({
+      actor,
+      action: 'settings.update',
+      before: { pollerEnabled: true },
+      after: { pollerEnabled: true },
+    });
+
+    expect(mockValues).not.toHaveBeenCalled();
+  });
+
+  it('records actions without changes', async () => {
+    await recordAudit({ actor, action: 'debug.reset' });
+
+    expect(mockValues).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'debug.reset', entityType: 'debug', changes: {} })
+    );
+  });
+
+  it('does not throw when the write fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockValues.mockRejectedValue(new Error('connection lost'));
+
+    await expect(recordAudit({ actor: null, action: 'mobile.enable' })).resolves.toBeUndefined();
+    expect(consoleSpy).toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('formatAuditCsv', () => {
+  it('writes a header and one row per entry', () => {
+    const entry = createEntry();
+
+    const lines = formatAuditCsv([entry]).trimEnd().split('\n');
+
+    expect(lines[0]).toBe(
+      'createdAt,actorName,action,entityType,entityId,entityName,serverId,ipAddress,changes'
+    );
+    expect(lines[1]).toBe(
+      `2026-01-02T03:04:05.000Z,owner,rule.update,rule,${entry.entityId},` +
+        'Concurrent streams,,10.0.0.1,"{""isActive"":{""before"":true,""after"":false}}"'
+    );
+  });
+
+  it('quotes cells containing commas and newlines', () => {
+    const entry = createEntry({ entityName: 'Streams, late\nnight', changes: {} });
+
+    const csv = formatAuditCsv([entry]);
+
+    expect(csv).toContain('"Streams, late\nnight"');
+  });
+});
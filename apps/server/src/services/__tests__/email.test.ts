@@ -0,0 +1,156 @@
+/**
+ * Email Service Tests
+ *
+ * Tests the SMTP email channel from services/email.ts:
+ * - isEmailConfigured: enabled with a server, sender and recipients
+ * - renderNotificationEmail: plain-text and escaped HTML bodies
+ * - sendEmail / sendTestEmail: the transport options and message sent
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+const sendMail = vi.fn();
+const close = vi.fn();
+
+vi.mock('nodemailer', () => ({
+  default: {
+    createTransport: vi.fn(() => ({ sendMail, close })),
+  },
+}));
+
+import nodemailer from 'nodemailer';
+import {
+  isEmailConfigured,
+  renderNotificationEmail,
+  sendEmail,
+  sendTestEmail,
+  type EmailSettingsRow,
+} from '../email.js';
+
+function createSettings(overrides: Partial<EmailSettingsRow> = {}): EmailSettingsRow {
+  return {
+    id: 1,
+    enabled: true,
+    smtpHost: 'localhost',
+    smtpPort: 1025,
+    smtpSecure: false,
+    smtpUsername: null,
+    smtpPassword: null,
+    fromAddress: 'tracearr@example.com',
+    recipients: ['owner@example.com', 'admin@example.com'],
+    digestFrequency: 'off',
+    digestHour: 8,
+    digestWeekday: 1,
+    digestTimezone: 'UTC',
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('isEmailConfigured', () => {
+  it('accepts enabled settings with a server, sender and recipients', () => {
+    expect(isEmailConfigured(createSettings())).toBe(true);
+  });
+
+  it('rejects missing or incomplete settings', () => {
+    expect(isEmailConfigured(null)).toBe(false);
+    expect(isEmailConfigured(createSettings({ enabled: false }))).toBe(false);
+    expect(isEmailConfigured(createSettings({ smtpHost: null }))).toBe(false);
+    expect(isEmailConfigured(createSettings({ fromAddress: null }))).toBe(false);
+    expect(isEmailConfigured(createSettings({ recipients: [] }))).toBe(false);
+  });
+});
+
+describe('renderNotificationEmail', () => {
+  it('builds a prefixed subject and plain-text body', () => {
+    const email = renderNotificationEmail('Server Down', 'Lost connection to Home Plex');
+
+    expect(email.subject).toBe('[Tracearr] Server Down');
+    expect(email.text).toBe('Server Down\n\nLost connection to Home Plex\n');
+  });
+
+  it('escapes HTML and keeps line breaks', () => {
+    const email = renderNotificationEmail('Alert', 'Title <b>"Heat"</b>\nby Mann & co');
+
+    expect(email.html).toContain('Title &lt;b&gt;&quot;Heat&quot;&lt;/b&gt;<br>by Mann &amp; co');
+    expect(email.html).not.toContain('<b>');
+  });
+});
+
+describe('sendEmail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends to every recipient without auth for a local sink', async () => {
+    sendMail.mockResolvedValue({});
+
+    await sendEmail(
+      createSettings() as never,
+      renderNotificationEmail('Test Notification', 'Hello')
+    );
+
+    expect(nodemailer.createTransport).toHaveBeenCalledWith({
+      host: 'localhost',
+      port: 1025,
+      secure: false,
+      auth: undefined,
+    });
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: 'tracearr@example.com',
+        to: ['owner@example.com', 'admin@example.com'],
+        subject: '[Tracearr] Test Notification',
+      })
+    );
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('logs in when a username is set', async () => {
+    sendMail.mockResolvedValue({});
+
+    await sendEmail(
+      createSettings({ smtpUsername: 'tracearr', smtpPassword: 'hunter2' }) as never,
+      renderNotificationEmail('Test', 'Hello')
+    );
+
+    expect(nodemailer.createTransport).toHaveBeenCalledWith(
+      expect.objectContaining({ auth: { user: 'tracearr', pass: 'hunter2' } })
+    );
+  });
+});
+
+describe('sendTestEmail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports SMTP errors', async () => {
+    sendMail.mockRejectedValue(new Error('Invalid login'));
+
+    expect(await sendTestEmail(createSettings())).toEqual({
+      success: false,
+      error: 'Invalid login',
+    });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('works before email is enabled', async () => {
+    sendMail.mockResolvedValue({});
+
+    expect(await sendTestEmail(createSettings({ enabled: false }))).toEqual({ success: true });
+  });
+
+  it('needs a server, sender and recipient', async () => {
+    const result = await sendTestEmail(createSettings({ recipients: [] }));
+
+    expect(result.success).toBe(false);
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Email Digest Tests
+ *
+ * Tests the digest email from services/emailDigest.ts and its schedule:
+ * - getDigestWindow: the day or week ending now
+ * - renderEmailDigest: text and HTML sections
+ * - getDigestCronPattern: daily and weekly schedules
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+import { getDigestWindow, renderEmailDigest, type EmailDigest } from '../emailDigest.js';
+import { getDigestCronPattern } from '../../jobs/emailDigestQueue.js';
+
+const NOW = new Date('2026-03-09T08:00:00Z');
+
+function createDigest(overrides: Partial<EmailDigest> = {}): EmailDigest {
+  return {
+    period: 'daily',
+    ...getDigestWindow('daily', NOW),
+    violations: { total: 0, bySeverity: { low: 0, warning: 0, high: 0 }, recent: [] },
+    topUsers: [],
+    newDevices: { total: 0, devices: [] },
+    downtime: [],
+    ...overrides,
+  };
+}
+
+describe('getDigestWindow', () => {
+  it('covers the last day or week', () => {
+    expect(getDigestWindow('daily', NOW)).toEqual({
+      start: new Date('2026-03-08T08:00:00Z'),
+      end: NOW,
+    });
+    expect(getDigestWindow('weekly', NOW).start).toEqual(new Date('2026-03-02T08:00:00Z'));
+  });
+});
+
+describe('renderEmailDigest', () => {
+  it('summarises a quiet period', () => {
+    const email = renderEmailDigest(createDigest());
+
+    expect(email.subject).toBe('[Tracearr] Daily Digest: Mar 9');
+    expect(email.text).toContain('No new violations.');
+    expect(email.text).toContain('Nobody streamed.');
+    expect(email.text).toContain('No new devices.');
+    expect(email.text).toContain('All servers stayed online.');
+  });
+
+  it('lists violations, top users, new devices and downtime', () => {
+    const user = { serverUserId: 'su-1', username: 'jsmith', identityName: 'Jane' };
+    const email = renderEmailDigest(
+      createDigest({
+        violations: {
+          total: 3,
+          bySeverity: { low: 1, warning: 0, high: 2 },
+          recent: [
+            {
+              ...user,
+              ruleName: 'Impossible Travel',
+              severity: 'high',
+              createdAt: new Date('2026-03-08T14:30:00Z'),
+            },
+          ],
+        },
+        topUsers: [{ ...user, sessionCount: 4, watchTimeMs: 2 * 60 * 60 * 1000 }],
+        newDevices: {
+          total: 1,
+          devices: [
+            {
+              ...user,
+              deviceName: 'Plex for Roku',
+              platform: 'Roku',
+              firstSeenAt: new Date('2026-03-08T20:00:00Z'),
+            },
+          ],
+        },
+        downtime: [
+          {
+            serverId: 'server-1',
+            serverName: 'Home Plex',
+            outageCount: 2,
+            downtimeMs: 90 * 60 * 1000,
+            ongoing: true,
+          },
+        ],
+      })
+    );
+
+    expect(email.text).toContain('3 new violations (1 Low, 0 Warning, 2 High).');
+    expect(email.text).toContain('- Mar 8, 2:30 PM: Jane triggered Impossible Travel (High)');
+    expect(email.text).toContain('- Jane: 2h 0m over 4 streams');
+    expect(email.text).toContain('- Jane on Plex for Roku (Roku), Mar 8, 8:00 PM');
+    expect(email.text).toContain('- Home Plex: down 1h 30m across 2 outages, still offline');
+    expect(email.html).toContain('<h2 style="margin:20px 0 8px;font-size:16px">Top Users</h2>');
+    expect(email.html).toContain('<li>Jane: 2h 0m over 4 streams</li>');
+  });
+
+  it('shows dates in the given time zone', () => {
+    // 14:00 UTC is already the next day in Auckland (UTC+13)
+    const window = getDigestWindow('weekly', new Date('2026-03-09T14:00:00Z'));
+    const digest = createDigest({ period: 'weekly', ...window });
+
+    expect(renderEmailDigest(digest).subject).toBe('[Tracearr] Weekly Digest: Mar 2 - Mar 9');
+    expect(renderEmailDigest(digest, 'Pacific/Auckland').subject).toBe(
+      '[Tracearr] Weekly Digest: Mar 3 - Mar 10'
+    );
+  });
+
+  it('escapes names in the HTML body', () => {
+    const email = renderEmailDigest(
+      createDigest({
+        topUsers: [
+          {
+            serverUserId: 'su-1',
+            username: '<script>',
+            identityName: null,
+            sessionCount: 1,
+            watchTimeMs: 60000,
+          },
+        ],
+      })
+    );
+
+    expect(email.html).toContain('&lt;script&gt;: 1m 0s over 1 stream');
+    expect(email.html).not.toContain('<script>');
+  });
+});
+
+describe('getDigestCronPattern', () => {
+  it('runs daily at the hour or weekly on the weekday', () => {
+    expect(getDigestCronPattern('daily', 8, 1)).toBe('0 8 * * *');
+    expect(getDigestCronPattern('weekly', 18, 0)).toBe('0 18 * * 0');
+  });
+});
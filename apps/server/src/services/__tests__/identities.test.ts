@@ -0,0 +1,135 @@
+/**
+ * Identity Service Tests
+ *
+ * Tests merge suggestion scoring (pure logic, no database).
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { UserRole } from '@tracearr/shared';
+
+vi.mock('../../db/client.js', () => ({
+  db: {},
+}));
+
+import {
+  buildMergeSuggestions,
+  normalizeUsername,
+  type SuggestionIdentity,
+} from '../identities.js';
+
+function createIdentity(
+  username: string,
+  serverIds: string[],
+  role: UserRole = 'member'
+): SuggestionIdentity {
+  return {
+    id: randomUUID(),
+    username,
+    name: null,
+    role,
+    aggregateTrustScore: 100,
+    accounts: serverIds.map((serverId) => ({
+      id: randomUUID(),
+      serverId,
+      serverName: 'Server',
+      username,
+      thumbUrl: null,
+    })),
+  };
+}
+
+describe('normalizeUsername', () => {
+  it('ignores case, punctuation and accents', () => {
+    expect(normalizeUsername('John.Smith')).toBe('johnsmith');
+    expect(normalizeUsername('José_99')).toBe('jose99');
+  });
+});
+
+describe('buildMergeSuggestions', () => {
+  const plex = randomUUID();
+  const jellyfin = randomUUID();
+
+  it('suggests identities that shared a device', () => {
+    const a = createIdentity('alice', [plex]);
+    const b = createIdentity('bob', [jellyfin]);
+
+    const suggestions = buildMergeSuggestions([a, b], [[a.id, b.id]], []);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]!.reasons).toEqual(['shared_device']);
+    expect(suggestions[0]!.sharedDeviceCount).toBe(1);
+  });
+
+  it('counts shared IPs and similar usernames', () => {
+    const a = createIdentity('john.smith', [plex]);
+    const b = createIdentity('JohnSmith92', [jellyfin]);
+
+    const suggestions = buildMergeSuggestions([a, b], [], [[a.id, b.id], [b.id, a.id]]);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]!.reasons).toEqual(['shared_ip', 'similar_username']);
+    expect(suggestions[0]!.sharedIpCount).toBe(2);
+  });
+
+  it('ignores short usernames', () => {
+    const a = createIdentity('joe', [plex]);
+    const b = createIdentity('joey', [jellyfin]);
+
+    expect(buildMergeSuggestions([a, b], [], [])).toEqual([]);
+  });
+
+  it('ignores devices shared by too many identities', () => {
+    const identities = ['anna', 'ben', 'cara', 'dan'].map((name, i) =>
+      createIdentity(name, [`server-${i}`])
+    );
+
+    const suggestions = buildMergeSuggestions(identities, [identities.map((i) => i.id)], []);
+
+    expect(suggestions).toEqual([]);
+  });
+
+  it('skips identities with accounts on the same server', () => {
+    const a = createIdentity('alice', [plex]);
+    const b = createIdentity('alice', [plex]);
+
+    expect(buildMergeSuggestions([a, b], [[a.id, b.id]], [])).toEqual([]);
+  });
+
+  it('skips pairs where both identities can sign in', () => {
+    const a = createIdentity('alice', [plex], 'owner');
+    const b = createIdentity('alice', [jellyfin], 'admin');
+
+    expect(buildMergeSuggestions([a, b], [[a.id, b.id]], [])).toEqual([]);
+  });
+
+  it('puts the identity that signs in first as the merge target', () => {
+    const member = createIdentity('alice', [jellyfin]);
+    const owner = createIdentity('alice', [plex], 'owner');
+
+    const suggestions = buildMergeSuggestions([member, owner], [[member.id, owner.id]], []);
+
+    expect(suggestions[0]!.users.map((u) => u.id)).toEqual([owner.id, member.id]);
+    expect(suggestions[0]!.users[0]).not.toHaveProperty('role');
+  });
+
+  it('ranks pairs with more reasons first', () => {
+    const a = createIdentity('alice', [plex]);
+    const b = createIdentity('alice', [jellyfin]);
+    const c = createIdentity('carol', [plex]);
+    const d = createIdentity('dave', [jellyfin]);
+
+    const suggestions = buildMergeSuggestions(
+      [a, b, c, d],
+      [
+        [c.id, d.id],
+        [c.id, d.id],
+        [a.id, b.id],
+      ],
+      []
+    );
+
+    expect(suggestions.map((s) => s.reasons.length)).toEqual([2, 1]);
+    expect(suggestions[1]!.sharedDeviceCount).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Known Locations Tests
+ *
+ * Tests matching helpers from services/knownLocations.ts:
+ * - isIpInCidr: IPv4/IPv6 ranges, including IPv4-mapped addresses
+ * - toLearnedCidr: Network ranges used when learning from history
+ * - matchKnownLocation: CIDR, ASN and geo radius matches
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isIpInCidr, toLearnedCidr, matchKnownLocation } from '../knownLocations.js';
+import { createMockKnownLocation } from '../../test/fixtures.js';
+
+describe('knownLocations', () => {
+  describe('isIpInCidr', () => {
+    it('matches an IPv4 address inside the range', () => {
+      expect(isIpInCidr('203.0.113.42', '203.0.113.0/24')).toBe(true);
+      expect(isIpInCidr('203.0.114.1', '203.0.113.0/24')).toBe(false);
+    });
+
+    it('matches an IPv6 address inside the range', () => {
+      expect(isIpInCidr('2001:db8:0:1::5', '2001:db8::/48')).toBe(true);
+      expect(isIpInCidr('2001:db9::1', '2001:db8::/48')).toBe(false);
+    });
+
+    it('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+      expect(isIpInCidr('::ffff:203.0.113.42', '203.0.113.0/24')).toBe(true);
+    });
+
+    it('does not match across address families', () => {
+      expect(isIpInCidr('203.0.113.42', '2001:db8::/32')).toBe(false);
+    });
+
+    it('returns false for invalid input', () => {
+      expect(isIpInCidr('not-an-ip', '203.0.113.0/24')).toBe(false);
+      expect(isIpInCidr('203.0.113.42', '203.0.113.0/40')).toBe(false);
+      expect(isIpInCidr('203.0.113.42', '203.0.113.0')).toBe(false);
+    });
+  });
+
+  describe('toLearnedCidr', () => {
+    it('returns the /24 network for IPv4', () => {
+      expect(toLearnedCidr('203.0.113.42')).toBe('203.0.113.0/24');
+      expect(toLearnedCidr('::ffff:203.0.113.42')).toBe('203.0.113.0/24');
+    });
+
+    it('returns the /48 network for IPv6', () => {
+      expect(toLearnedCidr('2001:db8:1:2::5')).toBe('2001:db8:1::/48');
+      expect(toLearnedCidr('2001:db8::1')).toBe('2001:db8:0::/48');
+    });
+
+    it('returns null for invalid addresses', () => {
+      expect(toLearnedCidr('unknown')).toBeNull();
+    });
+  });
+
+  describe('matchKnownLocation', () => {
+    const session = { ipAddress: '203.0.113.42', geoLat: 40.7128, geoLon: -74.006, asn: 64500 };
+
+    it('matches by CIDR range', () => {
+      const home = createMockKnownLocation({ cidr: '203.0.113.0/24' });
+      expect(matchKnownLocation([home], session)).toBe(home);
+    });
+
+    it('matches by ASN', () => {
+      const carrier = createMockKnownLocation({ type: 'asn', asn: 64500 });
+      expect(matchKnownLocation([carrier], session)).toBe(carrier);
+      expect(matchKnownLocation([carrier], { ...session, asn: null })).toBeNull();
+    });
+
+    it('matches within a geo radius', () => {
+      // Jersey City is ~5km from New York
+      const jerseyCity = { type: 'geo' as const, lat: 40.7178, lon: -74.0431 };
+      const nearby = createMockKnownLocation({ ...jerseyCity, radiusKm: 10 });
+      const tooSmall = createMockKnownLocation({ ...jerseyCity, radiusKm: 1 });
+
+      expect(matchKnownLocation([nearby], session)).toBe(nearby);
+      expect(matchKnownLocation([tooSmall], session)).toBeNull();
+    });
+
+    it('does not match a geo location without session coordinates', () => {
+      const home = createMockKnownLocation({
+        type: 'geo',
+        lat: 40.7128,
+        lon: -74.006,
+        radiusKm: 25,
+      });
+      expect(matchKnownLocation([home], { ...session, geoLat: null, geoLon: null })).toBeNull();
+    });
+
+    it('returns null when nothing matches', () => {
+      const other = createMockKnownLocation({ cidr: '198.51.100.0/24' });
+      expect(matchKnownLocation([other], session)).toBeNull();
+      expect(matchKnownLocation([], session)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Notification Destinations Service Tests
+ *
+ * Tests which destinations an event is sent to:
+ * - routeMatchesScope: server and minimum severity filters
+ * - getNotificationTargets: enabled destinations, once each
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import { getNotificationTargets, routeMatchesScope } from '../notificationDestinations.js';
+
+function mockRouteRows(rows: unknown[]) {
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      innerJoin: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(rows),
+      }),
+    }),
+  } as never);
+}
+
+function createRouteRow(overrides: Record<string, unknown> = {}) {
+  return {
+    destinationId: 'dest-1',
+    type: 'discord',
+    webhookUrl: 'https://discord.com/api/webhooks/1',
+    webhookFormat: 'json',
+    ntfyTopic: null,
+    authToken: null,
+    serverId: null,
+    minSeverity: null,
+    ...overrides,
+  };
+}
+
+describe('routeMatchesScope', () => {
+  it('matches any server when the route has none', () => {
+    expect(
+      routeMatchesScope({ serverId: null, minSeverity: null }, { serverId: 's1', severity: null })
+    ).toBe(true);
+  });
+
+  it('only matches its own server', () => {
+    const route = { serverId: 's1', minSeverity: null };
+    expect(routeMatchesScope(route, { serverId: 's1', severity: null })).toBe(true);
+    expect(routeMatchesScope(route, { serverId: 's2', severity: null })).toBe(false);
+    expect(routeMatchesScope(route, { serverId: null, severity: null })).toBe(false);
+  });
+
+  it('matches violations at or above the minimum severity', () => {
+    const route = { serverId: null, minSeverity: 'warning' as const };
+    expect(routeMatchesScope(route, { serverId: null, severity: 'high' })).toBe(true);
+    expect(routeMatchesScope(route, { serverId: null, severity: 'warning' })).toBe(true);
+    expect(routeMatchesScope(route, { serverId: null, severity: 'low' })).toBe(false);
+  });
+});
+
+describe('getNotificationTargets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns each matching destination once', async () => {
+    mockRouteRows([
+      createRouteRow(),
+      createRouteRow({ serverId: 's1' }),
+      createRouteRow({ destinationId: 'dest-2', serverId: 's2', webhookUrl: 'https://other' }),
+    ]);
+
+    const targets = await getNotificationTargets('stream_started', {
+      serverId: 's1',
+      severity: null,
+    });
+
+    expect(targets).toEqual([
+      {
+        destinationId: 'dest-1',
+        type: 'discord',
+        webhookUrl: 'https://discord.com/api/webhooks/1',
+        webhookFormat: 'json',
+        ntfyTopic: null,
+        authToken: null,
+      },
+    ]);
+  });
+
+  it('returns nothing when no routes match', async () => {
+    mockRouteRows([createRouteRow({ minSeverity: 'high' })]);
+
+    const targets = await getNotificationTargets('violation_detected', {
+      serverId: 's1',
+      severity: 'low',
+    });
+
+    expect(targets).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Notification provider tests
+ *
+ * Tests the requests built by services/notificationProviders.ts:
+ * - Telegram MarkdownV2 escaping, truncation and poster photos
+ * - Slack and Matrix escaping
+ * - Poster URLs through the image proxy
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { ActiveSession } from '@tracearr/shared';
+
+vi.mock('../../routes/settings.js', () => ({
+  getNetworkSettings: vi.fn(),
+}));
+
+import { getNetworkSettings } from '../../routes/settings.js';
+import {
+  buildProviderRequest,
+  escapeTelegramMarkdown,
+  getPosterUrl,
+  type ProviderMessage,
+} from '../notificationProviders.js';
+
+const target = {
+  webhookUrl: 'https://example.com',
+  chatId: '!room:example.com',
+  authToken: 'token',
+};
+
+const message: ProviderMessage = {
+  title: 'Stream <Started>',
+  body: 'Jane is watching Tom & Jerry (1940)',
+  level: 'info',
+};
+
+const session = { serverId: 'server-1', thumbPath: '/library/metadata/1/thumb' } as ActiveSession;
+
+describe('escapeTelegramMarkdown', () => {
+  it('escapes MarkdownV2 special characters', () => {
+    expect(escapeTelegramMarkdown('S01E02 (HD) - 1.5x_speed!')).toBe(
+      'S01E02 \\(HD\\) \\- 1\\.5x\\_speed\\!'
+    );
+  });
+});
+
+describe('buildProviderRequest', () => {
+  it('sends Telegram posters as a photo with a caption', () => {
+    const request = buildProviderRequest('telegram', target, {
+      ...message,
+      posterUrl: 'https://tracearr.example.com/poster.jpg',
+    });
+
+    expect(request.url).toBe('https://example.com/bottoken/sendPhoto');
+    expect(request.body).toMatchObject({
+      photo: 'https://tracearr.example.com/poster.jpg',
+      caption: '*Stream <Started\\>*\n\nJane is watching Tom & Jerry \\(1940\\)',
+    });
+  });
+
+  it('truncates escaped Telegram captions without splitting an escape sequence', () => {
+    // Titles of both lengths' parity, so the cut lands on and between escape sequences
+    for (const [title, escapedTitle] of [
+      ['Stream <Started>', 'Stream <Started\\>'],
+      ['Stream started', 'Stream started'],
+    ]) {
+      const request = buildProviderRequest('telegram', target, {
+        ...message,
+        title: title!,
+        body: '.-'.repeat(500),
+        posterUrl: 'https://tracearr.example.com/poster.jpg',
+      });
+      const { caption } = request.body as { caption: string };
+
+      expect(caption.length).toBeLessThanOrEqual(1024);
+      expect(caption.startsWith(`*${escapedTitle}*\n\n`)).toBe(true);
+      expect(caption.endsWith('…')).toBe(true);
+      // Every special character keeps its backslash
+      expect(caption.slice(caption.indexOf('\n\n') + 2, -1)).toMatch(/^(\\[.-])+$/);
+    }
+  });
+
+  it('escapes Slack mrkdwn but keeps the plain title in the header', () => {
+    const request = buildProviderRequest('slack', target, message);
+    const body = request.body as { blocks: { text: { text: string } }[] };
+
+    expect(body.blocks[0]!.text.text).toBe('Stream <Started>');
+    expect(body.blocks[1]!.text.text).toBe('Jane is watching Tom &amp; Jerry (1940)');
+  });
+
+  it('escapes Matrix HTML', () => {
+    const request = buildProviderRequest('matrix', target, message);
+
+    expect(request.body).toMatchObject({
+      body: 'Stream <Started>\nJane is watching Tom & Jerry (1940)',
+      formatted_body:
+        '<strong>Stream &lt;Started&gt;</strong><br>Jane is watching Tom &amp; Jerry (1940)',
+    });
+  });
+
+  it('maps warnings to a normal Gotify priority', () => {
+    const request = buildProviderRequest('gotify', target, { ...message, level: 'warning' });
+
+    expect(request.body).toMatchObject({ priority: 6 });
+  });
+});
+
+describe('getPosterUrl', () => {
+  it('builds an image proxy URL from the external URL', async () => {
+    vi.mocked(getNetworkSettings).mockResolvedValue({
+      externalUrl: 'https://tracearr.example.com/',
+      basePath: '',
+      trustProxy: false,
+    });
+
+    const url = new URL((await getPosterUrl(session))!);
+
+    expect(url.origin + url.pathname).toBe('https://tracearr.example.com/api/v1/images/proxy');
+    expect(url.searchParams.get('url')).toBe('/library/metadata/1/thumb');
+    expect(url.searchParams.get('server')).toBe('server-1');
+  });
+
+  it('returns null without an external URL or when the lookup fails', async () => {
+    vi.mocked(getNetworkSettings).mockResolvedValueOnce({
+      externalUrl: null,
+      basePath: '',
+      trustProxy: false,
+    });
+    expect(await getPosterUrl(session)).toBeNull();
+
+    vi.mocked(getNetworkSettings).mockRejectedValueOnce(new Error('Database unavailable'));
+    expect(await getPosterUrl(session)).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Notification Templates Service Tests
+ *
+ * Tests how saved templates are turned into messages:
+ * - renderTemplate: placeholder substitution and missing values
+ * - findUnknownPlaceholders: placeholders the event doesn't provide
+ * - getNotificationMessage: saved template vs built-in text
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NOTIFICATION_TEMPLATE_VARIABLES, type NotificationEventType } from '@tracearr/shared';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+import { db } from '../../db/client.js';
+import {
+  findUnknownPlaceholders,
+  getNotificationMessage,
+  getSampleTemplateVariables,
+  getTemplatePlaceholders,
+  renderTemplate,
+} from '../notificationTemplates.js';
+
+function mockTemplateRows(rows: unknown[]) {
+  vi.mocked(db.select).mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(rows),
+      }),
+    }),
+  } as never);
+}
+
+describe('renderTemplate', () => {
+  const variables = {
+    user: { username: 'jsmith', displayName: 'Jane Smith' },
+    media: { title: 'Ozymandias', year: 2013, subtitle: null },
+  };
+
+  it('replaces placeholders with their values', () => {
+    expect(renderTemplate('{{user.displayName}} started {{ media.title }}', variables)).toBe(
+      'Jane Smith started Ozymandias'
+    );
+  });
+
+  it('renders numbers as text', () => {
+    expect(renderTemplate('({{media.year}})', variables)).toBe('(2013)');
+  });
+
+  it('renders missing, null and object values as nothing', () => {
+    expect(renderTemplate('[{{media.subtitle}}][{{media.rating}}][{{user}}]', variables)).toBe(
+      '[][][]'
+    );
+  });
+
+  it('ignores inherited properties', () => {
+    expect(renderTemplate('{{user.constructor}}', variables)).toBe('');
+  });
+});
+
+describe('getTemplatePlaceholders', () => {
+  it('returns placeholder paths in order', () => {
+    expect(getTemplatePlaceholders('{{a.b}} and {{ c }} and {not one}')).toEqual(['a.b', 'c']);
+  });
+});
+
+describe('findUnknownPlaceholders', () => {
+  it('returns placeholders the event does not provide, once each', () => {
+    expect(
+      findUnknownPlaceholders('server_down', ['{{server.name}} {{media.title}}', '{{media.title}}'])
+    ).toEqual(['media.title']);
+  });
+
+  it('returns nothing when every placeholder is known', () => {
+    expect(
+      findUnknownPlaceholders('stream_started', ['{{user.displayName}}', '{{media.title}}'])
+    ).toEqual([]);
+  });
+});
+
+describe('getSampleTemplateVariables', () => {
+  it.each(Object.keys(NOTIFICATION_TEMPLATE_VARIABLES) as NotificationEventType[])(
+    'provides a value for every %s variable',
+    (eventType) => {
+      const variables = getSampleTemplateVariables(eventType);
+      for (const path of NOTIFICATION_TEMPLATE_VARIABLES[eventType]) {
+        expect(renderTemplate(`{{${path}}}`, variables), path).not.toBe('');
+      }
+    }
+  );
+});
+
+describe('getNotificationMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the saved template', async () => {
+    mockTemplateRows([{ title: 'Down: {{server.name}}', body: '{{server.name}} is offline' }]);
+
+    const message = await getNotificationMessage('server_down', {
+      server: { name: 'Home Plex' },
+    });
+
+    expect(message).toEqual({ title: 'Down: Home Plex', body: 'Home Plex is offline' });
+  });
+
+  it('returns null when no template is saved', async () => {
+    mockTemplateRows([]);
+
+    const message = await getNotificationMessage('server_down', {
+      server: { name: 'Home Plex' },
+    });
+
+    expect(message).toBeNull();
+  });
+});
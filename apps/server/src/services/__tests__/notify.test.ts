@@ -5,12 +5,43 @@
  * - Discord webhook notifications
  * - Custom webhook notifications with different formats
  * - Ntfy authentication header handling
+ * - New device, concurrent streams and trust level alerts
+ * - Custom template messages
+ * - Email notifications
+ * - Slack, Telegram, Matrix and Gotify providers
  * - Test webhook functionality
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { NotificationService, sendTestWebhook } from '../notify.js';
-import type { ViolationWithDetails, ActiveSession, Settings } from '@tracearr/shared';
+
+vi.mock('../email.js', async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  sendNotificationEmail: vi.fn(),
+}));
+
+vi.mock('../../routes/settings.js', () => ({
+  getNetworkSettings: vi.fn().mockResolvedValue({
+    externalUrl: 'https://tracearr.example.com',
+    basePath: '',
+    trustProxy: false,
+  }),
+}));
+
+import { sendNotificationEmail } from '../email.js';
+import {
+  NotificationService,
+  sendTestWebhook,
+  type NewServerUserNotification,
+  type NotificationTarget,
+  type SuspensionNotification,
+} from '../notify.js';
+import type {
+  ViolationWithDetails,
+  ActiveSession,
+  AlertUser,
+  NewDeviceAlert,
+  TrustScoreAlert,
+} from '@tracearr/shared';
 
 // Mock global fetch
 const mockFetch = vi.fn();
@@ -28,23 +59,23 @@ describe('NotificationService', () => {
     vi.clearAllMocks();
   });
 
-  const createMockSettings = (overrides: Partial<Settings> = {}): Settings => ({
-    allowGuestAccess: false,
-    unitSystem: 'metric',
-    discordWebhookUrl: null,
-    customWebhookUrl: null,
-    webhookFormat: null,
+  const createDiscordTarget = (webhookUrl: string): NotificationTarget => ({
+    type: 'discord',
+    webhookUrl,
+    webhookFormat: 'json',
     ntfyTopic: null,
-    ntfyAuthToken: null,
-    pollerEnabled: true,
-    pollerIntervalMs: 15000,
-    tautulliUrl: null,
-    tautulliApiKey: null,
-    externalUrl: null,
-    basePath: '',
-    trustProxy: false,
-    mobileEnabled: false,
-    primaryAuthMethod: 'local',
+    chatId: null,
+    authToken: null,
+  });
+
+  const createWebhookTarget = (
+    overrides: Partial<NotificationTarget> & Pick<NotificationTarget, 'webhookUrl'>
+  ): NotificationTarget => ({
+    type: 'webhook',
+    webhookFormat: 'json',
+    ntfyTopic: null,
+    chatId: null,
+    authToken: null,
     ...overrides,
   });
 
@@ -56,6 +87,10 @@ describe('NotificationService', () => {
     severity: 'warning',
     data: { reason: 'test violation' },
     acknowledgedAt: null,
+    status: 'open',
+    assigneeId: null,
+    dismissalReason: null,
+    trustRestoredAt: null,
     createdAt: new Date(),
     user: {
       id: 'user-789',
@@ -101,6 +136,8 @@ describe('NotificationService', () => {
     geoCountry: 'US',
     geoLat: 40.7128,
     geoLon: -74.006,
+    asn: null,
+    asnOrg: null,
     playerName: 'Test Device',
     deviceId: 'device-123',
     product: 'Test Client',
@@ -128,11 +165,9 @@ describe('NotificationService', () => {
     it('sends discord webhook for violations', async () => {
       mockFetch.mockResolvedValueOnce({ ok: true });
 
-      const settings = createMockSettings({
-        discordWebhookUrl: 'https://discord.com/api/webhooks/123/abc',
-      });
+      const target = createDiscordTarget('https://discord.com/api/webhooks/123/abc');
 
-      await notificationService.notifyViolation(createMockViolation(), settings);
+      await notificationService.notifyViolation(createMockViolation(), target);
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(
@@ -147,14 +182,14 @@ describe('NotificationService', () => {
     it('sends custom webhook with ntfy format and auth token', async () => {
       mockFetch.mockResolvedValueOnce({ ok: true });
 
-      const settings = createMockSettings({
-        customWebhookUrl: 'https://ntfy.example.com',
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
         webhookFormat: 'ntfy',
         ntfyTopic: 'tracearr-alerts',
-        ntfyAuthToken: 'tk_secret_token_123',
+        authToken: 'tk_secret_token_123',
       });
 
-      await notificationService.notifyViolation(createMockViolation(), settings);
+      await notificationService.notifyViolation(createMockViolation(), target);
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(
@@ -180,14 +215,14 @@ describe('NotificationService', () => {
     it('sends custom webhook with ntfy format without auth token', async () => {
       mockFetch.mockResolvedValueOnce({ ok: true });
 
-      const settings = createMockSettings({
-        customWebhookUrl: 'https://ntfy.example.com',
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
         webhookFormat: 'ntfy',
         ntfyTopic: 'tracearr-alerts',
-        ntfyAuthToken: null,
+        authToken: null,
       });
 
-      await notificationService.notifyViolation(createMockViolation(), settings);
+      await notificationService.notifyViolation(createMockViolation(), target);
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(
@@ -208,12 +243,12 @@ describe('NotificationService', () => {
     it('sends custom webhook with apprise format (no auth)', async () => {
       mockFetch.mockResolvedValueOnce({ ok: true });
 
-      const settings = createMockSettings({
-        customWebhookUrl: 'https://apprise.example.com/notify',
+      const target = createWebhookTarget({
+        webhookUrl: 'https://apprise.example.com/notify',
         webhookFormat: 'apprise',
       });
 
-      await notificationService.notifyViolation(createMockViolation(), settings);
+      await notificationService.notifyViolation(createMockViolation(), target);
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
 
@@ -228,12 +263,12 @@ describe('NotificationService', () => {
     it('sends custom webhook with json format', async () => {
       mockFetch.mockResolvedValueOnce({ ok: true });
 
-      const settings = createMockSettings({
-        customWebhookUrl: 'https://example.com/webhook',
+      const target = createWebhookTarget({
+        webhookUrl: 'https://example.com/webhook',
         webhookFormat: 'json',
       });
 
-      await notificationService.notifyViolation(createMockViolation(), settings);
+      await notificationService.notifyViolation(createMockViolation(), target);
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
 
@@ -244,34 +279,20 @@ describe('NotificationService', () => {
       expect(body.timestamp).toBeDefined();
       expect(body.data).toBeDefined();
     });
-
-    it('sends to both discord and custom webhooks', async () => {
-      mockFetch.mockResolvedValue({ ok: true });
-
-      const settings = createMockSettings({
-        discordWebhookUrl: 'https://discord.com/api/webhooks/123/abc',
-        customWebhookUrl: 'https://example.com/webhook',
-        webhookFormat: 'json',
-      });
-
-      await notificationService.notifyViolation(createMockViolation(), settings);
-
-      expect(mockFetch).toHaveBeenCalledTimes(2);
-    });
   });
 
   describe('notifyServerDown', () => {
     it('sends ntfy notification with auth token for server down', async () => {
       mockFetch.mockResolvedValue({ ok: true });
 
-      const settings = createMockSettings({
-        customWebhookUrl: 'https://ntfy.example.com',
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
         webhookFormat: 'ntfy',
         ntfyTopic: 'server-alerts',
-        ntfyAuthToken: 'tk_server_token',
+        authToken: 'tk_server_token',
       });
 
-      await notificationService.notifyServerDown('Plex Server', settings);
+      await notificationService.notifyServerDown('Plex Server', target);
 
       expect(mockFetch).toHaveBeenCalledWith(
         'https://ntfy.example.com',
@@ -296,14 +317,14 @@ describe('NotificationService', () => {
     it('sends ntfy notification with auth token for server up', async () => {
       mockFetch.mockResolvedValue({ ok: true });
 
-      const settings = createMockSettings({
-        customWebhookUrl: 'https://ntfy.example.com',
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
         webhookFormat: 'ntfy',
         ntfyTopic: 'server-alerts',
-        ntfyAuthToken: 'tk_server_token',
+        authToken: 'tk_server_token',
       });
 
-      await notificationService.notifyServerUp('Plex Server', settings);
+      await notificationService.notifyServerUp('Plex Server', target);
 
       expect(mockFetch).toHaveBeenCalledWith(
         'https://ntfy.example.com',
@@ -326,14 +347,14 @@ describe('NotificationService', () => {
     it('sends ntfy notification with auth for session start', async () => {
       mockFetch.mockResolvedValueOnce({ ok: true });
 
-      const settings = createMockSettings({
-        customWebhookUrl: 'https://ntfy.example.com',
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
         webhookFormat: 'ntfy',
         ntfyTopic: 'sessions',
-        ntfyAuthToken: 'tk_session_token',
+        authToken: 'tk_session_token',
       });
 
-      await notificationService.notifySessionStarted(createMockSession(), settings);
+      await notificationService.notifySessionStarted(createMockSession(), target);
 
       expect(mockFetch).toHaveBeenCalledWith(
         'https://ntfy.example.com',
@@ -352,6 +373,396 @@ describe('NotificationService', () => {
       expect(body.message).toContain('Test Movie');
     });
   });
+
+  describe('suspension notifications', () => {
+    const suspension: SuspensionNotification = {
+      serverUserId: 'user-789',
+      username: 'testuser',
+      serverId: 'server-id',
+      serverName: 'Plex Server',
+      reason: 'Account sharing',
+      endsAt: '2025-01-15T18:00:00.000Z',
+      endReason: null,
+    };
+
+    it('sends discord embed when a user is suspended', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createDiscordTarget('https://discord.com/api/webhooks/123');
+
+      await notificationService.notifyUserSuspended(suspension, target);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.embeds[0].title).toBe('User Suspended');
+      expect(body.embeds[0].description).toBe(
+        'testuser (Plex Server) is suspended until 2025-01-15 18:00 UTC: Account sharing'
+      );
+    });
+
+    it('sends apprise notification when a suspension is lifted', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://apprise.example.com',
+        webhookFormat: 'apprise',
+      });
+
+      await notificationService.notifyUserReinstated(
+        { ...suspension, endReason: 'lifted' },
+        target
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toEqual({
+        title: 'User Reinstated',
+        body: 'testuser (Plex Server) was reinstated, their suspension was lifted',
+        type: 'success',
+      });
+    });
+
+    it('sends the suspension in json webhooks', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://example.com/hook',
+        webhookFormat: 'json',
+      });
+
+      await notificationService.notifyUserSuspended(suspension, target);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.event).toBe('user_suspended');
+      expect(body.data).toEqual(suspension);
+    });
+  });
+
+  describe('new server user notifications', () => {
+    const newUser: NewServerUserNotification = {
+      serverUserId: 'user-789',
+      userId: 'identity-1',
+      username: 'newfriend',
+      serverId: 'server-1',
+      serverName: 'Plex Server',
+      source: 'plex_share',
+      joinedAt: '2025-01-10T18:00:00.000Z',
+      probationUntil: '2025-01-24T18:00:00.000Z',
+    };
+
+    it('sends discord embed with how the user joined', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createDiscordTarget('https://discord.com/api/webhooks/123');
+
+      await notificationService.notifyNewServerUser(newUser, target);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.embeds[0].title).toBe('New User');
+      expect(body.embeds[0].description).toBe(
+        'newfriend joined Plex Server (Plex share), on probation until 2025-01-24'
+      );
+    });
+
+    it('sends ntfy notification without probation', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
+        webhookFormat: 'ntfy',
+        ntfyTopic: 'tracearr',
+      });
+
+      await notificationService.notifyNewServerUser(
+        { ...newUser, source: 'local_account', probationUntil: null },
+        target
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toMatchObject({
+        topic: 'tracearr',
+        title: 'New User',
+        message: 'newfriend joined Plex Server (Local account)',
+      });
+    });
+
+    it('sends the new user in json webhooks', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://example.com/hook',
+        webhookFormat: 'json',
+      });
+
+      await notificationService.notifyNewServerUser(newUser, target);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.event).toBe('new_server_user');
+      expect(body.data).toEqual(newUser);
+    });
+  });
+
+  describe('user alerts', () => {
+    const alertUser: AlertUser = {
+      serverUserId: 'user-789',
+      username: 'testuser',
+      identityName: 'Test User',
+      serverId: 'server-1',
+      serverName: 'Plex Server',
+    };
+
+    const newDevice: NewDeviceAlert = {
+      ...alertUser,
+      sessionId: 'session-123',
+      deviceId: 'device-123',
+      playerName: 'Living Room',
+      product: 'Plex for Roku',
+      platform: 'Roku',
+      geoCity: 'Denver',
+      geoCountry: 'US',
+    };
+
+    const trustChange: TrustScoreAlert = {
+      ...alertUser,
+      previousScore: 85,
+      score: 75,
+      previousLevel: 'trusted',
+      level: 'caution',
+      violationId: 'violation-123',
+    };
+
+    it('sends discord embed for a new device', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      await notificationService.notifyNewDevice(
+        newDevice,
+        createDiscordTarget('https://discord.com/api/webhooks/123')
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.embeds[0].title).toBe('New Device');
+      expect(body.embeds[0].description).toBe(
+        'Test User started streaming on Plex for Roku (Roku) from Denver, US (Plex Server)'
+      );
+    });
+
+    it('falls back to the player name for unnamed products', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://apprise.example.com/notify',
+        webhookFormat: 'apprise',
+      });
+
+      await notificationService.notifyNewDevice(
+        { ...newDevice, product: null, platform: null, geoCity: null, geoCountry: null },
+        target
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toEqual({
+        title: 'New Device',
+        body: 'Test User started streaming on Living Room (Plex Server)',
+        type: 'info',
+      });
+    });
+
+    it('sends ntfy notification for concurrent streams', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
+        webhookFormat: 'ntfy',
+        ntfyTopic: 'tracearr',
+      });
+
+      await notificationService.notifyConcurrentStreams(
+        { ...alertUser, sessionId: 'session-123', streamCount: 3 },
+        target
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toMatchObject({
+        topic: 'tracearr',
+        title: 'Concurrent Streams',
+        message: 'Test User has 3 active streams on Plex Server',
+        priority: 4,
+      });
+    });
+
+    it('sends ntfy notification for a trust level drop', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
+        webhookFormat: 'ntfy',
+      });
+
+      await notificationService.notifyTrustScoreChanged(trustChange, target);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toMatchObject({
+        title: 'Trust Level Changed',
+        message: 'Test User went from Trusted to Caution (trust score 85 → 75)',
+        tags: ['chart_with_downwards_trend'],
+      });
+    });
+
+    it('sends the trust change in json webhooks', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({ webhookUrl: 'https://example.com/hook' });
+
+      await notificationService.notifyTrustScoreChanged(trustChange, target);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.event).toBe('trust_score_changed');
+      expect(body.data).toEqual(trustChange);
+    });
+  });
+
+  describe('custom messages', () => {
+    const message = { title: 'Offline!', body: 'Plex Server went away' };
+
+    it('replaces the ntfy title and message', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://ntfy.example.com',
+        webhookFormat: 'ntfy',
+        ntfyTopic: 'tracearr',
+      });
+
+      await notificationService.notifyServerDown('Plex Server', target, message);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toMatchObject({ title: 'Offline!', message: 'Plex Server went away' });
+      expect(body.priority).toBe(5);
+    });
+
+    it('replaces the Discord embed but keeps its color', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      await notificationService.notifyViolation(
+        createMockViolation(),
+        createDiscordTarget('https://discord.com/api/webhooks/123'),
+        message
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.embeds).toHaveLength(1);
+      expect(body.embeds[0]).toMatchObject({
+        title: 'Offline!',
+        description: 'Plex Server went away',
+        color: expect.any(Number),
+      });
+      expect(body.embeds[0].fields).toBeUndefined();
+    });
+
+    it('adds the message to json webhooks', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({ webhookUrl: 'https://example.com/hook' });
+
+      await notificationService.notifyServerDown('Plex Server', target, message);
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.event).toBe('server_down');
+      expect(body.message).toEqual(message);
+    });
+  });
+
+  describe('native providers', () => {
+    it('sends Slack blocks with the poster', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://hooks.slack.com/services/T0/B0/xyz',
+        webhookFormat: 'slack',
+      });
+
+      await notificationService.notifySessionStarted(
+        { ...createMockSession(), thumbPath: '/library/metadata/1/thumb' },
+        target
+      );
+
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://hooks.slack.com/services/T0/B0/xyz');
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body.blocks[0].text.text).toBe('Stream Started');
+      expect(body.blocks[1].accessory.image_url).toContain(
+        'https://tracearr.example.com/api/v1/images/proxy?server=server-456'
+      );
+    });
+
+    it('sends Telegram messages with the bot token and chat', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://api.telegram.org',
+        webhookFormat: 'telegram',
+        chatId: '-100123',
+        authToken: '123:abc',
+      });
+
+      await notificationService.notifyServerDown('Plex Server', target);
+
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://api.telegram.org/bot123:abc/sendMessage');
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toMatchObject({ chat_id: '-100123', parse_mode: 'MarkdownV2' });
+      expect(body.text).toBe('*Server Down*\n\nLost connection to Plex Server');
+    });
+
+    it('maps failures to a high Gotify priority and uses the custom message', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      const target = createWebhookTarget({
+        webhookUrl: 'https://gotify.example.com/',
+        webhookFormat: 'gotify',
+        authToken: 'app_token',
+      });
+
+      await notificationService.notifyServerDown('Plex Server', target, {
+        title: 'Offline!',
+        body: 'Plex Server went away',
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gotify.example.com/message',
+        expect.objectContaining({
+          headers: { 'Content-Type': 'application/json', 'X-Gotify-Key': 'app_token' },
+        })
+      );
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(body).toEqual({ title: 'Offline!', message: 'Plex Server went away', priority: 8 });
+    });
+  });
+
+  describe('email', () => {
+    beforeEach(() => {
+      vi.mocked(sendNotificationEmail).mockReset();
+    });
+
+    it('emails the built-in title and message', async () => {
+      await notificationService.notifyEmail('server_down', {
+        serverName: 'Plex Server',
+        eventType: 'server_down',
+      });
+
+      expect(sendNotificationEmail).toHaveBeenCalledWith(
+        'Server Down',
+        'Lost connection to Plex Server'
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('emails the custom message when there is one', async () => {
+      await notificationService.notifyEmail(
+        'violation_detected',
+        { violation: createMockViolation() },
+        { title: 'Heads up', body: 'Someone broke a rule' }
+      );
+
+      expect(sendNotificationEmail).toHaveBeenCalledWith('Heads up', 'Someone broke a rule');
+    });
+  });
 });
 
 describe('sendTestWebhook', () => {
@@ -498,6 +909,50 @@ describe('sendTestWebhook', () => {
     expect(result.error).toContain('Unauthorized');
   });
 
+  it('sends a Matrix test message to the room', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true });
+
+    const result = await sendTestWebhook(
+      'https://matrix.example.com',
+      'custom',
+      'matrix',
+      null,
+      'syt_token',
+      '!room:example.com'
+    );
+
+    expect(result.success).toBe(true);
+    const [url, init] = mockFetch.mock.calls[0]!;
+    expect(url).toContain(
+      'https://matrix.example.com/_matrix/client/v3/rooms/!room%3Aexample.com/send/m.room.message/'
+    );
+    expect(init).toMatchObject({ method: 'PUT' });
+    expect(init.headers.Authorization).toBe('Bearer syt_token');
+    expect(JSON.parse(init.body).formatted_body).toContain('<strong>Test Notification</strong>');
+  });
+
+  it('returns the provider error when a provider test fails', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      text: async () => 'Bad Request: chat not found',
+    });
+
+    const result = await sendTestWebhook(
+      'https://api.telegram.org',
+      'custom',
+      'telegram',
+      null,
+      '123:abc',
+      'missing'
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Telegram returned 400: Bad Request: chat not found',
+    });
+  });
+
   it('returns error when fetch throws', async () => {
     mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
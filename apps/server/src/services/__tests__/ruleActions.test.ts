@@ -0,0 +1,348 @@
+/**
+ * Rule Action Executor Tests
+ *
+ * Tests automatic rule actions from services/ruleActions.ts:
+ * - isActionOnCooldown: Per-user cooldown backed by termination_logs or account_actions
+ * - findNewestActiveSession: Pick the newest active stream in a violation
+ * - executeRuleActions: Dispatch terminate/log/account actions and isolate failures
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { RULE_ACTION_DEFAULTS } from '@tracearr/shared';
+
+// Mock the database
+vi.mock('../../db/client.js', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+  },
+}));
+
+// Mock the termination service (it talks to media servers)
+vi.mock('../termination.js', () => ({
+  terminateSession: vi.fn(),
+}));
+
+// Mock the account action service (it talks to media servers)
+vi.mock('../accountActions.js', () => ({
+  executeAccountAction: vi.fn(),
+}));
+
+// Import after mocking
+import { db } from '../../db/client.js';
+import { terminateSession } from '../termination.js';
+import { executeAccountAction } from '../accountActions.js';
+import { ValidationError } from '../../utils/errors.js';
+import {
+  isActionOnCooldown,
+  findNewestActiveSession,
+  executeRuleActions,
+  type RuleActionViolation,
+} from '../ruleActions.js';
+import { createMockRule } from '../../test/fixtures.js';
+
+const mockDb = db as unknown as {
+  select: ReturnType<typeof vi.fn>;
+  insert: ReturnType<typeof vi.fn>;
+};
+const mockTerminateSession = vi.mocked(terminateSession);
+const mockExecuteAccountAction = vi.mocked(executeAccountAction);
+
+/**
+ * Mock a select chain ending in .limit() (cooldown lookup)
+ */
+function mockCooldownQuery(rows: { id: string }[]) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(rows),
+      }),
+    }),
+  };
+}
+
+/**
+ * Mock a select chain ending in .orderBy().limit() (newest session lookup)
+ */
+function mockNewestSessionQuery(rows: { id: string }[]) {
+  return {
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        orderBy: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue(rows),
+        }),
+      }),
+    }),
+  };
+}
+
+function createViolation(overrides: Partial<RuleActionViolation> = {}): RuleActionViolation {
+  return {
+    id: randomUUID(),
+    serverId: randomUUID(),
+    serverUserId: randomUUID(),
+    sessionId: randomUUID(),
+    data: {},
+    ...overrides,
+  };
+}
+
+describe('ruleActions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isActionOnCooldown', () => {
+    it('should not query when cooldown is disabled', async () => {
+      const onCooldown = await isActionOnCooldown(randomUUID(), randomUUID(), {
+        type: 'terminate_stream',
+        cooldownMinutes: 0,
+      });
+
+      expect(onCooldown).toBe(false);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should return true when the action ran within the cooldown window', async () => {
+      mockDb.select.mockReturnValue(mockCooldownQuery([{ id: randomUUID() }]));
+
+      const onCooldown = await isActionOnCooldown(randomUUID(), randomUUID(), {
+        type: 'terminate_stream',
+        cooldownMinutes: 5,
+      });
+
+      expect(onCooldown).toBe(true);
+    });
+
+    it('should return false when no recent action exists', async () => {
+      mockDb.select.mockReturnValue(mockCooldownQuery([]));
+
+      const onCooldown = await isActionOnCooldown(randomUUID(), randomUUID(), {
+        type: 'log_only',
+        cooldownMinutes: 5,
+      });
+
+      expect(onCooldown).toBe(false);
+    });
+  });
+
+  describe('findNewestActiveSession', () => {
+    it('should return null for an empty session list', async () => {
+      expect(await findNewestActiveSession([])).toBeNull();
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should return the newest active session', async () => {
+      const newestId = randomUUID();
+      mockDb.select.mockReturnValue(mockNewestSessionQuery([{ id: newestId }]));
+
+      expect(await findNewestActiveSession([randomUUID(), newestId])).toBe(newestId);
+    });
+
+    it('should return null when no involved session is still active', async () => {
+      mockDb.select.mockReturnValue(mockNewestSessionQuery([]));
+
+      expect(await findNewestActiveSession([randomUUID()])).toBeNull();
+    });
+  });
+
+  describe('executeRuleActions', () => {
+    it('should do nothing for rules without actions', async () => {
+      const rule = createMockRule('concurrent_streams');
+
+      const results = await executeRuleActions(rule, createViolation());
+
+      expect(results).toEqual([]);
+      expect(mockTerminateSession).not.toHaveBeenCalled();
+    });
+
+    it('should terminate the triggering session with the configured message', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'terminate_stream', message: 'Too many streams', cooldownMinutes: 5 }],
+      });
+      const violation = createViolation();
+      mockDb.select.mockReturnValue(mockCooldownQuery([]));
+      mockTerminateSession.mockResolvedValue({ success: true, terminationLogId: randomUUID() });
+
+      const results = await executeRuleActions(rule, violation);
+
+      expect(mockTerminateSession).toHaveBeenCalledWith({
+        sessionId: violation.sessionId,
+        trigger: 'rule',
+        ruleId: rule.id,
+        violationId: violation.id,
+        action: 'terminate_stream',
+        reason: 'Too many streams',
+      });
+      expect(results).toEqual([
+        {
+          action: 'terminate_stream',
+          status: 'executed',
+          sessionId: violation.sessionId,
+          success: true,
+          error: undefined,
+        },
+      ]);
+    });
+
+    it('should fall back to the default message when none is configured', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'terminate_stream', cooldownMinutes: 0 }],
+      });
+      mockTerminateSession.mockResolvedValue({ success: true, terminationLogId: randomUUID() });
+
+      await executeRuleActions(rule, createViolation());
+
+      expect(mockTerminateSession).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: RULE_ACTION_DEFAULTS.MESSAGE })
+      );
+    });
+
+    it('should terminate only the newest involved session', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'terminate_newest', cooldownMinutes: 0 }],
+      });
+      const newestId = randomUUID();
+      const violation = createViolation({ data: { relatedSessionIds: [newestId] } });
+      mockDb.select.mockReturnValue(mockNewestSessionQuery([{ id: newestId }]));
+      mockTerminateSession.mockResolvedValue({ success: true, terminationLogId: randomUUID() });
+
+      const results = await executeRuleActions(rule, violation);
+
+      expect(mockTerminateSession).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: newestId, action: 'terminate_newest' })
+      );
+      expect(results[0]!.sessionId).toBe(newestId);
+    });
+
+    it('should skip terminate_newest when no involved stream is still active', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'terminate_newest', cooldownMinutes: 0 }],
+      });
+      mockDb.select.mockReturnValue(mockNewestSessionQuery([]));
+
+      const results = await executeRuleActions(rule, createViolation());
+
+      expect(results).toEqual([{ action: 'terminate_newest', status: 'skipped' }]);
+      expect(mockTerminateSession).not.toHaveBeenCalled();
+    });
+
+    it('should write a termination log entry for log_only without terminating', async () => {
+      const rule = createMockRule('geo_restriction', {
+        actions: [{ type: 'log_only', cooldownMinutes: 0 }],
+      });
+      const violation = createViolation();
+      const values = vi.fn().mockResolvedValue(undefined);
+      mockDb.insert.mockReturnValue({ values });
+
+      const results = await executeRuleActions(rule, violation);
+
+      expect(mockTerminateSession).not.toHaveBeenCalled();
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: violation.sessionId,
+          serverUserId: violation.serverUserId,
+          trigger: 'rule',
+          ruleId: rule.id,
+          violationId: violation.id,
+          action: 'log_only',
+          success: true,
+        })
+      );
+      expect(results[0]!.status).toBe('executed');
+    });
+
+    it('should not run an action that is on cooldown', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'terminate_stream', cooldownMinutes: 10 }],
+      });
+      mockDb.select.mockReturnValue(mockCooldownQuery([{ id: randomUUID() }]));
+
+      const results = await executeRuleActions(rule, createViolation());
+
+      expect(results).toEqual([{ action: 'terminate_stream', status: 'cooldown' }]);
+      expect(mockTerminateSession).not.toHaveBeenCalled();
+    });
+
+    it('should disable the account through the account action service', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'disable_user', cooldownMinutes: 60 }],
+      });
+      const violation = createViolation();
+      mockDb.select.mockReturnValue(mockCooldownQuery([]));
+      mockExecuteAccountAction.mockResolvedValue({
+        success: true,
+        accountActionId: randomUUID(),
+        previousAccess: { isDisabled: false, isShared: true, libraryIds: null },
+      });
+
+      const results = await executeRuleActions(rule, violation);
+
+      expect(mockExecuteAccountAction).toHaveBeenCalledWith({
+        serverUserId: violation.serverUserId,
+        action: 'disable_user',
+        trigger: 'rule',
+        ruleId: rule.id,
+        violationId: violation.id,
+      });
+      expect(results).toEqual([
+        { action: 'disable_user', status: 'executed', success: true, error: undefined },
+      ]);
+      expect(mockTerminateSession).not.toHaveBeenCalled();
+    });
+
+    it('should skip account actions the server does not support', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'remove_share', cooldownMinutes: 0 }],
+      });
+      mockExecuteAccountAction.mockRejectedValue(
+        new ValidationError('Remove share is not supported on jellyfin servers')
+      );
+
+      const results = await executeRuleActions(rule, createViolation());
+
+      expect(results).toEqual([
+        {
+          action: 'remove_share',
+          status: 'skipped',
+          error: 'Remove share is not supported on jellyfin servers',
+        },
+      ]);
+    });
+
+    it('should not repeat an account action that is on cooldown', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [{ type: 'remove_share', cooldownMinutes: 60 }],
+      });
+      mockDb.select.mockReturnValue(mockCooldownQuery([{ id: randomUUID() }]));
+
+      const results = await executeRuleActions(rule, createViolation());
+
+      expect(results).toEqual([{ action: 'remove_share', status: 'cooldown' }]);
+      expect(mockExecuteAccountAction).not.toHaveBeenCalled();
+    });
+
+    it('should keep running remaining actions when one throws', async () => {
+      const rule = createMockRule('concurrent_streams', {
+        actions: [
+          { type: 'terminate_stream', cooldownMinutes: 0 },
+          { type: 'log_only', cooldownMinutes: 0 },
+        ],
+      });
+      mockTerminateSession.mockRejectedValue(new Error('Server unreachable'));
+      mockDb.insert.mockReturnValue({ values: vi.fn().mockResolvedValue(undefined) });
+
+      const results = await executeRuleActions(rule, createViolation());
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        action: 'terminate_stream',
+        status: 'skipped',
+        success: false,
+        error: 'Server unreachable',
+      });
+      expect(results[1]).toMatchObject({ action: 'log_only', status: 'executed' });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Rule Backtest Tests
+ *
+ * Tests the replay and summary helpers from services/ruleBacktest.ts:
+ * - sessionsAsOf: Rebuilding which sessions were playing when a session started
+ * - replayRule: Evaluating a rule against history without recording violations
+ * - countByDay: Daily buckets in a timezone, including empty days
+ * - compareWithExisting: Overlap with the rule's recorded violations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TIME_MS } from '@tracearr/shared';
+import {
+  sessionsAsOf,
+  replayRule,
+  countByDay,
+  compareWithExisting,
+  type BacktestContext,
+  type BacktestHit,
+} from '../ruleBacktest.js';
+import { createMockSession, createMockRule } from '../../test/fixtures.js';
+
+const NOW = new Date('2025-07-10T12:00:00Z');
+
+function hoursAgo(hours: number): Date {
+  return new Date(NOW.getTime() - hours * TIME_MS.HOUR);
+}
+
+function emptyContext(): BacktestContext {
+  return { targets: new Map(), knownLocations: new Map(), deviceHistory: new Map() };
+}
+
+describe('ruleBacktest', () => {
+  describe('sessionsAsOf', () => {
+    it('marks sessions still running at that moment as playing', () => {
+      const running = createMockSession({
+        state: 'stopped',
+        startedAt: hoursAgo(3),
+        stoppedAt: hoursAgo(1),
+      });
+      const finished = createMockSession({
+        state: 'stopped',
+        startedAt: hoursAgo(5),
+        stoppedAt: hoursAgo(4),
+      });
+
+      const result = sessionsAsOf([running, finished], hoursAgo(2));
+
+      expect(result.map((s) => [s.id, s.state])).toEqual([
+        [running.id, 'playing'],
+        [finished.id, 'stopped'],
+      ]);
+      expect(result[0]!.stoppedAt).toBeNull();
+    });
+
+    it('skips sessions that started later or outside the lookback', () => {
+      const later = createMockSession({ startedAt: hoursAgo(1) });
+      const tooOld = createMockSession({ startedAt: hoursAgo(30), stoppedAt: hoursAgo(29) });
+
+      expect(sessionsAsOf([later, tooOld], hoursAgo(2))).toEqual([]);
+    });
+  });
+
+  describe('replayRule', () => {
+    it('flags sessions that would have broken the rule at the time', async () => {
+      const serverUserId = 'user-1';
+      const first = createMockSession({
+        serverUserId,
+        state: 'stopped',
+        deviceId: 'tv',
+        startedAt: hoursAgo(3),
+        stoppedAt: hoursAgo(1),
+      });
+      const second = createMockSession({
+        serverUserId,
+        state: 'stopped',
+        deviceId: 'phone',
+        startedAt: hoursAgo(2),
+        stoppedAt: hoursAgo(1),
+      });
+      const rule = createMockRule('concurrent_streams', { params: { maxStreams: 1 } });
+
+      const hits = await replayRule(rule, [second, first], hoursAgo(24), emptyContext());
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0]!.session.id).toBe(second.id);
+      expect(hits[0]!.data).toMatchObject({ activeStreamCount: 2, relatedSessionIds: [first.id] });
+    });
+
+    it('does not count streams that had already stopped', async () => {
+      const serverUserId = 'user-1';
+      const first = createMockSession({
+        serverUserId,
+        state: 'stopped',
+        deviceId: 'tv',
+        startedAt: hoursAgo(5),
+        stoppedAt: hoursAgo(4),
+      });
+      const second = createMockSession({
+        serverUserId,
+        state: 'stopped',
+        deviceId: 'phone',
+        startedAt: hoursAgo(2),
+        stoppedAt: hoursAgo(1),
+      });
+      const rule = createMockRule('concurrent_streams', { params: { maxStreams: 1 } });
+
+      const hits = await replayRule(rule, [second, first], hoursAgo(24), emptyContext());
+      expect(hits).toHaveLength(0);
+    });
+
+    it('only replays sessions inside the window', async () => {
+      const serverUserId = 'user-1';
+      const context = createMockSession({
+        serverUserId,
+        deviceId: 'tv',
+        startedAt: hoursAgo(30),
+        stoppedAt: null,
+      });
+      const inside = createMockSession({
+        serverUserId,
+        deviceId: 'phone',
+        startedAt: hoursAgo(20),
+      });
+      const rule = createMockRule('concurrent_streams', { params: { maxStreams: 1 } });
+
+      const hits = await replayRule(rule, [inside, context], hoursAgo(24), emptyContext());
+
+      expect(hits.map((h) => h.session.id)).toEqual([inside.id]);
+    });
+
+    it('skips users outside the rule scope', async () => {
+      const session = createMockSession({ geoCountry: 'CN', startedAt: hoursAgo(1) });
+      const rule = createMockRule('geo_restriction', {
+        params: { mode: 'blocklist', countries: ['CN'] },
+        scope: {
+          serverIds: ['other-server'],
+          userIds: [],
+          roles: [],
+          groupIds: [],
+          excludedUserIds: [],
+        },
+      });
+
+      const hits = await replayRule(rule, [session], hoursAgo(24), emptyContext());
+      expect(hits).toHaveLength(0);
+    });
+
+    it('replays cross-server rules against every account of the identity', async () => {
+      const target = (serverUserId: string) => ({
+        serverUserId,
+        serverId: `server-${serverUserId}`,
+        userId: 'identity-1',
+        role: null,
+        groupIds: [],
+        onProbation: false,
+      });
+      const plex = createMockSession({
+        serverUserId: 'plex-user',
+        deviceId: 'tv',
+        startedAt: hoursAgo(3),
+        stoppedAt: null,
+      });
+      const jellyfin = createMockSession({
+        serverUserId: 'jellyfin-user',
+        deviceId: 'phone',
+        startedAt: hoursAgo(2),
+        stoppedAt: null,
+      });
+      const context: BacktestContext = {
+        ...emptyContext(),
+        targets: new Map([
+          ['plex-user', target('plex-user')],
+          ['jellyfin-user', target('jellyfin-user')],
+        ]),
+      };
+      const params = { maxStreams: 1 };
+
+      const ownHits = await replayRule(
+        createMockRule('concurrent_streams', { params }),
+        [jellyfin, plex],
+        hoursAgo(24),
+        context
+      );
+      const crossServerHits = await replayRule(
+        createMockRule('concurrent_streams', { params, crossServer: true }),
+        [jellyfin, plex],
+        hoursAgo(24),
+        context
+      );
+
+      expect(ownHits).toHaveLength(0);
+      expect(crossServerHits.map((h) => h.session.id)).toEqual([jellyfin.id]);
+      expect(crossServerHits[0]!.data.serverUserIds).toEqual(['jellyfin-user', 'plex-user']);
+    });
+  });
+
+  describe('countByDay', () => {
+    function hitAt(startedAt: Date): BacktestHit {
+      return { session: createMockSession({ startedAt }), severity: 'low', data: {} };
+    }
+
+    it('includes every day in the window', () => {
+      const from = new Date('2025-07-01T12:00:00Z');
+      const to = new Date('2025-07-04T12:00:00Z');
+      const hits = [
+        hitAt(new Date('2025-07-02T08:00:00Z')),
+        hitAt(new Date('2025-07-02T09:00:00Z')),
+      ];
+
+      expect(countByDay(hits, from, to, 'UTC')).toEqual([
+        { date: '2025-07-01', count: 0 },
+        { date: '2025-07-02', count: 2 },
+        { date: '2025-07-03', count: 0 },
+        { date: '2025-07-04', count: 0 },
+      ]);
+    });
+
+    it('buckets by the requested timezone', () => {
+      const from = new Date('2025-07-01T12:00:00Z');
+      const to = new Date('2025-07-02T12:00:00Z');
+      // 02:00 UTC is still the previous evening in New York
+      const hits = [hitAt(new Date('2025-07-02T02:00:00Z'))];
+
+      expect(countByDay(hits, from, to, 'America/New_York')).toEqual([
+        { date: '2025-07-01', count: 1 },
+        { date: '2025-07-02', count: 0 },
+      ]);
+    });
+  });
+
+  describe('compareWithExisting', () => {
+    it('matches hypothetical and recorded violations by session', () => {
+      const matched = createMockSession();
+      const fresh = createMockSession();
+      const hits: BacktestHit[] = [matched, fresh].map((session) => ({
+        session,
+        severity: 'low',
+        data: {},
+      }));
+
+      const { overlap, existingBySession } = compareWithExisting(hits, [
+        { id: 'v-1', sessionId: matched.id },
+        { id: 'v-2', sessionId: 'no-longer-fires' },
+      ]);
+
+      expect(overlap).toEqual({ existingCount: 2, matchedCount: 1, newCount: 1, missedCount: 1 });
+      expect(existingBySession.get(matched.id)).toBe('v-1');
+    });
+  });
+});
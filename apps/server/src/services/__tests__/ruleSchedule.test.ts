@@ -0,0 +1,131 @@
+/**
+ * Rule Schedule Tests
+ *
+ * Tests schedule evaluation from services/ruleSchedule.ts:
+ * - isInScheduleWindow: Day-of-week and hour windows, including overnight ranges
+ * - isRuleScheduleActive: Timezones, windows and per-identity suspensions
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { RuleSchedule } from '@tracearr/shared';
+import { isInScheduleWindow, isRuleScheduleActive } from '../ruleSchedule.js';
+
+const WEEKNIGHTS = [1, 2, 3, 4, 5];
+
+function createSchedule(overrides: Partial<RuleSchedule> = {}): RuleSchedule {
+  return {
+    timezone: 'UTC',
+    windows: [],
+    suspensions: [],
+    ...overrides,
+  };
+}
+
+describe('ruleSchedule', () => {
+  describe('isInScheduleWindow', () => {
+    const window = { days: WEEKNIGHTS, startTime: '18:00', endTime: '23:00' };
+
+    it('matches a time inside the window on a listed day', () => {
+      // Wednesday 19:00
+      expect(isInScheduleWindow(window, { minutes: 19 * 60, weekday: 3, date: '2025-01-15' })).toBe(
+        true
+      );
+    });
+
+    it('does not match outside the hours', () => {
+      expect(isInScheduleWindow(window, { minutes: 12 * 60, weekday: 3, date: '2025-01-15' })).toBe(
+        false
+      );
+    });
+
+    it('does not match on an unlisted day', () => {
+      // Saturday 19:00
+      expect(isInScheduleWindow(window, { minutes: 19 * 60, weekday: 6, date: '2025-01-18' })).toBe(
+        false
+      );
+    });
+
+    it('attributes the early hours of an overnight window to the previous day', () => {
+      const friday = { days: [5], startTime: '22:00', endTime: '02:00' };
+
+      // Saturday 01:00 belongs to Friday night
+      expect(isInScheduleWindow(friday, { minutes: 60, weekday: 6, date: '2025-01-18' })).toBe(true);
+      // Friday 01:00 belongs to Thursday night
+      expect(isInScheduleWindow(friday, { minutes: 60, weekday: 5, date: '2025-01-17' })).toBe(false);
+      // Friday 23:00
+      expect(isInScheduleWindow(friday, { minutes: 23 * 60, weekday: 5, date: '2025-01-17' })).toBe(
+        true
+      );
+    });
+  });
+
+  describe('isRuleScheduleActive', () => {
+    it('is always active without a schedule', () => {
+      expect(isRuleScheduleActive(null, new Date(), null)).toBe(true);
+    });
+
+    it('is always active with no windows or suspensions', () => {
+      expect(isRuleScheduleActive(createSchedule(), new Date(), null)).toBe(true);
+    });
+
+    it('evaluates windows in the schedule timezone', () => {
+      const schedule = createSchedule({
+        timezone: 'America/New_York',
+        windows: [{ days: WEEKNIGHTS, startTime: '18:00', endTime: '23:00' }],
+      });
+
+      // Wednesday 23:30 UTC = 18:30 in New York
+      expect(isRuleScheduleActive(schedule, new Date('2025-01-15T23:30:00Z'), null)).toBe(true);
+      // Wednesday 19:00 UTC = 14:00 in New York
+      expect(isRuleScheduleActive(schedule, new Date('2025-01-15T19:00:00Z'), null)).toBe(false);
+    });
+
+    it('uses the local date for day-of-week checks', () => {
+      const schedule = createSchedule({
+        timezone: 'Asia/Tokyo',
+        windows: [{ days: [6], startTime: '00:00', endTime: '23:59' }],
+      });
+
+      // Friday 20:00 UTC = Saturday 05:00 in Tokyo
+      expect(isRuleScheduleActive(schedule, new Date('2025-01-17T20:00:00Z'), null)).toBe(true);
+    });
+
+    it('falls back to UTC for an invalid timezone', () => {
+      const schedule = createSchedule({
+        timezone: 'Invalid/Timezone',
+        windows: [{ days: [3], startTime: '10:00', endTime: '11:00' }],
+      });
+
+      expect(isRuleScheduleActive(schedule, new Date('2025-01-15T10:30:00Z'), null)).toBe(true);
+    });
+
+    it('suspends the rule for the matching identity only', () => {
+      const schedule = createSchedule({
+        suspensions: [{ userId: 'user-1', startDate: '2025-07-01', endDate: '2025-07-14' }],
+      });
+      const during = new Date('2025-07-10T12:00:00Z');
+
+      expect(isRuleScheduleActive(schedule, during, 'user-1')).toBe(false);
+      expect(isRuleScheduleActive(schedule, during, 'user-2')).toBe(true);
+      expect(isRuleScheduleActive(schedule, during, null)).toBe(true);
+    });
+
+    it('suspends the rule for everyone when the suspension has no identity', () => {
+      const schedule = createSchedule({
+        suspensions: [{ userId: null, startDate: '2025-12-24', endDate: '2025-12-26' }],
+      });
+
+      expect(isRuleScheduleActive(schedule, new Date('2025-12-25T12:00:00Z'), 'user-1')).toBe(false);
+    });
+
+    it('includes both ends of the suspension date range', () => {
+      const schedule = createSchedule({
+        suspensions: [{ userId: null, startDate: '2025-07-01', endDate: '2025-07-14' }],
+      });
+
+      expect(isRuleScheduleActive(schedule, new Date('2025-07-01T00:00:00Z'), null)).toBe(false);
+      expect(isRuleScheduleActive(schedule, new Date('2025-07-14T23:59:00Z'), null)).toBe(false);
+      expect(isRuleScheduleActive(schedule, new Date('2025-07-15T00:00:00Z'), null)).toBe(true);
+    });
+  });
+});
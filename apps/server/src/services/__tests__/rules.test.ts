@@ -1,20 +1,35 @@
 /**
  * RuleEngine unit tests
  *
- * Tests all 5 rule types:
+ * Tests all 9 rule types:
  * - impossible_travel: Detects physically impossible location changes
  * - simultaneous_locations: Detects same user streaming from distant locations simultaneously
  * - device_velocity: Detects too many unique IPs in a time window
+ * - device_novelty: Detects bursts of new devices and never-used platforms
  * - concurrent_streams: Detects exceeding stream limits
  * - geo_restriction: Detects streams from blocked countries
+ * - anonymous_network: Detects streams from VPNs, proxies, Tor and hosting providers
+ * - stream_quality: Detects transcode and remote bandwidth abuse
+ * - composite: Combines the other types in an AND/OR condition tree
+ *
+ * Also covers rules that read their thresholds from policy profiles.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { RuleEngine } from '../rules.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CompositeParams, CompositeMatchedCondition } from '@tracearr/shared';
+import {
+  RuleEngine,
+  rulesUsePolicyProfile,
+  rulesUseType,
+  type DeviceHistoryEntry,
+  type RulePolicyProfile,
+} from '../rules.js';
+import { asnService } from '../asn.js';
 import {
   createMockSession,
   createMockRule,
   createSessionsWithDifferentIps,
+  createMockKnownLocation,
   TEST_LOCATIONS,
   calculateDistanceKm,
 } from '../../test/fixtures.js';
@@ -98,6 +113,65 @@ describe('RuleEngine', () => {
       const results = await ruleEngine.evaluateSession(session, rules, []);
       expect(results).toHaveLength(2);
     });
+
+    it('should skip rules outside their schedule window', async () => {
+      // Wednesday 10:00 UTC
+      const session = createMockSession({
+        state: 'playing',
+        startedAt: new Date('2025-01-15T10:00:00Z'),
+      });
+      const rule = createMockRule('concurrent_streams', {
+        params: { maxStreams: 0 },
+        schedule: {
+          timezone: 'UTC',
+          windows: [{ days: [1, 2, 3, 4, 5], startTime: '18:00', endTime: '23:00' }],
+          suspensions: [],
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+      expect(results).toEqual([]);
+    });
+
+    it('should apply rules inside their schedule window', async () => {
+      // Wednesday 19:30 UTC
+      const session = createMockSession({
+        state: 'playing',
+        startedAt: new Date('2025-01-15T19:30:00Z'),
+      });
+      const rule = createMockRule('concurrent_streams', {
+        params: { maxStreams: 0 },
+        schedule: {
+          timezone: 'UTC',
+          windows: [{ days: [1, 2, 3, 4, 5], startTime: '18:00', endTime: '23:00' }],
+          suspensions: [],
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+      expect(results).toHaveLength(1);
+    });
+
+    it('should skip rules suspended for the session identity', async () => {
+      const userId = 'identity-1';
+      const session = createMockSession({
+        geoCountry: 'FR',
+        startedAt: new Date('2025-07-05T12:00:00Z'),
+      });
+      const rule = createMockRule('geo_restriction', {
+        params: { mode: 'blocklist', countries: ['FR'] },
+        schedule: {
+          timezone: 'UTC',
+          windows: [],
+          suspensions: [{ userId, startDate: '2025-07-01', endDate: '2025-07-14' }],
+        },
+      });
+
+      expect(await ruleEngine.evaluateSession(session, [rule], [], { userId })).toEqual([]);
+      expect(
+        await ruleEngine.evaluateSession(session, [rule], [], { userId: 'identity-2' })
+      ).toHaveLength(1);
+    });
   });
 
   describe('impossible_travel', () => {
@@ -177,6 +251,78 @@ describe('RuleEngine', () => {
       expect(results[0]!.data.calculatedSpeed).toBeGreaterThan(500);
     });
 
+    describe('ignoreVpnRanges', () => {
+      afterEach(() => {
+        vi.restoreAllMocks();
+      });
+
+      const createTravelSessions = () => ({
+        previousSession: createMockSession({
+          serverUserId,
+          ipAddress: '198.51.100.1',
+          geoLat: TEST_LOCATIONS.newYork.lat,
+          geoLon: TEST_LOCATIONS.newYork.lon,
+          startedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+        }),
+        currentSession: createMockSession({
+          serverUserId,
+          ipAddress: '203.0.113.1',
+          geoLat: TEST_LOCATIONS.london.lat,
+          geoLon: TEST_LOCATIONS.london.lon,
+          startedAt: new Date(),
+        }),
+      });
+
+      it('should skip when the current session is on an anonymous network', async () => {
+        vi.spyOn(asnService, 'getAnonymousCategories').mockImplementation((ip) =>
+          ip === '203.0.113.1' ? ['vpn'] : []
+        );
+        const { previousSession, currentSession } = createTravelSessions();
+        const rule = createMockRule('impossible_travel', {
+          params: { maxSpeedKmh: 500, ignoreVpnRanges: true },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          currentSession,
+          [rule],
+          [previousSession]
+        );
+        expect(results).toHaveLength(0);
+      });
+
+      it('should ignore previous sessions on anonymous networks', async () => {
+        vi.spyOn(asnService, 'getAnonymousCategories').mockImplementation((ip) =>
+          ip === '198.51.100.1' ? ['hosting'] : []
+        );
+        const { previousSession, currentSession } = createTravelSessions();
+        const rule = createMockRule('impossible_travel', {
+          params: { maxSpeedKmh: 500, ignoreVpnRanges: true },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          currentSession,
+          [rule],
+          [previousSession]
+        );
+        expect(results).toHaveLength(0);
+      });
+
+      it('should still violate when ignoreVpnRanges is off', async () => {
+        vi.spyOn(asnService, 'getAnonymousCategories').mockReturnValue(['vpn']);
+        const { previousSession, currentSession } = createTravelSessions();
+        const rule = createMockRule('impossible_travel', {
+          params: { maxSpeedKmh: 500, ignoreVpnRanges: false },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          currentSession,
+          [rule],
+          [previousSession]
+        );
+        expect(results).toHaveLength(1);
+      });
+    });
+
     it('should not violate when geo data is missing on current session', async () => {
       const previousSession = createMockSession({
         serverUserId,
@@ -631,6 +777,100 @@ describe('RuleEngine', () => {
       expect(results[0]!.data.relatedSessionIds).toContain('session-la');
       expect(results[0]!.data.relatedSessionIds).toContain('session-tokyo');
     });
+
+    describe('known locations', () => {
+      // Home in New York and a partner's place in Los Angeles
+      const home = createMockKnownLocation({
+        type: 'geo',
+        lat: TEST_LOCATIONS.newYork.lat,
+        lon: TEST_LOCATIONS.newYork.lon,
+        radiusKm: 25,
+      });
+      const partner = createMockKnownLocation({
+        type: 'geo',
+        lat: TEST_LOCATIONS.losAngeles.lat,
+        lon: TEST_LOCATIONS.losAngeles.lon,
+        radiusKm: 25,
+      });
+
+      const createSessionAt = (id: string, location: { lat: number; lon: number }) =>
+        createMockSession({
+          id,
+          serverUserId,
+          state: 'playing',
+          deviceId: id,
+          geoLat: location.lat,
+          geoLon: location.lon,
+        });
+
+      it('should ignore conflicts between two known locations', async () => {
+        const rule = createMockRule('simultaneous_locations', {
+          params: { minDistanceKm: 100, knownLocationMode: 'ignore' },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          createSessionAt('session-ny', TEST_LOCATIONS.newYork),
+          [rule],
+          [createSessionAt('session-la', TEST_LOCATIONS.losAngeles)],
+          { knownLocations: [home, partner] }
+        );
+
+        expect(results).toHaveLength(0);
+      });
+
+      it('should still report conflicts with an unknown location when ignoring', async () => {
+        const rule = createMockRule('simultaneous_locations', {
+          params: { minDistanceKm: 100, knownLocationMode: 'ignore' },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          createSessionAt('session-ny', TEST_LOCATIONS.newYork),
+          [rule],
+          [
+            createSessionAt('session-la', TEST_LOCATIONS.losAngeles),
+            createSessionAt('session-tokyo', TEST_LOCATIONS.tokyo),
+          ],
+          { knownLocations: [home, partner] }
+        );
+
+        expect(results).toHaveLength(1);
+        expect(results[0]!.severity).toBe('warning');
+        expect(results[0]!.data.relatedSessionIds).toEqual(['session-tokyo']);
+      });
+
+      it('should downweight conflicts between known locations to low severity', async () => {
+        const rule = createMockRule('simultaneous_locations', {
+          params: { minDistanceKm: 100, knownLocationMode: 'downweight' },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          createSessionAt('session-ny', TEST_LOCATIONS.newYork),
+          [rule],
+          [createSessionAt('session-la', TEST_LOCATIONS.losAngeles)],
+          { knownLocations: [home, partner] }
+        );
+
+        expect(results).toHaveLength(1);
+        expect(results[0]!.severity).toBe('low');
+        expect(results[0]!.data.knownLocationsOnly).toBe(true);
+      });
+
+      it('should not use known locations when the mode is off', async () => {
+        const rule = createMockRule('simultaneous_locations', {
+          params: { minDistanceKm: 100 },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          createSessionAt('session-ny', TEST_LOCATIONS.newYork),
+          [rule],
+          [createSessionAt('session-la', TEST_LOCATIONS.losAngeles)],
+          { knownLocations: [home, partner] }
+        );
+
+        expect(results).toHaveLength(1);
+        expect(results[0]!.severity).toBe('warning');
+      });
+    });
   });
 
   describe('device_velocity', () => {
@@ -797,6 +1037,207 @@ describe('RuleEngine', () => {
       // Only 2 unique IPs: 192.168.1.1 and 192.168.1.2
       expect(results).toHaveLength(0);
     });
+
+    describe('known locations', () => {
+      // Rotating carrier IPs in 10.0.0.0/24
+      const carrier = createMockKnownLocation({ cidr: '10.0.0.0/24' });
+      const createCarrierSessions = (count: number) =>
+        Array.from({ length: count }, (_, i) =>
+          createMockSession({ serverUserId, ipAddress: `10.0.0.${i + 1}` })
+        );
+
+      it('should not count IPs from known locations when ignoring', async () => {
+        const rule = createMockRule('device_velocity', {
+          params: { maxIps: 2, windowHours: 24, knownLocationMode: 'ignore' },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          createMockSession({ serverUserId, ipAddress: '192.168.1.200' }),
+          [rule],
+          createCarrierSessions(4),
+          { knownLocations: [carrier] }
+        );
+
+        expect(results).toHaveLength(0);
+      });
+
+      it('should downweight when known IPs push the count over the limit', async () => {
+        const rule = createMockRule('device_velocity', {
+          params: { maxIps: 2, windowHours: 24, knownLocationMode: 'downweight' },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          createMockSession({ serverUserId, ipAddress: '192.168.1.200' }),
+          [rule],
+          createCarrierSessions(4),
+          { knownLocations: [carrier] }
+        );
+
+        expect(results).toHaveLength(1);
+        expect(results[0]!.severity).toBe('low');
+        expect(results[0]!.data.uniqueIpCount).toBe(5);
+        expect(results[0]!.data.knownIpCount).toBe(4);
+      });
+
+      it('should keep warning severity when unknown IPs alone exceed the limit', async () => {
+        const rule = createMockRule('device_velocity', {
+          params: { maxIps: 2, windowHours: 24, knownLocationMode: 'downweight' },
+        });
+
+        const results = await ruleEngine.evaluateSession(
+          createMockSession({ serverUserId, ipAddress: '192.168.1.200' }),
+          [rule],
+          [...createCarrierSessions(2), ...createSessionsWithDifferentIps(serverUserId, 2, 24)],
+          { knownLocations: [carrier] }
+        );
+
+        expect(results).toHaveLength(1);
+        expect(results[0]!.severity).toBe('warning');
+      });
+    });
+  });
+
+  describe('device_novelty', () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+    const entry = (
+      deviceId: string,
+      platform: string,
+      firstSeenHoursAgo: number
+    ): DeviceHistoryEntry => ({ deviceId, platform, firstSeenAt: hoursAgo(firstSeenHoursAgo) });
+
+    const establishedHistory = [entry('iphone', 'iOS', 24 * 90), entry('ipad', 'iOS', 24 * 30)];
+
+    it('should not violate for a known device', async () => {
+      const session = createMockSession({ deviceId: 'iphone', platform: 'iOS' });
+      const rule = createMockRule('device_novelty', {
+        params: { maxNewDevices: 0, windowHours: 24, alertOnNewPlatform: true },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        deviceHistory: establishedHistory,
+      });
+      expect(results).toHaveLength(0);
+    });
+
+    it('should not violate when new devices are within the limit', async () => {
+      const session = createMockSession({ deviceId: 'iphone-2', platform: 'iOS' });
+      const rule = createMockRule('device_novelty', {
+        params: { maxNewDevices: 2, windowHours: 24, alertOnNewPlatform: true },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        deviceHistory: [...establishedHistory, entry('iphone-1', 'iOS', 2)],
+      });
+      expect(results).toHaveLength(0);
+    });
+
+    it('should violate when new devices in the window exceed the limit', async () => {
+      const session = createMockSession({ deviceId: 'phone-c', platform: 'iOS' });
+      const rule = createMockRule('device_novelty', {
+        params: { maxNewDevices: 2, windowHours: 24, alertOnNewPlatform: false },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        deviceHistory: [
+          ...establishedHistory,
+          entry('phone-a', 'iOS', 5),
+          entry('phone-b', 'iOS', 1),
+          entry('phone-old', 'iOS', 48), // Outside the window
+        ],
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.severity).toBe('warning');
+      expect(results[0]!.data).toMatchObject({
+        deviceId: 'phone-c',
+        newDeviceCount: 3,
+        maxNewDevices: 2,
+        burst: true,
+        newPlatform: false,
+      });
+      const newDevices = results[0]!.data.newDevices as { deviceId: string }[];
+      expect(newDevices.map((d) => d.deviceId).sort()).toEqual(['phone-a', 'phone-b', 'phone-c']);
+    });
+
+    it('should violate when a device appears on a never-used platform', async () => {
+      const session = createMockSession({ deviceId: 'living-room', platform: 'Android TV' });
+      const rule = createMockRule('device_novelty', {
+        params: { maxNewDevices: 5, windowHours: 24, alertOnNewPlatform: true },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        deviceHistory: establishedHistory,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.severity).toBe('low');
+      expect(results[0]!.data).toMatchObject({
+        platform: 'Android TV',
+        burst: false,
+        newPlatform: true,
+        knownPlatforms: ['iOS'],
+      });
+    });
+
+    it('should not alert on a new platform when disabled', async () => {
+      const session = createMockSession({ deviceId: 'living-room', platform: 'Android TV' });
+      const rule = createMockRule('device_novelty', {
+        params: { maxNewDevices: 5, windowHours: 24, alertOnNewPlatform: false },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        deviceHistory: establishedHistory,
+      });
+      expect(results).toHaveLength(0);
+    });
+
+    it('should not violate for an account without prior history', async () => {
+      const session = createMockSession({ deviceId: 'first-device', platform: 'Roku' });
+      const rule = createMockRule('device_novelty', {
+        params: { maxNewDevices: 0, windowHours: 24, alertOnNewPlatform: true },
+      });
+
+      // History loaded after insert only contains this session
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        deviceHistory: [
+          { deviceId: 'first-device', platform: 'Roku', firstSeenAt: session.startedAt },
+        ],
+      });
+      expect(results).toHaveLength(0);
+    });
+  });
+
+  describe('rulesUseType', () => {
+    it('should find a rule type directly or inside a composite tree', () => {
+      const direct = createMockRule('device_novelty');
+      const nested = createMockRule('composite', {
+        params: {
+          root: {
+            kind: 'group',
+            operator: 'and',
+            conditions: [
+              { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 2 } },
+              {
+                kind: 'group',
+                operator: 'or',
+                conditions: [
+                  {
+                    kind: 'condition',
+                    type: 'device_novelty',
+                    params: { maxNewDevices: 1, windowHours: 24, alertOnNewPlatform: true },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      });
+      const other = createMockRule('concurrent_streams');
+
+      expect(rulesUseType([direct], 'device_novelty')).toBe(true);
+      expect(rulesUseType([other, nested], 'device_novelty')).toBe(true);
+      expect(rulesUseType([other], 'device_novelty')).toBe(false);
+    });
   });
 
   describe('concurrent_streams', () => {
@@ -1150,6 +1591,741 @@ describe('RuleEngine', () => {
     });
   });
 
+  describe('anonymous_network', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should violate when the IP is in an enabled category', async () => {
+      vi.spyOn(asnService, 'getAnonymousCategories').mockReturnValue(['vpn']);
+      const session = createMockSession({ asn: 9009, asnOrg: 'M247 Europe SRL' });
+      const rule = createMockRule('anonymous_network', {
+        params: { categories: ['vpn', 'tor'], asns: [] },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.severity).toBe('warning');
+      expect(results[0]!.data).toMatchObject({
+        asn: 9009,
+        asnOrg: 'M247 Europe SRL',
+        categories: ['vpn'],
+        listedAsn: false,
+      });
+    });
+
+    it('should not violate for categories that are not enabled', async () => {
+      vi.spyOn(asnService, 'getAnonymousCategories').mockReturnValue(['hosting']);
+      const session = createMockSession();
+      const rule = createMockRule('anonymous_network', {
+        params: { categories: ['vpn', 'tor'], asns: [] },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+      expect(results).toHaveLength(0);
+    });
+
+    it('should violate when the session ASN is listed', async () => {
+      vi.spyOn(asnService, 'getAnonymousCategories').mockReturnValue([]);
+      const session = createMockSession({ asn: 64500 });
+      const rule = createMockRule('anonymous_network', {
+        params: { categories: [], asns: [64500] },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data).toMatchObject({ categories: [], listedAsn: true });
+    });
+
+    it('should not violate for a clean IP without ASN', async () => {
+      vi.spyOn(asnService, 'getAnonymousCategories').mockReturnValue([]);
+      const session = createMockSession({ asn: null });
+      const rule = createMockRule('anonymous_network', {
+        params: { categories: ['hosting', 'vpn', 'tor', 'proxy'], asns: [64500] },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+      expect(results).toHaveLength(0);
+    });
+  });
+
+  describe('stream_quality', () => {
+    const serverUserId = 'user-quality';
+    const REMOTE_IP = '203.0.113.10';
+    const LOCAL_IP = '192.168.1.20';
+
+    it('should violate when a second 4K transcode starts', async () => {
+      const activeTranscode = createMockSession({
+        serverUserId,
+        quality: '4K',
+        isTranscode: true,
+      });
+      const session = createMockSession({ serverUserId, quality: '4K', isTranscode: true });
+      const rule = createMockRule('stream_quality');
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [activeTranscode]);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.severity).toBe('warning');
+      expect(results[0]!.data).toMatchObject({
+        transcodeCount: 2,
+        maxConcurrentTranscodes: 1,
+        transcodeResolution: '4K',
+        relatedSessionIds: [activeTranscode.id],
+      });
+    });
+
+    it('should not count transcodes below the resolution threshold', async () => {
+      const activeTranscode = createMockSession({
+        serverUserId,
+        quality: '1080p',
+        isTranscode: true,
+      });
+      const session = createMockSession({ serverUserId, quality: '4K', isTranscode: true });
+      const rule = createMockRule('stream_quality');
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [activeTranscode]);
+      expect(results).toHaveLength(0);
+    });
+
+    it('should not violate for a direct play', async () => {
+      const activeTranscode = createMockSession({
+        serverUserId,
+        quality: '4K',
+        isTranscode: true,
+      });
+      const session = createMockSession({ serverUserId, quality: '4K', isTranscode: false });
+      const rule = createMockRule('stream_quality');
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [activeTranscode]);
+      expect(results).toHaveLength(0);
+    });
+
+    it('should ignore the stream replaced by a quality change', async () => {
+      const original = createMockSession({
+        serverUserId,
+        quality: '4K',
+        isTranscode: true,
+        deviceId: 'tv-1',
+      });
+      // Same playback, new sessionKey; evaluated before the poller's stale copy is refreshed
+      const session = createMockSession({
+        serverUserId,
+        quality: '4K',
+        isTranscode: true,
+        deviceId: 'tv-2',
+        referenceId: original.id,
+      });
+      const rule = createMockRule('stream_quality');
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [original]);
+      expect(results).toHaveLength(0);
+    });
+
+    it('should violate when total remote bitrate exceeds the cap', async () => {
+      const remoteStream = createMockSession({
+        serverUserId,
+        ipAddress: REMOTE_IP,
+        bitrate: 12000,
+      });
+      const localStream = createMockSession({
+        serverUserId,
+        ipAddress: LOCAL_IP,
+        bitrate: 40000,
+      });
+      const session = createMockSession({ serverUserId, ipAddress: REMOTE_IP, bitrate: 10000 });
+      const rule = createMockRule('stream_quality', {
+        params: {
+          maxConcurrentTranscodes: null,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: 20,
+          maxTranscodePercent: null,
+          minSessions: 5,
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(
+        session,
+        [rule],
+        [remoteStream, localStream]
+      );
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data).toMatchObject({
+        remoteBitrateMbps: 22,
+        maxRemoteBitrateMbps: 20,
+        remoteStreamCount: 2,
+        relatedSessionIds: [remoteStream.id],
+      });
+    });
+
+    it('should not apply the bitrate cap to local sessions', async () => {
+      const session = createMockSession({ serverUserId, ipAddress: LOCAL_IP, bitrate: 80000 });
+      const rule = createMockRule('stream_quality', {
+        params: {
+          maxConcurrentTranscodes: null,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: 20,
+          maxTranscodePercent: null,
+          minSessions: 5,
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+      expect(results).toHaveLength(0);
+    });
+
+    it('should flag users who almost always transcode', async () => {
+      const history = [true, true, true, false].map((isTranscode) =>
+        createMockSession({ serverUserId, state: 'stopped', isTranscode })
+      );
+      const session = createMockSession({ serverUserId, isTranscode: true });
+      const rule = createMockRule('stream_quality', {
+        params: {
+          maxConcurrentTranscodes: null,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: null,
+          maxTranscodePercent: 80,
+          minSessions: 5,
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], history);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.severity).toBe('low');
+      expect(results[0]!.data).toMatchObject({
+        transcodePercent: 80,
+        maxTranscodePercent: 80,
+        playCount: 5,
+      });
+    });
+
+    it('should count a playback split by quality changes once', async () => {
+      const original = createMockSession({ serverUserId, state: 'stopped', isTranscode: true });
+      const history = [
+        original,
+        createMockSession({
+          serverUserId,
+          state: 'stopped',
+          isTranscode: true,
+          referenceId: original.id,
+        }),
+        createMockSession({ serverUserId, state: 'stopped', isTranscode: true }),
+        createMockSession({ serverUserId, state: 'stopped', isTranscode: false }),
+      ];
+      const session = createMockSession({ serverUserId, isTranscode: true });
+      const rule = createMockRule('stream_quality', {
+        params: {
+          maxConcurrentTranscodes: null,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: null,
+          maxTranscodePercent: 50,
+          minSessions: 5,
+        },
+      });
+
+      // 4 plays, below minSessions
+      const results = await ruleEngine.evaluateSession(session, [rule], history);
+      expect(results).toHaveLength(0);
+    });
+  });
+
+  describe('composite', () => {
+    const serverUserId = 'user-123';
+
+    // concurrent_streams > 2 AND streams more than 500 km apart
+    const streamsAndDistance: CompositeParams = {
+      root: {
+        kind: 'group',
+        operator: 'and',
+        conditions: [
+          { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 2 } },
+          { kind: 'condition', type: 'simultaneous_locations', params: { minDistanceKm: 500 } },
+        ],
+      },
+    };
+
+    function createDistantSessions() {
+      const activeSessions = [
+        createMockSession({
+          serverUserId,
+          state: 'playing',
+          geoLat: TEST_LOCATIONS.newYork.lat,
+          geoLon: TEST_LOCATIONS.newYork.lon,
+        }),
+        createMockSession({
+          serverUserId,
+          state: 'playing',
+          geoLat: TEST_LOCATIONS.newYork.lat,
+          geoLon: TEST_LOCATIONS.newYork.lon,
+        }),
+      ];
+      const currentSession = createMockSession({
+        serverUserId,
+        state: 'playing',
+        geoLat: TEST_LOCATIONS.losAngeles.lat,
+        geoLon: TEST_LOCATIONS.losAngeles.lon,
+      });
+      return { activeSessions, currentSession };
+    }
+
+    it('should violate when all AND conditions match', async () => {
+      const { activeSessions, currentSession } = createDistantSessions();
+      const rule = createMockRule('composite', { params: streamsAndDistance });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], activeSessions);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data.operator).toBe('and');
+      expect(results[0]!.data.matchedBranches).toEqual(['0', '1']);
+      const matched = results[0]!.data.matchedConditions as CompositeMatchedCondition[];
+      expect(matched.map((c) => c.type)).toEqual(['concurrent_streams', 'simultaneous_locations']);
+      expect(matched[0]!.data.activeStreamCount).toBe(3);
+    });
+
+    it('should use the highest severity among matched conditions', async () => {
+      const { activeSessions, currentSession } = createDistantSessions();
+      const rule = createMockRule('composite', { params: streamsAndDistance });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], activeSessions);
+
+      // concurrent_streams is low, simultaneous_locations is warning
+      expect(results[0]!.severity).toBe('warning');
+    });
+
+    it('should merge related sessions from matched conditions', async () => {
+      const { activeSessions, currentSession } = createDistantSessions();
+      const rule = createMockRule('composite', { params: streamsAndDistance });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], activeSessions);
+
+      expect(results[0]!.data.relatedSessionIds).toEqual(
+        expect.arrayContaining(activeSessions.map((s) => s.id))
+      );
+      expect(results[0]!.data.relatedSessionIds).toHaveLength(2);
+    });
+
+    it('should not violate when only some AND conditions match', async () => {
+      // 3 streams, but all in the same city
+      const activeSessions = [
+        createMockSession({
+          serverUserId,
+          state: 'playing',
+          geoLat: TEST_LOCATIONS.newYork.lat,
+          geoLon: TEST_LOCATIONS.newYork.lon,
+        }),
+        createMockSession({
+          serverUserId,
+          state: 'playing',
+          geoLat: TEST_LOCATIONS.newYork.lat,
+          geoLon: TEST_LOCATIONS.newYork.lon,
+        }),
+      ];
+      const currentSession = createMockSession({
+        serverUserId,
+        state: 'playing',
+        geoLat: TEST_LOCATIONS.newYork.lat,
+        geoLon: TEST_LOCATIONS.newYork.lon,
+      });
+      const rule = createMockRule('composite', { params: streamsAndDistance });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], activeSessions);
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should violate when any OR condition matches and record only matched branches', async () => {
+      const session = createMockSession({ serverUserId, geoCountry: 'CN' });
+      const rule = createMockRule('composite', {
+        params: {
+          root: {
+            kind: 'group',
+            operator: 'or',
+            conditions: [
+              { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 3 } },
+              {
+                kind: 'condition',
+                type: 'geo_restriction',
+                params: { mode: 'allowlist', countries: ['US'] },
+              },
+            ],
+          },
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.severity).toBe('high');
+      expect(results[0]!.data.matchedBranches).toEqual(['1']);
+    });
+
+    it('should not violate when no OR condition matches', async () => {
+      const session = createMockSession({ serverUserId, geoCountry: 'US' });
+      const rule = createMockRule('composite', {
+        params: {
+          root: {
+            kind: 'group',
+            operator: 'or',
+            conditions: [
+              { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 3 } },
+              {
+                kind: 'condition',
+                type: 'geo_restriction',
+                params: { mode: 'allowlist', countries: ['US'] },
+              },
+            ],
+          },
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should evaluate nested groups and record nested paths', async () => {
+      const { activeSessions, currentSession } = createDistantSessions();
+      const rule = createMockRule('composite', {
+        params: {
+          root: {
+            kind: 'group',
+            operator: 'and',
+            conditions: [
+              { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 2 } },
+              {
+                kind: 'group',
+                operator: 'or',
+                conditions: [
+                  {
+                    kind: 'condition',
+                    type: 'geo_restriction',
+                    params: { mode: 'blocklist', countries: ['CN'] },
+                  },
+                  {
+                    kind: 'condition',
+                    type: 'simultaneous_locations',
+                    params: { minDistanceKm: 500 },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], activeSessions);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data.matchedBranches).toEqual(['0', '1.1']);
+    });
+
+    it('should not violate for an empty condition tree', async () => {
+      const session = createMockSession({ serverUserId });
+      const rule = createMockRule('composite');
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should ignore nested composite conditions', async () => {
+      const session = createMockSession({ serverUserId });
+      const rule = createMockRule('composite', {
+        params: {
+          root: {
+            kind: 'group',
+            operator: 'or',
+            conditions: [
+              {
+                kind: 'condition',
+                type: 'composite' as any,
+                params: { root: { kind: 'group', operator: 'or', conditions: [] } },
+              },
+            ],
+          },
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], []);
+
+      expect(results).toHaveLength(0);
+    });
+  });
+
+  describe('policy profiles', () => {
+    const serverUserId = 'user-profile';
+    const family: RulePolicyProfile = {
+      id: 'profile-family',
+      name: 'Family',
+      maxStreams: 4,
+      allowedCountries: null,
+      maxTranscodes: 2,
+    };
+    const friend: RulePolicyProfile = {
+      id: 'profile-friend',
+      name: 'Friend',
+      maxStreams: 2,
+      allowedCountries: ['US'],
+      maxTranscodes: 0,
+    };
+
+    function playing(count: number) {
+      return Array.from({ length: count }, () =>
+        createMockSession({ serverUserId, state: 'playing' })
+      );
+    }
+
+    it('should use the profile stream limit instead of the rule params', async () => {
+      const session = createMockSession({ serverUserId, state: 'playing' });
+      const rule = createMockRule('concurrent_streams', {
+        params: { maxStreams: 1, useProfile: true },
+      });
+
+      const asFamily = await ruleEngine.evaluateSession(session, [rule], playing(3), {
+        policyProfile: family,
+      });
+      const asFriend = await ruleEngine.evaluateSession(session, [rule], playing(3), {
+        policyProfile: friend,
+      });
+
+      expect(asFamily).toHaveLength(0);
+      expect(asFriend).toHaveLength(1);
+      expect(asFriend[0]!.data).toMatchObject({
+        maxAllowedStreams: 2,
+        policyProfile: 'Friend',
+      });
+    });
+
+    it('should fall back to the rule params for identities without a profile', async () => {
+      const session = createMockSession({ serverUserId, state: 'playing' });
+      const rule = createMockRule('concurrent_streams', {
+        params: { maxStreams: 1, useProfile: true },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], playing(1), {
+        policyProfile: null,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data).toMatchObject({ maxAllowedStreams: 1 });
+      expect(results[0]!.data).not.toHaveProperty('policyProfile');
+    });
+
+    it('should ignore the profile when the rule does not use it', async () => {
+      const session = createMockSession({ serverUserId, state: 'playing' });
+      const rule = createMockRule('concurrent_streams', { params: { maxStreams: 1 } });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], playing(1), {
+        policyProfile: family,
+      });
+
+      expect(results).toHaveLength(1);
+    });
+
+    it('should allow only the profile countries', async () => {
+      const rule = createMockRule('geo_restriction', {
+        params: { mode: 'blocklist', countries: ['CN'], useProfile: true },
+      });
+      const fromCanada = createMockSession({ geoCountry: 'CA' });
+      const fromChina = createMockSession({ geoCountry: 'CN' });
+
+      const friendResults = await ruleEngine.evaluateSession(fromCanada, [rule], [], {
+        policyProfile: friend,
+      });
+      const familyResults = await ruleEngine.evaluateSession(fromChina, [rule], [], {
+        policyProfile: family,
+      });
+
+      expect(friendResults).toHaveLength(1);
+      expect(friendResults[0]!.data).toMatchObject({
+        country: 'CA',
+        mode: 'allowlist',
+        countries: ['US'],
+      });
+      // Family allows any country
+      expect(familyResults).toHaveLength(0);
+    });
+
+    it('should use the profile transcode limit', async () => {
+      const session = createMockSession({ serverUserId, quality: '4K', isTranscode: true });
+      const rule = createMockRule('stream_quality', {
+        params: {
+          maxConcurrentTranscodes: 5,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: null,
+          maxTranscodePercent: null,
+          minSessions: 5,
+          useProfile: true,
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        policyProfile: friend,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data).toMatchObject({ transcodeCount: 1, maxConcurrentTranscodes: 0 });
+    });
+
+    it('should keep the rule transcode limit when the profile sets none', async () => {
+      const session = createMockSession({ serverUserId, quality: '4K', isTranscode: true });
+      const rule = createMockRule('stream_quality', {
+        params: {
+          maxConcurrentTranscodes: 0,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: null,
+          maxTranscodePercent: null,
+          minSessions: 5,
+          useProfile: true,
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], [], {
+        policyProfile: { ...family, maxTranscodes: null },
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data).toMatchObject({ transcodeCount: 1, maxConcurrentTranscodes: 0 });
+    });
+
+    it('should apply the profile inside composite conditions', async () => {
+      const session = createMockSession({ serverUserId, state: 'playing', geoCountry: 'US' });
+      const rule = createMockRule('composite', {
+        params: {
+          root: {
+            kind: 'group',
+            operator: 'and',
+            conditions: [
+              {
+                kind: 'condition',
+                type: 'concurrent_streams',
+                params: { maxStreams: 10, useProfile: true },
+              },
+            ],
+          },
+        },
+      });
+
+      const results = await ruleEngine.evaluateSession(session, [rule], playing(2), {
+        policyProfile: friend,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(rulesUsePolicyProfile([rule])).toBe(true);
+      expect(rulesUsePolicyProfile([createMockRule('concurrent_streams')])).toBe(false);
+    });
+  });
+
+  describe('cross-server rules', () => {
+    const serverUserId = 'user-plex';
+    const linkedServerUserId = 'user-jellyfin';
+
+    it('should ignore sessions of linked accounts without crossServer', async () => {
+      const linkedSessions = [
+        createMockSession({ serverUserId: linkedServerUserId, state: 'playing' }),
+        createMockSession({ serverUserId: linkedServerUserId, state: 'playing' }),
+      ];
+      const currentSession = createMockSession({ serverUserId, state: 'playing' });
+      const rule = createMockRule('concurrent_streams', { params: { maxStreams: 1 } });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], linkedSessions);
+      expect(results).toHaveLength(0);
+    });
+
+    it('should count streams on linked accounts with crossServer', async () => {
+      const linkedSession = createMockSession({
+        serverUserId: linkedServerUserId,
+        state: 'playing',
+      });
+      const currentSession = createMockSession({ serverUserId, state: 'playing' });
+      const rule = createMockRule('concurrent_streams', {
+        params: { maxStreams: 1 },
+        crossServer: true,
+      });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], [linkedSession]);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data).toMatchObject({
+        activeStreamCount: 2,
+        relatedSessionIds: [linkedSession.id],
+        serverUserIds: [serverUserId, linkedServerUserId],
+      });
+    });
+
+    it('should detect simultaneous locations across linked accounts', async () => {
+      const linkedSession = createMockSession({
+        serverUserId: linkedServerUserId,
+        state: 'playing',
+        geoLat: TEST_LOCATIONS.newYork.lat,
+        geoLon: TEST_LOCATIONS.newYork.lon,
+      });
+      const currentSession = createMockSession({
+        serverUserId,
+        state: 'playing',
+        geoLat: TEST_LOCATIONS.losAngeles.lat,
+        geoLon: TEST_LOCATIONS.losAngeles.lon,
+      });
+      const rule = createMockRule('simultaneous_locations', {
+        params: { minDistanceKm: 100 },
+        crossServer: true,
+      });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], [linkedSession]);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data.serverUserIds).toEqual([serverUserId, linkedServerUserId]);
+    });
+
+    it('should not list server accounts when only the owner is involved', async () => {
+      const ownSession = createMockSession({ serverUserId, state: 'playing' });
+      const currentSession = createMockSession({ serverUserId, state: 'playing' });
+      const rule = createMockRule('concurrent_streams', {
+        params: { maxStreams: 1 },
+        crossServer: true,
+      });
+
+      const results = await ruleEngine.evaluateSession(currentSession, [rule], [ownSession]);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.data.serverUserIds).toBeUndefined();
+    });
+
+    it('should use the identity device history with crossServer', async () => {
+      const longAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+      const session = createMockSession({ serverUserId, deviceId: 'tv', platform: 'Roku' });
+      const params = { maxNewDevices: 5, windowHours: 24, alertOnNewPlatform: true };
+      const context = {
+        deviceHistory: [{ deviceId: 'phone', platform: 'iOS', firstSeenAt: longAgo }],
+        identityDeviceHistory: [
+          { deviceId: 'phone', platform: 'iOS', firstSeenAt: longAgo },
+          { deviceId: 'tv', platform: 'Roku', firstSeenAt: longAgo },
+        ],
+      };
+
+      const ownResults = await ruleEngine.evaluateSession(
+        session,
+        [createMockRule('device_novelty', { params })],
+        [],
+        context
+      );
+      const crossServerResults = await ruleEngine.evaluateSession(
+        session,
+        [createMockRule('device_novelty', { params, crossServer: true })],
+        [],
+        context
+      );
+
+      // Roku is new to this account but not to the identity
+      expect(ownResults).toHaveLength(1);
+      expect(crossServerResults).toHaveLength(0);
+    });
+  });
+
   describe('unknown rule type', () => {
     it('should return no violation for unknown rule type', async () => {
       const session = createMockSession();
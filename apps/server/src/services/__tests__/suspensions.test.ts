@@ -0,0 +1,405 @@
+/**
+ * Suspension Service Tests
+ *
+ * Tests services/suspensions.ts:
+ * - suspendUser: Per-server suspension action, scheduling reinstatement, notifying
+ * - extendSuspension: Pushing back the end and rescheduling
+ * - liftSuspension: Undoing the account action early
+ * - reinstateSuspension: Skipping stale jobs and retrying media server failures
+ * - recordReinstateFailure: Flagging suspensions whose reinstatement gave up
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { ServerType } from '@tracearr/shared';
+
+vi.mock('../../db/client.js', () => ({
+  db: {
+    query: { serverUsers: { findFirst: vi.fn() } },
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../jobs/suspensionQueue.js', () => ({
+  scheduleReinstatement: vi.fn(),
+  cancelReinstatement: vi.fn(),
+}));
+
+vi.mock('../../jobs/notificationQueue.js', () => ({
+  enqueueNotification: vi.fn(),
+}));
+
+vi.mock('../accountActions.js', () => ({
+  executeAccountAction: vi.fn(),
+  undoAccountAction: vi.fn(),
+}));
+
+import { db } from '../../db/client.js';
+import { cancelReinstatement, scheduleReinstatement } from '../../jobs/suspensionQueue.js';
+import { enqueueNotification } from '../../jobs/notificationQueue.js';
+import { ConflictError, NotFoundError } from '../../utils/errors.js';
+import { executeAccountAction, undoAccountAction } from '../accountActions.js';
+import {
+  extendSuspension,
+  liftSuspension,
+  recordReinstateFailure,
+  reinstateSuspension,
+  suspendUser,
+} from '../suspensions.js';
+
+const mockDb = db as unknown as {
+  query: { serverUsers: { findFirst: ReturnType<typeof vi.fn> } };
+  select: ReturnType<typeof vi.fn>;
+  insert: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+
+const HOUR = 60 * 60 * 1000;
+
+function mockServerUser(type: ServerType) {
+  const serverUser = {
+    id: randomUUID(),
+    serverId: randomUUID(),
+    username: 'sharer',
+    server: { type, name: 'Home Server' },
+  };
+  mockDb.query.serverUsers.findFirst.mockResolvedValue(serverUser);
+  return serverUser;
+}
+
+/**
+ * Mock the active suspension lookup in suspendUser
+ */
+function mockActiveSuspension(row: Record<string, unknown> | undefined) {
+  const chain: Record<string, unknown> = {};
+  for (const method of ['from', 'leftJoin', 'where', 'orderBy']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn().mockResolvedValue(row ? [row] : []);
+  mockDb.select.mockReturnValueOnce(chain);
+}
+
+/**
+ * Mock loading a suspension by ID
+ */
+function mockSuspensionRow(row: Record<string, unknown> | undefined) {
+  mockDb.select.mockReturnValueOnce({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        limit: vi.fn().mockResolvedValue(row ? [row] : []),
+      }),
+    }),
+  });
+}
+
+function mockInsert(row: Record<string, unknown>) {
+  const values = vi.fn().mockReturnValue({
+    returning: vi.fn().mockResolvedValue([row]),
+  });
+  mockDb.insert.mockReturnValue({ values });
+  return values;
+}
+
+function mockUpdate() {
+  const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) });
+  mockDb.update.mockReturnValue({ set });
+  return set;
+}
+
+function createSuspension(serverUserId: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'suspension-1',
+    serverId: randomUUID(),
+    serverUserId,
+    accountActionId: 'log-1',
+    reason: null,
+    endsAt: new Date(Date.now() + 24 * HOUR),
+    endedAt: null,
+    ...overrides,
+  };
+}
+
+describe('suspensions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('suspendUser', () => {
+    it('disables a Jellyfin account and schedules reinstatement', async () => {
+      const serverUser = mockServerUser('jellyfin');
+      mockActiveSuspension(undefined);
+      vi.mocked(executeAccountAction).mockResolvedValue({
+        success: true,
+        accountActionId: 'log-1',
+        previousAccess: { isDisabled: false, isShared: true, libraryIds: null },
+      });
+      const values = mockInsert(createSuspension(serverUser.id));
+
+      const before = Date.now();
+      const result = await suspendUser({
+        serverUserId: serverUser.id,
+        durationHours: 48,
+        reason: 'Account sharing',
+        suspendedByUserId: 'admin-1',
+      });
+
+      expect(executeAccountAction).toHaveBeenCalledWith({
+        serverUserId: serverUser.id,
+        action: 'disable_user',
+        trigger: 'manual',
+        triggeredByUserId: 'admin-1',
+      });
+      expect(result.success).toBe(true);
+      expect(result.endsAt!.getTime()).toBeGreaterThanOrEqual(before + 48 * HOUR);
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serverUserId: serverUser.id,
+          accountActionId: 'log-1',
+          reason: 'Account sharing',
+          suspendedByUserId: 'admin-1',
+        })
+      );
+      expect(scheduleReinstatement).toHaveBeenCalledWith('suspension-1', result.endsAt);
+      expect(enqueueNotification).toHaveBeenCalledWith({
+        type: 'user_suspended',
+        payload: expect.objectContaining({ username: 'sharer', serverName: 'Home Server' }),
+      });
+    });
+
+    it('removes the share on Plex', async () => {
+      const serverUser = mockServerUser('plex');
+      mockActiveSuspension(undefined);
+      vi.mocked(executeAccountAction).mockResolvedValue({
+        success: true,
+        accountActionId: 'log-1',
+        previousAccess: null,
+      });
+      mockInsert(createSuspension(serverUser.id));
+
+      await suspendUser({
+        serverUserId: serverUser.id,
+        durationHours: 1,
+        suspendedByUserId: 'admin-1',
+      });
+
+      expect(executeAccountAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'remove_share' })
+      );
+    });
+
+    it('does not create a suspension when the media server fails', async () => {
+      const serverUser = mockServerUser('emby');
+      mockActiveSuspension(undefined);
+      vi.mocked(executeAccountAction).mockResolvedValue({
+        success: false,
+        accountActionId: 'log-1',
+        previousAccess: null,
+        error: 'Connection refused',
+      });
+
+      const result = await suspendUser({
+        serverUserId: serverUser.id,
+        durationHours: 24,
+        suspendedByUserId: 'admin-1',
+      });
+
+      expect(result).toMatchObject({ success: false, error: 'Connection refused' });
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(scheduleReinstatement).not.toHaveBeenCalled();
+      expect(enqueueNotification).not.toHaveBeenCalled();
+    });
+
+    it('refuses to suspend a user twice', async () => {
+      const serverUser = mockServerUser('jellyfin');
+      mockActiveSuspension(createSuspension(serverUser.id));
+
+      await expect(
+        suspendUser({ serverUserId: serverUser.id, durationHours: 24, suspendedByUserId: 'a' })
+      ).rejects.toThrow(ConflictError);
+      expect(executeAccountAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('extendSuspension', () => {
+    it('adds hours to the current end and reschedules', async () => {
+      const serverUserId = randomUUID();
+      const suspension = createSuspension(serverUserId);
+      mockSuspensionRow(suspension);
+      const set = mockUpdate();
+
+      const result = await extendSuspension({
+        suspensionId: 'suspension-1',
+        serverUserId,
+        hours: 24,
+      });
+
+      const expected = new Date(suspension.endsAt.getTime() + 24 * HOUR);
+      expect(result).toEqual({ previousEndsAt: suspension.endsAt, endsAt: expected });
+      expect(set).toHaveBeenCalledWith({ endsAt: expected, reinstateError: null });
+      expect(scheduleReinstatement).toHaveBeenCalledWith('suspension-1', expected);
+    });
+
+    it('refuses to extend a suspension that ended', async () => {
+      const serverUserId = randomUUID();
+      mockSuspensionRow(createSuspension(serverUserId, { endedAt: new Date() }));
+
+      await expect(
+        extendSuspension({ suspensionId: 'suspension-1', serverUserId, hours: 24 })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('does not find suspensions that belong to another user', async () => {
+      mockSuspensionRow(createSuspension(randomUUID()));
+
+      await expect(
+        extendSuspension({ suspensionId: 'suspension-1', serverUserId: randomUUID(), hours: 1 })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('liftSuspension', () => {
+    it('undoes the account action and cancels the reinstatement job', async () => {
+      const serverUser = mockServerUser('jellyfin');
+      mockSuspensionRow(createSuspension(serverUser.id));
+      vi.mocked(undoAccountAction).mockResolvedValue({
+        success: true,
+        action: 'disable_user',
+        restoredAccess: { isDisabled: false, isShared: true, libraryIds: null },
+      });
+      const set = mockUpdate();
+
+      const result = await liftSuspension({
+        suspensionId: 'suspension-1',
+        serverUserId: serverUser.id,
+        liftedByUserId: 'admin-1',
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(undoAccountAction).toHaveBeenCalledWith({
+        accountActionId: 'log-1',
+        serverUserId: serverUser.id,
+        undoneByUserId: 'admin-1',
+      });
+      expect(set).toHaveBeenCalledWith({
+        endedAt: expect.any(Date),
+        endReason: 'lifted',
+        endedByUserId: 'admin-1',
+      });
+      expect(cancelReinstatement).toHaveBeenCalledWith('suspension-1');
+      expect(enqueueNotification).toHaveBeenCalledWith({
+        type: 'user_reinstated',
+        payload: expect.objectContaining({ endReason: 'lifted' }),
+      });
+    });
+
+    it('keeps the suspension active when the media server fails', async () => {
+      const serverUserId = randomUUID();
+      mockSuspensionRow(createSuspension(serverUserId));
+      vi.mocked(undoAccountAction).mockResolvedValue({
+        success: false,
+        action: 'disable_user',
+        restoredAccess: { isDisabled: false, isShared: true, libraryIds: null },
+        error: 'Unauthorized',
+      });
+
+      const result = await liftSuspension({
+        suspensionId: 'suspension-1',
+        serverUserId,
+        liftedByUserId: 'admin-1',
+      });
+
+      expect(result).toEqual({ success: false, error: 'Unauthorized' });
+      expect(mockDb.update).not.toHaveBeenCalled();
+      expect(cancelReinstatement).not.toHaveBeenCalled();
+    });
+
+    it('ends the suspension when the action was already undone by hand', async () => {
+      const serverUser = mockServerUser('jellyfin');
+      mockSuspensionRow(createSuspension(serverUser.id));
+      vi.mocked(undoAccountAction).mockRejectedValue(
+        new ConflictError('Account action has already been undone')
+      );
+      mockUpdate();
+
+      const result = await liftSuspension({
+        suspensionId: 'suspension-1',
+        serverUserId: serverUser.id,
+        liftedByUserId: 'admin-1',
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockDb.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('reinstateSuspension', () => {
+    it('reinstates an expired suspension without a user', async () => {
+      const serverUser = mockServerUser('emby');
+      mockSuspensionRow(createSuspension(serverUser.id, { endsAt: new Date(Date.now() - 1000) }));
+      vi.mocked(undoAccountAction).mockResolvedValue({
+        success: true,
+        action: 'disable_user',
+        restoredAccess: { isDisabled: false, isShared: true, libraryIds: null },
+      });
+      const set = mockUpdate();
+
+      await reinstateSuspension('suspension-1');
+
+      expect(undoAccountAction).toHaveBeenCalledWith(
+        expect.objectContaining({ undoneByUserId: null })
+      );
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ endReason: 'expired', endedByUserId: null })
+      );
+    });
+
+    it('skips suspensions that were extended after the job was scheduled', async () => {
+      mockSuspensionRow(createSuspension(randomUUID()));
+
+      await reinstateSuspension('suspension-1');
+
+      expect(undoAccountAction).not.toHaveBeenCalled();
+    });
+
+    it('skips suspensions that already ended', async () => {
+      mockSuspensionRow(
+        createSuspension(randomUUID(), {
+          endsAt: new Date(Date.now() - 1000),
+          endedAt: new Date(),
+        })
+      );
+
+      await reinstateSuspension('suspension-1');
+
+      expect(undoAccountAction).not.toHaveBeenCalled();
+    });
+
+    it('throws so the job retries when the media server fails', async () => {
+      mockSuspensionRow(
+        createSuspension(randomUUID(), { endsAt: new Date(Date.now() - 1000) })
+      );
+      vi.mocked(undoAccountAction).mockResolvedValue({
+        success: false,
+        action: 'remove_share',
+        restoredAccess: { isDisabled: false, isShared: true, libraryIds: null },
+        error: 'plex.tv unreachable',
+      });
+
+      await expect(reinstateSuspension('suspension-1')).rejects.toThrow('plex.tv unreachable');
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordReinstateFailure', () => {
+    it('stores the error on the suspension', async () => {
+      const set = mockUpdate();
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await recordReinstateFailure('suspension-1', 'plex.tv unreachable');
+
+      expect(set).toHaveBeenCalledWith({ reinstateError: 'plex.tv unreachable' });
+    });
+  });
+});
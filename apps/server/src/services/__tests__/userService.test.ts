@@ -35,6 +35,8 @@ import {
   updateServerUserTrustScore,
   getServerUsersByServer,
   batchSyncUsersFromMediaServer,
+  getServerUserSource,
+  getProbationUntil,
   UserNotFoundError,
   ServerUserNotFoundError,
 } from '../userService.js';
@@ -575,6 +577,82 @@ describe('syncUserFromMediaServer', () => {
     expect(result.created).toBe(false);
     expect(result.serverUser.username).toBe(mediaUser.username);
   });
+
+  it('should record how a new server user joined', async () => {
+    const joinedAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    const serverUserValues = vi.fn().mockReturnThis();
+
+    vi.mocked(db.select).mockReturnValue({
+      from: vi.fn().mockReturnThis(),
+      innerJoin: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue([]),
+    } as never);
+
+    vi.mocked(db.transaction).mockImplementation(async (callback) => {
+      const tx = {
+        select: vi.fn().mockReturnValue({
+          from: vi.fn().mockReturnThis(),
+          where: vi.fn().mockReturnThis(),
+          limit: vi.fn().mockResolvedValue([createMockUser()]), // Linked by email
+        }),
+        insert: vi.fn().mockReturnValue({
+          values: serverUserValues,
+          returning: vi.fn().mockResolvedValue([createMockServerUser()]),
+        }),
+      };
+      return callback(tx as never);
+    });
+
+    await syncUserFromMediaServer(
+      serverId,
+      { ...mediaUser, joinedAt },
+      { source: 'plex_share', probationDays: 14 }
+    );
+
+    expect(serverUserValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        joinedAt,
+        source: 'plex_share',
+        probationUntil: new Date(joinedAt.getTime() + 14 * 24 * 60 * 60 * 1000),
+      })
+    );
+  });
+});
+
+describe('getServerUserSource', () => {
+  const mediaUser = { id: 'ext-1', username: 'someone', isAdmin: false };
+
+  it('should tell Plex owners, home members and friends apart', () => {
+    expect(getServerUserSource('plex', { ...mediaUser, isAdmin: true })).toBe('owner');
+    expect(getServerUserSource('plex', { ...mediaUser, isHomeUser: true })).toBe('plex_home');
+    expect(getServerUserSource('plex', mediaUser)).toBe('plex_share');
+  });
+
+  it('should treat Jellyfin and Emby users as local accounts', () => {
+    expect(getServerUserSource('jellyfin', mediaUser)).toBe('local_account');
+    expect(getServerUserSource('emby', { ...mediaUser, isAdmin: true })).toBe('local_account');
+  });
+});
+
+describe('getProbationUntil', () => {
+  const now = new Date('2025-06-15T12:00:00Z');
+
+  it('should end probation the given number of days after joining', () => {
+    const joinedAt = new Date('2025-06-10T12:00:00Z');
+
+    expect(getProbationUntil(joinedAt, 14, now)).toEqual(new Date('2025-06-24T12:00:00Z'));
+  });
+
+  it('should return null when probation is already over', () => {
+    const joinedAt = new Date('2025-05-01T12:00:00Z');
+
+    expect(getProbationUntil(joinedAt, 14, now)).toBeNull();
+  });
+
+  it('should return null when probation is turned off', () => {
+    expect(getProbationUntil(now, 0, now)).toBeNull();
+  });
 });
 
 describe('updateServerUserTrustScore', () => {
@@ -0,0 +1,345 @@
+/**
+ * Server Account Action Service
+ *
+ * Changes what a server account can access on its media server, for sharers who
+ * simply start a new stream after being terminated:
+ * - disable_user: disable the Jellyfin/Emby account (policy IsDisabled)
+ * - remove_share: stop sharing the Plex server with the user (plex.tv sharing)
+ * - restrict_libraries: only share the chosen libraries
+ *
+ * Every action is logged to account_actions with the access it replaced, so it
+ * can be undone. Actions run manually from the user page or automatically as
+ * rule actions.
+ */
+
+import { desc, eq } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import {
+  ACCOUNT_ACTION_DISPLAY_NAMES,
+  ACCOUNT_ACTIONS_BY_SERVER_TYPE,
+  type AccountActionLog,
+  type AccountActionType,
+  type ServerAccountAccess,
+  type ServerAccountStatus,
+  type ServerType,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { accountActions, rules, serverUsers, users } from '../db/schema.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { createMediaServerClient } from './mediaServer/index.js';
+import { ServerUserNotFoundError } from './userService.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExecuteAccountActionOptions {
+  /** Server user whose account is changed */
+  serverUserId: string;
+
+  action: AccountActionType;
+
+  /** Libraries to keep (restrict_libraries only) */
+  libraryIds?: string[];
+
+  /** How the action was triggered */
+  trigger: 'manual' | 'rule';
+
+  /** For manual: user ID who ran the action */
+  triggeredByUserId?: string;
+
+  /** For rule: the rule that ran the action */
+  ruleId?: string;
+
+  /** For rule: the violation record */
+  violationId?: string;
+}
+
+export interface AccountActionResult {
+  success: boolean;
+  accountActionId: string;
+  /** Access before the action (null if it couldn't be read) */
+  previousAccess: ServerAccountAccess | null;
+  error?: string;
+}
+
+export interface UndoAccountActionOptions {
+  accountActionId: string;
+
+  /** Server user the action must belong to */
+  serverUserId: string;
+
+  /** User ID who is undoing the action (null when a suspension ends on its own) */
+  undoneByUserId: string | null;
+}
+
+export interface UndoAccountActionResult {
+  success: boolean;
+  /** The action that was undone */
+  action: AccountActionType;
+  /** Access that was restored */
+  restoredAccess: ServerAccountAccess;
+  error?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load a server user with their server and a client for it
+ */
+async function loadServerUserClient(serverUserId: string) {
+  const serverUser = await db.query.serverUsers.findFirst({
+    where: eq(serverUsers.id, serverUserId),
+    with: { server: true },
+  });
+
+  if (!serverUser) {
+    throw new ServerUserNotFoundError(serverUserId);
+  }
+
+  const serverType = serverUser.server.type as ServerType;
+  const client = createMediaServerClient({
+    type: serverType,
+    url: serverUser.server.url,
+    token: serverUser.server.token,
+  });
+
+  return { serverUser, serverType, client };
+}
+
+/**
+ * Whether an account action can be run on a server type
+ */
+export function isAccountActionSupported(
+  serverType: ServerType,
+  action: AccountActionType
+): boolean {
+  return ACCOUNT_ACTIONS_BY_SERVER_TYPE[serverType].includes(action);
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Change a server account's access and log the change
+ *
+ * Media server failures are logged and returned rather than thrown.
+ *
+ * @throws ServerUserNotFoundError if the server user doesn't exist
+ * @throws ValidationError if the server type doesn't support the action, or the
+ *   account is a server admin
+ *
+ * @example
+ * const result = await executeAccountAction({
+ *   serverUserId: 'uuid-123',
+ *   action: 'restrict_libraries',
+ *   libraryIds: ['1', '4'],
+ *   trigger: 'manual',
+ *   triggeredByUserId: adminUser.id,
+ * });
+ */
+export async function executeAccountAction(
+  options: ExecuteAccountActionOptions
+): Promise<AccountActionResult> {
+  const { serverUserId, action, libraryIds, trigger, triggeredByUserId, ruleId, violationId } =
+    options;
+
+  const { serverUser, serverType, client } = await loadServerUserClient(serverUserId);
+
+  if (!isAccountActionSupported(serverType, action)) {
+    throw new ValidationError(
+      `${ACCOUNT_ACTION_DISPLAY_NAMES[action]} is not supported on ${serverType} servers`
+    );
+  }
+
+  // Locking out the server's own admin would also lock out Tracearr
+  if (serverUser.isServerAdmin) {
+    throw new ValidationError('Server admin accounts cannot be changed');
+  }
+
+  let previousAccess: ServerAccountAccess | null = null;
+  let success = false;
+  let errorMessage: string | null = null;
+
+  try {
+    previousAccess = await client.getUserAccess(serverUser.externalId);
+
+    switch (action) {
+      case 'disable_user':
+        await client.setUserDisabled(serverUser.externalId, true);
+        break;
+      case 'remove_share':
+        await client.removeShare(serverUser.externalId);
+        break;
+      case 'restrict_libraries':
+        await client.setUserLibraries(serverUser.externalId, libraryIds ?? []);
+        break;
+    }
+    success = true;
+  } catch (err) {
+    errorMessage = err instanceof Error ? err.message : 'Unknown error changing account access';
+    console.error(`[AccountActions] ${action} failed for server user ${serverUserId}:`, err);
+  }
+
+  const logEntries = await db
+    .insert(accountActions)
+    .values({
+      serverId: serverUser.serverId,
+      serverUserId,
+      action,
+      trigger,
+      triggeredByUserId: triggeredByUserId ?? null,
+      ruleId: ruleId ?? null,
+      violationId: violationId ?? null,
+      libraryIds: action === 'restrict_libraries' ? (libraryIds ?? []) : null,
+      previousAccess,
+      success,
+      errorMessage,
+    })
+    .returning({ id: accountActions.id });
+
+  return {
+    success,
+    accountActionId: logEntries[0]?.id ?? '',
+    previousAccess,
+    error: errorMessage ?? undefined,
+  };
+}
+
+/**
+ * Restore the access an account action replaced
+ *
+ * @throws NotFoundError if the action doesn't exist
+ * @throws ConflictError if the action failed or was already undone
+ */
+export async function undoAccountAction(
+  options: UndoAccountActionOptions
+): Promise<UndoAccountActionResult> {
+  const { accountActionId, serverUserId, undoneByUserId } = options;
+
+  const rows = await db
+    .select()
+    .from(accountActions)
+    .where(eq(accountActions.id, accountActionId))
+    .limit(1);
+
+  const log = rows[0];
+  if (log?.serverUserId !== serverUserId) {
+    throw new NotFoundError('Account action', accountActionId);
+  }
+  if (log.undoneAt) {
+    throw new ConflictError('Account action has already been undone');
+  }
+  if (!log.success || !log.previousAccess) {
+    throw new ConflictError('Only successful account actions can be undone');
+  }
+
+  const { serverUser, client } = await loadServerUserClient(serverUserId);
+  const previous = log.previousAccess;
+
+  try {
+    if (log.action === 'disable_user') {
+      await client.setUserDisabled(serverUser.externalId, previous.isDisabled);
+    } else if (previous.isShared) {
+      // Re-shares on Plex if the share was removed
+      await client.setUserLibraries(serverUser.externalId, previous.libraryIds);
+    } else {
+      await client.removeShare(serverUser.externalId);
+    }
+  } catch (err) {
+    console.error(`[AccountActions] Failed to undo account action ${accountActionId}:`, err);
+    return {
+      success: false,
+      action: log.action,
+      restoredAccess: previous,
+      error: err instanceof Error ? err.message : 'Unknown error restoring account access',
+    };
+  }
+
+  await db
+    .update(accountActions)
+    .set({ undoneAt: new Date(), undoneByUserId })
+    .where(eq(accountActions.id, accountActionId));
+
+  return { success: true, action: log.action, restoredAccess: previous };
+}
+
+/**
+ * Get the account action history for a server user, newest first
+ */
+export async function getAccountActions(
+  serverUserId: string,
+  limit = 50
+): Promise<AccountActionLog[]> {
+  const undoneBy = alias(users, 'undone_by');
+
+  const rows = await db
+    .select({
+      id: accountActions.id,
+      serverId: accountActions.serverId,
+      serverUserId: accountActions.serverUserId,
+      action: accountActions.action,
+      trigger: accountActions.trigger,
+      triggeredByUsername: users.username,
+      ruleName: rules.name,
+      violationId: accountActions.violationId,
+      libraryIds: accountActions.libraryIds,
+      previousAccess: accountActions.previousAccess,
+      success: accountActions.success,
+      errorMessage: accountActions.errorMessage,
+      undoneAt: accountActions.undoneAt,
+      undoneByUsername: undoneBy.username,
+      createdAt: accountActions.createdAt,
+    })
+    .from(accountActions)
+    .leftJoin(users, eq(accountActions.triggeredByUserId, users.id))
+    .leftJoin(rules, eq(accountActions.ruleId, rules.id))
+    .leftJoin(undoneBy, eq(accountActions.undoneByUserId, undoneBy.id))
+    .where(eq(accountActions.serverUserId, serverUserId))
+    .orderBy(desc(accountActions.createdAt))
+    .limit(limit);
+
+  return rows;
+}
+
+/**
+ * Get a server account's current access, the actions its server supports and its history
+ *
+ * Media server failures are reported in `error` so the history still loads.
+ * The active suspension is added by the caller (see services/suspensions.ts).
+ *
+ * @throws ServerUserNotFoundError if the server user doesn't exist
+ */
+export async function getAccountStatus(
+  serverUserId: string
+): Promise<Omit<ServerAccountStatus, 'suspension'>> {
+  const { serverUser, serverType, client } = await loadServerUserClient(serverUserId);
+
+  let access: ServerAccountAccess | null = null;
+  let libraries: ServerAccountStatus['libraries'] = [];
+  let error: string | null = null;
+
+  try {
+    const [userAccess, serverLibraries] = await Promise.all([
+      client.getUserAccess(serverUser.externalId),
+      client.getLibraries(),
+    ]);
+    access = userAccess;
+    libraries = serverLibraries.map((library) => ({ id: library.id, name: library.name }));
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error reading account access';
+  }
+
+  return {
+    access,
+    error,
+    supportedActions: serverUser.isServerAdmin
+      ? []
+      : [...ACCOUNT_ACTIONS_BY_SERVER_TYPE[serverType]],
+    libraries,
+    actions: await getAccountActions(serverUserId),
+  };
+}
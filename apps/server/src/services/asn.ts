@@ -0,0 +1,106 @@
+/**
+ * ASN and anonymous network lookup service using MaxMind databases
+ *
+ * - GeoLite2-ASN: autonomous system number and organization of an IP
+ * - GeoIP2-Anonymous-IP (optional): hosting providers, VPN exits, Tor exits and public proxies
+ */
+
+import maxmind, { type AnonymousIPResponse, type AsnResponse, type Reader, type Response } from 'maxmind';
+import type { AnonymousNetworkCategory } from '@tracearr/shared';
+import { geoipService } from './geoip.js';
+
+export interface NetworkInfo {
+  asn: number | null;
+  asnOrg: string | null;
+}
+
+const NULL_NETWORK: NetworkInfo = {
+  asn: null,
+  asnOrg: null,
+};
+
+async function openDatabase<T extends Response>(dbPath: string, name: string): Promise<Reader<T> | null> {
+  try {
+    return await maxmind.open<T>(dbPath);
+  } catch (error) {
+    // Graceful degradation - service works without the database
+    console.warn(
+      `${name} database not loaded: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    return null;
+  }
+}
+
+export class ASNService {
+  private asnReader: Reader<AsnResponse> | null = null;
+  private anonymousReader: Reader<AnonymousIPResponse> | null = null;
+  private initialized = false;
+
+  async initialize(asnDbPath: string, anonymousDbPath: string): Promise<void> {
+    this.asnReader = await openDatabase<AsnResponse>(asnDbPath, 'ASN');
+    this.anonymousReader = await openDatabase<AnonymousIPResponse>(anonymousDbPath, 'Anonymous IP');
+    this.initialized = true;
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  hasDatabase(): boolean {
+    return this.asnReader !== null;
+  }
+
+  hasAnonymousDatabase(): boolean {
+    return this.anonymousReader !== null;
+  }
+
+  lookup(ip: string): NetworkInfo {
+    if (!this.asnReader || geoipService.isPrivateIP(ip)) {
+      return NULL_NETWORK;
+    }
+
+    try {
+      const result = this.asnReader.get(ip);
+
+      if (!result) {
+        return NULL_NETWORK;
+      }
+
+      return {
+        asn: result.autonomous_system_number ?? null,
+        asnOrg: result.autonomous_system_organization ?? null,
+      };
+    } catch {
+      return NULL_NETWORK;
+    }
+  }
+
+  /**
+   * Get the kinds of anonymizing network an IP belongs to
+   * @returns Matching categories, empty if none or no anonymous IP database is loaded
+   */
+  getAnonymousCategories(ip: string): AnonymousNetworkCategory[] {
+    if (!this.anonymousReader || geoipService.isPrivateIP(ip)) {
+      return [];
+    }
+
+    try {
+      const result = this.anonymousReader.get(ip);
+
+      if (!result) {
+        return [];
+      }
+
+      const categories: AnonymousNetworkCategory[] = [];
+      if (result.is_hosting_provider) categories.push('hosting');
+      if (result.is_anonymous_vpn) categories.push('vpn');
+      if (result.is_tor_exit_node) categories.push('tor');
+      if (result.is_public_proxy || result.is_residential_proxy) categories.push('proxy');
+      return categories;
+    } catch {
+      return [];
+    }
+  }
+}
+
+export const asnService = new ASNService();
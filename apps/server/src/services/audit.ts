@@ -0,0 +1,156 @@
+/**
+ * Audit Log Service
+ *
+ * Records configuration and moderation actions with the fields they changed.
+ * Stream terminations are logged separately, in termination_logs.
+ */
+
+import {
+  AUDIT_LOG_CONFIG,
+  type AuditAction,
+  type AuditChange,
+  type AuditEntityType,
+  type AuditLogEntry,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { auditLog } from '../db/schema.js';
+
+// Fields whose values are never written to the log
+const SECRET_FIELD_PATTERN = /token|secret|password|apikey|webhookurl/i;
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+type AuditSnapshot = Record<string, unknown> | null | undefined;
+
+export interface RecordAuditOptions {
+  actor: { userId: string; username: string } | null;
+  ipAddress?: string | null;
+  action: AuditAction;
+  entityId?: string | null;
+  entityName?: string | null;
+  serverId?: string | null;
+  // Record state before the action (omit for creates)
+  before?: AuditSnapshot;
+  // Record state after the action (omit for deletes). For updates, only the fields
+  // given here are compared, so passing the update itself records what it changed.
+  after?: AuditSnapshot;
+}
+
+// Dates become ISO strings, as they will once stored in jsonb
+function normalize(value: unknown): unknown {
+  return value === undefined ? null : (JSON.parse(JSON.stringify(value)) as unknown);
+}
+
+// Key order is not significant (jsonb doesn't keep it)
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+// Secrets can be nested, e.g. in a notification destination's provider settings
+function redact(field: string, value: unknown): unknown {
+  if (value === null) return value;
+  if (SECRET_FIELD_PATTERN.test(field)) return AUDIT_LOG_CONFIG.REDACTED;
+  if (Array.isArray(value)) return value.map((item) => redact('', item));
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, redact(key, v)]));
+  }
+  return value;
+}
+
+/**
+ * Fields that differ between two snapshots of a record, with secrets redacted
+ *
+ * When both snapshots are given, only the fields in `after` are compared.
+ */
+export function diffAuditChanges(
+  before: AuditSnapshot,
+  after: AuditSnapshot
+): Record<string, AuditChange> {
+  const fields = Object.keys((before && after ? after : (before ?? after)) ?? {});
+  const changes: Record<string, AuditChange> = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = normalize(before?.[field]);
+    const to = normalize(after?.[field]);
+    if (canonical(from) === canonical(to)) continue;
+
+    changes[field] = { before: redact(field, from), after: redact(field, to) };
+  }
+
+  return changes;
+}
+
+/**
+ * Write an audit log entry
+ *
+ * Updates that changed nothing are skipped. A failed write is logged rather than
+ * thrown, since the action itself has already happened.
+ */
+export async function recordAudit(options: RecordAuditOptions): Promise<void> {
+  const changes = diffAuditChanges(options.before, options.after);
+  if (options.before && options.after && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  try {
+    await db.insert(auditLog).values({
+      actorId: options.actor?.userId ?? null,
+      actorName: options.actor?.username ?? null,
+      action: options.action,
+      entityType: options.action.split('.')[0] as AuditEntityType,
+      entityId: options.entityId ?? null,
+      entityName: options.entityName ?? null,
+      serverId: options.serverId ?? null,
+      changes,
+      ipAddress: options.ipAddress ?? null,
+    });
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${options.action}:`, error);
+  }
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format audit log entries as CSV, one row per entry with changes as JSON
+ */
+export function formatAuditCsv(entries: AuditLogEntry[]): string {
+  const header = [
+    'createdAt',
+    'actorName',
+    'action',
+    'entityType',
+    'entityId',
+    'entityName',
+    'serverId',
+    'ipAddress',
+    'changes',
+  ];
+  const rows = entries.map((entry) =>
+    [
+      entry.createdAt.toISOString(),
+      entry.actorName,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.entityName,
+      entry.serverId,
+      entry.ipAddress,
+      entry.changes,
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,168 @@
+/**
+ * Email Service
+ *
+ * Sends notification and digest emails over SMTP, using the single email_settings row.
+ * Every email has a plain-text and an HTML body. Authentication and TLS are optional,
+ * so a local SMTP sink (e.g. Mailpit or MailHog on port 1025) works for testing.
+ */
+
+import nodemailer from 'nodemailer';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { emailSettings } from '../db/schema.js';
+
+export type EmailSettingsRow = typeof emailSettings.$inferSelect;
+
+// Settings with everything needed to send
+export type ConfiguredEmailSettings = EmailSettingsRow & { smtpHost: string; fromAddress: string };
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Singleton row ID (same pattern as settings)
+export const EMAIL_SETTINGS_ID = 1;
+
+/**
+ * Saved email settings, or null if they were never saved
+ */
+export async function getEmailSettings(): Promise<EmailSettingsRow | null> {
+  const rows = await db
+    .select()
+    .from(emailSettings)
+    .where(eq(emailSettings.id, EMAIL_SETTINGS_ID))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Whether email is turned on and has a server, sender and at least one recipient
+ */
+export function isEmailConfigured<
+  T extends Pick<EmailSettingsRow, 'enabled' | 'smtpHost' | 'fromAddress' | 'recipients'>,
+>(config: T | null): config is T & { smtpHost: string; fromAddress: string } {
+  return (
+    !!config?.enabled &&
+    !!config.smtpHost &&
+    !!config.fromAddress &&
+    config.recipients.length > 0
+  );
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Inline styles, since many mail clients ignore <style> blocks
+const BODY_STYLE = 'margin:0;padding:24px;background:#f4f4f5;font-family:Arial,sans-serif';
+const CARD_STYLE = 'max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px';
+export const PARAGRAPH_STYLE = 'margin:0 0 12px';
+
+/**
+ * Wrap already-escaped HTML content in the shared email layout
+ */
+export function renderEmailLayout(title: string, contentHtml: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8"></head>',
+    `<body style="${BODY_STYLE};color:#18181b">`,
+    `<div style="${CARD_STYLE}">`,
+    `<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h1>`,
+    contentHtml,
+    '<p style="margin:24px 0 0;font-size:12px;color:#71717a">Sent by Tracearr</p>',
+    '</div></body></html>',
+  ].join('\n');
+}
+
+/**
+ * Email for a single notification, from its title and message
+ */
+export function renderNotificationEmail(title: string, body: string): EmailContent {
+  const paragraphs = body
+    .split(/\n{2,}/)
+    .map((paragraph) => escapeHtml(paragraph).replace(/\n/g, '<br>'))
+    .map((paragraph) => `<p style="${PARAGRAPH_STYLE}">${paragraph}</p>`)
+    .join('\n');
+
+  return {
+    subject: `[Tracearr] ${title}`,
+    text: `${title}\n\n${body}\n`,
+    html: renderEmailLayout(title, paragraphs),
+  };
+}
+
+/**
+ * Send an email to every recipient
+ *
+ * @throws If the SMTP server rejects the connection, login or message
+ */
+export async function sendEmail(
+  config: ConfiguredEmailSettings,
+  content: EmailContent
+): Promise<void> {
+  const transport = nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    auth: config.smtpUsername
+      ? { user: config.smtpUsername, pass: config.smtpPassword ?? '' }
+      : undefined,
+  });
+
+  try {
+    await transport.sendMail({
+      from: config.fromAddress,
+      to: config.recipients,
+      subject: content.subject,
+      text: content.text,
+      html: content.html,
+    });
+  } finally {
+    transport.close();
+  }
+}
+
+/**
+ * Send a notification email if email is configured (skipped otherwise)
+ */
+export async function sendNotificationEmail(title: string, body: string): Promise<void> {
+  const config = await getEmailSettings();
+  if (!isEmailConfigured(config)) {
+    console.log('[Email] Email is not configured, skipping notification');
+    return;
+  }
+
+  await sendEmail(config, renderNotificationEmail(title, body));
+}
+
+/**
+ * Send a test email to verify the SMTP settings
+ */
+export async function sendTestEmail(
+  config: EmailSettingsRow | null
+): Promise<{ success: boolean; error?: string }> {
+  if (!config?.smtpHost || !config.fromAddress || config.recipients.length === 0) {
+    return { success: false, error: 'Add an SMTP server, a sender and at least one recipient' };
+  }
+
+  try {
+    await sendEmail(
+      { ...config, smtpHost: config.smtpHost, fromAddress: config.fromAddress },
+      renderNotificationEmail(
+        'Test Notification',
+        'If you see this message, your email settings are configured correctly!'
+      )
+    );
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Email Digest Service
+ *
+ * Summarises a day or week of activity in one email:
+ * - violations: totals by severity and the most recent ones
+ * - top users: most watch time in the period
+ * - new devices: devices first seen in the period
+ * - downtime: server outages that overlap the period
+ *
+ * Sent on the schedule in email_settings by jobs/emailDigestQueue.ts.
+ */
+
+import { and, desc, eq, gte, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import {
+  SEVERITY_LEVELS,
+  type EmailDigestPeriod,
+  type ViolationSeverity,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import {
+  rules,
+  serverOutages,
+  servers,
+  serverUsers,
+  sessions,
+  users,
+  violations,
+} from '../db/schema.js';
+import {
+  escapeHtml,
+  getEmailSettings,
+  isEmailConfigured,
+  PARAGRAPH_STYLE,
+  renderEmailLayout,
+  sendEmail,
+  type EmailContent,
+} from './email.js';
+import { formatDuration } from './notify.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows shown per list (totals still count everything)
+const DIGEST_LIST_LIMIT = 10;
+const DIGEST_TOP_USERS = 5;
+
+const PERIOD_DAYS: Record<EmailDigestPeriod, number> = { daily: 1, weekly: 7 };
+
+export interface DigestUser {
+  serverUserId: string;
+  username: string;
+  identityName: string | null;
+}
+
+export interface EmailDigest {
+  period: EmailDigestPeriod;
+  start: Date;
+  end: Date;
+  violations: {
+    total: number;
+    bySeverity: Record<ViolationSeverity, number>;
+    recent: (DigestUser & { ruleName: string; severity: ViolationSeverity; createdAt: Date })[];
+  };
+  topUsers: (DigestUser & { sessionCount: number; watchTimeMs: number })[];
+  newDevices: {
+    total: number;
+    devices: (DigestUser & {
+      deviceName: string | null;
+      platform: string | null;
+      firstSeenAt: Date;
+    })[];
+  };
+  downtime: {
+    serverId: string;
+    serverName: string;
+    outageCount: number;
+    downtimeMs: number;
+    ongoing: boolean;
+  }[];
+}
+
+/**
+ * The period a digest sent now covers, ending now
+ */
+export function getDigestWindow(
+  period: EmailDigestPeriod,
+  now = new Date()
+): { start: Date; end: Date } {
+  return { start: new Date(now.getTime() - PERIOD_DAYS[period] * DAY_MS), end: now };
+}
+
+async function getViolationSummary(start: Date, end: Date): Promise<EmailDigest['violations']> {
+  const inWindow = and(gte(violations.createdAt, start), lt(violations.createdAt, end));
+
+  const [counts, recent] = await Promise.all([
+    db
+      .select({ severity: violations.severity, count: sql<number>`count(*)::int` })
+      .from(violations)
+      .where(inWindow)
+      .groupBy(violations.severity),
+    db
+      .select({
+        serverUserId: violations.serverUserId,
+        username: serverUsers.username,
+        identityName: users.name,
+        ruleName: rules.name,
+        severity: violations.severity,
+        createdAt: violations.createdAt,
+      })
+      .from(violations)
+      .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
+      .innerJoin(users, eq(serverUsers.userId, users.id))
+      .innerJoin(rules, eq(violations.ruleId, rules.id))
+      .where(inWindow)
+      .orderBy(desc(violations.createdAt))
+      .limit(DIGEST_LIST_LIMIT),
+  ]);
+
+  const bySeverity: Record<ViolationSeverity, number> = { low: 0, warning: 0, high: 0 };
+  for (const { severity, count } of counts) {
+    bySeverity[severity] = count;
+  }
+
+  return {
+    total: counts.reduce((sum, { count }) => sum + count, 0),
+    bySeverity,
+    recent,
+  };
+}
+
+async function getTopUsers(start: Date, end: Date): Promise<EmailDigest['topUsers']> {
+  const watchTime = sql<string>`sum(coalesce(${sessions.durationMs}, 0))::bigint`;
+
+  const rows = await db
+    .select({
+      serverUserId: sessions.serverUserId,
+      username: serverUsers.username,
+      identityName: users.name,
+      sessionCount: sql<number>`count(*)::int`,
+      watchTimeMs: watchTime,
+    })
+    .from(sessions)
+    .innerJoin(serverUsers, eq(sessions.serverUserId, serverUsers.id))
+    .innerJoin(users, eq(serverUsers.userId, users.id))
+    .where(and(gte(sessions.startedAt, start), lt(sessions.startedAt, end)))
+    .groupBy(sessions.serverUserId, serverUsers.username, users.name)
+    .orderBy(desc(watchTime))
+    .limit(DIGEST_TOP_USERS);
+
+  return rows.map((row) => ({ ...row, watchTimeMs: Number(row.watchTimeMs) }));
+}
+
+async function getNewDevices(start: Date, end: Date): Promise<EmailDigest['newDevices']> {
+  const firstSeenAt = sql<Date>`min(${sessions.startedAt})`;
+
+  // Each user's devices, keeping those whose first session is in the period
+  const firstSeen = db
+    .select({
+      serverUserId: sessions.serverUserId,
+      firstSeenAt: firstSeenAt.as('first_seen_at'),
+      deviceName: sql<string | null>`max(coalesce(${sessions.product}, ${sessions.playerName}))`.as(
+        'device_name'
+      ),
+      platform: sql<string | null>`max(${sessions.platform})`.as('platform'),
+    })
+    .from(sessions)
+    .where(isNotNull(sessions.deviceId))
+    .groupBy(sessions.serverUserId, sessions.deviceId)
+    .having(and(gte(firstSeenAt, start), lt(firstSeenAt, end)))
+    .as('first_seen');
+
+  const rows = await db
+    .select({
+      serverUserId: firstSeen.serverUserId,
+      username: serverUsers.username,
+      identityName: users.name,
+      deviceName: firstSeen.deviceName,
+      platform: firstSeen.platform,
+      firstSeenAt: firstSeen.firstSeenAt,
+      total: sql<number>`(count(*) over())::int`,
+    })
+    .from(firstSeen)
+    .innerJoin(serverUsers, eq(firstSeen.serverUserId, serverUsers.id))
+    .innerJoin(users, eq(serverUsers.userId, users.id))
+    .orderBy(desc(firstSeen.firstSeenAt))
+    .limit(DIGEST_LIST_LIMIT);
+
+  return {
+    total: rows[0]?.total ?? 0,
+    devices: rows.map(({ total: _total, firstSeenAt, ...row }) => ({
+      ...row,
+      firstSeenAt: new Date(firstSeenAt),
+    })),
+  };
+}
+
+async function getDowntime(start: Date, end: Date): Promise<EmailDigest['downtime']> {
+  const outages = await db
+    .select({
+      serverId: serverOutages.serverId,
+      serverName: servers.name,
+      startedAt: serverOutages.startedAt,
+      endedAt: serverOutages.endedAt,
+    })
+    .from(serverOutages)
+    .innerJoin(servers, eq(serverOutages.serverId, servers.id))
+    .where(
+      and(
+        lt(serverOutages.startedAt, end),
+        or(isNull(serverOutages.endedAt), gte(serverOutages.endedAt, start))
+      )
+    )
+    .orderBy(serverOutages.startedAt);
+
+  // Only the part of each outage inside the period counts
+  const byServer = new Map<string, EmailDigest['downtime'][number]>();
+  for (const outage of outages) {
+    const from = Math.max(outage.startedAt.getTime(), start.getTime());
+    const to = Math.min(outage.endedAt?.getTime() ?? end.getTime(), end.getTime());
+    const summary = byServer.get(outage.serverId) ?? {
+      serverId: outage.serverId,
+      serverName: outage.serverName,
+      outageCount: 0,
+      downtimeMs: 0,
+      ongoing: false,
+    };
+    summary.outageCount++;
+    summary.downtimeMs += Math.max(0, to - from);
+    summary.ongoing ||= outage.endedAt === null;
+    byServer.set(outage.serverId, summary);
+  }
+
+  return [...byServer.values()].sort((a, b) => b.downtimeMs - a.downtimeMs);
+}
+
+/**
+ * Collect the digest for the period ending now
+ */
+export async function buildEmailDigest(
+  period: EmailDigestPeriod,
+  now = new Date()
+): Promise<EmailDigest> {
+  const { start, end } = getDigestWindow(period, now);
+
+  const [violationSummary, topUsers, newDevices, downtime] = await Promise.all([
+    getViolationSummary(start, end),
+    getTopUsers(start, end),
+    getNewDevices(start, end),
+    getDowntime(start, end),
+  ]);
+
+  return { period, start, end, violations: violationSummary, topUsers, newDevices, downtime };
+}
+
+function displayName(user: DigestUser): string {
+  return user.identityName ?? user.username;
+}
+
+function formatDate(date: Date, timeZone: string): string {
+  return date.toLocaleDateString('en-US', { timeZone, month: 'short', day: 'numeric' });
+}
+
+function formatDateTime(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * A digest section: its heading, a summary line and one line per item
+ */
+interface DigestSection {
+  heading: string;
+  summary: string;
+  items: string[];
+}
+
+function getDigestSections(digest: EmailDigest, timeZone: string): DigestSection[] {
+  const { violations: violationSummary, topUsers, newDevices, downtime } = digest;
+
+  const { bySeverity } = violationSummary;
+  const severityCounts = (Object.keys(SEVERITY_LEVELS) as ViolationSeverity[])
+    .map((severity) => `${bySeverity[severity]} ${SEVERITY_LEVELS[severity].label}`)
+    .join(', ');
+
+  return [
+    {
+      heading: 'Violations',
+      summary:
+        violationSummary.total === 0
+          ? 'No new violations.'
+          : `${violationSummary.total} new violations (${severityCounts}).`,
+      items: violationSummary.recent.map(
+        (violation) =>
+          `${formatDateTime(violation.createdAt, timeZone)}: ${displayName(violation)} triggered ` +
+          `${violation.ruleName} (${SEVERITY_LEVELS[violation.severity].label})`
+      ),
+    },
+    {
+      heading: 'Top Users',
+      summary: topUsers.length === 0 ? 'Nobody streamed.' : 'Most watch time in the period.',
+      items: topUsers.map(
+        (user) =>
+          `${displayName(user)}: ${formatDuration(user.watchTimeMs)} over ` +
+          `${user.sessionCount} ${user.sessionCount === 1 ? 'stream' : 'streams'}`
+      ),
+    },
+    {
+      heading: 'New Devices',
+      summary:
+        newDevices.total === 0
+          ? 'No new devices.'
+          : `${newDevices.total} devices seen for the first time.`,
+      items: newDevices.devices.map((device) => {
+        const name = device.deviceName ?? 'Unknown device';
+        const platform = device.platform ? ` (${device.platform})` : '';
+        const firstSeen = formatDateTime(device.firstSeenAt, timeZone);
+        return `${displayName(device)} on ${name}${platform}, ${firstSeen}`;
+      }),
+    },
+    {
+      heading: 'Server Downtime',
+      summary: downtime.length === 0 ? 'All servers stayed online.' : 'Servers that went offline.',
+      items: downtime.map(
+        (server) =>
+          `${server.serverName}: down ${formatDuration(server.downtimeMs)} across ` +
+          `${server.outageCount} ${server.outageCount === 1 ? 'outage' : 'outages'}` +
+          (server.ongoing ? ', still offline' : '')
+      ),
+    },
+  ];
+}
+
+/**
+ * Render the digest as a plain-text and HTML email
+ *
+ * @param timeZone - Time zone for the dates in the email
+ */
+export function renderEmailDigest(digest: EmailDigest, timeZone = 'UTC'): EmailContent {
+  const label = digest.period === 'daily' ? 'Daily' : 'Weekly';
+  const range =
+    digest.period === 'daily'
+      ? formatDate(digest.end, timeZone)
+      : `${formatDate(digest.start, timeZone)} - ${formatDate(digest.end, timeZone)}`;
+  const title = `${label} Digest: ${range}`;
+  const sections = getDigestSections(digest, timeZone);
+
+  const text = [
+    title,
+    ...sections.map(({ heading, summary, items }) =>
+      [heading, summary, ...items.map((item) => `- ${item}`)].join('\n')
+    ),
+  ].join('\n\n');
+
+  const html = sections
+    .map(({ heading, summary, items }) => {
+      const list = items.length
+        ? `<ul style="margin:0 0 12px;padding-left:20px">${items
+            .map((item) => `<li>${escapeHtml(item)}</li>`)
+            .join('')}</ul>`
+        : '';
+      return [
+        `<h2 style="margin:20px 0 8px;font-size:16px">${escapeHtml(heading)}</h2>`,
+        `<p style="${PARAGRAPH_STYLE}">${escapeHtml(summary)}</p>`,
+        list,
+      ].join('\n');
+    })
+    .join('\n');
+
+  return {
+    subject: `[Tracearr] ${title}`,
+    text: `${text}\n`,
+    html: renderEmailLayout(title, html),
+  };
+}
+
+/**
+ * Build and send the digest for the period ending now
+ *
+ * @returns false if email isn't configured, so nothing was sent
+ * @throws If the SMTP server rejects the message
+ */
+export async function sendEmailDigest(period: EmailDigestPeriod): Promise<boolean> {
+  const config = await getEmailSettings();
+  if (!isEmailConfigured(config)) {
+    return false;
+  }
+
+  const digest = await buildEmailDigest(period);
+  await sendEmail(config, renderEmailDigest(digest, config.digestTimezone));
+  return true;
+}
@@ -0,0 +1,437 @@
+/**
+ * Identity Service
+ *
+ * Manual linking of server accounts to identities. Sync only links accounts that
+ * share an email (see syncUserFromMediaServer), so this covers the people it misses:
+ * - Merge: move every account of one identity onto another and remove the first
+ * - Split: detach a server account into a new identity of its own
+ * - Suggestions: identity pairs that share devices, IPs or similar usernames
+ */
+
+import { and, eq, gte, inArray, isNotNull, sql } from 'drizzle-orm';
+import {
+  IDENTITY_SUGGESTION_CONFIG,
+  TIME_MS,
+  canLogin,
+  type IdentityAccount,
+  type IdentityMatchReason,
+  type IdentityMergeResult,
+  type IdentityMergeSuggestion,
+  type IdentitySplitResult,
+  type IdentitySummary,
+  type RuleScope,
+  type RuleSchedule,
+  type UserRole,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import {
+  knownLocations,
+  rules,
+  serverUsers,
+  servers,
+  sessions,
+  userGroupMembers,
+  users,
+} from '../db/schema.js';
+import { ConflictError } from '../utils/errors.js';
+import { geoipService } from './geoip.js';
+import {
+  ServerUserNotFoundError,
+  UserNotFoundError,
+  getServerUserById,
+  getUserById,
+  recalculateAggregateTrustScore,
+} from './userService.js';
+
+// ============================================================================
+// Merge / Split
+// ============================================================================
+
+/**
+ * Point rule targeting (scope and schedule suspensions) at another identity.
+ * Returns null when the rule doesn't mention the old identity.
+ */
+function retargetRule(
+  rule: { scope: RuleScope; schedule: RuleSchedule | null },
+  fromUserId: string,
+  toUserId: string
+): { scope: RuleScope; schedule: RuleSchedule | null } | null {
+  const replace = (ids: string[]) => [
+    ...new Set(ids.map((id) => (id === fromUserId ? toUserId : id))),
+  ];
+
+  const mentioned =
+    rule.scope.userIds.includes(fromUserId) ||
+    rule.scope.excludedUserIds.includes(fromUserId) ||
+    (rule.schedule?.suspensions.some((s) => s.userId === fromUserId) ?? false);
+  if (!mentioned) return null;
+
+  return {
+    scope: {
+      ...rule.scope,
+      userIds: replace(rule.scope.userIds),
+      excludedUserIds: replace(rule.scope.excludedUserIds),
+    },
+    schedule: rule.schedule && {
+      ...rule.schedule,
+      suspensions: rule.schedule.suspensions.map((s) =>
+        s.userId === fromUserId ? { ...s, userId: toUserId } : s
+      ),
+    },
+  };
+}
+
+/**
+ * Merge one identity into another
+ *
+ * Server accounts, known locations, group memberships and rule targeting move from
+ * the source to the target, as does the policy profile when the target has none, then
+ * the source identity is deleted. The source must not
+ * be able to sign in - its credentials would be lost - so merge into the identity
+ * that signs in instead.
+ *
+ * Throws UserNotFoundError if either identity is missing, and ConflictError if the
+ * source can sign in or both identities have an account on the same server.
+ */
+export async function mergeUsers(
+  targetUserId: string,
+  sourceUserId: string
+): Promise<IdentityMergeResult> {
+  const [target, source] = await Promise.all([
+    getUserById(targetUserId),
+    getUserById(sourceUserId),
+  ]);
+  if (!target) throw new UserNotFoundError(targetUserId);
+  if (!source) throw new UserNotFoundError(sourceUserId);
+
+  if (canLogin(source.role)) {
+    throw new ConflictError('Identities that can sign in cannot be merged into another identity');
+  }
+
+  const serverUserIds = await db.transaction(async (tx) => {
+    const accounts = await tx
+      .select({ id: serverUsers.id, userId: serverUsers.userId, serverId: serverUsers.serverId })
+      .from(serverUsers)
+      .where(inArray(serverUsers.userId, [targetUserId, sourceUserId]));
+
+    const targetServerIds = new Set(
+      accounts.filter((a) => a.userId === targetUserId).map((a) => a.serverId)
+    );
+    if (accounts.some((a) => a.userId === sourceUserId && targetServerIds.has(a.serverId))) {
+      throw new ConflictError('Both identities have an account on the same server');
+    }
+
+    await tx
+      .update(serverUsers)
+      .set({ userId: targetUserId, updatedAt: new Date() })
+      .where(eq(serverUsers.userId, sourceUserId));
+
+    await tx
+      .update(knownLocations)
+      .set({ userId: targetUserId })
+      .where(eq(knownLocations.userId, sourceUserId));
+
+    // Source memberships are removed with the source identity below
+    const memberships = await tx
+      .select({ groupId: userGroupMembers.groupId })
+      .from(userGroupMembers)
+      .where(eq(userGroupMembers.userId, sourceUserId));
+    if (memberships.length > 0) {
+      await tx
+        .insert(userGroupMembers)
+        .values(memberships.map((m) => ({ groupId: m.groupId, userId: targetUserId })))
+        .onConflictDoNothing();
+    }
+
+    const ruleRows = await tx
+      .select({ id: rules.id, scope: rules.scope, schedule: rules.schedule })
+      .from(rules);
+    for (const rule of ruleRows) {
+      const retargeted = retargetRule(rule, sourceUserId, targetUserId);
+      if (retargeted) {
+        await tx
+          .update(rules)
+          .set({ ...retargeted, updatedAt: new Date() })
+          .where(eq(rules.id, rule.id));
+      }
+    }
+
+    await tx.delete(users).where(eq(users.id, sourceUserId));
+
+    // Keep the target's details, filling gaps from the source (email is unique,
+    // so this has to wait until the source row is gone)
+    await tx
+      .update(users)
+      .set({
+        name: target.name ?? source.name,
+        email: target.email ?? source.email,
+        thumbnail: target.thumbnail ?? source.thumbnail,
+        policyProfileId: target.policyProfileId ?? source.policyProfileId,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, targetUserId));
+
+    return accounts.map((a) => a.id);
+  });
+
+  await recalculateAggregateTrustScore(targetUserId);
+
+  return { userId: targetUserId, mergedUserId: sourceUserId, serverUserIds };
+}
+
+/**
+ * Detach a server account into a new identity of its own
+ *
+ * Known locations, group memberships and rule targeting stay with the original
+ * identity. Throws ServerUserNotFoundError if the account is missing, and
+ * ConflictError if it is already the only account of its identity.
+ */
+export async function splitServerUser(serverUserId: string): Promise<IdentitySplitResult> {
+  const serverUser = await getServerUserById(serverUserId);
+  if (!serverUser) throw new ServerUserNotFoundError(serverUserId);
+
+  const previousUserId = serverUser.userId;
+
+  const userId = await db.transaction(async (tx) => {
+    const siblings = await tx
+      .select({ id: serverUsers.id })
+      .from(serverUsers)
+      .where(eq(serverUsers.userId, previousUserId));
+    if (siblings.length <= 1) {
+      throw new ConflictError('This account is already its own identity');
+    }
+
+    // Email stays with the original identity (users.email is unique)
+    const [created] = await tx
+      .insert(users)
+      .values({
+        username: serverUser.username,
+        name: null,
+        email: null,
+        thumbnail: serverUser.thumbUrl,
+      })
+      .returning({ id: users.id });
+
+    await tx
+      .update(serverUsers)
+      .set({ userId: created!.id, updatedAt: new Date() })
+      .where(eq(serverUsers.id, serverUserId));
+
+    return created!.id;
+  });
+
+  await Promise.all([
+    recalculateAggregateTrustScore(previousUserId),
+    recalculateAggregateTrustScore(userId),
+  ]);
+
+  return { userId, previousUserId, serverUserId };
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+/**
+ * Lowercase, strip accents and anything that isn't a letter or digit
+ * ("John.Smith" and "johnsmith" compare equal)
+ */
+export function normalizeUsername(username: string): string {
+  return username
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Two normalized usernames are similar when one contains the other
+ */
+function isSimilarUsername(a: string, b: string): boolean {
+  if (
+    a.length < IDENTITY_SUGGESTION_CONFIG.MIN_USERNAME_LENGTH ||
+    b.length < IDENTITY_SUGGESTION_CONFIG.MIN_USERNAME_LENGTH
+  ) {
+    return false;
+  }
+  return a.includes(b) || b.includes(a);
+}
+
+export interface SuggestionIdentity extends IdentitySummary {
+  role: UserRole;
+}
+
+/**
+ * Build merge suggestions from identities and the identity sets that share a
+ * device or IP (one entry per device/IP)
+ *
+ * Pairs that can't be merged - accounts on the same server, or both able to sign
+ * in - are skipped. The identity that signs in (or has more accounts) comes first
+ * as the suggested merge target.
+ */
+export function buildMergeSuggestions(
+  identities: SuggestionIdentity[],
+  deviceLinks: string[][],
+  ipLinks: string[][]
+): IdentityMergeSuggestion[] {
+  const byId = new Map(identities.map((i) => [i.id, i]));
+  const pairs = new Map<
+    string,
+    { ids: [string, string]; devices: number; ips: number; similarUsername: boolean }
+  >();
+
+  const pairFor = (a: string, b: string) => {
+    const ids: [string, string] = a < b ? [a, b] : [b, a];
+    const key = ids.join(':');
+    let pair = pairs.get(key);
+    if (!pair) {
+      pair = { ids, devices: 0, ips: 0, similarUsername: false };
+      pairs.set(key, pair);
+    }
+    return pair;
+  };
+
+  const countLinks = (links: string[][], field: 'devices' | 'ips') => {
+    for (const link of links) {
+      const ids = [...new Set(link)].filter((id) => byId.has(id));
+      if (ids.length < 2 || ids.length > IDENTITY_SUGGESTION_CONFIG.MAX_IDENTITIES_PER_SIGNAL) {
+        continue;
+      }
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          pairFor(ids[i]!, ids[j]!)[field]++;
+        }
+      }
+    }
+  };
+  countLinks(deviceLinks, 'devices');
+  countLinks(ipLinks, 'ips');
+
+  const names = identities.map((identity) => ({
+    id: identity.id,
+    names: [
+      ...new Set(
+        [identity.username, ...identity.accounts.map((a) => a.username)].map(normalizeUsername)
+      ),
+    ],
+  }));
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const a = names[i]!;
+      const b = names[j]!;
+      if (a.names.some((x) => b.names.some((y) => isSimilarUsername(x, y)))) {
+        pairFor(a.id, b.id).similarUsername = true;
+      }
+    }
+  }
+
+  const suggestions: IdentityMergeSuggestion[] = [];
+  for (const pair of pairs.values()) {
+    let [first, second] = pair.ids.map((id) => byId.get(id)!) as [
+      SuggestionIdentity,
+      SuggestionIdentity,
+    ];
+
+    const firstServers = new Set(first.accounts.map((a) => a.serverId));
+    if (second.accounts.some((a) => firstServers.has(a.serverId))) continue;
+    if (canLogin(first.role) && canLogin(second.role)) continue;
+
+    if (
+      canLogin(second.role) ||
+      (!canLogin(first.role) && second.accounts.length > first.accounts.length)
+    ) {
+      [first, second] = [second, first];
+    }
+
+    const reasons: IdentityMatchReason[] = [];
+    if (pair.devices > 0) reasons.push('shared_device');
+    if (pair.ips > 0) reasons.push('shared_ip');
+    if (pair.similarUsername) reasons.push('similar_username');
+
+    const summary = ({ role: _role, ...identity }: SuggestionIdentity): IdentitySummary =>
+      identity;
+
+    suggestions.push({
+      users: [summary(first), summary(second)],
+      reasons,
+      sharedDeviceCount: pair.devices,
+      sharedIpCount: pair.ips,
+    });
+  }
+
+  return suggestions
+    .sort(
+      (a, b) =>
+        b.reasons.length - a.reasons.length ||
+        b.sharedDeviceCount - a.sharedDeviceCount ||
+        b.sharedIpCount - a.sharedIpCount
+    )
+    .slice(0, IDENTITY_SUGGESTION_CONFIG.MAX_SUGGESTIONS);
+}
+
+/**
+ * Suggest identities that are probably the same person, based on devices and
+ * public IPs they shared recently and similar usernames
+ */
+export async function getMergeSuggestions(): Promise<IdentityMergeSuggestion[]> {
+  const since = new Date(Date.now() - IDENTITY_SUGGESTION_CONFIG.LOOKBACK_DAYS * TIME_MS.DAY);
+  const sharedBy = sql`count(distinct ${serverUsers.userId})`;
+  const identityIds = sql<string[]>`array_agg(distinct ${serverUsers.userId})`;
+
+  const [identityRows, accountRows, deviceRows, ipRows] = await Promise.all([
+    db
+      .select({
+        id: users.id,
+        username: users.username,
+        name: users.name,
+        role: users.role,
+        aggregateTrustScore: users.aggregateTrustScore,
+      })
+      .from(users),
+    db
+      .select({
+        id: serverUsers.id,
+        userId: serverUsers.userId,
+        serverId: serverUsers.serverId,
+        serverName: servers.name,
+        username: serverUsers.username,
+        thumbUrl: serverUsers.thumbUrl,
+      })
+      .from(serverUsers)
+      .innerJoin(servers, eq(serverUsers.serverId, servers.id)),
+    db
+      .select({ userIds: identityIds })
+      .from(sessions)
+      .innerJoin(serverUsers, eq(sessions.serverUserId, serverUsers.id))
+      .where(and(gte(sessions.startedAt, since), isNotNull(sessions.deviceId)))
+      .groupBy(sessions.deviceId)
+      .having(sql`${sharedBy} > 1`),
+    db
+      .select({ ipAddress: sessions.ipAddress, userIds: identityIds })
+      .from(sessions)
+      .innerJoin(serverUsers, eq(sessions.serverUserId, serverUsers.id))
+      .where(gte(sessions.startedAt, since))
+      .groupBy(sessions.ipAddress)
+      .having(sql`${sharedBy} > 1`),
+  ]);
+
+  const accountsByUser = new Map<string, IdentityAccount[]>();
+  for (const { userId, ...account } of accountRows) {
+    const accounts = accountsByUser.get(userId) ?? [];
+    accounts.push(account);
+    accountsByUser.set(userId, accounts);
+  }
+
+  // Only identities with server accounts can be merged
+  const identities: SuggestionIdentity[] = identityRows
+    .filter((identity) => accountsByUser.has(identity.id))
+    .map((identity) => ({ ...identity, accounts: accountsByUser.get(identity.id)! }));
+
+  // A shared LAN address says the same household, not the same person
+  const publicIpRows = ipRows.filter((row) => !geoipService.isPrivateIP(row.ipAddress));
+
+  return buildMergeSuggestions(
+    identities,
+    deviceRows.map((row) => row.userIds),
+    publicIpRows.map((row) => row.userIds)
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Inactive Users Service
+ *
+ * Finds server accounts worth cleaning up:
+ * - inactive: the last session started before the cutoff
+ * - never_played: the account has never streamed
+ *
+ * Server admins and accounts that joined after the cutoff are left out, since
+ * they haven't had the chance to be inactive for the whole period.
+ */
+
+import { and, desc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import {
+  INACTIVE_USER_DEFAULTS,
+  type InactiveServerUser,
+  type ServerType,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { servers, serverUsers, sessions, users } from '../db/schema.js';
+import { createMediaServerClient } from './mediaServer/index.js';
+
+export interface InactiveUsersOptions {
+  /** Accounts with no session since then are inactive */
+  cutoff: Date;
+
+  /** Only accounts that have never streamed */
+  neverPlayed?: boolean;
+
+  /** Servers to search, or null for all servers */
+  serverIds: string[] | null;
+}
+
+/**
+ * Most recent session of each server account
+ */
+async function getLastSessions(serverUserIds: string[]) {
+  const rows = await db
+    .selectDistinctOn([sessions.serverUserId], {
+      serverUserId: sessions.serverUserId,
+      startedAt: sessions.startedAt,
+      mediaTitle: sessions.mediaTitle,
+      grandparentTitle: sessions.grandparentTitle,
+    })
+    .from(sessions)
+    .where(inArray(sessions.serverUserId, serverUserIds))
+    .orderBy(sessions.serverUserId, desc(sessions.startedAt));
+
+  return new Map(rows.map(({ serverUserId, ...session }) => [serverUserId, session]));
+}
+
+/**
+ * Library names by ID for each server, read from the media servers
+ *
+ * Servers that can't be reached are skipped, so their libraries show by ID.
+ */
+async function getLibraryNames(serverIds: string[]): Promise<Map<string, Map<string, string>>> {
+  const names = new Map<string, Map<string, string>>();
+  if (serverIds.length === 0) return names;
+
+  const serverRows = await db.select().from(servers).where(inArray(servers.id, serverIds));
+
+  await Promise.all(
+    serverRows.map(async (server) => {
+      try {
+        const client = createMediaServerClient({
+          type: server.type as ServerType,
+          url: server.url,
+          token: server.token,
+        });
+        const libraries = await client.getLibraries();
+        names.set(server.id, new Map(libraries.map((library) => [library.id, library.name])));
+      } catch {
+        // Fall back to library IDs
+      }
+    })
+  );
+
+  return names;
+}
+
+/**
+ * Server accounts with no sessions since the cutoff, least recently active first
+ */
+export async function getInactiveUsers(
+  options: InactiveUsersOptions
+): Promise<InactiveServerUser[]> {
+  const { cutoff, neverPlayed, serverIds } = options;
+
+  // Last session and total watch time per account
+  const activity = db
+    .select({
+      serverUserId: sessions.serverUserId,
+      lastSessionAt: sql<Date>`max(${sessions.startedAt})`.as('last_session_at'),
+      totalWatchTimeMs: sql<string>`coalesce(sum(${sessions.durationMs}), 0)::bigint`.as(
+        'total_watch_time_ms'
+      ),
+    })
+    .from(sessions)
+    .where(serverIds ? inArray(sessions.serverId, serverIds) : undefined)
+    .groupBy(sessions.serverUserId)
+    .as('activity');
+
+  const conditions = [
+    eq(serverUsers.isServerAdmin, false),
+    lt(serverUsers.joinedAt, cutoff),
+    neverPlayed
+      ? isNull(activity.serverUserId)
+      : or(isNull(activity.serverUserId), lt(activity.lastSessionAt, cutoff)),
+  ];
+  if (serverIds) {
+    conditions.push(inArray(serverUsers.serverId, serverIds));
+  }
+
+  const rows = await db
+    .select({
+      id: serverUsers.id,
+      serverId: serverUsers.serverId,
+      serverName: servers.name,
+      userId: serverUsers.userId,
+      username: serverUsers.username,
+      identityName: users.name,
+      thumbUrl: serverUsers.thumbUrl,
+      joinedAt: serverUsers.joinedAt,
+      source: serverUsers.source,
+      sessionCount: serverUsers.sessionCount,
+      totalWatchTimeMs: activity.totalWatchTimeMs,
+      sharedLibraries: serverUsers.sharedLibraries,
+      reviewRequestedAt: serverUsers.reviewRequestedAt,
+    })
+    .from(serverUsers)
+    .innerJoin(servers, eq(serverUsers.serverId, servers.id))
+    .innerJoin(users, eq(serverUsers.userId, users.id))
+    .leftJoin(activity, eq(activity.serverUserId, serverUsers.id))
+    .where(and(...conditions))
+    .orderBy(sql`${activity.lastSessionAt} asc nulls first`, serverUsers.username)
+    .limit(INACTIVE_USER_DEFAULTS.MAX_RESULTS);
+
+  if (rows.length === 0) return [];
+
+  const serversWithLibraries = [
+    ...new Set(rows.filter((row) => row.sharedLibraries?.length).map((row) => row.serverId)),
+  ];
+  const [lastSessions, libraryNames] = await Promise.all([
+    getLastSessions(rows.map((row) => row.id)),
+    getLibraryNames(serversWithLibraries),
+  ]);
+
+  return rows.map(({ totalWatchTimeMs, sharedLibraries, ...row }) => {
+    const lastSession = lastSessions.get(row.id) ?? null;
+    const names = libraryNames.get(row.serverId);
+    return {
+      ...row,
+      reason: lastSession ? 'inactive' : 'never_played',
+      lastSession,
+      totalWatchTimeMs: Number(totalWatchTimeMs ?? 0),
+      sharedLibraries: sharedLibraries?.map((id) => names?.get(id) ?? id) ?? null,
+    };
+  });
+}
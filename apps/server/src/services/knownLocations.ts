@@ -0,0 +1,305 @@
+/**
+ * Known Locations Service
+ *
+ * Per-identity places a user is known to stream from (home, a partner's home,
+ * a mobile carrier with rotating IPs). Location rules can ignore or downweight
+ * sessions from these places.
+ *
+ * - Matching: CIDR ranges, ASNs and geo radii
+ * - Learning: frequently used IP ranges and cities from session history, suggested
+ *   as pending locations that rules ignore until the owner confirms them
+ */
+
+import { BlockList, isIP } from 'node:net';
+import { and, eq, gte, isNotNull, sql } from 'drizzle-orm';
+import { KNOWN_LOCATION_CONFIG, TIME_MS, type KnownLocation } from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { knownLocations, serverUsers, sessions } from '../db/schema.js';
+import { geoipService, type GeoLocation } from './geoip.js';
+
+/**
+ * The parts of a session needed to match it against known locations
+ */
+export interface KnownLocationCandidate {
+  ipAddress: string;
+  geoLat: number | null;
+  geoLon: number | null;
+  asn?: number | null;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Distance in km between two coordinates, or null if either is missing
+ */
+function distanceKm(
+  a: { lat: number | null; lon: number | null },
+  b: { lat: number | null; lon: number | null }
+): number | null {
+  const place = (p: typeof a): GeoLocation => ({
+    city: null,
+    region: null,
+    country: null,
+    countryCode: null,
+    ...p,
+  });
+  return geoipService.calculateDistance(place(a), place(b));
+}
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix (::ffff:203.0.113.5 -> 203.0.113.5)
+ */
+function normalizeIp(ip: string): string {
+  return ip.toLowerCase().startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+}
+
+/**
+ * Check if an IP address falls within a CIDR range
+ *
+ * @example
+ * isIpInCidr('203.0.113.42', '203.0.113.0/24'); // true
+ * isIpInCidr('2001:db8::1', '2001:db8::/48'); // true
+ */
+export function isIpInCidr(ip: string, cidr: string): boolean {
+  const address = normalizeIp(ip);
+  const [network, prefixStr] = cidr.split('/');
+  const addressVersion = isIP(address);
+  const networkVersion = isIP(network ?? '');
+  const prefix = Number(prefixStr);
+
+  if (!network || addressVersion === 0 || addressVersion !== networkVersion || isNaN(prefix)) {
+    return false;
+  }
+
+  const type = addressVersion === 4 ? 'ipv4' : 'ipv6';
+  const list = new BlockList();
+  try {
+    list.addSubnet(network, prefix, type);
+  } catch {
+    return false; // Prefix out of range
+  }
+  return list.check(address, type);
+}
+
+/**
+ * Find the first known location a session comes from
+ *
+ * @returns The matching known location, or null
+ */
+export function matchKnownLocation(
+  locations: KnownLocation[],
+  candidate: KnownLocationCandidate
+): KnownLocation | null {
+  for (const location of locations) {
+    switch (location.type) {
+      case 'cidr':
+        if (location.cidr && isIpInCidr(candidate.ipAddress, location.cidr)) {
+          return location;
+        }
+        break;
+      case 'asn':
+        if (location.asn !== null && candidate.asn != null && candidate.asn === location.asn) {
+          return location;
+        }
+        break;
+      case 'geo': {
+        if (location.radiusKm === null) break;
+        const distance = distanceKm(
+          { lat: location.lat, lon: location.lon },
+          { lat: candidate.geoLat, lon: candidate.geoLon }
+        );
+        if (distance !== null && distance <= location.radiusKm) {
+          return location;
+        }
+        break;
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Learning
+// ============================================================================
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ */
+function expandIpv6(ip: string): number[] | null {
+  if (ip.includes('.')) return null; // Embedded IPv4 - not worth learning
+
+  const [head = '', tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (missing < 0 || (tail === undefined && missing !== 0)) return null;
+
+  return [...headGroups, ...Array<string>(missing).fill('0'), ...tailGroups].map((g) =>
+    parseInt(g, 16)
+  );
+}
+
+/**
+ * Get the network CIDR an IP belongs to at the learning prefix length
+ *
+ * @example
+ * toLearnedCidr('203.0.113.42'); // '203.0.113.0/24'
+ * toLearnedCidr('2001:db8:1:2::5'); // '2001:db8:1::/48'
+ */
+export function toLearnedCidr(ip: string): string | null {
+  const address = normalizeIp(ip);
+  const version = isIP(address);
+
+  if (version === 4) {
+    const octets = address.split('.');
+    return `${octets.slice(0, 3).join('.')}.0/${KNOWN_LOCATION_CONFIG.LEARN_IPV4_PREFIX}`;
+  }
+
+  if (version === 6) {
+    const groups = expandIpv6(address);
+    if (!groups) return null;
+    const network = groups.slice(0, 3).map((g) => g.toString(16));
+    return `${network.join(':')}::/${KNOWN_LOCATION_CONFIG.LEARN_IPV6_PREFIX}`;
+  }
+
+  return null;
+}
+
+/**
+ * Learn known locations for an identity from its recent session history
+ *
+ * A city or IP range becomes a known location once it has enough sessions on
+ * enough distinct days (see KNOWN_LOCATION_CONFIG). Places already covered by
+ * an existing entry - including dismissed and pending ones - are skipped.
+ *
+ * Learned locations are created pending, so a place an account sharer streams
+ * from regularly doesn't start suppressing detections without the owner's say.
+ *
+ * @param userId - Identity (users.id)
+ * @returns Newly created (pending) known locations
+ */
+export async function learnKnownLocations(userId: string): Promise<KnownLocation[]> {
+  const since = new Date(Date.now() - KNOWN_LOCATION_CONFIG.LEARN_LOOKBACK_DAYS * TIME_MS.DAY);
+  const identityFilter = and(eq(serverUsers.userId, userId), gte(sessions.startedAt, since));
+  const sessionDay = sql<string>`to_char(${sessions.startedAt}, 'YYYY-MM-DD')`;
+
+  const [cityRows, ipRows, existingRows] = await Promise.all([
+    db
+      .select({
+        city: sessions.geoCity,
+        country: sessions.geoCountry,
+        lat: sessions.geoLat,
+        lon: sessions.geoLon,
+        sessionCount: sql<number>`count(*)::int`,
+        dayCount: sql<number>`count(distinct ${sessionDay})::int`,
+      })
+      .from(sessions)
+      .innerJoin(serverUsers, eq(sessions.serverUserId, serverUsers.id))
+      .where(and(identityFilter, isNotNull(sessions.geoLat), isNotNull(sessions.geoLon)))
+      .groupBy(sessions.geoCity, sessions.geoCountry, sessions.geoLat, sessions.geoLon),
+    db
+      .select({
+        ipAddress: sessions.ipAddress,
+        sessionCount: sql<number>`count(*)::int`,
+        days: sql<string[]>`array_agg(distinct ${sessionDay})`,
+      })
+      .from(sessions)
+      .innerJoin(serverUsers, eq(sessions.serverUserId, serverUsers.id))
+      .where(identityFilter)
+      .groupBy(sessions.ipAddress),
+    db.select().from(knownLocations).where(eq(knownLocations.userId, userId)),
+  ]);
+
+  const existing = existingRows as KnownLocation[];
+  const toCreate: (typeof knownLocations.$inferInsert)[] = [];
+
+  const isFrequent = (sessionCount: number, dayCount: number) =>
+    sessionCount >= KNOWN_LOCATION_CONFIG.LEARN_MIN_SESSIONS &&
+    dayCount >= KNOWN_LOCATION_CONFIG.LEARN_MIN_DAYS;
+
+  // Group IPs into ranges so rotating addresses from one provider count together
+  const ranges = new Map<string, { sessionCount: number; days: Set<string>; sampleIp: string }>();
+  for (const row of ipRows) {
+    const cidr = toLearnedCidr(row.ipAddress);
+    if (!cidr) continue;
+    const range = ranges.get(cidr) ?? { sessionCount: 0, days: new Set(), sampleIp: row.ipAddress };
+    range.sessionCount += row.sessionCount;
+    for (const day of row.days ?? []) range.days.add(day);
+    ranges.set(cidr, range);
+  }
+
+  for (const [cidr, range] of ranges) {
+    if (!isFrequent(range.sessionCount, range.days.size)) continue;
+    const covered = matchKnownLocation(
+      existing.filter((l) => l.type === 'cidr'),
+      { ipAddress: range.sampleIp, geoLat: null, geoLon: null }
+    );
+    if (covered) continue;
+    toCreate.push({
+      userId,
+      type: 'cidr',
+      label: `IP range ${cidr}`,
+      cidr,
+      source: 'learned',
+      pending: true,
+    });
+  }
+
+  for (const row of cityRows) {
+    if (!isFrequent(row.sessionCount, row.dayCount)) continue;
+    const candidate = { ipAddress: '', geoLat: row.lat, geoLon: row.lon };
+    const alreadyQueued = toCreate.some(
+      (l) =>
+        l.type === 'geo' &&
+        (distanceKm({ lat: l.lat ?? null, lon: l.lon ?? null }, { lat: row.lat, lon: row.lon }) ??
+          Infinity) <= KNOWN_LOCATION_CONFIG.DEFAULT_RADIUS_KM
+    );
+    if (alreadyQueued || matchKnownLocation(existing.filter((l) => l.type === 'geo'), candidate)) {
+      continue;
+    }
+    toCreate.push({
+      userId,
+      type: 'geo',
+      label: [row.city, row.country].filter(Boolean).join(', ') || 'Frequent location',
+      lat: row.lat,
+      lon: row.lon,
+      radiusKm: KNOWN_LOCATION_CONFIG.DEFAULT_RADIUS_KM,
+      source: 'learned',
+      pending: true,
+    });
+  }
+
+  if (toCreate.length === 0) return [];
+
+  const created = await db.insert(knownLocations).values(toCreate).returning();
+  return created as KnownLocation[];
+}
+
+/**
+ * Learn known locations for every identity with recent sessions
+ *
+ * Errors for one identity are logged and don't stop the others.
+ */
+export async function learnAllKnownLocations(): Promise<{ created: number }> {
+  const since = new Date(Date.now() - KNOWN_LOCATION_CONFIG.LEARN_LOOKBACK_DAYS * TIME_MS.DAY);
+
+  const activeUsers = await db
+    .selectDistinct({ userId: serverUsers.userId })
+    .from(sessions)
+    .innerJoin(serverUsers, eq(sessions.serverUserId, serverUsers.id))
+    .where(gte(sessions.startedAt, since));
+
+  let created = 0;
+  for (const { userId } of activeUsers) {
+    try {
+      created += (await learnKnownLocations(userId)).length;
+    } catch (error) {
+      console.error(`[KnownLocations] Failed to learn locations for user ${userId}:`, error);
+    }
+  }
+
+  return { created };
+}
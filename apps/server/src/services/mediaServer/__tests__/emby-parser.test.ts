@@ -13,6 +13,7 @@ import {
   parseSessionsResponse,
   parseUser,
   parseUsersResponse,
+  parseUserAccess,
   parseLibrary,
   parseLibrariesResponse,
   parseWatchHistoryItem,
@@ -331,6 +332,40 @@ describe('Emby User Parser', () => {
   });
 });
 
+// ============================================================================
+// User Access Parsing Tests
+// ============================================================================
+
+describe('Emby User Access Parser', () => {
+  describe('parseUserAccess', () => {
+    it('should treat EnableAllFolders as access to every library', () => {
+      const access = parseUserAccess({
+        Id: 'user-1',
+        Policy: { IsDisabled: false, EnableAllFolders: true, EnabledFolders: [] },
+      });
+
+      expect(access).toEqual({ isDisabled: false, isShared: true, libraryIds: null });
+    });
+
+    it('should return the enabled folders when access is restricted', () => {
+      const access = parseUserAccess({
+        Id: 'user-1',
+        Policy: { IsDisabled: true, EnableAllFolders: false, EnabledFolders: ['lib-1', 'lib-2'] },
+      });
+
+      expect(access).toEqual({ isDisabled: true, isShared: true, libraryIds: ['lib-1', 'lib-2'] });
+    });
+
+    it('should default to full access when the policy is missing', () => {
+      expect(parseUserAccess({ Id: 'user-1' })).toEqual({
+        isDisabled: false,
+        isShared: true,
+        libraryIds: null,
+      });
+    });
+  });
+});
+
 // ============================================================================
 // Library Parsing Tests
 // ============================================================================
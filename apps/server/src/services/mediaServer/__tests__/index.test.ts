@@ -183,6 +183,14 @@ describe('IMediaServerClient Interface Compliance', () => {
       const client = createTestClient('plex');
       expect(typeof client.terminateSession).toBe('function');
     });
+
+    it('should implement account management methods', () => {
+      const client = createTestClient('plex');
+      expect(typeof client.getUserAccess).toBe('function');
+      expect(typeof client.setUserDisabled).toBe('function');
+      expect(typeof client.removeShare).toBe('function');
+      expect(typeof client.setUserLibraries).toBe('function');
+    });
   });
 
   describe('JellyfinClient', () => {
@@ -215,6 +223,14 @@ describe('IMediaServerClient Interface Compliance', () => {
       const client = createTestClient('jellyfin');
       expect(typeof client.terminateSession).toBe('function');
     });
+
+    it('should implement account management methods', () => {
+      const client = createTestClient('jellyfin');
+      expect(typeof client.getUserAccess).toBe('function');
+      expect(typeof client.setUserDisabled).toBe('function');
+      expect(typeof client.removeShare).toBe('function');
+      expect(typeof client.setUserLibraries).toBe('function');
+    });
   });
 
   describe('EmbyClient', () => {
@@ -247,6 +263,14 @@ describe('IMediaServerClient Interface Compliance', () => {
       const client = createTestClient('emby');
       expect(typeof client.terminateSession).toBe('function');
     });
+
+    it('should implement account management methods', () => {
+      const client = createTestClient('emby');
+      expect(typeof client.getUserAccess).toBe('function');
+      expect(typeof client.setUserDisabled).toBe('function');
+      expect(typeof client.removeShare).toBe('function');
+      expect(typeof client.setUserLibraries).toBe('function');
+    });
   });
 });
 
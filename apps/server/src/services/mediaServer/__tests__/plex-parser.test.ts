@@ -21,6 +21,8 @@ import {
   extractXmlId,
   parseXmlUsersResponse,
   parseSharedServersXml,
+  parsePlexShareXml,
+  parsePlexTvSectionsXml,
   parsePlexTvUser,
 } from '../plex/parser.js';
 
@@ -520,12 +522,77 @@ describe('Plex XML Parser', () => {
       expect(user200?.sharedLibraries).toEqual(['1']);
     });
 
+    it('should parse when the share was accepted', () => {
+      const xml = `
+        <MediaContainer>
+          <SharedServer id="1" userID="100" accessToken="token-100" acceptedAt="1700000000">
+          </SharedServer>
+          <SharedServer id="2" userID="200" accessToken="token-200" acceptedAt="0">
+          </SharedServer>
+        </MediaContainer>
+      `;
+
+      const userMap = parseSharedServersXml(xml);
+
+      expect(userMap.get('100')?.acceptedAt).toEqual(new Date(1700000000 * 1000));
+      expect(userMap.get('200')?.acceptedAt).toBeUndefined();
+    });
+
     it('should return empty map for no shared servers', () => {
       const xml = '<MediaContainer></MediaContainer>';
       const userMap = parseSharedServersXml(xml);
       expect(userMap.size).toBe(0);
     });
   });
+
+  describe('parsePlexShareXml', () => {
+    const xml = `
+      <MediaContainer machineIdentifier="abc">
+        <SharedServer id="501" userID="100" accessToken="token-100" allLibraries="0">
+          <Section id="9001" key="1" title="Movies" shared="1" />
+          <Section id="9002" key="2" title="TV" shared="0" />
+        </SharedServer>
+        <SharedServer id="502" userID="200" accessToken="token-200" allLibraries="1">
+          <Section id="9001" key="1" title="Movies" shared="1" />
+          <Section id="9002" key="2" title="TV" shared="1" />
+        </SharedServer>
+      </MediaContainer>
+    `;
+
+    it('should parse the share for the given user', () => {
+      expect(parsePlexShareXml(xml, '100')).toEqual({
+        id: '501',
+        userId: '100',
+        allLibraries: false,
+        libraryKeys: ['1'],
+      });
+      expect(parsePlexShareXml(xml, '200')?.allLibraries).toBe(true);
+    });
+
+    it('should return null when the server is not shared with the user', () => {
+      expect(parsePlexShareXml(xml, '300')).toBeNull();
+    });
+  });
+
+  describe('parsePlexTvSectionsXml', () => {
+    it('should map section keys to plex.tv section IDs', () => {
+      const xml = `
+        <MediaContainer>
+          <Server name="Home" machineIdentifier="abc">
+            <Section id="9001" key="1" type="movie" title="Movies" />
+            <Section id="9002" key="2" type="show" title="TV" />
+          </Server>
+        </MediaContainer>
+      `;
+
+      const sections = parsePlexTvSectionsXml(xml);
+
+      expect(Array.from(sections.entries())).toEqual([
+        ['1', '9001'],
+        ['2', '9002'],
+      ]);
+    });
+  });
 });
 
 // ============================================================================
@@ -17,6 +17,7 @@ import {
   getNestedValue,
   parseDateString,
 } from '../../../utils/parsing.js';
+import type { ServerAccountAccess } from '@tracearr/shared';
 import type { MediaSession, MediaUser, MediaLibrary, MediaWatchHistoryItem } from '../types.js';
 
 // ============================================================================
@@ -324,6 +325,24 @@ export function parseUsersResponse(users: unknown[]): MediaUser[] {
   return users.map((user) => parseUser(user as Record<string, unknown>));
 }
 
+/**
+ * Parse a Emby user's policy into their account access.
+ * Every Emby user has access to the server, so isShared is always true;
+ * libraryIds is null when the policy grants all folders.
+ */
+export function parseUserAccess(user: Record<string, unknown>): ServerAccountAccess {
+  const policy = getNestedObject(user, 'Policy');
+  const enabledFolders = Array.isArray(policy?.EnabledFolders)
+    ? (policy.EnabledFolders as unknown[]).map((id) => parseString(id))
+    : [];
+
+  return {
+    isDisabled: parseBoolean(policy?.IsDisabled),
+    isShared: true,
+    libraryIds: parseBoolean(policy?.EnableAllFolders, true) ? null : enabledFolders,
+  };
+}
+
 // ============================================================================
 // Library Parsing
 // ============================================================================
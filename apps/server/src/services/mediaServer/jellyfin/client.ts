@@ -5,7 +5,8 @@
  * Provides a unified interface for session tracking, user management, and library access.
  */
 
-import { fetchJson, jellyfinHeaders } from '../../../utils/http.js';
+import type { ServerAccountAccess } from '@tracearr/shared';
+import { fetchJson, fetchRaw, jellyfinHeaders } from '../../../utils/http.js';
 import type {
   IMediaServerClient,
   IMediaServerClientWithHistory,
@@ -23,6 +24,7 @@ import {
   parseActivityLogResponse,
   parseAuthResponse,
   parseUser,
+  parseUserAccess,
   type JellyfinActivityEntry,
   type JellyfinAuthResult,
 } from './parser.js';
@@ -196,6 +198,68 @@ export class JellyfinClient implements IMediaServerClient, IMediaServerClientWit
     return true;
   }
 
+  // ==========================================================================
+  // Account Management
+  // ==========================================================================
+
+  /**
+   * Get a user's current access from their policy
+   */
+  async getUserAccess(userId: string): Promise<ServerAccountAccess> {
+    const user = await fetchJson<Record<string, unknown>>(`${this.baseUrl}/Users/${userId}`, {
+      headers: this.buildHeaders(),
+      service: 'jellyfin',
+    });
+
+    return parseUserAccess(user);
+  }
+
+  /**
+   * Disable or re-enable a user via their policy's IsDisabled flag
+   */
+  async setUserDisabled(userId: string, disabled: boolean): Promise<void> {
+    await this.updateUserPolicy(userId, { IsDisabled: disabled });
+  }
+
+  /**
+   * Jellyfin has no shares - access is managed through the user's policy
+   */
+  async removeShare(_userId: string): Promise<void> {
+    throw new Error('Removing shares is only supported on Plex');
+  }
+
+  /**
+   * Restrict a user to specific libraries, or grant all libraries when null
+   */
+  async setUserLibraries(userId: string, libraryIds: string[] | null): Promise<void> {
+    await this.updateUserPolicy(userId, {
+      EnableAllFolders: libraryIds === null,
+      EnabledFolders: libraryIds ?? [],
+    });
+  }
+
+  /**
+   * Apply changes to a user's policy.
+   * The policy endpoint replaces the whole policy, so the current one is read first.
+   */
+  private async updateUserPolicy(
+    userId: string,
+    changes: Record<string, unknown>
+  ): Promise<void> {
+    const user = await fetchJson<Record<string, unknown>>(`${this.baseUrl}/Users/${userId}`, {
+      headers: this.buildHeaders(),
+      service: 'jellyfin',
+    });
+    const policy = (user.Policy ?? {}) as Record<string, unknown>;
+
+    await fetchRaw(`${this.baseUrl}/Users/${userId}/Policy`, {
+      method: 'POST',
+      headers: { ...this.buildHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...policy, ...changes }),
+      service: 'jellyfin',
+    });
+  }
+
   // ==========================================================================
   // Jellyfin-Specific Methods
   // ==========================================================================
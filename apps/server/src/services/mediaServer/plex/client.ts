@@ -5,7 +5,8 @@
  * Provides a unified interface for session tracking, user management, and library access.
  */
 
-import { fetchJson, fetchText, plexHeaders } from '../../../utils/http.js';
+import type { ServerAccountAccess } from '@tracearr/shared';
+import { fetchJson, fetchRaw, fetchText, plexHeaders } from '../../../utils/http.js';
 import type {
   IMediaServerClient,
   IMediaServerClientWithHistory,
@@ -24,8 +25,12 @@ import {
   parsePlexTvUser,
   parseXmlUsersResponse,
   parseSharedServersXml,
+  parsePlexShareXml,
+  parsePlexTvSectionsXml,
   parseStatisticsResourcesResponse,
   type PlexServerResource,
+  type PlexShare,
+  type PlexSharedServerInfo,
   type PlexStatisticsDataPoint,
 } from './parser.js';
 
@@ -43,6 +48,7 @@ export class PlexClient implements IMediaServerClient, IMediaServerClientWithHis
 
   private readonly baseUrl: string;
   private readonly token: string;
+  private machineIdentifier: string | null = null;
 
   constructor(config: MediaServerConfig) {
     this.baseUrl = config.url.replace(/\/$/, '');
@@ -181,6 +187,126 @@ export class PlexClient implements IMediaServerClient, IMediaServerClientWithHis
     return true;
   }
 
+  // ==========================================================================
+  // Account Management (plex.tv Sharing)
+  // ==========================================================================
+
+  /**
+   * Get a user's current share of this server.
+   * Plex accounts can't be disabled by the server owner, so isDisabled is always false.
+   */
+  async getUserAccess(userId: string): Promise<ServerAccountAccess> {
+    const share = await this.getShare(userId);
+
+    return {
+      isDisabled: false,
+      isShared: share !== null,
+      libraryIds: share ? (share.allLibraries ? null : share.libraryKeys) : [],
+    };
+  }
+
+  /**
+   * Plex accounts belong to plex.tv and can't be disabled - remove the share instead
+   */
+  async setUserDisabled(_userId: string, _disabled: boolean): Promise<void> {
+    throw new Error('Disabling accounts is not supported on Plex');
+  }
+
+  /**
+   * Remove the user's share of this server
+   */
+  async removeShare(userId: string): Promise<void> {
+    const share = await this.getShare(userId);
+    if (!share) return;
+
+    const machineIdentifier = await this.getMachineIdentifier();
+    await fetchRaw(`${PLEX_TV_BASE}/api/servers/${machineIdentifier}/shared_servers/${share.id}`, {
+      method: 'DELETE',
+      headers: plexHeaders(this.token),
+      service: 'plex.tv',
+    });
+  }
+
+  /**
+   * Share only the given libraries with the user, or all libraries when null.
+   * Re-invites the user if their share had been removed.
+   *
+   * @param libraryIds - Library section keys as returned by getLibraries()
+   */
+  async setUserLibraries(userId: string, libraryIds: string[] | null): Promise<void> {
+    const machineIdentifier = await this.getMachineIdentifier();
+    const [share, sections] = await Promise.all([
+      this.getShare(userId),
+      this.getPlexTvSections(machineIdentifier),
+    ]);
+
+    const keys = libraryIds ?? Array.from(sections.keys());
+    const sectionIds = keys.map((key) => {
+      const sectionId = sections.get(key);
+      if (!sectionId) {
+        throw new Error(`Library ${key} is not available for sharing on plex.tv`);
+      }
+      return Number(sectionId);
+    });
+
+    const url = `${PLEX_TV_BASE}/api/servers/${machineIdentifier}/shared_servers`;
+    await fetchRaw(share ? `${url}/${share.id}` : url, {
+      method: share ? 'PUT' : 'POST',
+      headers: { ...plexHeaders(this.token), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        server_id: machineIdentifier,
+        shared_server: share
+          ? { library_section_ids: sectionIds }
+          : { library_section_ids: sectionIds, invited_id: Number(userId) },
+      }),
+      service: 'plex.tv',
+    });
+  }
+
+  /**
+   * Get this server's machine identifier (needed for plex.tv sharing endpoints)
+   */
+  private async getMachineIdentifier(): Promise<string> {
+    if (this.machineIdentifier) return this.machineIdentifier;
+
+    const data = await fetchJson<{ MediaContainer?: { machineIdentifier?: string } }>(
+      `${this.baseUrl}/identity`,
+      { headers: this.buildHeaders(), service: 'plex', timeout: 10000 }
+    );
+    const machineIdentifier = data.MediaContainer?.machineIdentifier;
+    if (!machineIdentifier) {
+      throw new Error('Plex server did not return a machine identifier');
+    }
+
+    this.machineIdentifier = machineIdentifier;
+    return machineIdentifier;
+  }
+
+  /**
+   * Get a user's share of this server, or null if it isn't shared with them
+   */
+  private async getShare(userId: string): Promise<PlexShare | null> {
+    const machineIdentifier = await this.getMachineIdentifier();
+    const xml = await fetchText(`${PLEX_TV_BASE}/api/servers/${machineIdentifier}/shared_servers`, {
+      headers: { ...plexHeaders(this.token), Accept: 'application/xml' },
+      service: 'plex.tv',
+    });
+
+    return parsePlexShareXml(xml, userId);
+  }
+
+  /**
+   * Map local library section keys to plex.tv section IDs
+   */
+  private async getPlexTvSections(machineIdentifier: string): Promise<Map<string, string>> {
+    const xml = await fetchText(`${PLEX_TV_BASE}/api/servers/${machineIdentifier}`, {
+      headers: { ...plexHeaders(this.token), Accept: 'application/xml' },
+      service: 'plex.tv',
+    });
+
+    return parsePlexTvSectionsXml(xml);
+  }
+
   // ==========================================================================
   // Server Resource Statistics (Undocumented Endpoint)
   // ==========================================================================
@@ -406,7 +532,7 @@ export class PlexClient implements IMediaServerClient, IMediaServerClientWithHis
   static async getSharedServerUsers(
     token: string,
     machineIdentifier: string
-  ): Promise<Map<string, { serverToken: string; sharedLibraries: string[] }>> {
+  ): Promise<Map<string, PlexSharedServerInfo>> {
     const headers = {
       ...plexHeaders(token),
       Accept: 'application/xml',
@@ -446,6 +572,7 @@ export class PlexClient implements IMediaServerClient, IMediaServerClientWithHis
       .map((friend) => ({
         ...friend,
         sharedLibraries: sharedServerMap.get(friend.id)?.sharedLibraries ?? [],
+        joinedAt: sharedServerMap.get(friend.id)?.acceptedAt,
       }));
 
     // Owner always has access to all libraries
@@ -485,13 +485,19 @@ export function parseXmlUsersResponse(xml: string): MediaUser[] {
   return userMatches.map((match) => parseXmlUser(match[0]));
 }
 
+/** A user's access to a server, keyed by plex.tv user ID in parseSharedServersXml */
+export interface PlexSharedServerInfo {
+  serverToken: string;
+  sharedLibraries: string[];
+  /** When the user accepted the share (unset while the invite is pending) */
+  acceptedAt?: Date;
+}
+
 /**
  * Parse shared server info from XML (plex.tv /api/servers/{id}/shared_servers)
  */
-export function parseSharedServersXml(
-  xml: string
-): Map<string, { serverToken: string; sharedLibraries: string[] }> {
-  const userMap = new Map<string, { serverToken: string; sharedLibraries: string[] }>();
+export function parseSharedServersXml(xml: string): Map<string, PlexSharedServerInfo> {
+  const userMap = new Map<string, PlexSharedServerInfo>();
   const serverMatches = Array.from(xml.matchAll(/<SharedServer[^>]*>[\s\S]*?<\/SharedServer>/g));
 
   for (const match of serverMatches) {
@@ -505,14 +511,78 @@ export function parseSharedServersXml(
       .map((sectionMatch) => extractXmlAttribute(sectionMatch[0], 'key'))
       .filter((key): key is string => key !== '');
 
+    // Unix seconds, 0 while the invite is pending
+    const acceptedAt = parseInt(extractXmlAttribute(serverXml, 'acceptedAt'), 10);
+
     if (userId) {
-      userMap.set(userId, { serverToken, sharedLibraries });
+      userMap.set(userId, {
+        serverToken,
+        sharedLibraries,
+        acceptedAt: acceptedAt > 0 ? new Date(acceptedAt * 1000) : undefined,
+      });
     }
   }
 
   return userMap;
 }
 
+/** A user's share of a server on plex.tv */
+export interface PlexShare {
+  /** plex.tv shared server ID (used to update or remove the share) */
+  id: string;
+  /** plex.tv user ID of the invited user */
+  userId: string;
+  /** Whether the share grants every library, including ones added later */
+  allLibraries: boolean;
+  /** Library section keys shared with the user */
+  libraryKeys: string[];
+}
+
+/**
+ * Parse the share for a single user from XML (plex.tv /api/servers/{id}/shared_servers)
+ */
+export function parsePlexShareXml(xml: string, userId: string): PlexShare | null {
+  const serverMatches = Array.from(xml.matchAll(/<SharedServer[^>]*>[\s\S]*?<\/SharedServer>/g));
+
+  for (const match of serverMatches) {
+    const serverXml = match[0];
+    if (extractXmlAttribute(serverXml, 'userID') !== userId) continue;
+
+    const openingTag = serverXml.slice(0, serverXml.indexOf('>') + 1);
+    const sectionMatches = Array.from(serverXml.matchAll(/<Section[^>]*shared="1"[^>]*>/g));
+
+    return {
+      id: extractXmlId(openingTag),
+      userId,
+      allLibraries: extractXmlAttribute(openingTag, 'allLibraries') === '1',
+      libraryKeys: sectionMatches
+        .map((sectionMatch) => extractXmlAttribute(sectionMatch[0], 'key'))
+        .filter((key): key is string => key !== ''),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse library sections from XML (plex.tv /api/servers/{id})
+ * Maps each local section key to the plex.tv section ID used when sharing
+ */
+export function parsePlexTvSectionsXml(xml: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  const sectionMatches = Array.from(xml.matchAll(/<Section[^>]*>/g));
+
+  for (const match of sectionMatches) {
+    const id = extractXmlId(match[0]);
+    const key = extractXmlAttribute(match[0], 'key');
+    if (id && key) {
+      sections.set(key, id);
+    }
+  }
+
+  return sections;
+}
+
 // ============================================================================
 // Server Resource Statistics Parsing
 // ============================================================================
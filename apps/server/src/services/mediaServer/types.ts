@@ -5,7 +5,7 @@
  * Enables code reuse across different media server implementations.
  */
 
-import type { ServerType } from '@tracearr/shared';
+import type { ServerAccountAccess, ServerType } from '@tracearr/shared';
 
 // ============================================================================
 // Session Types
@@ -142,6 +142,8 @@ export interface MediaUser {
   lastLoginAt?: Date;
   /** Last activity timestamp */
   lastActivityAt?: Date;
+  /** Plex-specific: when the user accepted the server share */
+  joinedAt?: Date;
 }
 
 // ============================================================================
@@ -257,6 +259,35 @@ export interface IMediaServerClient {
    * @throws Error if termination fails
    */
   terminateSession(sessionId: string, reason?: string): Promise<boolean>;
+
+  /**
+   * Get a user's current account access (disabled state, share and libraries)
+   *
+   * @param userId - The user's ID on the media server (serverUsers.externalId)
+   */
+  getUserAccess(userId: string): Promise<ServerAccountAccess>;
+
+  /**
+   * Disable or re-enable a user account (Jellyfin/Emby policy IsDisabled)
+   *
+   * @throws Error if the server does not support disabling accounts (Plex)
+   */
+  setUserDisabled(userId: string, disabled: boolean): Promise<void>;
+
+  /**
+   * Remove the user's library share entirely (plex.tv sharing)
+   *
+   * @throws Error if the server does not support shares (Jellyfin/Emby)
+   */
+  removeShare(userId: string): Promise<void>;
+
+  /**
+   * Restrict the user to the given libraries, or grant all libraries when null.
+   * On Plex this re-shares the server if the share had been removed.
+   *
+   * @param libraryIds - Library IDs as returned by getLibraries()
+   */
+  setUserLibraries(userId: string, libraryIds: string[] | null): Promise<void>;
 }
 
 /**
@@ -0,0 +1,91 @@
+/**
+ * Notification Destinations Service
+ *
+ * Resolves which Discord and webhook destinations an event is sent to. A destination
+ * receives an event when one of its routes is for that event type and:
+ * - the route has no server, or the event happened on the route's server
+ * - the route has no minimum severity, or the violation is at least that severe
+ */
+
+import { and, eq } from 'drizzle-orm';
+import {
+  getSeverityPriority,
+  type NotificationDestinationRoute,
+  type NotificationEventType,
+  type ViolationSeverity,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { notificationDestinations, notificationRoutes } from '../db/schema.js';
+import type { NotificationTarget } from './notify.js';
+
+export interface NotificationEventScope {
+  /** Server the event happened on */
+  serverId: string | null;
+
+  /** Violation severity (null for other events) */
+  severity: ViolationSeverity | null;
+}
+
+/** A destination an event is routed to, with its ID so a failed send can be retried alone */
+export type RoutedNotificationTarget = NotificationTarget & { destinationId: string };
+
+/**
+ * Whether a route sends an event that happened within this scope
+ */
+export function routeMatchesScope(
+  route: Pick<NotificationDestinationRoute, 'serverId' | 'minSeverity'>,
+  scope: NotificationEventScope
+): boolean {
+  if (route.serverId && route.serverId !== scope.serverId) {
+    return false;
+  }
+  if (
+    route.minSeverity &&
+    scope.severity &&
+    getSeverityPriority(scope.severity) < getSeverityPriority(route.minSeverity)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Enabled destinations an event should be sent to, once each
+ */
+export async function getNotificationTargets(
+  eventType: NotificationEventType,
+  scope: NotificationEventScope
+): Promise<RoutedNotificationTarget[]> {
+  const rows = await db
+    .select({
+      destinationId: notificationDestinations.id,
+      type: notificationDestinations.type,
+      webhookUrl: notificationDestinations.webhookUrl,
+      webhookFormat: notificationDestinations.webhookFormat,
+      ntfyTopic: notificationDestinations.ntfyTopic,
+      chatId: notificationDestinations.chatId,
+      authToken: notificationDestinations.authToken,
+      serverId: notificationRoutes.serverId,
+      minSeverity: notificationRoutes.minSeverity,
+    })
+    .from(notificationRoutes)
+    .innerJoin(
+      notificationDestinations,
+      eq(notificationRoutes.destinationId, notificationDestinations.id)
+    )
+    .where(
+      and(
+        eq(notificationRoutes.eventType, eventType),
+        eq(notificationDestinations.enabled, true)
+      )
+    );
+
+  const targets = new Map<string, RoutedNotificationTarget>();
+  for (const { serverId, minSeverity, ...target } of rows) {
+    if (!targets.has(target.destinationId) && routeMatchesScope({ serverId, minSeverity }, scope)) {
+      targets.set(target.destinationId, target);
+    }
+  }
+
+  return [...targets.values()];
+}
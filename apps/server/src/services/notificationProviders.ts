@@ -0,0 +1,280 @@
+/**
+ * Native notification providers: Slack, Telegram, Matrix and Gotify
+ *
+ * Each provider gets the notification's title, body and level and formats them its own way:
+ * Slack blocks, Telegram MarkdownV2 (with the poster as a photo when there is one),
+ * Matrix HTML and Gotify priorities.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { ActiveSession, NotificationDestination, WebhookFormat } from '@tracearr/shared';
+import { WEBHOOK_FORMAT_DISPLAY_NAMES } from '@tracearr/shared';
+import { getNetworkSettings } from '../routes/settings.js';
+import { escapeHtml } from './email.js';
+
+export type ProviderFormat = 'slack' | 'telegram' | 'matrix' | 'gotify';
+
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'failure';
+
+/**
+ * Provider settings of a destination:
+ * - slack: webhookUrl is the incoming webhook
+ * - telegram: webhookUrl is the Bot API server, authToken the bot token, chatId the chat
+ * - matrix: webhookUrl is the homeserver, authToken the access token, chatId the room
+ * - gotify: webhookUrl is the server, authToken the app token
+ */
+export type ProviderTarget = Pick<NotificationDestination, 'webhookUrl' | 'chatId' | 'authToken'>;
+
+export interface ProviderMessage {
+  title: string;
+  body: string;
+  level: NotificationLevel;
+  posterUrl?: string | null; // Shown by Slack and Telegram
+}
+
+export interface ProviderRequest {
+  url: string;
+  method: 'POST' | 'PUT';
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const PROVIDER_FORMATS: readonly WebhookFormat[] = ['slack', 'telegram', 'matrix', 'gotify'];
+
+const SLACK_LEVEL_EMOJI: Record<NotificationLevel, string> = {
+  info: ':information_source:',
+  success: ':white_check_mark:',
+  warning: ':warning:',
+  failure: ':rotating_light:',
+};
+
+// Gotify priorities: 1-3 low, 4-7 normal, 8-10 high (phones alert on high)
+const GOTIFY_PRIORITIES: Record<NotificationLevel, number> = {
+  info: 4,
+  success: 4,
+  warning: 6,
+  failure: 8,
+};
+
+// Telegram limits captions to 1024 characters and messages to 4096
+const TELEGRAM_CAPTION_LIMIT = 1024;
+const TELEGRAM_TEXT_LIMIT = 4096;
+const TELEGRAM_TITLE_LIMIT = 256;
+
+export function isProviderFormat(format: WebhookFormat): format is ProviderFormat {
+  return PROVIDER_FORMATS.includes(format);
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength - 3) + '...';
+}
+
+/**
+ * Escape Slack mrkdwn control characters
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape Telegram MarkdownV2 special characters
+ */
+export function escapeTelegramMarkdown(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+}
+
+/**
+ * Truncate escaped MarkdownV2 without splitting an escape sequence
+ * The ellipsis character needs no escaping, unlike '...'.
+ */
+function truncateTelegramMarkdown(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  let end = maxLength - 1;
+  let backslashes = 0;
+  while (backslashes < end && text[end - 1 - backslashes] === '\\') {
+    backslashes++;
+  }
+  // An odd run of backslashes ends with one that escapes the character after the cut
+  if (backslashes % 2 === 1) {
+    end--;
+  }
+  return text.substring(0, end) + '\u2026';
+}
+
+/**
+ * Poster of the session's media through the image proxy, for providers that show images
+ * Returns null without an external URL (providers fetch the image themselves) or artwork.
+ */
+export async function getPosterUrl(session: ActiveSession | undefined): Promise<string | null> {
+  if (!session?.thumbPath || !session.serverId) {
+    return null;
+  }
+
+  try {
+    const { externalUrl } = await getNetworkSettings();
+    if (!externalUrl) {
+      return null;
+    }
+
+    const params = new URLSearchParams({
+      server: session.serverId,
+      url: session.thumbPath,
+      width: '300',
+      height: '450',
+      fallback: 'poster',
+    });
+    return `${trimTrailingSlash(externalUrl)}/api/v1/images/proxy?${params.toString()}`;
+  } catch {
+    // Send the notification without the poster rather than not at all
+    return null;
+  }
+}
+
+function buildSlackRequest(target: ProviderTarget, message: ProviderMessage): ProviderRequest {
+  const section: Record<string, unknown> = {
+    type: 'section',
+    text: { type: 'mrkdwn', text: truncate(escapeSlack(message.body), 3000) },
+  };
+  if (message.posterUrl) {
+    section.accessory = { type: 'image', image_url: message.posterUrl, alt_text: 'Poster' };
+  }
+
+  return {
+    url: target.webhookUrl,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      // Shown in the push notification and by clients without blocks
+      text: `${message.title}: ${message.body}`,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: truncate(message.title, 150) } },
+        section,
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `${SLACK_LEVEL_EMOJI[message.level]} Tracearr` }],
+        },
+      ],
+    },
+  };
+}
+
+function buildTelegramRequest(target: ProviderTarget, message: ProviderMessage): ProviderRequest {
+  const baseUrl = `${trimTrailingSlash(target.webhookUrl)}/bot${target.authToken ?? ''}`;
+  const escapedTitle = escapeTelegramMarkdown(message.title);
+  const title = `*${truncateTelegramMarkdown(escapedTitle, TELEGRAM_TITLE_LIMIT)}*`;
+  const body = escapeTelegramMarkdown(message.body);
+  // The bold title and the blank line after it count towards the limit
+  const withTitle = (limit: number) =>
+    `${title}\n\n${truncateTelegramMarkdown(body, limit - title.length - 2)}`;
+
+  if (message.posterUrl) {
+    return {
+      url: `${baseUrl}/sendPhoto`,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: {
+        chat_id: target.chatId,
+        photo: message.posterUrl,
+        caption: withTitle(TELEGRAM_CAPTION_LIMIT),
+        parse_mode: 'MarkdownV2',
+      },
+    };
+  }
+
+  return {
+    url: `${baseUrl}/sendMessage`,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      chat_id: target.chatId,
+      text: withTitle(TELEGRAM_TEXT_LIMIT),
+      parse_mode: 'MarkdownV2',
+      disable_web_page_preview: true,
+    },
+  };
+}
+
+function buildMatrixRequest(target: ProviderTarget, message: ProviderMessage): ProviderRequest {
+  const roomId = encodeURIComponent(target.chatId ?? '');
+  const roomUrl = `${trimTrailingSlash(target.webhookUrl)}/_matrix/client/v3/rooms/${roomId}`;
+  const html = escapeHtml(message.body).replace(/\n/g, '<br>');
+
+  return {
+    // Matrix requires a transaction ID that is unique per message sent with the token
+    url: `${roomUrl}/send/m.room.message/${randomUUID()}`,
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${target.authToken ?? ''}`,
+    },
+    body: {
+      msgtype: 'm.text',
+      body: `${message.title}\n${message.body}`,
+      format: 'org.matrix.custom.html',
+      formatted_body: `<strong>${escapeHtml(message.title)}</strong><br>${html}`,
+    },
+  };
+}
+
+function buildGotifyRequest(target: ProviderTarget, message: ProviderMessage): ProviderRequest {
+  return {
+    url: `${trimTrailingSlash(target.webhookUrl)}/message`,
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Gotify-Key': target.authToken ?? '',
+    },
+    body: {
+      title: message.title,
+      message: message.body,
+      priority: GOTIFY_PRIORITIES[message.level],
+    },
+  };
+}
+
+/**
+ * Build the HTTP request that sends a message through a provider's API
+ */
+export function buildProviderRequest(
+  format: ProviderFormat,
+  target: ProviderTarget,
+  message: ProviderMessage
+): ProviderRequest {
+  switch (format) {
+    case 'slack':
+      return buildSlackRequest(target, message);
+    case 'telegram':
+      return buildTelegramRequest(target, message);
+    case 'matrix':
+      return buildMatrixRequest(target, message);
+    case 'gotify':
+      return buildGotifyRequest(target, message);
+  }
+}
+
+/**
+ * Send a message through a provider, throwing with the provider's response on failure
+ */
+export async function sendProviderMessage(
+  format: ProviderFormat,
+  target: ProviderTarget,
+  message: ProviderMessage
+): Promise<void> {
+  const request = buildProviderRequest(format, target, message);
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`${WEBHOOK_FORMAT_DISPLAY_NAMES[format]} returned ${response.status}: ${text}`);
+  }
+}
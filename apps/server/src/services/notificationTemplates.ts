@@ -0,0 +1,362 @@
+/**
+ * Notification Templates Service
+ *
+ * Renders the custom title and body saved for an event. Templates are plain text with
+ * {{path}} placeholders, e.g. "{{user.displayName}} started {{media.title}}". A placeholder
+ * is only ever replaced by a value looked up in the event's variables, so a template
+ * can't run code or read anything else. Unknown or empty values render as nothing.
+ */
+
+import { eq } from 'drizzle-orm';
+import type {
+  ActiveSession,
+  AlertUser,
+  ConcurrentStreamsAlert,
+  NewDeviceAlert,
+  NotificationEventType,
+  TrustScoreAlert,
+  ViolationWithDetails,
+} from '@tracearr/shared';
+import {
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  RULE_DISPLAY_NAMES,
+  SERVER_USER_SOURCE_DISPLAY_NAMES,
+  SEVERITY_LEVELS,
+  TRUST_LEVEL_DISPLAY_NAMES,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { notificationTemplates } from '../db/schema.js';
+import {
+  formatDuration,
+  getMediaDisplay,
+  getPlaybackType,
+  type NewServerUserNotification,
+  type NotificationMessage,
+  type SuspensionNotification,
+} from './notify.js';
+
+export type TemplateValue = string | number | null;
+
+export interface TemplateVariables {
+  [key: string]: TemplateValue | TemplateVariables;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Placeholder paths used in a template, in order of appearance
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]!);
+}
+
+/**
+ * Placeholders in the given texts that the event doesn't provide
+ */
+export function findUnknownPlaceholders(
+  eventType: NotificationEventType,
+  texts: string[]
+): string[] {
+  const allowed = NOTIFICATION_TEMPLATE_VARIABLES[eventType];
+  const unknown = texts
+    .flatMap(getTemplatePlaceholders)
+    .filter((path) => !allowed.includes(path));
+  return [...new Set(unknown)];
+}
+
+function lookup(variables: TemplateVariables, path: string): TemplateValue {
+  let value: TemplateValue | TemplateVariables = variables;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.hasOwn(value, key)) {
+      return null;
+    }
+    value = value[key]!;
+  }
+  return typeof value === 'object' ? null : value;
+}
+
+/**
+ * Replace each {{path}} with its value
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+    const value = lookup(variables, path);
+    return value === null ? '' : String(value);
+  });
+}
+
+export function getViolationTemplateVariables(violation: ViolationWithDetails): TemplateVariables {
+  const ruleType = violation.rule.type as keyof typeof RULE_DISPLAY_NAMES;
+  return {
+    user: {
+      username: violation.user.username,
+      displayName: violation.user.identityName ?? violation.user.username,
+    },
+    server: { name: violation.server?.name ?? null },
+    violation: {
+      rule: RULE_DISPLAY_NAMES[ruleType],
+      ruleName: violation.rule.name,
+      severity: SEVERITY_LEVELS[violation.severity].label,
+    },
+  };
+}
+
+export function getSessionTemplateVariables(session: ActiveSession): TemplateVariables {
+  const { title, subtitle } = getMediaDisplay(session);
+  return {
+    user: {
+      username: session.user.username,
+      displayName: session.user.identityName ?? session.user.username,
+    },
+    server: { name: session.server.name },
+    media: { title, subtitle, type: session.mediaType, year: session.year },
+    playback: {
+      type: getPlaybackType(session),
+      quality: session.quality,
+      player: session.product || session.playerName,
+    },
+    location: { city: session.geoCity, country: session.geoCountry },
+    duration: session.durationMs ? formatDuration(session.durationMs) : null,
+  };
+}
+
+export function getServerTemplateVariables(serverName: string): TemplateVariables {
+  return { server: { name: serverName } };
+}
+
+export function getSuspensionTemplateVariables(
+  suspension: SuspensionNotification
+): TemplateVariables {
+  return {
+    user: { username: suspension.username },
+    server: { name: suspension.serverName },
+    suspension: {
+      reason: suspension.reason,
+      // e.g. "2025-01-15 18:00 UTC"
+      endsAt: `${suspension.endsAt.slice(0, 16).replace('T', ' ')} UTC`,
+      endReason: suspension.endReason,
+    },
+  };
+}
+
+export function getNewServerUserTemplateVariables(
+  newUser: NewServerUserNotification
+): TemplateVariables {
+  return {
+    user: {
+      username: newUser.username,
+      source: SERVER_USER_SOURCE_DISPLAY_NAMES[newUser.source],
+      probationUntil: newUser.probationUntil?.slice(0, 10) ?? null,
+    },
+    server: { name: newUser.serverName },
+  };
+}
+
+function getAlertUserVariables(alert: AlertUser): TemplateVariables {
+  return {
+    user: { username: alert.username, displayName: alert.identityName ?? alert.username },
+    server: { name: alert.serverName },
+  };
+}
+
+export function getNewDeviceTemplateVariables(alert: NewDeviceAlert): TemplateVariables {
+  return {
+    ...getAlertUserVariables(alert),
+    device: { name: alert.product || alert.playerName, platform: alert.platform },
+    location: { city: alert.geoCity, country: alert.geoCountry },
+  };
+}
+
+export function getConcurrentStreamsTemplateVariables(
+  alert: ConcurrentStreamsAlert
+): TemplateVariables {
+  return { ...getAlertUserVariables(alert), streams: { count: alert.streamCount } };
+}
+
+export function getTrustScoreTemplateVariables(alert: TrustScoreAlert): TemplateVariables {
+  return {
+    ...getAlertUserVariables(alert),
+    trustScore: {
+      previous: alert.previousScore,
+      current: alert.score,
+      previousLevel: TRUST_LEVEL_DISPLAY_NAMES[alert.previousLevel],
+      level: TRUST_LEVEL_DISPLAY_NAMES[alert.level],
+    },
+  };
+}
+
+/**
+ * The event's custom message, or null to use the built-in text
+ */
+export async function getNotificationMessage(
+  eventType: NotificationEventType,
+  variables: TemplateVariables
+): Promise<NotificationMessage | null> {
+  const rows = await db
+    .select({ title: notificationTemplates.title, body: notificationTemplates.body })
+    .from(notificationTemplates)
+    .where(eq(notificationTemplates.eventType, eventType))
+    .limit(1);
+
+  const template = rows[0];
+  if (!template) return null;
+
+  return {
+    title: renderTemplate(template.title, variables),
+    body: renderTemplate(template.body, variables),
+  };
+}
+
+// Sample events that template previews are rendered against
+const SAMPLE_SERVER = { id: 'sample-server', name: 'Home Plex', type: 'plex' as const };
+
+const SAMPLE_SESSION: ActiveSession = {
+  id: 'sample-session',
+  serverId: SAMPLE_SERVER.id,
+  serverUserId: 'sample-user',
+  sessionKey: 'sample',
+  state: 'playing',
+  mediaType: 'episode',
+  mediaTitle: 'Ozymandias',
+  grandparentTitle: 'Breaking Bad',
+  seasonNumber: 5,
+  episodeNumber: 14,
+  year: 2013,
+  thumbPath: null,
+  ratingKey: null,
+  externalSessionId: null,
+  startedAt: new Date('2025-01-15T20:00:00Z'),
+  stoppedAt: null,
+  durationMs: 47 * 60 * 1000,
+  totalDurationMs: 48 * 60 * 1000,
+  progressMs: 47 * 60 * 1000,
+  lastPausedAt: null,
+  pausedDurationMs: 0,
+  referenceId: null,
+  watched: true,
+  ipAddress: '203.0.113.10',
+  geoCity: 'Denver',
+  geoRegion: 'Colorado',
+  geoCountry: 'US',
+  geoLat: null,
+  geoLon: null,
+  asn: null,
+  asnOrg: null,
+  playerName: 'Living Room',
+  deviceId: null,
+  product: 'Plex for Apple TV',
+  device: 'Apple TV',
+  platform: 'tvOS',
+  quality: '1080p',
+  isTranscode: false,
+  videoDecision: 'directplay',
+  audioDecision: 'directplay',
+  bitrate: 8000,
+  user: { id: 'sample-user', username: 'jsmith', thumbUrl: null, identityName: 'Jane Smith' },
+  server: SAMPLE_SERVER,
+};
+
+const SAMPLE_VIOLATION: ViolationWithDetails = {
+  id: 'sample-violation',
+  ruleId: 'sample-rule',
+  serverUserId: 'sample-user',
+  sessionId: SAMPLE_SESSION.id,
+  severity: 'high',
+  data: {},
+  createdAt: new Date('2025-01-15T20:05:00Z'),
+  acknowledgedAt: null,
+  status: 'open',
+  assigneeId: null,
+  dismissalReason: null,
+  trustRestoredAt: null,
+  rule: { id: 'sample-rule', name: 'Two streams max', type: 'concurrent_streams' },
+  user: {
+    id: 'sample-user',
+    username: 'jsmith',
+    thumbUrl: null,
+    serverId: SAMPLE_SERVER.id,
+    identityName: 'Jane Smith',
+  },
+  server: SAMPLE_SERVER,
+};
+
+const SAMPLE_SUSPENSION: SuspensionNotification = {
+  serverUserId: 'sample-user',
+  username: 'jsmith',
+  serverId: SAMPLE_SERVER.id,
+  serverName: SAMPLE_SERVER.name,
+  reason: 'Account sharing',
+  endsAt: '2025-01-22T18:00:00.000Z',
+  endReason: 'expired',
+};
+
+const SAMPLE_NEW_SERVER_USER: NewServerUserNotification = {
+  serverUserId: 'sample-user',
+  userId: 'sample-identity',
+  username: 'jsmith',
+  serverId: SAMPLE_SERVER.id,
+  serverName: SAMPLE_SERVER.name,
+  source: 'plex_share',
+  joinedAt: '2025-01-15T20:00:00.000Z',
+  probationUntil: '2025-02-14T20:00:00.000Z',
+};
+
+const SAMPLE_ALERT_USER: AlertUser = {
+  serverUserId: 'sample-user',
+  username: 'jsmith',
+  identityName: 'Jane Smith',
+  serverId: SAMPLE_SERVER.id,
+  serverName: SAMPLE_SERVER.name,
+};
+
+const SAMPLE_NEW_DEVICE: NewDeviceAlert = {
+  ...SAMPLE_ALERT_USER,
+  sessionId: SAMPLE_SESSION.id,
+  deviceId: 'sample-device',
+  playerName: SAMPLE_SESSION.playerName,
+  product: SAMPLE_SESSION.product,
+  platform: SAMPLE_SESSION.platform,
+  geoCity: SAMPLE_SESSION.geoCity,
+  geoCountry: SAMPLE_SESSION.geoCountry,
+};
+
+const SAMPLE_TRUST_CHANGE: TrustScoreAlert = {
+  ...SAMPLE_ALERT_USER,
+  previousScore: 85,
+  score: 75,
+  previousLevel: 'trusted',
+  level: 'caution',
+  violationId: SAMPLE_VIOLATION.id,
+};
+
+/**
+ * Variables for the event from sample data, for previews
+ */
+export function getSampleTemplateVariables(eventType: NotificationEventType): TemplateVariables {
+  switch (eventType) {
+    case 'violation_detected':
+      return getViolationTemplateVariables(SAMPLE_VIOLATION);
+    case 'stream_started':
+    case 'stream_stopped':
+      return getSessionTemplateVariables(SAMPLE_SESSION);
+    case 'server_down':
+    case 'server_up':
+      return getServerTemplateVariables(SAMPLE_SERVER.name);
+    case 'user_suspended':
+      return getSuspensionTemplateVariables(SAMPLE_SUSPENSION);
+    case 'user_reinstated':
+      return getSuspensionTemplateVariables({ ...SAMPLE_SUSPENSION, endReason: 'lifted' });
+    case 'new_server_user':
+      return getNewServerUserTemplateVariables(SAMPLE_NEW_SERVER_USER);
+    case 'concurrent_streams':
+      return getConcurrentStreamsTemplateVariables({
+        ...SAMPLE_ALERT_USER,
+        sessionId: SAMPLE_SESSION.id,
+        streamCount: 3,
+      });
+    case 'new_device':
+      return getNewDeviceTemplateVariables(SAMPLE_NEW_DEVICE);
+    case 'trust_score_changed':
+      return getTrustScoreTemplateVariables(SAMPLE_TRUST_CHANGE);
+  }
+}
@@ -2,13 +2,63 @@
  * Notification dispatch service
  */
 
-import type { ViolationWithDetails, ActiveSession, Settings, WebhookFormat } from '@tracearr/shared';
-import { NOTIFICATION_EVENTS, RULE_DISPLAY_NAMES, SEVERITY_LEVELS } from '@tracearr/shared';
+import type {
+  ViolationWithDetails,
+  ActiveSession,
+  ConcurrentStreamsAlert,
+  NewDeviceAlert,
+  NotificationDestination,
+  ServerUserSource,
+  SuspensionEndReason,
+  TrustScoreAlert,
+  WebhookFormat,
+} from '@tracearr/shared';
+import {
+  NOTIFICATION_EVENTS,
+  RULE_DISPLAY_NAMES,
+  SERVER_USER_SOURCE_DISPLAY_NAMES,
+  SEVERITY_LEVELS,
+  TRUST_LEVEL_DISPLAY_NAMES,
+  WEBHOOK_FORMAT_DISPLAY_NAMES,
+} from '@tracearr/shared';
+import { sendNotificationEmail } from './email.js';
+import {
+  getPosterUrl,
+  isProviderFormat,
+  sendProviderMessage,
+  type ProviderFormat,
+} from './notificationProviders.js';
+
+/**
+ * Where a notification is sent: one Discord or webhook destination
+ * (see services/notificationDestinations.ts)
+ */
+export type NotificationTarget = Pick<
+  NotificationDestination,
+  'type' | 'webhookUrl' | 'webhookFormat' | 'ntfyTopic' | 'chatId' | 'authToken'
+>;
+
+/**
+ * Title and body rendered from the event's custom template
+ * (see services/notificationTemplates.ts)
+ */
+export interface NotificationMessage {
+  title: string;
+  body: string;
+}
 
 export interface NotificationPayload {
   event: string;
   timestamp: string;
   data: Record<string, unknown>;
+  message?: NotificationMessage; // Set when the event has a custom template
+}
+
+interface DiscordEmbed {
+  title: string;
+  description?: string;
+  color: number;
+  fields?: unknown[];
 }
 
 interface NtfyPayload {
@@ -25,6 +75,48 @@ interface ApprisePayload {
   type: 'info' | 'success' | 'warning' | 'failure';
 }
 
+/**
+ * A user was suspended or reinstated (see services/suspensions.ts)
+ */
+export interface SuspensionNotification {
+  serverUserId: string;
+  username: string;
+  serverId: string;
+  serverName: string;
+  reason: string | null;
+  endsAt: string; // ISO timestamp
+  endReason: SuspensionEndReason | null; // Set when reinstated
+}
+
+/**
+ * Sync found a new account on a media server (see services/sync.ts)
+ */
+export interface NewServerUserNotification {
+  serverUserId: string;
+  userId: string;
+  username: string;
+  serverId: string;
+  serverName: string;
+  source: ServerUserSource;
+  joinedAt: string; // ISO timestamp
+  probationUntil: string | null; // ISO timestamp
+}
+
+/**
+ * The event a notification describes, used to build ntfy, Apprise and email text
+ */
+export interface NotificationContext {
+  violation?: ViolationWithDetails;
+  session?: ActiveSession;
+  serverName?: string;
+  suspension?: SuspensionNotification;
+  newUser?: NewServerUserNotification;
+  newDevice?: NewDeviceAlert;
+  concurrentStreams?: ConcurrentStreamsAlert;
+  trustChange?: TrustScoreAlert;
+  eventType?: string;
+}
+
 /**
  * Map severity to ntfy priority (1-5 scale)
  */
@@ -56,7 +148,7 @@ function truncateForDiscord(text: string, maxLength = 1000): string {
 /**
  * Format duration in milliseconds to human-readable string
  */
-function formatDuration(ms: number): string {
+export function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
   const hours = Math.floor(minutes / 60);
@@ -75,7 +167,10 @@ function formatDuration(ms: number): string {
 /**
  * Get display title for media (matches UI card logic)
  */
-function getMediaDisplay(session: ActiveSession): { title: string; subtitle: string | null } {
+export function getMediaDisplay(session: ActiveSession): {
+  title: string;
+  subtitle: string | null;
+} {
   if (session.mediaType === 'episode' && session.grandparentTitle) {
     // TV Show episode: show name as title, episode info as subtitle
     const episodeInfo =
@@ -94,10 +189,91 @@ function getMediaDisplay(session: ActiveSession): { title: string; subtitle: str
   };
 }
 
+/**
+ * Title and message for a suspension notification
+ */
+function getSuspensionDisplay(
+  suspension: SuspensionNotification,
+  eventType: string | undefined
+): { title: string; message: string } {
+  const user = `${suspension.username} (${suspension.serverName})`;
+
+  if (eventType === 'user_suspended') {
+    // e.g. "2025-01-15 18:00 UTC"
+    const until = `${suspension.endsAt.slice(0, 16).replace('T', ' ')} UTC`;
+    const reason = suspension.reason ? `: ${suspension.reason}` : '';
+    return { title: 'User Suspended', message: `${user} is suspended until ${until}${reason}` };
+  }
+
+  // user_reinstated
+  const how = suspension.endReason === 'lifted' ? 'suspension was lifted' : 'suspension ended';
+  return { title: 'User Reinstated', message: `${user} was reinstated, their ${how}` };
+}
+
+/**
+ * Title and message for a new server user notification
+ */
+function getNewServerUserDisplay(newUser: NewServerUserNotification): {
+  title: string;
+  message: string;
+} {
+  const via = SERVER_USER_SOURCE_DISPLAY_NAMES[newUser.source];
+  const probation = newUser.probationUntil
+    ? `, on probation until ${newUser.probationUntil.slice(0, 10)}`
+    : '';
+  return {
+    title: 'New User',
+    message: `${newUser.username} joined ${newUser.serverName} (${via})${probation}`,
+  };
+}
+
+/**
+ * Title and message for a new device notification
+ */
+function getNewDeviceDisplay(alert: NewDeviceAlert): { title: string; message: string } {
+  const userName = alert.identityName ?? alert.username;
+  const device = alert.product ?? alert.playerName ?? 'an unknown device';
+  const platform = alert.platform ? ` (${alert.platform})` : '';
+  const location = [alert.geoCity, alert.geoCountry].filter(Boolean).join(', ');
+  const from = location ? ` from ${location}` : '';
+  return {
+    title: 'New Device',
+    message: `${userName} started streaming on ${device}${platform}${from} (${alert.serverName})`,
+  };
+}
+
+/**
+ * Title and message for a concurrent streams notification
+ */
+function getConcurrentStreamsDisplay(alert: ConcurrentStreamsAlert): {
+  title: string;
+  message: string;
+} {
+  const userName = alert.identityName ?? alert.username;
+  return {
+    title: 'Concurrent Streams',
+    message: `${userName} has ${alert.streamCount} active streams on ${alert.serverName}`,
+  };
+}
+
+/**
+ * Title and message for a trust level change notification
+ */
+function getTrustScoreDisplay(alert: TrustScoreAlert): { title: string; message: string } {
+  const userName = alert.identityName ?? alert.username;
+  const from = TRUST_LEVEL_DISPLAY_NAMES[alert.previousLevel];
+  const to = TRUST_LEVEL_DISPLAY_NAMES[alert.level];
+  const scores = `${alert.previousScore} → ${alert.score}`;
+  return {
+    title: 'Trust Level Changed',
+    message: `${userName} went from ${from} to ${to} (trust score ${scores})`,
+  };
+}
+
 /**
  * Get playback type (matches UI badge logic)
  */
-function getPlaybackType(session: ActiveSession): string {
+export function getPlaybackType(session: ActiveSession): string {
   if (session.isTranscode) {
     return 'Transcode';
   }
@@ -107,24 +283,33 @@ function getPlaybackType(session: ActiveSession): string {
   return 'Direct Play';
 }
 
+/**
+ * Replace a built-in Discord embed with the custom template's title and body
+ */
+function withMessage(embed: DiscordEmbed, message: NotificationMessage | null): DiscordEmbed {
+  if (!message) return embed;
+  return { title: message.title, description: message.body, color: embed.color };
+}
+
 export class NotificationService {
   /**
    * Send violation notification
    */
   async notifyViolation(
     violation: ViolationWithDetails,
-    settings: Settings
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
   ): Promise<void> {
     const promises: Promise<void>[] = [];
 
-    if (settings.discordWebhookUrl) {
-      promises.push(this.sendDiscord(settings.discordWebhookUrl, violation));
+    if (target.type === 'discord') {
+      promises.push(this.sendDiscord(target.webhookUrl, violation, message));
     }
 
-    if (settings.customWebhookUrl) {
+    if (target.type === 'webhook') {
       const payload = this.buildViolationPayload(violation);
       promises.push(
-        this.sendFormattedWebhook(settings, payload, { violation })
+        this.sendFormattedWebhook(target, payload, { violation }, message)
       );
     }
 
@@ -134,16 +319,20 @@ export class NotificationService {
   /**
    * Send session started notification
    */
-  async notifySessionStarted(session: ActiveSession, settings: Settings): Promise<void> {
+  async notifySessionStarted(
+    session: ActiveSession,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const promises: Promise<void>[] = [];
 
     // Get display title matching the UI card logic
     const { title: mediaTitle, subtitle } = getMediaDisplay(session);
     const playbackType = getPlaybackType(session);
 
-    if (settings.discordWebhookUrl) {
+    if (target.type === 'discord') {
       promises.push(
-        this.sendDiscordMessage(settings.discordWebhookUrl, {
+        this.sendDiscordMessage(target.webhookUrl, withMessage({
           title: 'Stream Started',
           color: 0x3498db, // Blue
           fields: [
@@ -156,11 +345,11 @@ export class NotificationService {
               : []),
             { name: 'Player', value: session.product || session.playerName || 'Unknown', inline: true },
           ],
-        })
+        }, message))
       );
     }
 
-    if (settings.customWebhookUrl) {
+    if (target.type === 'webhook') {
       const payload: NotificationPayload = {
         event: NOTIFICATION_EVENTS.STREAM_STARTED,
         timestamp: new Date().toISOString(),
@@ -185,7 +374,12 @@ export class NotificationService {
         },
       };
       promises.push(
-        this.sendFormattedWebhook(settings, payload, { session, eventType: 'session_started' })
+        this.sendFormattedWebhook(
+          target,
+          payload,
+          { session, eventType: 'session_started' },
+          message
+        )
       );
     }
 
@@ -195,16 +389,20 @@ export class NotificationService {
   /**
    * Send session stopped notification
    */
-  async notifySessionStopped(session: ActiveSession, settings: Settings): Promise<void> {
+  async notifySessionStopped(
+    session: ActiveSession,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const promises: Promise<void>[] = [];
 
     // Get display title matching the UI card logic
     const { title: mediaTitle, subtitle } = getMediaDisplay(session);
     const durationStr = session.durationMs ? formatDuration(session.durationMs) : 'Unknown';
 
-    if (settings.discordWebhookUrl) {
+    if (target.type === 'discord') {
       promises.push(
-        this.sendDiscordMessage(settings.discordWebhookUrl, {
+        this.sendDiscordMessage(target.webhookUrl, withMessage({
           title: 'Stream Stopped',
           color: 0x95a5a6, // Gray
           fields: [
@@ -213,11 +411,11 @@ export class NotificationService {
             ...(subtitle ? [{ name: 'Episode', value: subtitle, inline: true }] : []),
             { name: 'Duration', value: durationStr, inline: true },
           ],
-        })
+        }, message))
       );
     }
 
-    if (settings.customWebhookUrl) {
+    if (target.type === 'webhook') {
       const payload: NotificationPayload = {
         event: NOTIFICATION_EVENTS.STREAM_STOPPED,
         timestamp: new Date().toISOString(),
@@ -239,7 +437,12 @@ export class NotificationService {
         },
       };
       promises.push(
-        this.sendFormattedWebhook(settings, payload, { session, eventType: 'session_stopped' })
+        this.sendFormattedWebhook(
+          target,
+          payload,
+          { session, eventType: 'session_stopped' },
+          message
+        )
       );
     }
 
@@ -249,47 +452,251 @@ export class NotificationService {
   /**
    * Send server down notification
    */
-  async notifyServerDown(serverName: string, settings: Settings): Promise<void> {
+  async notifyServerDown(
+    serverName: string,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const payload: NotificationPayload = {
       event: NOTIFICATION_EVENTS.SERVER_DOWN,
       timestamp: new Date().toISOString(),
       data: { serverName },
     };
 
-    if (settings.discordWebhookUrl) {
-      await this.sendDiscordMessage(settings.discordWebhookUrl, {
+    if (target.type === 'discord') {
+      await this.sendDiscordMessage(target.webhookUrl, withMessage({
         title: 'Server Connection Lost',
         description: `Lost connection to ${serverName}`,
         color: 0xff0000,
-      });
+      }, message));
     }
 
-    if (settings.customWebhookUrl) {
-      await this.sendFormattedWebhook(settings, payload, { serverName, eventType: 'server_down' });
+    if (target.type === 'webhook') {
+      await this.sendFormattedWebhook(
+        target,
+        payload,
+        { serverName, eventType: 'server_down' },
+        message
+      );
     }
   }
 
   /**
    * Send server up notification
    */
-  async notifyServerUp(serverName: string, settings: Settings): Promise<void> {
+  async notifyServerUp(
+    serverName: string,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const payload: NotificationPayload = {
       event: NOTIFICATION_EVENTS.SERVER_UP,
       timestamp: new Date().toISOString(),
       data: { serverName },
     };
 
-    if (settings.discordWebhookUrl) {
-      await this.sendDiscordMessage(settings.discordWebhookUrl, {
+    if (target.type === 'discord') {
+      await this.sendDiscordMessage(target.webhookUrl, withMessage({
         title: 'Server Back Online',
         description: `${serverName} is back online`,
         color: 0x2ecc71, // Green
-      });
+      }, message));
+    }
+
+    if (target.type === 'webhook') {
+      await this.sendFormattedWebhook(
+        target,
+        payload,
+        { serverName, eventType: 'server_up' },
+        message
+      );
+    }
+  }
+
+  /**
+   * Send user suspended notification
+   */
+  async notifyUserSuspended(
+    suspension: SuspensionNotification,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    await this.sendSuspension(suspension, 'user_suspended', target, message);
+  }
+
+  /**
+   * Send user reinstated notification
+   */
+  async notifyUserReinstated(
+    suspension: SuspensionNotification,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    await this.sendSuspension(suspension, 'user_reinstated', target, message);
+  }
+
+  private async sendSuspension(
+    suspension: SuspensionNotification,
+    eventType: 'user_suspended' | 'user_reinstated',
+    target: NotificationTarget,
+    message: NotificationMessage | null
+  ): Promise<void> {
+    const payload: NotificationPayload = {
+      event:
+        eventType === 'user_suspended'
+          ? NOTIFICATION_EVENTS.USER_SUSPENDED
+          : NOTIFICATION_EVENTS.USER_REINSTATED,
+      timestamp: new Date().toISOString(),
+      data: { ...suspension },
+    };
+    const promises: Promise<void>[] = [];
+
+    if (target.type === 'discord') {
+      const { title, message: description } = getSuspensionDisplay(suspension, eventType);
+      promises.push(
+        this.sendDiscordMessage(target.webhookUrl, withMessage({
+          title,
+          description,
+          color: eventType === 'user_suspended' ? 0xe67e22 : 0x2ecc71, // Orange / green
+        }, message))
+      );
     }
 
-    if (settings.customWebhookUrl) {
-      await this.sendFormattedWebhook(settings, payload, { serverName, eventType: 'server_up' });
+    if (target.type === 'webhook') {
+      promises.push(this.sendFormattedWebhook(target, payload, { suspension, eventType }, message));
     }
+
+    await Promise.allSettled(promises);
+  }
+
+  /**
+   * Send new server user notification
+   */
+  async notifyNewServerUser(
+    newUser: NewServerUserNotification,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const payload: NotificationPayload = {
+      event: NOTIFICATION_EVENTS.NEW_SERVER_USER,
+      timestamp: new Date().toISOString(),
+      data: { ...newUser },
+    };
+    const promises: Promise<void>[] = [];
+
+    if (target.type === 'discord') {
+      const { title, message: description } = getNewServerUserDisplay(newUser);
+      promises.push(
+        this.sendDiscordMessage(target.webhookUrl, withMessage({
+          title,
+          description,
+          color: 0x3498db, // Blue
+        }, message))
+      );
+    }
+
+    if (target.type === 'webhook') {
+      promises.push(
+        this.sendFormattedWebhook(
+          target,
+          payload,
+          { newUser, eventType: 'new_server_user' },
+          message
+        )
+      );
+    }
+
+    await Promise.allSettled(promises);
+  }
+
+  /**
+   * Send new device notification
+   */
+  async notifyNewDevice(
+    alert: NewDeviceAlert,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const { title, message: description } = getNewDeviceDisplay(alert);
+    await this.sendAlert(
+      { event: NOTIFICATION_EVENTS.NEW_DEVICE, data: { ...alert } },
+      { title, description, color: 0x9b59b6 }, // Purple
+      { newDevice: alert, eventType: 'new_device' },
+      target,
+      message
+    );
+  }
+
+  /**
+   * Send concurrent streams notification
+   */
+  async notifyConcurrentStreams(
+    alert: ConcurrentStreamsAlert,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const { title, message: description } = getConcurrentStreamsDisplay(alert);
+    await this.sendAlert(
+      { event: NOTIFICATION_EVENTS.CONCURRENT_STREAMS, data: { ...alert } },
+      { title, description, color: 0xf39c12 }, // Amber
+      { concurrentStreams: alert, eventType: 'concurrent_streams' },
+      target,
+      message
+    );
+  }
+
+  /**
+   * Send trust level change notification
+   */
+  async notifyTrustScoreChanged(
+    alert: TrustScoreAlert,
+    target: NotificationTarget,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const { title, message: description } = getTrustScoreDisplay(alert);
+    const dropped = alert.score < alert.previousScore;
+    await this.sendAlert(
+      { event: NOTIFICATION_EVENTS.TRUST_SCORE_CHANGED, data: { ...alert } },
+      { title, description, color: dropped ? 0xe74c3c : 0x2ecc71 }, // Red / green
+      { trustChange: alert, eventType: 'trust_score_changed' },
+      target,
+      message
+    );
+  }
+
+  /**
+   * Send a notification by email, using the custom template text when there is one
+   */
+  async notifyEmail(
+    event: string,
+    context: NotificationContext,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const { title, body } =
+      message ??
+      this.buildApprisePayload({ event, timestamp: new Date().toISOString(), data: {} }, context);
+    await sendNotificationEmail(title, body);
+  }
+
+  private async sendAlert(
+    event: Pick<NotificationPayload, 'event' | 'data'>,
+    embed: DiscordEmbed,
+    context: NotificationContext,
+    target: NotificationTarget,
+    message: NotificationMessage | null
+  ): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    if (target.type === 'discord') {
+      promises.push(this.sendDiscordMessage(target.webhookUrl, withMessage(embed, message)));
+    }
+
+    if (target.type === 'webhook') {
+      const payload: NotificationPayload = { ...event, timestamp: new Date().toISOString() };
+      promises.push(this.sendFormattedWebhook(target, payload, context, message));
+    }
+
+    await Promise.allSettled(promises);
   }
 
   private buildViolationPayload(violation: ViolationWithDetails): NotificationPayload {
@@ -304,7 +711,11 @@ export class NotificationService {
     };
   }
 
-  private async sendDiscord(webhookUrl: string, violation: ViolationWithDetails): Promise<void> {
+  private async sendDiscord(
+    webhookUrl: string,
+    violation: ViolationWithDetails,
+    message: NotificationMessage | null
+  ): Promise<void> {
     const severityColors: Record<keyof typeof SEVERITY_LEVELS, number> = {
       low: 0x3498db,
       warning: 0xf39c12,
@@ -316,7 +727,7 @@ export class NotificationService {
 
     const detailsJson = JSON.stringify(violation.data, null, 2);
 
-    await this.sendDiscordMessage(webhookUrl, {
+    await this.sendDiscordMessage(webhookUrl, withMessage({
       title: `Sharing Violation Detected`,
       color: severityColors[severity] ?? 0x3498db,
       fields: [
@@ -325,12 +736,12 @@ export class NotificationService {
         { name: 'Severity', value: SEVERITY_LEVELS[severity].label, inline: true },
         { name: 'Details', value: truncateForDiscord(detailsJson) },
       ],
-    });
+    }, message));
   }
 
   private async sendDiscordMessage(
     webhookUrl: string,
-    embed: { title: string; description?: string; color: number; fields?: unknown[] }
+    embed: DiscordEmbed
   ): Promise<void> {
     const response = await fetch(webhookUrl, {
       method: 'POST',
@@ -355,35 +766,60 @@ export class NotificationService {
    * Send webhook with format-specific payload transformation
    */
   private async sendFormattedWebhook(
-    settings: Settings,
+    target: NotificationTarget,
     rawPayload: NotificationPayload,
-    context: {
-      violation?: ViolationWithDetails;
-      session?: ActiveSession;
-      serverName?: string;
-      eventType?: string;
-    }
+    context: NotificationContext,
+    message: NotificationMessage | null = null
   ): Promise<void> {
-    if (!settings.customWebhookUrl) return;
+    const format: WebhookFormat = target.webhookFormat;
+    if (isProviderFormat(format)) {
+      await this.sendProviderNotification(format, target, rawPayload, context, message);
+      return;
+    }
 
-    const format: WebhookFormat = settings.webhookFormat ?? 'json';
     let payload: unknown;
 
+    // A custom template replaces the title and text, keeping each format's other fields
     switch (format) {
-      case 'ntfy':
-        payload = this.buildNtfyPayload(rawPayload, settings.ntfyTopic, context);
+      case 'ntfy': {
+        const ntfy = this.buildNtfyPayload(rawPayload, target.ntfyTopic, context);
+        payload = message ? { ...ntfy, title: message.title, message: message.body } : ntfy;
         break;
-      case 'apprise':
-        payload = this.buildApprisePayload(rawPayload, context);
+      }
+      case 'apprise': {
+        const apprise = this.buildApprisePayload(rawPayload, context);
+        payload = message ? { ...apprise, title: message.title, body: message.body } : apprise;
         break;
+      }
       case 'json':
       default:
-        payload = rawPayload;
+        payload = message ? { ...rawPayload, message } : rawPayload;
     }
 
     // Pass ntfy auth token for ntfy format
-    const authToken = format === 'ntfy' ? settings.ntfyAuthToken : null;
-    await this.sendWebhook(settings.customWebhookUrl, payload, authToken);
+    const authToken = format === 'ntfy' ? target.authToken : null;
+    await this.sendWebhook(target.webhookUrl, payload, authToken);
+  }
+
+  /**
+   * Send through Slack, Telegram, Matrix or Gotify with the same title, body and level
+   * as Apprise, plus the poster for session events
+   */
+  private async sendProviderNotification(
+    format: ProviderFormat,
+    target: NotificationTarget,
+    rawPayload: NotificationPayload,
+    context: NotificationContext,
+    message: NotificationMessage | null
+  ): Promise<void> {
+    const { title, body, type } = this.buildApprisePayload(rawPayload, context);
+    const posterUrl =
+      format === 'slack' || format === 'telegram' ? await getPosterUrl(context.session) : null;
+    await sendProviderMessage(format, target, {
+      ...(message ?? { title, body }),
+      level: type,
+      posterUrl,
+    });
   }
 
   /**
@@ -392,14 +828,19 @@ export class NotificationService {
   private buildNtfyPayload(
     rawPayload: NotificationPayload,
     topic: string | null,
-    context: {
-      violation?: ViolationWithDetails;
-      session?: ActiveSession;
-      serverName?: string;
-      eventType?: string;
-    }
+    context: NotificationContext
   ): NtfyPayload {
-    const { violation, session, serverName, eventType } = context;
+    const {
+      violation,
+      session,
+      serverName,
+      suspension,
+      newUser,
+      newDevice,
+      concurrentStreams,
+      trustChange,
+      eventType,
+    } = context;
 
     // Default topic if not configured
     const ntfyTopic = topic || 'tracearr';
@@ -461,6 +902,45 @@ export class NotificationService {
       };
     }
 
+    if (suspension) {
+      const { title, message } = getSuspensionDisplay(suspension, eventType);
+      const suspended = eventType === 'user_suspended';
+      return {
+        topic: ntfyTopic,
+        title,
+        message,
+        priority: suspended ? 4 : 3,
+        tags: [suspended ? 'no_entry' : 'white_check_mark'],
+      };
+    }
+
+    if (newUser) {
+      const { title, message } = getNewServerUserDisplay(newUser);
+      return { topic: ntfyTopic, title, message, priority: 3, tags: ['wave'] };
+    }
+
+    if (newDevice) {
+      const { title, message } = getNewDeviceDisplay(newDevice);
+      return { topic: ntfyTopic, title, message, priority: 3, tags: ['iphone'] };
+    }
+
+    if (concurrentStreams) {
+      const { title, message } = getConcurrentStreamsDisplay(concurrentStreams);
+      return { topic: ntfyTopic, title, message, priority: 4, tags: ['busts_in_silhouette'] };
+    }
+
+    if (trustChange) {
+      const { title, message } = getTrustScoreDisplay(trustChange);
+      const dropped = trustChange.score < trustChange.previousScore;
+      return {
+        topic: ntfyTopic,
+        title,
+        message,
+        priority: dropped ? 4 : 3,
+        tags: [dropped ? 'chart_with_downwards_trend' : 'chart_with_upwards_trend'],
+      };
+    }
+
     // Fallback for unknown event types
     return {
       topic: ntfyTopic,
@@ -476,14 +956,19 @@ export class NotificationService {
    */
   private buildApprisePayload(
     rawPayload: NotificationPayload,
-    context: {
-      violation?: ViolationWithDetails;
-      session?: ActiveSession;
-      serverName?: string;
-      eventType?: string;
-    }
+    context: NotificationContext
   ): ApprisePayload {
-    const { violation, session, serverName, eventType } = context;
+    const {
+      violation,
+      session,
+      serverName,
+      suspension,
+      newUser,
+      newDevice,
+      concurrentStreams,
+      trustChange,
+      eventType,
+    } = context;
 
     if (violation) {
       const ruleType = violation.rule.type as keyof typeof RULE_DISPLAY_NAMES;
@@ -532,6 +1017,36 @@ export class NotificationService {
       };
     }
 
+    if (suspension) {
+      const { title, message } = getSuspensionDisplay(suspension, eventType);
+      return {
+        title,
+        body: message,
+        type: eventType === 'user_suspended' ? 'warning' : 'success',
+      };
+    }
+
+    if (newUser) {
+      const { title, message } = getNewServerUserDisplay(newUser);
+      return { title, body: message, type: 'info' };
+    }
+
+    if (newDevice) {
+      const { title, message } = getNewDeviceDisplay(newDevice);
+      return { title, body: message, type: 'info' };
+    }
+
+    if (concurrentStreams) {
+      const { title, message } = getConcurrentStreamsDisplay(concurrentStreams);
+      return { title, body: message, type: 'warning' };
+    }
+
+    if (trustChange) {
+      const { title, message } = getTrustScoreDisplay(trustChange);
+      const dropped = trustChange.score < trustChange.previousScore;
+      return { title, body: message, type: dropped ? 'warning' : 'success' };
+    }
+
     // Fallback for unknown event types
     return {
       title: rawPayload.event,
@@ -566,9 +1081,10 @@ export class NotificationService {
 export async function sendTestWebhook(
   webhookUrl: string,
   type: 'discord' | 'custom',
-  format: 'json' | 'ntfy' | 'apprise' = 'json',
+  format: WebhookFormat = 'json',
   ntfyTopic?: string | null,
-  ntfyAuthToken?: string | null
+  authToken?: string | null,
+  chatId?: string | null
 ): Promise<{ success: boolean; error?: string }> {
   try {
     if (type === 'discord') {
@@ -601,6 +1117,21 @@ export async function sendTestWebhook(
       return { success: true };
     }
 
+    if (isProviderFormat(format)) {
+      await sendProviderMessage(
+        format,
+        { webhookUrl, chatId: chatId ?? null, authToken: authToken ?? null },
+        {
+          title: 'Test Notification',
+          body:
+            `If you see this message, your ${WEBHOOK_FORMAT_DISPLAY_NAMES[format]} ` +
+            'notifications are configured correctly!',
+          level: 'success',
+        }
+      );
+      return { success: true };
+    }
+
     // Custom webhook
     let payload: unknown;
 
@@ -638,8 +1169,8 @@ export async function sendTestWebhook(
 
     // Build headers with optional auth token for ntfy
     const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (format === 'ntfy' && ntfyAuthToken) {
-      headers['Authorization'] = `Bearer ${ntfyAuthToken}`;
+    if (format === 'ntfy' && authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
     }
 
     const response = await fetch(webhookUrl, {
@@ -0,0 +1,158 @@
+/**
+ * Permission Service
+ *
+ * Per-server feature permissions for admins and viewers. Owners hold every
+ * permission on every server and have no grants stored. A grant with no
+ * permissions still gives read access to the server (dashboard, users, violations).
+ */
+
+import { eq, inArray } from 'drizzle-orm';
+import type {
+  AuthUser,
+  Permission,
+  ServerPermissionGrant,
+  UpdateUserPermissionsInput,
+  UserPermissions,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { servers, userPermissions, users } from '../db/schema.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { requireUserById } from './userService.js';
+
+// Roles shown in user management (members can be promoted from the users list)
+const MANAGED_ROLES = ['owner', 'admin', 'viewer'] as const;
+
+/**
+ * Get the permissions a user was granted, one entry per server
+ */
+export async function getPermissionGrants(userId: string): Promise<ServerPermissionGrant[]> {
+  return db
+    .select({ serverId: userPermissions.serverId, permissions: userPermissions.permissions })
+    .from(userPermissions)
+    .where(eq(userPermissions.userId, userId));
+}
+
+/**
+ * Get the servers a non-owner can access, or only those where they hold a permission
+ *
+ * @param permission - When set, only servers where this permission was granted
+ */
+export async function getPermittedServerIds(
+  userId: string,
+  permission?: Permission
+): Promise<string[]> {
+  const grants = await getPermissionGrants(userId);
+  return grants
+    .filter((grant) => permission === undefined || grant.permissions.includes(permission))
+    .map((grant) => grant.serverId);
+}
+
+/**
+ * Get the IDs of every server, to check grants that must cover all of them
+ */
+export async function getAllServerIds(): Promise<string[]> {
+  const rows = await db.select({ id: servers.id }).from(servers);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Get the servers where a user may see session IP addresses and locations,
+ * or null when they see them on every server (owners)
+ */
+export async function getLocationServerIds(user: AuthUser): Promise<string[] | null> {
+  if (user.role === 'owner') return null;
+  return getPermittedServerIds(user.userId, 'view_locations');
+}
+
+/**
+ * List every user who can log in, with the permissions they were granted
+ */
+export async function listUserPermissions(): Promise<UserPermissions[]> {
+  const accounts = await db
+    .select({
+      userId: users.id,
+      username: users.username,
+      name: users.name,
+      thumbnail: users.thumbnail,
+      role: users.role,
+    })
+    .from(users)
+    .where(inArray(users.role, [...MANAGED_ROLES]))
+    .orderBy(users.username);
+
+  const userIds = accounts.map((a) => a.userId);
+  const rows =
+    userIds.length > 0
+      ? await db.select().from(userPermissions).where(inArray(userPermissions.userId, userIds))
+      : [];
+
+  const grantsByUserId = new Map<string, ServerPermissionGrant[]>();
+  for (const row of rows) {
+    const grants = grantsByUserId.get(row.userId) ?? [];
+    grants.push({ serverId: row.serverId, permissions: row.permissions });
+    grantsByUserId.set(row.userId, grants);
+  }
+
+  return accounts.map((account) => ({
+    ...account,
+    grants: grantsByUserId.get(account.userId) ?? [],
+  }));
+}
+
+/**
+ * Set a user's role and replace their permission grants
+ *
+ * Demoting to member removes every grant, since members cannot log in.
+ *
+ * @throws UserNotFoundError when the user doesn't exist
+ * @throws ConflictError for owners, who always hold every permission
+ * @throws ValidationError when a grant names a server that doesn't exist
+ */
+export async function updateUserPermissions(
+  userId: string,
+  input: UpdateUserPermissionsInput
+): Promise<UserPermissions> {
+  const user = await requireUserById(userId);
+  if (user.role === 'owner') {
+    throw new ConflictError('Owners always have every permission');
+  }
+
+  const grants =
+    input.role === 'member'
+      ? []
+      : input.grants.map((grant) => ({
+          serverId: grant.serverId,
+          permissions: [...new Set(grant.permissions)],
+        }));
+
+  const serverIds = grants.map((grant) => grant.serverId);
+  if (serverIds.length > 0) {
+    const existing = await db
+      .select({ id: servers.id })
+      .from(servers)
+      .where(inArray(servers.id, serverIds));
+    if (existing.length !== serverIds.length) {
+      throw new ValidationError('Permissions can only be granted on existing servers');
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({ role: input.role, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+    await tx.delete(userPermissions).where(eq(userPermissions.userId, userId));
+    if (grants.length > 0) {
+      await tx.insert(userPermissions).values(grants.map((grant) => ({ userId, ...grant })));
+    }
+  });
+
+  return {
+    userId: user.id,
+    username: user.username,
+    name: user.name,
+    thumbnail: user.thumbnail,
+    role: input.role,
+    grants,
+  };
+}
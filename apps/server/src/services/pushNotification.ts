@@ -12,14 +12,34 @@ import {
   type ExpoPushTicket,
 } from 'expo-server-sdk';
 import { eq, isNotNull } from 'drizzle-orm';
-import type { ViolationWithDetails, ActiveSession } from '@tracearr/shared';
-import { RULE_DISPLAY_NAMES, SEVERITY_LEVELS, getSeverityPriority } from '@tracearr/shared';
+import type {
+  ViolationWithDetails,
+  ActiveSession,
+  AlertUser,
+  ConcurrentStreamsAlert,
+  NewDeviceAlert,
+  TrustScoreAlert,
+} from '@tracearr/shared';
+import {
+  RULE_DISPLAY_NAMES,
+  SEVERITY_LEVELS,
+  TRUST_LEVEL_DISPLAY_NAMES,
+  getSeverityPriority,
+} from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { mobileSessions, notificationPreferences } from '../db/schema.js';
 import { getPushRateLimiter } from './pushRateLimiter.js';
-import { quietHoursService, type NotificationSeverity } from './quietHours.js';
+import {
+  quietHoursService,
+  type EventNotificationType,
+  type NotificationSeverity,
+} from './quietHours.js';
 import { pushEncryptionService } from './pushEncryption.js';
-import { getNetworkSettings } from '../routes/settings.js';
+import type {
+  NewServerUserNotification,
+  NotificationMessage,
+  SuspensionNotification,
+} from './notify.js';
 
 // Initialize Expo SDK
 const expo = new Expo();
@@ -55,36 +75,6 @@ function formatMediaTitle(session: ActiveSession): string {
   return mediaTitle;
 }
 
-/**
- * Build full poster URL for rich notifications
- * Returns null if externalUrl is not configured or thumbPath is missing
- */
-async function _buildPosterUrl(session: ActiveSession): Promise<string | null> {
-  const { thumbPath, serverId } = session;
-
-  // Need both thumbPath and serverId
-  if (!thumbPath || !serverId) {
-    return null;
-  }
-
-  // Get external URL from settings
-  const networkSettings = await getNetworkSettings();
-  const { externalUrl } = networkSettings;
-
-  // External URL must be configured for rich notifications
-  if (!externalUrl) {
-    return null;
-  }
-
-  // Build the full URL using image proxy
-  // Use smaller dimensions for notification thumbnails
-  const width = 150;
-  const height = 225;
-  const encodedPath = encodeURIComponent(thumbPath);
-
-  return `${externalUrl}/api/v1/images/proxy?server=${serverId}&url=${encodedPath}&width=${width}&height=${height}&fallback=poster`;
-}
-
 /**
  * Session with preferences for filtering
  */
@@ -132,6 +122,7 @@ function buildPushMessage(
     badge?: number;
     sound?: 'default' | null;
     imageUrl?: string | null; // Rich notification image URL (must be HTTPS)
+    template?: NotificationMessage | null; // Custom template, replaces title/subtitle/body
   }
 ): ExpoPushMessage {
   // Encrypt data payload if device has a secret
@@ -142,10 +133,11 @@ function buildPushMessage(
       >)
     : undefined;
 
+  const { template } = notification;
   const message: ExpoPushMessage = {
     to: token,
-    title: notification.title,
-    body: notification.body,
+    title: template ? template.title : notification.title,
+    body: template ? template.body : notification.body,
     data,
     priority: notification.priority ?? 'default',
     channelId: notification.channelId,
@@ -154,7 +146,7 @@ function buildPushMessage(
   };
 
   // Add subtitle for iOS (Android will show it as part of body)
-  if (notification.subtitle) {
+  if (notification.subtitle && !template) {
     message.subtitle = notification.subtitle;
   }
 
@@ -390,7 +382,7 @@ function applyQuietHours(
  */
 function applyQuietHoursEvent(
   sessions: SessionWithPrefs[],
-  eventType: 'session_started' | 'session_stopped' | 'server_down' | 'server_up',
+  eventType: EventNotificationType,
   context: string
 ): SessionWithPrefs[] {
   return sessions.filter((session) => {
@@ -458,7 +450,10 @@ export class PushNotificationService {
   /**
    * Send violation notification to devices that have enabled violation alerts
    */
-  async notifyViolation(violation: ViolationWithDetails): Promise<void> {
+  async notifyViolation(
+    violation: ViolationWithDetails,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const sessions = await getSessionsWithPreferences();
     if (sessions.length === 0) return;
 
@@ -512,6 +507,7 @@ export class PushNotificationService {
         title: serverName,
         subtitle: `${SEVERITY_LEVELS[severity].label} Violation`,
         body: `${violation.user.username}: ${RULE_DISPLAY_NAMES[ruleType]}`,
+        template: message,
         data: {
           type: 'violation_detected',
           violationId: violation.id,
@@ -533,7 +529,10 @@ export class PushNotificationService {
   /**
    * Send session started notification to devices that have enabled stream alerts
    */
-  async notifySessionStarted(session: ActiveSession): Promise<void> {
+  async notifySessionStarted(
+    session: ActiveSession,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const sessions = await getSessionsWithPreferences();
     if (sessions.length === 0) return;
 
@@ -576,6 +575,7 @@ export class PushNotificationService {
         title: serverName,
         subtitle: 'Now Playing',
         body: `${session.user.username}: ${formattedTitle}`,
+        template: message,
         data: {
           type: 'stream_started',
           sessionId: session.id,
@@ -595,7 +595,10 @@ export class PushNotificationService {
   /**
    * Send session stopped notification to devices that have enabled stream alerts
    */
-  async notifySessionStopped(session: ActiveSession): Promise<void> {
+  async notifySessionStopped(
+    session: ActiveSession,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const sessions = await getSessionsWithPreferences();
     if (sessions.length === 0) return;
 
@@ -645,6 +648,7 @@ export class PushNotificationService {
         title: serverName,
         subtitle: 'Stream Ended',
         body: `${session.user.username}: ${formattedTitle} (${durationStr})`,
+        template: message,
         data: {
           type: 'stream_stopped',
           sessionId: session.id,
@@ -664,7 +668,11 @@ export class PushNotificationService {
   /**
    * Send server down notification to devices that have enabled server alerts
    */
-  async notifyServerDown(serverName: string, serverId: string): Promise<void> {
+  async notifyServerDown(
+    serverName: string,
+    serverId: string,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const sessions = await getSessionsWithPreferences();
     if (sessions.length === 0) return;
 
@@ -703,6 +711,7 @@ export class PushNotificationService {
         title: serverName,
         subtitle: 'Server Alert',
         body: 'Connection lost',
+        template: message,
         data: {
           type: 'server_down',
           serverName,
@@ -788,7 +797,11 @@ export class PushNotificationService {
   /**
    * Send server up notification to devices that have enabled server alerts
    */
-  async notifyServerUp(serverName: string, serverId: string): Promise<void> {
+  async notifyServerUp(
+    serverName: string,
+    serverId: string,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
     const sessions = await getSessionsWithPreferences();
     if (sessions.length === 0) return;
 
@@ -827,6 +840,7 @@ export class PushNotificationService {
         title: serverName,
         subtitle: 'Server Alert',
         body: 'Back online',
+        template: message,
         data: {
           type: 'server_up',
           serverName,
@@ -839,6 +853,205 @@ export class PushNotificationService {
 
     await sendPushNotifications(messages);
   }
+
+  /**
+   * Send user suspended/reinstated notification to devices with push enabled
+   *
+   * There is no per-event device preference; routing controls whether it's sent.
+   */
+  async notifySuspension(
+    suspension: SuspensionNotification,
+    eventType: 'user_suspended' | 'user_reinstated',
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const sessions = await getSessionsWithPreferences();
+    if (sessions.length === 0) return;
+
+    const eligibleSessions = sessions.filter((s) => s.pushEnabled);
+    if (eligibleSessions.length === 0) {
+      console.log(`[Push] No eligible sessions for ${eventType} notification`);
+      return;
+    }
+
+    // Apply rate limiting
+    const rateLimitedSessions = await applyRateLimiting(eligibleSessions, eventType);
+    if (rateLimitedSessions.length === 0) {
+      console.log(`[Push] All sessions rate limited for ${eventType} notification`);
+      return;
+    }
+
+    // Apply quiet hours filtering
+    const activeSessions = applyQuietHoursEvent(rateLimitedSessions, eventType, eventType);
+    if (activeSessions.length === 0) {
+      console.log(`[Push] All sessions in quiet hours for ${eventType} notification`);
+      return;
+    }
+
+    const suspended = eventType === 'user_suspended';
+    const messages = activeSessions.map((s) =>
+      buildPushMessage(s.expoPushToken, s.deviceSecret, {
+        title: suspension.username,
+        subtitle: suspended ? 'User Suspended' : 'User Reinstated',
+        body: suspended
+          ? (suspension.reason ?? `Suspended on ${suspension.serverName}`)
+          : `Access restored on ${suspension.serverName}`,
+        template: message,
+        data: {
+          type: eventType,
+          userId: suspension.serverUserId,
+          serverId: suspension.serverId,
+        },
+        priority: 'default',
+        channelId: 'alerts',
+      })
+    );
+
+    await sendPushNotifications(messages);
+  }
+
+  /**
+   * Send new server user notification to devices with push enabled
+   *
+   * There is no per-event device preference; routing controls whether it's sent.
+   */
+  async notifyNewServerUser(
+    newUser: NewServerUserNotification,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const sessions = await getSessionsWithPreferences();
+    if (sessions.length === 0) return;
+
+    const eligibleSessions = sessions.filter((s) => s.pushEnabled);
+    if (eligibleSessions.length === 0) {
+      console.log('[Push] No eligible sessions for new server user notification');
+      return;
+    }
+
+    // Apply rate limiting
+    const rateLimitedSessions = await applyRateLimiting(eligibleSessions, 'new_server_user');
+    if (rateLimitedSessions.length === 0) {
+      console.log('[Push] All sessions rate limited for new server user notification');
+      return;
+    }
+
+    // Apply quiet hours filtering
+    const activeSessions = applyQuietHoursEvent(
+      rateLimitedSessions,
+      'new_server_user',
+      'new_server_user'
+    );
+    if (activeSessions.length === 0) {
+      console.log('[Push] All sessions in quiet hours for new server user notification');
+      return;
+    }
+
+    const messages = activeSessions.map((s) =>
+      buildPushMessage(s.expoPushToken, s.deviceSecret, {
+        title: newUser.username,
+        subtitle: 'New User',
+        body: `Joined ${newUser.serverName}`,
+        template: message,
+        data: {
+          type: 'new_server_user',
+          userId: newUser.serverUserId,
+          serverId: newUser.serverId,
+        },
+        priority: 'default',
+        channelId: 'alerts',
+      })
+    );
+
+    await sendPushNotifications(messages);
+  }
+  /**
+   * Send new device notification to devices that have enabled new device alerts
+   */
+  async notifyNewDevice(
+    alert: NewDeviceAlert,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const device = alert.product ?? alert.playerName ?? 'Unknown device';
+    await this.sendUserAlert(alert, 'new_device', (s) => s.onNewDevice, {
+      subtitle: 'New Device',
+      body: alert.platform ? `${device} (${alert.platform})` : device,
+      template: message,
+    });
+  }
+
+  /**
+   * Send concurrent streams notification to devices that have enabled stream count alerts
+   */
+  async notifyConcurrentStreams(
+    alert: ConcurrentStreamsAlert,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    await this.sendUserAlert(alert, 'concurrent_streams', (s) => s.onConcurrentStreams, {
+      subtitle: 'Concurrent Streams',
+      body: `${alert.streamCount} active streams on ${alert.serverName}`,
+      template: message,
+    });
+  }
+
+  /**
+   * Send trust level change notification to devices that have enabled trust score alerts
+   */
+  async notifyTrustScoreChanged(
+    alert: TrustScoreAlert,
+    message: NotificationMessage | null = null
+  ): Promise<void> {
+    const level = TRUST_LEVEL_DISPLAY_NAMES[alert.level];
+    await this.sendUserAlert(alert, 'trust_score_changed', (s) => s.onTrustScoreChanged, {
+      subtitle: 'Trust Level Changed',
+      body: `Now ${level} (${alert.previousScore} → ${alert.score})`,
+      template: message,
+    });
+  }
+
+  private async sendUserAlert(
+    alert: AlertUser,
+    eventType: 'new_device' | 'concurrent_streams' | 'trust_score_changed',
+    isEnabled: (session: SessionWithPrefs) => boolean,
+    content: { subtitle: string; body: string; template: NotificationMessage | null }
+  ): Promise<void> {
+    const sessions = await getSessionsWithPreferences();
+    if (sessions.length === 0) return;
+
+    const eligibleSessions = sessions.filter((s) => s.pushEnabled && isEnabled(s));
+    if (eligibleSessions.length === 0) {
+      console.log(`[Push] No eligible sessions for ${eventType} notification`);
+      return;
+    }
+
+    // Apply rate limiting
+    const rateLimitedSessions = await applyRateLimiting(eligibleSessions, eventType);
+    if (rateLimitedSessions.length === 0) {
+      console.log(`[Push] All sessions rate limited for ${eventType} notification`);
+      return;
+    }
+
+    // Apply quiet hours filtering
+    const activeSessions = applyQuietHoursEvent(rateLimitedSessions, eventType, eventType);
+    if (activeSessions.length === 0) {
+      console.log(`[Push] All sessions in quiet hours for ${eventType} notification`);
+      return;
+    }
+
+    const messages = activeSessions.map((s) =>
+      buildPushMessage(s.expoPushToken, s.deviceSecret, {
+        title: alert.identityName ?? alert.username,
+        ...content,
+        data: {
+          type: eventType,
+          userId: alert.serverUserId,
+          serverId: alert.serverId,
+        },
+        priority: 'default',
+        channelId: 'alerts',
+      })
+    );
+
+    await sendPushNotifications(messages);
+  }
 }
 
 // Export singleton instance
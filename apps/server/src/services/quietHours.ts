@@ -3,6 +3,7 @@
  *
  * Suppresses non-critical notifications during user-configured quiet hours.
  * Supports timezone-aware time comparison and overnight quiet hour ranges.
+ * The time helpers are also used for rule schedules (see ruleSchedule.ts).
  */
 
 /**
@@ -21,6 +22,101 @@ export interface QuietHoursPrefs {
  */
 export type NotificationSeverity = 'low' | 'warning' | 'high';
 
+/**
+ * Events without a severity of their own (see shouldSendEvent)
+ */
+export type EventNotificationType =
+  | 'session_started'
+  | 'session_stopped'
+  | 'server_down'
+  | 'server_up'
+  | 'user_suspended'
+  | 'user_reinstated'
+  | 'new_server_user'
+  | 'new_device'
+  | 'concurrent_streams'
+  | 'trust_score_changed';
+
+/**
+ * Wall-clock time in a timezone
+ */
+export interface ZonedTime {
+  minutes: number; // Minutes since local midnight
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  date: string; // "2025-01-15"
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatZonedParts(date: Date, timeZone: string): Intl.DateTimeFormatPart[] {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZone,
+  }).formatToParts(date);
+}
+
+/**
+ * Get the local time of day, weekday and date for an instant in a timezone
+ *
+ * Falls back to UTC when the timezone is invalid.
+ */
+export function getZonedTime(date: Date, timezone: string): ZonedTime {
+  let parts: Intl.DateTimeFormatPart[];
+
+  try {
+    parts = formatZonedParts(date, timezone || 'UTC');
+  } catch {
+    // Invalid timezone, fall back to UTC
+    console.warn(`[QuietHours] Invalid timezone "${timezone}", falling back to UTC`);
+    parts = formatZonedParts(date, 'UTC');
+  }
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  // hour12: false renders midnight as "24" in some runtimes
+  const hour = Number(get('hour')) % 24;
+
+  return {
+    minutes: hour * 60 + Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+  };
+}
+
+/**
+ * Parse an "HH:MM" string into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hour, minute] = time.split(':').map(Number) as [number, number];
+  return hour * 60 + minute;
+}
+
+/**
+ * Check if a time of day falls within an "HH:MM" range (inclusive)
+ *
+ * A start later than the end is treated as an overnight range (e.g., 23:00 - 07:00).
+ */
+export function isWithinTimeRange(currentMinutes: number, start: string, end: string): boolean {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+
+  // Handle overnight ranges (e.g., 23:00 - 07:00)
+  if (startMinutes > endMinutes) {
+    // Range spans midnight
+    return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
+  }
+
+  // Normal range within same day (e.g., 01:00 - 06:00)
+  return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
+}
+
 /**
  * Quiet Hours Service
  */
@@ -36,49 +132,8 @@ export class QuietHoursService {
       return false;
     }
 
-    // Get current time in user's timezone
-    const now = new Date();
-    let userTime: string;
-
-    try {
-      userTime = new Intl.DateTimeFormat('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false,
-        timeZone: prefs.quietHoursTimezone || 'UTC',
-      }).format(now);
-    } catch {
-      // Invalid timezone, fall back to UTC
-      console.warn(
-        `[QuietHours] Invalid timezone "${prefs.quietHoursTimezone}", falling back to UTC`
-      );
-      userTime = new Intl.DateTimeFormat('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false,
-        timeZone: 'UTC',
-      }).format(now);
-    }
-
-    const [currentHour, currentMinute] = userTime.split(':').map(Number) as [number, number];
-    const [startHour, startMinute] = prefs.quietHoursStart.split(':').map(Number) as [
-      number,
-      number,
-    ];
-    const [endHour, endMinute] = prefs.quietHoursEnd.split(':').map(Number) as [number, number];
-
-    const currentMinutes = currentHour * 60 + currentMinute;
-    const startMinutes = startHour * 60 + startMinute;
-    const endMinutes = endHour * 60 + endMinute;
-
-    // Handle overnight quiet hours (e.g., 23:00 - 07:00)
-    if (startMinutes > endMinutes) {
-      // Quiet hours span midnight
-      return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
-    }
-
-    // Normal quiet hours within same day (e.g., 01:00 - 06:00)
-    return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
+    const { minutes } = getZonedTime(new Date(), prefs.quietHoursTimezone);
+    return isWithinTimeRange(minutes, prefs.quietHoursStart, prefs.quietHoursEnd);
   }
 
   /**
@@ -114,7 +169,7 @@ export class QuietHoursService {
    */
   shouldSendEvent(
     prefs: QuietHoursPrefs,
-    eventType: 'session_started' | 'session_stopped' | 'server_down' | 'server_up'
+    eventType: EventNotificationType
   ): boolean {
     // Server down is always treated as critical
     if (eventType === 'server_down') {
@@ -0,0 +1,290 @@
+/**
+ * Rule Action Executor
+ *
+ * Runs the automatic actions configured on a rule after it creates a violation:
+ * - terminate_stream: kill the stream that triggered the violation
+ * - terminate_newest: kill only the most recently started stream involved in the violation
+ * - log_only: record that the rule fired without touching the media server
+ * - disable_user: disable the user's Jellyfin/Emby account
+ * - remove_share: stop sharing the Plex server with the user
+ *
+ * Every executed action writes a termination_logs entry (trigger = 'rule'), or an
+ * account_actions entry for account changes, which also drives the per-user
+ * cooldown for each action.
+ */
+
+import { eq, and, gte, desc, inArray, isNull } from 'drizzle-orm';
+import type { Rule, RuleAction, RuleActionType } from '@tracearr/shared';
+import { RULE_ACTION_DEFAULTS, TIME_MS } from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { accountActions, sessions, terminationLogs } from '../db/schema.js';
+import { ValidationError } from '../utils/errors.js';
+import { executeAccountAction } from './accountActions.js';
+import { terminateSession } from './termination.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Violation context needed to run rule actions
+ */
+export interface RuleActionViolation {
+  id: string;
+  serverId: string;
+  serverUserId: string;
+  sessionId: string;
+  data: Record<string, unknown>;
+}
+
+export interface RuleActionResult {
+  action: RuleActionType;
+  /** executed = action ran, cooldown = skipped due to cooldown, skipped = nothing to act on */
+  status: 'executed' | 'cooldown' | 'skipped';
+  sessionId?: string;
+  success?: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether an action already ran for this rule and server user within its cooldown.
+ *
+ * @param ruleId - Rule that owns the action
+ * @param serverUserId - Server user the action would target
+ * @param action - Action to check
+ * @param now - Reference time (defaults to now, injectable for testing)
+ * @returns true if the action should be skipped
+ */
+export async function isActionOnCooldown(
+  ruleId: string,
+  serverUserId: string,
+  action: RuleAction,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (action.cooldownMinutes <= 0) {
+    return false;
+  }
+
+  const since = new Date(now.getTime() - action.cooldownMinutes * TIME_MS.MINUTE);
+
+  if (action.type === 'disable_user' || action.type === 'remove_share') {
+    const recentAccountActions = await db
+      .select({ id: accountActions.id })
+      .from(accountActions)
+      .where(
+        and(
+          eq(accountActions.ruleId, ruleId),
+          eq(accountActions.serverUserId, serverUserId),
+          eq(accountActions.action, action.type),
+          gte(accountActions.createdAt, since)
+        )
+      )
+      .limit(1);
+
+    return recentAccountActions.length > 0;
+  }
+
+  const recent = await db
+    .select({ id: terminationLogs.id })
+    .from(terminationLogs)
+    .where(
+      and(
+        eq(terminationLogs.ruleId, ruleId),
+        eq(terminationLogs.serverUserId, serverUserId),
+        eq(terminationLogs.action, action.type),
+        gte(terminationLogs.createdAt, since)
+      )
+    )
+    .limit(1);
+
+  return recent.length > 0;
+}
+
+/**
+ * Find the newest still-active stream among the sessions involved in a violation.
+ *
+ * @param sessionIds - Triggering session plus any related sessions
+ * @returns Session ID of the newest active stream, or null if none are active
+ */
+export async function findNewestActiveSession(sessionIds: string[]): Promise<string | null> {
+  if (sessionIds.length === 0) return null;
+
+  const rows = await db
+    .select({ id: sessions.id })
+    .from(sessions)
+    .where(and(inArray(sessions.id, sessionIds), isNull(sessions.stoppedAt)))
+    .orderBy(desc(sessions.startedAt))
+    .limit(1);
+
+  return rows[0]?.id ?? null;
+}
+
+/**
+ * Get the sessions involved in a violation (triggering session first, deduplicated)
+ */
+function getInvolvedSessionIds(violation: RuleActionViolation): string[] {
+  const related = Array.isArray(violation.data.relatedSessionIds)
+    ? (violation.data.relatedSessionIds as string[])
+    : [];
+  return [...new Set([violation.sessionId, ...related])];
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+async function executeRuleAction(
+  rule: Rule,
+  violation: RuleActionViolation,
+  action: RuleAction
+): Promise<RuleActionResult> {
+  if (await isActionOnCooldown(rule.id, violation.serverUserId, action)) {
+    console.log(
+      `[RuleActions] ${action.type} for rule "${rule.name}" on cooldown for server user ${violation.serverUserId}`
+    );
+    return { action: action.type, status: 'cooldown' };
+  }
+
+  const reason = action.message?.trim() || RULE_ACTION_DEFAULTS.MESSAGE;
+
+  switch (action.type) {
+    case 'log_only': {
+      await db.insert(terminationLogs).values({
+        sessionId: violation.sessionId,
+        serverId: violation.serverId,
+        serverUserId: violation.serverUserId,
+        trigger: 'rule',
+        ruleId: rule.id,
+        violationId: violation.id,
+        action: 'log_only',
+        reason: null,
+        success: true,
+      });
+      return { action: action.type, status: 'executed', sessionId: violation.sessionId, success: true };
+    }
+
+    case 'terminate_stream':
+    case 'terminate_newest': {
+      const targetSessionId =
+        action.type === 'terminate_newest'
+          ? await findNewestActiveSession(getInvolvedSessionIds(violation))
+          : violation.sessionId;
+
+      if (!targetSessionId) {
+        return { action: action.type, status: 'skipped' };
+      }
+
+      const result = await terminateSession({
+        sessionId: targetSessionId,
+        trigger: 'rule',
+        ruleId: rule.id,
+        violationId: violation.id,
+        action: action.type,
+        reason,
+      });
+
+      if (result.success) {
+        console.log(`[RuleActions] Rule "${rule.name}" terminated session ${targetSessionId}`);
+      } else {
+        console.warn(
+          `[RuleActions] Rule "${rule.name}" failed to terminate session ${targetSessionId}: ${result.error}`
+        );
+      }
+
+      return {
+        action: action.type,
+        status: 'executed',
+        sessionId: targetSessionId,
+        success: result.success,
+        error: result.error,
+      };
+    }
+
+    case 'disable_user':
+    case 'remove_share': {
+      try {
+        const result = await executeAccountAction({
+          serverUserId: violation.serverUserId,
+          action: action.type,
+          trigger: 'rule',
+          ruleId: rule.id,
+          violationId: violation.id,
+        });
+
+        if (result.success) {
+          console.log(
+            `[RuleActions] Rule "${rule.name}" ran ${action.type} for server user ${violation.serverUserId}`
+          );
+        } else {
+          console.warn(
+            `[RuleActions] Rule "${rule.name}" failed to run ${action.type} for server user ${violation.serverUserId}: ${result.error}`
+          );
+        }
+
+        return {
+          action: action.type,
+          status: 'executed',
+          success: result.success,
+          error: result.error,
+        };
+      } catch (error) {
+        // Not supported on this server type, or a server admin account
+        if (error instanceof ValidationError) {
+          return { action: action.type, status: 'skipped', error: error.message };
+        }
+        throw error;
+      }
+    }
+
+    default:
+      return { action: action.type, status: 'skipped' };
+  }
+}
+
+/**
+ * Run all actions configured on a rule for a newly created violation.
+ *
+ * Call this AFTER the violation has been committed - actions reference the
+ * violation ID in termination_logs. Failures are logged and reported in the
+ * results but never thrown, so one failing action doesn't block the others.
+ *
+ * @param rule - Rule that created the violation
+ * @param violation - The created violation with its server/session context
+ * @returns One result per configured action
+ *
+ * @example
+ * await executeRuleActions(rule, {
+ *   id: violation.id,
+ *   serverId: server.id,
+ *   serverUserId: violation.serverUserId,
+ *   sessionId: violation.sessionId,
+ *   data: violation.data,
+ * });
+ */
+export async function executeRuleActions(
+  rule: Rule,
+  violation: RuleActionViolation
+): Promise<RuleActionResult[]> {
+  const actions = rule.actions ?? [];
+  const results: RuleActionResult[] = [];
+
+  for (const action of actions) {
+    try {
+      results.push(await executeRuleAction(rule, violation, action));
+    } catch (error) {
+      console.error(`[RuleActions] Failed to run ${action.type} for rule "${rule.name}":`, error);
+      results.push({
+        action: action.type,
+        status: 'skipped',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,328 @@
+/**
+ * Rule Backtest Service
+ *
+ * Replays past sessions through the rule engine to show what a rule would have
+ * flagged. Nothing is written: no violations, trust score changes or rule actions.
+ *
+ * - Replay: each session is evaluated against the user's activity as it looked
+ *   when the session started
+ * - Summary: hypothetical violations per user and per day, and how they line up
+ *   with the violations the rule actually recorded
+ */
+
+import { and, desc, eq, gte, inArray } from 'drizzle-orm';
+import {
+  RULE_BACKTEST_LIMITS,
+  TIME_MS,
+  type KnownLocation,
+  type Rule,
+  type RuleBacktestDay,
+  type RuleBacktestOverlap,
+  type RuleBacktestResult,
+  type RuleBacktestUser,
+  type RuleBacktestViolation,
+  type Session,
+  type ViolationSeverity,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { serverUsers, sessions, violations } from '../db/schema.js';
+import {
+  batchGetDeviceHistory,
+  batchGetIdentityDeviceHistory,
+  batchGetKnownLocations,
+  batchGetPolicyProfiles,
+  batchGetRuleScopeTargets,
+} from '../jobs/poller/database.js';
+import { doesRuleApplyToUser, type RuleScopeTarget } from '../jobs/poller/violations.js';
+import { mapSessionRow } from '../jobs/poller/sessionMapper.js';
+import {
+  ruleEngine,
+  rulesUsePolicyProfile,
+  rulesUseType,
+  type DeviceHistoryEntry,
+  type RulePolicyProfile,
+} from './rules.js';
+
+// How far back each replayed session looks, matching batchGetRecentUserSessions
+const LOOKBACK_HOURS = 24;
+
+/**
+ * A session the rule would have flagged
+ */
+export interface BacktestHit {
+  session: Session;
+  severity: ViolationSeverity;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Everything the rule engine needs besides the sessions themselves
+ */
+export interface BacktestContext {
+  targets: Map<string, RuleScopeTarget>;
+  knownLocations: Map<string, KnownLocation[]>; // By identity (users.id)
+  deviceHistory: Map<string, DeviceHistoryEntry[]>; // By server user (identity if cross-server)
+  policyProfiles?: Map<string, RulePolicyProfile>; // By identity (users.id)
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * A server user's sessions in the lookback window before `at`, as they looked
+ * at that moment: sessions that had not stopped yet are playing.
+ *
+ * @param userSessions - The server user's sessions, newest first
+ */
+export function sessionsAsOf(userSessions: Session[], at: Date): Session[] {
+  const since = at.getTime() - LOOKBACK_HOURS * TIME_MS.HOUR;
+
+  return userSessions
+    .filter((s) => s.startedAt < at && s.startedAt.getTime() >= since)
+    .map((s) => {
+      const active = s.stoppedAt === null || s.stoppedAt > at;
+      return {
+        ...s,
+        state: active ? (s.state === 'stopped' ? 'playing' : s.state) : 'stopped',
+        stoppedAt: active ? null : s.stoppedAt,
+      };
+    });
+}
+
+/**
+ * Evaluate a rule against every session that started at or after windowStart.
+ * Earlier sessions only provide context: the server user's own, or those of
+ * every account linked to the identity for cross-server rules.
+ *
+ * @param history - All sessions to replay, newest first
+ */
+export async function replayRule(
+  rule: Rule,
+  history: Session[],
+  windowStart: Date,
+  context: BacktestContext
+): Promise<BacktestHit[]> {
+  const historyKey = (s: Session) =>
+    (rule.crossServer ? context.targets.get(s.serverUserId)?.userId : null) ?? s.serverUserId;
+
+  const byUser = new Map<string, Session[]>();
+  for (const s of history) {
+    const key = historyKey(s);
+    const list = byUser.get(key) ?? [];
+    list.push(s);
+    byUser.set(key, list);
+  }
+
+  const hits: BacktestHit[] = [];
+
+  for (const session of history) {
+    if (session.startedAt < windowStart) continue;
+
+    const target = context.targets.get(session.serverUserId) ?? {
+      serverUserId: session.serverUserId,
+      serverId: session.serverId,
+      userId: null,
+      role: null,
+      groupIds: [],
+      onProbation: false,
+    };
+    if (!doesRuleApplyToUser(rule, target)) continue;
+
+    // Evaluate the session as it was when it started
+    const asStarted: Session = { ...session, state: 'playing', stoppedAt: null, durationMs: null };
+    const results = await ruleEngine.evaluateSession(
+      asStarted,
+      [rule],
+      sessionsAsOf(byUser.get(historyKey(session)) ?? [], session.startedAt),
+      {
+        userId: target.userId,
+        knownLocations: target.userId ? (context.knownLocations.get(target.userId) ?? []) : [],
+        deviceHistory: context.deviceHistory.get(session.serverUserId) ?? [],
+        policyProfile: target.userId ? context.policyProfiles?.get(target.userId) : null,
+      }
+    );
+
+    const result = results[0];
+    if (result) {
+      hits.push({ session, severity: result.severity, data: result.data });
+    }
+  }
+
+  return hits;
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * Calendar date of a timestamp in a timezone ("2025-07-01")
+ */
+function toDateKey(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Hypothetical violation counts for every day from `from` to `to`, including empty days
+ */
+export function countByDay(
+  hits: BacktestHit[],
+  from: Date,
+  to: Date,
+  timeZone: string
+): RuleBacktestDay[] {
+  const counts = new Map<string, number>();
+
+  // Step by half days so DST transitions can't skip a date
+  for (let t = from.getTime(); t <= to.getTime(); t += TIME_MS.HOUR * 12) {
+    counts.set(toDateKey(new Date(t), timeZone), 0);
+  }
+  counts.set(toDateKey(to, timeZone), 0);
+
+  for (const hit of hits) {
+    const key = toDateKey(hit.session.startedAt, timeZone);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, count]) => ({ date, count }));
+}
+
+/**
+ * Compare hypothetical violations with the rule's recorded ones, matched by session
+ */
+export function compareWithExisting(
+  hits: BacktestHit[],
+  existing: { id: string; sessionId: string }[]
+): { overlap: RuleBacktestOverlap; existingBySession: Map<string, string> } {
+  const existingBySession = new Map(existing.map((v) => [v.sessionId, v.id]));
+  const matchedCount = hits.filter((h) => existingBySession.has(h.session.id)).length;
+
+  return {
+    overlap: {
+      existingCount: existingBySession.size,
+      matchedCount,
+      newCount: hits.length - matchedCount,
+      missedCount: existingBySession.size - matchedCount,
+    },
+    existingBySession,
+  };
+}
+
+// ============================================================================
+// Backtest
+// ============================================================================
+
+/**
+ * Replay the last `days` days of sessions through a rule
+ *
+ * @param rule - The rule to test, possibly with unsaved params
+ * @param options.timezone - Timezone used to bucket violations by day
+ */
+export async function backtestRule(
+  rule: Rule,
+  options: { days: number; timezone: string; now?: Date }
+): Promise<RuleBacktestResult> {
+  const to = options.now ?? new Date();
+  const requestedFrom = new Date(to.getTime() - options.days * TIME_MS.DAY);
+
+  // Newest sessions first, plus a lookback so the oldest replayed sessions have context
+  const lookbackStart = new Date(requestedFrom.getTime() - LOOKBACK_HOURS * TIME_MS.HOUR);
+  const rows = await db
+    .select()
+    .from(sessions)
+    .where(gte(sessions.startedAt, lookbackStart))
+    .orderBy(desc(sessions.startedAt))
+    .limit(RULE_BACKTEST_LIMITS.MAX_SESSIONS + 1);
+
+  const truncated = rows.length > RULE_BACKTEST_LIMITS.MAX_SESSIONS;
+  const history = rows.slice(0, RULE_BACKTEST_LIMITS.MAX_SESSIONS).map(mapSessionRow);
+
+  // When truncated, only replay sessions with a full lookback behind them
+  const oldest = history[history.length - 1];
+  const from =
+    truncated && oldest
+      ? new Date(oldest.startedAt.getTime() + LOOKBACK_HOURS * TIME_MS.HOUR)
+      : requestedFrom;
+
+  const serverUserIds = [...new Set(history.map((s) => s.serverUserId))];
+  const targets = await batchGetRuleScopeTargets(serverUserIds);
+  const userIds = [...new Set([...targets.values()].flatMap((t) => (t.userId ? [t.userId] : [])))];
+  const context: BacktestContext = {
+    targets,
+    knownLocations: await batchGetKnownLocations(userIds),
+    deviceHistory: !rulesUseType([rule], 'device_novelty')
+      ? new Map<string, DeviceHistoryEntry[]>()
+      : rule.crossServer
+        ? await batchGetIdentityDeviceHistory(serverUserIds)
+        : await batchGetDeviceHistory(serverUserIds),
+    policyProfiles: rulesUsePolicyProfile([rule])
+      ? await batchGetPolicyProfiles(userIds)
+      : new Map<string, RulePolicyProfile>(),
+  };
+
+  const hits = await replayRule(rule, history, from, context);
+
+  const existing = await db
+    .select({ id: violations.id, sessionId: violations.sessionId })
+    .from(violations)
+    .innerJoin(sessions, eq(violations.sessionId, sessions.id))
+    .where(and(eq(violations.ruleId, rule.id), gte(sessions.startedAt, from)));
+  const { overlap, existingBySession } = compareWithExisting(hits, existing);
+
+  const hitUserIds = [...new Set(hits.map((h) => h.session.serverUserId))];
+  const usernameRows =
+    hitUserIds.length > 0
+      ? await db
+          .select({ id: serverUsers.id, username: serverUsers.username })
+          .from(serverUsers)
+          .where(inArray(serverUsers.id, hitUserIds))
+      : [];
+  const usernames = new Map(usernameRows.map((u) => [u.id, u.username]));
+
+  const userCounts = new Map<string, number>();
+  for (const hit of hits) {
+    userCounts.set(hit.session.serverUserId, (userCounts.get(hit.session.serverUserId) ?? 0) + 1);
+  }
+  const users: RuleBacktestUser[] = [...userCounts.entries()]
+    .map(([serverUserId, violationCount]) => ({
+      serverUserId,
+      username: usernames.get(serverUserId) ?? 'Unknown',
+      violationCount,
+    }))
+    .sort((a, b) => b.violationCount - a.violationCount);
+
+  const listed: RuleBacktestViolation[] = hits
+    .slice(0, RULE_BACKTEST_LIMITS.MAX_VIOLATIONS)
+    .map(({ session, severity, data }) => ({
+      sessionId: session.id,
+      serverUserId: session.serverUserId,
+      username: usernames.get(session.serverUserId) ?? 'Unknown',
+      serverId: session.serverId,
+      mediaTitle: session.mediaTitle,
+      startedAt: session.startedAt,
+      severity,
+      data,
+      existingViolationId: existingBySession.get(session.id) ?? null,
+    }));
+
+  return {
+    ruleId: rule.id,
+    from,
+    to,
+    sessionCount: history.filter((s) => s.startedAt >= from).length,
+    truncated,
+    violationCount: hits.length,
+    violations: listed,
+    users,
+    daily: countByDay(hits, from, to, options.timezone),
+    overlap,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Rule Schedule Evaluation
+ *
+ * Decides whether a rule is enforced at a given moment based on its schedule:
+ * - Time windows (days of week + hours) in the schedule's timezone
+ * - Date-range suspensions for one identity or everyone (e.g., vacations)
+ */
+
+import type { RuleSchedule, RuleScheduleWindow } from '@tracearr/shared';
+import { getZonedTime, isWithinTimeRange, parseTimeOfDay, type ZonedTime } from './quietHours.js';
+
+/**
+ * Check if a local time falls within a schedule window
+ *
+ * Overnight windows belong to the day they start on, so "Fri 22:00 - 02:00"
+ * also covers early Saturday morning.
+ */
+export function isInScheduleWindow(window: RuleScheduleWindow, time: ZonedTime): boolean {
+  if (!isWithinTimeRange(time.minutes, window.startTime, window.endTime)) {
+    return false;
+  }
+
+  const isOvernight = parseTimeOfDay(window.startTime) > parseTimeOfDay(window.endTime);
+  if (isOvernight && time.minutes <= parseTimeOfDay(window.endTime)) {
+    // After midnight - the window started the previous day
+    return window.days.includes((time.weekday + 6) % 7);
+  }
+
+  return window.days.includes(time.weekday);
+}
+
+/**
+ * Check if a rule schedule is active at a moment for an identity
+ *
+ * @param schedule - Rule schedule, null means always active
+ * @param at - Moment to check (usually the session start)
+ * @param userId - Identity (users.id) the session belongs to, if known
+ * @returns true if the rule should be evaluated
+ */
+export function isRuleScheduleActive(
+  schedule: RuleSchedule | null | undefined,
+  at: Date,
+  userId: string | null
+): boolean {
+  if (!schedule) return true;
+
+  const time = getZonedTime(at, schedule.timezone);
+
+  const isSuspended = schedule.suspensions.some(
+    (suspension) =>
+      (suspension.userId === null || suspension.userId === userId) &&
+      time.date >= suspension.startDate &&
+      time.date <= suspension.endDate
+  );
+  if (isSuspended) return false;
+
+  if (schedule.windows.length === 0) return true;
+
+  return schedule.windows.some((window) => isInScheduleWindow(window, time));
+}
@@ -9,10 +9,26 @@ import type {
   ImpossibleTravelParams,
   SimultaneousLocationsParams,
   DeviceVelocityParams,
+  DeviceNoveltyParams,
   ConcurrentStreamsParams,
   GeoRestrictionParams,
+  AnonymousNetworkParams,
+  StreamQualityParams,
+  TranscodeResolution,
+  CompositeParams,
+  CompositeGroup,
+  CompositeNode,
+  CompositeMatchedCondition,
+  RuleType,
+  RuleParams,
+  KnownLocation,
+  PolicyProfile,
 } from '@tracearr/shared';
-import { GEOIP_CONFIG, TIME_MS } from '@tracearr/shared';
+import { GEOIP_CONFIG, TIME_MS, getSeverityPriority } from '@tracearr/shared';
+import { isRuleScheduleActive } from './ruleSchedule.js';
+import { matchKnownLocation } from './knownLocations.js';
+import { asnService } from './asn.js';
+import { geoipService } from './geoip.js';
 
 export interface RuleEvaluationResult {
   violated: boolean;
@@ -20,16 +36,141 @@ export interface RuleEvaluationResult {
   data: Record<string, unknown>;
 }
 
+/**
+ * A violated rule result paired with the rule that produced it
+ */
+export interface RuleViolationResult extends RuleEvaluationResult {
+  rule: Rule;
+}
+
+/**
+ * When a server user first used a device on a platform
+ */
+export interface DeviceHistoryEntry {
+  deviceId: string | null;
+  platform: string | null;
+  firstSeenAt: Date;
+}
+
+/**
+ * The limits of an identity's policy profile
+ */
+export type RulePolicyProfile = Pick<
+  PolicyProfile,
+  'id' | 'name' | 'maxStreams' | 'allowedCountries' | 'maxTranscodes'
+>;
+
+/**
+ * Extra information about the session's owner used while evaluating
+ */
+export interface RuleEvaluationContext {
+  userId?: string | null; // Identity (users.id), for per-identity schedule suspensions
+  knownLocations?: KnownLocation[]; // The identity's known locations, for location rules
+  deviceHistory?: DeviceHistoryEntry[]; // The server user's full device history, for device_novelty
+  // Device history of every server account linked to the identity, for cross-server rules
+  identityDeviceHistory?: DeviceHistoryEntry[];
+  policyProfile?: RulePolicyProfile | null; // The identity's profile, for rules with useProfile
+}
+
+/**
+ * Whether any rule checks the given type, directly or as a composite condition.
+ * Lets callers skip loading context that no active rule needs.
+ */
+export function rulesUseType(rules: Rule[], type: RuleType): boolean {
+  const groupUsesType = (group: CompositeGroup): boolean =>
+    group.conditions.some((node) =>
+      node.kind === 'group' ? groupUsesType(node) : node.type === type
+    );
+
+  return rules.some(
+    (rule) =>
+      rule.type === type ||
+      (rule.type === 'composite' && groupUsesType((rule.params as CompositeParams).root))
+  );
+}
+
+/**
+ * Whether any rule reads its thresholds from policy profiles, directly or in a
+ * composite condition. Lets callers skip loading profiles when none do.
+ */
+export function rulesUsePolicyProfile(rules: Rule[]): boolean {
+  const usesProfile = (params: RuleParams) =>
+    (params as { useProfile?: boolean }).useProfile === true;
+  const groupUsesProfile = (group: CompositeGroup): boolean =>
+    group.conditions.some((node) =>
+      node.kind === 'group' ? groupUsesProfile(node) : usesProfile(node.params)
+    );
+
+  return rules.some((rule) =>
+    rule.type === 'composite'
+      ? groupUsesProfile((rule.params as CompositeParams).root)
+      : usesProfile(rule.params)
+  );
+}
+
+/**
+ * Replace a rule's thresholds with those of a policy profile.
+ * Returns null when the profile sets no limit the rule type checks.
+ */
+export function applyPolicyProfile(
+  type: RuleType,
+  params: RuleParams,
+  profile: RulePolicyProfile
+): RuleParams | null {
+  switch (type) {
+    case 'concurrent_streams':
+      return profile.maxStreams === null ? null : { ...params, maxStreams: profile.maxStreams };
+    case 'geo_restriction':
+      return profile.allowedCountries === null
+        ? null
+        : { ...params, mode: 'allowlist', countries: profile.allowedCountries };
+    case 'stream_quality':
+      // Bandwidth and transcode share limits still come from the rule, as does the
+      // transcode limit when the profile sets none
+      return profile.maxTranscodes === null
+        ? params
+        : ({ ...params, maxConcurrentTranscodes: profile.maxTranscodes } as StreamQualityParams);
+    default:
+      return params;
+  }
+}
+
+// Minimum video height for each stream_quality transcode resolution threshold
+const TRANSCODE_RESOLUTION_HEIGHTS: Record<TranscodeResolution, number> = {
+  any: 0,
+  '720p': 720,
+  '1080p': 1080,
+  '4K': 2160,
+};
+
+/**
+ * Video height of a session quality string ("4K", "1080p", "SD", ...).
+ * Bitrate-only and unknown qualities return 0.
+ */
+function qualityHeight(quality: string | null): number {
+  if (!quality) return 0;
+  if (quality === '4K') return 2160;
+  if (quality === 'SD') return 480;
+  const match = /^(\d+)p$/.exec(quality);
+  return match ? Number(match[1]) : 0;
+}
+
 export class RuleEngine {
   /**
    * Evaluate all active rules against a new session
+   *
+   * recentSessions may include sessions of other server accounts linked to the
+   * same identity. Only cross-server rules see them; every other rule only sees
+   * the session owner's own sessions.
    */
   async evaluateSession(
     session: Session,
     activeRules: Rule[],
-    recentSessions: Session[]
-  ): Promise<RuleEvaluationResult[]> {
-    const results: RuleEvaluationResult[] = [];
+    recentSessions: Session[],
+    context: RuleEvaluationContext = {}
+  ): Promise<RuleViolationResult[]> {
+    const results: RuleViolationResult[] = [];
+    const ownSessions = recentSessions.filter((s) => s.serverUserId === session.serverUserId);
 
     for (const rule of activeRules) {
       // Skip rules that don't apply to this server user
@@ -37,47 +178,129 @@ export class RuleEngine {
         continue;
       }
 
-      const result = await this.evaluateRule(rule, session, recentSessions);
+      // Skip rules outside their schedule when the session started
+      if (!isRuleScheduleActive(rule.schedule, new Date(session.startedAt), context.userId ?? null)) {
+        continue;
+      }
+
+      if (!rule.crossServer) {
+        const result = await this.evaluateRule(rule, session, ownSessions, context);
+        if (result.violated) {
+          results.push({ ...result, rule });
+        }
+        continue;
+      }
+
+      const result = await this.evaluateRule(rule, session, recentSessions, {
+        ...context,
+        deviceHistory: context.identityDeviceHistory ?? context.deviceHistory,
+      });
       if (result.violated) {
-        results.push(result);
+        results.push({
+          ...result,
+          data: this.withInvolvedServerUsers(result.data, session, recentSessions),
+          rule,
+        });
       }
     }
 
     return results;
   }
 
+  /**
+   * Record which server accounts a cross-server violation involves, when the
+   * related sessions span more than the session owner's account
+   */
+  private withInvolvedServerUsers(
+    data: Record<string, unknown>,
+    session: Session,
+    recentSessions: Session[]
+  ): Record<string, unknown> {
+    const relatedSessionIds = Array.isArray(data.relatedSessionIds)
+      ? (data.relatedSessionIds as string[])
+      : [];
+    const serverUserIds = new Set([session.serverUserId]);
+    for (const s of recentSessions) {
+      if (relatedSessionIds.includes(s.id)) {
+        serverUserIds.add(s.serverUserId);
+      }
+    }
+
+    return serverUserIds.size > 1 ? { ...data, serverUserIds: [...serverUserIds] } : data;
+  }
+
   private async evaluateRule(
     rule: Rule,
     session: Session,
-    recentSessions: Session[]
+    recentSessions: Session[],
+    context: RuleEvaluationContext
   ): Promise<RuleEvaluationResult> {
-    switch (rule.type) {
+    return this.evaluateCheck(rule.type, rule.params, session, recentSessions, context);
+  }
+
+  private async evaluateCheck(
+    type: RuleType,
+    params: RuleParams,
+    session: Session,
+    recentSessions: Session[],
+    context: RuleEvaluationContext
+  ): Promise<RuleEvaluationResult> {
+    const profile = context.policyProfile;
+    if (profile && (params as { useProfile?: boolean }).useProfile) {
+      const profileParams = applyPolicyProfile(type, params, profile);
+      if (profileParams === null) {
+        return { violated: false, severity: 'low', data: {} };
+      }
+      const result = await this.evaluateCheck(type, profileParams, session, recentSessions, {
+        ...context,
+        policyProfile: null,
+      });
+      return result.violated
+        ? { ...result, data: { ...result.data, policyProfile: profile.name } }
+        : result;
+    }
+
+    switch (type) {
       case 'impossible_travel':
         return this.checkImpossibleTravel(
           session,
           recentSessions,
-          rule.params as ImpossibleTravelParams
+          params as ImpossibleTravelParams
         );
       case 'simultaneous_locations':
         return this.checkSimultaneousLocations(
           session,
           recentSessions,
-          rule.params as SimultaneousLocationsParams
+          params as SimultaneousLocationsParams,
+          context.knownLocations ?? []
         );
       case 'device_velocity':
         return this.checkDeviceVelocity(
           session,
           recentSessions,
-          rule.params as DeviceVelocityParams
+          params as DeviceVelocityParams,
+          context.knownLocations ?? []
+        );
+      case 'device_novelty':
+        return this.checkDeviceNovelty(
+          session,
+          params as DeviceNoveltyParams,
+          context.deviceHistory ?? []
         );
       case 'concurrent_streams':
         return this.checkConcurrentStreams(
           session,
           recentSessions,
-          rule.params as ConcurrentStreamsParams
+          params as ConcurrentStreamsParams
         );
       case 'geo_restriction':
-        return this.checkGeoRestriction(session, rule.params as GeoRestrictionParams);
+        return this.checkGeoRestriction(session, params as GeoRestrictionParams);
+      case 'anonymous_network':
+        return this.checkAnonymousNetwork(session, params as AnonymousNetworkParams);
+      case 'stream_quality':
+        return this.checkStreamQuality(session, recentSessions, params as StreamQualityParams);
+      case 'composite':
+        return this.checkComposite(session, recentSessions, params as CompositeParams, context);
       default:
         return { violated: false, severity: 'low', data: {} };
     }
@@ -88,14 +311,22 @@ export class RuleEngine {
     recentSessions: Session[],
     params: ImpossibleTravelParams
   ): RuleEvaluationResult {
-    // Find most recent session from same server user with different location
+    // VPN/proxy exits geolocate to the provider, not the user
+    const isAnonymous = (s: Session) =>
+      params.ignoreVpnRanges === true && asnService.getAnonymousCategories(s.ipAddress).length > 0;
+
+    if (isAnonymous(session)) {
+      return { violated: false, severity: 'low', data: {} };
+    }
+
+    // Find most recent session with a different location
     const userSessions = recentSessions.filter(
       (s) =>
-        s.serverUserId === session.serverUserId &&
         s.geoLat !== null &&
         s.geoLon !== null &&
         session.geoLat !== null &&
-        session.geoLon !== null
+        session.geoLon !== null &&
+        !isAnonymous(s)
     );
 
     for (const prevSession of userSessions) {
@@ -122,6 +353,7 @@ export class RuleEngine {
               timeDiffHours,
               calculatedSpeed: speed,
               maxAllowedSpeed: params.maxSpeedKmh,
+              relatedSessionIds: [prevSession.id],
             },
           };
         }
@@ -131,15 +363,20 @@ export class RuleEngine {
     return { violated: false, severity: 'low', data: {} };
   }
 
+  /**
+   * With knownLocationMode set, a conflict between two known locations (e.g.,
+   * home and a partner's home) is either dropped ('ignore') or reported at low
+   * severity when it's the only kind of conflict ('downweight').
+   */
   private checkSimultaneousLocations(
     session: Session,
     recentSessions: Session[],
-    params: SimultaneousLocationsParams
+    params: SimultaneousLocationsParams,
+    knownLocations: KnownLocation[]
   ): RuleEvaluationResult {
-    // Check for active sessions from same server user at different locations
+    // Check for active sessions at different locations
     const activeSessions = recentSessions.filter(
       (s) =>
-        s.serverUserId === session.serverUserId &&
         s.state === 'playing' &&
         s.geoLat !== null &&
         s.geoLon !== null &&
@@ -160,10 +397,20 @@ export class RuleEngine {
       return distance > params.minDistanceKm;
     });
 
-    if (conflictingSessions.length > 0) {
+    const mode = params.knownLocationMode ?? 'off';
+    const isKnown = (s: Session) =>
+      mode !== 'off' && matchKnownLocation(knownLocations, s) !== null;
+    const sessionIsKnown = isKnown(session);
+    const unexplainedSessions = conflictingSessions.filter(
+      (s) => !(sessionIsKnown && isKnown(s))
+    );
+    const reportedSessions = mode === 'ignore' ? unexplainedSessions : conflictingSessions;
+    const downweighted = mode === 'downweight' && unexplainedSessions.length === 0;
+
+    if (reportedSessions.length > 0) {
       // Calculate max distance for reporting
       const maxDistance = Math.max(
-        ...conflictingSessions.map((s) =>
+        ...reportedSessions.map((s) =>
           this.calculateDistance(s.geoLat!, s.geoLon!, session.geoLat!, session.geoLon!)
         )
       );
@@ -171,7 +418,7 @@ export class RuleEngine {
       // Collect all unique locations (including triggering session)
       const allLocations = [
         { lat: session.geoLat, lon: session.geoLon, sessionId: session.id },
-        ...conflictingSessions.map((s) => ({
+        ...reportedSessions.map((s) => ({
           lat: s.geoLat,
           lon: s.geoLon,
           sessionId: s.id,
@@ -179,17 +426,18 @@ export class RuleEngine {
       ];
 
       // Collect all session IDs for deduplication and related sessions lookup
-      const relatedSessionIds = conflictingSessions.map((s) => s.id);
+      const relatedSessionIds = reportedSessions.map((s) => s.id);
 
       return {
         violated: true,
-        severity: 'warning',
+        severity: downweighted ? 'low' : 'warning',
         data: {
           locations: allLocations,
           locationCount: allLocations.length,
           distance: maxDistance,
           minRequiredDistance: params.minDistanceKm,
           relatedSessionIds,
+          ...(downweighted && { knownLocationsOnly: true }),
         },
       };
     }
@@ -197,29 +445,46 @@ export class RuleEngine {
     return { violated: false, severity: 'low', data: {} };
   }
 
+  /**
+   * With knownLocationMode set, IPs used from known locations (e.g., a mobile
+   * carrier's rotating range) are either not counted ('ignore') or only lower
+   * the violation to low severity when they're what pushes it over ('downweight').
+   */
   private checkDeviceVelocity(
     session: Session,
     recentSessions: Session[],
-    params: DeviceVelocityParams
+    params: DeviceVelocityParams,
+    knownLocations: KnownLocation[]
   ): RuleEvaluationResult {
     const windowStart = new Date(session.startedAt.getTime() - params.windowHours * TIME_MS.HOUR);
 
-    const userSessions = recentSessions.filter(
-      (s) => s.serverUserId === session.serverUserId && s.startedAt >= windowStart
-    );
+    const userSessions = recentSessions.filter((s) => s.startedAt >= windowStart);
 
     const uniqueIps = new Set(userSessions.map((s) => s.ipAddress));
     uniqueIps.add(session.ipAddress);
 
-    if (uniqueIps.size > params.maxIps) {
+    const mode = params.knownLocationMode ?? 'off';
+    const unknownIps =
+      mode === 'off'
+        ? uniqueIps
+        : new Set(
+            [...userSessions, session]
+              .filter((s) => matchKnownLocation(knownLocations, s) === null)
+              .map((s) => s.ipAddress)
+          );
+    const countedIps = mode === 'ignore' ? unknownIps : uniqueIps;
+    const downweighted = mode === 'downweight' && unknownIps.size <= params.maxIps;
+
+    if (countedIps.size > params.maxIps) {
       return {
         violated: true,
-        severity: 'warning',
+        severity: downweighted ? 'low' : 'warning',
         data: {
-          uniqueIpCount: uniqueIps.size,
+          uniqueIpCount: countedIps.size,
           maxAllowedIps: params.maxIps,
           windowHours: params.windowHours,
-          ips: Array.from(uniqueIps),
+          ips: Array.from(countedIps),
+          ...(mode !== 'off' && { knownIpCount: uniqueIps.size - unknownIps.size }),
         },
       };
     }
@@ -227,6 +492,75 @@ export class RuleEngine {
     return { violated: false, severity: 'low', data: {} };
   }
 
+  private checkDeviceNovelty(
+    session: Session,
+    params: DeviceNoveltyParams,
+    deviceHistory: DeviceHistoryEntry[]
+  ): RuleEvaluationResult {
+    // Only history from before this session counts as "seen"
+    const priorHistory = deviceHistory.filter((e) => e.firstSeenAt < session.startedAt);
+
+    // Nothing to compare a brand-new account against
+    if (priorHistory.length === 0) {
+      return { violated: false, severity: 'low', data: {} };
+    }
+
+    const windowStart = new Date(session.startedAt.getTime() - params.windowHours * TIME_MS.HOUR);
+
+    // Earliest sighting of each device
+    const firstSeen = new Map<string, DeviceHistoryEntry>();
+    for (const entry of priorHistory) {
+      if (!entry.deviceId) continue;
+      const existing = firstSeen.get(entry.deviceId);
+      if (!existing || entry.firstSeenAt < existing.firstSeenAt) {
+        firstSeen.set(entry.deviceId, entry);
+      }
+    }
+
+    const isNewDevice = session.deviceId !== null && !firstSeen.has(session.deviceId);
+    const knownPlatforms = [
+      ...new Set(priorHistory.flatMap((e) => (e.platform ? [e.platform] : []))),
+    ];
+    const isNewPlatform =
+      params.alertOnNewPlatform &&
+      session.platform !== null &&
+      !knownPlatforms.includes(session.platform);
+
+    const newDevices = [...firstSeen.values()]
+      .filter((e) => e.firstSeenAt >= windowStart)
+      .map((e) => ({ deviceId: e.deviceId, platform: e.platform, firstSeenAt: e.firstSeenAt }));
+    if (isNewDevice) {
+      newDevices.push({
+        deviceId: session.deviceId,
+        platform: session.platform,
+        firstSeenAt: session.startedAt,
+      });
+    }
+
+    // Only the session that adds a device can complete a burst
+    const isBurst = isNewDevice && newDevices.length > params.maxNewDevices;
+
+    if (!isBurst && !isNewPlatform) {
+      return { violated: false, severity: 'low', data: {} };
+    }
+
+    return {
+      violated: true,
+      severity: isBurst ? 'warning' : 'low',
+      data: {
+        deviceId: session.deviceId,
+        platform: session.platform,
+        newDevices,
+        newDeviceCount: newDevices.length,
+        maxNewDevices: params.maxNewDevices,
+        windowHours: params.windowHours,
+        burst: isBurst,
+        newPlatform: isNewPlatform,
+        knownPlatforms,
+      },
+    };
+  }
+
   private checkConcurrentStreams(
     session: Session,
     recentSessions: Session[],
@@ -234,7 +568,6 @@ export class RuleEngine {
   ): RuleEvaluationResult {
     const activeSessions = recentSessions.filter(
       (s) =>
-        s.serverUserId === session.serverUserId &&
         s.state === 'playing' &&
         // Exclude sessions from the same device (likely reconnects/stale sessions)
         // A single device can only play one stream at a time
@@ -292,6 +625,261 @@ export class RuleEngine {
     return { violated: false, severity: 'low', data: {} };
   }
 
+  /**
+   * Flag sessions from hosting providers, VPN exits, Tor exits or public proxies.
+   * Categories come from the anonymous IP database; listed ASNs are flagged
+   * even without it.
+   */
+  private checkAnonymousNetwork(
+    session: Session,
+    params: AnonymousNetworkParams
+  ): RuleEvaluationResult {
+    const enabledCategories = params.categories ?? [];
+    const categories = asnService
+      .getAnonymousCategories(session.ipAddress)
+      .filter((category) => enabledCategories.includes(category));
+    const isListedAsn = session.asn !== null && (params.asns ?? []).includes(session.asn);
+
+    if (categories.length === 0 && !isListedAsn) {
+      return { violated: false, severity: 'low', data: {} };
+    }
+
+    return {
+      violated: true,
+      severity: 'warning',
+      data: {
+        ipAddress: session.ipAddress,
+        asn: session.asn,
+        asnOrg: session.asnOrg,
+        categories,
+        listedAsn: isListedAsn,
+      },
+    };
+  }
+
+  /**
+   * Enforce transcode and bandwidth limits. Only the session that pushes a user
+   * over a limit violates it, so a direct play never trips a transcode limit.
+   *
+   * Concurrent limits skip streams from the same device and the stream this
+   * session replaced after a quality change, which is still playing in
+   * recentSessions when the new session is evaluated.
+   */
+  private checkStreamQuality(
+    session: Session,
+    recentSessions: Session[],
+    params: StreamQualityParams
+  ): RuleEvaluationResult {
+    const chainId = session.referenceId;
+    const isSamePlayback = (s: Session) =>
+      chainId !== null && (s.id === chainId || s.referenceId === chainId);
+
+    const userSessions = recentSessions.filter((s) => s.id !== session.id);
+    const otherStreams = userSessions.filter(
+      (s) =>
+        s.state === 'playing' &&
+        !(session.deviceId && s.deviceId && session.deviceId === s.deviceId) &&
+        !isSamePlayback(s)
+    );
+
+    const data: Record<string, unknown> = {
+      quality: session.quality,
+      isTranscode: session.isTranscode,
+      videoDecision: session.videoDecision,
+      bitrate: session.bitrate,
+    };
+    const relatedSessionIds = new Set<string>();
+    let severity: ViolationSeverity | null = null;
+
+    if (params.maxConcurrentTranscodes !== null) {
+      const minHeight = TRANSCODE_RESOLUTION_HEIGHTS[params.transcodeResolution];
+      const counts = (s: Session) => s.isTranscode && qualityHeight(s.quality) >= minHeight;
+
+      if (counts(session)) {
+        const transcodes = otherStreams.filter(counts);
+        if (transcodes.length + 1 > params.maxConcurrentTranscodes) {
+          severity = 'warning';
+          data.transcodeCount = transcodes.length + 1;
+          data.maxConcurrentTranscodes = params.maxConcurrentTranscodes;
+          data.transcodeResolution = params.transcodeResolution;
+          transcodes.forEach((s) => relatedSessionIds.add(s.id));
+        }
+      }
+    }
+
+    if (params.maxRemoteBitrateMbps !== null) {
+      const isRemote = (s: Session) => !geoipService.isPrivateIP(s.ipAddress);
+
+      if (isRemote(session)) {
+        const remoteStreams = otherStreams.filter(isRemote);
+        const totalKbps = [session, ...remoteStreams].reduce(
+          (sum, s) => sum + (s.bitrate ?? 0),
+          0
+        );
+        const totalMbps = Math.round(totalKbps / 100) / 10;
+        if (totalMbps > params.maxRemoteBitrateMbps) {
+          severity = 'warning';
+          data.remoteBitrateMbps = totalMbps;
+          data.maxRemoteBitrateMbps = params.maxRemoteBitrateMbps;
+          data.remoteStreamCount = remoteStreams.length + 1;
+          remoteStreams.forEach((s) => relatedSessionIds.add(s.id));
+        }
+      }
+    }
+
+    if (params.maxTranscodePercent !== null && session.isTranscode) {
+      // A playback split by quality changes or resumes counts once,
+      // as a transcode if any part of it transcoded
+      const plays = new Map<string, boolean>();
+      for (const s of [...userSessions, session]) {
+        const key = s.referenceId ?? s.id;
+        plays.set(key, (plays.get(key) ?? false) || s.isTranscode);
+      }
+      const transcoded = [...plays.values()].filter(Boolean).length;
+      const transcodePercent = Math.round((transcoded / plays.size) * 100);
+      if (plays.size >= params.minSessions && transcodePercent >= params.maxTranscodePercent) {
+        severity ??= 'low';
+        data.transcodePercent = transcodePercent;
+        data.maxTranscodePercent = params.maxTranscodePercent;
+        data.playCount = plays.size;
+      }
+    }
+
+    if (severity === null) {
+      return { violated: false, severity: 'low', data: {} };
+    }
+
+    return {
+      violated: true,
+      severity,
+      data: { ...data, relatedSessionIds: [...relatedSessionIds] },
+    };
+  }
+
+  /**
+   * Evaluate a composite rule's AND/OR condition tree.
+   *
+   * Severity is the highest severity among matched conditions. Violation data
+   * records every matched condition (with its tree path and check data) and the
+   * union of related sessions so deduplication and rule actions keep working.
+   */
+  private async checkComposite(
+    session: Session,
+    recentSessions: Session[],
+    params: CompositeParams,
+    context: RuleEvaluationContext
+  ): Promise<RuleEvaluationResult> {
+    if (!params.root) {
+      return { violated: false, severity: 'low', data: {} };
+    }
+
+    const { matched, conditions } = await this.evaluateCompositeGroup(
+      params.root,
+      '',
+      session,
+      recentSessions,
+      context
+    );
+
+    if (!matched || conditions.length === 0) {
+      return { violated: false, severity: 'low', data: {} };
+    }
+
+    const severity = conditions.reduce<ViolationSeverity>(
+      (max, c) => (getSeverityPriority(c.severity) > getSeverityPriority(max) ? c.severity : max),
+      'low'
+    );
+
+    const relatedSessionIds = new Set<string>();
+    for (const condition of conditions) {
+      const ids = condition.data.relatedSessionIds;
+      if (Array.isArray(ids)) {
+        for (const id of ids as string[]) relatedSessionIds.add(id);
+      }
+    }
+
+    return {
+      violated: true,
+      severity,
+      data: {
+        operator: params.root.operator,
+        matchedBranches: conditions.map((c) => c.path),
+        matchedConditions: conditions,
+        relatedSessionIds: Array.from(relatedSessionIds),
+      },
+    };
+  }
+
+  private async evaluateCompositeGroup(
+    group: CompositeGroup,
+    path: string,
+    session: Session,
+    recentSessions: Session[],
+    context: RuleEvaluationContext
+  ): Promise<{ matched: boolean; conditions: CompositeMatchedCondition[] }> {
+    const matchedConditions: CompositeMatchedCondition[] = [];
+    let matchedCount = 0;
+
+    for (const [index, node] of group.conditions.entries()) {
+      const nodePath = path ? `${path}.${index}` : String(index);
+      const result = await this.evaluateCompositeNode(
+        node,
+        nodePath,
+        session,
+        recentSessions,
+        context
+      );
+
+      if (result.matched) {
+        matchedCount++;
+        matchedConditions.push(...result.conditions);
+      } else if (group.operator === 'and') {
+        // AND short-circuits on the first branch that doesn't match
+        return { matched: false, conditions: [] };
+      }
+    }
+
+    const matched =
+      group.operator === 'and'
+        ? group.conditions.length > 0 && matchedCount === group.conditions.length
+        : matchedCount > 0;
+
+    return { matched, conditions: matched ? matchedConditions : [] };
+  }
+
+  private async evaluateCompositeNode(
+    node: CompositeNode,
+    path: string,
+    session: Session,
+    recentSessions: Session[],
+    context: RuleEvaluationContext
+  ): Promise<{ matched: boolean; conditions: CompositeMatchedCondition[] }> {
+    if (node.kind === 'group') {
+      return this.evaluateCompositeGroup(node, path, session, recentSessions, context);
+    }
+
+    // Composite rules can't reference other composite rules - nest groups instead
+    if ((node.type as RuleType) === 'composite') {
+      return { matched: false, conditions: [] };
+    }
+
+    const result = await this.evaluateCheck(
+      node.type,
+      node.params,
+      session,
+      recentSessions,
+      context
+    );
+    if (!result.violated) {
+      return { matched: false, conditions: [] };
+    }
+
+    return {
+      matched: true,
+      conditions: [{ path, type: node.type, severity: result.severity, data: result.data }],
+    };
+  }
+
   /**
    * Calculate distance between two points using Haversine formula
    */
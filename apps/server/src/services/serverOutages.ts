@@ -0,0 +1,27 @@
+/**
+ * Server Outages Service
+ *
+ * Records when the poller loses and regains a media server, so downtime can be
+ * summarised later (see services/emailDigest.ts).
+ */
+
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '../db/client.js';
+import { serverOutages } from '../db/schema.js';
+
+/**
+ * Start an outage for a server that just went down
+ */
+export async function recordServerDown(serverId: string, at = new Date()): Promise<void> {
+  await db.insert(serverOutages).values({ serverId, startedAt: at });
+}
+
+/**
+ * End the server's open outage now that it is reachable again
+ */
+export async function recordServerUp(serverId: string, at = new Date()): Promise<void> {
+  await db
+    .update(serverOutages)
+    .set({ endedAt: at })
+    .where(and(eq(serverOutages.serverId, serverId), isNull(serverOutages.endedAt)));
+}
@@ -0,0 +1,405 @@
+/**
+ * User Suspension Service
+ *
+ * Time-boxed suspensions: the account is disabled on its media server (or the
+ * Plex share removed) and reinstated automatically when the suspension ends, by
+ * a delayed job on the suspension queue. Suspensions can be extended or lifted
+ * early, and suspending or reinstating a user sends a notification.
+ *
+ * The media server change is an account action, so reinstating undoes it and
+ * restores exactly the access the user had before.
+ */
+
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import {
+  SUSPENSION_ACTION_BY_SERVER_TYPE,
+  type ServerAccountAccess,
+  type ServerType,
+  type SuspensionEndReason,
+  type UserSuspension,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { serverUsers, userSuspensions, users } from '../db/schema.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import { cancelReinstatement, scheduleReinstatement } from '../jobs/suspensionQueue.js';
+import { enqueueNotification } from '../jobs/notificationQueue.js';
+import { executeAccountAction, undoAccountAction } from './accountActions.js';
+import type { SuspensionNotification } from './notify.js';
+import { ServerUserNotFoundError } from './userService.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SuspendUserOptions {
+  serverUserId: string;
+
+  /** How long the suspension lasts */
+  durationHours: number;
+
+  /** Shown in notifications and on the user page */
+  reason?: string;
+
+  /** User ID who suspended the user */
+  suspendedByUserId: string;
+}
+
+export interface SuspendUserResult {
+  success: boolean;
+  suspensionId: string | null;
+  /** The disable/remove share action (logged even when it failed) */
+  accountActionId: string;
+  endsAt: Date | null;
+  /** Access before the suspension (null if it couldn't be read) */
+  previousAccess: ServerAccountAccess | null;
+  error?: string;
+}
+
+export interface ExtendSuspensionOptions {
+  suspensionId: string;
+
+  /** Server user the suspension must belong to */
+  serverUserId: string;
+
+  /** Hours added to the current end */
+  hours: number;
+}
+
+export interface ExtendSuspensionResult {
+  previousEndsAt: Date;
+  endsAt: Date;
+}
+
+export interface LiftSuspensionOptions {
+  suspensionId: string;
+
+  /** Server user the suspension must belong to */
+  serverUserId: string;
+
+  /** User ID who is lifting the suspension */
+  liftedByUserId: string;
+}
+
+export interface EndSuspensionResult {
+  success: boolean;
+  error?: string;
+}
+
+type SuspensionRow = typeof userSuspensions.$inferSelect;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load a suspension that is still active, checking it belongs to the server user
+ *
+ * @throws NotFoundError if the suspension doesn't exist or belongs to another user
+ * @throws ConflictError if the suspension has already ended
+ */
+async function findActiveSuspension(
+  suspensionId: string,
+  serverUserId: string
+): Promise<SuspensionRow> {
+  const rows = await db
+    .select()
+    .from(userSuspensions)
+    .where(eq(userSuspensions.id, suspensionId))
+    .limit(1);
+
+  const suspension = rows[0];
+  if (suspension?.serverUserId !== serverUserId) {
+    throw new NotFoundError('Suspension', suspensionId);
+  }
+  if (suspension.endedAt) {
+    throw new ConflictError('Suspension has already ended');
+  }
+
+  return suspension;
+}
+
+/**
+ * Build the notification payload for a suspension
+ */
+async function buildNotification(
+  suspension: SuspensionRow,
+  endReason?: SuspensionEndReason
+): Promise<SuspensionNotification | null> {
+  const serverUser = await db.query.serverUsers.findFirst({
+    where: eq(serverUsers.id, suspension.serverUserId),
+    with: { server: true },
+  });
+  if (!serverUser) return null;
+
+  return {
+    serverUserId: serverUser.id,
+    username: serverUser.username,
+    serverId: serverUser.serverId,
+    serverName: serverUser.server.name,
+    reason: suspension.reason,
+    endsAt: suspension.endsAt.toISOString(),
+    endReason: endReason ?? null,
+  };
+}
+
+/**
+ * Reinstate the account and mark the suspension ended
+ */
+async function endSuspension(
+  suspension: SuspensionRow,
+  endReason: SuspensionEndReason,
+  endedByUserId: string | null
+): Promise<EndSuspensionResult> {
+  if (suspension.accountActionId) {
+    try {
+      const result = await undoAccountAction({
+        accountActionId: suspension.accountActionId,
+        serverUserId: suspension.serverUserId,
+        undoneByUserId: endedByUserId,
+      });
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+    } catch (err) {
+      // Already undone by hand from the user page - the account is reinstated
+      if (!(err instanceof ConflictError)) throw err;
+    }
+  }
+
+  await db
+    .update(userSuspensions)
+    .set({ endedAt: new Date(), endReason, endedByUserId })
+    .where(eq(userSuspensions.id, suspension.id));
+
+  const notification = await buildNotification(suspension, endReason);
+  if (notification) {
+    await enqueueNotification({ type: 'user_reinstated', payload: notification });
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Suspend a server user for a number of hours
+ *
+ * Media server failures are logged and returned rather than thrown, and no
+ * suspension is created.
+ *
+ * @throws ServerUserNotFoundError if the server user doesn't exist
+ * @throws ConflictError if the user is already suspended
+ * @throws ValidationError if the account is a server admin (from executeAccountAction)
+ *
+ * @example
+ * const result = await suspendUser({
+ *   serverUserId: 'uuid-123',
+ *   durationHours: 48,
+ *   reason: 'Sharing their account',
+ *   suspendedByUserId: adminUser.id,
+ * });
+ */
+export async function suspendUser(options: SuspendUserOptions): Promise<SuspendUserResult> {
+  const { serverUserId, durationHours, reason, suspendedByUserId } = options;
+
+  const serverUser = await db.query.serverUsers.findFirst({
+    where: eq(serverUsers.id, serverUserId),
+    with: { server: true },
+  });
+  if (!serverUser) {
+    throw new ServerUserNotFoundError(serverUserId);
+  }
+
+  if (await getActiveSuspension(serverUserId)) {
+    throw new ConflictError('User is already suspended');
+  }
+
+  const action = SUSPENSION_ACTION_BY_SERVER_TYPE[serverUser.server.type as ServerType];
+  const result = await executeAccountAction({
+    serverUserId,
+    action,
+    trigger: 'manual',
+    triggeredByUserId: suspendedByUserId,
+  });
+
+  if (!result.success) {
+    return {
+      success: false,
+      suspensionId: null,
+      accountActionId: result.accountActionId,
+      endsAt: null,
+      previousAccess: result.previousAccess,
+      error: result.error,
+    };
+  }
+
+  const endsAt = new Date(Date.now() + durationHours * 60 * 60 * 1000);
+  const inserted = await db
+    .insert(userSuspensions)
+    .values({
+      serverId: serverUser.serverId,
+      serverUserId,
+      accountActionId: result.accountActionId,
+      reason: reason || null,
+      endsAt,
+      suspendedByUserId,
+    })
+    .returning();
+
+  const suspension = inserted[0];
+  if (!suspension) {
+    throw new Error('Failed to create suspension');
+  }
+
+  await scheduleReinstatement(suspension.id, endsAt);
+
+  const notification = await buildNotification(suspension);
+  if (notification) {
+    await enqueueNotification({ type: 'user_suspended', payload: notification });
+  }
+
+  return {
+    success: true,
+    suspensionId: suspension.id,
+    accountActionId: result.accountActionId,
+    endsAt,
+    previousAccess: result.previousAccess,
+  };
+}
+
+/**
+ * Push back the end of an active suspension
+ *
+ * @throws NotFoundError if the suspension doesn't exist
+ * @throws ConflictError if the suspension has already ended
+ */
+export async function extendSuspension(
+  options: ExtendSuspensionOptions
+): Promise<ExtendSuspensionResult> {
+  const { suspensionId, serverUserId, hours } = options;
+
+  const suspension = await findActiveSuspension(suspensionId, serverUserId);
+  const endsAt = new Date(suspension.endsAt.getTime() + hours * 60 * 60 * 1000);
+
+  await db
+    .update(userSuspensions)
+    .set({ endsAt, reinstateError: null })
+    .where(eq(userSuspensions.id, suspensionId));
+  await scheduleReinstatement(suspensionId, endsAt);
+
+  return { previousEndsAt: suspension.endsAt, endsAt };
+}
+
+/**
+ * Reinstate a suspended user before the suspension ends
+ *
+ * Media server failures are returned and the suspension stays active.
+ *
+ * @throws NotFoundError if the suspension doesn't exist
+ * @throws ConflictError if the suspension has already ended
+ */
+export async function liftSuspension(options: LiftSuspensionOptions): Promise<EndSuspensionResult> {
+  const { suspensionId, serverUserId, liftedByUserId } = options;
+
+  const suspension = await findActiveSuspension(suspensionId, serverUserId);
+  const result = await endSuspension(suspension, 'lifted', liftedByUserId);
+
+  if (result.success) {
+    await cancelReinstatement(suspensionId);
+  }
+
+  return result;
+}
+
+/**
+ * Reinstate a user whose suspension has run out (run by the suspension queue)
+ *
+ * Suspensions that already ended or were extended past now are skipped.
+ *
+ * @throws Error if the media server couldn't be updated, so the job retries
+ */
+export async function reinstateSuspension(suspensionId: string): Promise<void> {
+  const rows = await db
+    .select()
+    .from(userSuspensions)
+    .where(eq(userSuspensions.id, suspensionId))
+    .limit(1);
+
+  const suspension = rows[0];
+  if (!suspension || suspension.endedAt) {
+    return;
+  }
+  if (suspension.endsAt.getTime() > Date.now()) {
+    // Extended after this job was scheduled - a later job reinstates it
+    return;
+  }
+
+  const result = await endSuspension(suspension, 'expired', null);
+  if (!result.success) {
+    throw new Error(result.error ?? `Failed to reinstate suspension ${suspensionId}`);
+  }
+
+  console.log(`[Suspensions] Reinstated server user ${suspension.serverUserId}`);
+}
+
+/**
+ * Record that the reinstatement job gave up (run by the suspension queue)
+ *
+ * The account stays disabled until the suspension is lifted by hand or the job is
+ * rescheduled on the next startup, so the error is shown on the suspension.
+ */
+export async function recordReinstateFailure(suspensionId: string, error: string): Promise<void> {
+  await db
+    .update(userSuspensions)
+    .set({ reinstateError: error })
+    .where(and(eq(userSuspensions.id, suspensionId), isNull(userSuspensions.endedAt)));
+
+  console.error(`[Suspensions] Gave up reinstating suspension ${suspensionId}: ${error}`);
+}
+
+/**
+ * Get a server user's active suspension, if any
+ */
+export async function getActiveSuspension(serverUserId: string): Promise<UserSuspension | null> {
+  const suspendedBy = alias(users, 'suspended_by');
+  const endedBy = alias(users, 'ended_by');
+
+  const rows = await db
+    .select({
+      id: userSuspensions.id,
+      serverId: userSuspensions.serverId,
+      serverUserId: userSuspensions.serverUserId,
+      accountActionId: userSuspensions.accountActionId,
+      reason: userSuspensions.reason,
+      endsAt: userSuspensions.endsAt,
+      suspendedByUsername: suspendedBy.username,
+      endedAt: userSuspensions.endedAt,
+      endReason: userSuspensions.endReason,
+      endedByUsername: endedBy.username,
+      reinstateError: userSuspensions.reinstateError,
+      createdAt: userSuspensions.createdAt,
+    })
+    .from(userSuspensions)
+    .leftJoin(suspendedBy, eq(userSuspensions.suspendedByUserId, suspendedBy.id))
+    .leftJoin(endedBy, eq(userSuspensions.endedByUserId, endedBy.id))
+    .where(
+      and(eq(userSuspensions.serverUserId, serverUserId), isNull(userSuspensions.endedAt))
+    )
+    .orderBy(desc(userSuspensions.createdAt))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Get every active suspension's end, for scheduling reinstatement on startup
+ */
+export async function getActiveSuspensionsToSchedule(): Promise<{ id: string; endsAt: Date }[]> {
+  return db
+    .select({ id: userSuspensions.id, endsAt: userSuspensions.endsAt })
+    .from(userSuspensions)
+    .where(isNull(userSuspensions.endedAt));
+}
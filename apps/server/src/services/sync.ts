@@ -5,15 +5,19 @@
  * delegating user operations to userService.
  */
 
-import { eq } from 'drizzle-orm';
+import { and, eq, ne } from 'drizzle-orm';
 import { db } from '../db/client.js';
-import { servers } from '../db/schema.js';
+import { servers, serverUsers } from '../db/schema.js';
+import { enqueueNotification } from '../jobs/notificationQueue.js';
+import { getProbationDays } from '../routes/settings.js';
 import {
   createMediaServerClient,
   PlexClient,
   type MediaUser,
 } from './mediaServer/index.js';
-import { syncUserFromMediaServer } from './userService.js';
+import { getServerUserSource, syncUserFromMediaServer } from './userService.js';
+
+type SyncedServer = Pick<typeof servers.$inferSelect, 'id' | 'name' | 'type'>;
 
 export interface SyncResult {
   usersAdded: number;
@@ -27,25 +31,63 @@ export interface SyncOptions {
   syncLibraries?: boolean;
 }
 
+/**
+ * Whether no accounts besides the owner's have been synced for a server yet
+ *
+ * Accounts found by the first sync already had access before Tracearr was set
+ * up, so they are neither announced nor put on probation.
+ */
+async function isInitialUserImport(serverId: string): Promise<boolean> {
+  const existing = await db
+    .select({ id: serverUsers.id })
+    .from(serverUsers)
+    .where(and(eq(serverUsers.serverId, serverId), ne(serverUsers.source, 'owner')))
+    .limit(1);
+
+  return existing.length === 0;
+}
+
 /**
  * Generic user sync - works for both Plex and Jellyfin
  *
  * Uses userService.upsertUserFromMediaServer to handle create/update logic,
  * eliminating duplicate code between syncPlexUsers and syncJellyfinUsers.
+ * New accounts record how they joined and are announced on the notification queue.
  */
 async function syncServerUsers(
-  serverId: string,
+  server: SyncedServer,
   mediaUsers: MediaUser[]
 ): Promise<{ added: number; updated: number; errors: string[] }> {
   const errors: string[] = [];
   let added = 0;
   let updated = 0;
 
+  const initialImport = await isInitialUserImport(server.id);
+  const probationDays = initialImport ? 0 : await getProbationDays();
+
   for (const mediaUser of mediaUsers) {
     try {
-      const result = await syncUserFromMediaServer(serverId, mediaUser);
+      const result = await syncUserFromMediaServer(server.id, mediaUser, {
+        source: getServerUserSource(server.type, mediaUser),
+        probationDays,
+      });
       if (result.created) {
         added++;
+        if (!initialImport) {
+          await enqueueNotification({
+            type: 'new_server_user',
+            payload: {
+              serverUserId: result.serverUser.id,
+              userId: result.user.id,
+              username: result.serverUser.username,
+              serverId: server.id,
+              serverName: server.name,
+              source: result.serverUser.source,
+              joinedAt: result.serverUser.joinedAt.toISOString(),
+              probationUntil: result.serverUser.probationUntil?.toISOString() ?? null,
+            },
+          });
+        }
       } else {
         updated++;
       }
@@ -90,13 +132,13 @@ async function fetchPlexUsers(token: string, serverUrl: string): Promise<MediaUs
  * Sync users from Plex server to local database
  */
 async function syncPlexUsers(
-  serverId: string,
+  server: SyncedServer,
   token: string,
   serverUrl: string
 ): Promise<{ added: number; updated: number; errors: string[] }> {
   try {
     const plexUsers = await fetchPlexUsers(token, serverUrl);
-    return syncServerUsers(serverId, plexUsers);
+    return syncServerUsers(server, plexUsers);
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error';
     return { added: 0, updated: 0, errors: [`Plex user sync failed: ${message}`] };
@@ -107,7 +149,7 @@ async function syncPlexUsers(
  * Sync users from Jellyfin server to local database
  */
 async function syncJellyfinUsers(
-  serverId: string,
+  server: SyncedServer,
   serverUrl: string,
   encryptedToken: string
 ): Promise<{ added: number; updated: number; errors: string[] }> {
@@ -118,7 +160,7 @@ async function syncJellyfinUsers(
       token: encryptedToken,
     });
     const jellyfinUsers = await client.getUsers();
-    return syncServerUsers(serverId, jellyfinUsers);
+    return syncServerUsers(server, jellyfinUsers);
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error';
     return { added: 0, updated: 0, errors: [`Jellyfin user sync failed: ${message}`] };
@@ -154,13 +196,13 @@ export async function syncServer(
   // Sync users
   if (options.syncUsers) {
     if (server.type === 'plex') {
-      const userResult = await syncPlexUsers(serverId, token, serverUrl);
+      const userResult = await syncPlexUsers(server, token, serverUrl);
       result.usersAdded = userResult.added;
       result.usersUpdated = userResult.updated;
       result.errors.push(...userResult.errors);
     } else if (server.type === 'jellyfin') {
       // Pass encrypted token - JellyfinService will decrypt
-      const userResult = await syncJellyfinUsers(serverId, serverUrl, server.token);
+      const userResult = await syncJellyfinUsers(server, serverUrl, server.token);
       result.usersAdded = userResult.added;
       result.usersUpdated = userResult.updated;
       result.errors.push(...userResult.errors);
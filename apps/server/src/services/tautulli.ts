@@ -9,6 +9,7 @@ import { db } from '../db/client.js';
 import { sessions, serverUsers, settings } from '../db/schema.js';
 import { refreshAggregates } from '../db/timescale.js';
 import { geoipService } from './geoip.js';
+import { asnService } from './asn.js';
 import type { PubSubService } from './cache.js';
 
 const PAGE_SIZE = 5000; // Larger batches = fewer API calls (tested up to 10k, scales linearly)
@@ -480,6 +481,7 @@ export class TautulliService {
 
     // === OPTIMIZATION: GeoIP cache (bounded - cleared every 50 pages to prevent unbounded growth) ===
     let geoCache = new Map<string, ReturnType<typeof geoipService.lookup>>();
+    let networkCache = new Map<string, ReturnType<typeof asnService.lookup>>();
 
     // === OPTIMIZATION: Batch collections ===
     // Inserts are batched per page (100 records) and flushed at end of each page
@@ -555,6 +557,7 @@ export class TautulliService {
       // Clear geo cache periodically to prevent unbounded growth (every 10 pages)
       if (page > 0 && page % 10 === 0) {
         geoCache = new Map();
+        networkCache = new Map();
       }
 
       const { records } = await tautulli.getHistory(page * PAGE_SIZE, PAGE_SIZE);
@@ -719,6 +722,11 @@ export class TautulliService {
             geo = geoipService.lookup(record.ip_address);
             geoCache.set(record.ip_address, geo);
           }
+          let network = networkCache.get(record.ip_address);
+          if (!network) {
+            network = asnService.lookup(record.ip_address);
+            networkCache.set(record.ip_address, network);
+          }
 
           // Map media type
           let mediaType: 'movie' | 'episode' | 'track' = 'movie';
@@ -768,6 +776,8 @@ export class TautulliService {
             geoCountry: geo.country,
             geoLat: geo.lat,
             geoLon: geo.lon,
+            asn: network.asn,
+            asnOrg: network.asnOrg,
             playerName: record.player || record.product,
             deviceId: record.machine_id || null,
             product: record.product || null,
@@ -9,7 +9,7 @@ import { eq, desc } from 'drizzle-orm';
 import { db } from '../db/client.js';
 import { terminationLogs, sessions } from '../db/schema.js';
 import { createMediaServerClient } from './mediaServer/index.js';
-import type { ServerType } from '@tracearr/shared';
+import type { ServerType, RuleActionType } from '@tracearr/shared';
 
 // ============================================================================
 // Types
@@ -31,6 +31,9 @@ export interface TerminateSessionOptions {
   /** For rule: the violation record */
   violationId?: string;
 
+  /** For rule: the rule action that requested the termination */
+  action?: RuleActionType;
+
   /** Message to display to user (Plex only, ignored by Jellyfin/Emby) */
   reason?: string;
 }
@@ -67,13 +70,14 @@ export interface TerminationResult {
  *   trigger: 'rule',
  *   ruleId: rule.id,
  *   violationId: violation.id,
+ *   action: 'terminate_stream',
  *   reason: 'Concurrent stream limit exceeded',
  * });
  */
 export async function terminateSession(
   options: TerminateSessionOptions
 ): Promise<TerminationResult> {
-  const { sessionId, trigger, triggeredByUserId, ruleId, violationId, reason } = options;
+  const { sessionId, trigger, triggeredByUserId, ruleId, violationId, action, reason } = options;
 
   // Fetch session with server info
   const session = await db.query.sessions.findFirst({
@@ -119,6 +123,7 @@ export async function terminateSession(
         triggeredByUserId: triggeredByUserId ?? null,
         ruleId: ruleId ?? null,
         violationId: violationId ?? null,
+        action: action ?? null,
         reason: reason ?? null,
         success: false,
         errorMessage: 'No session ID available for termination',
@@ -171,6 +176,7 @@ export async function terminateSession(
       triggeredByUserId: triggeredByUserId ?? null,
       ruleId: ruleId ?? null,
       violationId: violationId ?? null,
+      action: action ?? null,
       reason: reason ?? null,
       success,
       errorMessage,
@@ -0,0 +1,238 @@
+/**
+ * Trust Score Service
+ *
+ * Applies changes to server user trust scores within the configured trust model
+ * (floor/ceiling) and records each change in trust_score_events, so the UI can
+ * chart how and why a score changed.
+ *
+ * - Changes: violations, penalty refunds/recharges and manual edits
+ * - Maintenance: gradual recovery after clean days and decay of old violations
+ */
+
+import { and, eq, gt, gte, isNull, lt, notExists, sql } from 'drizzle-orm';
+import {
+  TIME_MS,
+  TRUST_SCORE_CONFIG,
+  type TrustModel,
+  type TrustScoreEventReason,
+} from '@tracearr/shared';
+import { db } from '../db/client.js';
+import { serverUsers, trustScoreEvents, violations } from '../db/schema.js';
+import { getTrustModel } from '../routes/settings.js';
+import { recalculateAggregateTrustScore } from './userService.js';
+
+/**
+ * Database or transaction to apply a change with
+ */
+export type TrustScoreExecutor = Pick<typeof db, 'update' | 'insert'>;
+
+/**
+ * A change to one server user's trust score
+ */
+export interface TrustScoreChange {
+  serverUserId: string;
+  delta: number; // Negative for penalties
+  reason: TrustScoreEventReason;
+  violationId?: string | null;
+  actorId?: string | null; // Owner who made a manual change
+}
+
+/**
+ * Result of a maintenance run
+ */
+export interface TrustScoreMaintenanceResult {
+  recovered: number; // Server users that gained recovery points
+  decayed: number; // Violations whose penalty was refunded
+}
+
+// ============================================================================
+// Changes
+// ============================================================================
+
+/**
+ * Apply a trust score change, clamped to the model's floor and ceiling, and record it.
+ *
+ * @returns The score after the change, or null if the server user doesn't exist
+ */
+export async function applyTrustScoreChange(
+  executor: TrustScoreExecutor,
+  change: TrustScoreChange,
+  model: TrustModel
+): Promise<number | null> {
+  const [updated] = await executor
+    .update(serverUsers)
+    .set({
+      trustScore: sql`LEAST(${model.ceiling}, GREATEST(${model.floor}, ${serverUsers.trustScore} + ${change.delta}))`,
+      updatedAt: new Date(),
+    })
+    .where(eq(serverUsers.id, change.serverUserId))
+    .returning({ trustScore: serverUsers.trustScore });
+
+  if (!updated) return null;
+
+  await recordTrustScoreEvent(executor, change, updated.trustScore);
+  return updated.trustScore;
+}
+
+/**
+ * Record a trust score change that was already applied (e.g. a manual edit)
+ */
+export async function recordTrustScoreEvent(
+  executor: Pick<typeof db, 'insert'>,
+  change: TrustScoreChange,
+  score: number
+): Promise<void> {
+  await executor.insert(trustScoreEvents).values({
+    serverUserId: change.serverUserId,
+    delta: change.delta,
+    score,
+    reason: change.reason,
+    violationId: change.violationId ?? null,
+    actorId: change.actorId ?? null,
+  });
+}
+
+// ============================================================================
+// Maintenance
+// ============================================================================
+
+/**
+ * Give recovery points to server users without violations for the model's clean days.
+ * Users get points at most once per maintenance interval.
+ *
+ * @returns Identity IDs whose server users recovered
+ */
+async function applyRecovery(model: TrustModel, now: Date): Promise<string[]> {
+  const cleanSince = new Date(now.getTime() - model.recovery.cleanDays * TIME_MS.DAY);
+  // Allow for drift between runs so a user isn't skipped for a whole interval
+  const recoveredSince = new Date(
+    now.getTime() - TRUST_SCORE_CONFIG.MAINTENANCE_INTERVAL_MS + TIME_MS.HOUR
+  );
+
+  const candidates = await db
+    .select({ id: serverUsers.id, userId: serverUsers.userId })
+    .from(serverUsers)
+    .where(
+      and(
+        lt(serverUsers.trustScore, model.ceiling),
+        notExists(
+          db
+            .select({ id: violations.id })
+            .from(violations)
+            .where(
+              and(
+                eq(violations.serverUserId, serverUsers.id),
+                gte(violations.createdAt, cleanSince),
+                isNull(violations.trustRestoredAt)
+              )
+            )
+        ),
+        notExists(
+          db
+            .select({ id: trustScoreEvents.id })
+            .from(trustScoreEvents)
+            .where(
+              and(
+                eq(trustScoreEvents.serverUserId, serverUsers.id),
+                eq(trustScoreEvents.reason, 'recovery'),
+                gte(trustScoreEvents.createdAt, recoveredSince)
+              )
+            )
+        )
+      )
+    );
+
+  for (const candidate of candidates) {
+    await db.transaction(async (tx) => {
+      await applyTrustScoreChange(
+        tx,
+        { serverUserId: candidate.id, delta: model.recovery.pointsPerDay, reason: 'recovery' },
+        model
+      );
+    });
+  }
+
+  return candidates.map((c) => c.userId);
+}
+
+/**
+ * Refund the penalty of violations older than the model's decay age
+ *
+ * @returns Identity IDs whose server users had penalties refunded
+ */
+async function applyDecay(model: TrustModel, now: Date): Promise<string[]> {
+  const decayBefore = new Date(now.getTime() - model.decay.afterDays * TIME_MS.DAY);
+
+  const expired = await db
+    .select({
+      id: violations.id,
+      serverUserId: violations.serverUserId,
+      trustPenalty: violations.trustPenalty,
+      userId: serverUsers.userId,
+    })
+    .from(violations)
+    .innerJoin(serverUsers, eq(violations.serverUserId, serverUsers.id))
+    .where(
+      and(
+        lt(violations.createdAt, decayBefore),
+        isNull(violations.trustRestoredAt),
+        isNull(violations.trustDecayedAt),
+        gt(violations.trustPenalty, 0)
+      )
+    );
+
+  const userIds: string[] = [];
+
+  for (const violation of expired) {
+    const decayed = await db.transaction(async (tx) => {
+      // Guard against a concurrent refund from the violations API
+      const [marked] = await tx
+        .update(violations)
+        .set({ trustDecayedAt: now })
+        .where(
+          and(
+            eq(violations.id, violation.id),
+            isNull(violations.trustRestoredAt),
+            isNull(violations.trustDecayedAt)
+          )
+        )
+        .returning({ id: violations.id });
+
+      if (!marked) return false;
+
+      await applyTrustScoreChange(
+        tx,
+        {
+          serverUserId: violation.serverUserId,
+          delta: violation.trustPenalty,
+          reason: 'decay',
+          violationId: violation.id,
+        },
+        model
+      );
+      return true;
+    });
+
+    if (decayed) userIds.push(violation.userId);
+  }
+
+  return userIds;
+}
+
+/**
+ * Apply recovery and decay for all server users, as enabled in the trust model
+ */
+export async function runTrustScoreMaintenance(
+  now: Date = new Date()
+): Promise<TrustScoreMaintenanceResult> {
+  const model = await getTrustModel();
+
+  const recoveredUserIds = model.recovery.enabled ? await applyRecovery(model, now) : [];
+  const decayedUserIds = model.decay.enabled ? await applyDecay(model, now) : [];
+
+  for (const userId of new Set([...recoveredUserIds, ...decayedUserIds])) {
+    await recalculateAggregateTrustScore(userId);
+  }
+
+  return { recovered: recoveredUserIds.length, decayed: decayedUserIds.length };
+}
@@ -13,7 +13,7 @@
 
 import { eq, and, sql } from 'drizzle-orm';
 import type { MediaUser } from './mediaServer/index.js';
-import type { UserRole } from '@tracearr/shared';
+import type { ServerType, ServerUserSource, UserRole } from '@tracearr/shared';
 import { db } from '../db/client.js';
 import { users, serverUsers, servers, sessions } from '../db/schema.js';
 import { NotFoundError } from '../utils/errors.js';
@@ -409,6 +409,7 @@ export async function updateServerUser(
     email: string | null;
     thumbUrl: string | null;
     isServerAdmin: boolean;
+    sharedLibraries: string[] | null;
   }>
 ): Promise<ServerUser> {
   const rows = await db
@@ -466,6 +467,46 @@ export async function incrementServerUserSessionCount(serverUserId: string): Pro
 // Sync Operations (Creates both user identity and server user)
 // ============================================================================
 
+/**
+ * How a newly discovered server account joined
+ */
+export interface ServerUserOnboarding {
+  source: ServerUserSource;
+  probationDays: number; // 0 = no probation
+}
+
+/**
+ * Work out how a media server account got access
+ *
+ * Plex accounts are the owner, a Plex Home member or a friend the server is
+ * shared with. Jellyfin/Emby accounts are all local to the server.
+ */
+export function getServerUserSource(
+  serverType: ServerType,
+  mediaUser: MediaUser
+): ServerUserSource {
+  if (serverType !== 'plex') return 'local_account';
+  if (mediaUser.isAdmin) return 'owner';
+  return mediaUser.isHomeUser ? 'plex_home' : 'plex_share';
+}
+
+/**
+ * End of the probation period for an account that joined at joinedAt
+ *
+ * Returns null when probation is turned off or already over, e.g. for a
+ * Plex friend whose share was accepted long before it was first synced.
+ */
+export function getProbationUntil(
+  joinedAt: Date,
+  probationDays: number,
+  now: Date = new Date()
+): Date | null {
+  if (probationDays <= 0) return null;
+
+  const until = new Date(joinedAt.getTime() + probationDays * 24 * 60 * 60 * 1000);
+  return until > now ? until : null;
+}
+
 /**
  * Sync a user from media server - handles auto-linking by email
  *
@@ -475,13 +516,16 @@ export async function incrementServerUserSessionCount(serverUserId: string): Pro
  * 3. If new:
  *    a. Try to find existing user identity by email match
  *    b. If no match: create new user identity
- *    c. Create server_user linked to user
+ *    c. Create server_user linked to user, recording how it joined
+ *
+ * Owners and admins are never put on probation.
  *
  * Returns { serverUser, user, created: boolean }
  */
 export async function syncUserFromMediaServer(
   serverId: string,
-  mediaUser: MediaUser
+  mediaUser: MediaUser,
+  onboarding?: ServerUserOnboarding
 ): Promise<{ serverUser: ServerUser; user: User; created: boolean }> {
   // Check for existing server user
   const existing = await getServerUserByExternalId(serverId, mediaUser.id);
@@ -493,6 +537,7 @@ export async function syncUserFromMediaServer(
       email: mediaUser.email ?? null,
       thumbUrl: mediaUser.thumb ?? null,
       isServerAdmin: mediaUser.isAdmin,
+      sharedLibraries: mediaUser.sharedLibraries ?? null,
     });
 
     const user = await requireUserById(existing.userId);
@@ -529,6 +574,7 @@ export async function syncUserFromMediaServer(
     }
 
     // Create server user linked to user identity
+    const joinedAt = mediaUser.joinedAt ?? new Date();
     const [serverUser] = await tx
       .insert(serverUsers)
       .values({
@@ -539,6 +585,13 @@ export async function syncUserFromMediaServer(
         email: mediaUser.email ?? null,
         thumbUrl: mediaUser.thumb ?? null,
         isServerAdmin: mediaUser.isAdmin,
+        sharedLibraries: mediaUser.sharedLibraries ?? null,
+        joinedAt,
+        source: onboarding?.source ?? 'unknown',
+        probationUntil:
+          onboarding && !mediaUser.isAdmin
+            ? getProbationUntil(joinedAt, onboarding.probationDays)
+            : null,
       })
       .returning();
 
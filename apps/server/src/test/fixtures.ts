@@ -20,6 +20,7 @@ import type {
   GeoRestrictionParams,
   AuthUser,
   UserRole,
+  KnownLocation,
 } from '@tracearr/shared';
 import { RULE_DEFAULTS } from '@tracearr/shared';
 import { randomUUID } from 'node:crypto';
@@ -64,6 +65,8 @@ export function createMockSession(overrides: Partial<Session> = {}): Session {
     geoCountry: 'US',
     geoLat: 40.7128,
     geoLon: -74.006,
+    asn: null,
+    asnOrg: null,
     playerName: 'Test Player',
     deviceId: `device_${id.slice(0, 8)}`,
     product: 'Plex Web',
@@ -90,7 +93,17 @@ export function createMockRule<T extends RuleType>(
     name: overrides.name ?? `Test ${type.replace(/_/g, ' ')} Rule`,
     type,
     params: overrides.params ?? JSON.parse(JSON.stringify(RULE_DEFAULTS[type])) as RuleParams,
+    actions: overrides.actions ?? [],
+    scope: overrides.scope ?? {
+      serverIds: [],
+      userIds: [],
+      roles: [],
+      groupIds: [],
+      excludedUserIds: [],
+    },
+    schedule: overrides.schedule ?? null,
     serverUserId: overrides.serverUserId ?? null, // Global rule by default
+    crossServer: overrides.crossServer ?? false,
     isActive: overrides.isActive ?? true,
     createdAt: overrides.createdAt ?? new Date(),
     updatedAt: overrides.updatedAt ?? new Date(),
@@ -134,6 +147,9 @@ export function createMockServerUser(overrides: Partial<ServerUser> = {}): Serve
     isServerAdmin: overrides.isServerAdmin ?? false,
     trustScore: overrides.trustScore ?? 100,
     sessionCount: overrides.sessionCount ?? 0,
+    joinedAt: overrides.joinedAt ?? new Date(),
+    source: overrides.source ?? 'plex_share',
+    probationUntil: overrides.probationUntil ?? null,
     createdAt: overrides.createdAt ?? new Date(),
     updatedAt: overrides.updatedAt ?? new Date(),
   };
@@ -154,6 +170,33 @@ export function createMockViolation(
     data: overrides.data ?? {},
     createdAt: overrides.createdAt ?? new Date(),
     acknowledgedAt: overrides.acknowledgedAt ?? null,
+    status: overrides.status ?? 'open',
+    assigneeId: overrides.assigneeId ?? null,
+    dismissalReason: overrides.dismissalReason ?? null,
+    trustRestoredAt: overrides.trustRestoredAt ?? null,
+  };
+}
+
+/**
+ * Create a mock known location (a CIDR range by default)
+ */
+export function createMockKnownLocation(
+  overrides: Partial<KnownLocation> = {}
+): KnownLocation {
+  return {
+    id: overrides.id ?? randomUUID(),
+    userId: overrides.userId ?? randomUUID(),
+    type: overrides.type ?? 'cidr',
+    label: overrides.label ?? 'Home',
+    cidr: overrides.cidr ?? null,
+    asn: overrides.asn ?? null,
+    lat: overrides.lat ?? null,
+    lon: overrides.lon ?? null,
+    radiusKm: overrides.radiusKm ?? null,
+    source: overrides.source ?? 'manual',
+    pending: overrides.pending ?? false,
+    createdAt: overrides.createdAt ?? new Date(),
+    updatedAt: overrides.updatedAt ?? new Date(),
   };
 }
 
@@ -3,7 +3,7 @@
  *
  * Tests validation behavior for:
  * - Rule creation/update schemas
- * - Rule parameter schemas for all 5 rule types
+ * - Rule parameter schemas for all 6 rule types
  * - Violation query schema
  */
 
@@ -15,10 +15,38 @@ import {
   impossibleTravelParamsSchema,
   simultaneousLocationsParamsSchema,
   deviceVelocityParamsSchema,
+  deviceNoveltyParamsSchema,
   concurrentStreamsParamsSchema,
   geoRestrictionParamsSchema,
+  anonymousNetworkParamsSchema,
+  streamQualityParamsSchema,
+  compositeParamsSchema,
+  COMPOSITE_RULE_LIMITS,
+  createKnownLocationSchema,
+  updateKnownLocationSchema,
+  mergeIdentitiesSchema,
+  createPolicyProfileSchema,
+  assignPolicyProfileSchema,
+  trustModelSchema,
+  DEFAULT_TRUST_MODEL,
+  updateUserPermissionsSchema,
+  accountActionSchema,
+  suspendUserSchema,
+  extendSuspensionSchema,
+  newUsersQuerySchema,
+  inactiveUsersQuerySchema,
+  inactiveUsersActionSchema,
+  createNotificationDestinationSchema,
+  createNotificationRouteSchema,
+  notificationTemplateSchema,
+  notificationTemplatePreviewSchema,
+  updateEmailSettingsSchema,
   violationQuerySchema,
   violationIdParamSchema,
+  updateViolationSchema,
+  createViolationNoteSchema,
+  auditLogQuerySchema,
+  auditLogExportQuerySchema,
   terminateSessionBodySchema,
 } from '@tracearr/shared';
 import { randomUUID } from 'node:crypto';
@@ -53,6 +81,7 @@ describe('Rule Schemas', () => {
       expect(result.success).toBe(true);
       if (result.success) {
         expect(result.data.serverUserId).toBeNull();
+        expect(result.data.crossServer).toBe(false);
         expect(result.data.isActive).toBe(true);
       }
     });
@@ -121,13 +150,17 @@ describe('Rule Schemas', () => {
       expect(result.success).toBe(false);
     });
 
-    it('should validate all 5 rule types', () => {
+    it('should validate all 9 rule types', () => {
       const types = [
         'impossible_travel',
         'simultaneous_locations',
         'device_velocity',
+        'device_novelty',
         'concurrent_streams',
         'geo_restriction',
+        'anonymous_network',
+        'stream_quality',
+        'composite',
       ];
 
       for (const type of types) {
@@ -166,6 +199,56 @@ describe('Rule Schemas', () => {
       const result = createRuleSchema.safeParse(input);
       expect(result.success).toBe(false);
     });
+
+    it('should default schedule to null', () => {
+      const result = createRuleSchema.safeParse({
+        name: 'Test Rule',
+        type: 'concurrent_streams',
+        params: {},
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.schedule).toBeNull();
+      }
+    });
+
+    it('should accept a schedule with windows and suspensions', () => {
+      const result = createRuleSchema.safeParse({
+        name: 'Weeknight limit',
+        type: 'concurrent_streams',
+        params: { maxStreams: 1 },
+        schedule: {
+          timezone: 'America/New_York',
+          windows: [{ days: [1, 2, 3, 4, 5], startTime: '18:00', endTime: '23:00' }],
+          suspensions: [{ userId: randomUUID(), startDate: '2025-07-01', endDate: '2025-07-14' }],
+        },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.schedule?.suspensions[0]?.userId).toBeDefined();
+      }
+    });
+
+    it('should reject invalid schedules', () => {
+      const base = { name: 'Test', type: 'concurrent_streams', params: {} };
+      const invalidSchedules = [
+        { timezone: 'Not/AZone', windows: [] },
+        { timezone: 'UTC', windows: [{ days: [7], startTime: '18:00', endTime: '23:00' }] },
+        { timezone: 'UTC', windows: [{ days: [], startTime: '18:00', endTime: '23:00' }] },
+        { timezone: 'UTC', windows: [{ days: [1], startTime: '25:00', endTime: '23:00' }] },
+        {
+          timezone: 'UTC',
+          suspensions: [{ userId: null, startDate: '2025-07-14', endDate: '2025-07-01' }],
+        },
+      ];
+
+      for (const schedule of invalidSchedules) {
+        const result = createRuleSchema.safeParse({ ...base, schedule });
+        expect(result.success).toBe(false);
+      }
+    });
   });
 
   describe('updateRuleSchema', () => {
@@ -300,6 +383,21 @@ describe('Rule Parameter Schemas', () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it('should default knownLocationMode to off', () => {
+      const result = simultaneousLocationsParamsSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.knownLocationMode).toBe('off');
+      }
+    });
+
+    it('should reject an unknown knownLocationMode', () => {
+      const result = simultaneousLocationsParamsSchema.safeParse({
+        knownLocationMode: 'skip',
+      });
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('deviceVelocityParamsSchema', () => {
@@ -349,6 +447,26 @@ describe('Rule Parameter Schemas', () => {
     });
   });
 
+  describe('deviceNoveltyParamsSchema', () => {
+    it('should apply defaults', () => {
+      const result = deviceNoveltyParamsSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ maxNewDevices: 2, windowHours: 24, alertOnNewPlatform: true });
+      }
+    });
+
+    it('should allow zero new devices', () => {
+      expect(deviceNoveltyParamsSchema.safeParse({ maxNewDevices: 0 }).success).toBe(true);
+    });
+
+    it('should reject negative or fractional values', () => {
+      expect(deviceNoveltyParamsSchema.safeParse({ maxNewDevices: -1 }).success).toBe(false);
+      expect(deviceNoveltyParamsSchema.safeParse({ windowHours: 0 }).success).toBe(false);
+      expect(deviceNoveltyParamsSchema.safeParse({ windowHours: 1.5 }).success).toBe(false);
+    });
+  });
+
   describe('concurrentStreamsParamsSchema', () => {
     it('should validate with custom maxStreams', () => {
       const result = concurrentStreamsParamsSchema.safeParse({
@@ -446,6 +564,379 @@ describe('Rule Parameter Schemas', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('anonymousNetworkParamsSchema', () => {
+    it('should default to all categories and no ASNs', () => {
+      const result = anonymousNetworkParamsSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ categories: ['hosting', 'vpn', 'tor', 'proxy'], asns: [] });
+      }
+    });
+
+    it('should accept selected categories and ASNs', () => {
+      const result = anonymousNetworkParamsSchema.safeParse({
+        categories: ['vpn'],
+        asns: [9009, 60068],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown categories', () => {
+      const result = anonymousNetworkParamsSchema.safeParse({ categories: ['residential'] });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject invalid ASNs', () => {
+      expect(anonymousNetworkParamsSchema.safeParse({ asns: [0] }).success).toBe(false);
+      expect(anonymousNetworkParamsSchema.safeParse({ asns: [4294967296] }).success).toBe(false);
+      expect(anonymousNetworkParamsSchema.safeParse({ asns: [1.5] }).success).toBe(false);
+    });
+  });
+
+  describe('streamQualityParamsSchema', () => {
+    it('should apply defaults', () => {
+      const result = streamQualityParamsSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({
+          maxConcurrentTranscodes: 1,
+          transcodeResolution: '4K',
+          maxRemoteBitrateMbps: null,
+          maxTranscodePercent: null,
+          minSessions: 5,
+        });
+      }
+    });
+
+    it('should accept a bitrate cap on its own', () => {
+      const result = streamQualityParamsSchema.safeParse({
+        maxConcurrentTranscodes: null,
+        maxRemoteBitrateMbps: 20,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require at least one limit', () => {
+      const result = streamQualityParamsSchema.safeParse({
+        maxConcurrentTranscodes: null,
+        maxRemoteBitrateMbps: null,
+        maxTranscodePercent: null,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject out of range values', () => {
+      const invalid = [
+        { maxTranscodePercent: 101 },
+        { maxRemoteBitrateMbps: 0 },
+        { transcodeResolution: '8K' },
+      ];
+      for (const params of invalid) {
+        expect(streamQualityParamsSchema.safeParse(params).success).toBe(false);
+      }
+    });
+  });
+
+  describe('compositeParamsSchema', () => {
+    const condition = {
+      kind: 'condition',
+      type: 'concurrent_streams',
+      params: { maxStreams: 2 },
+    } as const;
+
+    it('should validate an AND/OR condition tree', () => {
+      const result = compositeParamsSchema.safeParse({
+        root: {
+          kind: 'group',
+          operator: 'and',
+          conditions: [
+            condition,
+            {
+              kind: 'group',
+              operator: 'or',
+              conditions: [
+                { kind: 'condition', type: 'simultaneous_locations', params: { minDistanceKm: 500 } },
+                { kind: 'condition', type: 'geo_restriction', params: { mode: 'allowlist', countries: ['US'] } },
+              ],
+            },
+          ],
+        },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should validate condition params against their rule type', () => {
+      const result = compositeParamsSchema.safeParse({
+        root: {
+          kind: 'group',
+          operator: 'or',
+          conditions: [{ kind: 'condition', type: 'concurrent_streams', params: { maxStreams: -1 } }],
+        },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject nested composite conditions', () => {
+      const result = compositeParamsSchema.safeParse({
+        root: {
+          kind: 'group',
+          operator: 'or',
+          conditions: [{ kind: 'condition', type: 'composite', params: {} }],
+        },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject empty groups and invalid operators', () => {
+      const invalidInputs = [
+        { root: { kind: 'group', operator: 'and', conditions: [] } },
+        { root: { kind: 'group', operator: 'xor', conditions: [condition] } },
+        {},
+      ];
+
+      for (const input of invalidInputs) {
+        const result = compositeParamsSchema.safeParse(input);
+        expect(result.success).toBe(false);
+      }
+    });
+
+    it('should reject trees nested deeper than the limit', () => {
+      let group: Record<string, unknown> = { kind: 'group', operator: 'and', conditions: [condition] };
+      for (let i = 0; i < COMPOSITE_RULE_LIMITS.MAX_DEPTH; i++) {
+        group = { kind: 'group', operator: 'and', conditions: [group] };
+      }
+
+      const result = compositeParamsSchema.safeParse({ root: group });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject trees with too many conditions', () => {
+      const result = compositeParamsSchema.safeParse({
+        root: {
+          kind: 'group',
+          operator: 'or',
+          conditions: Array.from({ length: COMPOSITE_RULE_LIMITS.MAX_CONDITIONS + 1 }, () => condition),
+        },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('Known Location Schemas', () => {
+  describe('createKnownLocationSchema', () => {
+    it('should validate IPv4 and IPv6 CIDR ranges', () => {
+      for (const cidr of ['203.0.113.0/24', '2001:db8::/48']) {
+        const result = createKnownLocationSchema.safeParse({ type: 'cidr', label: 'Home', cidr });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it('should reject a bare IP address as a CIDR', () => {
+      const result = createKnownLocationSchema.safeParse({
+        type: 'cidr',
+        label: 'Home',
+        cidr: '203.0.113.5',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should validate an ASN', () => {
+      const result = createKnownLocationSchema.safeParse({
+        type: 'asn',
+        label: 'Carrier',
+        asn: 64500,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a radius for geo locations', () => {
+      const result = createKnownLocationSchema.safeParse({
+        type: 'geo',
+        label: 'Home',
+        lat: 40.7128,
+        lon: -74.006,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject out-of-range coordinates', () => {
+      const result = createKnownLocationSchema.safeParse({
+        type: 'geo',
+        label: 'Home',
+        lat: 91,
+        lon: 0,
+        radiusKm: 25,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an empty label', () => {
+      const result = createKnownLocationSchema.safeParse({ type: 'asn', label: '', asn: 64500 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('updateKnownLocationSchema', () => {
+    it('should accept a partial update', () => {
+      const result = updateKnownLocationSchema.safeParse({ label: 'Office' });
+      expect(result.success).toBe(true);
+    });
+  });
+});
+
+describe('Identity Schemas', () => {
+  describe('mergeIdentitiesSchema', () => {
+    it('should validate two different identities', () => {
+      const result = mergeIdentitiesSchema.safeParse({
+        targetUserId: randomUUID(),
+        sourceUserId: randomUUID(),
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject merging an identity into itself', () => {
+      const id = randomUUID();
+      const result = mergeIdentitiesSchema.safeParse({ targetUserId: id, sourceUserId: id });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a missing source', () => {
+      const result = mergeIdentitiesSchema.safeParse({ targetUserId: randomUUID() });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('Policy Profile Schemas', () => {
+  describe('createPolicyProfileSchema', () => {
+    it('should default every limit to none', () => {
+      const result = createPolicyProfileSchema.safeParse({ name: 'Family' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({
+          name: 'Family',
+          description: null,
+          maxStreams: null,
+          allowedCountries: null,
+          maxTranscodes: null,
+        });
+      }
+    });
+
+    it('should allow zero transcodes but not zero streams', () => {
+      const noTranscodes = createPolicyProfileSchema.safeParse({ name: 'Friend', maxTranscodes: 0 });
+      const noStreams = createPolicyProfileSchema.safeParse({ name: 'Friend', maxStreams: 0 });
+      expect(noTranscodes.success).toBe(true);
+      expect(noStreams.success).toBe(false);
+    });
+
+    it('should reject an empty country list', () => {
+      const result = createPolicyProfileSchema.safeParse({ name: 'Friend', allowedCountries: [] });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('assignPolicyProfileSchema', () => {
+    it('should accept a null profile to clear assignments', () => {
+      const result = assignPolicyProfileSchema.safeParse({
+        profileId: null,
+        userIds: [randomUUID()],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require at least one user', () => {
+      const result = assignPolicyProfileSchema.safeParse({ profileId: randomUUID(), userIds: [] });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('Trust Model Schemas', () => {
+  describe('trustModelSchema', () => {
+    it('should validate the default model', () => {
+      expect(trustModelSchema.safeParse(DEFAULT_TRUST_MODEL).success).toBe(true);
+    });
+
+    it('should accept per-rule penalties for some severities', () => {
+      const result = trustModelSchema.safeParse({
+        ...DEFAULT_TRUST_MODEL,
+        rulePenalties: { impossible_travel: { high: 40 } },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject per-rule penalties for unknown rule types', () => {
+      const result = trustModelSchema.safeParse({
+        ...DEFAULT_TRUST_MODEL,
+        rulePenalties: { not_a_rule: { high: 40 } },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a floor at or above the ceiling', () => {
+      const result = trustModelSchema.safeParse({ ...DEFAULT_TRUST_MODEL, floor: 50, ceiling: 50 });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject negative penalties', () => {
+      const result = trustModelSchema.safeParse({
+        ...DEFAULT_TRUST_MODEL,
+        penalties: { low: -5, warning: 10, high: 20 },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('Permission Schemas', () => {
+  describe('updateUserPermissionsSchema', () => {
+    it('should default to no grants', () => {
+      const result = updateUserPermissionsSchema.safeParse({ role: 'viewer' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.grants).toEqual([]);
+      }
+    });
+
+    it('should accept per-server grants', () => {
+      const result = updateUserPermissionsSchema.safeParse({
+        role: 'admin',
+        grants: [
+          { serverId: randomUUID(), permissions: ['view_history', 'terminate_streams'] },
+          { serverId: randomUUID(), permissions: [] },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject the owner role', () => {
+      const result = updateUserPermissionsSchema.safeParse({ role: 'owner' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown permissions', () => {
+      const result = updateUserPermissionsSchema.safeParse({
+        role: 'admin',
+        grants: [{ serverId: randomUUID(), permissions: ['delete_everything'] }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject granting the same server twice', () => {
+      const serverId = randomUUID();
+      const result = updateUserPermissionsSchema.safeParse({
+        role: 'admin',
+        grants: [
+          { serverId, permissions: ['view_history'] },
+          { serverId, permissions: ['manage_rules'] },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
 
 describe('Violation Schemas', () => {
@@ -561,6 +1052,356 @@ describe('Violation Schemas', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('updateViolationSchema', () => {
+    it('should accept an empty body (acknowledge only)', () => {
+      expect(updateViolationSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('should validate a false positive review', () => {
+      const result = updateViolationSchema.safeParse({
+        status: 'false_positive',
+        dismissalReason: '  Family member on holiday  ',
+        restoreTrust: true,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.dismissalReason).toBe('Family member on holiday');
+      }
+    });
+
+    it('should allow clearing the assignee', () => {
+      const result = updateViolationSchema.safeParse({ assigneeId: null });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown statuses', () => {
+      const result = updateViolationSchema.safeParse({ status: 'acknowledged' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('createViolationNoteSchema', () => {
+    it('should reject blank notes', () => {
+      expect(createViolationNoteSchema.safeParse({ body: '   ' }).success).toBe(false);
+    });
+
+    it('should reject notes over 2000 characters', () => {
+      const result = createViolationNoteSchema.safeParse({ body: 'a'.repeat(2001) });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('Account Action Schemas', () => {
+  describe('accountActionSchema', () => {
+    it('should accept actions without libraries', () => {
+      expect(accountActionSchema.safeParse({ action: 'disable_user' }).success).toBe(true);
+      expect(accountActionSchema.safeParse({ action: 'remove_share' }).success).toBe(true);
+    });
+
+    it('should require libraries when restricting libraries', () => {
+      expect(accountActionSchema.safeParse({ action: 'restrict_libraries' }).success).toBe(false);
+      expect(
+        accountActionSchema.safeParse({ action: 'restrict_libraries', libraryIds: [] }).success
+      ).toBe(true);
+    });
+
+    it('should reject libraries for other actions', () => {
+      const result = accountActionSchema.safeParse({ action: 'disable_user', libraryIds: ['1'] });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown actions', () => {
+      expect(accountActionSchema.safeParse({ action: 'delete_user' }).success).toBe(false);
+    });
+  });
+});
+
+describe('Suspension Schemas', () => {
+  describe('suspendUserSchema', () => {
+    it('should accept whole hours with an optional reason', () => {
+      expect(suspendUserSchema.safeParse({ durationHours: 48 }).success).toBe(true);
+      const result = suspendUserSchema.safeParse({ durationHours: 1, reason: '  Sharing  ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.reason).toBe('Sharing');
+      }
+    });
+
+    it('should reject durations outside one hour to a year', () => {
+      expect(suspendUserSchema.safeParse({ durationHours: 0 }).success).toBe(false);
+      expect(suspendUserSchema.safeParse({ durationHours: 1.5 }).success).toBe(false);
+      expect(suspendUserSchema.safeParse({ durationHours: 24 * 366 }).success).toBe(false);
+    });
+  });
+
+  describe('extendSuspensionSchema', () => {
+    it('should require hours', () => {
+      expect(extendSuspensionSchema.safeParse({ hours: 24 }).success).toBe(true);
+      expect(extendSuspensionSchema.safeParse({}).success).toBe(false);
+    });
+  });
+});
+
+describe('Onboarding Schemas', () => {
+  describe('newUsersQuerySchema', () => {
+    it('should default to the last 30 days', () => {
+      const result = newUsersQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.days).toBe(30);
+      }
+    });
+
+    it('should coerce days from the query string', () => {
+      const result = newUsersQuerySchema.safeParse({ days: '7' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.days).toBe(7);
+      }
+    });
+
+    it('should reject windows outside a day to a year', () => {
+      expect(newUsersQuerySchema.safeParse({ days: '0' }).success).toBe(false);
+      expect(newUsersQuerySchema.safeParse({ days: '366' }).success).toBe(false);
+    });
+  });
+});
+
+describe('Inactive User Schemas', () => {
+  describe('inactiveUsersQuerySchema', () => {
+    it('should default to 90 days', () => {
+      const result = inactiveUsersQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.days).toBe(90);
+        expect(result.data.before).toBeUndefined();
+      }
+    });
+
+    it('should coerce a cutoff date and the never played filter', () => {
+      const result = inactiveUsersQuerySchema.safeParse({
+        before: '2025-01-01',
+        neverPlayed: 'true',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.before).toEqual(new Date('2025-01-01'));
+        expect(result.data.neverPlayed).toBe(true);
+      }
+    });
+
+    it('should reject a zero day window', () => {
+      expect(inactiveUsersQuerySchema.safeParse({ days: '0' }).success).toBe(false);
+    });
+  });
+
+  describe('inactiveUsersActionSchema', () => {
+    it('should accept a bulk action', () => {
+      const result = inactiveUsersActionSchema.safeParse({
+        action: 'mark_for_review',
+        serverUserIds: [randomUUID()],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an empty selection', () => {
+      const result = inactiveUsersActionSchema.safeParse({
+        action: 'remove_access',
+        serverUserIds: [],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an unknown action', () => {
+      const result = inactiveUsersActionSchema.safeParse({
+        action: 'delete',
+        serverUserIds: [randomUUID()],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('Notification Destination Schemas', () => {
+  describe('createNotificationDestinationSchema', () => {
+    it('should default to an enabled raw JSON destination', () => {
+      const result = createNotificationDestinationSchema.safeParse({
+        name: 'Alerts',
+        type: 'webhook',
+        webhookUrl: 'https://example.com/hook',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.webhookFormat).toBe('json');
+        expect(result.data.enabled).toBe(true);
+      }
+    });
+
+    it('should require a topic for ntfy', () => {
+      const result = createNotificationDestinationSchema.safeParse({
+        name: 'Alerts',
+        type: 'webhook',
+        webhookUrl: 'https://ntfy.sh',
+        webhookFormat: 'ntfy',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require a token and room for Matrix', () => {
+      const matrix = {
+        name: 'Matrix',
+        type: 'webhook',
+        webhookUrl: 'https://matrix.example.com',
+        webhookFormat: 'matrix',
+        authToken: 'syt_token',
+      };
+      expect(createNotificationDestinationSchema.safeParse(matrix).success).toBe(false);
+      expect(
+        createNotificationDestinationSchema.safeParse({ ...matrix, chatId: '!room:example.com' })
+          .success
+      ).toBe(true);
+    });
+
+    it('should reject an invalid URL', () => {
+      const result = createNotificationDestinationSchema.safeParse({
+        name: 'Alerts',
+        type: 'discord',
+        webhookUrl: 'not-a-url',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('createNotificationRouteSchema', () => {
+    it('should default to all servers and severities', () => {
+      const result = createNotificationRouteSchema.safeParse({ eventType: 'server_down' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.serverId).toBeNull();
+        expect(result.data.minSeverity).toBeNull();
+      }
+    });
+
+    it('should reject unknown events and severities', () => {
+      expect(createNotificationRouteSchema.safeParse({ eventType: 'lunch' }).success).toBe(false);
+      expect(
+        createNotificationRouteSchema.safeParse({
+          eventType: 'violation_detected',
+          minSeverity: 'critical',
+        }).success
+      ).toBe(false);
+    });
+  });
+});
+
+describe('Notification Template Schemas', () => {
+  describe('notificationTemplateSchema', () => {
+    it('should trim the title and body', () => {
+      const result = notificationTemplateSchema.safeParse({
+        title: '  {{server.name}} is down ',
+        body: ' Check it ',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ title: '{{server.name}} is down', body: 'Check it' });
+      }
+    });
+
+    it('should reject a blank title or body', () => {
+      expect(notificationTemplateSchema.safeParse({ title: '  ', body: 'Body' }).success).toBe(
+        false
+      );
+      expect(notificationTemplateSchema.safeParse({ title: 'Title', body: '' }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('notificationTemplatePreviewSchema', () => {
+    it('should require a known event type', () => {
+      const template = { title: 'Title', body: 'Body' };
+      expect(
+        notificationTemplatePreviewSchema.safeParse({ ...template, eventType: 'server_up' }).success
+      ).toBe(true);
+      expect(
+        notificationTemplatePreviewSchema.safeParse({ ...template, eventType: 'lunch' }).success
+      ).toBe(false);
+    });
+  });
+});
+
+describe('Email Settings Schemas', () => {
+  describe('updateEmailSettingsSchema', () => {
+    it('should accept a local SMTP sink', () => {
+      const result = updateEmailSettingsSchema.safeParse({
+        smtpHost: ' localhost ',
+        smtpPort: 1025,
+        fromAddress: 'tracearr@example.com',
+        recipients: ['owner@example.com'],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.smtpHost).toBe('localhost');
+      }
+    });
+
+    it('should reject invalid addresses', () => {
+      expect(updateEmailSettingsSchema.safeParse({ fromAddress: 'tracearr' }).success).toBe(false);
+      expect(updateEmailSettingsSchema.safeParse({ recipients: ['owner@'] }).success).toBe(false);
+    });
+
+    it('should validate the digest schedule', () => {
+      expect(
+        updateEmailSettingsSchema.safeParse({ digestFrequency: 'weekly', digestWeekday: 0 }).success
+      ).toBe(true);
+      expect(updateEmailSettingsSchema.safeParse({ digestFrequency: 'monthly' }).success).toBe(
+        false
+      );
+      expect(updateEmailSettingsSchema.safeParse({ digestHour: 24 }).success).toBe(false);
+      expect(updateEmailSettingsSchema.safeParse({ digestTimezone: 'Mars/Base' }).success).toBe(
+        false
+      );
+    });
+  });
+});
+
+describe('Audit Log Schemas', () => {
+  describe('auditLogQuerySchema', () => {
+    it('should accept filters with pagination', () => {
+      const result = auditLogQuerySchema.safeParse({
+        page: '2',
+        action: 'rule.update',
+        entityType: 'rule',
+        startDate: '2026-01-01',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.page).toBe(2);
+        expect(result.data.startDate).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should reject unknown actions and entity types', () => {
+      expect(auditLogQuerySchema.safeParse({ action: 'rule.explode' }).success).toBe(false);
+      expect(auditLogQuerySchema.safeParse({ entityType: 'session' }).success).toBe(false);
+    });
+  });
+
+  describe('auditLogExportQuerySchema', () => {
+    it('should default to CSV', () => {
+      const result = auditLogExportQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.format).toBe('csv');
+      }
+    });
+
+    it('should reject unknown formats', () => {
+      expect(auditLogExportQuerySchema.safeParse({ format: 'xml' }).success).toBe(false);
+    });
+  });
 });
 
 describe('Session Termination Schemas', () => {
@@ -154,3 +154,43 @@ export function validateServerAccess(authUser: AuthUser, serverId: string): stri
   }
   return 'You do not have access to this server';
 }
+
+/**
+ * Check if IP addresses and locations may be shown for a server's sessions.
+ *
+ * @param locationServerIds - Servers with the view_locations permission, null for all
+ *   (see getLocationServerIds in services/permissions.ts)
+ * @param serverId - The session's server
+ */
+export function canViewLocation(locationServerIds: string[] | null, serverId: string): boolean {
+  return locationServerIds === null || locationServerIds.includes(serverId);
+}
+
+/**
+ * Null a session's IP address, location and network unless they may be shown for its server.
+ *
+ * @example
+ * ```ts
+ * const locationServerIds = await getLocationServerIds(authUser);
+ * return rows.map((row) => redactSessionLocation(row, locationServerIds));
+ * ```
+ */
+export function redactSessionLocation<T extends { serverId: string }>(
+  session: T,
+  locationServerIds: string[] | null
+): T {
+  if (canViewLocation(locationServerIds, session.serverId)) {
+    return session;
+  }
+  return {
+    ...session,
+    ipAddress: null,
+    geoCity: null,
+    geoRegion: null,
+    geoCountry: null,
+    geoLat: null,
+    geoLon: null,
+    // The network (ASN) narrows an IP address down to its provider
+    ...('asn' in session && { asn: null, asnOrg: null }),
+  };
+}
@@ -19,6 +19,7 @@ import {
   ChevronDown,
   Check,
   Columns3,
+  Network,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -211,6 +212,15 @@ export function HistoryFiltersBar({
     if (filters.geoCountry) {
       active.push({ key: 'geoCountry', label: 'Country', value: filters.geoCountry, icon: Globe });
     }
+    if (filters.asn) {
+      const network = filterOptions?.networks?.find((n) => n.asn === filters.asn);
+      active.push({
+        key: 'asn',
+        label: 'Network',
+        value: network?.asnOrg ?? `AS${filters.asn}`,
+        icon: Network,
+      });
+    }
     if (filters.mediaType) {
       const labels = { movie: 'Movies', episode: 'TV Shows', track: 'Music' };
       active.push({ key: 'mediaType', label: 'Type', value: labels[filters.mediaType], icon: Film });
@@ -225,7 +235,7 @@ export function HistoryFiltersBar({
     }
 
     return active;
-  }, [filters, filterOptions?.users]);
+  }, [filters, filterOptions?.users, filterOptions?.networks]);
 
   // Debounced search effect
   useEffect(() => {
@@ -442,6 +452,46 @@ export function HistoryFiltersBar({
               </DropdownMenuSubContent>
             </DropdownMenuSub>
 
+            {/* Network filter */}
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Network className="mr-2 h-4 w-4" />
+                Network
+                {filters.asn && (
+                  <Check className="ml-auto h-4 w-4" />
+                )}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="p-0">
+                <ScrollArea className="h-[200px]">
+                  <div className="p-1">
+                    <DropdownMenuItem
+                      onClick={() => removeFilter('asn')}
+                      className={cn(!filters.asn && 'hidden')}
+                    >
+                      <X className="mr-2 h-4 w-4" />
+                      Clear network filter
+                    </DropdownMenuItem>
+                    {filters.asn && <DropdownMenuSeparator />}
+                    {filterOptions?.networks?.map((opt) => (
+                      <DropdownMenuItem
+                        key={opt.asn}
+                        onClick={() => onFiltersChange({ ...filters, asn: opt.asn })}
+                      >
+                        <Network className="mr-2 h-4 w-4 text-muted-foreground" />
+                        <span className="flex-1 truncate">{opt.asnOrg ?? `AS${opt.asn}`}</span>
+                        <Badge variant="secondary" className="ml-2 text-[10px]">
+                          {opt.count}
+                        </Badge>
+                        {filters.asn === opt.asn && (
+                          <Check className="ml-1 h-4 w-4" />
+                        )}
+                      </DropdownMenuItem>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+
             <DropdownMenuSeparator />
 
             {/* Media Type - radio group */}
@@ -258,6 +258,9 @@ export const HistoryTableRow = forwardRef<
                   {session.geoCity && <div>City: {session.geoCity}</div>}
                   {session.geoRegion && <div>Region: {session.geoRegion}</div>}
                   {session.geoCountry && <div>Country: {session.geoCountry}</div>}
+                  {session.asn && (
+                    <div>Network: AS{session.asn}{session.asnOrg && ` (${session.asnOrg})`}</div>
+                  )}
                   {session.ipAddress && <div>IP: {session.ipAddress}</div>}
                 </div>
               </TooltipContent>
@@ -352,6 +352,15 @@ export function SessionDetailSheet({ session, open, onOpenChange }: Props) {
                   </span>
                 </div>
               )}
+              {session.asn && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Network</span>
+                  <span className="truncate text-right">
+                    AS{session.asn}
+                    {session.asnOrg && ` · ${session.asnOrg}`}
+                  </span>
+                </div>
+              )}
               {hasLocation && (
                 <MiniMap lat={session.geoLat!} lon={session.geoLon!} />
               )}
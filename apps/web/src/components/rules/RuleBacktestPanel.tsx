@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import type { RuleParams, RuleBacktestResult } from '@tracearr/shared';
+import { RULE_BACKTEST_LIMITS } from '@tracearr/shared';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SeverityBadge } from '@/components/violations/SeverityBadge';
+import { FlaskConical } from 'lucide-react';
+import { useRuleBacktest } from '@/hooks/queries';
+
+const DAY_OPTIONS = [1, 7, 30, RULE_BACKTEST_LIMITS.MAX_DAYS];
+const LISTED_VIOLATIONS = 10;
+const LISTED_USERS = 5;
+
+interface RuleBacktestPanelProps {
+  ruleId: string;
+  params: RuleParams;
+  crossServer: boolean;
+}
+
+function DailyBars({ daily }: { daily: RuleBacktestResult['daily'] }) {
+  const max = Math.max(1, ...daily.map((d) => d.count));
+
+  return (
+    <div className="flex h-16 items-end gap-px">
+      {daily.map((day) => (
+        <div
+          key={day.date}
+          className="flex-1 rounded-t-sm bg-primary/70"
+          style={{ height: `${Math.max(2, (day.count / max) * 100)}%` }}
+          title={`${day.date}: ${day.count}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Replays recent sessions through the rule with the current (possibly unsaved)
+ * params and shows what would have fired, without recording anything.
+ */
+export function RuleBacktestPanel({ ruleId, params, crossServer }: RuleBacktestPanelProps) {
+  const [days, setDays] = useState<number>(RULE_BACKTEST_LIMITS.DEFAULT_DAYS);
+  const backtest = useRuleBacktest();
+  const result = backtest.data;
+
+  const runPreview = () => {
+    backtest.mutate({ id: ruleId, data: { days, params, crossServer } });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <Label className="flex items-center gap-2">
+            <FlaskConical className="h-4 w-4" />
+            Preview
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            See what these settings would have flagged. Nothing is recorded.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} {option === 1 ? 'day' : 'days'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={runPreview}
+            disabled={backtest.isPending}
+          >
+            {backtest.isPending ? 'Running...' : 'Run'}
+          </Button>
+        </div>
+      </div>
+
+      {result && (
+        <div className="space-y-3">
+          <p className="text-sm">
+            <span className="font-medium">{result.violationCount}</span> of{' '}
+            {result.sessionCount} sessions would have fired since{' '}
+            {format(new Date(result.from), 'MMM d')}.
+          </p>
+          {result.truncated && (
+            <p className="text-xs text-muted-foreground">
+              Only the most recent {RULE_BACKTEST_LIMITS.MAX_SESSIONS.toLocaleString()} sessions
+              were replayed.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{result.overlap.matchedCount} already recorded</Badge>
+            <Badge variant="outline">{result.overlap.newCount} new</Badge>
+            <Badge variant="outline">{result.overlap.missedCount} would no longer fire</Badge>
+          </div>
+
+          <DailyBars daily={result.daily} />
+
+          {result.users.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs">Users</Label>
+              {result.users.slice(0, LISTED_USERS).map((user) => (
+                <div key={user.serverUserId} className="flex justify-between text-sm">
+                  <span className="truncate">{user.username}</span>
+                  <span className="text-muted-foreground">{user.violationCount}</span>
+                </div>
+              ))}
+              {result.users.length > LISTED_USERS && (
+                <p className="text-xs text-muted-foreground">
+                  and {result.users.length - LISTED_USERS} more
+                </p>
+              )}
+            </div>
+          )}
+
+          {result.violations.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs">Latest</Label>
+              {result.violations.slice(0, LISTED_VIOLATIONS).map((violation) => (
+                <div
+                  key={violation.sessionId}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      {violation.username} · {violation.mediaTitle}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(violation.startedAt), 'MMM d, HH:mm')}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    {violation.existingViolationId && <Badge variant="secondary">Recorded</Badge>}
+                    <SeverityBadge severity={violation.severity} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
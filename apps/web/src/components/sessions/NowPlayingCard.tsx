@@ -9,7 +9,7 @@ import { cn } from '@/lib/utils';
 import { useEstimatedProgress } from '@/hooks/useEstimatedProgress';
 import { useAuth } from '@/hooks/useAuth';
 import { TerminateSessionDialog } from './TerminateSessionDialog';
-import type { ActiveSession } from '@tracearr/shared';
+import { hasPermission, type ActiveSession } from '@tracearr/shared';
 
 interface NowPlayingCardProps {
   session: ActiveSession;
@@ -82,8 +82,7 @@ export function NowPlayingCard({ session, onClick }: NowPlayingCardProps) {
   const { user } = useAuth();
   const [showTerminateDialog, setShowTerminateDialog] = useState(false);
 
-  // Only admin/owner can terminate sessions
-  const canTerminate = user?.role === 'admin' || user?.role === 'owner';
+  const canTerminate = !!user && hasPermission(user, 'terminate_streams', session.serverId);
 
   // Use estimated progress for smooth updates between SSE/poll events
   const { estimatedProgressMs, progressPercent } = useEstimatedProgress(session);
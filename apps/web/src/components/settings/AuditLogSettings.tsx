@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import type { AuditAction, AuditChange, AuditEntityType, AuditLogEntry } from '@tracearr/shared';
+import { AUDIT_ACTION_DISPLAY_NAMES, AUDIT_ENTITY_TYPE_DISPLAY_NAMES } from '@tracearr/shared';
+import type { ColumnDef } from '@tanstack/react-table';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DataTable } from '@/components/ui/data-table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, ScrollText } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLog, useExportAuditLog, useUserPermissions } from '@/hooks/queries';
+import type { AuditLogFilters } from '@/lib/api';
+
+const ENTITY_TYPES = Object.keys(AUDIT_ENTITY_TYPE_DISPLAY_NAMES) as AuditEntityType[];
+const ACTIONS = Object.keys(AUDIT_ACTION_DISPLAY_NAMES) as AuditAction[];
+const PAGE_SIZE = 25;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function ChangeList({ changes }: { changes: Record<string, AuditChange> }) {
+  const fields = Object.entries(changes);
+  if (fields.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {fields.map(([field, change]) => (
+        <li key={field} className="break-all">
+          <span className="font-medium">{field}</span>:{' '}
+          <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+          {' → '}
+          <span>{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const auditColumns: ColumnDef<AuditLogEntry>[] = [
+  {
+    accessorKey: 'createdAt',
+    header: 'When',
+    cell: ({ row }) => (
+      <span className="whitespace-nowrap text-sm">
+        {format(new Date(row.original.createdAt), 'MMM d, yyyy HH:mm')}
+      </span>
+    ),
+  },
+  {
+    accessorKey: 'actorName',
+    header: 'Actor',
+    cell: ({ row }) => (
+      <div className="text-sm">
+        <p>{row.original.actorName ?? 'System'}</p>
+        {row.original.ipAddress && (
+          <p className="text-xs text-muted-foreground">{row.original.ipAddress}</p>
+        )}
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'action',
+    header: 'Action',
+    cell: ({ row }) => (
+      <span className="text-sm">{AUDIT_ACTION_DISPLAY_NAMES[row.original.action]}</span>
+    ),
+  },
+  {
+    accessorKey: 'entityName',
+    header: 'Target',
+    cell: ({ row }) => (
+      <span className="text-sm">{row.original.entityName ?? row.original.entityId ?? '—'}</span>
+    ),
+  },
+  {
+    accessorKey: 'changes',
+    header: 'Changes',
+    cell: ({ row }) => <ChangeList changes={row.original.changes} />,
+  },
+];
+
+/**
+ * Owner-only log of configuration and moderation actions, with CSV/JSON export
+ */
+export function AuditLogSettings() {
+  const { user } = useAuth();
+  const isOwner = user?.role === 'owner';
+  const [page, setPage] = useState(1);
+  const [entityType, setEntityType] = useState<AuditEntityType | 'all'>('all');
+  const [action, setAction] = useState<AuditAction | 'all'>('all');
+  const [actorId, setActorId] = useState<string>('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Date inputs are whole local days
+  const filters: AuditLogFilters = {
+    entityType: entityType === 'all' ? undefined : entityType,
+    action: action === 'all' ? undefined : action,
+    actorId: actorId === 'all' ? undefined : actorId,
+    startDate: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : undefined,
+    endDate: endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : undefined,
+  };
+
+  const { data, isLoading } = useAuditLog({ ...filters, page, pageSize: PAGE_SIZE }, isOwner);
+  const { data: accounts } = useUserPermissions(isOwner);
+  const exportAuditLog = useExportAuditLog();
+
+  if (!isOwner) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <p className="text-sm text-muted-foreground">
+            Only the server owner can view the audit log.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const actions =
+    entityType === 'all' ? ACTIONS : ACTIONS.filter((a) => a.startsWith(`${entityType}.`));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ScrollText className="h-5 w-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>
+              Every configuration and moderation change, with who made it and what changed
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {(['csv', 'json'] as const).map((exportFormat) => (
+              <Button
+                key={exportFormat}
+                variant="outline"
+                size="sm"
+                disabled={exportAuditLog.isPending}
+                onClick={() => { exportAuditLog.mutate({ format: exportFormat, filters }); }}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {exportFormat.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">Area</Label>
+            <Select
+              value={entityType}
+              onValueChange={(value) => {
+                setEntityType(value as AuditEntityType | 'all');
+                setAction('all');
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Areas</SelectItem>
+                {ENTITY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {AUDIT_ENTITY_TYPE_DISPLAY_NAMES[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">Action</Label>
+            <Select
+              value={action}
+              onValueChange={(value) => {
+                setAction(value as AuditAction | 'all');
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {actions.map((a) => (
+                  <SelectItem key={a} value={a}>
+                    {AUDIT_ACTION_DISPLAY_NAMES[a]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">Actor</Label>
+            <Select
+              value={actorId}
+              onValueChange={(value) => {
+                setActorId(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                {(accounts ?? []).map((account) => (
+                  <SelectItem key={account.userId} value={account.userId}>
+                    {account.name ?? account.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">From</Label>
+            <Input
+              type="date"
+              className="w-40"
+              value={startDate}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                setPage(1);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">To</Label>
+            <Input
+              type="date"
+              className="w-40"
+              value={endDate}
+              onChange={(e) => {
+                setEndDate(e.target.value);
+                setPage(1);
+              }}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : (
+          <DataTable
+            columns={auditColumns}
+            data={data?.data ?? []}
+            pageSize={PAGE_SIZE}
+            pageCount={data?.totalPages ?? 1}
+            page={page}
+            onPageChange={setPage}
+            emptyMessage="No audit log entries match these filters."
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import {
+  EMAIL_DIGEST_FREQUENCY_DISPLAY_NAMES,
+  type EmailDigestFrequency,
+  type EmailSettings as EmailSettingsData,
+} from '@tracearr/shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Mail, Newspaper, Send } from 'lucide-react';
+import {
+  useEmailSettings,
+  useSendEmailDigest,
+  useTestEmail,
+  useUpdateEmailSettings,
+} from '@/hooks/queries';
+
+interface EmailFormData {
+  enabled: boolean;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecure: boolean;
+  smtpUsername: string;
+  smtpPassword: string;
+  fromAddress: string;
+  recipients: string;
+  digestFrequency: EmailDigestFrequency;
+  digestHour: number;
+  digestWeekday: number;
+  digestTimezone: string;
+}
+
+const HOURS = [...Array(24).keys()];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function toFormData(settings: EmailSettingsData): EmailFormData {
+  return {
+    enabled: settings.enabled,
+    smtpHost: settings.smtpHost ?? '',
+    smtpPort: String(settings.smtpPort),
+    smtpSecure: settings.smtpSecure,
+    smtpUsername: settings.smtpUsername ?? '',
+    smtpPassword: settings.smtpPassword ?? '',
+    fromAddress: settings.fromAddress ?? '',
+    recipients: settings.recipients.join(', '),
+    digestFrequency: settings.digestFrequency,
+    digestHour: settings.digestHour,
+    digestWeekday: settings.digestWeekday,
+    digestTimezone: settings.digestTimezone,
+  };
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * SMTP server, recipients and digest schedule
+ *
+ * Email is a channel in the routing table above; the digest summarises violations,
+ * top users, new devices and server downtime once a day or week.
+ */
+export function EmailSettings() {
+  const { data: settings, isLoading } = useEmailSettings();
+  const updateSettings = useUpdateEmailSettings();
+  const testEmail = useTestEmail();
+  const sendDigest = useSendEmailDigest();
+
+  // Unsaved edits (null = showing the saved settings)
+  const [draft, setDraft] = useState<EmailFormData | null>(null);
+  const form = draft ?? (settings ? toFormData(settings) : null);
+
+  const setForm = (data: Partial<EmailFormData>) => {
+    if (form) setDraft({ ...form, ...data });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    updateSettings.mutate(
+      {
+        enabled: form.enabled,
+        smtpHost: form.smtpHost.trim() || null,
+        smtpPort: Number(form.smtpPort),
+        smtpSecure: form.smtpSecure,
+        smtpUsername: form.smtpUsername.trim() || null,
+        smtpPassword: form.smtpPassword || null,
+        fromAddress: form.fromAddress.trim() || null,
+        recipients: form.recipients
+          .split(/[\s,;]+/)
+          .map((address) => address.trim())
+          .filter(Boolean),
+        digestFrequency: form.digestFrequency,
+        digestHour: form.digestHour,
+        digestWeekday: form.digestWeekday,
+        digestTimezone: form.digestTimezone.trim() || 'UTC',
+      },
+      { onSuccess: () => { setDraft(null); } }
+    );
+  };
+
+  // Test and digest use the saved settings
+  const isDirty = draft !== null;
+  const canSend = !!settings?.smtpHost && !!settings.fromAddress && !!settings.recipients.length;
+  const digestPeriod = settings?.digestFrequency === 'weekly' ? 'weekly' : 'daily';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email
+        </CardTitle>
+        <CardDescription>
+          Send notifications and a daily or weekly digest over SMTP. Pick the events to email in
+          the routing table above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !form ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="emailEnabled">Send Email</Label>
+                <p className="text-xs text-muted-foreground">
+                  Needs an SMTP server, a sender and at least one recipient
+                </p>
+              </div>
+              <Switch
+                id="emailEnabled"
+                checked={form.enabled}
+                onCheckedChange={(enabled) => { setForm({ enabled }); }}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-[1fr_8rem]">
+              <div className="space-y-2">
+                <Label htmlFor="smtpHost">SMTP Server</Label>
+                <Input
+                  id="smtpHost"
+                  value={form.smtpHost}
+                  onChange={(e) => { setForm({ smtpHost: e.target.value }); }}
+                  placeholder="smtp.example.com"
+                  maxLength={255}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="smtpPort">Port</Label>
+                <Input
+                  id="smtpPort"
+                  type="number"
+                  min={1}
+                  max={65535}
+                  value={form.smtpPort}
+                  onChange={(e) => { setForm({ smtpPort: e.target.value }); }}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="smtpSecure"
+                checked={form.smtpSecure}
+                onCheckedChange={(smtpSecure) => { setForm({ smtpSecure }); }}
+              />
+              <Label htmlFor="smtpSecure" className="font-normal">
+                Use TLS from the start (usually port 465). Otherwise STARTTLS is used when offered.
+              </Label>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="smtpUsername">Username (optional)</Label>
+                <Input
+                  id="smtpUsername"
+                  value={form.smtpUsername}
+                  onChange={(e) => { setForm({ smtpUsername: e.target.value }); }}
+                  autoComplete="off"
+                  maxLength={255}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="smtpPassword">Password (optional)</Label>
+                <Input
+                  id="smtpPassword"
+                  type="password"
+                  value={form.smtpPassword}
+                  onChange={(e) => { setForm({ smtpPassword: e.target.value }); }}
+                  autoComplete="new-password"
+                  maxLength={500}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="fromAddress">From</Label>
+                <Input
+                  id="fromAddress"
+                  type="email"
+                  value={form.fromAddress}
+                  onChange={(e) => { setForm({ fromAddress: e.target.value }); }}
+                  placeholder="tracearr@example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recipients">Recipients</Label>
+                <Input
+                  id="recipients"
+                  value={form.recipients}
+                  onChange={(e) => { setForm({ recipients: e.target.value }); }}
+                  placeholder="you@example.com, admin@example.com"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Digest</Label>
+              <div className="flex flex-wrap gap-2">
+                <Select
+                  value={form.digestFrequency}
+                  onValueChange={(value) => {
+                    setForm({ digestFrequency: value as EmailDigestFrequency });
+                  }}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EMAIL_DIGEST_FREQUENCY_DISPLAY_NAMES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {form.digestFrequency === 'weekly' && (
+                  <Select
+                    value={String(form.digestWeekday)}
+                    onValueChange={(value) => { setForm({ digestWeekday: Number(value) }); }}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((name, day) => (
+                        <SelectItem key={day} value={String(day)}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {form.digestFrequency !== 'off' && (
+                  <>
+                    <Select
+                      value={String(form.digestHour)}
+                      onValueChange={(value) => { setForm({ digestHour: Number(value) }); }}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {HOURS.map((hour) => (
+                          <SelectItem key={hour} value={String(hour)}>
+                            {formatHour(hour)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      aria-label="Digest timezone"
+                      className="w-56"
+                      value={form.digestTimezone}
+                      onChange={(e) => { setForm({ digestTimezone: e.target.value }); }}
+                      placeholder="e.g., America/New_York"
+                    />
+                  </>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Summarises new violations, top users, new devices and server downtime.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => { testEmail.mutate(); }}
+                  disabled={isDirty || !canSend || testEmail.isPending}
+                >
+                  {testEmail.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="mr-2 h-4 w-4" />
+                  )}
+                  Send Test
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => { sendDigest.mutate(digestPeriod); }}
+                  disabled={isDirty || !settings?.enabled || sendDigest.isPending}
+                >
+                  {sendDigest.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Newspaper className="mr-2 h-4 w-4" />
+                  )}
+                  Send {EMAIL_DIGEST_FREQUENCY_DISPLAY_NAMES[digestPeriod]} Digest Now
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {isDirty && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { setDraft(null); }}
+                  >
+                    Discard Changes
+                  </Button>
+                )}
+                <Button type="submit" size="sm" disabled={!isDirty || updateSettings.isPending}>
+                  {updateSettings.isPending ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
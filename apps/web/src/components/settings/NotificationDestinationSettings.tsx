@@ -0,0 +1,421 @@
+import { useState } from 'react';
+import {
+  NOTIFICATION_DESTINATION_TYPE_DISPLAY_NAMES,
+  WEBHOOK_FORMAT_DISPLAY_NAMES,
+  type NotificationDestination,
+  type NotificationDestinationType,
+  type WebhookFormat,
+} from '@tracearr/shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Pencil, Plus, Send, Trash2, Webhook } from 'lucide-react';
+import {
+  useNotificationDestinations,
+  useCreateNotificationDestination,
+  useUpdateNotificationDestination,
+  useDeleteNotificationDestination,
+  useTestNotificationDestination,
+} from '@/hooks/queries';
+
+interface DestinationFormData {
+  name: string;
+  type: NotificationDestinationType;
+  webhookUrl: string;
+  webhookFormat: WebhookFormat;
+  ntfyTopic: string;
+  chatId: string;
+  authToken: string;
+}
+
+const EMPTY_FORM: DestinationFormData = {
+  name: '',
+  type: 'discord',
+  webhookUrl: '',
+  webhookFormat: 'json',
+  ntfyTopic: '',
+  chatId: '',
+  authToken: '',
+};
+
+const URL_PLACEHOLDERS: Record<WebhookFormat, string> = {
+  json: 'https://your-service.com/webhook',
+  ntfy: 'https://ntfy.sh/ (or your self-hosted ntfy server)',
+  apprise: 'http://apprise:8000/notify/myconfig',
+  slack: 'https://hooks.slack.com/services/...',
+  telegram: 'https://api.telegram.org',
+  matrix: 'https://matrix.org (your homeserver)',
+  gotify: 'https://gotify.example.com',
+};
+
+interface FormatFields {
+  urlLabel?: string;
+  tokenLabel: string;
+  tokenPlaceholder: string;
+  tokenRequired: boolean;
+  chatLabel?: string; // Telegram chat or Matrix room
+  chatPlaceholder?: string;
+}
+
+// Credentials each format needs besides the URL (formats not listed only need the URL)
+const FORMAT_FIELDS: Partial<Record<WebhookFormat, FormatFields>> = {
+  ntfy: { tokenLabel: 'Auth Token (optional)', tokenPlaceholder: 'tk_...', tokenRequired: false },
+  telegram: {
+    urlLabel: 'Bot API URL',
+    tokenLabel: 'Bot Token',
+    tokenPlaceholder: '123456:ABC-DEF...',
+    tokenRequired: true,
+    chatLabel: 'Chat ID',
+    chatPlaceholder: '-1001234567890',
+  },
+  matrix: {
+    urlLabel: 'Homeserver URL',
+    tokenLabel: 'Access Token',
+    tokenPlaceholder: 'syt_...',
+    tokenRequired: true,
+    chatLabel: 'Room ID',
+    chatPlaceholder: '!abcdef:matrix.org',
+  },
+  gotify: {
+    urlLabel: 'Server URL',
+    tokenLabel: 'App Token',
+    tokenPlaceholder: 'AbCdEf...',
+    tokenRequired: true,
+  },
+};
+
+function describeDestination(destination: NotificationDestination): string {
+  if (destination.type === 'discord') {
+    return NOTIFICATION_DESTINATION_TYPE_DISPLAY_NAMES.discord;
+  }
+  return WEBHOOK_FORMAT_DISPLAY_NAMES[destination.webhookFormat];
+}
+
+/**
+ * Named Discord and webhook destinations
+ *
+ * Which events each destination receives is set in the routing table.
+ */
+export function NotificationDestinationSettings() {
+  const { data: destinations, isLoading } = useNotificationDestinations();
+  const createDestination = useCreateNotificationDestination();
+  const updateDestination = useUpdateNotificationDestination();
+  const deleteDestination = useDeleteNotificationDestination();
+  const testDestination = useTestNotificationDestination();
+
+  // null = closed, 'new' = creating, otherwise the destination being edited
+  const [editing, setEditing] = useState<NotificationDestination | 'new' | null>(null);
+  const [formData, setFormData] = useState<DestinationFormData>(EMPTY_FORM);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const startCreate = () => {
+    setFormData(EMPTY_FORM);
+    setEditing('new');
+  };
+
+  const startEdit = (destination: NotificationDestination) => {
+    setFormData({
+      name: destination.name,
+      type: destination.type,
+      webhookUrl: destination.webhookUrl,
+      webhookFormat: destination.webhookFormat,
+      ntfyTopic: destination.ntfyTopic ?? '',
+      chatId: destination.chatId ?? '',
+      // Saved tokens come back masked; sending the mask back keeps the saved token
+      authToken: destination.authToken ?? '',
+    });
+    setEditing(destination);
+  };
+
+  const isNtfy = formData.type === 'webhook' && formData.webhookFormat === 'ntfy';
+  const formatFields =
+    formData.type === 'webhook' ? FORMAT_FIELDS[formData.webhookFormat] : undefined;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      name: formData.name.trim(),
+      type: formData.type,
+      webhookUrl: formData.webhookUrl.trim(),
+      webhookFormat: formData.type === 'discord' ? ('json' as const) : formData.webhookFormat,
+      ntfyTopic: isNtfy ? formData.ntfyTopic.trim() || null : null,
+      chatId: formatFields?.chatLabel ? formData.chatId.trim() || null : null,
+      authToken: formatFields ? formData.authToken || null : null,
+    };
+    const onSuccess = () => { setEditing(null); };
+
+    if (editing === 'new') {
+      createDestination.mutate({ ...data, enabled: true }, { onSuccess });
+    } else if (editing) {
+      updateDestination.mutate({ id: editing.id, data }, { onSuccess });
+    }
+  };
+
+  const isSaving = createDestination.isPending || updateDestination.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Destinations
+            </CardTitle>
+            <CardDescription>
+              Discord, Slack, Telegram, Matrix and Gotify channels and webhooks that
+              notifications can be routed to
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={startCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Destination
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          [...Array(2)].map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+        ) : !destinations?.length ? (
+          <p className="text-sm text-muted-foreground">
+            No destinations yet. Add one, then pick its events in the routing table above.
+          </p>
+        ) : (
+          destinations.map((destination) => (
+            <div
+              key={destination.id}
+              className="flex items-center justify-between gap-4 rounded-lg border p-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{destination.name}</span>
+                  <Badge variant="secondary">{describeDestination(destination)}</Badge>
+                </div>
+                <p className="truncate text-xs text-muted-foreground">
+                  {destination.routes.length}{' '}
+                  {destination.routes.length === 1 ? 'route' : 'routes'}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <Switch
+                  checked={destination.enabled}
+                  onCheckedChange={(enabled) => {
+                    updateDestination.mutate({ id: destination.id, data: { enabled } });
+                  }}
+                  aria-label={`Enable ${destination.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => { testDestination.mutate(destination.id); }}
+                  disabled={testDestination.isPending}
+                  title="Send a test notification"
+                >
+                  {testDestination.isPending && testDestination.variables === destination.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => { startEdit(destination); }}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => { setDeleteConfirmId(destination.id); }}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Destination' : 'Edit Destination'}</DialogTitle>
+            <DialogDescription>
+              Where notifications are sent. Events are routed to it from the routing table.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="destinationName">Name</Label>
+              <Input
+                id="destinationName"
+                value={formData.name}
+                onChange={(e) => { setFormData({ ...formData, name: e.target.value }); }}
+                placeholder="e.g., Security alerts"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(type) => {
+                    setFormData({ ...formData, type: type as NotificationDestinationType });
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(NOTIFICATION_DESTINATION_TYPE_DISPLAY_NAMES).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.type === 'webhook' && (
+                <div className="space-y-2">
+                  <Label>Format</Label>
+                  <Select
+                    value={formData.webhookFormat}
+                    onValueChange={(webhookFormat) => {
+                      // Telegram's Bot API URL is the same for everyone without a local server
+                      const webhookUrl =
+                        webhookFormat === 'telegram' && !formData.webhookUrl
+                          ? URL_PLACEHOLDERS.telegram
+                          : formData.webhookUrl;
+                      setFormData({
+                        ...formData,
+                        webhookFormat: webhookFormat as WebhookFormat,
+                        webhookUrl,
+                      });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WEBHOOK_FORMAT_DISPLAY_NAMES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="destinationUrl">{formatFields?.urlLabel ?? 'URL'}</Label>
+              <Input
+                id="destinationUrl"
+                type="url"
+                value={formData.webhookUrl}
+                onChange={(e) => { setFormData({ ...formData, webhookUrl: e.target.value }); }}
+                placeholder={
+                  formData.type === 'discord'
+                    ? 'https://discord.com/api/webhooks/...'
+                    : URL_PLACEHOLDERS[formData.webhookFormat]
+                }
+                required
+              />
+            </div>
+            {formatFields && (
+              <div className="grid grid-cols-2 gap-4">
+                {isNtfy && (
+                  <div className="space-y-2">
+                    <Label htmlFor="destinationTopic">Ntfy Topic</Label>
+                    <Input
+                      id="destinationTopic"
+                      value={formData.ntfyTopic}
+                      onChange={(e) => { setFormData({ ...formData, ntfyTopic: e.target.value }); }}
+                      placeholder="tracearr"
+                      required
+                    />
+                  </div>
+                )}
+                {formatFields.chatLabel && (
+                  <div className="space-y-2">
+                    <Label htmlFor="destinationChat">{formatFields.chatLabel}</Label>
+                    <Input
+                      id="destinationChat"
+                      value={formData.chatId}
+                      onChange={(e) => { setFormData({ ...formData, chatId: e.target.value }); }}
+                      placeholder={formatFields.chatPlaceholder}
+                      maxLength={255}
+                      required
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="destinationToken">{formatFields.tokenLabel}</Label>
+                  <Input
+                    id="destinationToken"
+                    type="password"
+                    value={formData.authToken}
+                    onChange={(e) => { setFormData({ ...formData, authToken: e.target.value }); }}
+                    placeholder={formatFields.tokenPlaceholder}
+                    autoComplete="new-password"
+                    required={formatFields.tokenRequired}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => { setEditing(null); }}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleteConfirmId !== null}
+        onOpenChange={(open) => { if (!open) setDeleteConfirmId(null); }}
+        title="Remove Destination"
+        description="Remove this destination and its routes? It will stop receiving notifications."
+        confirmLabel="Remove"
+        onConfirm={() => {
+          if (deleteConfirmId) {
+            deleteDestination.mutate(deleteConfirmId, {
+              onSuccess: () => { setDeleteConfirmId(null); },
+            });
+          }
+        }}
+        isLoading={deleteDestination.isPending}
+      />
+    </Card>
+  );
+}
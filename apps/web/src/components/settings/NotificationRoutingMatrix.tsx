@@ -1,7 +1,22 @@
+import { useState } from 'react';
 import { Info } from 'lucide-react';
-import type { NotificationChannelRouting, NotificationEventType } from '@tracearr/shared';
+import {
+  SEVERITY_LEVELS,
+  type NotificationChannelRouting,
+  type NotificationDestination,
+  type NotificationEventType,
+  type ViolationSeverity,
+} from '@tracearr/shared';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -16,10 +31,18 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { useChannelRouting, useUpdateChannelRouting } from '@/hooks/queries';
+import {
+  useAddNotificationRoute,
+  useChannelRouting,
+  useDeleteNotificationRoute,
+  useNotificationDestinations,
+  useServers,
+  useUpdateChannelRouting,
+} from '@/hooks/queries';
+import { cn } from '@/lib/utils';
 
 // Display names and descriptions for event types
-const EVENT_CONFIG: Record<
+export const EVENT_CONFIG: Record<
   NotificationEventType,
   { name: string; description: string }
 > = {
@@ -55,13 +78,28 @@ const EVENT_CONFIG: Record<
     name: 'Server Online',
     description: 'A media server came back online',
   },
+  user_suspended: {
+    name: 'User Suspended',
+    description: "A user's account was suspended for a set time",
+  },
+  user_reinstated: {
+    name: 'User Reinstated',
+    description: 'A suspension ended or was lifted and the account was reinstated',
+  },
+  new_server_user: {
+    name: 'New User',
+    description: 'Sync found a new account on a media server',
+  },
 };
 
-// Order of events in the table (security first, then streams, then server)
-const EVENT_ORDER: NotificationEventType[] = [
+// Order of events in the table (security first, then accounts, streams and server)
+export const EVENT_ORDER: NotificationEventType[] = [
   'violation_detected',
   'new_device',
   'trust_score_changed',
+  'user_suspended',
+  'user_reinstated',
+  'new_server_user',
   'stream_started',
   'stream_stopped',
   'concurrent_streams',
@@ -69,36 +107,75 @@ const EVENT_ORDER: NotificationEventType[] = [
   'server_up',
 ];
 
-interface NotificationRoutingMatrixProps {
-  discordConfigured: boolean;
-  webhookConfigured: boolean;
-}
+const SEVERITY_OPTIONS = Object.keys(SEVERITY_LEVELS) as ViolationSeverity[];
+
+// Filter value for routes that apply to every server or severity
+const ALL = 'all';
 
-export function NotificationRoutingMatrix({
-  discordConfigured,
-  webhookConfigured,
-}: NotificationRoutingMatrixProps) {
+/**
+ * Which events each channel receives
+ *
+ * Web toasts and email are on or off per event. Each destination gets a column; its checkboxes
+ * add or remove routes for the selected server and minimum violation severity.
+ */
+export function NotificationRoutingMatrix() {
   const { data: routingData, isLoading } = useChannelRouting();
+  const { data: destinations, isLoading: isLoadingDestinations } = useNotificationDestinations();
+  const { data: servers } = useServers();
   const updateRouting = useUpdateChannelRouting();
+  const addRoute = useAddNotificationRoute();
+  const deleteRoute = useDeleteNotificationRoute();
+
+  const [serverFilter, setServerFilter] = useState<string>(ALL);
+  const [severityFilter, setSeverityFilter] = useState<ViolationSeverity | typeof ALL>(ALL);
 
   // Build a map for quick lookup
   const routingMap = new Map<NotificationEventType, NotificationChannelRouting>();
   routingData?.forEach((r) => routingMap.set(r.eventType, r));
 
-  const handleToggle = (
+  const serverId = serverFilter === ALL ? null : serverFilter;
+
+  // Severity only narrows violations
+  const getMinSeverity = (eventType: NotificationEventType): ViolationSeverity | null =>
+    eventType === 'violation_detected' && severityFilter !== ALL ? severityFilter : null;
+
+  const findRoute = (destination: NotificationDestination, eventType: NotificationEventType) => {
+    const minSeverity = getMinSeverity(eventType);
+    return destination.routes.find(
+      (route) =>
+        route.eventType === eventType &&
+        route.serverId === serverId &&
+        route.minSeverity === minSeverity
+    );
+  };
+
+  const handleWebToastToggle = (eventType: NotificationEventType, checked: boolean) => {
+    updateRouting.mutate({ eventType, webToastEnabled: checked });
+  };
+
+  const handleEmailToggle = (eventType: NotificationEventType, checked: boolean) => {
+    updateRouting.mutate({ eventType, emailEnabled: checked });
+  };
+
+  const handleDestinationToggle = (
+    destination: NotificationDestination,
     eventType: NotificationEventType,
-    channel: 'discord' | 'webhook' | 'webToast',
     checked: boolean
   ) => {
-    updateRouting.mutate({
-      eventType,
-      ...(channel === 'discord' && { discordEnabled: checked }),
-      ...(channel === 'webhook' && { webhookEnabled: checked }),
-      ...(channel === 'webToast' && { webToastEnabled: checked }),
-    });
+    const route = findRoute(destination, eventType);
+    if (checked && !route) {
+      addRoute.mutate({
+        destinationId: destination.id,
+        data: { eventType, serverId, minSeverity: getMinSeverity(eventType) },
+      });
+    } else if (!checked && route) {
+      deleteRoute.mutate({ destinationId: destination.id, routeId: route.id });
+    }
   };
 
-  if (isLoading) {
+  const isUpdatingRoutes = addRoute.isPending || deleteRoute.isPending;
+
+  if (isLoading || isLoadingDestinations) {
     return (
       <div className="space-y-2">
         {EVENT_ORDER.map((eventType) => (
@@ -111,19 +188,68 @@ export function NotificationRoutingMatrix({
   return (
     <TooltipProvider>
       <div className="space-y-4">
+        {/* Route scope */}
+        {!!destinations?.length && (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Server</Label>
+              <Select value={serverFilter} onValueChange={setServerFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All servers</SelectItem>
+                  {servers?.map((server) => (
+                    <SelectItem key={server.id} value={server.id}>
+                      {server.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Violation severity</Label>
+              <Select
+                value={severityFilter}
+                onValueChange={(value) => {
+                  setSeverityFilter(value as ViolationSeverity | typeof ALL);
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any severity</SelectItem>
+                  {SEVERITY_OPTIONS.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {SEVERITY_LEVELS[severity].label} and up
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
         {/* Table */}
-        <div className="border rounded-lg overflow-hidden">
+        <div className="border rounded-lg overflow-x-auto">
           <Table>
             <TableHeader className="bg-muted/50">
               <TableRow>
                 <TableHead className="py-3 px-4">Event</TableHead>
                 <TableHead className="text-center py-3 px-4 w-24">Web</TableHead>
-                {discordConfigured && (
-                  <TableHead className="text-center py-3 px-4 w-24">Discord</TableHead>
-                )}
-                {webhookConfigured && (
-                  <TableHead className="text-center py-3 px-4 w-24">Webhook</TableHead>
-                )}
+                <TableHead className="text-center py-3 px-4 w-24">Email</TableHead>
+                {destinations?.map((destination) => (
+                  <TableHead
+                    key={destination.id}
+                    className={cn(
+                      'text-center py-3 px-4 w-28',
+                      !destination.enabled && 'text-muted-foreground/50'
+                    )}
+                  >
+                    {destination.name}
+                  </TableHead>
+                ))}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -148,34 +274,32 @@ export function NotificationRoutingMatrix({
                     <TableCell className="py-3 px-4 text-center">
                       <Checkbox
                         checked={routing?.webToastEnabled ?? true}
-                        onCheckedChange={(checked) =>
-                          handleToggle(eventType, 'webToast', checked === true)
-                        }
+                        onCheckedChange={(checked) => {
+                          handleWebToastToggle(eventType, checked === true);
+                        }}
                         disabled={updateRouting.isPending}
                       />
                     </TableCell>
-                    {discordConfigured && (
-                      <TableCell className="py-3 px-4 text-center">
-                        <Checkbox
-                          checked={routing?.discordEnabled ?? false}
-                          onCheckedChange={(checked) =>
-                            handleToggle(eventType, 'discord', checked === true)
-                          }
-                          disabled={updateRouting.isPending}
-                        />
-                      </TableCell>
-                    )}
-                    {webhookConfigured && (
-                      <TableCell className="py-3 px-4 text-center">
+                    <TableCell className="py-3 px-4 text-center">
+                      <Checkbox
+                        checked={routing?.emailEnabled ?? false}
+                        onCheckedChange={(checked) => {
+                          handleEmailToggle(eventType, checked === true);
+                        }}
+                        disabled={updateRouting.isPending}
+                      />
+                    </TableCell>
+                    {destinations?.map((destination) => (
+                      <TableCell key={destination.id} className="py-3 px-4 text-center">
                         <Checkbox
-                          checked={routing?.webhookEnabled ?? false}
-                          onCheckedChange={(checked) =>
-                            handleToggle(eventType, 'webhook', checked === true)
-                          }
-                          disabled={updateRouting.isPending}
+                          checked={!!findRoute(destination, eventType)}
+                          onCheckedChange={(checked) => {
+                            handleDestinationToggle(destination, eventType, checked === true);
+                          }}
+                          disabled={isUpdatingRoutes}
                         />
                       </TableCell>
-                    )}
+                    ))}
                   </TableRow>
                 );
               })}
@@ -187,7 +311,9 @@ export function NotificationRoutingMatrix({
         <div className="flex items-start gap-2 text-sm text-muted-foreground">
           <Info className="h-4 w-4 mt-0.5 shrink-0" />
           <span>
-            <strong>Web</strong> shows toast notifications in this browser. Push notifications are configured per-device in the mobile app.
+            <strong>Web</strong> shows toast notifications in this browser.{' '}
+            <strong>Email</strong> goes to the recipients in the email settings below. Push notifications are configured per-device in the mobile app.
+            Destination checkboxes apply to the server and violation severity selected above.
           </span>
         </div>
       </div>
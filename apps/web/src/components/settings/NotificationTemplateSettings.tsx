@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  type NotificationEventType,
+  type NotificationTemplateInput,
+} from '@tracearr/shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Eye, FileText, Loader2, RotateCcw } from 'lucide-react';
+import {
+  useNotificationTemplates,
+  usePreviewNotificationTemplate,
+  useResetNotificationTemplate,
+  useUpdateNotificationTemplate,
+} from '@/hooks/queries';
+import { EVENT_CONFIG, EVENT_ORDER } from './NotificationRoutingMatrix';
+
+const EMPTY_TEMPLATE: NotificationTemplateInput = { title: '', body: '' };
+
+/**
+ * Custom notification text per event
+ *
+ * A saved template replaces the built-in title and message on every channel.
+ * Unsaved edits are kept per event while switching between them.
+ */
+export function NotificationTemplateSettings() {
+  const { data: templates, isLoading } = useNotificationTemplates();
+  const updateTemplate = useUpdateNotificationTemplate();
+  const resetTemplate = useResetNotificationTemplate();
+  const previewTemplate = usePreviewNotificationTemplate();
+
+  const [eventType, setEventType] = useState<NotificationEventType>('violation_detected');
+  const [drafts, setDrafts] = useState<
+    Partial<Record<NotificationEventType, NotificationTemplateInput>>
+  >({});
+  const [resetConfirmOpen, setResetConfirmOpen] = useState(false);
+
+  const saved = templates?.find((template) => template.eventType === eventType);
+  const form =
+    drafts[eventType] ?? (saved ? { title: saved.title, body: saved.body } : EMPTY_TEMPLATE);
+  const isDirty = drafts[eventType] !== undefined;
+
+  const setForm = (data: NotificationTemplateInput) => {
+    setDrafts({ ...drafts, [eventType]: data });
+    previewTemplate.reset();
+  };
+
+  const clearDraft = () => {
+    const { [eventType]: _discarded, ...rest } = drafts;
+    setDrafts(rest);
+    previewTemplate.reset();
+  };
+
+  const handleEventChange = (value: string) => {
+    setEventType(value as NotificationEventType);
+    previewTemplate.reset();
+  };
+
+  const insertPlaceholder = (path: string) => {
+    setForm({ ...form, body: `${form.body}{{${path}}}` });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateTemplate.mutate({ eventType, data: form }, { onSuccess: clearDraft });
+  };
+
+  const canSubmit = !!form.title.trim() && !!form.body.trim();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Message Templates
+        </CardTitle>
+        <CardDescription>
+          Customize the title and message sent for each event. Events without a template use the
+          built-in message.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-64" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Event</Label>
+              <Select value={eventType} onValueChange={handleEventChange}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_ORDER.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {EVENT_CONFIG[type].name}
+                      {templates?.some((template) => template.eventType === type) && ' (custom)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="templateTitle">Title</Label>
+              <Input
+                id="templateTitle"
+                value={form.title}
+                onChange={(e) => { setForm({ ...form, title: e.target.value }); }}
+                placeholder={DEFAULT_NOTIFICATION_TEMPLATES[eventType].title}
+                maxLength={200}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="templateBody">Message</Label>
+              <Textarea
+                id="templateBody"
+                value={form.body}
+                onChange={(e) => { setForm({ ...form, body: e.target.value }); }}
+                placeholder={DEFAULT_NOTIFICATION_TEMPLATES[eventType].body}
+                maxLength={2000}
+                rows={4}
+              />
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs text-muted-foreground">Placeholders:</span>
+                {NOTIFICATION_TEMPLATE_VARIABLES[eventType].map((path) => (
+                  <Badge
+                    key={path}
+                    variant="secondary"
+                    className="cursor-pointer font-mono text-xs"
+                    onClick={() => { insertPlaceholder(path); }}
+                  >
+                    {`{{${path}}}`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {previewTemplate.data && (
+              <div className="rounded-lg border bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">Preview with sample data</p>
+                <p className="mt-1 font-medium">{previewTemplate.data.title}</p>
+                <p className="whitespace-pre-wrap text-sm">{previewTemplate.data.body}</p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => { setForm(DEFAULT_NOTIFICATION_TEMPLATES[eventType]); }}
+                >
+                  Start from Default
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => { previewTemplate.mutate({ eventType, ...form }); }}
+                  disabled={!canSubmit || previewTemplate.isPending}
+                >
+                  {previewTemplate.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Eye className="mr-2 h-4 w-4" />
+                  )}
+                  Preview
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {isDirty && (
+                  <Button type="button" variant="ghost" size="sm" onClick={clearDraft}>
+                    Discard Changes
+                  </Button>
+                )}
+                {saved && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => { setResetConfirmOpen(true); }}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Use Built-in
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={!isDirty || !canSubmit || updateTemplate.isPending}
+                >
+                  {updateTemplate.isPending ? 'Saving...' : 'Save Template'}
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={resetConfirmOpen}
+        onOpenChange={setResetConfirmOpen}
+        title="Use Built-in Message"
+        description={`Delete the custom template for ${EVENT_CONFIG[eventType].name}? The built-in message will be sent again.`}
+        confirmLabel="Delete Template"
+        onConfirm={() => {
+          resetTemplate.mutate(eventType, {
+            onSuccess: () => {
+              clearDraft();
+              setResetConfirmOpen(false);
+            },
+          });
+        }}
+        isLoading={resetTemplate.isPending}
+      />
+    </Card>
+  );
+}
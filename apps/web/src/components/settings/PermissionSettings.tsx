@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import type {
+  Permission,
+  Server,
+  ServerPermissionGrant,
+  UpdateUserPermissionsInput,
+  UserPermissions,
+} from '@tracearr/shared';
+import { PERMISSION_DISPLAY_NAMES } from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { KeyRound, UserPlus } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useIdentityOptions,
+  useServers,
+  useUpdateUserPermissions,
+  useUserPermissions,
+} from '@/hooks/queries';
+
+type ManagedRole = UpdateUserPermissionsInput['role'];
+
+const PERMISSIONS = Object.keys(PERMISSION_DISPLAY_NAMES) as Permission[];
+
+const ROLE_OPTIONS: { value: ManagedRole; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Can be assigned violations' },
+  { value: 'viewer', label: 'Viewer', description: 'Read access to granted servers' },
+  { value: 'member', label: 'Member', description: 'Cannot log in' },
+];
+
+function UserPermissionsCard({
+  account,
+  servers,
+}: {
+  account: UserPermissions;
+  servers: Server[];
+}) {
+  const updatePermissions = useUpdateUserPermissions();
+  const [role, setRole] = useState<ManagedRole>(
+    account.role === 'admin' ? 'admin' : 'viewer'
+  );
+  const [grants, setGrants] = useState<ServerPermissionGrant[]>(account.grants);
+
+  const grantFor = (serverId: string) => grants.find((grant) => grant.serverId === serverId);
+
+  // A grant with no permissions still gives read access to the server
+  const toggleServer = (serverId: string, enabled: boolean) => {
+    setGrants((current) =>
+      enabled
+        ? [...current, { serverId, permissions: [] }]
+        : current.filter((grant) => grant.serverId !== serverId)
+    );
+  };
+
+  const togglePermission = (serverId: string, permission: Permission, enabled: boolean) => {
+    setGrants((current) =>
+      current.map((grant) =>
+        grant.serverId === serverId
+          ? {
+              ...grant,
+              permissions: enabled
+                ? [...grant.permissions, permission]
+                : grant.permissions.filter((p) => p !== permission),
+            }
+          : grant
+      )
+    );
+  };
+
+  const handleSave = () => {
+    updatePermissions.mutate({ userId: account.userId, data: { role, grants } });
+  };
+
+  const handleRemove = () => {
+    updatePermissions.mutate({ userId: account.userId, data: { role: 'member', grants: [] } });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate font-medium">{account.name ?? account.username}</p>
+          {account.name && (
+            <p className="truncate text-xs text-muted-foreground">{account.username}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={role} onValueChange={(value: ManagedRole) => { setRole(value); }}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLE_OPTIONS.filter((option) => option.value !== 'member').map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRemove}
+            disabled={updatePermissions.isPending}
+          >
+            Remove
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {servers.map((server) => {
+          const grant = grantFor(server.id);
+          return (
+            <div key={server.id} className="space-y-2 rounded-md bg-muted/40 p-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`${account.userId}-${server.id}`}
+                  checked={!!grant}
+                  onCheckedChange={(checked) => { toggleServer(server.id, checked === true); }}
+                />
+                <Label htmlFor={`${account.userId}-${server.id}`} className="font-medium">
+                  {server.name}
+                </Label>
+              </div>
+              {grant && (
+                <div className="flex flex-wrap gap-x-4 gap-y-2 pl-6">
+                  {PERMISSIONS.map((permission) => (
+                    <div key={permission} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${account.userId}-${server.id}-${permission}`}
+                        checked={grant.permissions.includes(permission)}
+                        onCheckedChange={(checked) => {
+                          togglePermission(server.id, permission, checked === true);
+                        }}
+                      />
+                      <Label
+                        htmlFor={`${account.userId}-${server.id}-${permission}`}
+                        className="text-sm font-normal"
+                      >
+                        {PERMISSION_DISPLAY_NAMES[permission]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={updatePermissions.isPending}>
+          {updatePermissions.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AddUserPicker({ excludedUserIds }: { excludedUserIds: Set<string> }) {
+  const { identities } = useIdentityOptions();
+  const updatePermissions = useUpdateUserPermissions();
+  const [userId, setUserId] = useState('');
+
+  const candidates = identities.filter((identity) => !excludedUserIds.has(identity.userId));
+
+  const handleAdd = () => {
+    updatePermissions.mutate(
+      { userId, data: { role: 'viewer', grants: [] } },
+      { onSuccess: () => { setUserId(''); } }
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={userId} onValueChange={setUserId}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Choose a user to give access" />
+        </SelectTrigger>
+        <SelectContent>
+          {candidates.map((identity) => (
+            <SelectItem key={identity.userId} value={identity.userId}>
+              {identity.name}
+              <span className="ml-2 text-xs text-muted-foreground">
+                {identity.servers.join(', ')}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button onClick={handleAdd} disabled={!userId || updatePermissions.isPending}>
+        <UserPlus className="mr-2 h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Roles and per-server feature permissions for everyone who can log in
+ */
+export function PermissionSettings() {
+  const { user } = useAuth();
+  const isOwner = user?.role === 'owner';
+  const { data: accounts, isLoading } = useUserPermissions(isOwner);
+  const { data: servers } = useServers();
+
+  if (!isOwner) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <p className="text-sm text-muted-foreground">
+            Only the server owner can manage permissions.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading || !accounts) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-32" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const owners = accounts.filter((account) => account.role === 'owner');
+  const managed = accounts.filter((account) => account.role !== 'owner');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Permissions
+        </CardTitle>
+        <CardDescription>
+          Choose who can log in and what they can do on each server
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {owners.map((owner) => (
+          <div
+            key={owner.userId}
+            className="flex items-center justify-between gap-2 rounded-lg border p-4"
+          >
+            <p className="truncate font-medium">{owner.name ?? owner.username}</p>
+            <Badge variant="secondary">Owner - all permissions</Badge>
+          </div>
+        ))}
+
+        {managed.map((account) => (
+          <UserPermissionsCard
+            // Reset the form when the saved grants change
+            key={`${account.userId}:${account.role}:${JSON.stringify(account.grants)}`}
+            account={account}
+            servers={servers ?? []}
+          />
+        ))}
+
+        <div className="space-y-2">
+          <Label className="text-base">Give Access</Label>
+          <p className="text-sm text-muted-foreground">
+            {ROLE_OPTIONS.map((option) => `${option.label}: ${option.description}`).join('. ')}
+          </p>
+          <AddUserPicker excludedUserIds={new Set(accounts.map((account) => account.userId))} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import type { RuleType, TrustModel, ViolationSeverity } from '@tracearr/shared';
+import {
+  DEFAULT_TRUST_MODEL,
+  RULE_DISPLAY_NAMES,
+  SEVERITY_LEVELS,
+  trustModelSchema,
+} from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RotateCcw, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSettings, useUpdateSettings } from '@/hooks/queries';
+
+const SEVERITIES = Object.keys(SEVERITY_LEVELS) as ViolationSeverity[];
+const RULE_TYPES = Object.keys(RULE_DISPLAY_NAMES) as RuleType[];
+
+function parsePoints(value: string): number {
+  return Math.max(0, parseInt(value, 10) || 0);
+}
+
+function NumberField({
+  value,
+  onChange,
+  min = 0,
+  max = 100,
+  disabled,
+  placeholder,
+}: {
+  value: number | undefined;
+  onChange: (value: string) => void;
+  min?: number;
+  max?: number;
+  disabled?: boolean;
+  placeholder?: string;
+}) {
+  return (
+    <Input
+      type="number"
+      min={min}
+      max={max}
+      className="w-20"
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => { onChange(e.target.value); }}
+      disabled={disabled}
+    />
+  );
+}
+
+function TrustModelForm({ model }: { model: TrustModel }) {
+  const updateSettings = useUpdateSettings();
+  const [draft, setDraft] = useState<TrustModel>(model);
+
+  const setPenalty = (severity: ViolationSeverity, value: string) => {
+    setDraft((d) => ({ ...d, penalties: { ...d.penalties, [severity]: parsePoints(value) } }));
+  };
+
+  // Blank per-rule penalties fall back to the severity penalty
+  const setRulePenalty = (ruleType: RuleType, severity: ViolationSeverity, value: string) => {
+    setDraft((d) => {
+      const overrides = Object.fromEntries(
+        Object.entries({ ...d.rulePenalties[ruleType], [severity]: parsePoints(value) }).filter(
+          ([key]) => key !== severity || value !== ''
+        )
+      );
+      const rulePenalties = Object.fromEntries(
+        Object.entries({ ...d.rulePenalties, [ruleType]: overrides }).filter(
+          ([, penalties]) => Object.keys(penalties).length > 0
+        )
+      );
+      return { ...d, rulePenalties };
+    });
+  };
+
+  const handleSave = () => {
+    const result = trustModelSchema.safeParse(draft);
+    if (!result.success) {
+      toast.error('Invalid Trust Model', {
+        description: result.error.issues[0]?.message ?? 'Check the values and try again.',
+      });
+      return;
+    }
+    updateSettings.mutate({ trustModel: result.data });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Trust Score
+              </CardTitle>
+              <CardDescription>
+                How violations lower a user&apos;s trust score and how it recovers
+              </CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => { setDraft(DEFAULT_TRUST_MODEL); }}
+              className="gap-1.5 text-muted-foreground hover:text-foreground"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Reset
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label className="text-base">Penalties</Label>
+            <p className="text-sm text-muted-foreground">
+              Points taken off for a violation of each severity
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {SEVERITIES.map((severity) => (
+                <div key={severity} className="flex items-center gap-2">
+                  <span className="text-sm">{SEVERITY_LEVELS[severity].label}</span>
+                  <NumberField
+                    value={draft.penalties[severity]}
+                    onChange={(v) => { setPenalty(severity, v); }}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-base">Score Range</Label>
+              <p className="text-sm text-muted-foreground">
+                Scores never drop below the floor or rise above the ceiling
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <NumberField
+                value={draft.floor}
+                onChange={(v) => { setDraft((d) => ({ ...d, floor: parsePoints(v) })); }}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <NumberField
+                value={draft.ceiling}
+                onChange={(v) => { setDraft((d) => ({ ...d, ceiling: parsePoints(v) })); }}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-base">Recovery</Label>
+                <p className="text-sm text-muted-foreground">
+                  Give points back each day once a user has gone without violations
+                </p>
+              </div>
+              <Switch
+                checked={draft.recovery.enabled}
+                onCheckedChange={(enabled) => {
+                  setDraft((d) => ({ ...d, recovery: { ...d.recovery, enabled } }));
+                }}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <NumberField
+                value={draft.recovery.pointsPerDay}
+                min={1}
+                disabled={!draft.recovery.enabled}
+                onChange={(v) => {
+                  setDraft((d) => ({
+                    ...d,
+                    recovery: { ...d.recovery, pointsPerDay: parsePoints(v) },
+                  }));
+                }}
+              />
+              <span className="text-muted-foreground">points per day after</span>
+              <NumberField
+                value={draft.recovery.cleanDays}
+                min={1}
+                max={365}
+                disabled={!draft.recovery.enabled}
+                onChange={(v) => {
+                  setDraft((d) => ({ ...d, recovery: { ...d.recovery, cleanDays: parsePoints(v) } }));
+                }}
+              />
+              <span className="text-muted-foreground">clean days</span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-base">Violation Decay</Label>
+                <p className="text-sm text-muted-foreground">
+                  Refund the penalty of violations once they are old enough
+                </p>
+              </div>
+              <Switch
+                checked={draft.decay.enabled}
+                onCheckedChange={(enabled) => {
+                  setDraft((d) => ({ ...d, decay: { ...d.decay, enabled } }));
+                }}
+              />
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">After</span>
+              <NumberField
+                value={draft.decay.afterDays}
+                min={1}
+                max={3650}
+                disabled={!draft.decay.enabled}
+                onChange={(v) => {
+                  setDraft((d) => ({ ...d, decay: { ...d.decay, afterDays: parsePoints(v) } }));
+                }}
+              />
+              <span className="text-muted-foreground">days</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Per-Rule Penalties</CardTitle>
+          <CardDescription>
+            Override the penalty for a rule type. Leave blank to use the severity penalty.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {RULE_TYPES.map((ruleType) => (
+            <div key={ruleType} className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-sm">{RULE_DISPLAY_NAMES[ruleType]}</span>
+              <div className="flex items-center gap-2">
+                {SEVERITIES.map((severity) => (
+                  <NumberField
+                    key={severity}
+                    value={draft.rulePenalties[ruleType]?.[severity]}
+                    placeholder={String(draft.penalties[severity])}
+                    onChange={(v) => { setRulePenalty(ruleType, severity, v); }}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+          <p className="pt-2 text-xs text-muted-foreground">
+            Columns: {SEVERITIES.map((s) => SEVERITY_LEVELS[s].label).join(', ')}
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={updateSettings.isPending}>
+          {updateSettings.isPending ? 'Saving...' : 'Save Trust Model'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TrustScoreSettings() {
+  const { data: settings, isLoading } = useSettings();
+
+  if (isLoading || !settings) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-32" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <TrustModelForm model={settings.trustModel} />;
+}
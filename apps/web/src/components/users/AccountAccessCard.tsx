@@ -0,0 +1,450 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { AccountActionLog, AccountActionType, ServerAccountStatus } from '@tracearr/shared';
+import { ACCOUNT_ACTION_DISPLAY_NAMES } from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Ban, Clock, Library, ShieldOff, Undo2, UserX } from 'lucide-react';
+import {
+  useUserAccount,
+  useRunAccountAction,
+  useUndoAccountAction,
+  useSuspendUser,
+  useExtendSuspension,
+  useLiftSuspension,
+} from '@/hooks/queries';
+
+interface AccountAccessCardProps {
+  serverUserId: string;
+}
+
+const ACTION_ICONS: Record<AccountActionType, typeof Ban> = {
+  disable_user: UserX,
+  remove_share: ShieldOff,
+  restrict_libraries: Library,
+};
+
+const CONFIRM_DESCRIPTIONS: Record<'disable_user' | 'remove_share', string> = {
+  disable_user: 'The account will be signed out and unable to stream until it is re-enabled.',
+  remove_share:
+    'The server will no longer be shared with this user on plex.tv. ' +
+    'Undo shares it again with the same libraries.',
+};
+
+// Preset suspension lengths, in hours
+const SUSPENSION_DURATIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 48, label: '2 days' },
+  { hours: 24 * 7, label: '1 week' },
+  { hours: 24 * 30, label: '30 days' },
+];
+
+function describeLibraries(
+  libraryIds: string[] | null,
+  libraries: ServerAccountStatus['libraries']
+): string {
+  if (libraryIds === null) return 'All libraries';
+  if (libraryIds.length === 0) return 'No libraries';
+  const names = new Map(libraries.map((library) => [library.id, library.name]));
+  return libraryIds.map((id) => names.get(id) ?? id).join(', ');
+}
+
+function describeTrigger(action: AccountActionLog): string {
+  if (action.trigger === 'rule') return `Rule: ${action.ruleName ?? 'deleted rule'}`;
+  return `By ${action.triggeredByUsername ?? 'unknown'}`;
+}
+
+/**
+ * What a server account can access on its media server, with actions to
+ * disable, unshare, restrict or suspend it and a history of changes that can be undone
+ */
+export function AccountAccessCard({ serverUserId }: AccountAccessCardProps) {
+  const { data: status, isLoading } = useUserAccount(serverUserId);
+  const runAction = useRunAccountAction();
+  const undoAction = useUndoAccountAction();
+  const suspendUser = useSuspendUser();
+  const extendSuspension = useExtendSuspension();
+  const liftSuspension = useLiftSuspension();
+
+  const [confirmAction, setConfirmAction] = useState<'disable_user' | 'remove_share' | null>(
+    null
+  );
+  const [isRestrictOpen, setIsRestrictOpen] = useState(false);
+  const [selectedLibraries, setSelectedLibraries] = useState<string[]>([]);
+  // Suspend a user, or extend their active suspension
+  const [suspendMode, setSuspendMode] = useState<'suspend' | 'extend' | null>(null);
+  const [suspendHours, setSuspendHours] = useState('48');
+  const [suspendReason, setSuspendReason] = useState('');
+
+  const access = status?.access ?? null;
+  const libraries = status?.libraries ?? [];
+  const supported = status?.supportedActions ?? [];
+  const suspension = status?.suspension ?? null;
+  const isSuspending = suspendUser.isPending || extendSuspension.isPending;
+
+  const openSuspend = (mode: 'suspend' | 'extend') => {
+    setSuspendHours(mode === 'suspend' ? '48' : '24');
+    setSuspendReason('');
+    setSuspendMode(mode);
+  };
+
+  const submitSuspend = () => {
+    const hours = Number(suspendHours);
+    const onSuccess = () => { setSuspendMode(null); };
+    if (suspendMode === 'extend' && suspension) {
+      extendSuspension.mutate(
+        { id: serverUserId, suspensionId: suspension.id, hours },
+        { onSuccess }
+      );
+    } else {
+      suspendUser.mutate(
+        {
+          id: serverUserId,
+          data: { durationHours: hours, reason: suspendReason.trim() || undefined },
+        },
+        { onSuccess }
+      );
+    }
+  };
+
+  const openRestrict = () => {
+    setSelectedLibraries(access?.libraryIds ?? libraries.map((library) => library.id));
+    setIsRestrictOpen(true);
+  };
+
+  const toggleLibrary = (libraryId: string, checked: boolean) => {
+    setSelectedLibraries(
+      checked
+        ? [...selectedLibraries, libraryId]
+        : selectedLibraries.filter((id) => id !== libraryId)
+    );
+  };
+
+  const isActionAvailable = (action: AccountActionType): boolean => {
+    if (!access) return false;
+    if (action === 'disable_user') return !access.isDisabled;
+    if (action === 'remove_share') return access.isShared;
+    return true;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Ban className="h-5 w-5" />
+              Server Access
+            </div>
+            {supported.length > 0 && (
+              <div className="flex items-center gap-2">
+                {!suspension && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!access || isSuspending}
+                    onClick={() => { openSuspend('suspend'); }}
+                  >
+                    <Clock className="mr-2 h-4 w-4" />
+                    Suspend
+                  </Button>
+                )}
+                {supported.map((action) => {
+                  const Icon = ACTION_ICONS[action];
+                  return (
+                    <Button
+                      key={action}
+                      variant="outline"
+                      size="sm"
+                      disabled={!isActionAvailable(action) || runAction.isPending}
+                      onClick={() => {
+                        if (action === 'restrict_libraries') {
+                          openRestrict();
+                        } else {
+                          setConfirmAction(action);
+                        }
+                      }}
+                    >
+                      <Icon className="mr-2 h-4 w-4" />
+                      {ACCOUNT_ACTION_DISPLAY_NAMES[action]}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(2)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <>
+              {suspension && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      Suspended until {format(new Date(suspension.endsAt), 'PPp')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Reinstated automatically{' '}
+                      {formatDistanceToNow(new Date(suspension.endsAt), { addSuffix: true })}
+                      {` · By ${suspension.suspendedByUsername ?? 'unknown'}`}
+                      {suspension.reason && ` · ${suspension.reason}`}
+                    </p>
+                    {suspension.reinstateError && (
+                      <p className="text-xs text-destructive">
+                        Automatic reinstatement failed: {suspension.reinstateError}. Lift the
+                        suspension to retry.
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSuspending || liftSuspension.isPending}
+                      onClick={() => { openSuspend('extend'); }}
+                    >
+                      Extend
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={liftSuspension.isPending}
+                      onClick={() => {
+                        liftSuspension.mutate({ id: serverUserId, suspensionId: suspension.id });
+                      }}
+                    >
+                      <Undo2 className="mr-2 h-4 w-4" />
+                      {liftSuspension.isPending ? 'Lifting...' : 'Lift'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {status?.error ? (
+                <p className="text-sm text-destructive">
+                  Couldn't read access from the media server: {status.error}
+                </p>
+              ) : access ? (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {access.isDisabled && <Badge variant="destructive">Disabled</Badge>}
+                  {!access.isShared && <Badge variant="destructive">Not Shared</Badge>}
+                  {!access.isDisabled && access.isShared && <Badge variant="outline">Active</Badge>}
+                  <span className="text-muted-foreground">
+                    {describeLibraries(access.libraryIds, libraries)}
+                  </span>
+                </div>
+              ) : null}
+
+              {supported.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Server admin accounts can't be changed from Tracearr.
+                </p>
+              )}
+
+              {status && status.actions.length > 0 && (
+                <div className="space-y-2">
+                  {status.actions.map((action) => (
+                    <div
+                      key={action.id}
+                      className="flex items-center justify-between rounded-lg border p-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">
+                            {ACCOUNT_ACTION_DISPLAY_NAMES[action.action]}
+                          </p>
+                          {!action.success && <Badge variant="destructive">Failed</Badge>}
+                          {action.undoneAt && <Badge variant="secondary">Undone</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {describeTrigger(action)} ·{' '}
+                          {formatDistanceToNow(new Date(action.createdAt), { addSuffix: true })}
+                          {action.libraryIds &&
+                            ` · ${describeLibraries(action.libraryIds, libraries)}`}
+                          {action.undoneAt &&
+                            (action.undoneByUsername
+                              ? ` · Undone by ${action.undoneByUsername}`
+                              : ' · Undone automatically')}
+                        </p>
+                        {action.errorMessage && (
+                          <p className="text-xs text-destructive">{action.errorMessage}</p>
+                        )}
+                      </div>
+                      {action.success && !action.undoneAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={undoAction.isPending}
+                          onClick={() => {
+                            undoAction.mutate({ id: serverUserId, actionId: action.id });
+                          }}
+                        >
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Undo
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isRestrictOpen} onOpenChange={setIsRestrictOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Restrict Libraries</DialogTitle>
+            <DialogDescription>
+              The user will only see the selected libraries. Undo restores their current access.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-60 space-y-2 overflow-y-auto rounded-lg border p-3">
+            {libraries.map((library) => (
+              <div key={library.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`restrict-library-${library.id}`}
+                  checked={selectedLibraries.includes(library.id)}
+                  onCheckedChange={(checked) => { toggleLibrary(library.id, checked === true); }}
+                />
+                <label htmlFor={`restrict-library-${library.id}`} className="text-sm">
+                  {library.name}
+                </label>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => { setIsRestrictOpen(false); }}
+              disabled={runAction.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              disabled={runAction.isPending}
+              onClick={() => {
+                runAction.mutate(
+                  {
+                    id: serverUserId,
+                    data: { action: 'restrict_libraries', libraryIds: selectedLibraries },
+                  },
+                  { onSuccess: () => { setIsRestrictOpen(false); } }
+                );
+              }}
+            >
+              {runAction.isPending ? 'Saving...' : 'Restrict'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!suspendMode}
+        onOpenChange={(open) => { if (!open) setSuspendMode(null); }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {suspendMode === 'extend' ? 'Extend Suspension' : 'Suspend User'}
+            </DialogTitle>
+            <DialogDescription>
+              {suspendMode === 'extend'
+                ? 'Adds time to the end of the current suspension.'
+                : 'The account loses access now and is reinstated automatically when the ' +
+                  'suspension ends. You can lift it early.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{suspendMode === 'extend' ? 'Extend by' : 'Suspend for'}</Label>
+              <Select value={suspendHours} onValueChange={setSuspendHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUSPENSION_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.hours} value={String(duration.hours)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {suspendMode === 'suspend' && (
+              <div className="space-y-2">
+                <Label htmlFor="suspendReason">Reason</Label>
+                <Input
+                  id="suspendReason"
+                  value={suspendReason}
+                  onChange={(e) => { setSuspendReason(e.target.value); }}
+                  placeholder="Optional, included in notifications"
+                  maxLength={500}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => { setSuspendMode(null); }}
+              disabled={isSuspending}
+            >
+              Cancel
+            </Button>
+            <Button disabled={isSuspending} onClick={submitSuspend}>
+              {isSuspending ? 'Saving...' : suspendMode === 'extend' ? 'Extend' : 'Suspend'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!confirmAction}
+        onOpenChange={() => { setConfirmAction(null); }}
+        title={confirmAction ? ACCOUNT_ACTION_DISPLAY_NAMES[confirmAction] : ''}
+        description={confirmAction ? CONFIRM_DESCRIPTIONS[confirmAction] : ''}
+        confirmLabel={confirmAction === 'remove_share' ? 'Remove' : 'Disable'}
+        onConfirm={() =>
+          confirmAction &&
+          runAction.mutate(
+            { id: serverUserId, data: { action: confirmAction } },
+            { onSuccess: () => { setConfirmAction(null); } }
+          )
+        }
+        isLoading={runAction.isPending}
+      />
+    </>
+  );
+}
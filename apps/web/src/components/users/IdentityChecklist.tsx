@@ -0,0 +1,48 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useIdentityOptions } from '@/hooks/queries';
+
+interface IdentityChecklistProps {
+  selected: string[];
+  onChange: (userIds: string[]) => void;
+  idPrefix: string;
+}
+
+/**
+ * Scrollable checkbox list of user identities (users.id)
+ */
+export function IdentityChecklist({ selected, onChange, idPrefix }: IdentityChecklistProps) {
+  const { identities, isLoading } = useIdentityOptions();
+
+  const toggle = (userId: string, checked: boolean) => {
+    onChange(checked ? [...selected, userId] : selected.filter((id) => id !== userId));
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (identities.length === 0) {
+    return <p className="text-xs text-muted-foreground">No users found.</p>;
+  }
+
+  return (
+    <div className="max-h-40 space-y-2 overflow-y-auto rounded-lg border p-3">
+      {identities.map((identity) => (
+        <div key={identity.userId} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${identity.userId}`}
+            checked={selected.includes(identity.userId)}
+            onCheckedChange={(checked) => { toggle(identity.userId, checked === true); }}
+          />
+          <label htmlFor={`${idPrefix}-${identity.userId}`} className="text-sm">
+            {identity.name}
+            <span className="ml-1 text-xs text-muted-foreground">
+              ({identity.servers.join(', ')})
+            </span>
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import type {
+  IdentityMergeSuggestion,
+  IdentitySummary,
+  MergeIdentitiesInput,
+} from '@tracearr/shared';
+import { IDENTITY_MATCH_REASON_DISPLAY_NAMES } from '@tracearr/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Merge } from 'lucide-react';
+import { useIdentityOptions, useIdentitySuggestions, useMergeIdentities } from '@/hooks/queries';
+
+interface IdentityMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Pre-select the identity to keep (e.g. from a user's detail page)
+  defaultTargetUserId?: string;
+}
+
+function identityLabel(identity: IdentitySummary): string {
+  return identity.name ?? identity.username;
+}
+
+function SuggestionIdentity({ identity }: { identity: IdentitySummary }) {
+  return (
+    <div className="min-w-0">
+      <p className="truncate font-medium">{identityLabel(identity)}</p>
+      <p className="truncate text-xs text-muted-foreground">
+        {identity.accounts.map((a) => `${a.username} (${a.serverName})`).join(', ')}
+      </p>
+    </div>
+  );
+}
+
+function SuggestionRow({
+  suggestion,
+  onMerge,
+}: {
+  suggestion: IdentityMergeSuggestion;
+  onMerge: () => void;
+}) {
+  const [target, source] = suggestion.users;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <SuggestionIdentity identity={target} />
+        <ArrowLeft className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <SuggestionIdentity identity={source} />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {suggestion.reasons.map((reason) => (
+            <Badge key={reason} variant="outline">
+              {IDENTITY_MATCH_REASON_DISPLAY_NAMES[reason]}
+              {reason === 'shared_device' && ` ×${suggestion.sharedDeviceCount}`}
+              {reason === 'shared_ip' && ` ×${suggestion.sharedIpCount}`}
+            </Badge>
+          ))}
+        </div>
+        <Button size="sm" variant="outline" onClick={onMerge}>
+          Merge
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Merge identities that sync couldn't link by email, either from suggestions
+ * (shared devices, IPs, similar usernames) or by picking two identities.
+ * Only accessible to owners.
+ */
+export function IdentityMergeDialog({
+  open,
+  onOpenChange,
+  defaultTargetUserId,
+}: IdentityMergeDialogProps) {
+  const { data: suggestions, isLoading } = useIdentitySuggestions(open);
+  const { identities } = useIdentityOptions();
+  const mergeIdentities = useMergeIdentities();
+
+  const [targetUserId, setTargetUserId] = useState(defaultTargetUserId ?? '');
+  const [sourceUserId, setSourceUserId] = useState('');
+  const [pending, setPending] = useState<(MergeIdentitiesInput & { description: string }) | null>(
+    null
+  );
+
+  const nameOf = (userId: string) =>
+    identities.find((i) => i.userId === userId)?.name ?? 'this identity';
+
+  const confirmMerge = (data: MergeIdentitiesInput, keepName: string, mergeName: string) => {
+    setPending({
+      ...data,
+      description:
+        `${mergeName}'s server accounts, known locations, groups and rule targeting ` +
+        `will move to ${keepName}, and ${mergeName} will be removed.`,
+    });
+  };
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    const { description: _description, ...data } = pending;
+    mergeIdentities.mutate(data, {
+      onSuccess: () => {
+        setPending(null);
+        setSourceUserId('');
+      },
+    });
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Merge Identities</DialogTitle>
+            <DialogDescription>
+              Link server accounts that belong to the same person. The identity on the left is
+              kept.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <Label>Suggestions</Label>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Looking for matches...</p>
+            ) : !suggestions || suggestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No suggestions right now.</p>
+            ) : (
+              suggestions.map((suggestion) => (
+                <SuggestionRow
+                  key={suggestion.users.map((u) => u.id).join(':')}
+                  suggestion={suggestion}
+                  onMerge={() => {
+                    const [target, source] = suggestion.users;
+                    confirmMerge(
+                      { targetUserId: target.id, sourceUserId: source.id },
+                      identityLabel(target),
+                      identityLabel(source)
+                    );
+                  }}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <Label>Merge Manually</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">Keep</p>
+                <Select value={targetUserId} onValueChange={setTargetUserId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select identity" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {identities.map((identity) => (
+                      <SelectItem key={identity.userId} value={identity.userId}>
+                        {identity.name} ({identity.servers.join(', ')})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">Merge into it</p>
+                <Select value={sourceUserId} onValueChange={setSourceUserId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select identity" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {identities
+                      .filter((identity) => identity.userId !== targetUserId)
+                      .map((identity) => (
+                        <SelectItem key={identity.userId} value={identity.userId}>
+                          {identity.name} ({identity.servers.join(', ')})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => {
+                  confirmMerge(
+                    { targetUserId, sourceUserId },
+                    nameOf(targetUserId),
+                    nameOf(sourceUserId)
+                  );
+                }}
+                disabled={!targetUserId || !sourceUserId || targetUserId === sourceUserId}
+              >
+                <Merge className="mr-2 h-4 w-4" />
+                Merge
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!pending}
+        onOpenChange={() => { setPending(null); }}
+        title="Merge Identities"
+        description={pending?.description ?? ''}
+        confirmLabel="Merge"
+        onConfirm={handleConfirm}
+        isLoading={mergeIdentities.isPending}
+      />
+    </>
+  );
+}
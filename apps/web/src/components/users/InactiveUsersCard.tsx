@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router';
+import {
+  INACTIVE_USER_DEFAULTS,
+  INACTIVE_USER_REASON_DISPLAY_NAMES,
+  hasPermission,
+  type InactiveServerUser,
+  type InactiveUserAction,
+} from '@tracearr/shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronDown, ChevronUp, UserX } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useInactiveUserAction, useInactiveUsers } from '@/hooks/queries';
+import { useAuth } from '@/hooks/useAuth';
+
+interface InactiveUsersCardProps {
+  serverId?: string;
+}
+
+const DAY_OPTIONS = [30, 60, 90, 180, 365];
+
+const REMOVE_ACCESS_NOTE =
+  'Plex shares are removed and Jellyfin/Emby accounts are disabled. ' +
+  "Each change can be undone from the user's page.";
+
+function formatWatchTime(ms: number): string {
+  const hours = Math.floor(ms / 3_600_000);
+  if (hours > 0) return `${hours}h`;
+  return `${Math.floor(ms / 60_000)}m`;
+}
+
+function describeLibraries(user: InactiveServerUser): string {
+  if (user.sharedLibraries === null) return '—';
+  if (user.sharedLibraries.length === 0) return 'All libraries';
+  return user.sharedLibraries.join(', ');
+}
+
+/**
+ * Accounts with no sessions in a while, with bulk cleanup actions
+ *
+ * Collapsed by default; the report is only loaded once opened.
+ */
+export function InactiveUsersCard({ serverId }: InactiveUsersCardProps) {
+  const navigate = useNavigate();
+  const { user: authUser } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [days, setDays] = useState<number>(INACTIVE_USER_DEFAULTS.DAYS);
+  const [before, setBefore] = useState('');
+  const [neverPlayed, setNeverPlayed] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isRemoveConfirmOpen, setIsRemoveConfirmOpen] = useState(false);
+
+  const { data: inactiveUsers, isLoading } = useInactiveUsers(
+    { days, before: before || undefined, neverPlayed, serverId },
+    isOpen
+  );
+  const runAction = useInactiveUserAction();
+
+  const canManage = !!authUser && hasPermission(authUser, 'manage_accounts', serverId);
+  const rows = inactiveUsers ?? [];
+  const allSelected = rows.length > 0 && rows.every((row) => selectedIds.includes(row.id));
+
+  const toggleRow = (id: string, checked: boolean) => {
+    setSelectedIds((ids) => (checked ? [...ids, id] : ids.filter((other) => other !== id)));
+  };
+
+  const handleAction = (action: InactiveUserAction) => {
+    runAction.mutate(
+      { action, serverUserIds: selectedIds },
+      {
+        onSuccess: () => {
+          setSelectedIds([]);
+          setIsRemoveConfirmOpen(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UserX className="h-5 w-5" />
+              Inactive Users
+            </CardTitle>
+            <CardDescription>
+              Accounts that haven&apos;t streamed in a while or never have
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => { setIsOpen((open) => !open); }}>
+            {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+
+      {isOpen && (
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">No sessions in</Label>
+              <Select
+                value={String(days)}
+                onValueChange={(value) => { setDays(Number(value)); }}
+                disabled={!!before}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="inactive-before" className="text-xs">
+                Or no sessions since
+              </Label>
+              <Input
+                id="inactive-before"
+                type="date"
+                className="w-40"
+                value={before}
+                onChange={(e) => { setBefore(e.target.value); }}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Checkbox
+                id="inactive-never-played"
+                checked={neverPlayed}
+                onCheckedChange={(checked) => { setNeverPlayed(checked === true); }}
+              />
+              <label htmlFor="inactive-never-played" className="text-sm">
+                Never played only
+              </label>
+            </div>
+          </div>
+
+          {canManage && selectedIds.length > 0 && (
+            <div className="flex items-center gap-4 rounded-lg border bg-muted/50 px-4 py-3">
+              <p className="text-sm font-medium">
+                {selectedIds.length} {selectedIds.length === 1 ? 'account' : 'accounts'} selected
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => { handleAction('mark_for_review'); }}
+                disabled={runAction.isPending}
+              >
+                Mark for Review
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => { handleAction('clear_review'); }}
+                disabled={runAction.isPending}
+              >
+                Clear Review
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => { setIsRemoveConfirmOpen(true); }}
+                disabled={runAction.isPending}
+              >
+                Remove Access
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No inactive accounts.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    {canManage && (
+                      <th className="w-8 py-2">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(checked) => {
+                            setSelectedIds(checked === true ? rows.map((row) => row.id) : []);
+                          }}
+                          aria-label="Select all accounts"
+                        />
+                      </th>
+                    )}
+                    <th className="py-2 font-medium">User</th>
+                    <th className="py-2 font-medium">Last Session</th>
+                    <th className="py-2 font-medium">Watch Time</th>
+                    <th className="py-2 font-medium">Libraries</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.id}
+                      className="cursor-pointer border-b last:border-0 hover:bg-muted/50"
+                      onClick={() => { void navigate(`/users/${row.id}`); }}
+                    >
+                      {canManage && (
+                        <td className="py-2" onClick={(e) => { e.stopPropagation(); }}>
+                          <Checkbox
+                            checked={selectedIds.includes(row.id)}
+                            onCheckedChange={(checked) => { toggleRow(row.id, checked === true); }}
+                            aria-label={`Select ${row.username}`}
+                          />
+                        </td>
+                      )}
+                      <td className="py-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{row.identityName ?? row.username}</span>
+                          {row.reason === 'never_played' && (
+                            <Badge variant="secondary">
+                              {INACTIVE_USER_REASON_DISPLAY_NAMES.never_played}
+                            </Badge>
+                          )}
+                          {row.reviewRequestedAt && (
+                            <Badge
+                              variant="outline"
+                              title={`Since ${format(new Date(row.reviewRequestedAt), 'PPp')}`}
+                            >
+                              Review
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {row.serverName} · joined{' '}
+                          {format(new Date(row.joinedAt), 'MMM d, yyyy')}
+                        </p>
+                      </td>
+                      <td className="py-2">
+                        {row.lastSession ? (
+                          <>
+                            <p className="truncate">
+                              {row.lastSession.grandparentTitle ?? row.lastSession.mediaTitle}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(row.lastSession.startedAt), {
+                                addSuffix: true,
+                              })}
+                            </p>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Never</span>
+                        )}
+                      </td>
+                      <td className="py-2">{formatWatchTime(row.totalWatchTimeMs)}</td>
+                      <td className="max-w-48 truncate py-2" title={describeLibraries(row)}>
+                        {describeLibraries(row)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      )}
+
+      <ConfirmDialog
+        open={isRemoveConfirmOpen}
+        onOpenChange={setIsRemoveConfirmOpen}
+        title="Remove Access"
+        description={`Remove server access for ${selectedIds.length} ${
+          selectedIds.length === 1 ? 'account' : 'accounts'
+        }? ${REMOVE_ACCESS_NOTE}`}
+        confirmLabel="Remove Access"
+        onConfirm={() => { handleAction('remove_access'); }}
+        isLoading={runAction.isPending}
+      />
+    </Card>
+  );
+}
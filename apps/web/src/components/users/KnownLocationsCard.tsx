@@ -0,0 +1,346 @@
+import { useState } from 'react';
+import type { CreateKnownLocationInput, KnownLocation, KnownLocationType } from '@tracearr/shared';
+import { KNOWN_LOCATION_CONFIG } from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, Home, Plus, Sparkles, Trash2 } from 'lucide-react';
+import {
+  useKnownLocations,
+  useCreateKnownLocation,
+  useDeleteKnownLocation,
+  useConfirmKnownLocation,
+  useLearnKnownLocations,
+} from '@/hooks/queries';
+
+interface KnownLocationsCardProps {
+  serverUserId: string;
+  isOwner: boolean;
+}
+
+const TYPE_LABELS: Record<KnownLocationType, string> = {
+  cidr: 'IP Range',
+  asn: 'Network (ASN)',
+  geo: 'Area',
+};
+
+interface KnownLocationFormData {
+  type: KnownLocationType;
+  label: string;
+  cidr: string;
+  asn: string;
+  lat: string;
+  lon: string;
+  radiusKm: string;
+}
+
+const EMPTY_FORM: KnownLocationFormData = {
+  type: 'cidr',
+  label: '',
+  cidr: '',
+  asn: '',
+  lat: '',
+  lon: '',
+  radiusKm: String(KNOWN_LOCATION_CONFIG.DEFAULT_RADIUS_KM),
+};
+
+function describeKnownLocation(location: KnownLocation): string {
+  switch (location.type) {
+    case 'cidr':
+      return location.cidr ?? '';
+    case 'asn':
+      return `AS${location.asn}`;
+    case 'geo':
+      return `${location.lat?.toFixed(3)}, ${location.lon?.toFixed(3)} · ${location.radiusKm} km`;
+  }
+}
+
+function toCreateInput(form: KnownLocationFormData): CreateKnownLocationInput {
+  const label = form.label.trim();
+  switch (form.type) {
+    case 'cidr':
+      return { type: 'cidr', label, cidr: form.cidr.trim() };
+    case 'asn':
+      return { type: 'asn', label, asn: Number(form.asn.replace(/^AS/i, '')) };
+    case 'geo':
+      return {
+        type: 'geo',
+        label,
+        lat: Number(form.lat),
+        lon: Number(form.lon),
+        radiusKm: Number(form.radiusKm),
+      };
+  }
+}
+
+/**
+ * Places a user is known to stream from (home, a partner's home, a mobile
+ * carrier). Location rules can ignore or downweight sessions from these.
+ * Learned locations are suggestions until the owner confirms them.
+ */
+export function KnownLocationsCard({ serverUserId, isOwner }: KnownLocationsCardProps) {
+  const { data: locations, isLoading } = useKnownLocations(serverUserId);
+  const createLocation = useCreateKnownLocation();
+  const deleteLocation = useDeleteKnownLocation();
+  const confirmLocation = useConfirmKnownLocation();
+  const learnLocations = useLearnKnownLocations();
+
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [formData, setFormData] = useState<KnownLocationFormData>(EMPTY_FORM);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const openAdd = () => {
+    setFormData(EMPTY_FORM);
+    setIsAddOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createLocation.mutate(
+      { id: serverUserId, data: toCreateInput(formData) },
+      { onSuccess: () => { setIsAddOpen(false); } }
+    );
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Home className="h-5 w-5" />
+              Known Locations
+            </div>
+            {isOwner && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => { learnLocations.mutate(serverUserId); }}
+                  disabled={learnLocations.isPending}
+                >
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  {learnLocations.isPending ? 'Learning...' : 'Learn from History'}
+                </Button>
+                <Button size="sm" onClick={openAdd}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add
+                </Button>
+              </div>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(2)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !locations || locations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No known locations. Rules treat every location the same.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {locations.map((location) => (
+                <div
+                  key={location.id}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate font-medium">{location.label}</p>
+                      <Badge variant="outline">{TYPE_LABELS[location.type]}</Badge>
+                      {location.source === 'learned' && <Badge variant="secondary">Learned</Badge>}
+                      {location.pending && <Badge variant="warning">Suggested</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {describeKnownLocation(location)}
+                    </p>
+                  </div>
+                  {isOwner && (
+                    <div className="flex items-center gap-1">
+                      {location.pending && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Confirm"
+                          onClick={() => {
+                            confirmLocation.mutate({ id: serverUserId, locationId: location.id });
+                          }}
+                          disabled={confirmLocation.isPending}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => { setDeleteConfirmId(location.id); }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Known Location</DialogTitle>
+            <DialogDescription>
+              Sessions from here can be ignored or downweighted by location rules.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value) => { setFormData({ ...formData, type: value as KnownLocationType }); }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TYPE_LABELS) as KnownLocationType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="knownLocationLabel">Label</Label>
+              <Input
+                id="knownLocationLabel"
+                value={formData.label}
+                onChange={(e) => { setFormData({ ...formData, label: e.target.value }); }}
+                placeholder="e.g., Home"
+                maxLength={100}
+                required
+              />
+            </div>
+            {formData.type === 'cidr' && (
+              <div className="space-y-2">
+                <Label htmlFor="knownLocationCidr">CIDR Range</Label>
+                <Input
+                  id="knownLocationCidr"
+                  value={formData.cidr}
+                  onChange={(e) => { setFormData({ ...formData, cidr: e.target.value }); }}
+                  placeholder="e.g., 203.0.113.0/24"
+                  required
+                />
+              </div>
+            )}
+            {formData.type === 'asn' && (
+              <div className="space-y-2">
+                <Label htmlFor="knownLocationAsn">ASN</Label>
+                <Input
+                  id="knownLocationAsn"
+                  value={formData.asn}
+                  onChange={(e) => { setFormData({ ...formData, asn: e.target.value }); }}
+                  placeholder="e.g., AS7922"
+                  required
+                />
+              </div>
+            )}
+            {formData.type === 'geo' && (
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="knownLocationLat">Latitude</Label>
+                  <Input
+                    id="knownLocationLat"
+                    type="number"
+                    step="any"
+                    value={formData.lat}
+                    onChange={(e) => { setFormData({ ...formData, lat: e.target.value }); }}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="knownLocationLon">Longitude</Label>
+                  <Input
+                    id="knownLocationLon"
+                    type="number"
+                    step="any"
+                    value={formData.lon}
+                    onChange={(e) => { setFormData({ ...formData, lon: e.target.value }); }}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="knownLocationRadius">Radius (km)</Label>
+                  <Input
+                    id="knownLocationRadius"
+                    type="number"
+                    min={1}
+                    max={1000}
+                    value={formData.radiusKm}
+                    onChange={(e) => { setFormData({ ...formData, radiusKm: e.target.value }); }}
+                    required
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => { setIsAddOpen(false); }}
+                disabled={createLocation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createLocation.isPending || !formData.label.trim()}>
+                {createLocation.isPending ? 'Adding...' : 'Add Location'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleteConfirmId}
+        onOpenChange={() => { setDeleteConfirmId(null); }}
+        title="Remove Known Location"
+        description="Location rules will treat sessions from here like any other location. Learned locations won't be learned again."
+        confirmLabel="Remove"
+        onConfirm={() =>
+          deleteConfirmId &&
+          deleteLocation.mutate(
+            { id: serverUserId, locationId: deleteConfirmId },
+            { onSuccess: () => { setDeleteConfirmId(null); } }
+          )
+        }
+        isLoading={deleteLocation.isPending}
+      />
+    </>
+  );
+}
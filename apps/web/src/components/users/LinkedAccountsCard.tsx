@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Link } from 'react-router';
+import type { ServerUserWithIdentity } from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Link2, Merge, Unlink } from 'lucide-react';
+import { useSplitServerUser, useUsers } from '@/hooks/queries';
+import { IdentityMergeDialog } from './IdentityMergeDialog';
+
+interface LinkedAccountsCardProps {
+  serverUserId: string;
+  userId: string;
+  isOwner: boolean;
+}
+
+/**
+ * Server accounts that belong to the same identity, with owner actions to
+ * detach an account or merge another identity in
+ */
+export function LinkedAccountsCard({ serverUserId, userId, isOwner }: LinkedAccountsCardProps) {
+  const { data } = useUsers({ pageSize: 100 });
+  const splitServerUser = useSplitServerUser();
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [detaching, setDetaching] = useState<ServerUserWithIdentity | null>(null);
+
+  const accounts = (data?.data ?? []).filter((account) => account.userId === userId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Linked Accounts
+        </CardTitle>
+        {isOwner && (
+          <Button variant="outline" size="sm" onClick={() => { setIsMergeOpen(true); }}>
+            <Merge className="mr-2 h-4 w-4" />
+            Merge
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {accounts.map((account) => (
+          <div
+            key={account.id}
+            className="flex items-center justify-between gap-2 rounded-lg border p-3"
+          >
+            <div className="min-w-0">
+              {account.id === serverUserId ? (
+                <p className="truncate font-medium">{account.username}</p>
+              ) : (
+                <Link to={`/users/${account.id}`} className="truncate font-medium hover:underline">
+                  {account.username}
+                </Link>
+              )}
+              <p className="text-xs text-muted-foreground">{account.serverName}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {account.id === serverUserId && <Badge variant="secondary">Viewing</Badge>}
+              {isOwner && accounts.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => { setDetaching(account); }}
+                >
+                  <Unlink className="mr-2 h-4 w-4" />
+                  Detach
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+        {accounts.length <= 1 && (
+          <p className="text-sm text-muted-foreground">
+            No other server accounts are linked to this person.
+          </p>
+        )}
+      </CardContent>
+
+      <IdentityMergeDialog
+        open={isMergeOpen}
+        onOpenChange={setIsMergeOpen}
+        defaultTargetUserId={userId}
+      />
+
+      <ConfirmDialog
+        open={!!detaching}
+        onOpenChange={() => { setDetaching(null); }}
+        title="Detach Account"
+        description={
+          `${detaching?.username ?? 'This account'} on ${detaching?.serverName ?? 'its server'} ` +
+          'will become its own identity. Known locations, groups and rule targeting stay here.'
+        }
+        confirmLabel="Detach"
+        onConfirm={() =>
+          detaching &&
+          splitServerUser.mutate(detaching.id, { onSuccess: () => { setDetaching(null); } })
+        }
+        isLoading={splitServerUser.isPending}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useNavigate } from 'react-router';
+import { SERVER_USER_SOURCE_DISPLAY_NAMES, PROBATION_DEFAULTS } from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserPlus } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useNewUsers } from '@/hooks/queries';
+import { getAvatarUrl } from './utils';
+
+interface NewUsersCardProps {
+  serverId?: string;
+}
+
+/**
+ * Server accounts that joined recently, newest first
+ */
+export function NewUsersCard({ serverId }: NewUsersCardProps) {
+  const navigate = useNavigate();
+  const { data: newUsers, isLoading } = useNewUsers({
+    days: PROBATION_DEFAULTS.NEW_USERS_DAYS,
+    serverId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          New Users
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !newUsers?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Nobody joined in the last {PROBATION_DEFAULTS.NEW_USERS_DAYS} days.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {newUsers.map((user) => {
+              const avatarUrl = getAvatarUrl(user.serverId, user.thumbUrl, 32);
+              const onProbation =
+                user.probationUntil !== null && new Date(user.probationUntil) > new Date();
+              return (
+                <button
+                  key={user.id}
+                  type="button"
+                  className="flex w-full items-center gap-3 rounded-md p-2 text-left hover:bg-muted/50"
+                  onClick={() => { void navigate(`/users/${user.id}`); }}
+                >
+                  <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
+                    {avatarUrl ? (
+                      <img
+                        src={avatarUrl}
+                        alt={user.username}
+                        className="h-8 w-8 rounded-full object-cover"
+                      />
+                    ) : (
+                      <UserPlus className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{user.identityName ?? user.username}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {SERVER_USER_SOURCE_DISPLAY_NAMES[user.source]} ·{' '}
+                      {formatDistanceToNow(new Date(user.joinedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {onProbation && user.probationUntil && (
+                    <Badge
+                      variant="outline"
+                      title={`Until ${format(new Date(user.probationUntil), 'PPp')}`}
+                    >
+                      Probation
+                    </Badge>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import type { PolicyProfile } from '@tracearr/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  usePolicyProfiles,
+  useCreatePolicyProfile,
+  useUpdatePolicyProfile,
+  useDeletePolicyProfile,
+} from '@/hooks/queries';
+import { describePolicyProfile } from './utils';
+
+interface PolicyProfilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Limits are edited as text so an empty field means no limit
+interface ProfileFormData {
+  name: string;
+  description: string;
+  maxStreams: string;
+  allowedCountries: string;
+  maxTranscodes: string;
+}
+
+const EMPTY_FORM: ProfileFormData = {
+  name: '',
+  description: '',
+  maxStreams: '',
+  allowedCountries: '',
+  maxTranscodes: '',
+};
+
+function parseLimit(value: string): number | null {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function parseCountries(value: string): string[] | null {
+  const countries = value
+    .split(',')
+    .map((c) => c.trim().toUpperCase())
+    .filter(Boolean);
+  return countries.length > 0 ? countries : null;
+}
+
+/**
+ * Dialog for managing policy profiles that profile-aware rules read limits from
+ * Only accessible to owners
+ */
+export function PolicyProfilesDialog({ open, onOpenChange }: PolicyProfilesDialogProps) {
+  const { data: profiles } = usePolicyProfiles();
+  const createProfile = useCreatePolicyProfile();
+  const updateProfile = useUpdatePolicyProfile();
+  const deleteProfile = useDeletePolicyProfile();
+
+  // null = list view, 'new' = creating, otherwise the profile being edited
+  const [editing, setEditing] = useState<PolicyProfile | 'new' | null>(null);
+  const [formData, setFormData] = useState<ProfileFormData>(EMPTY_FORM);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const startCreate = () => {
+    setFormData(EMPTY_FORM);
+    setEditing('new');
+  };
+
+  const startEdit = (profile: PolicyProfile) => {
+    setFormData({
+      name: profile.name,
+      description: profile.description ?? '',
+      maxStreams: profile.maxStreams?.toString() ?? '',
+      allowedCountries: profile.allowedCountries?.join(', ') ?? '',
+      maxTranscodes: profile.maxTranscodes?.toString() ?? '',
+    });
+    setEditing(profile);
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setEditing(null);
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      maxStreams: parseLimit(formData.maxStreams),
+      allowedCountries: parseCountries(formData.allowedCountries),
+      maxTranscodes: parseLimit(formData.maxTranscodes),
+    };
+    const onSuccess = () => { setEditing(null); };
+
+    if (editing === 'new') {
+      createProfile.mutate(data, { onSuccess });
+    } else if (editing) {
+      updateProfile.mutate({ id: editing.id, data }, { onSuccess });
+    }
+  };
+
+  const isSaving = createProfile.isPending || updateProfile.isPending;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Policy Profiles</DialogTitle>
+            <DialogDescription>
+              Named limits for users. Rules set to use policy profiles read their thresholds from
+              the user&apos;s profile.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profileName">Name</Label>
+                <Input
+                  id="profileName"
+                  value={formData.name}
+                  onChange={(e) => { setFormData({ ...formData, name: e.target.value }); }}
+                  placeholder="e.g., Family"
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profileDescription">Description</Label>
+                <Input
+                  id="profileDescription"
+                  value={formData.description}
+                  onChange={(e) => { setFormData({ ...formData, description: e.target.value }); }}
+                  placeholder="Optional"
+                  maxLength={500}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profileMaxStreams">Max Streams</Label>
+                  <Input
+                    id="profileMaxStreams"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={formData.maxStreams}
+                    onChange={(e) => { setFormData({ ...formData, maxStreams: e.target.value }); }}
+                    placeholder="No limit"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profileMaxTranscodes">Max Transcodes</Label>
+                  <Input
+                    id="profileMaxTranscodes"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={formData.maxTranscodes}
+                    onChange={(e) => {
+                      setFormData({ ...formData, maxTranscodes: e.target.value });
+                    }}
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profileCountries">Allowed Countries (comma-separated)</Label>
+                <Input
+                  id="profileCountries"
+                  value={formData.allowedCountries}
+                  onChange={(e) => {
+                    setFormData({ ...formData, allowedCountries: e.target.value });
+                  }}
+                  placeholder="Any country"
+                />
+                <p className="text-xs text-muted-foreground">
+                  ISO 3166-1 alpha-2 country codes. Leave a field empty for no limit.
+                </p>
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => { setEditing(null); }}
+                  disabled={isSaving}
+                >
+                  Back
+                </Button>
+                <Button type="submit" disabled={isSaving || !formData.name.trim()}>
+                  {isSaving ? 'Saving...' : editing === 'new' ? 'Create Profile' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : (
+            <div className="space-y-3">
+              {!profiles || profiles.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No profiles yet.</p>
+              ) : (
+                profiles.map((profile) => (
+                  <div
+                    key={profile.id}
+                    className="flex items-center justify-between rounded-lg border p-3"
+                  >
+                    <div>
+                      <p className="font-medium">{profile.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {describePolicyProfile(profile)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {profile.userIds.length} {profile.userIds.length === 1 ? 'user' : 'users'}
+                        {profile.description ? ` · ${profile.description}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => { startEdit(profile); }}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => { setDeleteConfirmId(profile.id); }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+              <DialogFooter>
+                <Button onClick={startCreate}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Profile
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleteConfirmId}
+        onOpenChange={() => { setDeleteConfirmId(null); }}
+        title="Delete Profile"
+        description="Its users will have no profile, so rules fall back to their own limits. This action cannot be undone."
+        confirmLabel="Delete"
+        onConfirm={() =>
+          deleteConfirmId &&
+          deleteProfile.mutate(deleteConfirmId, { onSuccess: () => { setDeleteConfirmId(null); } })
+        }
+        isLoading={deleteProfile.isPending}
+      />
+    </>
+  );
+}
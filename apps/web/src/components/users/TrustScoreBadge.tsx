@@ -1,3 +1,4 @@
+import { TRUST_LEVEL_DISPLAY_NAMES, getTrustLevel, type TrustLevel } from '@tracearr/shared';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 
@@ -7,30 +8,23 @@ interface TrustScoreBadgeProps {
   className?: string;
 }
 
-function getTrustLevel(score: number): {
-  variant: 'success' | 'warning' | 'danger';
-  label: string;
-} {
-  if (score >= 80) {
-    return { variant: 'success', label: 'Trusted' };
-  }
-  if (score >= 50) {
-    return { variant: 'warning', label: 'Caution' };
-  }
-  return { variant: 'danger', label: 'Untrusted' };
-}
+const LEVEL_VARIANTS: Record<TrustLevel, 'success' | 'warning' | 'danger'> = {
+  trusted: 'success',
+  caution: 'warning',
+  untrusted: 'danger',
+};
 
 export function TrustScoreBadge({
   score,
   showLabel = false,
   className,
 }: TrustScoreBadgeProps) {
-  const { variant, label } = getTrustLevel(score);
+  const level = getTrustLevel(score);
 
   return (
-    <Badge variant={variant} className={cn('gap-1', className)}>
+    <Badge variant={LEVEL_VARIANTS[level]} className={cn('gap-1', className)}>
       <span className="font-mono">{score}</span>
-      {showLabel && <span>· {label}</span>}
+      {showLabel && <span>· {TRUST_LEVEL_DISPLAY_NAMES[level]}</span>}
     </Badge>
   );
 }
@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import Highcharts from 'highcharts';
+import HighchartsReact from 'highcharts-react-official';
+import { formatDistanceToNow } from 'date-fns';
+import type { TrustScoreEvent } from '@tracearr/shared';
+import { TRUST_SCORE_EVENT_REASON_DISPLAY_NAMES } from '@tracearr/shared';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartSkeleton } from '@/components/ui/skeleton';
+import { History } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useUserTrustEvents } from '@/hooks/queries';
+
+interface TrustScoreHistoryCardProps {
+  serverUserId: string;
+}
+
+const CHART_HEIGHT = 200;
+const RECENT_EVENTS = 8;
+
+function describeEvent(event: TrustScoreEvent): string {
+  const reason = TRUST_SCORE_EVENT_REASON_DISPLAY_NAMES[event.reason];
+  if (event.ruleName) return `${reason}: ${event.ruleName}`;
+  if (event.actorName) return `${reason} by ${event.actorName}`;
+  return reason;
+}
+
+/**
+ * How and why a server user's trust score changed over time
+ */
+export function TrustScoreHistoryCard({ serverUserId }: TrustScoreHistoryCardProps) {
+  const { data: events, isLoading } = useUserTrustEvents(serverUserId);
+
+  const options = useMemo<Highcharts.Options>(() => {
+    if (!events || events.length === 0) {
+      return {};
+    }
+
+    return {
+      chart: {
+        type: 'line',
+        height: CHART_HEIGHT,
+        backgroundColor: 'transparent',
+        style: {
+          fontFamily: 'inherit',
+        },
+        reflow: true,
+      },
+      title: {
+        text: undefined,
+      },
+      credits: {
+        enabled: false,
+      },
+      legend: {
+        enabled: false,
+      },
+      xAxis: {
+        type: 'datetime',
+        labels: {
+          style: {
+            color: 'hsl(var(--muted-foreground))',
+          },
+        },
+        lineColor: 'hsl(var(--border))',
+        tickColor: 'hsl(var(--border))',
+      },
+      yAxis: {
+        title: {
+          text: undefined,
+        },
+        labels: {
+          style: {
+            color: 'hsl(var(--muted-foreground))',
+          },
+        },
+        gridLineColor: 'hsl(var(--border))',
+        min: 0,
+        max: 100,
+      },
+      plotOptions: {
+        line: {
+          step: 'left',
+          color: 'hsl(var(--chart-1))',
+          marker: {
+            radius: 3,
+          },
+        },
+      },
+      tooltip: {
+        backgroundColor: 'hsl(var(--popover))',
+        borderColor: 'hsl(var(--border))',
+        style: {
+          color: 'hsl(var(--popover-foreground))',
+        },
+        formatter: function () {
+          const event = events[this.index];
+          if (!event) return false;
+          const delta = event.delta > 0 ? `+${event.delta}` : `${event.delta}`;
+          return `<b>${describeEvent(event)}</b><br/>Score: ${event.score} (${delta})`;
+        },
+      },
+      series: [
+        {
+          type: 'line',
+          name: 'Trust Score',
+          data: events.map((e) => [new Date(e.createdAt).getTime(), e.score]),
+        },
+      ],
+    };
+  }, [events]);
+
+  const recent = (events ?? []).slice(-RECENT_EVENTS).reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Trust Score History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <ChartSkeleton height={CHART_HEIGHT} />
+        ) : !events || events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No trust score changes yet.</p>
+        ) : (
+          <>
+            <HighchartsReact
+              highcharts={Highcharts}
+              options={options}
+              containerProps={{ style: { width: '100%', height: '100%' } }}
+            />
+            <div className="space-y-2">
+              {recent.map((event) => (
+                <div
+                  key={event.id}
+                  className="flex items-center justify-between gap-2 rounded-lg border p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{describeEvent(event)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={cn(event.delta < 0 ? 'text-red-500' : 'text-green-500')}
+                    >
+                      {event.delta > 0 ? `+${event.delta}` : event.delta}
+                    </Badge>
+                    <span className="w-8 text-right text-sm font-medium">{event.score}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
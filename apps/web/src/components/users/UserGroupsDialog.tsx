@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import type { UserGroup } from '@tracearr/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  useUserGroups,
+  useCreateUserGroup,
+  useUpdateUserGroup,
+  useDeleteUserGroup,
+} from '@/hooks/queries';
+import { IdentityChecklist } from './IdentityChecklist';
+
+interface UserGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface GroupFormData {
+  name: string;
+  description: string;
+  userIds: string[];
+}
+
+const EMPTY_FORM: GroupFormData = { name: '', description: '', userIds: [] };
+
+/**
+ * Dialog for managing user groups that rules can target
+ * Only accessible to owners
+ */
+export function UserGroupsDialog({ open, onOpenChange }: UserGroupsDialogProps) {
+  const { data: groups } = useUserGroups();
+  const createGroup = useCreateUserGroup();
+  const updateGroup = useUpdateUserGroup();
+  const deleteGroup = useDeleteUserGroup();
+
+  // null = list view, 'new' = creating, otherwise the group being edited
+  const [editing, setEditing] = useState<UserGroup | 'new' | null>(null);
+  const [formData, setFormData] = useState<GroupFormData>(EMPTY_FORM);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const startCreate = () => {
+    setFormData(EMPTY_FORM);
+    setEditing('new');
+  };
+
+  const startEdit = (group: UserGroup) => {
+    setFormData({
+      name: group.name,
+      description: group.description ?? '',
+      userIds: group.userIds,
+    });
+    setEditing(group);
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setEditing(null);
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      userIds: formData.userIds,
+    };
+    const onSuccess = () => { setEditing(null); };
+
+    if (editing === 'new') {
+      createGroup.mutate(data, { onSuccess });
+    } else if (editing) {
+      updateGroup.mutate({ id: editing.id, data }, { onSuccess });
+    }
+  };
+
+  const isSaving = createGroup.isPending || updateGroup.isPending;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>User Groups</DialogTitle>
+            <DialogDescription>
+              Group users so rules can target them together.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="groupName">Name</Label>
+                <Input
+                  id="groupName"
+                  value={formData.name}
+                  onChange={(e) => { setFormData({ ...formData, name: e.target.value }); }}
+                  placeholder="e.g., Household"
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="groupDescription">Description</Label>
+                <Input
+                  id="groupDescription"
+                  value={formData.description}
+                  onChange={(e) => { setFormData({ ...formData, description: e.target.value }); }}
+                  placeholder="Optional"
+                  maxLength={500}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Members</Label>
+                <IdentityChecklist
+                  idPrefix="group-member"
+                  selected={formData.userIds}
+                  onChange={(userIds) => { setFormData({ ...formData, userIds }); }}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => { setEditing(null); }}
+                  disabled={isSaving}
+                >
+                  Back
+                </Button>
+                <Button type="submit" disabled={isSaving || !formData.name.trim()}>
+                  {isSaving ? 'Saving...' : editing === 'new' ? 'Create Group' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : (
+            <div className="space-y-3">
+              {!groups || groups.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No groups yet.</p>
+              ) : (
+                groups.map((group) => (
+                  <div
+                    key={group.id}
+                    className="flex items-center justify-between rounded-lg border p-3"
+                  >
+                    <div>
+                      <p className="font-medium">{group.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {group.userIds.length} {group.userIds.length === 1 ? 'member' : 'members'}
+                        {group.description ? ` · ${group.description}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => { startEdit(group); }}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => { setDeleteConfirmId(group.id); }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+              <DialogFooter>
+                <Button onClick={startCreate}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Group
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleteConfirmId}
+        onOpenChange={() => { setDeleteConfirmId(null); }}
+        title="Delete Group"
+        description="Rules targeting this group will stop matching its members. This action cannot be undone."
+        confirmLabel="Delete"
+        onConfirm={() =>
+          deleteConfirmId &&
+          deleteGroup.mutate(deleteConfirmId, { onSuccess: () => { setDeleteConfirmId(null); } })
+        }
+        isLoading={deleteGroup.isPending}
+      />
+    </>
+  );
+}
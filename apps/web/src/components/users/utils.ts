@@ -2,6 +2,8 @@
  * Shared utilities for user components
  */
 
+import type { PolicyProfile } from '@tracearr/shared';
+
 /**
  * Generate proxied avatar URL for user thumbnails
  */
@@ -44,3 +46,21 @@ export const MEDALS = {
   2: { emoji: '🥈', color: 'from-gray-300 to-gray-500', bgColor: 'from-gray-400/10 to-gray-500/5', size: 'h-16 w-16' },
   3: { emoji: '🥉', color: 'from-amber-600 to-amber-800', bgColor: 'from-amber-500/10 to-amber-600/5', size: 'h-16 w-16' },
 } as const;
+
+/**
+ * One-line summary of a profile's limits
+ */
+export function describePolicyProfile(profile: PolicyProfile): string {
+  const streams =
+    profile.maxStreams === null
+      ? 'Unlimited streams'
+      : `${profile.maxStreams} ${profile.maxStreams === 1 ? 'stream' : 'streams'}`;
+  const countries = profile.allowedCountries
+    ? `${profile.allowedCountries.join(', ')} only`
+    : 'any country';
+  const transcodes =
+    profile.maxTranscodes === null
+      ? null
+      : `${profile.maxTranscodes} ${profile.maxTranscodes === 1 ? 'transcode' : 'transcodes'}`;
+  return [streams, countries, transcodes].filter(Boolean).join(', ');
+}
@@ -9,6 +9,8 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { SeverityBadge } from '@/components/violations/SeverityBadge';
+import { ViolationStatusBadge } from '@/components/violations/ViolationStatusBadge';
+import { ViolationReviewPanel } from '@/components/violations/ViolationReviewPanel';
 import { getAvatarUrl } from '@/components/users/utils';
 import { getViolationDescription, getViolationDetails } from '@/utils/violationDescription';
 import { useSettings } from '@/hooks/queries';
@@ -28,6 +30,10 @@ import {
   Monitor,
   AlertCircle,
   CheckCircle2,
+  Workflow,
+  ShieldAlert,
+  Smartphone,
+  Gauge,
 } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 
@@ -35,8 +41,12 @@ const ruleIcons: Record<string, React.ReactNode> = {
   impossible_travel: <MapPin className="h-4 w-4" />,
   simultaneous_locations: <Users className="h-4 w-4" />,
   device_velocity: <Zap className="h-4 w-4" />,
+  device_novelty: <Smartphone className="h-4 w-4" />,
   concurrent_streams: <Shield className="h-4 w-4" />,
   geo_restriction: <Globe className="h-4 w-4" />,
+  anonymous_network: <ShieldAlert className="h-4 w-4" />,
+  stream_quality: <Gauge className="h-4 w-4" />,
+  composite: <Workflow className="h-4 w-4" />,
 };
 
 interface ViolationDetailDialogProps {
@@ -187,7 +197,10 @@ export function ViolationDetailDialog({
                 {violation.server?.name && ` • ${violation.server.name}`}
               </p>
             </div>
-            <SeverityBadge severity={violation.severity} />
+            <div className="flex flex-col items-end gap-1">
+              <SeverityBadge severity={violation.severity} />
+              <ViolationStatusBadge status={violation.status} />
+            </div>
           </div>
 
           <Separator />
@@ -529,6 +542,19 @@ export function ViolationDetailDialog({
               </span>
             </div>
           )}
+
+          {violation.trustRestoredAt && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              <span>
+                Trust score penalty restored{' '}
+                {formatDistanceToNow(new Date(violation.trustRestoredAt), { addSuffix: true })}
+              </span>
+            </div>
+          )}
+
+          <Separator />
+          <ViolationReviewPanel key={violation.id} violation={violation} />
         </div>
 
         <DialogFooter className="flex-row justify-end gap-2 sm:justify-end">
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type {
+  UpdateViolationInput,
+  ViolationStatus,
+  ViolationWithDetails,
+} from '@tracearr/shared';
+import { VIOLATION_STATUS_DISPLAY_NAMES, hasPermission } from '@tracearr/shared';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ClipboardCheck, MessageSquare, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useUpdateViolation,
+  useViolationAssignees,
+  useViolationNotes,
+  useAddViolationNote,
+  useDeleteViolationNote,
+} from '@/hooks/queries';
+
+const UNASSIGNED = 'unassigned';
+const DISMISSAL_STATUSES: ViolationStatus[] = ['false_positive', 'resolved'];
+
+interface ViolationReviewPanelProps {
+  violation: ViolationWithDetails;
+}
+
+/**
+ * Review workflow for a violation: status, assignee, dismissal reason and notes.
+ * Mount with key={violation.id} so the form resets between violations.
+ */
+export function ViolationReviewPanel({ violation }: ViolationReviewPanelProps) {
+  const { user } = useAuth();
+  const canReview =
+    !!user && hasPermission(user, 'acknowledge_violations', violation.user.serverId);
+
+  const [status, setStatus] = useState<ViolationStatus>(violation.status);
+  const [assigneeId, setAssigneeId] = useState(violation.assigneeId ?? UNASSIGNED);
+  const [reason, setReason] = useState(violation.dismissalReason ?? '');
+  const [restoreTrust, setRestoreTrust] = useState(violation.trustRestoredAt !== null);
+  const [note, setNote] = useState('');
+
+  const { data: assignees } = useViolationAssignees();
+  const { data: notes } = useViolationNotes(violation.id);
+  const updateViolation = useUpdateViolation();
+  const addNote = useAddViolationNote();
+  const deleteNote = useDeleteViolationNote();
+
+  const isDismissal = DISMISSAL_STATUSES.includes(status);
+  // Only a note's author or an owner can delete it
+  const canDeleteNote = (authorId: string | null) =>
+    canReview && (user.role === 'owner' || authorId === user.userId);
+
+  const handleSave = () => {
+    const data: UpdateViolationInput = {};
+    if (status !== violation.status) data.status = status;
+    const nextAssignee = assigneeId === UNASSIGNED ? null : assigneeId;
+    if (nextAssignee !== violation.assigneeId) data.assigneeId = nextAssignee;
+    if (isDismissal) data.dismissalReason = reason.trim() || null;
+    if (status === 'false_positive') data.restoreTrust = restoreTrust;
+    updateViolation.mutate({ id: violation.id, data });
+  };
+
+  const handleAddNote = () => {
+    const body = note.trim();
+    if (!body) return;
+    addNote.mutate(
+      { id: violation.id, body },
+      {
+        onSuccess: () => {
+          setNote('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <ClipboardCheck className="h-4 w-4" />
+        Review
+      </h4>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as ViolationStatus);
+            }}
+            disabled={!canReview}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(VIOLATION_STATUS_DISPLAY_NAMES) as ViolationStatus[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {VIOLATION_STATUS_DISPLAY_NAMES[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Assignee</Label>
+          <Select value={assigneeId} onValueChange={setAssigneeId} disabled={!canReview}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {assignees?.map((assignee) => (
+                <SelectItem key={assignee.id} value={assignee.id}>
+                  {assignee.name ?? assignee.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isDismissal && (
+        <div className="space-y-2">
+          <Label htmlFor="dismissal-reason">Reason</Label>
+          <Input
+            id="dismissal-reason"
+            value={reason}
+            maxLength={500}
+            placeholder="e.g., Family member travelling"
+            onChange={(e) => {
+              setReason(e.target.value);
+            }}
+            disabled={!canReview}
+          />
+        </div>
+      )}
+
+      {status === 'false_positive' && (
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={restoreTrust}
+            onCheckedChange={(checked) => {
+              setRestoreTrust(checked === true);
+            }}
+            disabled={!canReview}
+          />
+          Restore the trust score penalty
+        </label>
+      )}
+
+      {canReview && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={updateViolation.isPending}>
+            {updateViolation.isPending ? 'Saving...' : 'Save Review'}
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Notes
+        </Label>
+        {notes && notes.length > 0 ? (
+          <div className="space-y-2">
+            {notes.map((n) => (
+              <div key={n.id} className="rounded-lg border p-2 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="whitespace-pre-wrap break-words">{n.body}</p>
+                  {canDeleteNote(n.authorId) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      onClick={() => {
+                        deleteNote.mutate({ id: violation.id, noteId: n.id });
+                      }}
+                      disabled={deleteNote.isPending}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                <p
+                  className="mt-1 text-xs text-muted-foreground"
+                  title={format(new Date(n.createdAt), 'PPpp')}
+                >
+                  {n.authorName ?? 'Deleted user'} ·{' '}
+                  {formatDistanceToNow(new Date(n.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No notes yet.</p>
+        )}
+        {canReview && (
+          <div className="flex gap-2">
+            <Input
+              value={note}
+              maxLength={2000}
+              placeholder="Add a note..."
+              onChange={(e) => {
+                setNote(e.target.value);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddNote();
+              }}
+            />
+            <Button
+              variant="outline"
+              onClick={handleAddNote}
+              disabled={!note.trim() || addNote.isPending}
+            >
+              Add
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
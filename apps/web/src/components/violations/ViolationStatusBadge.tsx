@@ -0,0 +1,28 @@
+import { Badge } from '@/components/ui/badge';
+import type { ViolationStatus } from '@tracearr/shared';
+import { VIOLATION_STATUS_DISPLAY_NAMES } from '@tracearr/shared';
+import { cn } from '@/lib/utils';
+
+interface ViolationStatusBadgeProps {
+  status: ViolationStatus;
+  className?: string;
+}
+
+const statusVariants: Record<
+  ViolationStatus,
+  'outline' | 'secondary' | 'success' | 'warning' | 'danger'
+> = {
+  open: 'warning',
+  investigating: 'secondary',
+  confirmed_sharing: 'danger',
+  false_positive: 'success',
+  resolved: 'outline',
+};
+
+export function ViolationStatusBadge({ status, className }: ViolationStatusBadgeProps) {
+  return (
+    <Badge variant={statusVariants[status]} className={cn(className)}>
+      {VIOLATION_STATUS_DISPLAY_NAMES[status]}
+    </Badge>
+  );
+}
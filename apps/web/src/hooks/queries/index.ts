@@ -25,6 +25,7 @@ export { useHistorySessions, useFilterOptions, type HistoryFilters } from './use
 // User hooks
 export {
   useUsers,
+  useIdentityOptions,
   useUser,
   useUserFull,
   useUserSessions,
@@ -33,6 +34,37 @@ export {
   useUserLocations,
   useUserDevices,
   useUserTerminations,
+  useUserTrustEvents,
+  useUserAccount,
+  useRunAccountAction,
+  useUndoAccountAction,
+  useSuspendUser,
+  useExtendSuspension,
+  useLiftSuspension,
+  useNewUsers,
+  useEndProbation,
+  useInactiveUsers,
+  useInactiveUserAction,
+  useKnownLocations,
+  useCreateKnownLocation,
+  useUpdateKnownLocation,
+  useDeleteKnownLocation,
+  useConfirmKnownLocation,
+  useLearnKnownLocations,
+  useUserGroups,
+  useCreateUserGroup,
+  useUpdateUserGroup,
+  useDeleteUserGroup,
+  usePolicyProfiles,
+  useCreatePolicyProfile,
+  useUpdatePolicyProfile,
+  useDeletePolicyProfile,
+  useAssignPolicyProfile,
+  useIdentitySuggestions,
+  useMergeIdentities,
+  useSplitServerUser,
+  useUserPermissions,
+  useUpdateUserPermissions,
 } from './useUsers';
 
 // Rule hooks
@@ -42,15 +74,24 @@ export {
   useUpdateRule,
   useDeleteRule,
   useToggleRule,
+  useRuleBacktest,
 } from './useRules';
 
 // Violation hooks
 export {
   useViolations,
   useAcknowledgeViolation,
+  useUpdateViolation,
+  useViolationAssignees,
+  useViolationNotes,
+  useAddViolationNote,
+  useDeleteViolationNote,
   useDismissViolation,
 } from './useViolations';
 
+// Audit log hooks
+export { useAuditLog, useExportAuditLog } from './useAudit';
+
 // Server hooks
 export {
   useServers,
@@ -65,6 +106,33 @@ export { useSettings, useUpdateSettings } from './useSettings';
 // Channel Routing hooks
 export { useChannelRouting, useUpdateChannelRouting } from './useChannelRouting';
 
+// Notification Destination hooks
+export {
+  useNotificationDestinations,
+  useCreateNotificationDestination,
+  useUpdateNotificationDestination,
+  useDeleteNotificationDestination,
+  useTestNotificationDestination,
+  useAddNotificationRoute,
+  useDeleteNotificationRoute,
+} from './useNotificationDestinations';
+
+// Notification Template hooks
+export {
+  useNotificationTemplates,
+  useUpdateNotificationTemplate,
+  useResetNotificationTemplate,
+  usePreviewNotificationTemplate,
+} from './useNotificationTemplates';
+
+// Email Settings hooks
+export {
+  useEmailSettings,
+  useUpdateEmailSettings,
+  useTestEmail,
+  useSendEmailDigest,
+} from './useEmailSettings';
+
 // Mobile hooks
 export {
   useMobileConfig,
@@ -0,0 +1,42 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { api, type AuditLogFilters } from '@/lib/api';
+
+interface AuditLogParams extends AuditLogFilters {
+  page?: number;
+  pageSize?: number;
+}
+
+export function useAuditLog(params: AuditLogParams = {}, enabled = true) {
+  return useQuery({
+    queryKey: ['audit', 'list', params],
+    queryFn: () => api.audit.list(params),
+    enabled,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+export function useExportAuditLog() {
+  return useMutation({
+    mutationFn: async ({
+      format,
+      filters,
+    }: {
+      format: 'csv' | 'json';
+      filters?: AuditLogFilters;
+    }) => {
+      const blob = await api.audit.export(format, filters);
+
+      // Save through a temporary link so the download keeps the auth header
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tracearr-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (err) => {
+      toast.error('Failed to Export Audit Log', { description: err.message });
+    },
+  });
+}
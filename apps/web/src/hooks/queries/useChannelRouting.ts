@@ -20,11 +20,11 @@ export function useUpdateChannelRouting() {
       ...data
     }: {
       eventType: NotificationEventType;
-      discordEnabled?: boolean;
-      webhookEnabled?: boolean;
       webToastEnabled?: boolean;
+      pushEnabled?: boolean;
+      emailEnabled?: boolean;
     }) => api.channelRouting.update(eventType, data),
-    onMutate: async ({ eventType, discordEnabled, webhookEnabled, webToastEnabled }) => {
+    onMutate: async ({ eventType, webToastEnabled, pushEnabled, emailEnabled }) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey: ['channelRouting'] });
 
@@ -38,9 +38,9 @@ export function useUpdateChannelRouting() {
           if (routing.eventType !== eventType) return routing;
           return {
             ...routing,
-            ...(discordEnabled !== undefined && { discordEnabled }),
-            ...(webhookEnabled !== undefined && { webhookEnabled }),
             ...(webToastEnabled !== undefined && { webToastEnabled }),
+            ...(pushEnabled !== undefined && { pushEnabled }),
+            ...(emailEnabled !== undefined && { emailEnabled }),
           };
         });
       });
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { EmailDigestPeriod, UpdateEmailSettingsInput } from '@tracearr/shared';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+
+const EMAIL_SETTINGS_KEY = ['emailSettings'];
+
+export function useEmailSettings() {
+  return useQuery({
+    queryKey: EMAIL_SETTINGS_KEY,
+    queryFn: api.emailSettings.get,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useUpdateEmailSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpdateEmailSettingsInput) => api.emailSettings.update(data),
+    onSuccess: (data) => {
+      queryClient.setQueryData(EMAIL_SETTINGS_KEY, data);
+      toast.success('Email Settings Saved');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Save Email Settings', { description: error.message });
+    },
+  });
+}
+
+export function useTestEmail() {
+  return useMutation({
+    mutationFn: () => api.emailSettings.test(),
+    onSuccess: () => {
+      toast.success('Test Email Sent', { description: 'Check the inbox of each recipient.' });
+    },
+    onError: (error: Error) => {
+      toast.error('Test Failed', { description: error.message });
+    },
+  });
+}
+
+export function useSendEmailDigest() {
+  return useMutation({
+    mutationFn: (period: EmailDigestPeriod) => api.emailSettings.sendDigest(period),
+    onSuccess: () => {
+      toast.success('Digest Sent');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Send Digest', { description: error.message });
+    },
+  });
+}
@@ -27,6 +27,7 @@ export interface HistoryFilters {
   geoCountry?: string;
   geoCity?: string;
   geoRegion?: string;
+  asn?: number;
   isTranscode?: boolean;
   watched?: boolean;
   excludeShortSessions?: boolean;
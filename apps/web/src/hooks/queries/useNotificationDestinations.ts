@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  CreateNotificationDestinationInput,
+  CreateNotificationRouteInput,
+  UpdateNotificationDestinationInput,
+} from '@tracearr/shared';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+
+const DESTINATIONS_KEY = ['notificationDestinations'];
+
+export function useNotificationDestinations() {
+  return useQuery({
+    queryKey: DESTINATIONS_KEY,
+    queryFn: api.notificationDestinations.list,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useCreateNotificationDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateNotificationDestinationInput) =>
+      api.notificationDestinations.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: DESTINATIONS_KEY });
+      toast.success('Destination Added');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Add Destination', { description: error.message });
+    },
+  });
+}
+
+export function useUpdateNotificationDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateNotificationDestinationInput }) =>
+      api.notificationDestinations.update(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: DESTINATIONS_KEY });
+      toast.success('Destination Updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Destination', { description: error.message });
+    },
+  });
+}
+
+export function useDeleteNotificationDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.notificationDestinations.delete(id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: DESTINATIONS_KEY });
+      toast.success('Destination Removed');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Remove Destination', { description: error.message });
+    },
+  });
+}
+
+export function useTestNotificationDestination() {
+  return useMutation({
+    mutationFn: (id: string) => api.notificationDestinations.test(id),
+    onSuccess: () => {
+      toast.success('Test Sent', { description: 'Check the destination for the test message.' });
+    },
+    onError: (error: Error) => {
+      toast.error('Test Failed', { description: error.message });
+    },
+  });
+}
+
+export function useAddNotificationRoute() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      destinationId,
+      data,
+    }: {
+      destinationId: string;
+      data: CreateNotificationRouteInput;
+    }) => api.notificationDestinations.addRoute(destinationId, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: DESTINATIONS_KEY });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Routing', { description: error.message });
+    },
+  });
+}
+
+export function useDeleteNotificationRoute() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ destinationId, routeId }: { destinationId: string; routeId: string }) =>
+      api.notificationDestinations.deleteRoute(destinationId, routeId),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: DESTINATIONS_KEY });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Routing', { description: error.message });
+    },
+  });
+}
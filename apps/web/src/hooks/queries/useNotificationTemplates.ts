@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  NotificationEventType,
+  NotificationTemplateInput,
+  NotificationTemplatePreviewInput,
+} from '@tracearr/shared';
+import { toast } from 'sonner';
+import { api } from '@/lib/api';
+
+const TEMPLATES_KEY = ['notificationTemplates'];
+
+export function useNotificationTemplates() {
+  return useQuery({
+    queryKey: TEMPLATES_KEY,
+    queryFn: api.notificationTemplates.list,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useUpdateNotificationTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      eventType,
+      data,
+    }: {
+      eventType: NotificationEventType;
+      data: NotificationTemplateInput;
+    }) => api.notificationTemplates.update(eventType, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: TEMPLATES_KEY });
+      toast.success('Template Saved');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Save Template', { description: error.message });
+    },
+  });
+}
+
+export function useResetNotificationTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (eventType: NotificationEventType) => api.notificationTemplates.reset(eventType),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: TEMPLATES_KEY });
+      toast.success('Template Reset', { description: 'The built-in message will be used.' });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Reset Template', { description: error.message });
+    },
+  });
+}
+
+export function usePreviewNotificationTemplate() {
+  return useMutation({
+    mutationFn: (data: NotificationTemplatePreviewInput) => api.notificationTemplates.preview(data),
+    onError: (error: Error) => {
+      toast.error('Preview Failed', { description: error.message });
+    },
+  });
+}
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { Rule } from '@tracearr/shared';
+import type { Rule, RuleParams } from '@tracearr/shared';
 import { toast } from 'sonner';
 import { api } from '@/lib/api';
 
@@ -92,3 +92,18 @@ export function useToggleRule() {
     },
   });
 }
+
+export function useRuleBacktest() {
+  return useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: { days: number; params?: RuleParams; crossServer?: boolean };
+    }) => api.rules.backtest(id, data),
+    onError: (error: Error) => {
+      toast.error('Failed to Preview Rule', { description: error.message });
+    },
+  });
+}
@@ -37,6 +37,7 @@ export interface LocationStatsFilters {
   serverUserId?: string;
   serverId?: string;
   mediaType?: 'movie' | 'episode' | 'track';
+  asn?: number;
 }
 
 export function useLocationStats(filters?: LocationStatsFilters) {
@@ -1,6 +1,17 @@
+import { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { api } from '@/lib/api';
+import type {
+  AccountActionInput,
+  SuspendUserInput,
+  CreateKnownLocationInput,
+  MergeIdentitiesInput,
+  UpdateKnownLocationInput,
+  UpdateUserPermissionsInput,
+  InactiveUserAction,
+} from '@tracearr/shared';
+import { INACTIVE_USER_ACTION_DISPLAY_NAMES } from '@tracearr/shared';
+import { api, type PolicyProfileInput } from '@/lib/api';
 
 export function useUsers(params: { page?: number; pageSize?: number; serverId?: string } = {}) {
   return useQuery({
@@ -10,6 +21,110 @@ export function useUsers(params: { page?: number; pageSize?: number; serverId?:
   });
 }
 
+/**
+ * Identity (users.id) picker options built from the server user list.
+ * Server accounts sharing an identity are collapsed into one entry.
+ */
+export function useIdentityOptions() {
+  const query = useUsers({ pageSize: 100 });
+
+  const identities = useMemo(() => {
+    const byId = new Map<string, { userId: string; name: string; servers: string[] }>();
+    for (const serverUser of query.data?.data ?? []) {
+      const existing = byId.get(serverUser.userId);
+      if (existing) {
+        existing.servers.push(serverUser.serverName);
+      } else {
+        byId.set(serverUser.userId, {
+          userId: serverUser.userId,
+          name: serverUser.identityName ?? serverUser.username,
+          servers: [serverUser.serverName],
+        });
+      }
+    }
+    return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [query.data]);
+
+  return { identities, isLoading: query.isLoading };
+}
+
+/**
+ * Server accounts that joined in the last `days` days, newest first
+ */
+export function useNewUsers(params: { days?: number; serverId?: string } = {}) {
+  return useQuery({
+    queryKey: ['users', 'new', params],
+    queryFn: () => api.users.newUsers(params),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useEndProbation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.users.endProbation(id),
+    onSuccess: (_, id) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'new'] });
+      void queryClient.invalidateQueries({ queryKey: ['users', 'list'] });
+      void queryClient.invalidateQueries({ queryKey: ['users', 'full', id] });
+      toast.success('Probation Ended');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to End Probation', { description: error.message });
+    },
+  });
+}
+
+export interface InactiveUsersParams {
+  days?: number;
+  before?: string;
+  neverPlayed?: boolean;
+  serverId?: string;
+}
+
+/**
+ * Server accounts with no sessions in `days` days or since `before`
+ */
+export function useInactiveUsers(params: InactiveUsersParams, enabled = true) {
+  return useQuery({
+    queryKey: ['users', 'inactive', params],
+    queryFn: () => api.users.inactive(params),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    enabled,
+  });
+}
+
+export function useInactiveUserAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: { action: InactiveUserAction; serverUserIds: string[] }) =>
+      api.users.inactiveAction(input.action, input.serverUserIds),
+    onSuccess: ({ results }, { action }) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'inactive'] });
+      if (action === 'remove_access') {
+        void queryClient.invalidateQueries({ queryKey: ['users', 'account'] });
+      }
+
+      const failed = results.filter((result) => !result.success);
+      const description = `${INACTIVE_USER_ACTION_DISPLAY_NAMES[action]}: ${
+        results.length - failed.length
+      } of ${results.length} accounts`;
+      if (failed.length === 0) {
+        toast.success('Accounts Updated', { description });
+      } else {
+        toast.warning('Some Accounts Were Not Updated', {
+          description: `${description}. ${failed[0]?.error ?? 'Unknown error'}`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error('Bulk Action Failed', { description: error.message });
+    },
+  });
+}
+
 export function useUser(id: string) {
   return useQuery({
     queryKey: ['users', 'detail', id],
@@ -53,6 +168,7 @@ export function useUpdateUser() {
       queryClient.setQueryData(['users', 'detail', variables.id], data);
       // Invalidate users list
       void queryClient.invalidateQueries({ queryKey: ['users', 'list'] });
+      void queryClient.invalidateQueries({ queryKey: ['users', 'trustEvents', variables.id] });
     },
   });
 }
@@ -100,3 +216,414 @@ export function useUserTerminations(id: string, params: { page?: number; pageSiz
     staleTime: 1000 * 60, // 1 minute
   });
 }
+
+export function useUserTrustEvents(id: string) {
+  return useQuery({
+    queryKey: ['users', 'trustEvents', id],
+    queryFn: () => api.users.trustEvents(id),
+    enabled: !!id,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+export function useUserAccount(id: string, enabled = true) {
+  return useQuery({
+    queryKey: ['users', 'account', id],
+    queryFn: () => api.users.account(id),
+    enabled: !!id && enabled,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+export function useRunAccountAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: AccountActionInput }) =>
+      api.users.runAccountAction(id, data),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'account', variables.id] });
+      toast.success('Account Access Changed');
+    },
+    onError: (error: Error, variables) => {
+      // Failed attempts are logged too
+      void queryClient.invalidateQueries({ queryKey: ['users', 'account', variables.id] });
+      toast.error('Failed to Change Account Access', { description: error.message });
+    },
+  });
+}
+
+export function useUndoAccountAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, actionId }: { id: string; actionId: string }) =>
+      api.users.undoAccountAction(id, actionId),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'account', variables.id] });
+      toast.success('Account Access Restored');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Undo', { description: error.message });
+    },
+  });
+}
+
+export function useSuspendUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SuspendUserInput }) =>
+      api.users.suspend(id, data),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'account', variables.id] });
+      void queryClient.invalidateQueries({ queryKey: ['users', 'list'] });
+      toast.success('User Suspended');
+    },
+    onError: (error: Error, variables) => {
+      // Failed attempts are logged too
+      void queryClient.invalidateQueries({ queryKey: ['users', 'account', variables.id] });
+      toast.error('Failed to Suspend User', { description: error.message });
+    },
+  });
+}
+
+export function useExtendSuspension() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      suspensionId,
+      hours,
+    }: {
+      id: string;
+      suspensionId: string;
+      hours: number;
+    }) => api.users.extendSuspension(id, suspensionId, hours),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'account', variables.id] });
+      void queryClient.invalidateQueries({ queryKey: ['users', 'list'] });
+      toast.success('Suspension Extended');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Extend Suspension', { description: error.message });
+    },
+  });
+}
+
+export function useLiftSuspension() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, suspensionId }: { id: string; suspensionId: string }) =>
+      api.users.liftSuspension(id, suspensionId),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'account', variables.id] });
+      void queryClient.invalidateQueries({ queryKey: ['users', 'list'] });
+      toast.success('Suspension Lifted');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Lift Suspension', { description: error.message });
+    },
+  });
+}
+
+export function useKnownLocations(id: string) {
+  return useQuery({
+    queryKey: ['users', 'knownLocations', id],
+    queryFn: () => api.users.knownLocations(id),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useCreateKnownLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CreateKnownLocationInput }) =>
+      api.users.createKnownLocation(id, data),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'knownLocations', variables.id] });
+      toast.success('Known Location Added');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Add Known Location', { description: error.message });
+    },
+  });
+}
+
+export function useUpdateKnownLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      locationId,
+      data,
+    }: {
+      id: string;
+      locationId: string;
+      data: UpdateKnownLocationInput;
+    }) => api.users.updateKnownLocation(id, locationId, data),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'knownLocations', variables.id] });
+      toast.success('Known Location Updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Known Location', { description: error.message });
+    },
+  });
+}
+
+export function useDeleteKnownLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, locationId }: { id: string; locationId: string }) =>
+      api.users.deleteKnownLocation(id, locationId),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'knownLocations', variables.id] });
+      toast.success('Known Location Removed');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Remove Known Location', { description: error.message });
+    },
+  });
+}
+
+export function useConfirmKnownLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, locationId }: { id: string; locationId: string }) =>
+      api.users.confirmKnownLocation(id, locationId),
+    onSuccess: (_, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'knownLocations', variables.id] });
+      toast.success('Known Location Confirmed');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Confirm Known Location', { description: error.message });
+    },
+  });
+}
+
+export function useLearnKnownLocations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.users.learnKnownLocations(id),
+    onSuccess: (created, id) => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'knownLocations', id] });
+      toast.success(
+        created.length > 0
+          ? `Learned ${created.length} Known Location${created.length === 1 ? '' : 's'}`
+          : 'No New Known Locations Found'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Learn Known Locations', { description: error.message });
+    },
+  });
+}
+
+export function useUserGroups() {
+  return useQuery({
+    queryKey: ['users', 'groups'],
+    queryFn: api.userGroups.list,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useCreateUserGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { name: string; description?: string | null; userIds?: string[] }) =>
+      api.userGroups.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'groups'] });
+      toast.success('Group Created');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Create Group', { description: error.message });
+    },
+  });
+}
+
+export function useUpdateUserGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: { name?: string; description?: string | null; userIds?: string[] };
+    }) => api.userGroups.update(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'groups'] });
+      toast.success('Group Updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Group', { description: error.message });
+    },
+  });
+}
+
+export function useDeleteUserGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.userGroups.delete(id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'groups'] });
+      toast.success('Group Deleted');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Delete Group', { description: error.message });
+    },
+  });
+}
+
+export function usePolicyProfiles() {
+  return useQuery({
+    queryKey: ['users', 'policy-profiles'],
+    queryFn: api.policyProfiles.list,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useCreatePolicyProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: PolicyProfileInput) => api.policyProfiles.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'policy-profiles'] });
+      toast.success('Profile Created');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Create Profile', { description: error.message });
+    },
+  });
+}
+
+export function useUpdatePolicyProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<PolicyProfileInput> }) =>
+      api.policyProfiles.update(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'policy-profiles'] });
+      toast.success('Profile Updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Profile', { description: error.message });
+    },
+  });
+}
+
+export function useDeletePolicyProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.policyProfiles.delete(id),
+    onSuccess: () => {
+      // Members lose their profile, so refresh the user list too
+      void queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('Profile Deleted');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Delete Profile', { description: error.message });
+    },
+  });
+}
+
+export function useAssignPolicyProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ profileId, userIds }: { profileId: string | null; userIds: string[] }) =>
+      api.policyProfiles.assign(profileId, userIds),
+    onSuccess: (data, { profileId }) => {
+      void queryClient.invalidateQueries({ queryKey: ['users'] });
+      const users = `${data.updated} ${data.updated === 1 ? 'user' : 'users'} updated`;
+      toast.success(profileId ? 'Profile Assigned' : 'Profile Cleared', { description: users });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Assign Profile', { description: error.message });
+    },
+  });
+}
+
+export function useIdentitySuggestions(enabled = true) {
+  return useQuery({
+    queryKey: ['users', 'identitySuggestions'],
+    queryFn: api.identities.suggestions,
+    enabled,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+export function useMergeIdentities() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: MergeIdentitiesInput) => api.identities.merge(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users'] });
+      // Rule targeting moves to the kept identity
+      void queryClient.invalidateQueries({ queryKey: ['rules', 'list'] });
+      toast.success('Identities Merged');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Merge Identities', { description: error.message });
+    },
+  });
+}
+
+export function useSplitServerUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (serverUserId: string) => api.identities.split(serverUserId),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('Account Detached', { description: 'The account is now its own identity.' });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Detach Account', { description: error.message });
+    },
+  });
+}
+
+export function useUserPermissions(enabled = true) {
+  return useQuery({
+    queryKey: ['users', 'permissions'],
+    queryFn: api.permissions.list,
+    enabled,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+export function useUpdateUserPermissions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, data }: { userId: string; data: UpdateUserPermissionsInput }) =>
+      api.permissions.update(userId, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users', 'permissions'] });
+      // Violation assignees are the admins and owners
+      void queryClient.invalidateQueries({ queryKey: ['violations', 'assignees'] });
+      toast.success('Permissions Updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Permissions', { description: error.message });
+    },
+  });
+}
@@ -1,5 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { ViolationWithDetails, PaginatedResponse, ViolationSeverity } from '@tracearr/shared';
+import type {
+  ViolationWithDetails,
+  PaginatedResponse,
+  ViolationSeverity,
+  ViolationStatus,
+  UpdateViolationInput,
+} from '@tracearr/shared';
 import { toast } from 'sonner';
 import { api } from '@/lib/api';
 
@@ -9,6 +15,7 @@ interface ViolationsParams {
   userId?: string;
   severity?: ViolationSeverity;
   acknowledged?: boolean;
+  status?: ViolationStatus;
   serverId?: string;
 }
 
@@ -66,6 +73,70 @@ export function useAcknowledgeViolation() {
   });
 }
 
+export function useUpdateViolation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateViolationInput }) =>
+      api.violations.review(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['violations'] });
+      void queryClient.invalidateQueries({ queryKey: ['stats', 'dashboard'] });
+      // Trust scores change when a false positive is refunded or charged again
+      void queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('Violation Updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Update Violation', { description: error.message });
+    },
+  });
+}
+
+export function useViolationAssignees() {
+  return useQuery({
+    queryKey: ['violations', 'assignees'],
+    queryFn: api.violations.assignees,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+export function useViolationNotes(id: string | null) {
+  return useQuery({
+    queryKey: ['violations', 'notes', id],
+    queryFn: async () => (await api.violations.notes(id!)).data,
+    enabled: !!id,
+  });
+}
+
+export function useAddViolationNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, body }: { id: string; body: string }) => api.violations.addNote(id, body),
+    onSuccess: (_note, { id }) => {
+      void queryClient.invalidateQueries({ queryKey: ['violations', 'notes', id] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Add Note', { description: error.message });
+    },
+  });
+}
+
+export function useDeleteViolationNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, noteId }: { id: string; noteId: string }) =>
+      api.violations.deleteNote(id, noteId),
+    onSuccess: (_data, { id }) => {
+      void queryClient.invalidateQueries({ queryKey: ['violations', 'notes', id] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to Delete Note', { description: error.message });
+    },
+  });
+}
+
 export function useDismissViolation() {
   const queryClient = useQueryClient();
 
@@ -7,7 +7,7 @@ import {
   type ReactNode,
 } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { AuthUser } from '@tracearr/shared';
+import type { AuthUser, ServerPermissionGrant } from '@tracearr/shared';
 import { api, tokenStorage, AUTH_STATE_CHANGE_EVENT } from '@/lib/api';
 
 interface UserProfile extends AuthUser {
@@ -16,6 +16,7 @@ interface UserProfile extends AuthUser {
   trustScore: number;
   hasPassword?: boolean;
   hasPlexLinked?: boolean;
+  permissions: ServerPermissionGrant[];
 }
 
 interface AuthContextValue {
@@ -55,6 +56,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           trustScore: user.aggregateTrustScore ?? user.trustScore ?? 100,
           hasPassword: user.hasPassword,
           hasPlexLinked: user.hasPlexLinked,
+          permissions: user.permissions ?? [],
         } as UserProfile;
       } catch {
         // Don't clear tokens on network errors (e.g., server restart)
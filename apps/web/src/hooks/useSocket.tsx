@@ -18,8 +18,11 @@ import type {
   DashboardStats,
   NotificationChannelRouting,
   NotificationEventType,
+  NewDeviceAlert,
+  ConcurrentStreamsAlert,
+  TrustScoreAlert,
 } from '@tracearr/shared';
-import { WS_EVENTS } from '@tracearr/shared';
+import { TRUST_LEVEL_DISPLAY_NAMES, WS_EVENTS } from '@tracearr/shared';
 import { useAuth } from './useAuth';
 import { toast } from 'sonner';
 import { tokenStorage } from '@/lib/api';
@@ -148,6 +151,38 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     });
 
+    newSocket.on(WS_EVENTS.DEVICE_NEW as 'device:new', (alert: NewDeviceAlert) => {
+      if (isWebToastEnabled('new_device')) {
+        const device = alert.product ?? alert.playerName ?? 'an unknown device';
+        toast.info('New Device', {
+          description: `${alert.identityName ?? alert.username} started streaming on ${device}`,
+        });
+      }
+    });
+
+    newSocket.on(
+      WS_EVENTS.STREAMS_CONCURRENT as 'streams:concurrent',
+      (alert: ConcurrentStreamsAlert) => {
+        if (isWebToastEnabled('concurrent_streams')) {
+          toast.warning('Concurrent Streams', {
+            description: `${alert.identityName ?? alert.username} has ${alert.streamCount} active streams`,
+          });
+        }
+      }
+    );
+
+    newSocket.on(WS_EVENTS.TRUST_CHANGED as 'trust:changed', (alert: TrustScoreAlert) => {
+      // Trust scores are shown on user lists and pages
+      void queryClient.invalidateQueries({ queryKey: ['users'] });
+
+      if (isWebToastEnabled('trust_score_changed')) {
+        const toastFn = alert.score < alert.previousScore ? toast.warning : toast.success;
+        toastFn('Trust Level Changed', {
+          description: `${alert.identityName ?? alert.username} is now ${TRUST_LEVEL_DISPLAY_NAMES[alert.level]} (${alert.score})`,
+        });
+      }
+    });
+
     newSocket.on(WS_EVENTS.STATS_UPDATED as 'stats:updated', (_stats: DashboardStats) => {
       // Invalidate all dashboard stats queries (they now have server-specific cache keys)
       void queryClient.invalidateQueries({ queryKey: ['stats', 'dashboard'] });
@@ -5,12 +5,32 @@ import type {
   ServerUserWithIdentity,
   ServerUserDetail,
   ServerUserFullDetail,
+  InactiveServerUser,
+  InactiveUserAction,
+  InactiveUserActionResult,
   Session,
   SessionWithDetails,
   ActiveSession,
   Rule,
+  RuleParams,
+  RuleBacktestResult,
+  UserGroup,
+  PolicyProfile,
+  IdentityMergeSuggestion,
+  IdentityMergeResult,
+  IdentitySplitResult,
+  MergeIdentitiesInput,
+  UserPermissions,
+  UpdateUserPermissionsInput,
+  ServerPermissionGrant,
   Violation,
   ViolationWithDetails,
+  ViolationAssignee,
+  ViolationNote,
+  UpdateViolationInput,
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
   DashboardStats,
   PlayStats,
   UserStats,
@@ -18,15 +38,34 @@ import type {
   LocationStatsResponse,
   UserLocation,
   UserDevice,
+  KnownLocation,
+  CreateKnownLocationInput,
+  UpdateKnownLocationInput,
   Settings,
   PaginatedResponse,
   MobileConfig,
   TerminationLogWithDetails,
+  TrustScoreEvent,
+  ServerAccountStatus,
+  AccountActionInput,
+  SuspendUserInput,
   PlexDiscoveredServer,
   PlexDiscoveredConnection,
   PlexAvailableServersResponse,
   NotificationChannelRouting,
   NotificationEventType,
+  NotificationDestination,
+  NotificationDestinationRoute,
+  CreateNotificationDestinationInput,
+  UpdateNotificationDestinationInput,
+  CreateNotificationRouteInput,
+  NotificationTemplate,
+  NotificationTemplateInput,
+  NotificationTemplatePreview,
+  NotificationTemplatePreviewInput,
+  EmailSettings,
+  UpdateEmailSettingsInput,
+  EmailDigestPeriod,
   HistorySessionResponse,
   HistoryFilterOptions,
   HistoryQueryInput,
@@ -38,6 +77,26 @@ export type { PlexDiscoveredServer, PlexDiscoveredConnection, PlexAvailableServe
 import { API_BASE_PATH, getClientTimezone } from '@tracearr/shared';
 
 // Stats time range parameters
+// Audit log filters (dates as ISO strings)
+export interface AuditLogFilters {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  serverId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Editable fields of a policy profile (a null limit means no limit)
+export interface PolicyProfileInput {
+  name: string;
+  description: string | null;
+  maxStreams: number | null;
+  allowedCountries: string[] | null;
+  maxTranscodes: number | null;
+}
+
 export interface StatsTimeRange {
   period: 'day' | 'week' | 'month' | 'year' | 'all' | 'custom';
   startDate?: string; // ISO date string
@@ -238,6 +297,46 @@ class ApiClient {
     return response.json();
   }
 
+  /**
+   * Fetch a file download with auth (same refresh handling as request)
+   */
+  private async download(path: string, isRetry = false): Promise<Blob> {
+    const headers: Record<string, string> = {};
+    const token = tokenStorage.getAccessToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      credentials: 'include',
+      headers,
+    });
+
+    if (response.status === 401 && !isRetry && (await this.handleTokenRefresh())) {
+      return this.download(path, true);
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message ?? `Request failed: ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  // Audit log - shared query params for list and export
+  private buildAuditParams(filters?: AuditLogFilters): URLSearchParams {
+    const params = new URLSearchParams();
+    if (filters?.action) params.set('action', filters.action);
+    if (filters?.entityType) params.set('entityType', filters.entityType);
+    if (filters?.entityId) params.set('entityId', filters.entityId);
+    if (filters?.actorId) params.set('actorId', filters.actorId);
+    if (filters?.serverId) params.set('serverId', filters.serverId);
+    if (filters?.startDate) params.set('startDate', filters.startDate);
+    if (filters?.endDate) params.set('endDate', filters.endDate);
+    return params;
+  }
+
   // Setup - check if Tracearr needs initial configuration
   setup = {
     status: () => this.request<{
@@ -261,6 +360,7 @@ class ApiClient {
       serverIds: string[];
       hasPassword?: boolean;
       hasPlexLinked?: boolean;
+      permissions?: ServerPermissionGrant[];
       // Fallback fields for backwards compatibility
       id?: string;
       serverId?: string;
@@ -413,6 +513,38 @@ class ApiClient {
       return this.request<PaginatedResponse<ServerUserWithIdentity>>(`/users?${searchParams.toString()}`);
     },
     get: (id: string) => this.request<ServerUserDetail>(`/users/${id}`),
+    newUsers: async (params?: { days?: number; serverId?: string }) => {
+      const searchParams = new URLSearchParams();
+      if (params?.days) searchParams.set('days', String(params.days));
+      if (params?.serverId) searchParams.set('serverId', params.serverId);
+      const response = await this.request<{ data: ServerUserWithIdentity[] }>(
+        `/users/new?${searchParams.toString()}`
+      );
+      return response.data;
+    },
+    endProbation: (id: string) =>
+      this.request<{ success: boolean }>(`/users/${id}/probation/end`, { method: 'POST' }),
+    inactive: async (params?: {
+      days?: number;
+      before?: string;
+      neverPlayed?: boolean;
+      serverId?: string;
+    }) => {
+      const searchParams = new URLSearchParams();
+      if (params?.days) searchParams.set('days', String(params.days));
+      if (params?.before) searchParams.set('before', params.before);
+      if (params?.neverPlayed) searchParams.set('neverPlayed', 'true');
+      if (params?.serverId) searchParams.set('serverId', params.serverId);
+      const response = await this.request<{ data: InactiveServerUser[]; cutoff: string }>(
+        `/users/inactive?${searchParams.toString()}`
+      );
+      return response.data;
+    },
+    inactiveAction: (action: InactiveUserAction, serverUserIds: string[]) =>
+      this.request<{ results: InactiveUserActionResult[] }>('/users/inactive/actions', {
+        method: 'POST',
+        body: JSON.stringify({ action, serverUserIds }),
+      }),
     getFull: (id: string) => this.request<ServerUserFullDetail>(`/users/${id}/full`),
     update: (id: string, data: { trustScore?: number }) =>
       this.request<ServerUserWithIdentity>(`/users/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
@@ -437,6 +569,129 @@ class ApiClient {
       const query = new URLSearchParams(params as Record<string, string>).toString();
       return this.request<PaginatedResponse<TerminationLogWithDetails>>(`/users/${id}/terminations?${query}`);
     },
+    trustEvents: async (id: string) => {
+      const response = await this.request<{ data: TrustScoreEvent[] }>(`/users/${id}/trust-events`);
+      return response.data;
+    },
+    account: (id: string) => this.request<ServerAccountStatus>(`/users/${id}/account`),
+    runAccountAction: (id: string, data: AccountActionInput) =>
+      this.request<{ success: boolean; accountActionId: string }>(`/users/${id}/account/actions`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    undoAccountAction: (id: string, actionId: string) =>
+      this.request<{ success: boolean }>(`/users/${id}/account/actions/${actionId}/undo`, {
+        method: 'POST',
+      }),
+    suspend: (id: string, data: SuspendUserInput) =>
+      this.request<{ success: boolean; suspensionId: string; endsAt: string }>(
+        `/users/${id}/account/suspensions`,
+        { method: 'POST', body: JSON.stringify(data) }
+      ),
+    extendSuspension: (id: string, suspensionId: string, hours: number) =>
+      this.request<{ success: boolean; endsAt: string }>(
+        `/users/${id}/account/suspensions/${suspensionId}/extend`,
+        { method: 'POST', body: JSON.stringify({ hours }) }
+      ),
+    liftSuspension: (id: string, suspensionId: string) =>
+      this.request<{ success: boolean }>(`/users/${id}/account/suspensions/${suspensionId}/lift`, {
+        method: 'POST',
+      }),
+    knownLocations: async (id: string) => {
+      const response = await this.request<{ data: KnownLocation[] }>(`/users/${id}/known-locations`);
+      return response.data;
+    },
+    createKnownLocation: (id: string, data: CreateKnownLocationInput) =>
+      this.request<KnownLocation>(`/users/${id}/known-locations`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    updateKnownLocation: (id: string, locationId: string, data: UpdateKnownLocationInput) =>
+      this.request<KnownLocation>(`/users/${id}/known-locations/${locationId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }),
+    deleteKnownLocation: (id: string, locationId: string) =>
+      this.request<void>(`/users/${id}/known-locations/${locationId}`, { method: 'DELETE' }),
+    confirmKnownLocation: (id: string, locationId: string) =>
+      this.request<KnownLocation>(`/users/${id}/known-locations/${locationId}/confirm`, {
+        method: 'POST',
+      }),
+    learnKnownLocations: async (id: string) => {
+      const response = await this.request<{ data: KnownLocation[] }>(
+        `/users/${id}/known-locations/learn`,
+        { method: 'POST' }
+      );
+      return response.data;
+    },
+  };
+
+  // User groups (rule targeting)
+  userGroups = {
+    list: async () => {
+      const response = await this.request<{ data: UserGroup[] }>('/users/groups');
+      return response.data;
+    },
+    create: (data: { name: string; description?: string | null; userIds?: string[] }) =>
+      this.request<UserGroup>('/users/groups', { method: 'POST', body: JSON.stringify(data) }),
+    update: (id: string, data: { name?: string; description?: string | null; userIds?: string[] }) =>
+      this.request<UserGroup>(`/users/groups/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
+    delete: (id: string) => this.request<void>(`/users/groups/${id}`, { method: 'DELETE' }),
+  };
+
+  // Policy profiles (per-identity limits read by profile-aware rules)
+  policyProfiles = {
+    list: async () => {
+      const response = await this.request<{ data: PolicyProfile[] }>('/users/policy-profiles');
+      return response.data;
+    },
+    create: (data: PolicyProfileInput) =>
+      this.request<PolicyProfile>('/users/policy-profiles', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    update: (id: string, data: Partial<PolicyProfileInput>) =>
+      this.request<PolicyProfile>(`/users/policy-profiles/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }),
+    delete: (id: string) =>
+      this.request<void>(`/users/policy-profiles/${id}`, { method: 'DELETE' }),
+    assign: (profileId: string | null, userIds: string[]) =>
+      this.request<{ success: boolean; updated: number }>('/users/policy-profiles/assign', {
+        method: 'POST',
+        body: JSON.stringify({ profileId, userIds }),
+      }),
+  };
+
+  // Identity merge and split (owner only)
+  identities = {
+    suggestions: async () => {
+      const response = await this.request<{ data: IdentityMergeSuggestion[] }>(
+        '/users/identities/suggestions'
+      );
+      return response.data;
+    },
+    merge: (data: MergeIdentitiesInput) =>
+      this.request<IdentityMergeResult>('/users/identities/merge', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    split: (serverUserId: string) =>
+      this.request<IdentitySplitResult>(`/users/${serverUserId}/split`, { method: 'POST' }),
+  };
+
+  // Roles and per-server permissions (owner only)
+  permissions = {
+    list: async () => {
+      const response = await this.request<{ data: UserPermissions[] }>('/users/permissions');
+      return response.data;
+    },
+    update: (userId: string, data: UpdateUserPermissionsInput) =>
+      this.request<UserPermissions>(`/users/permissions/${userId}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }),
   };
 
   // Sessions
@@ -472,6 +727,7 @@ class ApiClient {
       if (params.geoCountry) searchParams.set('geoCountry', params.geoCountry);
       if (params.geoCity) searchParams.set('geoCity', params.geoCity);
       if (params.geoRegion) searchParams.set('geoRegion', params.geoRegion);
+      if (params.asn) searchParams.set('asn', String(params.asn));
       if (params.isTranscode !== undefined) searchParams.set('isTranscode', String(params.isTranscode));
       if (params.watched !== undefined) searchParams.set('watched', String(params.watched));
       if (params.excludeShortSessions) searchParams.set('excludeShortSessions', 'true');
@@ -513,6 +769,14 @@ class ApiClient {
     update: (id: string, data: Partial<Rule>) =>
       this.request<Rule>(`/rules/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
     delete: (id: string) => this.request<void>(`/rules/${id}`, { method: 'DELETE' }),
+    backtest: (
+      id: string,
+      data: { days: number; params?: RuleParams; crossServer?: boolean }
+    ) =>
+      this.request<RuleBacktestResult>(`/rules/${id}/backtest`, {
+        method: 'POST',
+        body: JSON.stringify({ timezone: getBrowserTimezone(), ...data }),
+      }),
   };
 
   // Violations
@@ -523,6 +787,7 @@ class ApiClient {
       userId?: string;
       severity?: string;
       acknowledged?: boolean;
+      status?: string;
       serverId?: string;
     }) => {
       const searchParams = new URLSearchParams();
@@ -531,12 +796,42 @@ class ApiClient {
       if (params?.userId) searchParams.set('userId', params.userId);
       if (params?.severity) searchParams.set('severity', params.severity);
       if (params?.acknowledged !== undefined) searchParams.set('acknowledged', String(params.acknowledged));
+      if (params?.status) searchParams.set('status', params.status);
       if (params?.serverId) searchParams.set('serverId', params.serverId);
       return this.request<PaginatedResponse<ViolationWithDetails>>(`/violations?${searchParams.toString()}`);
     },
     acknowledge: (id: string) =>
       this.request<Violation>(`/violations/${id}`, { method: 'PATCH' }),
+    review: (id: string, data: UpdateViolationInput) =>
+      this.request<Violation>(`/violations/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }),
     dismiss: (id: string) => this.request<void>(`/violations/${id}`, { method: 'DELETE' }),
+    assignees: () => this.request<ViolationAssignee[]>('/violations/assignees'),
+    notes: (id: string) =>
+      this.request<{ data: ViolationNote[] }>(`/violations/${id}/notes`),
+    addNote: (id: string, body: string) =>
+      this.request<ViolationNote>(`/violations/${id}/notes`, {
+        method: 'POST',
+        body: JSON.stringify({ body }),
+      }),
+    deleteNote: (id: string, noteId: string) =>
+      this.request<void>(`/violations/${id}/notes/${noteId}`, { method: 'DELETE' }),
+  };
+
+  audit = {
+    list: (params?: AuditLogFilters & { page?: number; pageSize?: number }) => {
+      const searchParams = this.buildAuditParams(params);
+      if (params?.page) searchParams.set('page', String(params.page));
+      if (params?.pageSize) searchParams.set('pageSize', String(params.pageSize));
+      return this.request<PaginatedResponse<AuditLogEntry>>(`/audit?${searchParams.toString()}`);
+    },
+    export: (format: 'csv' | 'json', filters?: AuditLogFilters) => {
+      const searchParams = this.buildAuditParams(filters);
+      searchParams.set('format', format);
+      return this.download(`/audit/export?${searchParams.toString()}`);
+    },
   };
 
   // Stats - helper to build stats query params
@@ -575,6 +870,7 @@ class ApiClient {
       serverUserId?: string;
       serverId?: string;
       mediaType?: 'movie' | 'episode' | 'track';
+      asn?: number;
     }) => {
       const searchParams = new URLSearchParams();
       if (params?.timeRange?.period) searchParams.set('period', params.timeRange.period);
@@ -583,6 +879,7 @@ class ApiClient {
       if (params?.serverUserId) searchParams.set('serverUserId', params.serverUserId);
       if (params?.serverId) searchParams.set('serverId', params.serverId);
       if (params?.mediaType) searchParams.set('mediaType', params.mediaType);
+      if (params?.asn) searchParams.set('asn', String(params.asn));
       const query = searchParams.toString();
       return this.request<LocationStatsResponse>(`/stats/locations${query ? `?${query}` : ''}`);
     },
@@ -663,17 +960,6 @@ class ApiClient {
     get: () => this.request<Settings>('/settings'),
     update: (data: Partial<Settings>) =>
       this.request<Settings>('/settings', { method: 'PATCH', body: JSON.stringify(data) }),
-    testWebhook: (data: {
-      type: 'discord' | 'custom';
-      url?: string;
-      format?: 'json' | 'ntfy' | 'apprise';
-      ntfyTopic?: string;
-      ntfyAuthToken?: string;
-    }) =>
-      this.request<{ success: boolean; error?: string }>('/settings/test-webhook', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
   };
 
   // Channel Routing
@@ -681,7 +967,7 @@ class ApiClient {
     getAll: () => this.request<NotificationChannelRouting[]>('/settings/notifications/routing'),
     update: (
       eventType: NotificationEventType,
-      data: { discordEnabled?: boolean; webhookEnabled?: boolean }
+      data: { webToastEnabled?: boolean; pushEnabled?: boolean; emailEnabled?: boolean }
     ) =>
       this.request<NotificationChannelRouting>(`/settings/notifications/routing/${eventType}`, {
         method: 'PATCH',
@@ -689,6 +975,79 @@ class ApiClient {
       }),
   };
 
+  // Notification Destinations
+  notificationDestinations = {
+    list: () =>
+      this.request<NotificationDestination[]>('/settings/notifications/destinations'),
+    create: (data: CreateNotificationDestinationInput) =>
+      this.request<NotificationDestination>('/settings/notifications/destinations', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    update: (id: string, data: UpdateNotificationDestinationInput) =>
+      this.request<NotificationDestination>(`/settings/notifications/destinations/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      }),
+    delete: (id: string) =>
+      this.request<{ success: boolean }>(`/settings/notifications/destinations/${id}`, {
+        method: 'DELETE',
+      }),
+    test: (id: string) =>
+      this.request<{ success: boolean; error?: string }>(
+        `/settings/notifications/destinations/${id}/test`,
+        { method: 'POST' }
+      ),
+    addRoute: (id: string, data: CreateNotificationRouteInput) =>
+      this.request<NotificationDestinationRoute>(
+        `/settings/notifications/destinations/${id}/routes`,
+        { method: 'POST', body: JSON.stringify(data) }
+      ),
+    deleteRoute: (id: string, routeId: string) =>
+      this.request<{ success: boolean }>(
+        `/settings/notifications/destinations/${id}/routes/${routeId}`,
+        { method: 'DELETE' }
+      ),
+  };
+
+  // Notification Templates
+  notificationTemplates = {
+    list: () => this.request<NotificationTemplate[]>('/settings/notifications/templates'),
+    update: (eventType: NotificationEventType, data: NotificationTemplateInput) =>
+      this.request<NotificationTemplate>(`/settings/notifications/templates/${eventType}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }),
+    reset: (eventType: NotificationEventType) =>
+      this.request<{ success: boolean }>(`/settings/notifications/templates/${eventType}`, {
+        method: 'DELETE',
+      }),
+    preview: (data: NotificationTemplatePreviewInput) =>
+      this.request<NotificationTemplatePreview>('/settings/notifications/templates/preview', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+  };
+
+  // Email (SMTP) settings
+  emailSettings = {
+    get: () => this.request<EmailSettings>('/settings/notifications/email'),
+    update: (data: UpdateEmailSettingsInput) =>
+      this.request<EmailSettings>('/settings/notifications/email', {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }),
+    test: () =>
+      this.request<{ success: boolean; error?: string }>('/settings/notifications/email/test', {
+        method: 'POST',
+      }),
+    sendDigest: (period: EmailDigestPeriod) =>
+      this.request<{ success: boolean; error?: string }>('/settings/notifications/email/digest', {
+        method: 'POST',
+        body: JSON.stringify({ period }),
+      }),
+  };
+
   // Import
   import = {
     tautulli: {
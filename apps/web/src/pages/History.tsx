@@ -80,6 +80,9 @@ function parseFiltersFromUrl(searchParams: URLSearchParams): HistoryFilters {
   const geoCountry = searchParams.get('country');
   if (geoCountry) filters.geoCountry = geoCountry;
 
+  const asn = Number(searchParams.get('asn'));
+  if (Number.isInteger(asn) && asn > 0) filters.asn = asn;
+
   const search = searchParams.get('search');
   if (search) filters.search = search;
 
@@ -123,6 +126,7 @@ function filtersToUrlParams(filters: HistoryFilters): URLSearchParams {
   if (filters.isTranscode !== undefined) params.set('isTranscode', String(filters.isTranscode));
   if (filters.platform) params.set('platform', filters.platform);
   if (filters.geoCountry) params.set('country', filters.geoCountry);
+  if (filters.asn) params.set('asn', String(filters.asn));
   if (filters.search) params.set('search', filters.search);
   if (filters.startDate) params.set('startDate', filters.startDate.toISOString());
   if (filters.endDate) params.set('endDate', filters.endDate.toISOString());
@@ -31,12 +31,14 @@ export function Map() {
   const filters = useMemo(() => {
     const serverUserId = searchParams.get('serverUserId');
     const mediaType = searchParams.get('mediaType') as 'movie' | 'episode' | 'track' | null;
+    const asn = Number(searchParams.get('asn'));
     const viewMode = (searchParams.get('view') as 'heatmap' | 'circles') || 'heatmap';
 
     return {
       serverUserId: serverUserId || undefined,
       serverId: selectedServerId || undefined,
       mediaType: mediaType || undefined,
+      asn: Number.isInteger(asn) && asn > 0 ? asn : undefined,
       viewMode,
     };
   }, [searchParams, selectedServerId]);
@@ -51,6 +53,7 @@ export function Map() {
     serverUserId: filters.serverUserId,
     serverId: filters.serverId,
     mediaType: filters.mediaType,
+    asn: filters.asn,
   }), [timeRange, filters]);
 
   // Fetch data - includes available filter options based on current filters
@@ -63,10 +66,12 @@ export function Map() {
   // Dynamic filter options from the response
   const users = availableFilters?.users ?? [];
   const mediaTypes = availableFilters?.mediaTypes ?? [];
+  const networks = availableFilters?.networks ?? [];
 
   // Get selected filter labels for display
   const selectedUser = users.find(u => u.id === filters.serverUserId);
   const selectedMediaType = MEDIA_TYPES.find(m => m.value === filters.mediaType);
+  const selectedNetwork = networks.find(n => n.asn === filters.asn);
 
   // Filter MEDIA_TYPES to only show available options
   const availableMediaTypeOptions = MEDIA_TYPES.filter(m => mediaTypes.includes(m.value));
@@ -98,15 +103,16 @@ export function Map() {
   };
 
   // Check if any non-time filters are active
-  const hasFilters = filters.serverUserId || filters.mediaType;
+  const hasFilters = filters.serverUserId || filters.mediaType || filters.asn;
 
   // Build summary text
   const summaryContext = useMemo(() => {
     const parts: string[] = [];
     if (selectedUser) parts.push(selectedUser.identityName ?? selectedUser.username);
     if (selectedMediaType) parts.push(selectedMediaType.label);
+    if (selectedNetwork) parts.push(selectedNetwork.asnOrg ?? `AS${selectedNetwork.asn}`);
     return parts.join(' · ') || 'All activity';
-  }, [selectedUser, selectedMediaType]);
+  }, [selectedUser, selectedMediaType, selectedNetwork]);
 
   return (
     <div className="-m-6 flex h-[calc(100vh-4rem)] flex-col">
@@ -151,6 +157,24 @@ export function Map() {
           </SelectContent>
         </Select>
 
+        {/* Network filter */}
+        <Select
+          value={filters.asn ? String(filters.asn) : '_all'}
+          onValueChange={(v) => setFilter('asn', v === '_all' ? null : v)}
+        >
+          <SelectTrigger className="w-[160px] h-8 text-sm">
+            <SelectValue placeholder="All networks" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="_all">All networks</SelectItem>
+            {networks.map((n) => (
+              <SelectItem key={n.asn} value={String(n.asn)}>
+                {n.asnOrg ?? `AS${n.asn}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         {hasFilters && (
           <Button
             variant="ghost"
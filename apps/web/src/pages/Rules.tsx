@@ -15,6 +15,10 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { IdentityChecklist } from '@/components/users/IdentityChecklist';
+import { UserGroupsDialog } from '@/components/users/UserGroupsDialog';
+import { RuleBacktestPanel } from '@/components/rules/RuleBacktestPanel';
 import {
   Select,
   SelectContent,
@@ -31,15 +35,63 @@ import {
   Zap,
   Users,
   Globe,
+  X,
+  Workflow,
+  FolderPlus,
+  UsersRound,
+  Clock,
+  ShieldAlert,
+  Smartphone,
+  Gauge,
+  Link2,
+  SlidersHorizontal,
 } from 'lucide-react';
-import type { Rule, RuleType, RuleParams, UnitSystem } from '@tracearr/shared';
+import type {
+  Rule,
+  RuleType,
+  RuleParams,
+  RuleAction,
+  RuleActionType,
+  RuleScope,
+  RuleSchedule,
+  RuleScheduleWindow,
+  RuleScheduleSuspension,
+  UserRole,
+  UnitSystem,
+  CompositeParams,
+  CompositeGroup,
+  CompositeNode,
+  CompositeConditionType,
+  KnownLocationMode,
+  AnonymousNetworkCategory,
+  AnonymousNetworkParams,
+  DeviceNoveltyParams,
+  StreamQualityParams,
+  GeoRestrictionParams,
+  TranscodeResolution,
+} from '@tracearr/shared';
 import {
+  ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES,
+  COMPOSITE_RULE_LIMITS,
+  KNOWN_LOCATION_MODE_DISPLAY_NAMES,
+  RULE_ACTION_DISPLAY_NAMES,
+  RULE_ACTION_DEFAULTS,
   getSpeedUnit,
   getDistanceUnit,
   fromMetricDistance,
   toMetricDistance,
 } from '@tracearr/shared';
-import { useRules, useCreateRule, useUpdateRule, useDeleteRule, useToggleRule, useSettings } from '@/hooks/queries';
+import {
+  useRules,
+  useCreateRule,
+  useUpdateRule,
+  useDeleteRule,
+  useToggleRule,
+  useSettings,
+  useServers,
+  useUserGroups,
+  useIdentityOptions,
+} from '@/hooks/queries';
 
 const RULE_TYPES: { value: RuleType; label: string; icon: React.ReactNode; description: string }[] = [
   {
@@ -60,6 +112,12 @@ const RULE_TYPES: { value: RuleType; label: string; icon: React.ReactNode; descr
     icon: <Zap className="h-4 w-4" />,
     description: 'Detect when a user connects from too many IPs in a time window',
   },
+  {
+    value: 'device_novelty',
+    label: 'New Device Detection',
+    icon: <Smartphone className="h-4 w-4" />,
+    description: 'Detect bursts of never-before-seen devices or a first-ever platform',
+  },
   {
     value: 'concurrent_streams',
     label: 'Concurrent Streams',
@@ -72,29 +130,106 @@ const RULE_TYPES: { value: RuleType; label: string; icon: React.ReactNode; descr
     icon: <Globe className="h-4 w-4" />,
     description: 'Block streaming from specific countries',
   },
+  {
+    value: 'anonymous_network',
+    label: 'VPN / Proxy Detection',
+    icon: <ShieldAlert className="h-4 w-4" />,
+    description: 'Detect streams from VPNs, proxies, Tor exits, hosting providers or listed networks',
+  },
+  {
+    value: 'stream_quality',
+    label: 'Transcode / Bandwidth Limits',
+    icon: <Gauge className="h-4 w-4" />,
+    description: 'Limit concurrent transcodes and remote bandwidth, or flag habitual transcoders',
+  },
+  {
+    value: 'composite',
+    label: 'Composite',
+    icon: <Workflow className="h-4 w-4" />,
+    description: 'Combine other rule types with AND/OR conditions',
+  },
 ];
 
+const CONDITION_TYPES = RULE_TYPES.filter(
+  (t): t is (typeof RULE_TYPES)[number] & { value: CompositeConditionType } =>
+    t.value !== 'composite'
+);
+
 const DEFAULT_PARAMS: Record<RuleType, RuleParams> = {
   impossible_travel: { maxSpeedKmh: 500 },
   simultaneous_locations: { minDistanceKm: 100 },
   device_velocity: { maxIps: 5, windowHours: 24 },
+  device_novelty: { maxNewDevices: 2, windowHours: 24, alertOnNewPlatform: true },
   concurrent_streams: { maxStreams: 3 },
   geo_restriction: { mode: 'blocklist', countries: [] },
+  anonymous_network: { categories: ['hosting', 'vpn', 'tor', 'proxy'], asns: [] },
+  stream_quality: {
+    maxConcurrentTranscodes: 1,
+    transcodeResolution: '4K',
+    maxRemoteBitrateMbps: null,
+    maxTranscodePercent: null,
+    minSessions: 5,
+  },
+  composite: {
+    root: {
+      kind: 'group',
+      operator: 'and',
+      conditions: [
+        { kind: 'condition', type: 'concurrent_streams', params: { maxStreams: 2 } },
+        { kind: 'condition', type: 'simultaneous_locations', params: { minDistanceKm: 500 } },
+      ],
+    },
+  },
+};
+
+const RULE_ACTION_TYPES = Object.keys(RULE_ACTION_DISPLAY_NAMES) as RuleActionType[];
+
+const SCOPE_ROLES: UserRole[] = ['owner', 'admin', 'viewer', 'member'];
+
+const EMPTY_SCOPE: RuleScope = {
+  serverIds: [],
+  userIds: [],
+  roles: [],
+  groupIds: [],
+  excludedUserIds: [],
 };
 
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_SCHEDULE_WINDOW: RuleScheduleWindow = {
+  days: [1, 2, 3, 4, 5],
+  startTime: '18:00',
+  endTime: '23:00',
+};
+
+// Sentinel Select value for suspensions that apply to everyone (Radix disallows '')
+const EVERYONE = 'everyone';
+
 interface RuleFormData {
   name: string;
   type: RuleType;
   params: RuleParams;
+  actions: RuleAction[];
+  scope: RuleScope;
+  schedule: RuleSchedule | null;
+  crossServer: boolean;
   isActive: boolean;
 }
 
+// Rule types that only look at the new session, so linked accounts change nothing
+const SINGLE_SESSION_RULE_TYPES: RuleType[] = ['geo_restriction', 'anonymous_network'];
+
 // Separate component for geo restriction to handle local state for comma input
 function GeoRestrictionInput({
   params,
   onChange,
 }: {
-  params: { mode?: 'blocklist' | 'allowlist'; countries?: string[]; blockedCountries?: string[] };
+  params: {
+    mode?: 'blocklist' | 'allowlist';
+    countries?: string[];
+    blockedCountries?: string[];
+    useProfile?: boolean;
+  };
   onChange: (params: RuleParams) => void;
 }) {
   // Handle backwards compatibility
@@ -107,11 +242,11 @@ function GeoRestrictionInput({
       .split(',')
       .map((c) => c.trim().toUpperCase())
       .filter(Boolean);
-    onChange({ mode, countries: parsed });
+    onChange({ ...params, mode, countries: parsed });
   };
 
   const handleModeChange = (newMode: 'blocklist' | 'allowlist') => {
-    onChange({ mode: newMode, countries });
+    onChange({ ...params, mode: newMode, countries });
   };
 
   return (
@@ -156,6 +291,416 @@ function GeoRestrictionInput({
   );
 }
 
+// Separate component for anonymous network to handle local state for comma input
+function AnonymousNetworkInput({
+  params,
+  onChange,
+}: {
+  params: AnonymousNetworkParams;
+  onChange: (params: RuleParams) => void;
+}) {
+  const categories = params.categories ?? [];
+  const asns = params.asns ?? [];
+  const [inputValue, setInputValue] = useState(asns.map((asn) => `AS${asn}`).join(', '));
+
+  const parseAsns = (value: string) =>
+    value
+      .split(',')
+      .map((a) => Number(a.trim().replace(/^AS/i, '')))
+      .filter((a) => Number.isInteger(a) && a > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Network Types</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES) as AnonymousNetworkCategory[]).map(
+            (category) => (
+              <label key={category} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={categories.includes(category)}
+                  onCheckedChange={(checked) => {
+                    onChange({
+                      ...params,
+                      categories: toggleId(categories, category, checked === true),
+                    });
+                  }}
+                />
+                {ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES[category]}
+              </label>
+            )
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Requires the GeoIP2 Anonymous IP database. Without it only listed networks are matched.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="asns">Listed Networks (comma-separated)</Label>
+        <Input
+          id="asns"
+          value={inputValue}
+          onChange={(e) => setInputValue(e.target.value)}
+          onBlur={() => {
+            const parsed = parseAsns(inputValue);
+            onChange({ ...params, asns: parsed });
+            // Normalize the display after blur
+            setInputValue(parsed.map((asn) => `AS${asn}`).join(', '));
+          }}
+          placeholder="AS9009, AS60068, ..."
+        />
+        <p className="text-xs text-muted-foreground">
+          Autonomous system numbers that always trigger, e.g. a VPN provider&apos;s network.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const TRANSCODE_RESOLUTION_LABELS: Record<TranscodeResolution, string> = {
+  any: 'Any resolution',
+  '720p': '720p and above',
+  '1080p': '1080p and above',
+  '4K': '4K only',
+};
+
+// Empty limit inputs turn the limit off
+function parseOptionalLimit(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+function StreamQualityInput({
+  params,
+  onChange,
+}: {
+  params: StreamQualityParams;
+  onChange: (params: RuleParams) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="maxConcurrentTranscodes">Max Concurrent Transcodes</Label>
+          <Input
+            id="maxConcurrentTranscodes"
+            type="number"
+            min={0}
+            value={params.maxConcurrentTranscodes ?? ''}
+            onChange={(e) => {
+              onChange({ ...params, maxConcurrentTranscodes: parseOptionalLimit(e.target.value) });
+            }}
+            placeholder="No limit"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Counted Transcodes</Label>
+          <Select
+            value={params.transcodeResolution}
+            onValueChange={(value) => {
+              onChange({ ...params, transcodeResolution: value as TranscodeResolution });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRANSCODE_RESOLUTION_LABELS) as TranscodeResolution[]).map((res) => (
+                <SelectItem key={res} value={res}>
+                  {TRANSCODE_RESOLUTION_LABELS[res]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="maxRemoteBitrateMbps">Max Remote Bitrate (Mbps)</Label>
+        <Input
+          id="maxRemoteBitrateMbps"
+          type="number"
+          min={1}
+          value={params.maxRemoteBitrateMbps ?? ''}
+          onChange={(e) => {
+            onChange({ ...params, maxRemoteBitrateMbps: parseOptionalLimit(e.target.value) });
+          }}
+          placeholder="No limit"
+        />
+        <p className="text-xs text-muted-foreground">
+          Total bitrate of a user&apos;s streams from outside your local network.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="maxTranscodePercent">Max Transcode Rate (%)</Label>
+          <Input
+            id="maxTranscodePercent"
+            type="number"
+            min={1}
+            max={100}
+            value={params.maxTranscodePercent ?? ''}
+            onChange={(e) => {
+              onChange({ ...params, maxTranscodePercent: parseOptionalLimit(e.target.value) });
+            }}
+            placeholder="No limit"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="minSessions">Min Plays</Label>
+          <Input
+            id="minSessions"
+            type="number"
+            min={1}
+            value={params.minSessions}
+            onChange={(e) => {
+              onChange({ ...params, minSessions: parseInt(e.target.value) || 0 });
+            }}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Flags users whose plays over the last 24 hours transcode at least this often. Leave a limit
+        empty to turn it off.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Summarize a composite condition tree, e.g. "Concurrent Streams AND (Geo Restriction OR Device Velocity)"
+ */
+function describeCompositeGroup(group: CompositeGroup, nested = false): string {
+  const parts = group.conditions.map((node) =>
+    node.kind === 'group'
+      ? describeCompositeGroup(node, true)
+      : (RULE_TYPES.find((t) => t.value === node.type)?.label ?? node.type)
+  );
+  const text = parts.join(group.operator === 'and' ? ' AND ' : ' OR ');
+  return nested && parts.length > 1 ? `(${text})` : text;
+}
+
+// Recursive editor for a composite rule's AND/OR group
+function CompositeGroupEditor({
+  group,
+  path,
+  depth,
+  onChange,
+  onRemove,
+  unitSystem,
+}: {
+  group: CompositeGroup;
+  path: string;
+  depth: number;
+  onChange: (group: CompositeGroup) => void;
+  onRemove?: () => void;
+  unitSystem: UnitSystem;
+}) {
+  const updateNode = (index: number, node: CompositeNode) => {
+    onChange({ ...group, conditions: group.conditions.map((n, i) => (i === index ? node : n)) });
+  };
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    onChange({
+      ...group,
+      conditions: [
+        ...group.conditions,
+        { kind: 'condition', type: 'concurrent_streams', params: DEFAULT_PARAMS.concurrent_streams },
+      ],
+    });
+  };
+
+  const addGroup = () => {
+    onChange({
+      ...group,
+      conditions: [
+        ...group.conditions,
+        {
+          kind: 'group',
+          operator: group.operator === 'and' ? 'or' : 'and',
+          conditions: [
+            { kind: 'condition', type: 'geo_restriction', params: DEFAULT_PARAMS.geo_restriction },
+          ],
+        },
+      ],
+    });
+  };
+
+  return (
+    <div className={depth > 1 ? 'space-y-3 rounded-lg border border-dashed p-3' : 'space-y-3'}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.operator}
+          onValueChange={(value) => { onChange({ ...group, operator: value as CompositeGroup['operator'] }); }}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">Match ALL conditions (AND)</SelectItem>
+            <SelectItem value="or">Match ANY condition (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((node, index) => {
+        const nodePath = `${path}.${index}`;
+        if (node.kind === 'group') {
+          return (
+            <CompositeGroupEditor
+              key={nodePath}
+              group={node}
+              path={nodePath}
+              depth={depth + 1}
+              onChange={(updated) => { updateNode(index, updated); }}
+              onRemove={() => { removeNode(index); }}
+              unitSystem={unitSystem}
+            />
+          );
+        }
+        return (
+          <div key={nodePath} className="space-y-3 rounded-lg border p-3">
+            {index > 0 && (
+              <p className="text-xs font-medium uppercase text-muted-foreground">
+                {group.operator}
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <Select
+                value={node.type}
+                onValueChange={(value) => {
+                  const type = value as CompositeConditionType;
+                  updateNode(index, { kind: 'condition', type, params: DEFAULT_PARAMS[type] });
+                }}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDITION_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      <div className="flex items-center gap-2">
+                        {type.icon}
+                        {type.label}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={group.conditions.length <= 1}
+                onClick={() => { removeNode(index); }}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <RuleParamsForm
+              key={`${nodePath}-${node.type}`}
+              type={node.type}
+              params={node.params}
+              onChange={(params) => { updateNode(index, { ...node, params }); }}
+              unitSystem={unitSystem}
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={addCondition}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add Condition
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addGroup}
+          disabled={depth >= COMPOSITE_RULE_LIMITS.MAX_DEPTH}
+        >
+          <FolderPlus className="mr-1 h-3 w-3" />
+          Add Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * How location rules treat a user's known locations (set on the user's page)
+ */
+function KnownLocationModeField({
+  params,
+  onChange,
+}: {
+  params: RuleParams;
+  onChange: (params: RuleParams) => void;
+}) {
+  const mode = (params as { knownLocationMode?: KnownLocationMode }).knownLocationMode ?? 'off';
+  return (
+    <div className="space-y-2">
+      <Label>Known Locations</Label>
+      <Select
+        value={mode}
+        onValueChange={(value) => { onChange({ ...params, knownLocationMode: value as KnownLocationMode }); }}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(KNOWN_LOCATION_MODE_DISPLAY_NAMES) as KnownLocationMode[]).map((value) => (
+            <SelectItem key={value} value={value}>
+              {KNOWN_LOCATION_MODE_DISPLAY_NAMES[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Known locations are managed per user and can be learned from history.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Read the rule's limit from each user's policy profile (managed on the Users page)
+ */
+function PolicyProfileField({
+  params,
+  onChange,
+  description,
+}: {
+  params: RuleParams;
+  onChange: (params: RuleParams) => void;
+  description: string;
+}) {
+  const useProfile = (params as { useProfile?: boolean }).useProfile ?? false;
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <Label htmlFor="useProfile">Use Policy Profile Limits</Label>
+        <p className="text-xs text-muted-foreground">
+          {description} Users without a profile use the limit above.
+        </p>
+      </div>
+      <Switch
+        id="useProfile"
+        checked={useProfile}
+        onCheckedChange={(checked) => { onChange({ ...params, useProfile: checked }); }}
+      />
+    </div>
+  );
+}
+
 function RuleParamsForm({
   type,
   params,
@@ -176,22 +721,37 @@ function RuleParamsForm({
       const displayValue = Math.round(fromMetricDistance((params as { maxSpeedKmh: number }).maxSpeedKmh, unitSystem));
       const defaultDisplay = Math.round(fromMetricDistance(500, unitSystem));
       return (
-        <div className="space-y-2">
-          <Label htmlFor="maxSpeedKmh">Max Speed ({speedUnit})</Label>
-          <Input
-            id="maxSpeedKmh"
-            type="number"
-            value={displayValue}
-            onChange={(e) => {
-              // Convert display value back to metric for storage
-              const inputValue = parseInt(e.target.value) || 0;
-              const metricValue = Math.round(toMetricDistance(inputValue, unitSystem));
-              onChange({ ...params, maxSpeedKmh: metricValue });
-            }}
-          />
-          <p className="text-xs text-muted-foreground">
-            Maximum realistic travel speed. Default: {defaultDisplay} {speedUnit} (airplane speed)
-          </p>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="maxSpeedKmh">Max Speed ({speedUnit})</Label>
+            <Input
+              id="maxSpeedKmh"
+              type="number"
+              value={displayValue}
+              onChange={(e) => {
+                // Convert display value back to metric for storage
+                const inputValue = parseInt(e.target.value) || 0;
+                const metricValue = Math.round(toMetricDistance(inputValue, unitSystem));
+                onChange({ ...params, maxSpeedKmh: metricValue });
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              Maximum realistic travel speed. Default: {defaultDisplay} {speedUnit} (airplane speed)
+            </p>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="ignoreVpnRanges">Ignore VPN / Proxy Sessions</Label>
+              <p className="text-xs text-muted-foreground">
+                Skip sessions from anonymizing networks, which geolocate to the provider
+              </p>
+            </div>
+            <Switch
+              id="ignoreVpnRanges"
+              checked={(params as { ignoreVpnRanges?: boolean }).ignoreVpnRanges ?? false}
+              onCheckedChange={(checked) => { onChange({ ...params, ignoreVpnRanges: checked }); }}
+            />
+          </div>
         </div>
       );
     }
@@ -200,22 +760,25 @@ function RuleParamsForm({
       const displayValue = Math.round(fromMetricDistance((params as { minDistanceKm: number }).minDistanceKm, unitSystem));
       const defaultDisplay = Math.round(fromMetricDistance(100, unitSystem));
       return (
-        <div className="space-y-2">
-          <Label htmlFor="minDistanceKm">Min Distance ({distanceUnit})</Label>
-          <Input
-            id="minDistanceKm"
-            type="number"
-            value={displayValue}
-            onChange={(e) => {
-              // Convert display value back to metric for storage
-              const inputValue = parseInt(e.target.value) || 0;
-              const metricValue = Math.round(toMetricDistance(inputValue, unitSystem));
-              onChange({ ...params, minDistanceKm: metricValue });
-            }}
-          />
-          <p className="text-xs text-muted-foreground">
-            Minimum distance between locations to trigger. Default: {defaultDisplay} {distanceUnit}
-          </p>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="minDistanceKm">Min Distance ({distanceUnit})</Label>
+            <Input
+              id="minDistanceKm"
+              type="number"
+              value={displayValue}
+              onChange={(e) => {
+                // Convert display value back to metric for storage
+                const inputValue = parseInt(e.target.value) || 0;
+                const metricValue = Math.round(toMetricDistance(inputValue, unitSystem));
+                onChange({ ...params, minDistanceKm: metricValue });
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              Minimum distance between locations to trigger. Default: {defaultDisplay} {distanceUnit}
+            </p>
+          </div>
+          <KnownLocationModeField params={params} onChange={onChange} />
         </div>
       );
     }
@@ -247,37 +810,637 @@ function RuleParamsForm({
           <p className="text-xs text-muted-foreground">
             Maximum unique IPs allowed within the time window. Default: 5 IPs in 24 hours
           </p>
+          <KnownLocationModeField params={params} onChange={onChange} />
         </div>
       );
-    case 'concurrent_streams':
+    case 'device_novelty': {
+      const p = params as DeviceNoveltyParams;
       return (
-        <div className="space-y-2">
-          <Label htmlFor="maxStreams">Max Streams</Label>
-          <Input
-            id="maxStreams"
-            type="number"
-            value={(params as { maxStreams: number }).maxStreams}
-            onChange={(e) =>
-              { onChange({ ...params, maxStreams: parseInt(e.target.value) || 0 }); }
-            }
-          />
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="maxNewDevices">Max New Devices</Label>
+            <Input
+              id="maxNewDevices"
+              type="number"
+              min={0}
+              value={p.maxNewDevices}
+              onChange={(e) =>
+                { onChange({ ...p, maxNewDevices: parseInt(e.target.value) || 0 }); }
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="noveltyWindowHours">Time Window (hours)</Label>
+            <Input
+              id="noveltyWindowHours"
+              type="number"
+              value={p.windowHours}
+              onChange={(e) =>
+                { onChange({ ...p, windowHours: parseInt(e.target.value) || 0 }); }
+              }
+            />
+          </div>
           <p className="text-xs text-muted-foreground">
-            Maximum simultaneous streams per user. Default: 3
+            Never-before-seen devices allowed within the time window. Default: 2 devices in 24 hours
           </p>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="alertOnNewPlatform">Alert on New Platform</Label>
+              <p className="text-xs text-muted-foreground">
+                Also fire when a device uses a platform the user has never used
+              </p>
+            </div>
+            <Switch
+              id="alertOnNewPlatform"
+              checked={p.alertOnNewPlatform}
+              onCheckedChange={(checked) => { onChange({ ...p, alertOnNewPlatform: checked }); }}
+            />
+          </div>
+        </div>
+      );
+    }
+    case 'concurrent_streams':
+      return (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="maxStreams">Max Streams</Label>
+            <Input
+              id="maxStreams"
+              type="number"
+              value={(params as { maxStreams: number }).maxStreams}
+              onChange={(e) =>
+                { onChange({ ...params, maxStreams: parseInt(e.target.value) || 0 }); }
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              Maximum simultaneous streams per user. Default: 3
+            </p>
+          </div>
+          <PolicyProfileField
+            params={params}
+            onChange={onChange}
+            description="Use the max streams of each user's profile."
+          />
         </div>
       );
     case 'geo_restriction':
       return (
-        <GeoRestrictionInput
-          params={params as { mode?: 'blocklist' | 'allowlist'; countries?: string[]; blockedCountries?: string[] }}
-          onChange={onChange}
-        />
+        <div className="space-y-4">
+          <GeoRestrictionInput
+            params={params as GeoRestrictionParams}
+            onChange={onChange}
+          />
+          <PolicyProfileField
+            params={params}
+            onChange={onChange}
+            description="Only allow the countries of each user's profile."
+          />
+        </div>
+      );
+    case 'anonymous_network':
+      return (
+        <AnonymousNetworkInput params={params as AnonymousNetworkParams} onChange={onChange} />
+      );
+    case 'stream_quality':
+      return (
+        <div className="space-y-4">
+          <StreamQualityInput params={params as StreamQualityParams} onChange={onChange} />
+          <PolicyProfileField
+            params={params}
+            onChange={onChange}
+            description="Use the max transcodes of each user's profile."
+          />
+        </div>
+      );
+    case 'composite': {
+      const root = (params as CompositeParams).root;
+      return (
+        <div className="space-y-2">
+          <Label>Conditions</Label>
+          <CompositeGroupEditor
+            group={root}
+            path="root"
+            depth={1}
+            onChange={(group) => { onChange({ root: group }); }}
+            unitSystem={unitSystem}
+          />
+          <p className="text-xs text-muted-foreground">
+            The rule fires when the condition tree matches. Severity is the highest severity among
+            matched conditions.
+          </p>
+        </div>
       );
+    }
     default:
       return null;
   }
 }
 
+function RuleActionsForm({
+  actions,
+  onChange,
+}: {
+  actions: RuleAction[];
+  onChange: (actions: RuleAction[]) => void;
+}) {
+  const updateAction = (index: number, update: Partial<RuleAction>) => {
+    onChange(actions.map((action, i) => (i === index ? { ...action, ...update } : action)));
+  };
+
+  const addAction = () => {
+    onChange([
+      ...actions,
+      { type: 'log_only', cooldownMinutes: RULE_ACTION_DEFAULTS.COOLDOWN_MINUTES },
+    ]);
+  };
+
+  const removeAction = (index: number) => {
+    onChange(actions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Actions</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addAction}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add Action
+        </Button>
+      </div>
+      {actions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No actions. Violations will be recorded without touching the stream.
+        </p>
+      ) : (
+        actions.map((action, index) => (
+          <div key={index} className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              <Select
+                value={action.type}
+                onValueChange={(value) => { updateAction(index, { type: value as RuleActionType }); }}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_ACTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {RULE_ACTION_DISPLAY_NAMES[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => { removeAction(index); }}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {(action.type === 'disable_user' || action.type === 'remove_share') && (
+              <p className="text-xs text-muted-foreground">
+                {action.type === 'disable_user'
+                  ? 'Disables the Jellyfin or Emby account. Skipped on Plex servers.'
+                  : 'Stops sharing the Plex server with the user. Skipped on Jellyfin and Emby.'}
+                {' '}Undo it from the user's page.
+              </p>
+            )}
+            {(action.type === 'terminate_stream' || action.type === 'terminate_newest') && (
+              <div className="space-y-2">
+                <Label htmlFor={`action-message-${index}`}>Message to User</Label>
+                <Input
+                  id={`action-message-${index}`}
+                  value={action.message ?? ''}
+                  maxLength={500}
+                  onChange={(e) => { updateAction(index, { message: e.target.value || undefined }); }}
+                  placeholder={RULE_ACTION_DEFAULTS.MESSAGE}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Shown on the player for Plex. Jellyfin and Emby stop the stream without a message.
+                </p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`action-cooldown-${index}`}>Cooldown (minutes)</Label>
+              <Input
+                id={`action-cooldown-${index}`}
+                type="number"
+                min={0}
+                value={action.cooldownMinutes}
+                onChange={(e) =>
+                  { updateAction(index, { cooldownMinutes: parseInt(e.target.value) || 0 }); }
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Minimum time before this action runs again for the same user. 0 disables the cooldown.
+              </p>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Toggle an ID in a list, used by the scope checkboxes
+ */
+function toggleId<T extends string>(list: T[], id: T, checked: boolean): T[] {
+  return checked ? [...list, id] : list.filter((item) => item !== id);
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Summarize a rule scope for the rule card, or null when the rule applies to everyone
+ */
+function describeRuleScope(
+  scope: RuleScope,
+  serverNames: Map<string, string>,
+  groupNames: Map<string, string>
+): string | null {
+  const parts: string[] = [];
+  if (scope.serverIds.length > 0) {
+    parts.push(`Servers: ${scope.serverIds.map((id) => serverNames.get(id) ?? 'Unknown').join(', ')}`);
+  }
+  const targets: string[] = [];
+  if (scope.roles.length > 0) targets.push(scope.roles.join(', '));
+  if (scope.groupIds.length > 0) {
+    targets.push(scope.groupIds.map((id) => groupNames.get(id) ?? 'Unknown group').join(', '));
+  }
+  if (scope.userIds.length > 0) targets.push(pluralize(scope.userIds.length, 'user'));
+  if (targets.length > 0) parts.push(`Applies to: ${targets.join(' or ')}`);
+  if (scope.probationOnly) parts.push('Users on probation');
+  if (scope.excludedUserIds.length > 0) {
+    parts.push(`Excludes ${pluralize(scope.excludedUserIds.length, 'user')}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Summarize a rule schedule for the rule card, or null when the rule is always active
+ */
+function describeRuleSchedule(schedule: RuleSchedule | null): string | null {
+  if (!schedule) return null;
+  const parts: string[] = [];
+  if (schedule.windows.length > 0) {
+    const windows = schedule.windows.map(
+      (w) =>
+        `${w.days.map((d) => WEEKDAY_LABELS[d]).join('/')} ${w.startTime}-${w.endTime}`
+    );
+    parts.push(`Active ${windows.join(', ')} (${schedule.timezone})`);
+  }
+  if (schedule.suspensions.length > 0) {
+    parts.push(pluralize(schedule.suspensions.length, 'suspension'));
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+function RuleScheduleForm({
+  schedule,
+  onChange,
+}: {
+  schedule: RuleSchedule | null;
+  onChange: (schedule: RuleSchedule | null) => void;
+}) {
+  const { identities } = useIdentityOptions();
+
+  const enableSchedule = (enabled: boolean) => {
+    onChange(
+      enabled
+        ? {
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            windows: [DEFAULT_SCHEDULE_WINDOW],
+            suspensions: [],
+          }
+        : null
+    );
+  };
+
+  if (!schedule) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border p-3">
+        <div>
+          <Label htmlFor="scheduleEnabled">Schedule</Label>
+          <p className="text-xs text-muted-foreground">
+            Always active. Enable to limit the rule to certain hours or suspend it for vacations.
+          </p>
+        </div>
+        <Switch id="scheduleEnabled" checked={false} onCheckedChange={enableSchedule} />
+      </div>
+    );
+  }
+
+  const updateWindow = (index: number, update: Partial<RuleScheduleWindow>) => {
+    onChange({
+      ...schedule,
+      windows: schedule.windows.map((w, i) => (i === index ? { ...w, ...update } : w)),
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const window = schedule.windows[index];
+    if (!window) return;
+    const days = window.days.includes(day)
+      ? window.days.filter((d) => d !== day)
+      : [...window.days, day].sort();
+    // A window needs at least one day
+    if (days.length > 0) updateWindow(index, { days });
+  };
+
+  const updateSuspension = (index: number, update: Partial<RuleScheduleSuspension>) => {
+    onChange({
+      ...schedule,
+      suspensions: schedule.suspensions.map((s, i) => (i === index ? { ...s, ...update } : s)),
+    });
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="scheduleEnabled">Schedule</Label>
+          <p className="text-xs text-muted-foreground">
+            Checked against the session start time. Without time windows the rule is active all
+            day; suspensions always win.
+          </p>
+        </div>
+        <Switch id="scheduleEnabled" checked onCheckedChange={enableSchedule} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="scheduleTimezone" className="text-xs">Timezone</Label>
+        <Input
+          id="scheduleTimezone"
+          value={schedule.timezone}
+          onChange={(e) => { onChange({ ...schedule, timezone: e.target.value }); }}
+          placeholder="e.g., America/New_York"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Time Windows</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              { onChange({ ...schedule, windows: [...schedule.windows, DEFAULT_SCHEDULE_WINDOW] }); }
+            }
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add Window
+          </Button>
+        </div>
+        {schedule.windows.map((window, index) => (
+          <div key={index} className="space-y-2 rounded-md border p-2">
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={window.days.includes(day) ? 'default' : 'outline'}
+                  onClick={() => { toggleDay(index, day); }}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={window.startTime}
+                onChange={(e) => { updateWindow(index, { startTime: e.target.value }); }}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={window.endTime}
+                onChange={(e) => { updateWindow(index, { endTime: e.target.value }); }}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  { onChange({ ...schedule, windows: schedule.windows.filter((_, i) => i !== index) }); }
+                }
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Suspensions</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              onChange({
+                ...schedule,
+                suspensions: [
+                  ...schedule.suspensions,
+                  { userId: null, startDate: today, endDate: today },
+                ],
+              });
+            }}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add Suspension
+          </Button>
+        </div>
+        {schedule.suspensions.map((suspension, index) => (
+          <div key={index} className="space-y-2 rounded-md border p-2">
+            <div className="flex items-center gap-2">
+              <Select
+                value={suspension.userId ?? EVERYONE}
+                onValueChange={(value) =>
+                  { updateSuspension(index, { userId: value === EVERYONE ? null : value }); }
+                }
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                  {identities.map((identity) => (
+                    <SelectItem key={identity.userId} value={identity.userId}>
+                      {identity.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  onChange({
+                    ...schedule,
+                    suspensions: schedule.suspensions.filter((_, i) => i !== index),
+                  });
+                }}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={suspension.startDate}
+                onChange={(e) => { updateSuspension(index, { startDate: e.target.value }); }}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="date"
+                value={suspension.endDate}
+                onChange={(e) => { updateSuspension(index, { endDate: e.target.value }); }}
+              />
+            </div>
+            <Input
+              value={suspension.reason ?? ''}
+              maxLength={200}
+              onChange={(e) => { updateSuspension(index, { reason: e.target.value || undefined }); }}
+              placeholder="Reason (optional), e.g., Vacation"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RuleScopeForm({
+  scope,
+  onChange,
+}: {
+  scope: RuleScope;
+  onChange: (scope: RuleScope) => void;
+}) {
+  const { data: servers } = useServers();
+  const { data: groups } = useUserGroups();
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <div>
+        <Label>Scope</Label>
+        <p className="text-xs text-muted-foreground">
+          Leave everything empty to apply the rule to all users on all servers. Users, roles and
+          groups are combined with OR; excluded users are never evaluated.
+        </p>
+      </div>
+
+      {servers && servers.length > 1 && (
+        <div className="space-y-2">
+          <Label className="text-xs">Servers</Label>
+          <div className="flex flex-wrap gap-4">
+            {servers.map((server) => (
+              <div key={server.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-server-${server.id}`}
+                  checked={scope.serverIds.includes(server.id)}
+                  onCheckedChange={(checked) =>
+                    { onChange({ ...scope, serverIds: toggleId(scope.serverIds, server.id, checked === true) }); }
+                  }
+                />
+                <label htmlFor={`scope-server-${server.id}`} className="text-sm">
+                  {server.name}
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-xs">Roles</Label>
+        <div className="flex flex-wrap gap-4">
+          {SCOPE_ROLES.map((role) => (
+            <div key={role} className="flex items-center gap-2">
+              <Checkbox
+                id={`scope-role-${role}`}
+                checked={scope.roles.includes(role)}
+                onCheckedChange={(checked) =>
+                  { onChange({ ...scope, roles: toggleId(scope.roles, role, checked === true) }); }
+                }
+              />
+              <label htmlFor={`scope-role-${role}`} className="text-sm capitalize">
+                {role}
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {groups && groups.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs">Groups</Label>
+          <div className="flex flex-wrap gap-4">
+            {groups.map((group) => (
+              <div key={group.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-group-${group.id}`}
+                  checked={scope.groupIds.includes(group.id)}
+                  onCheckedChange={(checked) =>
+                    { onChange({ ...scope, groupIds: toggleId(scope.groupIds, group.id, checked === true) }); }
+                  }
+                />
+                <label htmlFor={`scope-group-${group.id}`} className="text-sm">
+                  {group.name}
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-xs">Users</Label>
+        <IdentityChecklist
+          idPrefix="scope-user"
+          selected={scope.userIds}
+          onChange={(userIds) => { onChange({ ...scope, userIds }); }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Excluded Users</Label>
+        <IdentityChecklist
+          idPrefix="scope-excluded"
+          selected={scope.excludedUserIds}
+          onChange={(excludedUserIds) => { onChange({ ...scope, excludedUserIds }); }}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="scope-probation-only"
+          checked={scope.probationOnly ?? false}
+          onCheckedChange={(checked) =>
+            { onChange({ ...scope, probationOnly: checked === true ? true : undefined }); }
+          }
+        />
+        <label htmlFor="scope-probation-only" className="text-sm">
+          Only users on probation
+        </label>
+      </div>
+    </div>
+  );
+}
+
 function RuleDialog({
   rule,
   onSave,
@@ -296,6 +1459,10 @@ function RuleDialog({
     name: rule?.name ?? '',
     type: rule?.type ?? 'concurrent_streams',
     params: rule?.params ?? DEFAULT_PARAMS['concurrent_streams'],
+    actions: rule?.actions ?? [],
+    scope: rule?.scope ?? EMPTY_SCOPE,
+    schedule: rule?.schedule ?? null,
+    crossServer: rule?.crossServer ?? false,
     isActive: rule?.isActive ?? true,
   });
 
@@ -358,6 +1525,45 @@ function RuleDialog({
         unitSystem={unitSystem}
       />
 
+      {!SINGLE_SESSION_RULE_TYPES.includes(formData.type) && (
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="crossServer">Evaluate across linked accounts</Label>
+            <p className="text-xs text-muted-foreground">
+              Also count sessions from the user&apos;s accounts on other servers
+            </p>
+          </div>
+          <Switch
+            id="crossServer"
+            checked={formData.crossServer}
+            onCheckedChange={(checked) => { setFormData({ ...formData, crossServer: checked }); }}
+          />
+        </div>
+      )}
+
+      {rule && (
+        <RuleBacktestPanel
+          ruleId={rule.id}
+          params={formData.params}
+          crossServer={formData.crossServer}
+        />
+      )}
+
+      <RuleActionsForm
+        actions={formData.actions}
+        onChange={(actions) => { setFormData({ ...formData, actions }); }}
+      />
+
+      <RuleScopeForm
+        scope={formData.scope}
+        onChange={(scope) => { setFormData({ ...formData, scope }); }}
+      />
+
+      <RuleScheduleForm
+        schedule={formData.schedule}
+        onChange={(schedule) => { setFormData({ ...formData, schedule }); }}
+      />
+
       <div className="flex items-center justify-between">
         <Label htmlFor="isActive">Active</Label>
         <Switch
@@ -385,14 +1591,17 @@ function RuleCard({
   onDelete,
   onToggle,
   unitSystem,
+  scopeSummary,
 }: {
   rule: Rule;
   onEdit: () => void;
   onDelete: () => void;
   onToggle: () => void;
   unitSystem: UnitSystem;
+  scopeSummary: string | null;
 }) {
   const ruleType = RULE_TYPES.find((t) => t.value === rule.type);
+  const scheduleSummary = describeRuleSchedule(rule.schedule);
   const speedUnit = getSpeedUnit(unitSystem);
   const distanceUnit = getDistanceUnit(unitSystem);
 
@@ -427,6 +1636,34 @@ function RuleCard({
                     {(rule.params as { maxIps: number; windowHours: number }).windowHours} hours
                   </span>
                 )}
+                {rule.type === 'device_novelty' && (() => {
+                  const p = rule.params as DeviceNoveltyParams;
+                  return (
+                    <span>
+                      Max {pluralize(p.maxNewDevices, 'new device')} in {p.windowHours} hours
+                      {p.alertOnNewPlatform && ' · new platforms'}
+                    </span>
+                  );
+                })()}
+                {rule.type === 'stream_quality' && (() => {
+                  const p = rule.params as StreamQualityParams;
+                  const limits: string[] = [];
+                  if (p.maxConcurrentTranscodes !== null) {
+                    const transcodes = pluralize(p.maxConcurrentTranscodes, 'transcode');
+                    limits.push(
+                      p.transcodeResolution === 'any'
+                        ? `Max ${transcodes}`
+                        : `Max ${transcodes} (${p.transcodeResolution})`
+                    );
+                  }
+                  if (p.maxRemoteBitrateMbps !== null) {
+                    limits.push(`${p.maxRemoteBitrateMbps} Mbps remote`);
+                  }
+                  if (p.maxTranscodePercent !== null) {
+                    limits.push(`${p.maxTranscodePercent}% transcoded`);
+                  }
+                  return <span>{limits.join(' · ')}</span>;
+                })()}
                 {rule.type === 'concurrent_streams' && (
                   <span>Max streams: {(rule.params as { maxStreams: number }).maxStreams}</span>
                 )}
@@ -441,7 +1678,45 @@ function RuleCard({
                     </span>
                   );
                 })()}
+                {rule.type === 'anonymous_network' && (() => {
+                  const p = rule.params as AnonymousNetworkParams;
+                  const labels: string[] = (p.categories ?? []).map(
+                    (c) => ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES[c]
+                  );
+                  const asnCount = (p.asns ?? []).length;
+                  if (asnCount > 0) labels.push(pluralize(asnCount, 'listed network'));
+                  return <span>Detects: {labels.join(', ') || 'None'}</span>;
+                })()}
+                {rule.type === 'composite' && (
+                  <span>{describeCompositeGroup((rule.params as CompositeParams).root)}</span>
+                )}
               </div>
+              {rule.actions.length > 0 && (
+                <div className="mt-1 text-xs text-muted-foreground">
+                  Actions: {rule.actions.map((a) => RULE_ACTION_DISPLAY_NAMES[a.type]).join(', ')}
+                </div>
+              )}
+              {scopeSummary && (
+                <div className="mt-1 text-xs text-muted-foreground">{scopeSummary}</div>
+              )}
+              {rule.crossServer && (
+                <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                  <Link2 className="h-3 w-3" />
+                  Across linked accounts
+                </div>
+              )}
+              {(rule.params as { useProfile?: boolean }).useProfile && (
+                <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                  <SlidersHorizontal className="h-3 w-3" />
+                  Limits from policy profiles
+                </div>
+              )}
+              {scheduleSummary && (
+                <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  {scheduleSummary}
+                </div>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -466,12 +1741,17 @@ export function Rules() {
   const updateRule = useUpdateRule();
   const deleteRule = useDeleteRule();
   const toggleRule = useToggleRule();
+  const { data: servers } = useServers();
+  const { data: groups } = useUserGroups();
 
   const unitSystem = settings?.unitSystem ?? 'metric';
+  const serverNames = new Map((servers ?? []).map((server) => [server.id, server.name]));
+  const groupNames = new Map((groups ?? []).map((group) => [group.id, group.name]));
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<Rule | undefined>();
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [isGroupsDialogOpen, setIsGroupsDialogOpen] = useState(false);
 
   const handleCreate = (data: RuleFormData) => {
     createRule.mutate(
@@ -479,6 +1759,10 @@ export function Rules() {
         name: data.name,
         type: data.type,
         params: data.params,
+        actions: data.actions,
+        scope: data.scope,
+        schedule: data.schedule,
+        crossServer: data.crossServer,
         isActive: data.isActive,
         serverUserId: null,
       },
@@ -499,6 +1783,10 @@ export function Rules() {
         data: {
           name: data.name,
           params: data.params,
+          actions: data.actions,
+          scope: data.scope,
+          schedule: data.schedule,
+          crossServer: data.crossServer,
           isActive: data.isActive,
         },
       },
@@ -540,31 +1828,37 @@ export function Rules() {
             Configure detection rules for account sharing and policy violations
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openCreateDialog}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Rule
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>{editingRule ? 'Edit Rule' : 'Create Rule'}</DialogTitle>
-              <DialogDescription>
-                {editingRule
-                  ? 'Update the rule configuration below.'
-                  : 'Configure a new detection rule for your media servers.'}
-              </DialogDescription>
-            </DialogHeader>
-            <RuleDialog
-              rule={editingRule}
-              onSave={editingRule ? handleUpdate : handleCreate}
-              onClose={() => { setIsDialogOpen(false); }}
-              isLoading={createRule.isPending || updateRule.isPending}
-              unitSystem={unitSystem}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => { setIsGroupsDialogOpen(true); }}>
+            <UsersRound className="mr-2 h-4 w-4" />
+            Groups
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={openCreateDialog}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>{editingRule ? 'Edit Rule' : 'Create Rule'}</DialogTitle>
+                <DialogDescription>
+                  {editingRule
+                    ? 'Update the rule configuration below.'
+                    : 'Configure a new detection rule for your media servers.'}
+                </DialogDescription>
+              </DialogHeader>
+              <RuleDialog
+                rule={editingRule}
+                onSave={editingRule ? handleUpdate : handleCreate}
+                onClose={() => { setIsDialogOpen(false); }}
+                isLoading={createRule.isPending || updateRule.isPending}
+                unitSystem={unitSystem}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {isLoading ? (
@@ -609,6 +1903,7 @@ export function Rules() {
               onDelete={() => { setDeleteConfirmId(rule.id); }}
               onToggle={() => { handleToggle(rule); }}
               unitSystem={unitSystem}
+              scopeSummary={describeRuleScope(rule.scope, serverNames, groupNames)}
             />
           ))}
         </div>
@@ -623,6 +1918,8 @@ export function Rules() {
         onConfirm={() => deleteConfirmId && handleDelete(deleteConfirmId)}
         isLoading={deleteRule.isPending}
       />
+
+      <UserGroupsDialog open={isGroupsDialogOpen} onOpenChange={setIsGroupsDialogOpen} />
     </div>
   );
 }
@@ -53,7 +53,13 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 import { PlexServerSelector } from '@/components/auth/PlexServerSelector';
 import { NotificationRoutingMatrix } from '@/components/settings/NotificationRoutingMatrix';
+import { NotificationDestinationSettings } from '@/components/settings/NotificationDestinationSettings';
+import { NotificationTemplateSettings } from '@/components/settings/NotificationTemplateSettings';
+import { EmailSettings } from '@/components/settings/EmailSettings';
 import { AppearanceSettings } from '@/components/settings/AppearanceSettings';
+import { TrustScoreSettings } from '@/components/settings/TrustScoreSettings';
+import { PermissionSettings } from '@/components/settings/PermissionSettings';
+import { AuditLogSettings } from '@/components/settings/AuditLogSettings';
 import type { Server, Settings as SettingsType, TautulliImportProgress, MobileSession, MobileQRPayload } from '@tracearr/shared';
 import {
   useSettings,
@@ -76,6 +82,9 @@ function SettingsNav() {
     { href: '/settings/servers', label: 'Servers' },
     { href: '/settings/notifications', label: 'Notifications' },
     { href: '/settings/access', label: 'Access Control' },
+    { href: '/settings/permissions', label: 'Permissions' },
+    { href: '/settings/audit', label: 'Audit Log' },
+    { href: '/settings/trust', label: 'Trust Score' },
     { href: '/settings/mobile', label: 'Mobile' },
     { href: '/settings/network', label: 'Network' },
     { href: '/settings/import', label: 'Import' },
@@ -119,6 +128,10 @@ function GeneralSettings() {
     updateSettings.mutate({ unitSystem: value });
   };
 
+  const handleProbationDaysChange = (days: number) => {
+    updateSettings.mutate({ probationDays: Math.max(0, Math.min(365, days)) });
+  };
+
   if (isLoading) {
     return (
       <Card>
@@ -196,6 +209,26 @@ function GeneralSettings() {
           </div>
         </div>
 
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-base">New User Probation</Label>
+            <p className="text-sm text-muted-foreground">
+              Days rules scoped to probation apply to newly discovered users (0 to disable)
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              max={365}
+              className="w-20"
+              defaultValue={settings?.probationDays ?? 14}
+              onBlur={(e) => { handleProbationDaysChange(parseInt(e.target.value, 10) || 0); }}
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+          </div>
+        </div>
+
         <div className="rounded-lg bg-muted/50 p-4 space-y-2">
           <p className="text-sm text-muted-foreground">
             <strong>Plex:</strong> Uses real-time updates via SSE. Polling is only used as a
@@ -668,99 +701,6 @@ function ServerCard({
 }
 
 function NotificationSettings() {
-  const { data: settings, isLoading } = useSettings();
-  const updateSettings = useUpdateSettings();
-  const [webhookFormat, setWebhookFormat] = useState<string>('json');
-  const [ntfyTopic, setNtfyTopic] = useState<string>('');
-  const [ntfyAuthToken, setNtfyAuthToken] = useState<string>('');
-  const [testingDiscord, setTestingDiscord] = useState(false);
-  const [testingCustom, setTestingCustom] = useState(false);
-
-  // Sync state with loaded settings
-  useEffect(() => {
-    if (settings) {
-      setWebhookFormat(settings.webhookFormat ?? 'json');
-      setNtfyTopic(settings.ntfyTopic ?? '');
-      // Don't overwrite if already set (masked token from server shows as ********)
-      if (!ntfyAuthToken) {
-        setNtfyAuthToken('');
-      }
-    }
-  }, [settings, ntfyAuthToken]);
-
-  const handleUrlChange = (key: 'discordWebhookUrl' | 'customWebhookUrl' | 'ntfyTopic', value: string) => {
-    updateSettings.mutate({ [key]: value || null });
-  };
-
-  const handleNtfyAuthTokenSave = () => {
-    // Only save if the user entered a new token (not empty and not the masked placeholder)
-    if (ntfyAuthToken && ntfyAuthToken !== '********') {
-      updateSettings.mutate({ ntfyAuthToken: ntfyAuthToken || null });
-    }
-  };
-
-  const handleClearNtfyAuthToken = () => {
-    setNtfyAuthToken('');
-    updateSettings.mutate({ ntfyAuthToken: null });
-  };
-
-  const handleWebhookFormatChange = (value: string) => {
-    setWebhookFormat(value);
-    updateSettings.mutate({ webhookFormat: value as 'json' | 'ntfy' | 'apprise' });
-  };
-
-  const handleTestDiscord = async () => {
-    setTestingDiscord(true);
-    try {
-      await api.settings.testWebhook({ type: 'discord' });
-      toast.success('Test Sent', { description: 'Check your Discord channel for the test message.' });
-    } catch (err) {
-      toast.error('Test Failed', {
-        description: err instanceof Error ? err.message : 'Failed to send test webhook',
-      });
-    } finally {
-      setTestingDiscord(false);
-    }
-  };
-
-  const handleTestCustom = async () => {
-    setTestingCustom(true);
-    try {
-      await api.settings.testWebhook({
-        type: 'custom',
-        format: webhookFormat as 'json' | 'ntfy' | 'apprise',
-        ntfyTopic: ntfyTopic || undefined,
-        // Pass auth token if user entered a new one (not empty and not the placeholder)
-        ntfyAuthToken: ntfyAuthToken && ntfyAuthToken !== '********' ? ntfyAuthToken : undefined,
-      });
-      toast.success('Test Sent', { description: 'Check your webhook endpoint for the test message.' });
-    } catch (err) {
-      toast.error('Test Failed', {
-        description: err instanceof Error ? err.message : 'Failed to send test webhook',
-      });
-    } finally {
-      setTestingCustom(false);
-    }
-  };
-
-  if (isLoading) {
-    return (
-      <Card>
-        <CardHeader>
-          <Skeleton className="h-6 w-32" />
-        </CardHeader>
-        <CardContent className="space-y-6">
-          {[...Array(4)].map((_, i) => (
-            <div key={i} className="flex items-center justify-between">
-              <Skeleton className="h-10 w-64" />
-              <Skeleton className="h-6 w-11" />
-            </div>
-          ))}
-        </CardContent>
-      </Card>
-    );
-  }
-
   return (
     <div className="space-y-6">
       <Card>
@@ -774,145 +714,15 @@ function NotificationSettings() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <NotificationRoutingMatrix
-            discordConfigured={!!settings?.discordWebhookUrl}
-            webhookConfigured={!!settings?.customWebhookUrl}
-          />
+          <NotificationRoutingMatrix />
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Webhook Configuration</CardTitle>
-          <CardDescription>
-            Configure webhook URLs for notifications
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="discordWebhook">Discord Webhook URL</Label>
-            <div className="flex gap-2">
-              <Input
-                id="discordWebhook"
-                placeholder="https://discord.com/api/webhooks/..."
-                defaultValue={settings?.discordWebhookUrl ?? ''}
-                onBlur={(e) => { handleUrlChange('discordWebhookUrl', e.target.value); }}
-              />
-              <Button
-                variant="outline"
-                onClick={handleTestDiscord}
-                disabled={!settings?.discordWebhookUrl || testingDiscord}
-              >
-                {testingDiscord ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  'Test'
-                )}
-              </Button>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              Paste your Discord webhook URL to receive notifications in a Discord channel
-            </p>
-          </div>
+      <NotificationDestinationSettings />
 
-          <div className="space-y-2">
-            <Label htmlFor="customWebhook">Custom Webhook URL</Label>
-            <div className="flex gap-2">
-              <Input
-                id="customWebhook"
-                placeholder={
-                  webhookFormat === 'ntfy'
-                    ? 'https://ntfy.sh/ (or your self-hosted ntfy server)'
-                    : webhookFormat === 'apprise'
-                      ? 'http://apprise:8000/notify/myconfig'
-                      : 'https://your-service.com/webhook'
-                }
-                defaultValue={settings?.customWebhookUrl ?? ''}
-                onBlur={(e) => { handleUrlChange('customWebhookUrl', e.target.value); }}
-              />
-              <Button
-                variant="outline"
-                onClick={handleTestCustom}
-                disabled={!settings?.customWebhookUrl || testingCustom}
-              >
-                {testingCustom ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  'Test'
-                )}
-              </Button>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              {webhookFormat === 'ntfy'
-                ? 'Post to your ntfy server root URL (topic is specified separately below)'
-                : webhookFormat === 'apprise'
-                  ? 'Post to your Apprise API endpoint with notification configuration'
-                  : 'Send notifications to a custom endpoint via POST request'}
-            </p>
-          </div>
+      <EmailSettings />
 
-          <div className="space-y-2">
-            <Label htmlFor="webhookFormat">Webhook Format</Label>
-            <Select value={webhookFormat} onValueChange={handleWebhookFormatChange}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select format" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="json">Raw JSON (default)</SelectItem>
-                <SelectItem value="ntfy">Ntfy</SelectItem>
-                <SelectItem value="apprise">Apprise</SelectItem>
-              </SelectContent>
-            </Select>
-            <p className="text-xs text-muted-foreground">
-              Choose the payload format for your webhook endpoint
-            </p>
-          </div>
-
-          {webhookFormat === 'ntfy' && (
-            <>
-              <div className="space-y-2">
-                <Label htmlFor="ntfyTopic">Ntfy Topic</Label>
-                <Input
-                  id="ntfyTopic"
-                  placeholder="tracearr"
-                  value={ntfyTopic}
-                  onChange={(e) => setNtfyTopic(e.target.value)}
-                  onBlur={(e) => { handleUrlChange('ntfyTopic', e.target.value); }}
-                />
-                <p className="text-xs text-muted-foreground">
-                  The ntfy topic to publish notifications to
-                </p>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="ntfyAuthToken">Auth Token (optional)</Label>
-                <div className="flex gap-2">
-                  <Input
-                    id="ntfyAuthToken"
-                    type="password"
-                    placeholder={settings?.ntfyAuthToken ? '••••••••' : 'tk_...'}
-                    value={ntfyAuthToken}
-                    onChange={(e) => setNtfyAuthToken(e.target.value)}
-                    onBlur={handleNtfyAuthTokenSave}
-                  />
-                  {settings?.ntfyAuthToken && (
-                    <Button
-                      variant="outline"
-                      onClick={handleClearNtfyAuthToken}
-                      title="Clear auth token"
-                    >
-                      Clear
-                    </Button>
-                  )}
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  Required for protected ntfy servers. Enter your access token (starts with tk_).
-                </p>
-              </div>
-            </>
-          )}
-        </CardContent>
-      </Card>
+      <NotificationTemplateSettings />
     </div>
   );
 }
@@ -2014,6 +1824,9 @@ export function Settings() {
         <Route path="network" element={<NetworkSettings />} />
         <Route path="notifications" element={<NotificationSettings />} />
         <Route path="access" element={<AccessSettings />} />
+        <Route path="permissions" element={<PermissionSettings />} />
+        <Route path="audit" element={<AuditLogSettings />} />
+        <Route path="trust" element={<TrustScoreSettings />} />
         <Route path="mobile" element={<MobileSettings />} />
         <Route path="import" element={<ImportSettings />} />
       </Routes>
@@ -5,6 +5,10 @@ import { DataTable } from '@/components/ui/data-table';
 import { TrustScoreBadge } from '@/components/users/TrustScoreBadge';
 import { UserLocationsCard } from '@/components/users/UserLocationsCard';
 import { UserDevicesCard } from '@/components/users/UserDevicesCard';
+import { KnownLocationsCard } from '@/components/users/KnownLocationsCard';
+import { LinkedAccountsCard } from '@/components/users/LinkedAccountsCard';
+import { TrustScoreHistoryCard } from '@/components/users/TrustScoreHistoryCard';
+import { AccountAccessCard } from '@/components/users/AccountAccessCard';
 import { EditUserNameDialog } from '@/components/users/EditUserNameDialog';
 import { SeverityBadge } from '@/components/violations/SeverityBadge';
 import { ActiveSessionBadge } from '@/components/sessions/ActiveSessionBadge';
@@ -29,6 +33,12 @@ import { formatDistanceToNow, format } from 'date-fns';
 import type { ColumnDef } from '@tanstack/react-table';
 import type { Session, ViolationSummary, ViolationWithDetails, TerminationLogWithDetails } from '@tracearr/shared';
 import {
+  RULE_ACTION_DISPLAY_NAMES,
+  SERVER_USER_SOURCE_DISPLAY_NAMES,
+  hasPermission,
+} from '@tracearr/shared';
+import {
+  useEndProbation,
   useUserFull,
   useUserSessions,
   useViolations,
@@ -217,7 +227,12 @@ const terminationColumns: ColumnDef<TerminationLogWithDetails>[] = [
         );
       }
       return (
-        <span className="text-sm text-muted-foreground">{log.ruleName ?? 'Unknown rule'}</span>
+        <div>
+          <span className="text-sm text-muted-foreground">{log.ruleName ?? 'Unknown rule'}</span>
+          {log.action && (
+            <p className="text-xs text-muted-foreground">{RULE_ACTION_DISPLAY_NAMES[log.action]}</p>
+          )}
+        </div>
       );
     },
   },
@@ -256,6 +271,7 @@ export function UserDetail() {
 
   // Use the aggregate endpoint for initial load (1 request instead of 6)
   const { data: fullData, isLoading } = useUserFull(id!);
+  const endProbation = useEndProbation();
 
   // Only fetch paginated data when user navigates beyond first page
   const { data: paginatedSessions, isLoading: paginatedSessionsLoading } = useUserSessions(
@@ -362,6 +378,9 @@ export function UserDetail() {
     );
   }
 
+  const canManageAccount = !!authUser && hasPermission(authUser, 'manage_accounts', user.serverId);
+  const onProbation = user.probationUntil !== null && new Date(user.probationUntil) > new Date();
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -422,6 +441,23 @@ export function UserDetail() {
                 <div className="flex items-center gap-4 pt-2">
                   <TrustScoreBadge score={user.trustScore} showLabel />
                 </div>
+                {onProbation && user.probationUntil && (
+                  <div className="flex items-center gap-2 pt-2">
+                    <Badge variant="outline">
+                      On probation until {format(new Date(user.probationUntil), 'MMM d, yyyy')}
+                    </Badge>
+                    {canManageAccount && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => { endProbation.mutate(user.id); }}
+                        disabled={endProbation.isPending}
+                      >
+                        End Probation
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </CardContent>
@@ -454,7 +490,10 @@ export function UserDetail() {
                   <span className="text-sm text-muted-foreground">Joined</span>
                 </div>
                 <p className="mt-1 text-sm font-medium">
-                  {format(new Date(user.createdAt), 'MMM d, yyyy')}
+                  {format(new Date(user.joinedAt), 'MMM d, yyyy')}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {SERVER_USER_SOURCE_DISPLAY_NAMES[user.source]}
                 </p>
               </div>
               <div className="rounded-lg border p-4">
@@ -485,6 +524,20 @@ export function UserDetail() {
         />
       </div>
 
+      {/* How and why the trust score changed */}
+      <TrustScoreHistoryCard serverUserId={id!} />
+
+      {/* Disable, unshare or restrict the account on its media server */}
+      {canManageAccount && (
+        <AccountAccessCard serverUserId={id!} />
+      )}
+
+      {/* Other server accounts of the same identity */}
+      <LinkedAccountsCard serverUserId={id!} userId={user.userId} isOwner={isOwner} />
+
+      {/* Known Locations */}
+      <KnownLocationsCard serverUserId={id!} isOwner={isOwner} />
+
       {/* Recent Sessions */}
       <Card>
         <CardHeader>
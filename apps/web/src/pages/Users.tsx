@@ -1,17 +1,33 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router';
 import { Card, CardContent } from '@/components/ui/card';
 import { DataTable } from '@/components/ui/data-table';
 import { Input } from '@/components/ui/input';
 import { TrustScoreBadge } from '@/components/users/TrustScoreBadge';
-import { getAvatarUrl } from '@/components/users/utils';
+import { describePolicyProfile, getAvatarUrl } from '@/components/users/utils';
+import { IdentityMergeDialog } from '@/components/users/IdentityMergeDialog';
+import { PolicyProfilesDialog } from '@/components/users/PolicyProfilesDialog';
+import { NewUsersCard } from '@/components/users/NewUsersCard';
+import { InactiveUsersCard } from '@/components/users/InactiveUsersCard';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Skeleton } from '@/components/ui/skeleton';
-import { User as UserIcon, Crown, Clock, Search } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { User as UserIcon, Crown, Clock, Search, Merge, SlidersHorizontal } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import type { ColumnDef } from '@tanstack/react-table';
 import type { ServerUserWithIdentity } from '@tracearr/shared';
-import { useUsers } from '@/hooks/queries';
+import { SERVER_USER_SOURCE_DISPLAY_NAMES } from '@tracearr/shared';
+import { useAssignPolicyProfile, usePolicyProfiles, useUsers } from '@/hooks/queries';
 import { useServer } from '@/hooks/useServer';
+import { useAuth } from '@/hooks/useAuth';
 
 const userColumns: ColumnDef<ServerUserWithIdentity>[] = [
   {
@@ -41,6 +57,22 @@ const userColumns: ColumnDef<ServerUserWithIdentity>[] = [
                   <Crown className="h-4 w-4 text-yellow-500" />
                 </span>
               )}
+              {user.suspendedUntil && (
+                <Badge
+                  variant="destructive"
+                  title={`Until ${format(new Date(user.suspendedUntil), 'PPp')}`}
+                >
+                  Suspended
+                </Badge>
+              )}
+              {user.probationUntil && new Date(user.probationUntil) > new Date() && (
+                <Badge
+                  variant="outline"
+                  title={`Until ${format(new Date(user.probationUntil), 'PPp')}`}
+                >
+                  Probation
+                </Badge>
+              )}
             </div>
             <p className="text-xs text-muted-foreground">@{user.username}</p>
           </div>
@@ -56,30 +88,110 @@ const userColumns: ColumnDef<ServerUserWithIdentity>[] = [
     ),
   },
   {
-    accessorKey: 'createdAt',
+    accessorKey: 'joinedAt',
     header: 'Joined',
     cell: ({ row }) => (
-      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <div
+        className="flex items-center gap-2 text-sm text-muted-foreground"
+        title={SERVER_USER_SOURCE_DISPLAY_NAMES[row.original.source]}
+      >
         <Clock className="h-4 w-4" />
-        {formatDistanceToNow(new Date(row.original.createdAt), { addSuffix: true })}
+        {formatDistanceToNow(new Date(row.original.joinedAt), { addSuffix: true })}
       </div>
     ),
   },
 ];
 
+// Select value for clearing the selected users' profile
+const NO_PROFILE = 'none';
+
 export function Users() {
   const navigate = useNavigate();
   const [searchFilter, setSearchFilter] = useState('');
   const [page, setPage] = useState(1);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [isProfilesOpen, setIsProfilesOpen] = useState(false);
+  // Identities (users.id) picked for bulk profile assignment
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [assignProfileId, setAssignProfileId] = useState(NO_PROFILE);
   const pageSize = 100;
   const { selectedServerId } = useServer();
+  const { user: authUser } = useAuth();
+  const isOwner = authUser?.role === 'owner';
 
   const { data, isLoading } = useUsers({ page, pageSize, serverId: selectedServerId ?? undefined });
+  const { data: profiles } = usePolicyProfiles();
+  const assignProfile = useAssignPolicyProfile();
 
-  const users = data?.data ?? [];
+  const users = useMemo(() => data?.data ?? [], [data]);
   const total = data?.total ?? 0;
   const totalPages = data?.totalPages ?? 1;
 
+  const columns = useMemo<ColumnDef<ServerUserWithIdentity>[]>(() => {
+    const profilesById = new Map((profiles ?? []).map((p) => [p.id, p]));
+    const pageUserIds = [...new Set(users.map((u) => u.userId))];
+    const allSelected =
+      pageUserIds.length > 0 && pageUserIds.every((id) => selectedUserIds.includes(id));
+
+    const toggleUser = (userId: string, checked: boolean) => {
+      setSelectedUserIds((ids) =>
+        checked ? [...ids, userId] : ids.filter((id) => id !== userId)
+      );
+    };
+
+    const selectColumn: ColumnDef<ServerUserWithIdentity> = {
+      id: 'select',
+      enableSorting: false,
+      header: () => (
+        <Checkbox
+          checked={allSelected}
+          onCheckedChange={(checked) => {
+            setSelectedUserIds(checked === true ? pageUserIds : []);
+          }}
+          aria-label="Select all users"
+        />
+      ),
+      cell: ({ row }) => (
+        <div onClick={(e) => { e.stopPropagation(); }}>
+          <Checkbox
+            checked={selectedUserIds.includes(row.original.userId)}
+            onCheckedChange={(checked) => { toggleUser(row.original.userId, checked === true); }}
+            aria-label={`Select ${row.original.username}`}
+          />
+        </div>
+      ),
+    };
+
+    const profileColumn: ColumnDef<ServerUserWithIdentity> = {
+      id: 'policyProfile',
+      header: 'Profile',
+      cell: ({ row }) => {
+        const profile = row.original.policyProfileId
+          ? profilesById.get(row.original.policyProfileId)
+          : undefined;
+        return profile ? (
+          <Badge variant="outline" title={describePolicyProfile(profile)}>
+            {profile.name}
+          </Badge>
+        ) : (
+          <span className="text-sm text-muted-foreground">None</span>
+        );
+      },
+    };
+
+    return [...(isOwner ? [selectColumn] : []), ...userColumns, profileColumn];
+  }, [isOwner, profiles, users, selectedUserIds]);
+
+  const handleAssign = () => {
+    assignProfile.mutate(
+      {
+        profileId: assignProfileId === NO_PROFILE ? null : assignProfileId,
+        userIds: selectedUserIds,
+      },
+      { onSuccess: () => { setSelectedUserIds([]); } }
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -97,9 +209,52 @@ export function Users() {
           <p className="text-sm text-muted-foreground">
             {total} user{total !== 1 ? 's' : ''}
           </p>
+          {isOwner && (
+            <Button variant="outline" onClick={() => { setIsProfilesOpen(true); }}>
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              Policy Profiles
+            </Button>
+          )}
+          {isOwner && (
+            <Button variant="outline" onClick={() => { setIsMergeOpen(true); }}>
+              <Merge className="mr-2 h-4 w-4" />
+              Merge Identities
+            </Button>
+          )}
         </div>
       </div>
 
+      {isOwner && selectedUserIds.length > 0 && (
+        <div className="flex items-center gap-4 rounded-lg border bg-muted/50 px-4 py-3">
+          <p className="text-sm font-medium">
+            {selectedUserIds.length} {selectedUserIds.length === 1 ? 'user' : 'users'} selected
+          </p>
+          <Select value={assignProfileId} onValueChange={setAssignProfileId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROFILE}>No profile</SelectItem>
+              {profiles?.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAssign} disabled={assignProfile.isPending}>
+            {assignProfile.isPending ? 'Assigning...' : 'Assign Profile'}
+          </Button>
+          <Button variant="ghost" onClick={() => { setSelectedUserIds([]); }}>
+            Clear Selection
+          </Button>
+        </div>
+      )}
+
+      <NewUsersCard serverId={selectedServerId ?? undefined} />
+
+      <InactiveUsersCard serverId={selectedServerId ?? undefined} />
+
       <Card>
         <CardContent className="pt-6">
           {isLoading ? (
@@ -116,7 +271,7 @@ export function Users() {
             </div>
           ) : (
             <DataTable
-              columns={userColumns}
+              columns={columns}
               data={users}
               pageSize={pageSize}
               pageCount={totalPages}
@@ -130,6 +285,9 @@ export function Users() {
           )}
         </CardContent>
       </Card>
+
+      <IdentityMergeDialog open={isMergeOpen} onOpenChange={setIsMergeOpen} />
+      <PolicyProfilesDialog open={isProfilesOpen} onOpenChange={setIsProfilesOpen} />
     </div>
   );
 }
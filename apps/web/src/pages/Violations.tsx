@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DataTable } from '@/components/ui/data-table';
 import { Button } from '@/components/ui/button';
 import { SeverityBadge } from '@/components/violations/SeverityBadge';
+import { ViolationStatusBadge } from '@/components/violations/ViolationStatusBadge';
 import { ViolationDetailDialog } from '@/components/violations/ViolationDetailDialog';
 import { getAvatarUrl } from '@/components/users/utils';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -33,10 +34,15 @@ import {
   Zap,
   Shield,
   Globe,
+  Workflow,
+  ShieldAlert,
+  Smartphone,
+  Gauge,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import type { ColumnDef } from '@tanstack/react-table';
-import type { ViolationWithDetails, ViolationSeverity } from '@tracearr/shared';
+import type { ViolationWithDetails, ViolationSeverity, ViolationStatus } from '@tracearr/shared';
+import { VIOLATION_STATUS_DISPLAY_NAMES } from '@tracearr/shared';
 import { useViolations, useAcknowledgeViolation, useDismissViolation } from '@/hooks/queries';
 import { useServer } from '@/hooks/useServer';
 
@@ -44,14 +50,19 @@ const ruleIcons: Record<string, React.ReactNode> = {
   impossible_travel: <MapPin className="h-4 w-4" />,
   simultaneous_locations: <Users className="h-4 w-4" />,
   device_velocity: <Zap className="h-4 w-4" />,
+  device_novelty: <Smartphone className="h-4 w-4" />,
   concurrent_streams: <Shield className="h-4 w-4" />,
   geo_restriction: <Globe className="h-4 w-4" />,
+  anonymous_network: <ShieldAlert className="h-4 w-4" />,
+  stream_quality: <Gauge className="h-4 w-4" />,
+  composite: <Workflow className="h-4 w-4" />,
 };
 
 export function Violations() {
   const [page, setPage] = useState(1);
   const [severityFilter, setSeverityFilter] = useState<ViolationSeverity | 'all'>('all');
   const [acknowledgedFilter, setAcknowledgedFilter] = useState<'all' | 'pending' | 'acknowledged'>('all');
+  const [statusFilter, setStatusFilter] = useState<ViolationStatus | 'all'>('all');
   const [dismissId, setDismissId] = useState<string | null>(null);
   const [selectedViolation, setSelectedViolation] = useState<ViolationWithDetails | null>(null);
   const pageSize = 10;
@@ -63,6 +74,7 @@ export function Violations() {
     severity: severityFilter === 'all' ? undefined : severityFilter,
     acknowledged:
       acknowledgedFilter === 'all' ? undefined : acknowledgedFilter === 'acknowledged',
+    status: statusFilter === 'all' ? undefined : statusFilter,
     serverId: selectedServerId ?? undefined,
   });
   const acknowledgeViolation = useAcknowledgeViolation();
@@ -72,6 +84,11 @@ export function Violations() {
   const totalPages = violationsData?.totalPages ?? 1;
   const total = violationsData?.total ?? 0;
 
+  // Keep the open dialog in sync with the list after a review is saved
+  const activeViolation = selectedViolation
+    ? (violations.find((v) => v.id === selectedViolation.id) ?? selectedViolation)
+    : null;
+
   const handleAcknowledge = (id: string) => {
     acknowledgeViolation.mutate(id);
   };
@@ -154,6 +171,11 @@ export function Violations() {
     },
     {
       accessorKey: 'status',
+      header: 'Review',
+      cell: ({ row }) => <ViolationStatusBadge status={row.original.status} />,
+    },
+    {
+      accessorKey: 'acknowledgedAt',
       header: 'Status',
       cell: ({ row }) => (
         <span
@@ -266,6 +288,30 @@ export function Violations() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Review</label>
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => {
+                  setStatusFilter(value as ViolationStatus | 'all');
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Reviews</SelectItem>
+                  {(Object.keys(VIOLATION_STATUS_DISPLAY_NAMES) as ViolationStatus[]).map(
+                    (status) => (
+                      <SelectItem key={status} value={status}>
+                        {VIOLATION_STATUS_DISPLAY_NAMES[status]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -294,7 +340,9 @@ export function Violations() {
               <div className="text-center">
                 <h3 className="font-semibold">No violations found</h3>
                 <p className="text-sm text-muted-foreground">
-                  {severityFilter !== 'all' || acknowledgedFilter !== 'all'
+                  {severityFilter !== 'all' ||
+                  acknowledgedFilter !== 'all' ||
+                  statusFilter !== 'all'
                     ? 'Try adjusting your filters.'
                     : 'No violations have been recorded yet.'}
                 </p>
@@ -317,8 +365,8 @@ export function Violations() {
 
       {/* Violation Detail Dialog */}
       <ViolationDetailDialog
-        violation={selectedViolation}
-        open={!!selectedViolation}
+        violation={activeViolation}
+        open={!!activeViolation}
         onOpenChange={(open) => {
           if (!open) {
             setSelectedViolation(null);
@@ -1,5 +1,11 @@
-import type { ViolationWithDetails, UnitSystem } from '@tracearr/shared';
-import { formatSpeed, formatDistance } from '@tracearr/shared';
+import type { ViolationWithDetails, UnitSystem, CompositeMatchedCondition } from '@tracearr/shared';
+import {
+  formatSpeed,
+  formatDistance,
+  RULE_DISPLAY_NAMES,
+  ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES,
+} from '@tracearr/shared';
+import type { AnonymousNetworkCategory } from '@tracearr/shared';
 
 /**
  * Format violation data into readable description based on rule type
@@ -40,6 +46,17 @@ export function getViolationDescription(violation: ViolationWithDetails, unitSys
       }
       return 'Too many unique devices in short period';
     }
+    case 'device_novelty': {
+      const newDeviceCount = data.newDeviceCount as number | undefined;
+      const windowHours = data.windowHours as number | undefined;
+      if (data.burst && newDeviceCount && windowHours) {
+        return `${newDeviceCount} new devices in ${windowHours}h window`;
+      }
+      if (data.newPlatform && data.platform) {
+        return `First-ever stream from a ${String(data.platform)} device`;
+      }
+      return 'New device detected';
+    }
     case 'concurrent_streams': {
       const streamCount = data.streamCount as number | undefined;
       const maxStreams = data.maxStreams as number | undefined;
@@ -56,6 +73,36 @@ export function getViolationDescription(violation: ViolationWithDetails, unitSys
       }
       return 'Streaming from restricted location';
     }
+    case 'anonymous_network': {
+      const categories = data.categories as AnonymousNetworkCategory[] | undefined;
+      const network = data.asnOrg || (data.asn ? `AS${data.asn}` : null);
+      const kind = categories && categories.length > 0
+        ? categories.map((c) => ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES[c]).join(' / ')
+        : 'listed network';
+      return network ? `Streaming via ${kind}: ${network}` : `Streaming via ${kind}`;
+    }
+    case 'stream_quality': {
+      if (typeof data.transcodeCount === 'number') {
+        const limit = String(data.maxConcurrentTranscodes);
+        return `${data.transcodeCount} concurrent transcodes (limit: ${limit})`;
+      }
+      if (typeof data.remoteBitrateMbps === 'number') {
+        const limit = String(data.maxRemoteBitrateMbps);
+        return `${data.remoteBitrateMbps} Mbps remote bandwidth (limit: ${limit} Mbps)`;
+      }
+      if (typeof data.transcodePercent === 'number') {
+        return `Transcoded ${data.transcodePercent}% of ${String(data.playCount)} recent plays`;
+      }
+      return 'Exceeded transcode or bandwidth limit';
+    }
+    case 'composite': {
+      const matched = data.matchedConditions as CompositeMatchedCondition[] | undefined;
+      if (matched && matched.length > 0) {
+        const joiner = data.operator === 'or' ? ' OR ' : ' AND ';
+        return `Matched ${matched.map((c) => RULE_DISPLAY_NAMES[c.type]).join(joiner)}`;
+      }
+      return 'Composite rule conditions matched';
+    }
     default:
       return 'Rule violation detected';
   }
@@ -142,6 +189,23 @@ export function getViolationDetails(violation: ViolationWithDetails, unitSystem:
       }
       break;
     }
+    case 'device_novelty': {
+      const newDevices = data.newDevices as
+        | { deviceId: string; platform: string | null }[]
+        | undefined;
+      if (data.platform) details['Platform'] = data.platform;
+      if (typeof data.newDeviceCount === 'number') details['New Devices'] = data.newDeviceCount;
+      if (typeof data.windowHours === 'number') details['Time Window'] = `${data.windowHours} hours`;
+      if (newDevices && newDevices.length > 0) {
+        details['Devices'] = newDevices.map((d) =>
+          d.platform ? `${d.deviceId} (${d.platform})` : d.deviceId
+        );
+      }
+      if (Array.isArray(data.knownPlatforms) && data.newPlatform) {
+        details['Known Platforms'] = data.knownPlatforms;
+      }
+      break;
+    }
     case 'concurrent_streams': {
       if (typeof data.streamCount === 'number') details['Current Streams'] = data.streamCount;
       if (typeof data.maxStreams === 'number') details['Max Streams'] = data.maxStreams;
@@ -153,6 +217,49 @@ export function getViolationDetails(violation: ViolationWithDetails, unitSystem:
       if (data.ipAddress) details['IP Address'] = data.ipAddress;
       break;
     }
+    case 'anonymous_network': {
+      const categories = data.categories as AnonymousNetworkCategory[] | undefined;
+      if (data.ipAddress) details['IP Address'] = data.ipAddress;
+      if (data.asn) details['Network'] = `AS${data.asn}`;
+      if (data.asnOrg) details['Organization'] = data.asnOrg;
+      if (categories && categories.length > 0) {
+        details['Detected As'] = categories.map((c) => ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES[c]);
+      }
+      if (data.listedAsn) details['Listed Network'] = 'Yes';
+      break;
+    }
+    case 'stream_quality': {
+      if (data.quality) details['Quality'] = data.quality;
+      if (typeof data.bitrate === 'number') details['Bitrate'] = `${data.bitrate / 1000} Mbps`;
+      if (typeof data.transcodeCount === 'number') {
+        details['Concurrent Transcodes'] = data.transcodeCount;
+        details['Max Transcodes'] = data.maxConcurrentTranscodes;
+      }
+      if (typeof data.remoteBitrateMbps === 'number') {
+        details['Remote Bandwidth'] = `${data.remoteBitrateMbps} Mbps`;
+        details['Max Remote Bandwidth'] = `${String(data.maxRemoteBitrateMbps)} Mbps`;
+      }
+      if (typeof data.transcodePercent === 'number') {
+        details['Transcode Rate'] = `${data.transcodePercent}% of ${String(data.playCount)} plays`;
+        details['Max Transcode Rate'] = `${String(data.maxTranscodePercent)}%`;
+      }
+      break;
+    }
+    case 'composite': {
+      const matched = data.matchedConditions as CompositeMatchedCondition[] | undefined;
+      if (data.operator) details['Operator'] = String(data.operator).toUpperCase();
+      if (matched && matched.length > 0) {
+        details['Matched Conditions'] = matched.map(
+          (c) => `${RULE_DISPLAY_NAMES[c.type]} (branch ${c.path})`
+        );
+      }
+      break;
+    }
+  }
+
+  // Cross-server rules list every linked server account the violation involves
+  if (Array.isArray(data.serverUserIds) && data.serverUserIds.length > 1) {
+    details['Linked Accounts'] = `${data.serverUserIds.length} accounts across servers`;
   }
 
   return details;
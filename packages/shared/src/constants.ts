@@ -2,6 +2,16 @@
  * Shared constants for Tracearr
  */
 
+import type {
+  AccountActionType,
+  NotificationEventType,
+  ServerType,
+  ServerUserSource,
+  TrustLevel,
+  TrustModel,
+  WebhookFormat,
+} from './types.js';
+
 // Rule type definitions with default parameters
 export const RULE_DEFAULTS = {
   impossible_travel: {
@@ -10,10 +20,17 @@ export const RULE_DEFAULTS = {
   },
   simultaneous_locations: {
     minDistanceKm: 100,
+    knownLocationMode: 'off',
   },
   device_velocity: {
     maxIps: 5,
     windowHours: 24,
+    knownLocationMode: 'off',
+  },
+  device_novelty: {
+    maxNewDevices: 2,
+    windowHours: 24,
+    alertOnNewPlatform: true,
   },
   concurrent_streams: {
     maxStreams: 3,
@@ -22,6 +39,24 @@ export const RULE_DEFAULTS = {
     mode: 'blocklist',
     countries: [],
   },
+  anonymous_network: {
+    categories: ['hosting', 'vpn', 'tor', 'proxy'],
+    asns: [],
+  },
+  stream_quality: {
+    maxConcurrentTranscodes: 1,
+    transcodeResolution: '4K',
+    maxRemoteBitrateMbps: null,
+    maxTranscodePercent: null,
+    minSessions: 5,
+  },
+  composite: {
+    root: {
+      kind: 'group',
+      operator: 'and',
+      conditions: [],
+    },
+  },
 } as const;
 
 // Rule type display names
@@ -29,8 +64,245 @@ export const RULE_DISPLAY_NAMES = {
   impossible_travel: 'Impossible Travel',
   simultaneous_locations: 'Simultaneous Locations',
   device_velocity: 'Device Velocity',
+  device_novelty: 'New Device Detection',
   concurrent_streams: 'Concurrent Streams',
   geo_restriction: 'Geo Restriction',
+  anonymous_network: 'VPN / Proxy Detection',
+  stream_quality: 'Transcode / Bandwidth Limits',
+  composite: 'Composite',
+} as const;
+
+// Anonymous network category display names
+export const ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES = {
+  hosting: 'Hosting / Datacenter',
+  vpn: 'VPN',
+  tor: 'Tor Exit Node',
+  proxy: 'Public Proxy',
+} as const;
+
+// Composite rule limits (keeps condition trees evaluable on every new session)
+export const COMPOSITE_RULE_LIMITS = {
+  MAX_DEPTH: 4, // Nesting depth of groups, root group = 1
+  MAX_CONDITIONS: 20, // Total leaf conditions across the tree
+} as const;
+
+// Rule backtest limits (replaying history runs the rule engine once per session)
+export const RULE_BACKTEST_LIMITS = {
+  DEFAULT_DAYS: 7,
+  MAX_DAYS: 90,
+  MAX_SESSIONS: 20000, // Most recent sessions replayed; older ones are skipped
+  MAX_VIOLATIONS: 500, // Hypothetical violations listed; counts still cover all of them
+} as const;
+
+// Rule action display names
+export const RULE_ACTION_DISPLAY_NAMES = {
+  terminate_stream: 'Terminate Offending Stream',
+  terminate_newest: 'Terminate Newest Stream',
+  log_only: 'Log Only',
+  disable_user: 'Disable Account (Jellyfin/Emby)',
+  remove_share: 'Remove Share (Plex)',
+} as const;
+
+// Server account action display names
+export const ACCOUNT_ACTION_DISPLAY_NAMES = {
+  disable_user: 'Disable account',
+  remove_share: 'Remove share',
+  restrict_libraries: 'Restrict libraries',
+} as const;
+
+// Account actions each media server supports
+export const ACCOUNT_ACTIONS_BY_SERVER_TYPE: Record<ServerType, readonly AccountActionType[]> = {
+  plex: ['remove_share', 'restrict_libraries'],
+  jellyfin: ['disable_user', 'restrict_libraries'],
+  emby: ['disable_user', 'restrict_libraries'],
+};
+
+// Action used to suspend an account on each media server (Plex shares can't be disabled)
+export const SUSPENSION_ACTION_BY_SERVER_TYPE: Record<ServerType, AccountActionType> = {
+  plex: 'remove_share',
+  jellyfin: 'disable_user',
+  emby: 'disable_user',
+};
+
+// Suspension length limits
+export const SUSPENSION_LIMITS = {
+  MIN_HOURS: 1,
+  MAX_HOURS: 24 * 365,
+} as const;
+
+// How a server account joined
+export const SERVER_USER_SOURCE_DISPLAY_NAMES: Record<ServerUserSource, string> = {
+  owner: 'Server owner',
+  plex_share: 'Plex share',
+  plex_home: 'Plex Home',
+  local_account: 'Local account',
+  session: 'First stream',
+  unknown: 'Unknown',
+};
+
+// Probation for newly discovered server accounts
+export const PROBATION_DEFAULTS = {
+  DAYS: 14,
+  MAX_DAYS: 365,
+  NEW_USERS_DAYS: 30, // Window of the new users feed
+} as const;
+
+// Inactive users report
+export const INACTIVE_USER_DEFAULTS = {
+  DAYS: 90,
+  MAX_DAYS: 3650,
+  MAX_RESULTS: 500,
+  MAX_BULK_ACTION: 100, // Accounts per bulk action
+} as const;
+
+export const INACTIVE_USER_REASON_DISPLAY_NAMES = {
+  never_played: 'Never played',
+  inactive: 'Inactive',
+} as const;
+
+export const INACTIVE_USER_ACTION_DISPLAY_NAMES = {
+  remove_access: 'Remove access',
+  mark_for_review: 'Mark for review',
+  clear_review: 'Clear review',
+} as const;
+
+// Rule action defaults
+export const RULE_ACTION_DEFAULTS = {
+  MESSAGE: 'This stream was stopped because it violated the server sharing policy.',
+  COOLDOWN_MINUTES: 5,
+} as const;
+
+// Violation review status display names
+export const VIOLATION_STATUS_DISPLAY_NAMES = {
+  open: 'Open',
+  investigating: 'Investigating',
+  confirmed_sharing: 'Confirmed Sharing',
+  false_positive: 'False Positive',
+  resolved: 'Resolved',
+} as const;
+
+// Default trust model - matches the original fixed 20/10/5 penalties with no recovery or decay
+export const DEFAULT_TRUST_MODEL = {
+  penalties: { low: 5, warning: 10, high: 20 },
+  rulePenalties: {},
+  floor: 0,
+  ceiling: 100,
+  recovery: { enabled: false, cleanDays: 14, pointsPerDay: 1 },
+  decay: { enabled: false, afterDays: 90 },
+} as const satisfies TrustModel;
+
+export const TRUST_SCORE_CONFIG = {
+  // How often recovery and decay are applied
+  MAINTENANCE_INTERVAL_MS: 24 * 60 * 60 * 1000,
+  // Trust score history returned for charts
+  HISTORY_DAYS: 180,
+  HISTORY_LIMIT: 500,
+} as const;
+
+// Lowest score of each trust level; a violation that moves a score across one
+// sends trust_score_changed
+export const TRUST_LEVEL_THRESHOLDS = {
+  trusted: 80,
+  caution: 50,
+} as const;
+
+export const TRUST_LEVEL_DISPLAY_NAMES: Record<TrustLevel, string> = {
+  trusted: 'Trusted',
+  caution: 'Caution',
+  untrusted: 'Untrusted',
+};
+
+export function getTrustLevel(score: number): TrustLevel {
+  if (score >= TRUST_LEVEL_THRESHOLDS.trusted) return 'trusted';
+  if (score >= TRUST_LEVEL_THRESHOLDS.caution) return 'caution';
+  return 'untrusted';
+}
+
+export const TRUST_SCORE_EVENT_REASON_DISPLAY_NAMES = {
+  violation: 'Violation',
+  violation_restored: 'Penalty restored',
+  violation_recharged: 'Penalty charged again',
+  decay: 'Violation expired',
+  recovery: 'Clean streak',
+  manual: 'Set manually',
+} as const;
+
+export const PERMISSION_DISPLAY_NAMES = {
+  view_history: 'View history',
+  view_locations: 'View IPs and locations',
+  terminate_streams: 'Terminate streams',
+  manage_rules: 'Manage rules',
+  acknowledge_violations: 'Review violations',
+  manage_settings: 'Manage settings',
+  manage_accounts: 'Manage server accounts',
+} as const;
+
+export const AUDIT_ACTION_DISPLAY_NAMES = {
+  'rule.create': 'Rule created',
+  'rule.update': 'Rule updated',
+  'rule.delete': 'Rule deleted',
+  'settings.update': 'Settings updated',
+  'settings.destination_create': 'Notification destination added',
+  'settings.destination_update': 'Notification destination updated',
+  'settings.destination_delete': 'Notification destination removed',
+  'settings.template_update': 'Notification template updated',
+  'settings.template_reset': 'Notification template reset',
+  'settings.email_update': 'Email settings updated',
+  'server.create': 'Server added',
+  'server.delete': 'Server removed',
+  'user.update': 'Trust score set',
+  'user.identity_update': 'Identity renamed',
+  'user.merge': 'Identities merged',
+  'user.split': 'Account detached',
+  'user.permissions_update': 'Permissions changed',
+  'user.account_action': 'Account access changed',
+  'user.account_undo': 'Account change undone',
+  'user.suspend': 'User suspended',
+  'user.suspension_extend': 'Suspension extended',
+  'user.suspension_lift': 'Suspension lifted',
+  'user.probation_end': 'Probation ended',
+  'user.review_mark': 'Marked for review',
+  'user.review_clear': 'Review cleared',
+  'user.location_add': 'Known location added',
+  'user.location_update': 'Known location updated',
+  'user.location_remove': 'Known location removed',
+  'user.location_learn': 'Known locations learned',
+  'user.location_confirm': 'Known location confirmed',
+  'violation.update': 'Violation reviewed',
+  'violation.delete': 'Violation dismissed',
+  'group.create': 'User group created',
+  'group.update': 'User group updated',
+  'group.delete': 'User group deleted',
+  'policy_profile.create': 'Policy profile created',
+  'policy_profile.update': 'Policy profile updated',
+  'policy_profile.delete': 'Policy profile deleted',
+  'policy_profile.assign': 'Policy profile assigned',
+  'mobile.enable': 'Mobile enabled',
+  'mobile.disable': 'Mobile disabled',
+  'mobile.pair_token': 'Pairing token created',
+  'mobile.pair': 'Device paired',
+  'mobile.revoke': 'Device revoked',
+  'debug.delete': 'Data deleted',
+  'debug.reset': 'Factory reset',
+} as const;
+
+export const AUDIT_ENTITY_TYPE_DISPLAY_NAMES = {
+  rule: 'Rules',
+  settings: 'Settings',
+  server: 'Servers',
+  user: 'Users',
+  violation: 'Violations',
+  group: 'User groups',
+  policy_profile: 'Policy profiles',
+  mobile: 'Mobile',
+  debug: 'Debug',
+} as const;
+
+export const AUDIT_LOG_CONFIG = {
+  // Rows written by one export
+  EXPORT_LIMIT: 10000,
+  // Shown in place of secrets (tokens, API keys, webhook URLs) in recorded changes
+  REDACTED: '[redacted]',
 } as const;
 
 // Severity levels
@@ -59,6 +331,9 @@ export const WS_EVENTS = {
   SUBSCRIBE_SESSIONS: 'subscribe:sessions',
   UNSUBSCRIBE_SESSIONS: 'unsubscribe:sessions',
   VERSION_UPDATE: 'version:update',
+  DEVICE_NEW: 'device:new',
+  STREAMS_CONCURRENT: 'streams:concurrent',
+  TRUST_CHANGED: 'trust:changed',
 } as const;
 
 // Redis key prefixes
@@ -110,8 +385,169 @@ export const NOTIFICATION_EVENTS = {
   TRUST_SCORE_CHANGED: 'trust_score_changed',
   SERVER_DOWN: 'server_down',
   SERVER_UP: 'server_up',
+  USER_SUSPENDED: 'user_suspended',
+  USER_REINSTATED: 'user_reinstated',
+  NEW_SERVER_USER: 'new_server_user',
+} as const;
+
+// Notification destination display names
+export const NOTIFICATION_DESTINATION_TYPE_DISPLAY_NAMES = {
+  discord: 'Discord',
+  webhook: 'Webhook',
+} as const;
+
+export const WEBHOOK_FORMAT_DISPLAY_NAMES = {
+  json: 'Raw JSON',
+  ntfy: 'ntfy',
+  apprise: 'Apprise',
+  slack: 'Slack',
+  telegram: 'Telegram',
+  matrix: 'Matrix',
+  gotify: 'Gotify',
+} as const;
+
+/**
+ * Why a destination can't be sent to, or null when it has everything its format needs
+ * (the webhook URL is always required)
+ */
+export function getNotificationDestinationError(destination: {
+  type: 'discord' | 'webhook';
+  webhookFormat: WebhookFormat;
+  ntfyTopic: string | null;
+  chatId: string | null;
+  authToken: string | null;
+}): string | null {
+  if (destination.type !== 'webhook') return null;
+
+  const { ntfyTopic, chatId, authToken } = destination;
+  switch (destination.webhookFormat) {
+    case 'ntfy':
+      return ntfyTopic ? null : 'ntfy destinations need a topic';
+    case 'telegram':
+      if (!authToken) return 'Telegram destinations need a bot token';
+      return chatId ? null : 'Telegram destinations need a chat ID';
+    case 'matrix':
+      if (!authToken) return 'Matrix destinations need an access token';
+      return chatId ? null : 'Matrix destinations need a room ID';
+    case 'gotify':
+      return authToken ? null : 'Gotify destinations need an app token';
+    default:
+      return null;
+  }
+}
+
+export const EMAIL_DIGEST_FREQUENCY_DISPLAY_NAMES = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly',
 } as const;
 
+// Placeholders available in each event's notification template, e.g. {{user.displayName}}
+const SESSION_TEMPLATE_VARIABLES = [
+  'user.username',
+  'user.displayName',
+  'server.name',
+  'media.title',
+  'media.subtitle',
+  'media.type',
+  'media.year',
+  'playback.type',
+  'playback.quality',
+  'playback.player',
+  'location.city',
+  'location.country',
+] as const;
+
+const SUSPENSION_TEMPLATE_VARIABLES = [
+  'user.username',
+  'server.name',
+  'suspension.reason',
+  'suspension.endsAt',
+  'suspension.endReason',
+] as const;
+
+export const NOTIFICATION_TEMPLATE_VARIABLES: Record<NotificationEventType, readonly string[]> = {
+  violation_detected: [
+    'user.username',
+    'user.displayName',
+    'server.name',
+    'violation.rule',
+    'violation.ruleName',
+    'violation.severity',
+  ],
+  stream_started: SESSION_TEMPLATE_VARIABLES,
+  stream_stopped: [...SESSION_TEMPLATE_VARIABLES, 'duration'],
+  concurrent_streams: ['user.username', 'user.displayName', 'server.name', 'streams.count'],
+  new_device: [
+    'user.username',
+    'user.displayName',
+    'server.name',
+    'device.name',
+    'device.platform',
+    'location.city',
+    'location.country',
+  ],
+  trust_score_changed: [
+    'user.username',
+    'user.displayName',
+    'server.name',
+    'trustScore.previous',
+    'trustScore.current',
+    'trustScore.previousLevel',
+    'trustScore.level',
+  ],
+  server_down: ['server.name'],
+  server_up: ['server.name'],
+  user_suspended: SUSPENSION_TEMPLATE_VARIABLES,
+  user_reinstated: SUSPENSION_TEMPLATE_VARIABLES,
+  new_server_user: ['user.username', 'server.name', 'user.source', 'user.probationUntil'],
+};
+
+// Starting point offered in the template editor
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<
+  NotificationEventType,
+  { title: string; body: string }
+> = {
+  violation_detected: {
+    title: 'Violation Detected',
+    body: 'User {{user.username}} triggered {{violation.rule}} ({{violation.severity}} severity)',
+  },
+  stream_started: {
+    title: 'Stream Started',
+    body: '{{user.displayName}} started watching {{media.title}}',
+  },
+  stream_stopped: {
+    title: 'Stream Stopped',
+    body: '{{user.displayName}} stopped watching {{media.title}} ({{duration}})',
+  },
+  concurrent_streams: {
+    title: 'Concurrent Streams',
+    body: '{{user.displayName}} has {{streams.count}} streams on {{server.name}}',
+  },
+  new_device: {
+    title: 'New Device',
+    body: '{{user.displayName}} started streaming on {{device.name}} ({{server.name}})',
+  },
+  trust_score_changed: {
+    title: 'Trust Score Changed',
+    body: '{{user.displayName}} is now {{trustScore.level}} ({{trustScore.current}})',
+  },
+  server_down: { title: 'Server Down', body: 'Lost connection to {{server.name}}' },
+  server_up: { title: 'Server Online', body: '{{server.name}} is back online' },
+  user_suspended: {
+    title: 'User Suspended',
+    body: '{{user.username}} ({{server.name}}) is suspended until {{suspension.endsAt}}',
+  },
+  user_reinstated: {
+    title: 'User Reinstated',
+    body: '{{user.username}} ({{server.name}}) was reinstated',
+  },
+  new_server_user: {
+    title: 'New User',
+    body: '{{user.username}} joined {{server.name}} ({{user.source}})',
+  },
+};
+
 // API version
 export const API_VERSION = 'v1';
 export const API_BASE_PATH = `/api/${API_VERSION}`;
@@ -189,6 +625,44 @@ export const GEOIP_CONFIG = {
   DEFAULT_UNKNOWN_LOCATION: 'Unknown',
 } as const;
 
+// Known location learning and matching
+export const KNOWN_LOCATION_CONFIG = {
+  DEFAULT_RADIUS_KM: 25,
+  // A place is learned once it has this many sessions on this many distinct days
+  LEARN_MIN_SESSIONS: 5,
+  LEARN_MIN_DAYS: 3,
+  LEARN_LOOKBACK_DAYS: 90,
+  // Prefix lengths used when learning IP ranges
+  LEARN_IPV4_PREFIX: 24,
+  LEARN_IPV6_PREFIX: 48,
+  // How often the background learner runs
+  LEARN_INTERVAL_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+// Identity merge suggestions
+export const IDENTITY_SUGGESTION_CONFIG = {
+  LOOKBACK_DAYS: 90,
+  // A device or IP seen on more identities than this is too common to mean anything
+  // (shared household TVs, CGNAT, VPN exits)
+  MAX_IDENTITIES_PER_SIGNAL: 3,
+  // Shorter normalized usernames are too generic to compare
+  MIN_USERNAME_LENGTH: 4,
+  MAX_SUGGESTIONS: 50,
+} as const;
+
+export const IDENTITY_MATCH_REASON_DISPLAY_NAMES = {
+  shared_device: 'Shared device',
+  shared_ip: 'Shared IP',
+  similar_username: 'Similar username',
+} as const;
+
+// Known location mode display names (location rules)
+export const KNOWN_LOCATION_MODE_DISPLAY_NAMES = {
+  off: 'Treat like any other location',
+  ignore: 'Ignore known locations',
+  downweight: 'Lower severity for known locations',
+} as const;
+
 // Unit conversion constants
 export const UNIT_CONVERSION = {
   KM_TO_MILES: 0.621371,
@@ -10,11 +10,19 @@ export type {
   // User
   User,
   ServerUser,
+  ServerUserSource,
   ServerUserWithIdentity,
   ServerUserDetail,
   ServerUserFullDetail,
+  InactiveUserReason,
+  InactiveServerUser,
+  InactiveUserAction,
+  InactiveUserActionResult,
   ViolationSummary,
   UserRole,
+  Permission,
+  ServerPermissionGrant,
+  UserPermissions,
   AuthUser,
   UserLocation,
   UserDevice,
@@ -29,14 +37,55 @@ export type {
   ImpossibleTravelParams,
   SimultaneousLocationsParams,
   DeviceVelocityParams,
+  DeviceNoveltyParams,
   ConcurrentStreamsParams,
   GeoRestrictionMode,
   GeoRestrictionParams,
+  AnonymousNetworkCategory,
+  AnonymousNetworkParams,
+  TranscodeResolution,
+  StreamQualityParams,
+  KnownLocationMode,
+  CompositeConditionType,
+  CompositeOperator,
+  CompositeCondition,
+  CompositeGroup,
+  CompositeNode,
+  CompositeParams,
+  CompositeMatchedCondition,
   RuleParams,
+  RuleActionType,
+  RuleAction,
+  RuleScope,
+  RuleScheduleWindow,
+  RuleScheduleSuspension,
+  RuleSchedule,
   Rule,
+  UserGroup,
+  PolicyProfile,
+  IdentityMatchReason,
+  IdentityAccount,
+  IdentitySummary,
+  IdentityMergeSuggestion,
+  IdentityMergeResult,
+  IdentitySplitResult,
+  TrustScoreEventReason,
+  TrustLevel,
+  TrustScoreEvent,
+  RuleBacktestViolation,
+  RuleBacktestUser,
+  RuleBacktestDay,
+  RuleBacktestOverlap,
+  RuleBacktestResult,
+  KnownLocationType,
+  KnownLocationSource,
+  KnownLocation,
   // Violation
   ViolationSeverity,
+  ViolationStatus,
   Violation,
+  ViolationNote,
+  ViolationAssignee,
   ViolationWithDetails,
   ViolationSessionInfo,
   // Stats
@@ -58,6 +107,8 @@ export type {
   ServerResourceStats,
   // Settings
   Settings,
+  TrustPenalties,
+  TrustModel,
   WebhookFormat,
   UnitSystem,
   // Tautulli import
@@ -74,6 +125,7 @@ export type {
   HistorySessionResponse,
   FilterOptionItem,
   UserFilterOption,
+  NetworkFilterOption,
   HistoryFilterOptions,
   // Mobile
   MobileToken,
@@ -89,6 +141,18 @@ export type {
   NotificationPreferencesWithStatus,
   NotificationChannel,
   NotificationChannelRouting,
+  NotificationDestinationType,
+  NotificationDestinationRoute,
+  NotificationDestination,
+  NotificationTemplate,
+  NotificationTemplatePreview,
+  EmailDigestFrequency,
+  EmailDigestPeriod,
+  EmailSettings,
+  AlertUser,
+  NewDeviceAlert,
+  ConcurrentStreamsAlert,
+  TrustScoreAlert,
   EncryptedPushPayload,
   PushNotificationPayload,
   // SSE (Server-Sent Events)
@@ -102,6 +166,18 @@ export type {
   // Termination logs
   TerminationTrigger,
   TerminationLogWithDetails,
+  // Server account actions
+  AccountActionType,
+  ServerAccountAccess,
+  AccountActionLog,
+  ServerAccountStatus,
+  SuspensionEndReason,
+  UserSuspension,
+  // Audit log
+  AuditEntityType,
+  AuditAction,
+  AuditChange,
+  AuditLogEntry,
   // Plex server discovery
   PlexDiscoveredConnection,
   PlexDiscoveredServer,
@@ -132,17 +208,67 @@ export {
   terminateSessionBodySchema,
   // Rule
   impossibleTravelParamsSchema,
+  knownLocationModeSchema,
   simultaneousLocationsParamsSchema,
   deviceVelocityParamsSchema,
+  deviceNoveltyParamsSchema,
   concurrentStreamsParamsSchema,
   geoRestrictionParamsSchema,
+  anonymousNetworkCategorySchema,
+  anonymousNetworkParamsSchema,
+  streamQualityParamsSchema,
   ruleParamsSchema,
+  ruleParamsSchemaByType,
+  ruleActionSchema,
+  ruleScopeSchema,
+  ruleScheduleSchema,
+  compositeParamsSchema,
   createRuleSchema,
   updateRuleSchema,
   ruleIdParamSchema,
+  ruleBacktestSchema,
+  // User groups
+  createUserGroupSchema,
+  updateUserGroupSchema,
+  userGroupIdParamSchema,
+  createPolicyProfileSchema,
+  updatePolicyProfileSchema,
+  policyProfileIdParamSchema,
+  assignPolicyProfileSchema,
+  // Identity merge
+  mergeIdentitiesSchema,
+  // Permissions
+  permissionSchema,
+  updateUserPermissionsSchema,
+  // Server account actions
+  accountActionTypeSchema,
+  accountActionSchema,
+  accountActionParamSchema,
+  // Suspensions
+  suspendUserSchema,
+  extendSuspensionSchema,
+  suspensionParamSchema,
+  // Onboarding
+  newUsersQuerySchema,
+  // Inactive users
+  inactiveUsersQuerySchema,
+  inactiveUsersActionSchema,
+  // Known locations
+  createKnownLocationSchema,
+  updateKnownLocationSchema,
+  knownLocationParamSchema,
   // Violation
+  violationStatusSchema,
   violationQuerySchema,
   violationIdParamSchema,
+  updateViolationSchema,
+  createViolationNoteSchema,
+  violationNoteParamSchema,
+  // Audit log
+  auditActionSchema,
+  auditEntityTypeSchema,
+  auditLogQuerySchema,
+  auditLogExportQuerySchema,
   // Stats
   serverIdFilterSchema,
   dashboardQuerySchema,
@@ -151,6 +277,18 @@ export {
   locationStatsQuerySchema,
   // Settings
   updateSettingsSchema,
+  trustModelSchema,
+  notificationEventTypeSchema,
+  createNotificationDestinationSchema,
+  updateNotificationDestinationSchema,
+  notificationDestinationIdParamSchema,
+  notificationRouteIdParamSchema,
+  createNotificationRouteSchema,
+  notificationTemplateSchema,
+  notificationTemplateEventParamSchema,
+  notificationTemplatePreviewSchema,
+  updateEmailSettingsSchema,
+  sendEmailDigestSchema,
   // Tautulli import
   tautulliImportSchema,
 } from './schemas.js';
@@ -164,14 +302,45 @@ export type {
   UpdateUserIdentityInput,
   SessionQueryInput,
   HistoryQueryInput,
+  RuleActionInput,
+  RuleScopeInput,
+  RuleScheduleInput,
   CreateRuleInput,
   UpdateRuleInput,
+  RuleBacktestInput,
+  CreateUserGroupInput,
+  UpdateUserGroupInput,
+  CreatePolicyProfileInput,
+  UpdatePolicyProfileInput,
+  AssignPolicyProfileInput,
+  MergeIdentitiesInput,
+  UpdateUserPermissionsInput,
+  AccountActionInput,
+  SuspendUserInput,
+  ExtendSuspensionInput,
+  NewUsersQueryInput,
+  InactiveUsersQueryInput,
+  InactiveUsersActionInput,
+  CreateKnownLocationInput,
+  UpdateKnownLocationInput,
   ViolationQueryInput,
+  UpdateViolationInput,
+  CreateViolationNoteInput,
+  AuditLogQueryInput,
+  AuditLogExportQueryInput,
   ServerIdFilterInput,
   DashboardQueryInput,
   StatsQueryInput,
   LocationStatsQueryInput,
   UpdateSettingsInput,
+  TrustModelInput,
+  CreateNotificationDestinationInput,
+  UpdateNotificationDestinationInput,
+  CreateNotificationRouteInput,
+  NotificationTemplateInput,
+  NotificationTemplatePreviewInput,
+  UpdateEmailSettingsInput,
+  SendEmailDigestInput,
   TautulliImportInput,
 } from './schemas.js';
 
@@ -179,6 +348,31 @@ export type {
 export {
   RULE_DEFAULTS,
   RULE_DISPLAY_NAMES,
+  COMPOSITE_RULE_LIMITS,
+  RULE_BACKTEST_LIMITS,
+  ANONYMOUS_NETWORK_CATEGORY_DISPLAY_NAMES,
+  RULE_ACTION_DISPLAY_NAMES,
+  ACCOUNT_ACTION_DISPLAY_NAMES,
+  ACCOUNT_ACTIONS_BY_SERVER_TYPE,
+  SUSPENSION_ACTION_BY_SERVER_TYPE,
+  SUSPENSION_LIMITS,
+  SERVER_USER_SOURCE_DISPLAY_NAMES,
+  PROBATION_DEFAULTS,
+  INACTIVE_USER_DEFAULTS,
+  INACTIVE_USER_REASON_DISPLAY_NAMES,
+  INACTIVE_USER_ACTION_DISPLAY_NAMES,
+  VIOLATION_STATUS_DISPLAY_NAMES,
+  DEFAULT_TRUST_MODEL,
+  TRUST_SCORE_CONFIG,
+  TRUST_SCORE_EVENT_REASON_DISPLAY_NAMES,
+  TRUST_LEVEL_THRESHOLDS,
+  TRUST_LEVEL_DISPLAY_NAMES,
+  getTrustLevel,
+  PERMISSION_DISPLAY_NAMES,
+  AUDIT_ACTION_DISPLAY_NAMES,
+  AUDIT_ENTITY_TYPE_DISPLAY_NAMES,
+  AUDIT_LOG_CONFIG,
+  RULE_ACTION_DEFAULTS,
   SEVERITY_LEVELS,
   getSeverityPriority,
   type SeverityPriority,
@@ -186,12 +380,22 @@ export {
   REDIS_KEYS,
   CACHE_TTL,
   NOTIFICATION_EVENTS,
+  NOTIFICATION_DESTINATION_TYPE_DISPLAY_NAMES,
+  WEBHOOK_FORMAT_DISPLAY_NAMES,
+  getNotificationDestinationError,
+  EMAIL_DIGEST_FREQUENCY_DISPLAY_NAMES,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  DEFAULT_NOTIFICATION_TEMPLATES,
   API_VERSION,
   API_BASE_PATH,
   JWT_CONFIG,
   POLLING_INTERVALS,
   PAGINATION,
   GEOIP_CONFIG,
+  KNOWN_LOCATION_CONFIG,
+  KNOWN_LOCATION_MODE_DISPLAY_NAMES,
+  IDENTITY_SUGGESTION_CONFIG,
+  IDENTITY_MATCH_REASON_DISPLAY_NAMES,
   TIME_MS,
   SESSION_LIMITS,
   SERVER_STATS_CONFIG,
@@ -221,4 +425,5 @@ export {
   hasMinRole,
   isOwner,
   isActive,
+  hasPermission,
 } from './types.js';
@@ -3,7 +3,15 @@
  */
 
 import { z } from 'zod';
-import { isValidTimezone } from './constants.js';
+import {
+  isValidTimezone,
+  COMPOSITE_RULE_LIMITS,
+  RULE_BACKTEST_LIMITS,
+  SUSPENSION_LIMITS,
+  PROBATION_DEFAULTS,
+  INACTIVE_USER_DEFAULTS,
+  getNotificationDestinationError,
+} from './constants.js';
 
 // Common schemas
 export const uuidSchema = z.uuid();
@@ -94,6 +102,8 @@ export const historyQuerySchema = z.object({
   geoCountry: z.string().max(100).optional(), // Country name or code
   geoCity: z.string().max(255).optional(), // City name
   geoRegion: z.string().max(255).optional(), // State/province
+  asn: z.coerce.number().int().positive().optional(), // Autonomous system number
+  asnOrg: z.string().max(255).optional(), // Network organization (ISP, hosting provider)
 
   // Stream quality filters
   isTranscode: z.coerce.boolean().optional(), // true = transcode, false = direct play
@@ -123,49 +133,256 @@ export const impossibleTravelParamsSchema = z.object({
   ignoreVpnRanges: z.boolean().optional(),
 });
 
+export const knownLocationModeSchema = z.enum(['off', 'ignore', 'downweight']);
+
 export const simultaneousLocationsParamsSchema = z.object({
   minDistanceKm: z.number().positive().default(100),
+  knownLocationMode: knownLocationModeSchema.default('off'),
 });
 
 export const deviceVelocityParamsSchema = z.object({
   maxIps: z.number().int().positive().default(5),
   windowHours: z.number().int().positive().default(24),
+  knownLocationMode: knownLocationModeSchema.default('off'),
+});
+
+export const deviceNoveltyParamsSchema = z.object({
+  maxNewDevices: z.number().int().min(0).default(2),
+  windowHours: z.number().int().positive().default(24),
+  alertOnNewPlatform: z.boolean().default(true),
 });
 
 export const concurrentStreamsParamsSchema = z.object({
   maxStreams: z.number().int().positive().default(3),
+  useProfile: z.boolean().optional(),
 });
 
 export const geoRestrictionParamsSchema = z.object({
   mode: z.enum(['blocklist', 'allowlist']).default('blocklist'),
   countries: z.array(z.string().length(2)).default([]),
+  useProfile: z.boolean().optional(),
+});
+
+export const anonymousNetworkCategorySchema = z.enum(['hosting', 'vpn', 'tor', 'proxy']);
+
+export const anonymousNetworkParamsSchema = z.object({
+  categories: z.array(anonymousNetworkCategorySchema).default(['hosting', 'vpn', 'tor', 'proxy']),
+  asns: z.array(z.number().int().positive().max(4294967295)).max(500).default([]),
+});
+
+export const streamQualityParamsSchema = z
+  .object({
+    maxConcurrentTranscodes: z.number().int().min(0).nullable().default(1),
+    transcodeResolution: z.enum(['any', '720p', '1080p', '4K']).default('4K'),
+    maxRemoteBitrateMbps: z.number().positive().nullable().default(null),
+    maxTranscodePercent: z.number().int().min(1).max(100).nullable().default(null),
+    minSessions: z.number().int().positive().default(5),
+    useProfile: z.boolean().optional(),
+  })
+  .refine(
+    (p) =>
+      p.maxConcurrentTranscodes !== null ||
+      p.maxRemoteBitrateMbps !== null ||
+      p.maxTranscodePercent !== null,
+    { message: 'Set at least one transcode or bandwidth limit' }
+  );
+
+// Composite rule condition tree - each leaf reuses the params schema of its rule type
+const compositeConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('impossible_travel'),
+    params: impossibleTravelParamsSchema,
+  }),
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('simultaneous_locations'),
+    params: simultaneousLocationsParamsSchema,
+  }),
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('device_velocity'),
+    params: deviceVelocityParamsSchema,
+  }),
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('device_novelty'),
+    params: deviceNoveltyParamsSchema,
+  }),
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('concurrent_streams'),
+    params: concurrentStreamsParamsSchema,
+  }),
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('geo_restriction'),
+    params: geoRestrictionParamsSchema,
+  }),
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('anonymous_network'),
+    params: anonymousNetworkParamsSchema,
+  }),
+  z.object({
+    kind: z.literal('condition'),
+    type: z.literal('stream_quality'),
+    params: streamQualityParamsSchema,
+  }),
+]);
+
+const compositeGroupSchema = z.object({
+  kind: z.literal('group'),
+  operator: z.enum(['and', 'or']),
+  get conditions() {
+    return z.array(z.union([compositeConditionSchema, compositeGroupSchema])).min(1);
+  },
 });
 
+// Returns [depth, leaf condition count] of a group (root group = depth 1)
+function measureCompositeGroup(group: z.infer<typeof compositeGroupSchema>): [number, number] {
+  let depth = 1;
+  let count = 0;
+  for (const node of group.conditions) {
+    if (node.kind === 'group') {
+      const [childDepth, childCount] = measureCompositeGroup(node);
+      depth = Math.max(depth, childDepth + 1);
+      count += childCount;
+    } else {
+      count += 1;
+    }
+  }
+  return [depth, count];
+}
+
+export const compositeParamsSchema = z
+  .object({ root: compositeGroupSchema })
+  .refine((p) => measureCompositeGroup(p.root)[0] <= COMPOSITE_RULE_LIMITS.MAX_DEPTH, {
+    message: `Condition groups can be nested at most ${COMPOSITE_RULE_LIMITS.MAX_DEPTH} levels deep`,
+  })
+  .refine((p) => measureCompositeGroup(p.root)[1] <= COMPOSITE_RULE_LIMITS.MAX_CONDITIONS, {
+    message: `Composite rules can have at most ${COMPOSITE_RULE_LIMITS.MAX_CONDITIONS} conditions`,
+  });
+
 export const ruleParamsSchema = z.union([
   impossibleTravelParamsSchema,
   simultaneousLocationsParamsSchema,
   deviceVelocityParamsSchema,
+  deviceNoveltyParamsSchema,
   concurrentStreamsParamsSchema,
   geoRestrictionParamsSchema,
+  anonymousNetworkParamsSchema,
+  streamQualityParamsSchema,
+  compositeParamsSchema,
 ]);
 
-export const createRuleSchema = z.object({
-  name: z.string().min(1).max(100),
+export const ruleActionSchema = z.object({
   type: z.enum([
-    'impossible_travel',
-    'simultaneous_locations',
-    'device_velocity',
-    'concurrent_streams',
-    'geo_restriction',
+    'terminate_stream',
+    'terminate_newest',
+    'log_only',
+    'disable_user',
+    'remove_share',
   ]),
+  message: z.string().max(500).optional(),
+  cooldownMinutes: z.number().int().min(0).max(10080).default(5), // Max 1 week
+});
+
+export const ruleScopeSchema = z.object({
+  serverIds: z.array(uuidSchema).max(100).default([]),
+  userIds: z.array(uuidSchema).max(1000).default([]),
+  roles: z
+    .array(z.enum(['owner', 'admin', 'viewer', 'member', 'disabled', 'pending']))
+    .default([]),
+  groupIds: z.array(uuidSchema).max(100).default([]),
+  excludedUserIds: z.array(uuidSchema).max(1000).default([]),
+  probationOnly: z.boolean().optional(),
+});
+
+const scheduleTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+const scheduleDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const ruleScheduleSchema = z.object({
+  timezone: z
+    .string()
+    .min(1)
+    .max(100)
+    .refine(isValidTimezone, { message: 'Invalid IANA timezone identifier' }),
+  windows: z
+    .array(
+      z.object({
+        days: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+        startTime: scheduleTimeSchema,
+        endTime: scheduleTimeSchema,
+      })
+    )
+    .max(20)
+    .default([]),
+  suspensions: z
+    .array(
+      z
+        .object({
+          userId: uuidSchema.nullable().default(null),
+          startDate: scheduleDateSchema,
+          endDate: scheduleDateSchema,
+          reason: z.string().max(200).optional(),
+        })
+        .refine((s) => s.startDate <= s.endDate, { message: 'startDate must not be after endDate' })
+    )
+    .max(100)
+    .default([]),
+});
+
+const ruleTypeSchema = z.enum([
+  'impossible_travel',
+  'simultaneous_locations',
+  'device_velocity',
+  'device_novelty',
+  'concurrent_streams',
+  'geo_restriction',
+  'anonymous_network',
+  'stream_quality',
+  'composite',
+]);
+
+// Params schema of each rule type - rule params are only validated once the type is known
+export const ruleParamsSchemaByType = {
+  impossible_travel: impossibleTravelParamsSchema,
+  simultaneous_locations: simultaneousLocationsParamsSchema,
+  device_velocity: deviceVelocityParamsSchema,
+  device_novelty: deviceNoveltyParamsSchema,
+  concurrent_streams: concurrentStreamsParamsSchema,
+  geo_restriction: geoRestrictionParamsSchema,
+  anonymous_network: anonymousNetworkParamsSchema,
+  stream_quality: streamQualityParamsSchema,
+  composite: compositeParamsSchema,
+} satisfies Record<z.infer<typeof ruleTypeSchema>, z.ZodType>;
+
+export const createRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  type: ruleTypeSchema,
   params: z.record(z.string(), z.unknown()),
+  actions: z.array(ruleActionSchema).max(10).default([]),
+  scope: ruleScopeSchema.default({
+    serverIds: [],
+    userIds: [],
+    roles: [],
+    groupIds: [],
+    excludedUserIds: [],
+  }),
+  schedule: ruleScheduleSchema.nullable().default(null),
   serverUserId: uuidSchema.nullable().default(null),
+  crossServer: z.boolean().default(false),
   isActive: z.boolean().default(true),
 });
 
 export const updateRuleSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   params: z.record(z.string(), z.unknown()).optional(),
+  actions: z.array(ruleActionSchema).max(10).optional(),
+  scope: ruleScopeSchema.optional(),
+  schedule: ruleScheduleSchema.nullable().optional(),
+  crossServer: z.boolean().optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -173,13 +390,217 @@ export const ruleIdParamSchema = z.object({
   id: uuidSchema,
 });
 
+// Known location schemas
+const knownLocationLabelSchema = z.string().min(1).max(100);
+
+export const createKnownLocationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('cidr'),
+    label: knownLocationLabelSchema,
+    cidr: z.union([z.cidrv4(), z.cidrv6()]),
+  }),
+  z.object({
+    type: z.literal('asn'),
+    label: knownLocationLabelSchema,
+    asn: z.number().int().positive().max(4294967295),
+  }),
+  z.object({
+    type: z.literal('geo'),
+    label: knownLocationLabelSchema,
+    lat: z.number().min(-90).max(90),
+    lon: z.number().min(-180).max(180),
+    radiusKm: z.number().positive().max(1000),
+  }),
+]);
+
+// Type can't change; the merged result is re-validated with createKnownLocationSchema
+export const updateKnownLocationSchema = z.object({
+  label: knownLocationLabelSchema.optional(),
+  cidr: z.string().optional(),
+  asn: z.number().optional(),
+  lat: z.number().optional(),
+  lon: z.number().optional(),
+  radiusKm: z.number().optional(),
+});
+
+export const knownLocationParamSchema = z.object({
+  id: uuidSchema,
+  locationId: uuidSchema,
+});
+
+// User group schemas
+export const createUserGroupSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().default(null),
+  userIds: z.array(uuidSchema).max(1000).default([]),
+});
+
+export const updateUserGroupSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  userIds: z.array(uuidSchema).max(1000).optional(),
+});
+
+export const userGroupIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+// Policy profile schemas
+export const createPolicyProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().default(null),
+  maxStreams: z.number().int().positive().max(100).nullable().default(null),
+  allowedCountries: z.array(z.string().length(2)).min(1).max(250).nullable().default(null),
+  maxTranscodes: z.number().int().min(0).max(100).nullable().default(null),
+});
+
+export const updatePolicyProfileSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  maxStreams: z.number().int().positive().max(100).nullable().optional(),
+  allowedCountries: z.array(z.string().length(2)).min(1).max(250).nullable().optional(),
+  maxTranscodes: z.number().int().min(0).max(100).nullable().optional(),
+});
+
+export const policyProfileIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+// Assign identities to a profile in bulk (null profileId clears their profile)
+export const assignPolicyProfileSchema = z.object({
+  profileId: uuidSchema.nullable(),
+  userIds: z.array(uuidSchema).min(1).max(1000),
+});
+
+// Identity merge schemas
+export const mergeIdentitiesSchema = z
+  .object({
+    targetUserId: uuidSchema, // Identity that is kept
+    sourceUserId: uuidSchema, // Identity whose accounts move over and which is then removed
+  })
+  .refine((m) => m.targetUserId !== m.sourceUserId, {
+    message: 'Cannot merge an identity into itself',
+  });
+
+// Permission schemas
+export const permissionSchema = z.enum([
+  'view_history',
+  'view_locations',
+  'terminate_streams',
+  'manage_rules',
+  'acknowledge_violations',
+  'manage_settings',
+  'manage_accounts',
+]);
+
+export const updateUserPermissionsSchema = z
+  .object({
+    // member removes the user's access to Tracearr
+    role: z.enum(['admin', 'viewer', 'member']),
+    grants: z
+      .array(
+        z.object({
+          serverId: uuidSchema,
+          permissions: z.array(permissionSchema),
+        })
+      )
+      .max(100)
+      .default([]),
+  })
+  .refine((p) => new Set(p.grants.map((g) => g.serverId)).size === p.grants.length, {
+    message: 'Each server can only be granted once',
+  });
+
+// Server account action schemas
+export const accountActionTypeSchema = z.enum([
+  'disable_user',
+  'remove_share',
+  'restrict_libraries',
+]);
+
+export const accountActionSchema = z
+  .object({
+    action: accountActionTypeSchema,
+    // Libraries to keep (restrict_libraries only)
+    libraryIds: z.array(z.string().min(1).max(100)).max(200).optional(),
+  })
+  .refine((a) => (a.action === 'restrict_libraries') === (a.libraryIds !== undefined), {
+    message: 'Libraries are required to restrict libraries, and only then',
+  });
+
+export const accountActionParamSchema = z.object({
+  id: uuidSchema,
+  actionId: uuidSchema,
+});
+
+// Suspension schemas
+const suspensionHoursSchema = z
+  .number()
+  .int()
+  .min(SUSPENSION_LIMITS.MIN_HOURS)
+  .max(SUSPENSION_LIMITS.MAX_HOURS);
+
+export const suspendUserSchema = z.object({
+  durationHours: suspensionHoursSchema,
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Adds hours to the current end of the suspension
+export const extendSuspensionSchema = z.object({
+  hours: suspensionHoursSchema,
+});
+
+export const suspensionParamSchema = z.object({
+  id: uuidSchema,
+  suspensionId: uuidSchema,
+});
+
+// Onboarding schemas
+export const newUsersQuerySchema = z.object({
+  days: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(PROBATION_DEFAULTS.MAX_DAYS)
+    .default(PROBATION_DEFAULTS.NEW_USERS_DAYS),
+  serverId: uuidSchema.optional(),
+});
+
+// Inactive users report (before overrides days)
+export const inactiveUsersQuerySchema = z.object({
+  days: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(INACTIVE_USER_DEFAULTS.MAX_DAYS)
+    .default(INACTIVE_USER_DEFAULTS.DAYS),
+  before: z.coerce.date().optional(),
+  neverPlayed: z.coerce.boolean().optional(), // Only accounts that never streamed
+  serverId: uuidSchema.optional(),
+});
+
+export const inactiveUsersActionSchema = z.object({
+  action: z.enum(['remove_access', 'mark_for_review', 'clear_review']),
+  serverUserIds: z.array(uuidSchema).min(1).max(INACTIVE_USER_DEFAULTS.MAX_BULK_ACTION),
+});
+
 // Violation schemas
+export const violationStatusSchema = z.enum([
+  'open',
+  'investigating',
+  'confirmed_sharing',
+  'false_positive',
+  'resolved',
+]);
+
 export const violationQuerySchema = paginationSchema.extend({
   serverId: uuidSchema.optional(),
   serverUserId: uuidSchema.optional(),
   ruleId: uuidSchema.optional(),
   severity: z.enum(['low', 'warning', 'high']).optional(),
   acknowledged: z.coerce.boolean().optional(),
+  status: violationStatusSchema.optional(),
+  assigneeId: uuidSchema.optional(),
   startDate: z.coerce.date().optional(),
   endDate: z.coerce.date().optional(),
 });
@@ -188,6 +609,102 @@ export const violationIdParamSchema = z.object({
   id: uuidSchema,
 });
 
+// An empty body only acknowledges the violation
+export const updateViolationSchema = z.object({
+  status: violationStatusSchema.optional(),
+  assigneeId: uuidSchema.nullable().optional(),
+  dismissalReason: z.string().trim().max(500).nullable().optional(),
+  // Refund the trust score penalty when marking a false positive
+  restoreTrust: z.boolean().optional(),
+});
+
+export const createViolationNoteSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+export const violationNoteParamSchema = z.object({
+  id: uuidSchema,
+  noteId: uuidSchema,
+});
+
+// Audit log schemas
+export const auditActionSchema = z.enum([
+  'rule.create',
+  'rule.update',
+  'rule.delete',
+  'settings.update',
+  'settings.destination_create',
+  'settings.destination_update',
+  'settings.destination_delete',
+  'settings.template_update',
+  'settings.template_reset',
+  'settings.email_update',
+  'server.create',
+  'server.delete',
+  'user.update',
+  'user.identity_update',
+  'user.merge',
+  'user.split',
+  'user.permissions_update',
+  'user.account_action',
+  'user.account_undo',
+  'user.suspend',
+  'user.suspension_extend',
+  'user.suspension_lift',
+  'user.probation_end',
+  'user.review_mark',
+  'user.review_clear',
+  'user.location_add',
+  'user.location_update',
+  'user.location_remove',
+  'user.location_learn',
+  'user.location_confirm',
+  'violation.update',
+  'violation.delete',
+  'group.create',
+  'group.update',
+  'group.delete',
+  'policy_profile.create',
+  'policy_profile.update',
+  'policy_profile.delete',
+  'policy_profile.assign',
+  'mobile.enable',
+  'mobile.disable',
+  'mobile.pair_token',
+  'mobile.pair',
+  'mobile.revoke',
+  'debug.delete',
+  'debug.reset',
+]);
+
+export const auditEntityTypeSchema = z.enum([
+  'rule',
+  'settings',
+  'server',
+  'user',
+  'violation',
+  'group',
+  'policy_profile',
+  'mobile',
+  'debug',
+]);
+
+const auditLogFilterSchema = z.object({
+  action: auditActionSchema.optional(),
+  entityType: auditEntityTypeSchema.optional(),
+  entityId: z.string().max(255).optional(),
+  actorId: uuidSchema.optional(),
+  serverId: uuidSchema.optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+export const auditLogQuerySchema = paginationSchema.extend(auditLogFilterSchema.shape);
+
+export const auditLogExportQuerySchema = auditLogFilterSchema.extend({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
 // Stats schemas
 export const serverIdFilterSchema = z.object({
   serverId: uuidSchema.optional(),
@@ -202,6 +719,19 @@ export const timezoneSchema = z
   .refine(isValidTimezone, { message: 'Invalid IANA timezone identifier' })
   .optional();
 
+// Rule backtest - params override the saved rule's params, e.g. to try a new threshold
+export const ruleBacktestSchema = z.object({
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .max(RULE_BACKTEST_LIMITS.MAX_DAYS)
+    .default(RULE_BACKTEST_LIMITS.DEFAULT_DAYS),
+  params: z.record(z.string(), z.unknown()).optional(),
+  crossServer: z.boolean().optional(),
+  timezone: timezoneSchema,
+});
+
 // Dashboard query schema with timezone support
 export const dashboardQuerySchema = z.object({
   serverId: uuidSchema.optional(),
@@ -246,6 +776,7 @@ export const locationStatsQuerySchema = z
     serverUserId: uuidSchema.optional(),
     serverId: uuidSchema.optional(),
     mediaType: z.enum(['movie', 'episode', 'track']).optional(),
+    asn: z.coerce.number().int().positive().optional(),
   })
   .refine(
     (data) => {
@@ -267,21 +798,51 @@ export const locationStatsQuerySchema = z
   );
 
 // Webhook format enum
-export const webhookFormatSchema = z.enum(['json', 'ntfy', 'apprise']);
+export const webhookFormatSchema = z.enum([
+  'json',
+  'ntfy',
+  'apprise',
+  'slack',
+  'telegram',
+  'matrix',
+  'gotify',
+]);
 
 // Unit system enum for display preferences
 export const unitSystemSchema = z.enum(['metric', 'imperial']);
 
 // Settings schemas
+// Trust model schemas
+const trustPointsSchema = z.number().int().min(0).max(100);
+
+const trustPenaltiesSchema = z.object({
+  low: trustPointsSchema,
+  warning: trustPointsSchema,
+  high: trustPointsSchema,
+});
+
+export const trustModelSchema = z
+  .object({
+    penalties: trustPenaltiesSchema,
+    rulePenalties: z.partialRecord(ruleTypeSchema, trustPenaltiesSchema.partial()).default({}),
+    floor: trustPointsSchema,
+    ceiling: trustPointsSchema,
+    recovery: z.object({
+      enabled: z.boolean(),
+      cleanDays: z.number().int().min(1).max(365),
+      pointsPerDay: z.number().int().min(1).max(100),
+    }),
+    decay: z.object({
+      enabled: z.boolean(),
+      afterDays: z.number().int().min(1).max(3650),
+    }),
+  })
+  .refine((m) => m.floor < m.ceiling, { message: 'floor must be below ceiling' });
+
 export const updateSettingsSchema = z.object({
   allowGuestAccess: z.boolean().optional(),
   // Display preferences
   unitSystem: unitSystemSchema.optional(),
-  discordWebhookUrl: z.url().nullable().optional(),
-  customWebhookUrl: z.url().nullable().optional(),
-  webhookFormat: webhookFormatSchema.nullable().optional(),
-  ntfyTopic: z.string().max(200).nullable().optional(),
-  ntfyAuthToken: z.string().max(500).nullable().optional(),
   // Poller settings
   pollerEnabled: z.boolean().optional(),
   pollerIntervalMs: z.number().int().min(5000).max(300000).optional(),
@@ -294,6 +855,106 @@ export const updateSettingsSchema = z.object({
   trustProxy: z.boolean().optional(),
   // Authentication settings
   primaryAuthMethod: z.enum(['jellyfin', 'local']).optional(),
+  // Trust scores
+  trustModel: trustModelSchema.optional(),
+  probationDays: z.number().int().min(0).max(PROBATION_DEFAULTS.MAX_DAYS).optional(),
+});
+
+// Notification destination schemas
+export const notificationEventTypeSchema = z.enum([
+  'violation_detected',
+  'stream_started',
+  'stream_stopped',
+  'concurrent_streams',
+  'new_device',
+  'trust_score_changed',
+  'server_down',
+  'server_up',
+  'user_suspended',
+  'user_reinstated',
+  'new_server_user',
+]);
+
+const notificationDestinationFields = {
+  name: z.string().trim().min(1).max(100),
+  type: z.enum(['discord', 'webhook']),
+  webhookUrl: z.url(),
+  webhookFormat: webhookFormatSchema,
+  ntfyTopic: z.string().trim().max(200).nullable(),
+  chatId: z.string().trim().max(255).nullable(),
+  authToken: z.string().max(500).nullable(),
+  enabled: z.boolean(),
+};
+
+export const createNotificationDestinationSchema = z
+  .object({
+    ...notificationDestinationFields,
+    webhookFormat: webhookFormatSchema.default('json'),
+    ntfyTopic: notificationDestinationFields.ntfyTopic.default(null),
+    chatId: notificationDestinationFields.chatId.default(null),
+    authToken: notificationDestinationFields.authToken.default(null),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((d, ctx) => {
+    const message = getNotificationDestinationError(d);
+    if (message) {
+      ctx.addIssue({ code: 'custom', message });
+    }
+  });
+
+export const updateNotificationDestinationSchema = z
+  .object(notificationDestinationFields)
+  .partial();
+
+export const notificationDestinationIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+export const notificationRouteIdParamSchema = z.object({
+  id: uuidSchema,
+  routeId: uuidSchema,
+});
+
+export const createNotificationRouteSchema = z.object({
+  eventType: notificationEventTypeSchema,
+  serverId: uuidSchema.nullable().default(null), // null = every server
+  minSeverity: z.enum(['low', 'warning', 'high']).nullable().default(null),
+});
+
+// Notification template schemas (placeholders are checked against the event's variables)
+export const notificationTemplateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(2000),
+});
+
+export const notificationTemplateEventParamSchema = z.object({
+  eventType: notificationEventTypeSchema,
+});
+
+export const notificationTemplatePreviewSchema = notificationTemplateSchema.extend({
+  eventType: notificationEventTypeSchema,
+});
+
+// Email notification schemas
+export const updateEmailSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    smtpHost: z.string().trim().min(1).max(255).nullable(),
+    smtpPort: z.number().int().min(1).max(65535),
+    smtpSecure: z.boolean(),
+    smtpUsername: z.string().trim().max(255).nullable(),
+    smtpPassword: z.string().max(500).nullable(),
+    fromAddress: z.email().nullable(),
+    recipients: z.array(z.email()).max(20),
+    digestFrequency: z.enum(['off', 'daily', 'weekly']),
+    digestHour: z.number().int().min(0).max(23),
+    digestWeekday: z.number().int().min(0).max(6),
+    digestTimezone: timezoneSchema,
+  })
+  .partial();
+
+export const sendEmailDigestSchema = z.object({
+  period: z.enum(['daily', 'weekly']),
 });
 
 // Tautulli import schemas
@@ -308,12 +969,47 @@ export type CreateServerInput = z.infer<typeof createServerSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type SessionQueryInput = z.infer<typeof sessionQuerySchema>;
 export type HistoryQueryInput = z.infer<typeof historyQuerySchema>;
+export type RuleScopeInput = z.infer<typeof ruleScopeSchema>;
+export type RuleScheduleInput = z.infer<typeof ruleScheduleSchema>;
+export type CreateKnownLocationInput = z.infer<typeof createKnownLocationSchema>;
+export type UpdateKnownLocationInput = z.infer<typeof updateKnownLocationSchema>;
+export type RuleActionInput = z.infer<typeof ruleActionSchema>;
 export type CreateRuleInput = z.infer<typeof createRuleSchema>;
 export type UpdateRuleInput = z.infer<typeof updateRuleSchema>;
+export type RuleBacktestInput = z.input<typeof ruleBacktestSchema>;
+export type CreateUserGroupInput = z.infer<typeof createUserGroupSchema>;
+export type UpdateUserGroupInput = z.infer<typeof updateUserGroupSchema>;
+export type CreatePolicyProfileInput = z.infer<typeof createPolicyProfileSchema>;
+export type UpdatePolicyProfileInput = z.infer<typeof updatePolicyProfileSchema>;
+export type AssignPolicyProfileInput = z.infer<typeof assignPolicyProfileSchema>;
+export type MergeIdentitiesInput = z.infer<typeof mergeIdentitiesSchema>;
+export type UpdateUserPermissionsInput = z.infer<typeof updateUserPermissionsSchema>;
+export type AccountActionInput = z.infer<typeof accountActionSchema>;
+export type SuspendUserInput = z.infer<typeof suspendUserSchema>;
+export type ExtendSuspensionInput = z.infer<typeof extendSuspensionSchema>;
 export type ViolationQueryInput = z.infer<typeof violationQuerySchema>;
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>;
+export type AuditLogExportQueryInput = z.infer<typeof auditLogExportQuerySchema>;
+export type UpdateViolationInput = z.infer<typeof updateViolationSchema>;
+export type CreateViolationNoteInput = z.infer<typeof createViolationNoteSchema>;
 export type ServerIdFilterInput = z.infer<typeof serverIdFilterSchema>;
 export type DashboardQueryInput = z.infer<typeof dashboardQuerySchema>;
 export type StatsQueryInput = z.infer<typeof statsQuerySchema>;
 export type LocationStatsQueryInput = z.infer<typeof locationStatsQuerySchema>;
+export type NewUsersQueryInput = z.infer<typeof newUsersQuerySchema>;
+export type InactiveUsersQueryInput = z.infer<typeof inactiveUsersQuerySchema>;
+export type InactiveUsersActionInput = z.infer<typeof inactiveUsersActionSchema>;
 export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>;
+export type TrustModelInput = z.infer<typeof trustModelSchema>;
+export type CreateNotificationDestinationInput = z.infer<
+  typeof createNotificationDestinationSchema
+>;
+export type UpdateNotificationDestinationInput = z.infer<
+  typeof updateNotificationDestinationSchema
+>;
+export type CreateNotificationRouteInput = z.infer<typeof createNotificationRouteSchema>;
+export type NotificationTemplateInput = z.infer<typeof notificationTemplateSchema>;
+export type NotificationTemplatePreviewInput = z.infer<typeof notificationTemplatePreviewSchema>;
+export type UpdateEmailSettingsInput = z.infer<typeof updateEmailSettingsSchema>;
+export type SendEmailDigestInput = z.infer<typeof sendEmailDigestSchema>;
 export type TautulliImportInput = z.infer<typeof tautulliImportSchema>;
@@ -32,6 +32,45 @@ export const hasMinRole = (
 export const isOwner = (role: UserRole): boolean => role === 'owner';
 export const isActive = (role: UserRole): boolean => canLogin(role);
 
+// Feature permissions granted to admins and viewers per server (owners have all of them)
+export type Permission =
+  | 'view_history'
+  | 'view_locations'
+  | 'terminate_streams'
+  | 'manage_rules'
+  | 'acknowledge_violations'
+  | 'manage_settings'
+  | 'manage_accounts';
+
+// Permissions a login user holds on one server
+export interface ServerPermissionGrant {
+  serverId: string;
+  permissions: Permission[];
+}
+
+// A login user and the permissions they were granted, for user management
+export interface UserPermissions {
+  userId: string;
+  username: string;
+  name: string | null;
+  thumbnail: string | null;
+  role: UserRole;
+  grants: ServerPermissionGrant[];
+}
+
+// Whether a user holds a permission, on a specific server or on any server
+export const hasPermission = (
+  user: { role: UserRole; permissions?: ServerPermissionGrant[] },
+  permission: Permission,
+  serverId?: string
+): boolean =>
+  user.role === 'owner' ||
+  (user.permissions ?? []).some(
+    (grant) =>
+      (serverId === undefined || grant.serverId === serverId) &&
+      grant.permissions.includes(permission)
+  );
+
 // Server types
 export type ServerType = 'plex' | 'jellyfin' | 'emby';
 
@@ -58,6 +97,20 @@ export interface User {
   updatedAt: Date;
 }
 
+// How a server account came to exist
+// owner: the server owner's own account
+// plex_share / plex_home: a Plex friend the server is shared with / a Plex Home member
+// local_account: an account on a Jellyfin/Emby server
+// session: not found by sync, created when it first streamed
+// unknown: existed before onboarding was tracked
+export type ServerUserSource =
+  | 'owner'
+  | 'plex_share'
+  | 'plex_home'
+  | 'local_account'
+  | 'session'
+  | 'unknown';
+
 // Server User types - Account on a specific media server
 export interface ServerUser {
   id: string;
@@ -70,6 +123,9 @@ export interface ServerUser {
   isServerAdmin: boolean;
   trustScore: number;
   sessionCount: number;
+  joinedAt: Date; // When they got access (Plex share acceptance), else when first seen
+  source: ServerUserSource;
+  probationUntil: Date | null; // Rules scoped to probation apply until then
   createdAt: Date;
   updatedAt: Date;
 }
@@ -79,6 +135,8 @@ export interface ServerUserWithIdentity extends ServerUser {
   serverName: string;
   identityName: string | null;
   role: UserRole; // From linked User identity
+  suspendedUntil?: Date | null; // End of the active suspension (user list only)
+  policyProfileId?: string | null; // Identity's policy profile (user list only)
 }
 
 // Server User detail with stats - returned by GET /users/:id
@@ -89,6 +147,41 @@ export interface ServerUserDetail extends ServerUserWithIdentity {
   };
 }
 
+// Why a server account is in the inactive users report
+export type InactiveUserReason = 'never_played' | 'inactive';
+
+// Server account with no recent activity - returned by GET /users/inactive
+export interface InactiveServerUser {
+  id: string;
+  serverId: string;
+  serverName: string;
+  userId: string;
+  username: string;
+  identityName: string | null;
+  thumbUrl: string | null;
+  joinedAt: Date;
+  source: ServerUserSource;
+  reason: InactiveUserReason;
+  lastSession: {
+    startedAt: Date;
+    mediaTitle: string;
+    grandparentTitle: string | null;
+  } | null;
+  sessionCount: number;
+  totalWatchTimeMs: number;
+  sharedLibraries: string[] | null; // From the last sync; empty = all, null = not reported
+  reviewRequestedAt: Date | null; // Marked for review from the report
+}
+
+// Bulk actions from the inactive users report
+export type InactiveUserAction = 'remove_access' | 'mark_for_review' | 'clear_review';
+
+export interface InactiveUserActionResult {
+  serverUserId: string;
+  success: boolean;
+  error: string | null;
+}
+
 // Violation summary for embedded responses (simpler than ViolationWithDetails)
 export interface ViolationSummary {
   id: string;
@@ -104,6 +197,7 @@ export interface ViolationSummary {
   data: Record<string, unknown>;
   createdAt: Date;
   acknowledgedAt: Date | null;
+  status: ViolationStatus;
 }
 
 // Full user detail with all related data - returned by GET /users/:id/full
@@ -176,6 +270,8 @@ export interface Session {
   geoCountry: string | null;
   geoLat: number | null;
   geoLon: number | null;
+  asn: number | null; // Autonomous system number of ipAddress
+  asnOrg: string | null; // Organization owning the ASN (ISP, hosting provider, VPN)
   playerName: string | null; // Friendly device name
   deviceId: string | null; // Unique device identifier (machineIdentifier)
   product: string | null; // Product/app name (e.g., "Plex for iOS")
@@ -209,25 +305,47 @@ export type RuleType =
   | 'impossible_travel'
   | 'simultaneous_locations'
   | 'device_velocity'
+  | 'device_novelty'
   | 'concurrent_streams'
-  | 'geo_restriction';
+  | 'geo_restriction'
+  | 'anonymous_network'
+  | 'stream_quality'
+  | 'composite';
 
 export interface ImpossibleTravelParams {
   maxSpeedKmh: number;
   ignoreVpnRanges?: boolean;
 }
 
+// How location rules treat sessions from a user's known locations:
+// 'off' = no special handling, 'ignore' = never count them,
+// 'downweight' = still count them but lower the violation to low severity
+export type KnownLocationMode = 'off' | 'ignore' | 'downweight';
+
 export interface SimultaneousLocationsParams {
   minDistanceKm: number;
+  knownLocationMode?: KnownLocationMode;
 }
 
 export interface DeviceVelocityParams {
   maxIps: number;
   windowHours: number;
+  knownLocationMode?: KnownLocationMode;
 }
 
+// Fires when an account adds more than maxNewDevices never-before-seen devices within
+// windowHours, or (alertOnNewPlatform) when a device shows up on a platform the user never used
+export interface DeviceNoveltyParams {
+  maxNewDevices: number;
+  windowHours: number;
+  alertOnNewPlatform: boolean;
+}
+
+// Rules with useProfile read their limit from the identity's policy profile;
+// identities without a profile fall back to the rule's own params
 export interface ConcurrentStreamsParams {
   maxStreams: number;
+  useProfile?: boolean;
 }
 
 export type GeoRestrictionMode = 'blocklist' | 'allowlist';
@@ -235,29 +353,314 @@ export type GeoRestrictionMode = 'blocklist' | 'allowlist';
 export interface GeoRestrictionParams {
   mode: GeoRestrictionMode;
   countries: string[];
+  useProfile?: boolean; // Profile's allowed countries, as an allowlist
+}
+
+// Kinds of networks that hide where a user really is
+// hosting = datacenter/cloud IPs, vpn = commercial VPN exits, tor = Tor exit nodes, proxy = public proxies
+export type AnonymousNetworkCategory = 'hosting' | 'vpn' | 'tor' | 'proxy';
+
+export interface AnonymousNetworkParams {
+  categories: AnonymousNetworkCategory[];
+  asns: number[]; // Extra ASNs to flag, e.g. providers missing from the anonymous IP database
+}
+
+// Lowest source resolution a transcode must have to count toward maxConcurrentTranscodes
+export type TranscodeResolution = 'any' | '720p' | '1080p' | '4K';
+
+// Limits on transcoding and bandwidth; each limit is off when null
+// maxConcurrentTranscodes: transcodes a user may run at once (at transcodeResolution or above)
+// maxRemoteBitrateMbps: summed bitrate of a user's streams from outside the local network
+// maxTranscodePercent: share of a user's sessions over the last 24h that transcoded,
+// only checked once they have at least minSessions sessions
+export interface StreamQualityParams {
+  maxConcurrentTranscodes: number | null;
+  transcodeResolution: TranscodeResolution;
+  maxRemoteBitrateMbps: number | null;
+  maxTranscodePercent: number | null;
+  minSessions: number;
+  useProfile?: boolean; // Profile's max transcodes replaces maxConcurrentTranscodes
+}
+
+// Composite rules combine the other rule types in an AND/OR condition tree
+// e.g. concurrent_streams > 2 AND simultaneous_locations > 500 km
+export type CompositeConditionType = Exclude<RuleType, 'composite'>;
+
+export type CompositeOperator = 'and' | 'or';
+
+export interface CompositeCondition {
+  kind: 'condition';
+  type: CompositeConditionType;
+  params: RuleParams;
+}
+
+export interface CompositeGroup {
+  kind: 'group';
+  operator: CompositeOperator;
+  conditions: CompositeNode[];
+}
+
+export type CompositeNode = CompositeCondition | CompositeGroup;
+
+export interface CompositeParams {
+  root: CompositeGroup;
+}
+
+// A condition that matched while evaluating a composite rule
+// path is the index chain from the root group, e.g. "1.0" = first child of the root's second child
+export interface CompositeMatchedCondition {
+  path: string;
+  type: CompositeConditionType;
+  severity: ViolationSeverity;
+  data: Record<string, unknown>;
 }
 
 export type RuleParams =
   | ImpossibleTravelParams
   | SimultaneousLocationsParams
   | DeviceVelocityParams
+  | DeviceNoveltyParams
   | ConcurrentStreamsParams
-  | GeoRestrictionParams;
+  | GeoRestrictionParams
+  | AnonymousNetworkParams
+  | StreamQualityParams
+  | CompositeParams;
+
+// Automatic actions a rule can take when it fires
+// terminate_stream: kill the stream that triggered the violation
+// terminate_newest: kill only the most recently started stream involved in the violation
+// log_only: take no action on the media server, just record that the rule fired
+// disable_user: disable the account on the media server (Jellyfin/Emby)
+// remove_share: remove the user's share of the server (Plex)
+export type RuleActionType =
+  | 'terminate_stream'
+  | 'terminate_newest'
+  | 'log_only'
+  | 'disable_user'
+  | 'remove_share';
+
+export interface RuleAction {
+  type: RuleActionType;
+  message?: string; // Message shown to the user when the stream is killed (Plex only)
+  cooldownMinutes: number; // Per-user cooldown before this action runs again for the same rule
+}
+
+// Who a rule applies to (on top of the legacy single serverUserId)
+// Empty arrays mean "no restriction". serverIds narrows by server; userIds, roles and
+// groupIds are alternatives (a user matching any of them is targeted). Excluded
+// identities are always skipped, e.g. household members on a global stream limit.
+export interface RuleScope {
+  serverIds: string[];
+  userIds: string[]; // Identity (users.id) - covers all of that person's server accounts
+  roles: UserRole[];
+  groupIds: string[];
+  excludedUserIds: string[];
+  probationOnly?: boolean; // Only server accounts still on probation (see probationDays)
+}
+
+// When a rule is enforced, evaluated in the schedule's timezone at session start.
+// Windows limit the rule to certain days/hours (empty = always). Suspensions turn the
+// rule off for a date range, for one identity (e.g. declared vacation) or everyone.
+export interface RuleScheduleWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // "18:00"
+  endTime: string; // "23:00" - earlier than startTime means the window runs past midnight
+}
+
+export interface RuleScheduleSuspension {
+  userId: string | null; // Identity (users.id), null = everyone
+  startDate: string; // "2025-07-01" (inclusive)
+  endDate: string; // "2025-07-14" (inclusive)
+  reason?: string;
+}
+
+export interface RuleSchedule {
+  timezone: string;
+  windows: RuleScheduleWindow[];
+  suspensions: RuleScheduleSuspension[];
+}
 
 export interface Rule {
   id: string;
   name: string;
   type: RuleType;
   params: RuleParams;
+  actions: RuleAction[];
+  scope: RuleScope;
+  schedule: RuleSchedule | null; // null = always active
   serverUserId: string | null;
+  // Evaluate against the sessions of every server account linked to the same identity
+  crossServer: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Result of replaying a rule against past sessions without recording violations
+export interface RuleBacktestViolation {
+  sessionId: string;
+  serverUserId: string;
+  username: string;
+  serverId: string;
+  mediaTitle: string;
+  startedAt: Date;
+  severity: ViolationSeverity;
+  data: Record<string, unknown>;
+  existingViolationId: string | null; // The rule's recorded violation on the same session
+}
+
+export interface RuleBacktestUser {
+  serverUserId: string;
+  username: string;
+  violationCount: number;
+}
+
+export interface RuleBacktestDay {
+  date: string; // "2025-07-01" in the requested timezone
+  count: number;
+}
+
+// How the hypothetical violations line up with the rule's recorded violations
+export interface RuleBacktestOverlap {
+  existingCount: number; // Recorded violations in the window
+  matchedCount: number; // Would fire and was recorded
+  newCount: number; // Would fire but was not recorded
+  missedCount: number; // Was recorded but would no longer fire
+}
+
+export interface RuleBacktestResult {
+  ruleId: string;
+  from: Date;
+  to: Date;
+  sessionCount: number;
+  truncated: boolean; // More sessions than RULE_BACKTEST_LIMITS.MAX_SESSIONS in the window
+  violationCount: number;
+  violations: RuleBacktestViolation[]; // Newest first, at most RULE_BACKTEST_LIMITS.MAX_VIOLATIONS
+  users: RuleBacktestUser[];
+  daily: RuleBacktestDay[];
+  overlap: RuleBacktestOverlap;
+}
+
+// Places an identity is known to stream from (home, partner's home, mobile carrier)
+export type KnownLocationType = 'cidr' | 'asn' | 'geo';
+export type KnownLocationSource = 'manual' | 'learned';
+
+export interface KnownLocation {
+  id: string;
+  userId: string; // Identity (users.id)
+  type: KnownLocationType;
+  label: string;
+  cidr: string | null; // type 'cidr': "203.0.113.0/24" or "2001:db8::/48"
+  asn: number | null; // type 'asn'
+  lat: number | null; // type 'geo'
+  lon: number | null;
+  radiusKm: number | null;
+  source: KnownLocationSource;
+  pending: boolean; // Learned but not yet confirmed - rules ignore it until then
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Named groups of identities that rules can target
+export interface UserGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  userIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Named sets of limits assigned to identities (one profile per identity).
+// Rules with useProfile read their thresholds from it; null means no limit
+export interface PolicyProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  maxStreams: number | null;
+  allowedCountries: string[] | null; // null = any country
+  maxTranscodes: number | null;
+  userIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Identity merge suggestions - two identities that look like the same person
+export type IdentityMatchReason = 'shared_device' | 'shared_ip' | 'similar_username';
+
+export interface IdentityAccount {
+  id: string; // server_users.id
+  serverId: string;
+  serverName: string;
+  username: string;
+  thumbUrl: string | null;
+}
+
+export interface IdentitySummary {
+  id: string; // users.id
+  username: string;
+  name: string | null;
+  aggregateTrustScore: number;
+  accounts: IdentityAccount[];
+}
+
+export interface IdentityMergeSuggestion {
+  users: [IdentitySummary, IdentitySummary];
+  reasons: IdentityMatchReason[];
+  sharedDeviceCount: number;
+  sharedIpCount: number;
+}
+
+// Result of merging one identity into another
+export interface IdentityMergeResult {
+  userId: string; // The identity that was kept
+  mergedUserId: string; // The identity that was removed
+  serverUserIds: string[]; // Accounts now linked to userId
+}
+
+// Result of detaching a server account into its own identity
+export interface IdentitySplitResult {
+  userId: string; // The new identity
+  previousUserId: string;
+  serverUserId: string;
+}
+
+// Trust score history - one row per change to a server user's trust score
+export type TrustScoreEventReason =
+  | 'violation' // Penalty charged for a new violation
+  | 'violation_restored' // Penalty refunded (false positive or deleted violation)
+  | 'violation_recharged' // Refunded penalty charged again (left false positive)
+  | 'decay' // Penalty refunded because the violation aged out
+  | 'recovery' // Clean-streak recovery
+  | 'manual'; // Set by an owner
+
+// Trust level shown next to a trust score (see TRUST_LEVEL_THRESHOLDS)
+export type TrustLevel = 'trusted' | 'caution' | 'untrusted';
+
+export interface TrustScoreEvent {
+  id: string;
+  serverUserId: string;
+  delta: number; // Requested change (the score is clamped to the model's floor/ceiling)
+  score: number; // Score after the change
+  reason: TrustScoreEventReason;
+  violationId: string | null;
+  ruleName: string | null;
+  ruleType: RuleType | null;
+  actorName: string | null; // Owner who made a manual change
+  createdAt: Date;
+}
+
 // Violation types
 export type ViolationSeverity = 'low' | 'warning' | 'high';
 
+// Review workflow: open -> investigating -> confirmed_sharing / false_positive / resolved
+export type ViolationStatus =
+  | 'open'
+  | 'investigating'
+  | 'confirmed_sharing'
+  | 'false_positive'
+  | 'resolved';
+
 export interface Violation {
   id: string;
   ruleId: string;
@@ -267,11 +670,33 @@ export interface Violation {
   data: Record<string, unknown>;
   createdAt: Date;
   acknowledgedAt: Date | null;
+  status: ViolationStatus;
+  assigneeId: string | null; // Identity (users.id) reviewing the violation
+  dismissalReason: string | null; // Why it was marked false positive or resolved
+  trustRestoredAt: Date | null; // Set while the trust score penalty is refunded
+}
+
+// Free-text review note on a violation
+export interface ViolationNote {
+  id: string;
+  violationId: string;
+  authorId: string | null; // Null once the author account is deleted
+  authorName: string | null;
+  body: string;
+  createdAt: Date;
+}
+
+// Identity a violation can be assigned to (owners and admins)
+export interface ViolationAssignee {
+  id: string;
+  username: string;
+  name: string | null;
 }
 
 // Session info for violations (used in both session and relatedSessions)
 export interface ViolationSessionInfo {
   id: string;
+  serverId: string;
   mediaTitle: string;
   mediaType: MediaType;
   grandparentTitle: string | null;
@@ -284,6 +709,8 @@ export interface ViolationSessionInfo {
   geoCountry: string | null;
   geoLat: number | null;
   geoLon: number | null;
+  asn: number | null;
+  asnOrg: string | null;
   playerName: string | null;
   device: string | null;
   deviceId: string | null;
@@ -358,6 +785,7 @@ export interface LocationFilterOptions {
   users: { id: string; username: string; identityName: string | null }[];
   servers: { id: string; name: string }[];
   mediaTypes: ('movie' | 'episode' | 'track')[];
+  networks: { asn: number; asnOrg: string | null }[];
 }
 
 export interface LocationStatsResponse {
@@ -449,21 +877,45 @@ export interface ServerResourceStats {
 }
 
 // Webhook format types
-export type WebhookFormat = 'json' | 'ntfy' | 'apprise';
+export type WebhookFormat =
+  | 'json'
+  | 'ntfy'
+  | 'apprise'
+  | 'slack'
+  | 'telegram'
+  | 'matrix'
+  | 'gotify';
 
 // Unit system for display preferences (stored in settings)
 export type UnitSystem = 'metric' | 'imperial';
 
 // Settings types
+// Trust score model (settings.trustModel)
+// Penalties are charged per violation; rulePenalties override them per rule type.
+// Recovery adds points for every day a server user stays clean once they've been clean
+// for cleanDays. Decay refunds a violation's penalty once it is afterDays old.
+export type TrustPenalties = Record<ViolationSeverity, number>;
+
+export interface TrustModel {
+  penalties: TrustPenalties;
+  rulePenalties: Partial<Record<RuleType, Partial<TrustPenalties>>>;
+  floor: number;
+  ceiling: number;
+  recovery: {
+    enabled: boolean;
+    cleanDays: number;
+    pointsPerDay: number;
+  };
+  decay: {
+    enabled: boolean;
+    afterDays: number;
+  };
+}
+
 export interface Settings {
   allowGuestAccess: boolean;
   // Display preferences
   unitSystem: UnitSystem;
-  discordWebhookUrl: string | null;
-  customWebhookUrl: string | null;
-  webhookFormat: WebhookFormat | null;
-  ntfyTopic: string | null;
-  ntfyAuthToken: string | null;
   // Poller settings
   pollerEnabled: boolean;
   pollerIntervalMs: number;
@@ -478,6 +930,10 @@ export interface Settings {
   mobileEnabled: boolean;
   // Authentication settings
   primaryAuthMethod: 'jellyfin' | 'local';
+  // Trust scores
+  trustModel: TrustModel;
+  // New server accounts are on probation for this many days (0 = no probation)
+  probationDays: number;
 }
 
 // Tautulli import types
@@ -532,6 +988,9 @@ export interface ServerToClientEvents {
   'stats:updated': (stats: DashboardStats) => void;
   'import:progress': (progress: TautulliImportProgress) => void;
   'version:update': (data: { current: string; latest: string; releaseUrl: string }) => void;
+  'device:new': (alert: NewDeviceAlert) => void;
+  'streams:concurrent': (alert: ConcurrentStreamsAlert) => void;
+  'trust:changed': (alert: TrustScoreAlert) => void;
 }
 
 export interface ClientToServerEvents {
@@ -625,6 +1084,15 @@ export interface FilterOptionItem {
   count: number;
 }
 
+/**
+ * Network option for the ASN filter dropdown.
+ */
+export interface NetworkFilterOption {
+  asn: number;
+  asnOrg: string | null;
+  count: number;
+}
+
 /**
  * User option for user filter dropdown.
  */
@@ -650,6 +1118,8 @@ export interface HistoryFilterOptions {
   countries: FilterOptionItem[];
   /** Available cities */
   cities: FilterOptionItem[];
+  /** Available networks (ASN and organization) */
+  networks: NetworkFilterOption[];
   /** Available users (with avatar info) */
   users: UserFilterOption[];
 }
@@ -738,7 +1208,10 @@ export type NotificationEventType =
   | 'new_device'
   | 'trust_score_changed'
   | 'server_down'
-  | 'server_up';
+  | 'server_up'
+  | 'user_suspended'
+  | 'user_reinstated'
+  | 'new_server_user';
 
 // Notification preferences (per-device settings)
 export interface NotificationPreferences {
@@ -792,20 +1265,120 @@ export interface NotificationPreferencesWithStatus extends NotificationPreferenc
 }
 
 // Notification channel types
-export type NotificationChannel = 'discord' | 'webhook' | 'push' | 'webToast';
+export type NotificationChannel = 'discord' | 'webhook' | 'push' | 'webToast' | 'email';
 
 // Notification channel routing configuration (per-event type)
+// Discord and webhooks are routed per destination (see NotificationDestinationRoute)
 export interface NotificationChannelRouting {
   id: string;
   eventType: NotificationEventType;
-  discordEnabled: boolean;
-  webhookEnabled: boolean;
   pushEnabled: boolean;
   webToastEnabled: boolean;
+  emailEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Notification destination types (webhook destinations pick a payload format)
+export type NotificationDestinationType = 'discord' | 'webhook';
+
+// Sends an event type to a destination, optionally only for one server or severity
+export interface NotificationDestinationRoute {
+  id: string;
+  destinationId: string;
+  eventType: NotificationEventType;
+  serverId: string | null; // null = every server
+  minSeverity: ViolationSeverity | null; // Violations only, null = every severity
+  createdAt: Date;
+}
+
+// A named Discord or webhook target with its own credentials and format
+export interface NotificationDestination {
+  id: string;
+  name: string;
+  type: NotificationDestinationType;
+  webhookUrl: string;
+  webhookFormat: WebhookFormat; // Ignored for Discord
+  ntfyTopic: string | null; // Required when webhookFormat is 'ntfy'
+  chatId: string | null; // Telegram chat or Matrix room, required for those formats
+  authToken: string | null; // Masked in API responses
+  enabled: boolean;
+  routes: NotificationDestinationRoute[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Custom title and body for an event, with {{placeholders}} filled in when sent
+// Events without a template use the built-in messages
+export interface NotificationTemplate {
+  eventType: NotificationEventType;
+  title: string;
+  body: string;
+  updatedAt: Date;
+}
+
+// A template rendered against sample data
+export interface NotificationTemplatePreview {
+  title: string;
+  body: string;
+}
+
+// How often the email digest is sent
+export type EmailDigestFrequency = 'off' | 'daily' | 'weekly';
+export type EmailDigestPeriod = Exclude<EmailDigestFrequency, 'off'>;
+
+// SMTP server, recipients and digest schedule for email notifications
+export interface EmailSettings {
+  enabled: boolean;
+  smtpHost: string | null;
+  smtpPort: number;
+  smtpSecure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS when offered
+  smtpUsername: string | null;
+  smtpPassword: string | null; // Masked in API responses
+  fromAddress: string | null;
+  recipients: string[];
+  digestFrequency: EmailDigestFrequency;
+  digestHour: number; // 0-23, in digestTimezone
+  digestWeekday: number; // 0 = Sunday ... 6 = Saturday, for weekly digests
+  digestTimezone: string; // IANA timezone
+  updatedAt: Date | null;
+}
+
+// Server user the alerts below are about
+export interface AlertUser {
+  serverUserId: string;
+  username: string;
+  identityName: string | null;
+  serverId: string;
+  serverName: string;
+}
+
+// A server user streamed from a device they haven't used before
+export interface NewDeviceAlert extends AlertUser {
+  sessionId: string;
+  deviceId: string;
+  playerName: string | null;
+  product: string | null;
+  platform: string | null;
+  geoCity: string | null;
+  geoCountry: string | null;
+}
+
+// A server user started another stream while already streaming
+export interface ConcurrentStreamsAlert extends AlertUser {
+  sessionId: string;
+  streamCount: number; // Active streams including the new one
+}
+
+// A violation penalty moved a server user's trust score to another trust level
+export interface TrustScoreAlert extends AlertUser {
+  previousScore: number;
+  score: number;
+  previousLevel: TrustLevel;
+  level: TrustLevel;
+  violationId: string | null;
+}
+
 // Encrypted push payload (AES-256-GCM with separate authTag per security best practices)
 export interface EncryptedPushPayload {
   v: 1; // Version for future-proofing
@@ -948,6 +1521,7 @@ export interface TerminationLogWithDetails {
   ruleId: string | null;
   ruleName: string | null; // Joined from rules table
   violationId: string | null;
+  action: RuleActionType | null; // Rule action that produced this entry (rule trigger only)
   reason: string | null;
   success: boolean;
   errorMessage: string | null;
@@ -957,6 +1531,157 @@ export interface TerminationLogWithDetails {
   mediaType: MediaType | null;
 }
 
+// =============================================================================
+// Server Account Action Types
+// =============================================================================
+
+// Changes to a server account's access on its media server
+// disable_user: Jellyfin/Emby account can no longer sign in
+// remove_share: Plex server is no longer shared with the user
+// restrict_libraries: user only sees the chosen libraries
+export type AccountActionType = 'disable_user' | 'remove_share' | 'restrict_libraries';
+
+// What a server account can access, captured before each action so it can be undone
+export interface ServerAccountAccess {
+  isDisabled: boolean; // Always false on Plex, where shared users can't be disabled
+  isShared: boolean; // Always true on Jellyfin/Emby, where accounts are local
+  libraryIds: string[] | null; // null = all libraries
+}
+
+// Account action log entry with joined details for display
+export interface AccountActionLog {
+  id: string;
+  serverId: string;
+  serverUserId: string;
+  action: AccountActionType;
+  trigger: TerminationTrigger;
+  triggeredByUsername: string | null; // Joined from users table
+  ruleName: string | null; // Joined from rules table
+  violationId: string | null;
+  libraryIds: string[] | null; // Libraries kept (restrict_libraries only)
+  previousAccess: ServerAccountAccess | null; // Restored by undo
+  success: boolean;
+  errorMessage: string | null;
+  undoneAt: Date | null;
+  undoneByUsername: string | null;
+  createdAt: Date;
+}
+
+// Current access and action history for a server account
+export interface ServerAccountStatus {
+  access: ServerAccountAccess | null; // null when the media server couldn't be reached
+  error: string | null;
+  supportedActions: AccountActionType[];
+  libraries: { id: string; name: string }[];
+  actions: AccountActionLog[];
+  suspension: UserSuspension | null; // Active suspension, if any
+}
+
+// How a suspension ended
+// expired: reinstated automatically when it ran out
+// lifted: reinstated early by hand
+export type SuspensionEndReason = 'expired' | 'lifted';
+
+// Time-boxed suspension: the account is disabled (or unshared on Plex) until endsAt
+export interface UserSuspension {
+  id: string;
+  serverId: string;
+  serverUserId: string;
+  accountActionId: string | null; // The action undone to reinstate the account
+  reason: string | null;
+  endsAt: Date;
+  suspendedByUsername: string | null; // Joined from users table
+  endedAt: Date | null;
+  endReason: SuspensionEndReason | null;
+  endedByUsername: string | null; // null when reinstated automatically
+  reinstateError: string | null; // Set when automatic reinstatement gave up
+  createdAt: Date;
+}
+
+// =============================================================================
+// Audit Log Types
+// =============================================================================
+
+// What kind of record an audited action changed
+export type AuditEntityType =
+  | 'rule'
+  | 'settings'
+  | 'server'
+  | 'user'
+  | 'violation'
+  | 'group'
+  | 'policy_profile'
+  | 'mobile'
+  | 'debug';
+
+export type AuditAction =
+  | 'rule.create'
+  | 'rule.update'
+  | 'rule.delete'
+  | 'settings.update'
+  | 'settings.destination_create' // Notification destinations
+  | 'settings.destination_update'
+  | 'settings.destination_delete'
+  | 'settings.template_update' // Notification templates
+  | 'settings.template_reset'
+  | 'settings.email_update' // Email (SMTP) settings
+  | 'server.create'
+  | 'server.delete'
+  | 'user.update' // Trust score set by hand
+  | 'user.identity_update'
+  | 'user.merge'
+  | 'user.split'
+  | 'user.permissions_update'
+  | 'user.account_action' // Account disabled, share removed or libraries restricted
+  | 'user.account_undo'
+  | 'user.suspend'
+  | 'user.suspension_extend'
+  | 'user.suspension_lift'
+  | 'user.probation_end'
+  | 'user.review_mark' // Marked for review from the inactive users report
+  | 'user.review_clear'
+  | 'user.location_add' // Known locations
+  | 'user.location_update'
+  | 'user.location_remove'
+  | 'user.location_learn'
+  | 'user.location_confirm'
+  | 'violation.update' // Acknowledged or reviewed
+  | 'violation.delete'
+  | 'group.create'
+  | 'group.update' // Renamed or members changed
+  | 'group.delete'
+  | 'policy_profile.create'
+  | 'policy_profile.update'
+  | 'policy_profile.delete'
+  | 'policy_profile.assign'
+  | 'mobile.enable'
+  | 'mobile.disable'
+  | 'mobile.pair_token'
+  | 'mobile.pair'
+  | 'mobile.revoke'
+  | 'debug.delete'
+  | 'debug.reset';
+
+// A changed field; null before means created, null after means removed
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  actorId: string | null;
+  actorName: string | null; // Kept when the actor is deleted
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  entityName: string | null;
+  serverId: string | null;
+  changes: Record<string, AuditChange>;
+  ipAddress: string | null;
+  createdAt: Date;
+}
+
 // =============================================================================
 // Plex Server Discovery Types
 // =============================================================================